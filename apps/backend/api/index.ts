@@ -14,6 +14,8 @@ async function createApp() {
     app = await NestFactory.create(
       AppModule,
       new ExpressAdapter(server),
+      // Webhook の署名検証に受信したままのリクエストボディを使う
+      { rawBody: true },
     );
 
     // CORS設定
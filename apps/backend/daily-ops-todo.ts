@@ -21,6 +21,7 @@ import { PrismaClient } from '@prisma/client';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import * as fs from 'fs';
+import { resolveAppealProfile, toFunnelName } from './src/channel-registry/domain/channel';
 dotenv.config({ path: path.join(__dirname, '.env') });
 
 const { google } = require('googleapis');
@@ -37,32 +38,9 @@ const KPI = {
   'スキルプラス': { allowableCPA: 6000, allowableFrontCPO: null, allowableIndResCPO: 48830 },
 };
 
-// アカウントと導線の対応
-const ACCOUNT_APPEAL: Record<string, string> = {
-  '7468288053866561553': 'AI',    // AI_1
-  '7523128243466551303': 'AI',    // AI_2
-  '7543540647266074641': 'AI',    // AI_3
-  '7580666710525493255': 'AI',    // AI_4
-  '7247073333517238273': 'SNS',   // SNS1
-  '7543540100849156112': 'SNS',   // SNS2
-  '7543540381615800337': 'SNS',   // SNS3
-  '7474920444831875080': 'スキルプラス', // SP1
-  '7592868952431362066': 'スキルプラス', // SP2
-  '7616545514662051858': 'スキルプラス', // SP3
-};
-
-const ACCOUNT_NAMES: Record<string, string> = {
-  '7468288053866561553': 'AI_1',
-  '7523128243466551303': 'AI_2',
-  '7543540647266074641': 'AI_3',
-  '7580666710525493255': 'AI_4',
-  '7247073333517238273': 'SNS1',
-  '7543540100849156112': 'SNS2',
-  '7543540381615800337': 'SNS3',
-  '7474920444831875080': 'SP1',
-  '7592868952431362066': 'SP2',
-  '7616545514662051858': 'SP3',
-};
+// アカウントと導線の対応（loadAccountRegistryでDBの訴求設定から読み込む）
+let ACCOUNT_APPEAL: Record<string, string> = {};
+let ACCOUNT_NAMES: Record<string, string> = {};
 
 // 個別予約シートの設定
 const RESERVATION_SHEET_CONFIG: Record<string, { sheetName: string; dateCol: number; pathCol: number }> = {
@@ -73,6 +51,24 @@ const RESERVATION_SHEET_CONFIG: Record<string, { sheetName: string; dateCol: num
 
 const prisma = new PrismaClient();
 
+// ===== アカウント・導線の読み込み（チャネルレジストリ） =====
+async function loadAccountRegistry(): Promise<void> {
+  const advertisers = await prisma.advertiser.findMany({
+    where: { appealId: { not: null } },
+    include: { appeal: true },
+    orderBy: { name: 'asc' },
+  });
+
+  ACCOUNT_APPEAL = {};
+  ACCOUNT_NAMES = {};
+  for (const adv of advertisers) {
+    if (!adv.appeal) continue;
+    const profile = resolveAppealProfile(adv.appeal);
+    ACCOUNT_APPEAL[adv.tiktokAdvertiserId] = toFunnelName(profile.channelType);
+    ACCOUNT_NAMES[adv.tiktokAdvertiserId] = adv.shortName || adv.name;
+  }
+}
+
 // ===== ルールファイル読み込み =====
 interface OpsRule {
   id: string;
@@ -1386,7 +1382,7 @@ async function analyzeFunnelBottlenecks(sheets: any) {
       const bottlenecks = detectBottlenecks(channelType, metrics.stageMetrics, kpi);
 
       // 表示
-      const profitIcon = simulation.isOnTrack ? '✅' : '❌';
+      const profitIcon = simulation.onTrackProbability >= 0.5 ? '✅' : '❌';
       console.log(`\n  [${label}] 粗利: ¥${simulation.actualProfit.toLocaleString()} → 月末推定 ¥${simulation.projectedProfit.toLocaleString()} / 目標 ¥${targetProfit.toLocaleString()} ${profitIcon}`);
 
       // ステージ実績をファネル形式で表示
@@ -1423,7 +1419,7 @@ async function analyzeFunnelBottlenecks(sheets: any) {
   // 全体サマリー
   if (channelResults.length > 0) {
     const summary = calculateTotalProfitSummary(channelResults, { year, month });
-    console.log(`\n  【全体】月末推定粗利 ¥${summary.totalProjectedProfit.toLocaleString()} / 目標 ¥${summary.totalTargetProfit.toLocaleString()} ${summary.isOnTrack ? '✅' : '❌'}`);
+    console.log(`\n  【全体】月末推定粗利 ¥${summary.totalProjectedProfit.toLocaleString()} / 目標 ¥${summary.totalTargetProfit.toLocaleString()} ${summary.onTrackProbability >= 0.5 ? '✅' : '❌'}`);
   }
 }
 
@@ -1726,6 +1722,10 @@ async function main() {
   console.log(`  日次運用OS - ${dateStr} のTodo`);
   console.log(`${'='.repeat(60)}\n`);
 
+  // アカウント・導線の読み込み
+  await loadAccountRegistry();
+  console.log(`  対象アカウント: ${Object.keys(ACCOUNT_APPEAL).length}件（訴求設定より）`);
+
   // ルール読み込み
   const rules = loadRules();
   if (rules.length > 0) {
@@ -256,7 +256,7 @@ async function main() {
       channelResults.push(simulation);
       console.log(`  実績粗利: ¥${simulation.actualProfit.toLocaleString()} (${actualDays}日)`);
       console.log(`  月末推定粗利: ¥${simulation.projectedProfit.toLocaleString()}`);
-      console.log(`  目標粗利: ¥${simulation.targetProfit.toLocaleString()} → ${simulation.isOnTrack ? '✅ 達成見込み' : `❌ 未達 (差額 ¥${simulation.gapToTarget.toLocaleString()})`}`);
+      console.log(`  目標粗利: ¥${simulation.targetProfit.toLocaleString()} → ${simulation.onTrackProbability >= 0.5 ? '✅ 達成見込み' : `❌ 未達 (差額 ¥${simulation.gapToTarget.toLocaleString()})`}`);
 
       // Step 3-4: 方向判定
       console.log(`\n── [${channelType}] Step 3-4: 改善方向 ──`);
@@ -294,7 +294,7 @@ async function main() {
   console.log(`  実績粗利合計: ¥${summary.totalActualProfit.toLocaleString()}`);
   console.log(`  月末推定粗利: ¥${summary.totalProjectedProfit.toLocaleString()}`);
   console.log(`  目標粗利合計: ¥${summary.totalTargetProfit.toLocaleString()}`);
-  console.log(`  達成見込み: ${summary.isOnTrack ? '✅' : '❌'}`);
+  console.log(`  達成見込み: ${summary.onTrackProbability >= 0.5 ? '✅' : '❌'}`);
   console.log(`${'='.repeat(60)}`);
 }
 
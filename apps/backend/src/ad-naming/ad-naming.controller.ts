@@ -0,0 +1,71 @@
+// ============================================================================
+// AdNamingController - 命名規則から外れた配信中広告の一覧と一括リネーム
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AdNamingService, type AdRenameInput } from './ad-naming.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@Controller('api/ad-naming')
+export class AdNamingController {
+  private readonly logger = new Logger(AdNamingController.name);
+
+  constructor(private readonly adNamingService: AdNamingService) {}
+
+  /**
+   * 広告名が読めず自動化の対象外になっている配信中の広告（修正後の名前の候補つき）
+   * GET /api/ad-naming/non-conforming?advertiserId=xxx
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
+  @Get('non-conforming')
+  async nonConforming(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
+  ) {
+    return this.handle('List non-conforming ads', () =>
+      this.adNamingService.listNonConforming(
+        { advertiserId },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  /**
+   * 通常広告の名前をまとめて変更する
+   * POST /api/ad-naming/rename  { renames: [{ advertiserId, adId, name }] }
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_WRITE)
+  @Post('rename')
+  async rename(
+    @Body() body: { renames?: AdRenameInput[] },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Rename ads', () =>
+      this.adNamingService.rename(body?.renames, principal.advertiserIds),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[AD-NAMING] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
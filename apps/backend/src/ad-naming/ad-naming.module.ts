@@ -0,0 +1,15 @@
+// ============================================================================
+// AdNamingModule - 広告の命名規則と対象外広告の一覧・リネーム
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { AdNamingService } from './ad-naming.service';
+import { AdNamingController } from './ad-naming.controller';
+import { TiktokModule } from '../tiktok/tiktok.module';
+
+@Module({
+  imports: [TiktokModule],
+  controllers: [AdNamingController],
+  providers: [AdNamingService],
+})
+export class AdNamingModule {}
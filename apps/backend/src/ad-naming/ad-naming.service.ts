@@ -0,0 +1,277 @@
+// ============================================================================
+// AdNamingService - 命名規則から外れて自動化の対象外になっている広告
+// 予算調整・日中停止等は広告名（YYMMDD/制作者名/CR名/LP{n}-CR{5桁}）を読めない広告を
+// 黙ってスキップする。配信中の広告からそれらを洗い出して修正後の名前を提案し、
+// 通常広告は TikTok の広告名をまとめて変更できるようにする
+// ============================================================================
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import {
+  adNameErrors,
+  adNameIssue,
+  launchDateOf,
+  suggestAdName,
+  type AdNameIssue,
+} from './domain/ad-name';
+
+export interface NonConformingAd {
+  advertiserId: string;
+  adId: string;
+  adgroupId: string | null;
+  campaignId: string | null;
+  adName: string;
+  isSmartPlus: boolean;
+  issue: AdNameIssue;
+  /** 修正後の名前の候補（名前から推測できなければ null） */
+  suggestedName: string | null;
+  /** POST /api/ad-naming/rename で名前を変えられるか（Smart+広告は不可） */
+  renamable: boolean;
+}
+
+export interface NonConformingReport {
+  ads: NonConformingAd[];
+  checkedAdvertiserIds: string[];
+  /** 広告を取得できなかった広告アカウント */
+  failed: { advertiserId: string; error: string }[];
+}
+
+export interface AdRenameInput {
+  advertiserId: string;
+  adId: string;
+  name: string;
+}
+
+export interface AdRenameResult {
+  renamed: { advertiserId: string; adId: string; from: string; to: string }[];
+  failed: { advertiserId: string; adId: string; error: string }[];
+}
+
+@Injectable()
+export class AdNamingService {
+  private readonly logger = new Logger(AdNamingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+    private readonly tokenVault: TokenVaultService,
+  ) {}
+
+  /**
+   * 配信中（ENABLE）の広告のうち、広告名が読めず自動化の対象外になっているもの
+   * @param scope 扱える広告アカウント（null なら全アカウント）
+   */
+  async listNonConforming(
+    query: { advertiserId?: string },
+    scope: string[] | null,
+    now: Date = new Date(),
+  ): Promise<NonConformingReport> {
+    if (query.advertiserId && scope !== null) {
+      this.assertAccess([query.advertiserId], scope);
+    }
+    const advertisers = await this.prisma.advertiser.findMany({
+      where: {
+        status: 'ACTIVE',
+        ...(query.advertiserId
+          ? { tiktokAdvertiserId: query.advertiserId }
+          : scope !== null && { tiktokAdvertiserId: { in: scope } }),
+      },
+      orderBy: { tiktokAdvertiserId: 'asc' },
+    });
+
+    const report: NonConformingReport = {
+      ads: [],
+      checkedAdvertiserIds: [],
+      failed: [],
+    };
+    for (const { tiktokAdvertiserId: advertiserId } of advertisers) {
+      try {
+        report.ads.push(...(await this.nonConformingAds(advertiserId, now)));
+        report.checkedAdvertiserIds.push(advertiserId);
+      } catch (error) {
+        this.logger.warn(
+          `[AD-NAMING] Failed to list ads for ${advertiserId}: ${error.message}`,
+        );
+        report.failed.push({ advertiserId, error: error.message });
+      }
+    }
+    this.logger.log(
+      `[AD-NAMING] Non-conforming ads: ${report.ads.length} (advertisers=${report.checkedAdvertiserIds.length}, failed=${report.failed.length})`,
+    );
+    return report;
+  }
+
+  /**
+   * 通常広告の名前をまとめて変更する（TikTok と同期済みの Ad の両方）
+   * 新しい名前はすべて命名規則に合っていること。1件の失敗で残りは止めない
+   */
+  async rename(
+    renames: AdRenameInput[] | undefined,
+    scope: string[] | null,
+  ): Promise<AdRenameResult> {
+    const errors: string[] = [];
+    if (!Array.isArray(renames) || renames.length === 0) {
+      errors.push('renames must be a non-empty array');
+    } else {
+      renames.forEach((item, index) => {
+        if (!item?.advertiserId) {
+          errors.push(`renames[${index}]: advertiserId is required`);
+        }
+        if (!item?.adId) errors.push(`renames[${index}]: adId is required`);
+        errors.push(
+          ...adNameErrors(item?.name).map(
+            (error) => `renames[${index}]: ${error}`,
+          ),
+        );
+      });
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException('Invalid rename: ' + errors.join('; '));
+    }
+    const items = renames as AdRenameInput[];
+    if (scope !== null) {
+      this.assertAccess(
+        items.map((item) => item.advertiserId),
+        scope,
+      );
+    }
+
+    const result: AdRenameResult = { renamed: [], failed: [] };
+    for (const { advertiserId, adId, name } of items) {
+      try {
+        const accessToken = await this.accessToken(advertiserId);
+        const current = await this.tiktokService.getAd(
+          advertiserId,
+          accessToken,
+          adId,
+        );
+        await this.tiktokService.updateAd(
+          advertiserId,
+          accessToken,
+          adId,
+          String(current.adgroup_id),
+          { adName: name },
+        );
+        await this.prisma.ad.updateMany({
+          where: { tiktokId: adId },
+          data: { name },
+        });
+        result.renamed.push({
+          advertiserId,
+          adId,
+          from: current.ad_name,
+          to: name,
+        });
+        this.logger.log(
+          `[AD-NAMING] Renamed ad ${adId}: ${current.ad_name} -> ${name}`,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `[AD-NAMING] Failed to rename ad ${adId}: ${error.message}`,
+        );
+        result.failed.push({ advertiserId, adId, error: error.message });
+      }
+    }
+    return result;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  /**
+   * 1アカウント分（日中停止の配信中広告の取り方に合わせる）
+   * 通常の /ad/get/ にも Smart+ 広告の各クリエイティブが返るため、Smart+ 広告のIDと重なるものは除く
+   */
+  private async nonConformingAds(
+    advertiserId: string,
+    now: Date,
+  ): Promise<NonConformingAd[]> {
+    const accessToken = await this.accessToken(advertiserId);
+    const smartPlusResponse = await this.tiktokService.getSmartPlusAds(
+      advertiserId,
+      accessToken,
+      undefined,
+      'ENABLE',
+    );
+    const smartPlusAds: any[] = smartPlusResponse.data?.list || [];
+    const smartPlusAdIds = new Set(
+      smartPlusAds.map((ad) => ad.smart_plus_ad_id),
+    );
+    const adsResponse = await this.tiktokService.getAds(
+      advertiserId,
+      accessToken,
+      undefined,
+      'ENABLE',
+    );
+    const regularAds: any[] = (adsResponse.data?.list || []).filter(
+      (ad: any) =>
+        ad.operation_status === 'ENABLE' &&
+        !smartPlusAdIds.has(ad.ad_id) &&
+        !smartPlusAdIds.has(ad.smart_plus_ad_id),
+    );
+
+    const ads = [
+      ...regularAds.map((ad) => ({ ad, adId: ad.ad_id, isSmartPlus: false })),
+      ...smartPlusAds.map((ad) => ({
+        ad,
+        adId: ad.smart_plus_ad_id || ad.ad_id,
+        isSmartPlus: true,
+      })),
+    ];
+    const result: NonConformingAd[] = [];
+    for (const { ad, adId, isSmartPlus } of ads) {
+      const adName: string = ad.ad_name ?? '';
+      const issue = adNameIssue(adName);
+      if (!issue) continue;
+      result.push({
+        advertiserId,
+        adId: String(adId),
+        adgroupId: ad.adgroup_id ? String(ad.adgroup_id) : null,
+        campaignId: ad.campaign_id ? String(ad.campaign_id) : null,
+        adName,
+        isSmartPlus,
+        issue,
+        suggestedName: suggestAdName(
+          adName,
+          launchDateOf(parseTikTokTime(ad.create_time) ?? now),
+        ),
+        renamable: !isSmartPlus,
+      });
+    }
+    return result;
+  }
+
+  private assertAccess(advertiserIds: string[], scope: string[]) {
+    const denied = [...new Set(advertiserIds)].filter(
+      (id) => !scope.includes(id),
+    );
+    if (denied.length > 0) {
+      throw new ForbiddenException(
+        `No access to advertisers: ${denied.join(', ')}`,
+      );
+    }
+  }
+
+  private async accessToken(advertiserId: string): Promise<string> {
+    const token = await this.tokenVault.findByAdvertiserId(advertiserId);
+    if (!token) {
+      throw new Error(`アクセストークンが見つかりません: ${advertiserId}`);
+    }
+    return token.accessToken;
+  }
+}
+
+/** TikTok の日時（UTC, YYYY-MM-DD HH:mm:ss） */
+function parseTikTokTime(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,89 @@
+import {
+  adNameErrors,
+  adNameIssue,
+  adNamePartErrors,
+  formatAdName,
+  isCreativeFileName,
+  launchDateOf,
+  parseAdName,
+  suggestAdName,
+} from './ad-name';
+
+describe('parseAdName', () => {
+  it('CR名の "/" を含めて読み取り、訴求を渡すと登録経路を組み立てる', () => {
+    expect(parseAdName('260301/山田/朝型/奇行/LP2-CR00468', 'AI')).toEqual({
+      raw: '260301/山田/朝型/奇行/LP2-CR00468',
+      launchDate: '260301',
+      creator: '山田',
+      crName: '朝型/奇行',
+      lpName: 'LP2-CR00468',
+      lpNumber: 2,
+      crNumber: 468,
+      appeal: 'AI',
+      registrationPath: 'TikTok広告-AI-LP2-CR00468',
+    });
+    expect(parseAdName('260301/山田/朝型CR/LP1')).toMatchObject({
+      lpNumber: 1,
+      crNumber: null,
+      registrationPath: null,
+    });
+    expect(parseAdName('260301/山田/LP1-CR00001')).toBeNull();
+    expect(parseAdName(null)).toBeNull();
+  });
+});
+
+describe('adNameIssue', () => {
+  it('クリエイティブ名と "/" 区切りが足りない名前を自動化の対象外にする', () => {
+    expect(isCreativeFileName('庭_女性演者.MP4')).toBe(true);
+    expect(adNameIssue('260301/山田/cut.mp4/LP1-CR00001')).toBe(
+      'CREATIVE_FILE_NAME',
+    );
+    expect(adNameIssue('山田_朝型CR_LP1-CR00001')).toBe('INVALID_FORMAT');
+    expect(adNameIssue('260301/山田/朝型CR/LP1-CR00001')).toBeNull();
+  });
+});
+
+describe('adNameErrors', () => {
+  it('出稿する名前は実在する日付と LP{n}-CR{5桁} に限る', () => {
+    expect(adNameErrors('260301/山田/朝型/奇行/LP1-CR00001')).toEqual([]);
+    expect(adNameErrors('260231/ /朝型CR/LP1_1')).toEqual([
+      'launch date must be a valid YYMMDD: "260231"',
+      'creator is required',
+      'LP name must be LP{n}-CR{5 digits}: "LP1_1"',
+    ]);
+    expect(adNameErrors('LP1_1')).toEqual([
+      'ad name must be in the form YYMMDD/制作者名/CR名/LP{n}-CR{5桁}: "LP1_1"',
+    ]);
+    expect(
+      adNamePartErrors({ creator: '山田/佐藤', crName: '朝型CR' }),
+    ).toEqual(['creator must not contain "/": "山田/佐藤"']);
+  });
+});
+
+describe('formatAdName / launchDateOf', () => {
+  it('CR番号を5桁にし、出稿日は JST の日付にする', () => {
+    expect(
+      formatAdName({
+        launchDate: launchDateOf(new Date('2026-02-28T15:30:00.000Z')),
+        creator: '山田',
+        crName: '朝型CR',
+        lpNumber: 1,
+        crNumber: 42,
+      }),
+    ).toBe('260301/山田/朝型CR/LP1-CR00042');
+  });
+});
+
+describe('suggestAdName', () => {
+  it('全角スラッシュ・拡張子・番号の区切りの揺れを直し、出稿日がなければ補う', () => {
+    expect(suggestAdName('260301／山田／朝型CR／LP1-CR00001', '260310')).toBe(
+      '260301/山田/朝型CR/LP1-CR00001',
+    );
+    expect(suggestAdName('山田/朝型CR/LP2_CR12.mp4', '260310')).toBe(
+      '260310/山田/朝型CR/LP2-CR00012',
+    );
+    // LP番号・CR番号・制作者名は作れない
+    expect(suggestAdName('朝型CR.mp4', '260310')).toBeNull();
+    expect(suggestAdName('朝型CR/LP1-CR00001', '260310')).toBeNull();
+  });
+});
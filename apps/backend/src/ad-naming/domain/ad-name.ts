@@ -0,0 +1,242 @@
+// ============================================================================
+// 広告名 - 純粋関数のみ
+//
+// 広告名は「出稿日/制作者名/CR名/LP名-番号」（例: 260301/山田/朝型CR/LP1-CR00001）。
+// CR名は "/" を含んでよく、先頭2つと末尾以外をCR名とみなす。
+// 自動化（予算調整・日中停止等）はこの形式で読める広告だけを対象にし、
+// 末尾の LP名-番号 から UTAGE の登録経路（TikTok広告-訴求-LP1-CR00001）を組み立てる
+// ============================================================================
+
+/** 出稿時に守る形式（エラーメッセージ・画面表示用） */
+export const AD_NAME_FORMAT = 'YYMMDD/制作者名/CR名/LP{n}-CR{5桁}';
+
+/** 広告名にこれらの拡張子を含むものはクリエイティブ名（旧スマプラ等） */
+const CREATIVE_FILE_EXTENSIONS = [
+  '.mp4',
+  '.mov',
+  '.avi',
+  '.jpg',
+  '.jpeg',
+  '.png',
+  '.gif',
+];
+
+const LAUNCH_DATE_PATTERN = /^\d{6}$/;
+const LP_NAME_PATTERN = /^LP(\d+)-CR(\d{5,})$/;
+
+export interface AdName {
+  raw: string;
+  /** 出稿日（YYMMDD のはずだが、読み取りでは検証しない） */
+  launchDate: string;
+  creator: string;
+  /** CR名（"/" を含むことがある） */
+  crName: string;
+  /** 末尾のパート（LP名-番号。例: LP1-CR00001） */
+  lpName: string;
+  /** LP番号（LP名から読めなければ null） */
+  lpNumber: number | null;
+  /** CR番号（LP名から読めなければ null） */
+  crNumber: number | null;
+  /** 訴求（広告名には含まれないため、アカウントの訴求を渡したときだけ） */
+  appeal: string | null;
+  /** UTAGE の登録経路（訴求を渡したときだけ） */
+  registrationPath: string | null;
+}
+
+export interface AdNameParts {
+  launchDate: string;
+  creator: string;
+  crName: string;
+  lpNumber: number;
+  crNumber: number;
+}
+
+/**
+ * 自動化の対象外になる理由
+ * CREATIVE_FILE_NAME: クリエイティブのファイル名のまま / INVALID_FORMAT: "/" 区切りが4つ未満
+ */
+export type AdNameIssue = 'CREATIVE_FILE_NAME' | 'INVALID_FORMAT';
+
+// ============================================================================
+// 読み取り
+// ============================================================================
+
+export function isCreativeFileName(name: string | null | undefined): boolean {
+  if (!name) return false;
+  const lower = name.toLowerCase();
+  return CREATIVE_FILE_EXTENSIONS.some((ext) => lower.includes(ext));
+}
+
+/**
+ * 広告名・キャンペーン名を読み取る（"/" 区切りが4つ未満なら null）
+ * 既存の広告を読むための緩い読み取りで、日付やLP名の形式は問わない
+ * @param appeal アカウントの訴求名（渡すと登録経路も組み立てる）
+ */
+export function parseAdName(
+  name: string | null | undefined,
+  appeal?: string | null,
+): AdName | null {
+  if (!name || typeof name !== 'string') return null;
+  const parts = name.split('/');
+  if (parts.length < 4) return null;
+
+  const lpName = parts[parts.length - 1];
+  const lpMatch = lpName.match(/LP(\d+)/i);
+  const crMatch = lpName.match(/CR(\d+)/i);
+  return {
+    raw: name,
+    launchDate: parts[0],
+    creator: parts[1],
+    crName: parts.slice(2, parts.length - 1).join('/'),
+    lpName,
+    lpNumber: lpMatch ? parseInt(lpMatch[1], 10) : null,
+    crNumber: crMatch ? parseInt(crMatch[1], 10) : null,
+    appeal: appeal ?? null,
+    registrationPath: appeal ? registrationPathOf(lpName, appeal) : null,
+  };
+}
+
+/** 予算調整・日中停止等の自動化が読める広告名か（読めない広告はスキップされる） */
+export function isAutomationTarget(name: string | null | undefined): boolean {
+  return adNameIssue(name) === null;
+}
+
+/** 自動化の対象外になる理由（対象なら null） */
+export function adNameIssue(
+  name: string | null | undefined,
+): AdNameIssue | null {
+  if (isCreativeFileName(name)) return 'CREATIVE_FILE_NAME';
+  if (!parseAdName(name)) return 'INVALID_FORMAT';
+  return null;
+}
+
+/** 登録経路（TikTok広告-訴求-LP名-番号） */
+export function registrationPathOf(lpName: string, appeal: string): string {
+  return `TikTok広告-${appeal}-${lpName}`;
+}
+
+// ============================================================================
+// 出稿時の検証・生成
+// ============================================================================
+
+/**
+ * 出稿する広告名の検証（空配列なら OK）
+ * 読み取りより厳しく、出稿日は実在する YYMMDD、末尾は LP{n}-CR{5桁} に限る
+ */
+export function adNameErrors(name: string | null | undefined): string[] {
+  if (!name || !name.trim()) return ['ad name is required'];
+  if (isCreativeFileName(name)) {
+    return [`ad name must not be a creative file name: "${name}"`];
+  }
+  const parsed = parseAdName(name);
+  if (!parsed) {
+    return [`ad name must be in the form ${AD_NAME_FORMAT}: "${name}"`];
+  }
+
+  const errors: string[] = [];
+  if (!isLaunchDate(parsed.launchDate)) {
+    errors.push(`launch date must be a valid YYMMDD: "${parsed.launchDate}"`);
+  }
+  if (!parsed.creator.trim()) errors.push('creator is required');
+  if (parsed.crName.split('/').some((part) => !part.trim())) {
+    errors.push(`CR name must not be empty: "${parsed.crName}"`);
+  }
+  if (!LP_NAME_PATTERN.test(parsed.lpName)) {
+    errors.push(`LP name must be LP{n}-CR{5 digits}: "${parsed.lpName}"`);
+  }
+  return errors;
+}
+
+/** 広告名を生成する部品の検証（制作者名は "/" を含められない） */
+export function adNamePartErrors(parts: {
+  creator?: string | null;
+  crName?: string | null;
+}): string[] {
+  const errors: string[] = [];
+  if (parts.creator !== undefined) {
+    if (!parts.creator?.trim()) errors.push('creator is required');
+    else if (parts.creator.includes('/')) {
+      errors.push(`creator must not contain "/": "${parts.creator}"`);
+    }
+  }
+  if (
+    parts.crName !== undefined &&
+    parts.crName !== null &&
+    parts.crName.split('/').some((part) => !part.trim())
+  ) {
+    errors.push(`CR name must not be empty: "${parts.crName}"`);
+  }
+  return errors;
+}
+
+/** 広告名を組み立てる（YYMMDD/制作者名/CR名/LP{n}-CR{5桁}） */
+export function formatAdName(parts: AdNameParts): string {
+  const crStr = String(parts.crNumber).padStart(5, '0');
+  return `${parts.launchDate}/${parts.creator}/${parts.crName}/LP${parts.lpNumber}-CR${crStr}`;
+}
+
+/** 日時の JST の日付（YYMMDD） */
+export function launchDateOf(date: Date): string {
+  const jst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  return `${String(jst.getUTCFullYear()).slice(2)}${pad(jst.getUTCMonth() + 1)}${pad(jst.getUTCDate())}`;
+}
+
+// ============================================================================
+// 修正候補
+// ============================================================================
+
+/**
+ * 形式外の広告名から修正後の名前を推測する（推測できなければ null）
+ * 拡張子・全角スラッシュ・LP/CR番号の区切りの揺れを直し、出稿日がなければ fallbackLaunchDate を使う
+ * LP番号・CR番号・制作者名・CR名は作れないため、名前から読めなければ推測しない
+ */
+export function suggestAdName(
+  name: string,
+  fallbackLaunchDate: string,
+): string | null {
+  const base = name.replace(/\.(mp4|mov|avi|jpe?g|png|gif)/gi, '');
+  const lpMatch = base.match(/LP[\s_-]?(\d+)/i);
+  const crMatch = base.match(/CR[\s_-]?(\d+)/i);
+  if (!lpMatch || !crMatch) return null;
+
+  // LP/CR番号は末尾に組み立て直すため、各パートから取り除く
+  const segments = base
+    .split(/[/／]/)
+    .map((segment) =>
+      segment
+        .replace(lpMatch[0], '')
+        .replace(crMatch[0], '')
+        .replace(/^[\s_-]+|[\s_-]+$/g, ''),
+    )
+    .filter(Boolean);
+  const dateIndex = segments.findIndex(isLaunchDate);
+  const launchDate =
+    dateIndex >= 0 ? segments.splice(dateIndex, 1)[0] : fallbackLaunchDate;
+  if (segments.length < 2) return null;
+
+  const suggested = formatAdName({
+    launchDate,
+    creator: segments[0],
+    crName: segments.slice(1).join('/'),
+    lpNumber: parseInt(lpMatch[1], 10),
+    crNumber: parseInt(crMatch[1], 10),
+  });
+  return adNameErrors(suggested).length === 0 ? suggested : null;
+}
+
+// ============================================================================
+// 内部
+// ============================================================================
+
+function isLaunchDate(value: string): boolean {
+  if (!LAUNCH_DATE_PATTERN.test(value)) return false;
+  const year = 2000 + parseInt(value.slice(0, 2), 10);
+  const month = parseInt(value.slice(2, 4), 10);
+  const day = parseInt(value.slice(4, 6), 10);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -11,7 +11,10 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { AdBudgetCapService } from './ad-budget-cap.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.BUDGET_READ)
 @Controller('api/ad-budget-caps')
 export class AdBudgetCapController {
   constructor(private readonly adBudgetCapService: AdBudgetCapService) {}
@@ -34,6 +37,7 @@ export class AdBudgetCapController {
    * 上限日予算設定
    * POST /api/ad-budget-caps
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
   @Post()
   async createBudgetCap(
     @Body()
@@ -60,6 +64,7 @@ export class AdBudgetCapController {
    * 上限日予算更新
    * PATCH /api/ad-budget-caps/:id
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
   @Patch(':id')
   async updateBudgetCap(
     @Param('id') id: string,
@@ -91,6 +96,7 @@ export class AdBudgetCapController {
    * 上限日予算削除
    * DELETE /api/ad-budget-caps/:id
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
   async deleteBudgetCap(@Param('id') id: string) {
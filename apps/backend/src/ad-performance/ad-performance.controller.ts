@@ -1,6 +1,10 @@
 import { Controller, Get, Query, Param } from '@nestjs/common';
 import { AdPerformanceService } from './ad-performance.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
 
+@RequirePermissions(PERMISSIONS.REPORT_READ)
 @Controller('api/ad-performances')
 export class AdPerformanceController {
   constructor(private readonly adPerformanceService: AdPerformanceService) {}
@@ -11,18 +15,23 @@ export class AdPerformanceController {
    */
   @Get()
   async getAdPerformances(
-    @Query('advertiserId') advertiserId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
     @Query('impressionThresholdMet') impressionThresholdMet?: string,
     @Query('hasDeviation') hasDeviation?: string,
   ) {
-    return this.adPerformanceService.getAdPerformances(advertiserId, {
-      impressionThresholdMet:
-        impressionThresholdMet !== undefined
-          ? impressionThresholdMet === 'true'
-          : undefined,
-      hasDeviation:
-        hasDeviation !== undefined ? hasDeviation === 'true' : undefined,
-    });
+    return this.adPerformanceService.getAdPerformances(
+      advertiserId,
+      principal.advertiserIds,
+      {
+        impressionThresholdMet:
+          impressionThresholdMet !== undefined
+            ? impressionThresholdMet === 'true'
+            : undefined,
+        hasDeviation:
+          hasDeviation !== undefined ? hasDeviation === 'true' : undefined,
+      },
+    );
   }
 
   /**
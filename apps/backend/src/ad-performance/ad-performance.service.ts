@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { NotificationService } from '../notification/notification.service';
 import { GoogleSheetsService } from '../google-sheets/google-sheets.service';
+import { advertiserScopeFilter } from '../auth/domain/principal';
 
 // インプレッション閾値（10万）
 const IMPRESSION_THRESHOLD = 100000;
@@ -460,9 +461,11 @@ export class AdPerformanceService {
 
   /**
    * 広告パフォーマンス一覧取得
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
    */
   async getAdPerformances(
-    advertiserId: string,
+    advertiserId: string | undefined,
+    scope: string[] | null,
     options?: {
       impressionThresholdMet?: boolean;
       hasDeviation?: boolean;
@@ -475,7 +478,9 @@ export class AdPerformanceService {
       adsNeedingReview: number;
     };
   }> {
-    const where: any = { advertiserId };
+    const where: any = {
+      advertiserId: advertiserScopeFilter(advertiserId, scope),
+    };
 
     if (options?.impressionThresholdMet !== undefined) {
       where.impressionThresholdMet = options.impressionThresholdMet;
@@ -13,7 +13,10 @@ import type {
   CreateAdTextTemplateDto,
   UpdateAdTextTemplateDto,
 } from './ad-text-template.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.APPEAL_READ)
 @Controller('api')
 export class AdTextTemplateController {
   private readonly logger = new Logger(AdTextTemplateController.name);
@@ -46,6 +49,7 @@ export class AdTextTemplateController {
    * 広告文テンプレート作成
    * POST /api/appeals/:appealId/ad-text-templates
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Post('appeals/:appealId/ad-text-templates')
   async createTemplate(
     @Param('appealId') appealId: string,
@@ -76,6 +80,7 @@ export class AdTextTemplateController {
    * 広告文テンプレート更新
    * PUT /api/ad-text-templates/:id
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Put('ad-text-templates/:id')
   async updateTemplate(
     @Param('id') id: string,
@@ -100,6 +105,7 @@ export class AdTextTemplateController {
    * 広告文テンプレート削除
    * DELETE /api/ad-text-templates/:id
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Delete('ad-text-templates/:id')
   async deleteTemplate(@Param('id') id: string) {
     try {
@@ -1,6 +1,15 @@
 import { Controller, Get, Patch, Param, Body, Logger } from '@nestjs/common';
 import { AdvertiserService } from './advertiser.service';
+import {
+  AdvertiserScope,
+  CurrentPrincipal,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { canAccessAdvertiser } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
 
+@RequirePermissions(PERMISSIONS.ADVERTISER_READ)
 @Controller('api/advertisers')
 export class AdvertiserController {
   private readonly logger = new Logger(AdvertiserController.name);
@@ -12,14 +21,17 @@ export class AdvertiserController {
    * GET /api/advertisers
    */
   @Get()
-  async findAll() {
+  async findAll(@CurrentPrincipal() principal: AuthPrincipal) {
     this.logger.log('Getting all advertisers');
 
     try {
       const advertisers = await this.advertiserService.findAll();
+      // 担当アカウントが割り当てられたユーザーには担当分のみ返す
       return {
         success: true,
-        data: advertisers,
+        data: advertisers.filter((advertiser) =>
+          canAccessAdvertiser(principal, advertiser.id),
+        ),
       };
     } catch (error) {
       this.logger.error('Failed to get advertisers');
@@ -63,6 +75,7 @@ export class AdvertiserController {
    * Advertiser取得
    * GET /api/advertisers/:id
    */
+  @AdvertiserScope('id')
   @Get(':id')
   async findOne(@Param('id') id: string) {
     this.logger.log(`Getting advertiser: ${id}`);
@@ -89,6 +102,8 @@ export class AdvertiserController {
    * PATCH /api/advertisers/:id/appeal
    * Body: { appealId: string | null }
    */
+  @RequirePermissions(PERMISSIONS.ADVERTISER_WRITE)
+  @AdvertiserScope('id')
   @Patch(':id/appeal')
   async assignAppeal(
     @Param('id') id: string,
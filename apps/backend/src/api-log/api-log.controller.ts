@@ -0,0 +1,76 @@
+// ============================================================================
+// ApiLogController - 外部API呼び出しの集計（呼び出し量・エラー率・レイテンシ）
+// ============================================================================
+
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Query,
+} from '@nestjs/common';
+import { ApiLogService } from './api-log.service';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.REPORT_READ)
+@RequireAllAdvertisers()
+@Controller('api/api-logs')
+export class ApiLogController {
+  private readonly logger = new Logger(ApiLogController.name);
+
+  constructor(private readonly apiLog: ApiLogService) {}
+
+  /**
+   * 広告アカウント別の呼び出し量・エラー種別・p95レイテンシ
+   * GET /api/api-logs/summary?provider=tiktok&from=2026-03-01T00:00:00Z&to=...
+   */
+  @Get('summary')
+  async summary(
+    @Query('provider') provider?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.handle('Get summary', async () =>
+      this.apiLog.summary({ provider, from, to }),
+    );
+  }
+
+  /**
+   * 記録された呼び出し（新しい順）
+   * GET /api/api-logs?provider=tiktok&advertiserId=...&errorsOnly=true&limit=100
+   */
+  @Get()
+  async list(
+    @Query('provider') provider?: string,
+    @Query('advertiserId') advertiserId?: string,
+    @Query('errorsOnly') errorsOnly?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.handle('List logs', async () =>
+      this.apiLog.list({
+        provider,
+        advertiserId: advertiserId || undefined,
+        errorsOnly: errorsOnly === 'true',
+        limit: limit ? parseInt(limit, 10) : undefined,
+      }),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[API-LOG] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,16 @@
+// ============================================================================
+// ApiLogModule - 外部API呼び出しログ（グローバル）
+// TikTok / Google Sheets / UTAGE の各クライアントから呼び出しを記録する
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { ApiLogService } from './api-log.service';
+import { ApiLogController } from './api-log.controller';
+
+@Global()
+@Module({
+  controllers: [ApiLogController],
+  providers: [ApiLogService],
+  exports: [ApiLogService],
+})
+export class ApiLogModule {}
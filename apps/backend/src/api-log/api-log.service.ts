@@ -0,0 +1,295 @@
+// ============================================================================
+// ApiLogService - 外部API（TikTok / Google Sheets / UTAGE）呼び出しの記録と集計
+// 失敗・遅い呼び出しは全件、成功はサンプリングして APILog に保存する。
+// 保存は呼び出し元を待たせない（失敗しても本処理には影響させない）
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import type { APILog, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import { classifyTikTokError } from '../common/utils';
+import {
+  API_PROVIDERS,
+  isApiProvider,
+  isErrorCall,
+  samplingRate,
+  summarizeApiLogs,
+  toLoggedBody,
+  type ApiCallRecord,
+  type ApiUsageSummary,
+} from './domain/api-log';
+
+export interface ApiUsageQuery {
+  provider?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ApiLogQuery {
+  provider?: string;
+  advertiserId?: string;
+  errorsOnly?: boolean;
+  limit?: number;
+}
+
+/** track() に渡す呼び出し情報（結果は track が埋める） */
+export type ApiCallContext = Pick<
+  ApiCallRecord,
+  'provider' | 'method' | 'endpoint' | 'advertiserId' | 'requestBody'
+>;
+
+const DEFAULT_SAMPLE_RATE = 0.1;
+const DEFAULT_SLOW_MS = 10_000;
+const DEFAULT_RETENTION_DAYS = 30;
+/** TikTok Business API のレート制限の目安（広告アカウント単位・1分あたり） */
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 600;
+
+const DEFAULT_SUMMARY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_SUMMARY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+
+@Injectable()
+export class ApiLogService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(ApiLogService.name);
+  private readonly pending = new Set<Promise<unknown>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.register('api-log-cleanup', () => this.cleanup());
+  }
+
+  async onApplicationShutdown() {
+    await this.flush();
+  }
+
+  // ============================================================================
+  // 記録
+  // ============================================================================
+
+  /**
+   * 1回の呼び出しを記録する（サンプリング対象外なら何もしない）
+   * 保存は非同期で行い、保存の失敗は警告ログのみ
+   */
+  record(call: ApiCallRecord): void {
+    const sampleRate = samplingRate(call, {
+      sampleRate: this.sampleRate(),
+      slowMs: this.numberConfig('API_LOG_SLOW_MS', DEFAULT_SLOW_MS),
+    });
+    if (sampleRate === null) return;
+
+    const failed = isErrorCall(call);
+    const write = this.prisma.aPILog
+      .create({
+        data: {
+          provider: call.provider,
+          endpoint: call.endpoint,
+          method: call.method.toUpperCase(),
+          requestBody: toLoggedBody(call.requestBody) as Prisma.InputJsonValue,
+          responseStatus: call.status,
+          responseBody: failed
+            ? (toLoggedBody(call.responseBody) as Prisma.InputJsonValue)
+            : undefined,
+          duration: Math.round(call.durationMs),
+          advertiserId: call.advertiserId ?? null,
+          error: failed ? (call.error ?? null)?.slice(0, 1000) : null,
+          errorType: failed ? (call.errorType ?? 'UNKNOWN') : null,
+          sampleRate,
+        },
+      })
+      .catch((error) =>
+        this.logger.warn(
+          `[API-LOG] Failed to record ${call.provider} ${call.endpoint}: ${error.message}`,
+        ),
+      )
+      .finally(() => this.pending.delete(write));
+    this.pending.add(write);
+  }
+
+  /**
+   * axios 以外のクライアント（googleapis・fetch）の呼び出しを計測して記録する
+   * @param statusOf 成功時のレスポンスからHTTPステータスを取り出す（400以上は失敗として記録）
+   */
+  async track<T>(
+    context: ApiCallContext,
+    fn: () => Promise<T>,
+    statusOf: (result: T) => number = () => 200,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await fn();
+      const status = statusOf(result);
+      this.record({
+        ...context,
+        status,
+        durationMs: Date.now() - startedAt,
+        ...(status >= 400
+          ? {
+              errorType: classifyTikTokError({ response: { status } }).type,
+              error: `HTTP ${status}`,
+            }
+          : {}),
+      });
+      return result;
+    } catch (error) {
+      const info = classifyTikTokError(error);
+      this.record({
+        ...context,
+        status: httpStatusOf(error),
+        durationMs: Date.now() - startedAt,
+        errorType: info.type,
+        error: error?.message ?? info.message,
+        responseBody: error?.response?.data,
+      });
+      throw error;
+    }
+  }
+
+  /** 保存待ちの記録を書き込み終えるまで待つ */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  // ============================================================================
+  // 集計・参照
+  // ============================================================================
+
+  /**
+   * 期間内の呼び出し回数・エラー率・レイテンシ（既定: 直近24時間、最大7日）
+   */
+  async summary(
+    query: ApiUsageQuery = {},
+    now: Date = new Date(),
+  ): Promise<ApiUsageSummary> {
+    const provider = this.validateProvider(query.provider);
+    const to = query.to ? this.parseDate('to', query.to) : now;
+    const from = query.from
+      ? this.parseDate('from', query.from)
+      : new Date(to.getTime() - DEFAULT_SUMMARY_WINDOW_MS);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    if (to.getTime() - from.getTime() > MAX_SUMMARY_WINDOW_MS) {
+      throw new BadRequestException(
+        'The summary window must be 7 days or less',
+      );
+    }
+
+    const rows = await this.prisma.aPILog.findMany({
+      where: { provider, createdAt: { gte: from, lt: to } },
+      select: {
+        provider: true,
+        endpoint: true,
+        advertiserId: true,
+        responseStatus: true,
+        duration: true,
+        errorType: true,
+        sampleRate: true,
+        createdAt: true,
+      },
+    });
+    return summarizeApiLogs(rows, {
+      from,
+      to,
+      rateLimitPerMinute: this.numberConfig(
+        'TIKTOK_RATE_LIMIT_PER_MINUTE',
+        DEFAULT_RATE_LIMIT_PER_MINUTE,
+      ),
+    });
+  }
+
+  /** 記録された呼び出し（新しい順） */
+  async list(query: ApiLogQuery = {}): Promise<APILog[]> {
+    const limit = Math.min(
+      Math.max(query.limit || DEFAULT_LIST_LIMIT, 1),
+      MAX_LIST_LIMIT,
+    );
+    return this.prisma.aPILog.findMany({
+      where: {
+        provider: this.validateProvider(query.provider),
+        advertiserId: query.advertiserId,
+        ...(query.errorsOnly ? { errorType: { not: null } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  // ============================================================================
+  // 保持期間
+  // ============================================================================
+
+  @Cron('30 4 * * *', { name: 'api-log-cleanup', timeZone: 'Asia/Tokyo' })
+  async scheduleCleanup() {
+    await this.jobQueue.run('api-log-cleanup', () => this.cleanup());
+  }
+
+  /** 保持期間（API_LOG_RETENTION_DAYS、既定30日）を過ぎた記録を削除する */
+  async cleanup(now: Date = new Date()): Promise<{ deleted: number }> {
+    const days = this.numberConfig(
+      'API_LOG_RETENTION_DAYS',
+      DEFAULT_RETENTION_DAYS,
+    );
+    const { count } = await this.prisma.aPILog.deleteMany({
+      where: {
+        createdAt: { lt: new Date(now.getTime() - days * 24 * 60 * 60 * 1000) },
+      },
+    });
+    this.logger.log(`[API-LOG] Deleted ${count} logs older than ${days} days`);
+    return { deleted: count };
+  }
+
+  private sampleRate(): number {
+    const configured = this.configService.get<string>('API_LOG_SAMPLE_RATE');
+    if (configured === undefined || configured === '') {
+      return DEFAULT_SAMPLE_RATE;
+    }
+    const rate = Number(configured);
+    return Number.isFinite(rate)
+      ? Math.min(Math.max(rate, 0), 1)
+      : DEFAULT_SAMPLE_RATE;
+  }
+
+  private numberConfig(key: string, fallback: number): number {
+    const configured = Number(this.configService.get<string>(key));
+    return configured > 0 ? configured : fallback;
+  }
+
+  private validateProvider(provider?: string): string | undefined {
+    if (!provider) return undefined;
+    if (!isApiProvider(provider)) {
+      throw new BadRequestException(
+        `provider must be one of ${API_PROVIDERS.join(', ')}`,
+      );
+    }
+    return provider;
+  }
+
+  private parseDate(name: string, value: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name}: ${value}`);
+    }
+    return date;
+  }
+}
+
+/** 例外からHTTPステータスを取り出す（通信エラー・タイムアウトは 0） */
+function httpStatusOf(error: any): number {
+  const status = error?.response?.status ?? error?.status;
+  return typeof status === 'number' ? status : 0;
+}
@@ -0,0 +1,224 @@
+import {
+  REDACTED,
+  normalizeEndpoint,
+  redact,
+  samplingRate,
+  summarizeApiLogs,
+  toLoggedBody,
+  weightedPercentile,
+} from './api-log';
+import type { ApiLogSample } from './api-log';
+
+const sample = (overrides: Partial<ApiLogSample>): ApiLogSample => ({
+  provider: 'tiktok',
+  endpoint: '/v1.3/report/integrated/get/',
+  advertiserId: 'adv-1',
+  responseStatus: 200,
+  duration: 100,
+  errorType: null,
+  sampleRate: 1,
+  createdAt: new Date('2026-03-01T01:00:00Z'),
+  ...overrides,
+});
+
+describe('redact / toLoggedBody', () => {
+  it('トークン・シークレット・Cookie を入れ子・配列ごとマスクする', () => {
+    expect(
+      redact({
+        advertiser_id: 'adv-1',
+        access_token: 'act.xxx',
+        auth: { app_secret: 's', refresh_token: 'r' },
+        list: [{ Cookie: 'sid=1', name: 'ok' }],
+      }),
+    ).toEqual({
+      advertiser_id: 'adv-1',
+      access_token: REDACTED,
+      auth: { app_secret: REDACTED, refresh_token: REDACTED },
+      list: [{ Cookie: REDACTED, name: 'ok' }],
+    });
+  });
+
+  it('JSON文字列は解釈してマスクし、上限を超える本文は先頭だけ残す', () => {
+    expect(toLoggedBody('{"secret":"x","a":1}')).toEqual({
+      secret: REDACTED,
+      a: 1,
+    });
+    expect(toLoggedBody({ text: 'x'.repeat(50) }, 20)).toEqual({
+      truncated: true,
+      length: 61,
+      preview: '{"text":"xxxxxxxxxxx',
+    });
+    expect(toLoggedBody(undefined)).toBeNull();
+  });
+});
+
+describe('normalizeEndpoint', () => {
+  it('ホスト・クエリを除き、ID らしきパス要素をまとめる', () => {
+    expect(
+      normalizeEndpoint(
+        'https://school.utage-system.com/operator/AbCd1234EfGh/funnel/123?page=2',
+      ),
+    ).toBe('/operator/:id/funnel/:id');
+    expect(normalizeEndpoint('/v1.3/smart_plus/ad/get/')).toBe(
+      '/v1.3/smart_plus/ad/get/',
+    );
+  });
+});
+
+describe('samplingRate', () => {
+  const options = { sampleRate: 0.1, slowMs: 5000 };
+
+  it('失敗・遅い呼び出しは必ず記録する', () => {
+    expect(
+      samplingRate({ status: 429, durationMs: 10 }, options, () => 0.99),
+    ).toBe(1);
+    expect(
+      samplingRate({ status: 0, durationMs: 10 }, options, () => 0.99),
+    ).toBe(1);
+    expect(
+      samplingRate(
+        { status: 200, errorType: 'API_ERROR', durationMs: 10 },
+        options,
+        () => 0.99,
+      ),
+    ).toBe(1);
+    expect(
+      samplingRate({ status: 200, durationMs: 6000 }, options, () => 0.99),
+    ).toBe(1);
+  });
+
+  it('成功はサンプリング率の確率で記録し、率を返す', () => {
+    expect(
+      samplingRate({ status: 200, durationMs: 10 }, options, () => 0.05),
+    ).toBe(0.1);
+    expect(
+      samplingRate({ status: 200, durationMs: 10 }, options, () => 0.5),
+    ).toBeNull();
+    expect(
+      samplingRate(
+        { status: 200, durationMs: 10 },
+        { ...options, sampleRate: 0 },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('weightedPercentile', () => {
+  it('重みを件数として扱う', () => {
+    expect(
+      weightedPercentile(
+        [
+          { value: 100, weight: 10 },
+          { value: 5000, weight: 1 },
+        ],
+        0.95,
+      ),
+    ).toBe(5000);
+    expect(
+      weightedPercentile(
+        [
+          { value: 100, weight: 10 },
+          { value: 5000, weight: 1 },
+        ],
+        0.5,
+      ),
+    ).toBe(100);
+    expect(weightedPercentile([], 0.95)).toBeNull();
+  });
+});
+
+describe('summarizeApiLogs', () => {
+  const from = new Date('2026-03-01T00:00:00Z');
+  const to = new Date('2026-03-02T00:00:00Z');
+
+  it('成功をサンプリング率で割り戻して件数・エラー率・ピーク分間呼び出しを推計する', () => {
+    const rows = [
+      // 10%サンプリングの成功 2件 = 推計20件（同じ1分間）
+      sample({ sampleRate: 0.1 }),
+      sample({ sampleRate: 0.1, duration: 300 }),
+      // 失敗は全件記録
+      sample({ responseStatus: 429, errorType: 'RATE_LIMIT', duration: 50 }),
+      sample({
+        advertiserId: 'adv-2',
+        responseStatus: 200,
+        errorType: 'AUTH_ERROR',
+        createdAt: new Date('2026-03-01T05:00:00Z'),
+      }),
+      sample({
+        provider: 'google-sheets',
+        endpoint: 'spreadsheets.values.get',
+        advertiserId: null,
+      }),
+    ];
+
+    const summary = summarizeApiLogs(rows, {
+      from,
+      to,
+      rateLimitPerMinute: 42,
+    });
+
+    expect(summary.totals).toMatchObject({
+      calls: 23,
+      sampledCalls: 5,
+      errors: 2,
+      errorRate: 0.087,
+      rateLimitErrors: 1,
+    });
+    expect(summary.byAdvertiser[0]).toMatchObject({
+      advertiserId: 'adv-1',
+      calls: 21,
+      errors: 1,
+      rateLimitErrors: 1,
+      peakCallsPerMinute: 21,
+      rateLimitUtilization: 0.5,
+      p95DurationMs: 300,
+    });
+    expect(summary.byAdvertiser.map((a) => a.advertiserId)).toEqual([
+      'adv-1',
+      'adv-2',
+      null,
+    ]);
+    expect(summary.byProvider.map((p) => [p.provider, p.calls])).toEqual([
+      ['tiktok', 22],
+      ['google-sheets', 1],
+    ]);
+    expect(summary.byErrorType).toEqual([
+      { errorType: 'RATE_LIMIT', count: 1, share: 0.5 },
+      { errorType: 'AUTH_ERROR', count: 1, share: 0.5 },
+    ]);
+  });
+
+  it('ピーク分間呼び出しは時計の分ではなく任意の60秒間で数える', () => {
+    const at = (iso: string) => sample({ createdAt: new Date(iso) });
+    const peak = (rows: ApiLogSample[]) =>
+      summarizeApiLogs(rows, { from, to, rateLimitPerMinute: 600 })
+        .byAdvertiser[0].peakCallsPerMinute;
+
+    // 分の境界をまたぐ60秒未満の呼び出しは同じ60秒間に数える
+    expect(peak([at('2026-03-01T01:00:50Z'), at('2026-03-01T01:01:10Z')])).toBe(
+      2,
+    );
+    // ちょうど60秒離れた呼び出しは別の60秒間
+    expect(
+      peak([
+        at('2026-03-01T01:00:00Z'),
+        at('2026-03-01T01:01:00Z'),
+        at('2026-03-01T01:01:30Z'),
+      ]),
+    ).toBe(2);
+  });
+
+  it('ログがない期間は0件で返す', () => {
+    expect(
+      summarizeApiLogs([], { from, to, rateLimitPerMinute: 600 }).totals,
+    ).toEqual({
+      calls: 0,
+      sampledCalls: 0,
+      errors: 0,
+      errorRate: 0,
+      rateLimitErrors: 0,
+      p50DurationMs: null,
+      p95DurationMs: null,
+    });
+  });
+});
@@ -0,0 +1,334 @@
+// ============================================================================
+// 外部API呼び出しログ - マスク・サンプリング・集計（純粋関数）
+// ============================================================================
+
+export type ApiProvider = 'tiktok' | 'google-sheets' | 'utage';
+
+export const API_PROVIDERS: ApiProvider[] = [
+  'tiktok',
+  'google-sheets',
+  'utage',
+];
+
+/** 記録する1回の外部API呼び出し */
+export interface ApiCallRecord {
+  provider: ApiProvider;
+  method: string;
+  endpoint: string;
+  /** TikTok advertiser_id（分かる場合） */
+  advertiserId?: string | null;
+  /** HTTPステータス（タイムアウト・通信エラーは 0） */
+  status: number;
+  durationMs: number;
+  /** 失敗時のみ。TikTokErrorType */
+  errorType?: string | null;
+  error?: string | null;
+  requestBody?: unknown;
+  /** 失敗時のみ記録する */
+  responseBody?: unknown;
+}
+
+/** 集計に使う APILog の列 */
+export interface ApiLogSample {
+  provider: string;
+  endpoint: string;
+  advertiserId: string | null;
+  responseStatus: number;
+  duration: number;
+  errorType: string | null;
+  sampleRate: number;
+  createdAt: Date;
+}
+
+export interface ApiUsageStats {
+  /** 推計呼び出し回数（成功はサンプリング率で割り戻す） */
+  calls: number;
+  /** 実際に記録された件数 */
+  sampledCalls: number;
+  errors: number;
+  errorRate: number;
+  rateLimitErrors: number;
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+}
+
+export interface AdvertiserApiUsage extends ApiUsageStats {
+  advertiserId: string | null;
+  /** 任意の60秒間の推計呼び出し回数の最大値 */
+  peakCallsPerMinute: number;
+  /** peakCallsPerMinute / レート制限の目安 */
+  rateLimitUtilization: number;
+}
+
+export interface EndpointApiUsage extends ApiUsageStats {
+  provider: string;
+  endpoint: string;
+}
+
+export interface ApiUsageSummary {
+  from: Date;
+  to: Date;
+  totals: ApiUsageStats;
+  byProvider: (ApiUsageStats & { provider: string })[];
+  byAdvertiser: AdvertiserApiUsage[];
+  byEndpoint: EndpointApiUsage[];
+  byErrorType: { errorType: string; count: number; share: number }[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+/** 値をマスクするキー（アクセストークン・シークレット・Cookie 等） */
+const SENSITIVE_KEY_PATTERN =
+  /token|secret|password|authorization|cookie|csrf|credential|signature|api[-_]?key|private[-_]?key/i;
+
+/** requestBody / responseBody に保存するJSONの最大文字数 */
+export const MAX_LOGGED_BODY_LENGTH = 2000;
+
+const RATE_LIMIT_ERROR_TYPE = 'RATE_LIMIT';
+
+export function isApiProvider(value: unknown): value is ApiProvider {
+  return API_PROVIDERS.includes(value as ApiProvider);
+}
+
+export function isErrorCall(call: {
+  status: number;
+  errorType?: string | null;
+}): boolean {
+  return !!call.errorType || call.status === 0 || call.status >= 400;
+}
+
+/**
+ * 秘匿情報をマスクしたコピー（キー名で判定。入れ子・配列も対象）
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (depth > 8) return REDACTED;
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  if (typeof value !== 'object' || value === null) return value;
+  if (value instanceof Date) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redact(item, depth + 1),
+    ]),
+  );
+}
+
+/**
+ * 保存用にマスク・切り詰めたJSON
+ * 上限を超える場合は先頭だけを文字列で残す
+ */
+export function toLoggedBody(
+  value: unknown,
+  maxLength = MAX_LOGGED_BODY_LENGTH,
+): unknown {
+  if (value === undefined || value === null || value === '') return null;
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = value;
+    }
+  }
+  if (Buffer.isBuffer(parsed) || isStream(parsed)) {
+    return { omitted: 'binary' };
+  }
+
+  const masked = redact(parsed);
+  const json = JSON.stringify(masked) ?? '';
+  if (json.length <= maxLength) return masked;
+  return {
+    truncated: true,
+    length: json.length,
+    preview: json.slice(0, maxLength),
+  };
+}
+
+/**
+ * URL からクエリ・ホストを除き、IDらしきパス要素を :id にまとめる
+ * 例: https://school.utage-system.com/operator/AbCd1234EfGh/funnel/123?x=1 → /operator/:id/funnel/:id
+ */
+export function normalizeEndpoint(url: string): string {
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split(/[?#]/)[0] || '/';
+  return (
+    path
+      .split('/')
+      .map((segment) =>
+        /^\d+$/.test(segment) ||
+        (segment.length >= 10 && /\d/.test(segment) && /^[\w-]+$/.test(segment))
+          ? ':id'
+          : segment,
+      )
+      .join('/') || '/'
+  );
+}
+
+/**
+ * 記録するかどうかとその時のサンプリング率
+ * 失敗・遅い呼び出しは必ず記録し、それ以外は sampleRate の確率で記録する
+ * @returns 記録しない場合は null
+ */
+export function samplingRate(
+  call: { status: number; errorType?: string | null; durationMs: number },
+  options: { sampleRate: number; slowMs: number },
+  random: () => number = Math.random,
+): number | null {
+  if (isErrorCall(call) || call.durationMs >= options.slowMs) return 1;
+  if (options.sampleRate <= 0) return null;
+  return random() < options.sampleRate ? options.sampleRate : null;
+}
+
+/**
+ * 重み付きパーセンタイル（重み = 1 / サンプリング率）
+ * @param p 0〜1
+ */
+export function weightedPercentile(
+  values: { value: number; weight: number }[],
+  p: number,
+): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, v) => sum + v.weight, 0);
+  let cumulative = 0;
+  for (const v of sorted) {
+    cumulative += v.weight;
+    if (cumulative >= total * p) return v.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * 期間内の呼び出しログを集計する
+ * 件数・エラー率・レイテンシはサンプリング率で重み付けした推計値
+ */
+export function summarizeApiLogs(
+  rows: ApiLogSample[],
+  options: { from: Date; to: Date; rateLimitPerMinute: number },
+): ApiUsageSummary {
+  const byProvider = groupBy(rows, (row) => row.provider);
+  const byAdvertiser = groupBy(rows, (row) => row.advertiserId ?? '');
+  const byEndpoint = groupBy(rows, (row) => `${row.provider} ${row.endpoint}`);
+
+  const errorCounts = new Map<string, number>();
+  for (const row of rows) {
+    if (!isErrorRow(row)) continue;
+    const type = row.errorType ?? 'UNKNOWN';
+    errorCounts.set(type, (errorCounts.get(type) ?? 0) + 1);
+  }
+  const totalErrors = [...errorCounts.values()].reduce((a, b) => a + b, 0);
+
+  return {
+    from: options.from,
+    to: options.to,
+    totals: stats(rows),
+    byProvider: [...byProvider.entries()]
+      .map(([provider, group]) => ({ provider, ...stats(group) }))
+      .sort((a, b) => b.calls - a.calls),
+    byAdvertiser: [...byAdvertiser.entries()]
+      .map(([advertiserId, group]) => {
+        const peakCallsPerMinute = peakPerMinute(group);
+        return {
+          advertiserId: advertiserId || null,
+          ...stats(group),
+          peakCallsPerMinute,
+          rateLimitUtilization: round(
+            options.rateLimitPerMinute > 0
+              ? peakCallsPerMinute / options.rateLimitPerMinute
+              : 0,
+          ),
+        };
+      })
+      .sort((a, b) => b.calls - a.calls),
+    byEndpoint: [...byEndpoint.values()]
+      .map((group) => ({
+        provider: group[0].provider,
+        endpoint: group[0].endpoint,
+        ...stats(group),
+      }))
+      .sort((a, b) => b.calls - a.calls),
+    byErrorType: [...errorCounts.entries()]
+      .map(([errorType, count]) => ({
+        errorType,
+        count,
+        share: round(count / totalErrors),
+      }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+function stats(rows: ApiLogSample[]): ApiUsageStats {
+  const weighted = rows.map((row) => ({
+    value: row.duration,
+    weight: weightOf(row),
+  }));
+  const calls = weighted.reduce((sum, w) => sum + w.weight, 0);
+  const errors = rows.filter(isErrorRow).length;
+  return {
+    calls: Math.round(calls),
+    sampledCalls: rows.length,
+    errors,
+    errorRate: calls > 0 ? round(errors / calls) : 0,
+    rateLimitErrors: rows.filter(
+      (row) => row.errorType === RATE_LIMIT_ERROR_TYPE,
+    ).length,
+    p50DurationMs: weightedPercentile(weighted, 0.5),
+    p95DurationMs: weightedPercentile(weighted, 0.95),
+  };
+}
+
+/**
+ * 60秒のスライディングウィンドウでの推計呼び出し回数の最大値
+ * 時計の分で区切ると境界をまたぐ集中を半分に数えてしまうため、レート制限と同じく直近60秒で数える
+ */
+function peakPerMinute(rows: ApiLogSample[]): number {
+  const sorted = [...rows].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  let peak = 0;
+  let inWindow = 0;
+  let start = 0;
+  for (const row of sorted) {
+    inWindow += weightOf(row);
+    while (
+      row.createdAt.getTime() - sorted[start].createdAt.getTime() >=
+      60_000
+    ) {
+      inWindow -= weightOf(sorted[start]);
+      start++;
+    }
+    peak = Math.max(peak, inWindow);
+  }
+  return Math.round(peak);
+}
+
+function isErrorRow(row: ApiLogSample): boolean {
+  return isErrorCall({ status: row.responseStatus, errorType: row.errorType });
+}
+
+function weightOf(row: ApiLogSample): number {
+  return row.sampleRate > 0 ? 1 / row.sampleRate : 1;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return groups;
+}
+
+function isStream(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { pipe?: unknown }).pipe === 'function'
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
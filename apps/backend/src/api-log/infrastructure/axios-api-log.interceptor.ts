@@ -0,0 +1,124 @@
+// ============================================================================
+// axios インターセプタ - リクエスト・レスポンスのメタデータを ApiLogService に記録
+// アクセストークン等のヘッダーは記録せず、パラメータ・ボディもマスクして保存する
+// ============================================================================
+
+import type {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { TikTokErrorType, classifyTikTokError } from '../../common/utils';
+import type { ApiLogService } from '../api-log.service';
+import { normalizeEndpoint, type ApiProvider } from '../domain/api-log';
+
+const STARTED_AT = Symbol('apiLogStartedAt');
+
+type TimedConfig = InternalAxiosRequestConfig & { [STARTED_AT]?: number };
+
+/**
+ * axios インスタンスに呼び出しログのインターセプタを登録する
+ * withRetry による再試行は1回ずつ別の呼び出しとして記録される
+ */
+export function attachApiLogInterceptors(
+  client: AxiosInstance,
+  apiLog: ApiLogService,
+  provider: ApiProvider,
+): void {
+  client.interceptors.request.use((config: TimedConfig) => {
+    config[STARTED_AT] = Date.now();
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      const config = response.config as TimedConfig;
+      // TikTok は業務エラーも HTTP 200 + code != 0 で返す
+      const code = response.data?.code;
+      const apiError =
+        provider === 'tiktok' && typeof code === 'number' && code !== 0;
+      apiLog.record({
+        ...requestMetadata(provider, config),
+        status: response.status,
+        durationMs: elapsed(config),
+        ...(apiError
+          ? {
+              errorType: tiktokErrorType({ response }),
+              error: `TikTok code ${code}: ${response.data?.message ?? ''}`,
+              responseBody: errorResponseBody(response.data),
+            }
+          : {}),
+      });
+      return response;
+    },
+    (error: AxiosError) => {
+      const config = (error.config ?? {}) as TimedConfig;
+      apiLog.record({
+        ...requestMetadata(provider, config),
+        status: error.response?.status ?? 0,
+        durationMs: elapsed(config),
+        errorType: tiktokErrorType(error),
+        error: error.message,
+        responseBody: errorResponseBody(error.response?.data),
+      });
+      return Promise.reject(error);
+    },
+  );
+}
+
+function requestMetadata(provider: ApiProvider, config: TimedConfig) {
+  const data = parseBody(config.data);
+  return {
+    provider,
+    method: config.method ?? 'get',
+    endpoint: normalizeEndpoint(config.url ?? ''),
+    advertiserId: advertiserIdOf(config.params) ?? advertiserIdOf(data),
+    requestBody: { params: config.params, data },
+  };
+}
+
+function elapsed(config: TimedConfig): number {
+  const startedAt = config[STARTED_AT];
+  return startedAt ? Date.now() - startedAt : 0;
+}
+
+function tiktokErrorType(error: unknown): string {
+  const type = classifyTikTokError(error).type;
+  // HTTP 200 の業務エラー（未分類コード）は API_ERROR として数える
+  return type === TikTokErrorType.UNKNOWN &&
+    (error as AxiosError).response?.status === 200
+    ? TikTokErrorType.API_ERROR
+    : type;
+}
+
+/** エラー応答はサイズの大きい data を除き、TikTok のエラー情報だけを残す */
+function errorResponseBody(data: any): unknown {
+  if (typeof data !== 'object' || data === null) return data;
+  const { code, message, request_id } = data;
+  return code === undefined && message === undefined
+    ? data
+    : { code, message, request_id };
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function advertiserIdOf(source: unknown): string | null {
+  if (typeof source !== 'object' || source === null) return null;
+  const { advertiser_id, advertiser_ids } = source as Record<string, unknown>;
+  if (typeof advertiser_id === 'string' || typeof advertiser_id === 'number') {
+    return String(advertiser_id);
+  }
+  const ids =
+    typeof advertiser_ids === 'string'
+      ? parseBody(advertiser_ids)
+      : advertiser_ids;
+  return Array.isArray(ids) && ids.length === 1 ? String(ids[0]) : null;
+}
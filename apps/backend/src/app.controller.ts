@@ -1,6 +1,8 @@
 import { Controller, Get } from '@nestjs/common';
 import { AppService } from './app.service';
+import { Public } from './auth/auth.decorators';
 
+@Public()
 @Controller()
 export class AppController {
   constructor(private readonly appService: AppService) {}
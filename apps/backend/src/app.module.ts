@@ -4,6 +4,14 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
+import { AuthModule } from './auth/auth.module';
+import { TokenVaultModule } from './token-vault/token-vault.module';
+import { ChannelRegistryModule } from './channel-registry/channel-registry.module';
+import { DataSourceModule } from './data-source/data-source.module';
+import { BudgetAuditModule } from './budget-audit/budget-audit.module';
+import { AutomationControlModule } from './automation-control/automation-control.module';
+import { JobQueueModule } from './job-queue/job-queue.module';
+import { ApiLogModule } from './api-log/api-log.module';
 import { TiktokModule } from './tiktok/tiktok.module';
 import { JobsModule } from './jobs/jobs.module';
 import { DashboardModule } from './dashboard/dashboard.module';
@@ -27,6 +35,17 @@ import { StreamlinedCreatorModule } from './streamlined-creator/streamlined-crea
 import { ProfitSimulationModule } from './profit-simulation/profit-simulation.module';
 import { BudgetMonitoringModule } from './budget-monitoring/budget-monitoring.module';
 import { SeminarAttendanceAlertModule } from './seminar-attendance-alert/seminar-attendance-alert.module';
+import { BudgetBacktestModule } from './budget-backtest/budget-backtest.module';
+import { TokenRefreshModule } from './token-refresh/token-refresh.module';
+import { ConversionLedgerModule } from './conversion-ledger/conversion-ledger.module';
+import { WebhookModule } from './webhook/webhook.module';
+import { ExperimentModule } from './experiment/experiment.module';
+import { CreativeAssetModule } from './creative-asset/creative-asset.module';
+import { RedeployModule } from './redeploy/redeploy.module';
+import { CrossDeployPlannerModule } from './cross-deploy-planner/cross-deploy-planner.module';
+import { DaypartingModule } from './dayparting/dayparting.module';
+import { MetricIntegrityModule } from './metric-integrity/metric-integrity.module';
+import { AdNamingModule } from './ad-naming/ad-naming.module';
 
 @Module({
   imports: [
@@ -36,6 +55,14 @@ import { SeminarAttendanceAlertModule } from './seminar-attendance-alert/seminar
     }),
     ScheduleModule.forRoot(),
     PrismaModule,
+    AuthModule,
+    TokenVaultModule,
+    ChannelRegistryModule,
+    DataSourceModule,
+    BudgetAuditModule,
+    AutomationControlModule,
+    JobQueueModule,
+    ApiLogModule,
     TiktokModule,
     JobsModule,
     DashboardModule,
@@ -59,6 +86,17 @@ import { SeminarAttendanceAlertModule } from './seminar-attendance-alert/seminar
     ProfitSimulationModule,
     BudgetMonitoringModule,
     SeminarAttendanceAlertModule,
+    BudgetBacktestModule,
+    TokenRefreshModule,
+    ConversionLedgerModule,
+    WebhookModule,
+    ExperimentModule,
+    CreativeAssetModule,
+    RedeployModule,
+    CrossDeployPlannerModule,
+    DaypartingModule,
+    MetricIntegrityModule,
+    AdNamingModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -10,7 +10,10 @@ import {
 } from '@nestjs/common';
 import { AppealService } from './appeal.service';
 import type { CreateAppealDto, UpdateAppealDto } from './appeal.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.APPEAL_READ)
 @Controller('api/appeals')
 export class AppealController {
   private readonly logger = new Logger(AppealController.name);
@@ -70,6 +73,7 @@ export class AppealController {
    * POST /api/appeals
    * Body: { name, targetCPA, allowableCPA, targetFrontCPO, allowableFrontCPO, cvSpreadsheetUrl, frontSpreadsheetUrl }
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Post()
   async create(@Body() data: CreateAppealDto) {
     this.logger.log(`Creating appeal: ${data.name}`);
@@ -94,6 +98,7 @@ export class AppealController {
    * PATCH /api/appeals/:id
    * Body: { name?, targetCPA?, allowableCPA?, targetFrontCPO?, allowableFrontCPO?, cvSpreadsheetUrl?, frontSpreadsheetUrl? }
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Patch(':id')
   async update(@Param('id') id: string, @Body() data: UpdateAppealDto) {
     this.logger.log(`Updating appeal: ${id}`);
@@ -117,6 +122,7 @@ export class AppealController {
    * 訴求マスタ削除
    * DELETE /api/appeals/:id
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Delete(':id')
   async remove(@Param('id') id: string) {
     this.logger.log(`Deleting appeal: ${id}`);
@@ -140,6 +146,7 @@ export class AppealController {
    * Advertiserに訴求を紐付け
    * POST /api/appeals/:appealId/assign/:advertiserId
    */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
   @Post(':appealId/assign/:advertiserId')
   async assignToAdvertiser(
     @Param('appealId') appealId: string,
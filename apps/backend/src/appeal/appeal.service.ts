@@ -1,6 +1,6 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { DataSourceService } from '../data-source/data-source.service';
 
 export interface CreateAppealDto {
   name: string;
@@ -30,69 +30,9 @@ export class AppealService {
 
   constructor(
     private prisma: PrismaService,
-    private configService: ConfigService,
+    private dataSources: DataSourceService,
   ) {}
 
-  /**
-   * 訴求名からスプレッドシートURLを自動生成
-   */
-  private getSpreadsheetUrlsForAppeal(appealName: string): {
-    cvSpreadsheetUrl: string;
-    frontSpreadsheetUrl: string;
-  } {
-    const normalizedName = appealName.toUpperCase();
-    let cvSpreadsheetId: string | undefined;
-    let frontSpreadsheetId: string | undefined;
-
-    // 訴求名に応じてスプレッドシートIDを取得
-    if (normalizedName.includes('SNS')) {
-      cvSpreadsheetId = this.configService.get<string>(
-        'APPEAL_SNS_CV_SPREADSHEET_ID',
-      );
-      frontSpreadsheetId = this.configService.get<string>(
-        'APPEAL_SNS_FRONT_SPREADSHEET_ID',
-      );
-    } else if (normalizedName.includes('AI')) {
-      cvSpreadsheetId = this.configService.get<string>(
-        'APPEAL_AI_CV_SPREADSHEET_ID',
-      );
-      frontSpreadsheetId = this.configService.get<string>(
-        'APPEAL_AI_FRONT_SPREADSHEET_ID',
-      );
-    } else if (
-      normalizedName.includes('デザジュク') ||
-      normalizedName.includes('DESAJUKU')
-    ) {
-      cvSpreadsheetId = this.configService.get<string>(
-        'APPEAL_DESAJUKU_CV_SPREADSHEET_ID',
-      );
-      frontSpreadsheetId = this.configService.get<string>(
-        'APPEAL_DESAJUKU_FRONT_SPREADSHEET_ID',
-      );
-    }
-
-    // スプレッドシートIDが見つからない場合はエラー
-    if (!cvSpreadsheetId || !frontSpreadsheetId) {
-      throw new Error(
-        `Spreadsheet configuration not found for appeal: ${appealName}. ` +
-          `Please check your environment variables.`,
-      );
-    }
-
-    // URLを生成
-    const cvSpreadsheetUrl = `https://docs.google.com/spreadsheets/d/${cvSpreadsheetId}/edit`;
-    const frontSpreadsheetUrl = `https://docs.google.com/spreadsheets/d/${frontSpreadsheetId}/edit`;
-
-    this.logger.log(
-      `Generated spreadsheet URLs for ${appealName}: CV=${cvSpreadsheetUrl}, Front=${frontSpreadsheetUrl}`,
-    );
-
-    return {
-      cvSpreadsheetUrl,
-      frontSpreadsheetUrl,
-    };
-  }
-
   /**
    * 訴求マスタ一覧取得
    */
@@ -180,9 +120,11 @@ export class AppealService {
     let cvSpreadsheetUrl = data.cvSpreadsheetUrl;
     let frontSpreadsheetUrl = data.frontSpreadsheetUrl;
 
-    // URLが明示的に指定されていない場合のみ自動生成
+    // URLが明示的に指定されていない場合のみ、導線のデータソース設定から生成
     if (!cvSpreadsheetUrl || !frontSpreadsheetUrl) {
-      const generated = this.getSpreadsheetUrlsForAppeal(data.name);
+      const generated = await this.dataSources.resolveTemplateSpreadsheetUrls(
+        data.name,
+      );
       cvSpreadsheetUrl = cvSpreadsheetUrl || generated.cvSpreadsheetUrl;
       frontSpreadsheetUrl =
         frontSpreadsheetUrl || generated.frontSpreadsheetUrl;
@@ -0,0 +1,184 @@
+// ============================================================================
+// AuthController - ログイン・ユーザー/ロール/担当アカウント管理API
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { AuthService, type CreateUserDto } from './auth.service';
+import {
+  CurrentPrincipal,
+  Public,
+  RequirePermissions,
+} from './auth.decorators';
+import type { AuthPrincipal } from './domain/principal';
+import {
+  ALL_PERMISSIONS,
+  PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+} from './permissions';
+
+@Controller('api/auth')
+export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * ログイン（アクセストークン発行）
+   * POST /api/auth/login
+   * Body: { email, password }
+   */
+  @Public()
+  @Post('login')
+  async login(@Body() body: { email: string; password: string }) {
+    return this.handle('Login', async () =>
+      this.authService.login(body?.email, body?.password),
+    );
+  }
+
+  /**
+   * ログイン中の主体（権限・担当アカウント）
+   * GET /api/auth/me
+   */
+  @Get('me')
+  me(@CurrentPrincipal() principal: AuthPrincipal) {
+    return { success: true, data: principal };
+  }
+
+  /**
+   * 自分のパスワード変更
+   * PUT /api/auth/me/password
+   * Body: { password }
+   */
+  @Put('me/password')
+  async changeOwnPassword(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Body('password') password: string,
+  ) {
+    if (!principal.userId) {
+      throw new HttpException(
+        { success: false, error: 'Only users can change passwords' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return this.handle('Change password', async () => {
+      await this.authService.changePassword(principal.userId!, password);
+      return { changed: true };
+    });
+  }
+
+  /**
+   * ユーザー一覧
+   * GET /api/auth/users
+   */
+  @RequirePermissions(PERMISSIONS.USER_READ)
+  @Get('users')
+  async getUsers() {
+    return this.handle('Get users', () => this.authService.findAllUsers());
+  }
+
+  /**
+   * ユーザー作成
+   * POST /api/auth/users
+   * Body: { email, name, password, roles?, advertiserIds? }
+   */
+  @RequirePermissions(PERMISSIONS.USER_MANAGE)
+  @Post('users')
+  async createUser(@Body() body: CreateUserDto) {
+    return this.handle('Create user', () => this.authService.createUser(body));
+  }
+
+  /**
+   * ロール割り当て（置き換え）
+   * PUT /api/auth/users/:id/roles
+   * Body: { roles: ["OPERATOR"] }
+   */
+  @RequirePermissions(PERMISSIONS.USER_MANAGE)
+  @Put('users/:id/roles')
+  async setUserRoles(@Param('id') id: string, @Body('roles') roles: string[]) {
+    return this.handle('Set roles', () =>
+      this.authService.setUserRoles(id, roles ?? []),
+    );
+  }
+
+  /**
+   * 担当広告アカウント割り当て（置き換え）
+   * PUT /api/auth/users/:id/advertisers
+   * Body: { advertiserIds: ["7xxxxxxxx"] }
+   */
+  @RequirePermissions(PERMISSIONS.USER_MANAGE)
+  @Put('users/:id/advertisers')
+  async setUserAdvertisers(
+    @Param('id') id: string,
+    @Body('advertiserIds') advertiserIds: string[],
+  ) {
+    return this.handle('Set advertisers', () =>
+      this.authService.setUserAdvertisers(id, advertiserIds ?? []),
+    );
+  }
+
+  /**
+   * ユーザーの有効化・無効化
+   * PATCH /api/auth/users/:id/status
+   * Body: { status: "ACTIVE" | "DISABLED" }
+   */
+  @RequirePermissions(PERMISSIONS.USER_MANAGE)
+  @Patch('users/:id/status')
+  async setUserStatus(
+    @Param('id') id: string,
+    @Body('status') status: 'ACTIVE' | 'DISABLED',
+  ) {
+    return this.handle('Set status', () =>
+      this.authService.setUserStatus(id, status),
+    );
+  }
+
+  /**
+   * ロール一覧（権限付き）
+   * GET /api/auth/roles
+   */
+  @RequirePermissions(PERMISSIONS.USER_READ)
+  @Get('roles')
+  async getRoles() {
+    return this.handle('Get roles', () => this.authService.findAllRoles());
+  }
+
+  /**
+   * 権限カタログ
+   * GET /api/auth/permissions
+   */
+  @RequirePermissions(PERMISSIONS.USER_READ)
+  @Get('permissions')
+  getPermissions() {
+    return {
+      success: true,
+      data: ALL_PERMISSIONS.map((name) => ({
+        name,
+        description: PERMISSION_DESCRIPTIONS[name],
+      })),
+    };
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[AUTH] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,41 @@
+// ============================================================================
+// 認証・認可デコレーター
+// 全エンドポイントは AuthGuard（グローバル）で認証必須。例外は @Public() のみ
+// ============================================================================
+
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import type { AuthPrincipal } from './domain/principal';
+import type { PermissionName } from './permissions';
+
+export const IS_PUBLIC_KEY = 'auth:isPublic';
+export const REQUIRED_PERMISSIONS_KEY = 'auth:requiredPermissions';
+export const ALL_ADVERTISERS_KEY = 'auth:allAdvertisers';
+export const ADVERTISER_SCOPE_KEYS_KEY = 'auth:advertiserScopeKeys';
+
+/** 認証不要（ヘルスチェック・ログイン・OAuthコールバック等） */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/** 必要な権限（すべて必要）。ハンドラーに付けた場合はクラスの指定を上書きする */
+export const RequirePermissions = (...permissions: PermissionName[]) =>
+  SetMetadata(REQUIRED_PERMISSIONS_KEY, permissions);
+
+/** 全広告アカウントを対象にする操作（担当アカウントで絞り込まれたユーザーは不可） */
+export const RequireAllAdvertisers = () =>
+  SetMetadata(ALL_ADVERTISERS_KEY, true);
+
+/**
+ * 広告アカウントIDを探すキーを指定する（既定: advertiserId 等）
+ * 例: @AdvertiserScope('id') → params.id を広告アカウントIDとして検証
+ */
+export const AdvertiserScope = (...keys: string[]) =>
+  SetMetadata(ADVERTISER_SCOPE_KEYS_KEY, keys);
+
+/** 認証済み主体を取得 */
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthPrincipal =>
+    ctx.switchToHttp().getRequest().principal,
+);
@@ -0,0 +1,109 @@
+// ============================================================================
+// AuthGuard - 全エンドポイント共通の認証・権限・広告アカウントスコープ検証
+// APP_GUARD としてグローバル登録する
+// ============================================================================
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AuthService } from './auth.service';
+import {
+  ADVERTISER_SCOPE_KEYS_KEY,
+  ALL_ADVERTISERS_KEY,
+  IS_PUBLIC_KEY,
+  REQUIRED_PERMISSIONS_KEY,
+} from './auth.decorators';
+import {
+  DEFAULT_ADVERTISER_SCOPE_KEYS,
+  collectAdvertiserIds,
+  inaccessibleAdvertisers,
+  missingPermissions,
+} from './domain/principal';
+import type { AuthPrincipal } from './domain/principal';
+
+@Injectable()
+export class AuthGuard implements CanActivate {
+  private readonly logger = new Logger(AuthGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { principal?: AuthPrincipal }>();
+    const token = this.extractBearerToken(request);
+    if (!token) {
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    const principal = await this.authService.authenticate(token);
+    request.principal = principal;
+    const who = principal.email ?? principal.type;
+    const route = `${request.method} ${request.path}`;
+
+    const required =
+      this.reflector.getAllAndOverride<string[]>(
+        REQUIRED_PERMISSIONS_KEY,
+        targets,
+      ) ?? [];
+    const missing = missingPermissions(principal, required);
+    if (missing.length > 0) {
+      this.logger.warn(`[AUTH] ${who} denied ${route}: missing ${missing}`);
+      throw new ForbiddenException(
+        `Missing permissions: ${missing.join(', ')}`,
+      );
+    }
+
+    const requiresAll = this.reflector.getAllAndOverride<boolean>(
+      ALL_ADVERTISERS_KEY,
+      targets,
+    );
+    if (requiresAll && principal.advertiserIds !== null) {
+      this.logger.warn(
+        `[AUTH] ${who} denied ${route}: all-advertiser operation`,
+      );
+      throw new ForbiddenException(
+        'This operation targets all advertisers and requires advertiser:all',
+      );
+    }
+
+    const scopeKeys =
+      this.reflector.getAllAndOverride<string[]>(
+        ADVERTISER_SCOPE_KEYS_KEY,
+        targets,
+      ) ?? DEFAULT_ADVERTISER_SCOPE_KEYS;
+    const requested = collectAdvertiserIds(
+      [request.params, request.query, request.body],
+      scopeKeys,
+    );
+    const denied = inaccessibleAdvertisers(principal, requested);
+    if (denied.length > 0) {
+      this.logger.warn(`[AUTH] ${who} denied ${route}: advertisers ${denied}`);
+      throw new ForbiddenException(
+        `No access to advertisers: ${denied.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+
+  private extractBearerToken(request: Request): string | null {
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+  }
+}
@@ -0,0 +1,17 @@
+// ============================================================================
+// AuthModule - 認証・認可
+// AuthGuard をグローバルガードとして登録し、全コントローラーを認証必須にする
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { AuthGuard } from './auth.guard';
+
+@Module({
+  controllers: [AuthController],
+  providers: [AuthService, { provide: APP_GUARD, useClass: AuthGuard }],
+  exports: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,365 @@
+// ============================================================================
+// AuthService - ログイン・主体の解決・ユーザー/ロール/担当アカウント管理
+// ============================================================================
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  parseDurationSeconds,
+  signAccessToken,
+  verifyAccessToken,
+} from './domain/access-token';
+import {
+  MIN_PASSWORD_LENGTH,
+  hashPassword,
+  verifyPassword,
+} from './domain/password';
+import type { AuthPrincipal } from './domain/principal';
+import { ALL_PERMISSIONS, PERMISSIONS } from './permissions';
+
+const DEFAULT_EXPIRES_IN = '24h';
+
+export interface CreateUserDto {
+  email: string;
+  name: string;
+  password: string;
+  roles?: string[];
+  /** Advertiser.id または tiktokAdvertiserId */
+  advertiserIds?: string[];
+}
+
+const USER_INCLUDE = {
+  userRoles: {
+    include: {
+      role: {
+        include: { rolePermissions: { include: { permission: true } } },
+      },
+    },
+  },
+  userAdvertisers: {
+    include: {
+      advertiser: {
+        select: { id: true, tiktokAdvertiserId: true, name: true },
+      },
+    },
+  },
+} as const;
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ============================================================================
+  // 認証
+  // ============================================================================
+
+  async login(email: string, password: string) {
+    if (!email || !password) {
+      throw new BadRequestException('email and password are required');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+    const valid =
+      user?.passwordHash && user.status === 'ACTIVE'
+        ? await verifyPassword(password, user.passwordHash)
+        : false;
+    if (!user || !valid) {
+      this.logger.warn(`[AUTH] Login failed: ${email}`);
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    const expiresIn = parseDurationSeconds(
+      this.configService.get<string>('JWT_EXPIRES_IN') || DEFAULT_EXPIRES_IN,
+    );
+    const accessToken = signAccessToken(
+      { sub: user.id, email: user.email },
+      this.getJwtSecret(),
+      expiresIn,
+    );
+    this.logger.log(`[AUTH] Login succeeded: ${user.email}`);
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn,
+      principal: await this.loadUserPrincipal(user.id),
+    };
+  }
+
+  /**
+   * Bearerトークンから主体を解決する
+   * AUTOMATION_API_TOKEN と一致すれば自動実行（全権限・全アカウント）
+   * @throws UnauthorizedException トークン不正・ユーザー無効
+   */
+  async authenticate(token: string): Promise<AuthPrincipal> {
+    if (this.isAutomationToken(token)) {
+      return {
+        type: 'AUTOMATION',
+        userId: null,
+        email: null,
+        permissions: [...ALL_PERMISSIONS],
+        advertiserIds: null,
+      };
+    }
+
+    let userId: string;
+    try {
+      userId = verifyAccessToken(token, this.getJwtSecret()).sub;
+    } catch (error) {
+      if (error instanceof InternalServerErrorException) throw error;
+      throw new UnauthorizedException(error.message);
+    }
+
+    const principal = await this.loadUserPrincipal(userId);
+    if (!principal) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+    return principal;
+  }
+
+  async loadUserPrincipal(userId: string): Promise<AuthPrincipal | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: USER_INCLUDE,
+    });
+    if (!user || user.status !== 'ACTIVE') return null;
+
+    const permissions = [
+      ...new Set(
+        user.userRoles.flatMap((ur) =>
+          ur.role.rolePermissions.map((rp) => rp.permission.name),
+        ),
+      ),
+    ];
+    const advertiserIds = permissions.includes(PERMISSIONS.ADVERTISER_ALL)
+      ? null
+      : user.userAdvertisers.flatMap((ua) => [
+          ua.advertiser.id,
+          ua.advertiser.tiktokAdvertiserId,
+        ]);
+
+    return {
+      type: 'USER',
+      userId: user.id,
+      email: user.email,
+      permissions,
+      advertiserIds,
+    };
+  }
+
+  private isAutomationToken(token: string): boolean {
+    const expected = this.configService.get<string>('AUTOMATION_API_TOKEN');
+    if (!expected) return false;
+    // 長さの違いで比較時間が変わらないようハッシュ同士を比較
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(token), digest(expected));
+  }
+
+  private getJwtSecret(): string {
+    const secret = this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      this.logger.error('[AUTH] JWT_SECRET is not configured');
+      throw new InternalServerErrorException(
+        'Authentication is not configured',
+      );
+    }
+    return secret;
+  }
+
+  // ============================================================================
+  // ユーザー・ロール管理
+  // ============================================================================
+
+  async findAllUsers() {
+    const users = await this.prisma.user.findMany({
+      include: USER_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+    return users.map((user) => this.toUserView(user));
+  }
+
+  async findAllRoles() {
+    const roles = await this.prisma.role.findMany({
+      include: { rolePermissions: { include: { permission: true } } },
+      orderBy: { name: 'asc' },
+    });
+    return roles.map((role) => ({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      permissions: role.rolePermissions.map((rp) => rp.permission.name).sort(),
+    }));
+  }
+
+  async createUser(dto: CreateUserDto) {
+    if (!dto.email || !dto.name) {
+      throw new BadRequestException('email and name are required');
+    }
+    this.validatePassword(dto.password);
+
+    const email = dto.email.trim().toLowerCase();
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new ConflictException(`User ${email} already exists`);
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email,
+        name: dto.name,
+        passwordHash: await hashPassword(dto.password),
+      },
+    });
+    this.logger.log(`[AUTH] User created: ${email}`);
+
+    if (dto.roles?.length) await this.setUserRoles(user.id, dto.roles);
+    if (dto.advertiserIds?.length) {
+      await this.setUserAdvertisers(user.id, dto.advertiserIds);
+    }
+    return this.findUserView(user.id);
+  }
+
+  async setUserRoles(userId: string, roleNames: string[]) {
+    await this.ensureUserExists(userId);
+    const roles = await this.prisma.role.findMany({
+      where: { name: { in: roleNames } },
+    });
+    const unknown = roleNames.filter((n) => !roles.some((r) => r.name === n));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown roles: ${unknown.join(', ')}`);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.userRole.deleteMany({ where: { userId } }),
+      this.prisma.userRole.createMany({
+        data: roles.map((role) => ({ userId, roleId: role.id })),
+      }),
+    ]);
+    this.logger.log(
+      `[AUTH] Roles of ${userId} set to [${roleNames.join(', ')}]`,
+    );
+    return this.findUserView(userId);
+  }
+
+  /** 担当広告アカウントを置き換える（Advertiser.id / tiktokAdvertiserId どちらでも可） */
+  async setUserAdvertisers(userId: string, advertiserIds: string[]) {
+    await this.ensureUserExists(userId);
+    const advertisers = await this.prisma.advertiser.findMany({
+      where: {
+        OR: [
+          { id: { in: advertiserIds } },
+          { tiktokAdvertiserId: { in: advertiserIds } },
+        ],
+      },
+      select: { id: true, tiktokAdvertiserId: true },
+    });
+    const unknown = advertiserIds.filter(
+      (id) =>
+        !advertisers.some((a) => a.id === id || a.tiktokAdvertiserId === id),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown advertisers: ${unknown.join(', ')}`,
+      );
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.userAdvertiser.deleteMany({ where: { userId } }),
+      this.prisma.userAdvertiser.createMany({
+        data: advertisers.map((a) => ({ userId, advertiserId: a.id })),
+      }),
+    ]);
+    this.logger.log(
+      `[AUTH] Advertisers of ${userId} set to ${advertisers.length} accounts`,
+    );
+    return this.findUserView(userId);
+  }
+
+  async setUserStatus(userId: string, status: 'ACTIVE' | 'DISABLED') {
+    if (status !== 'ACTIVE' && status !== 'DISABLED') {
+      throw new BadRequestException('status must be ACTIVE or DISABLED');
+    }
+    await this.ensureUserExists(userId);
+    await this.prisma.user.update({ where: { id: userId }, data: { status } });
+    this.logger.log(`[AUTH] User ${userId} status → ${status}`);
+    return this.findUserView(userId);
+  }
+
+  async changePassword(userId: string, password: string) {
+    this.validatePassword(password);
+    await this.ensureUserExists(userId);
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await hashPassword(password) },
+    });
+    this.logger.log(`[AUTH] Password changed: ${userId}`);
+  }
+
+  private validatePassword(password: string) {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new BadRequestException(
+        `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      );
+    }
+  }
+
+  private async ensureUserExists(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+  }
+
+  private async findUserView(userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      include: USER_INCLUDE,
+    });
+    return this.toUserView(user);
+  }
+
+  private toUserView(user: {
+    id: string;
+    email: string;
+    name: string;
+    status: string;
+    lastLoginAt: Date | null;
+    userRoles: { role: { name: string } }[];
+    userAdvertisers: {
+      advertiser: { id: string; tiktokAdvertiserId: string; name: string };
+    }[];
+  }) {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      status: user.status,
+      lastLoginAt: user.lastLoginAt,
+      roles: user.userRoles.map((ur) => ur.role.name),
+      advertisers: user.userAdvertisers.map((ua) => ua.advertiser),
+    };
+  }
+}
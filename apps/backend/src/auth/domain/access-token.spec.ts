@@ -0,0 +1,68 @@
+import {
+  InvalidAccessTokenError,
+  parseDurationSeconds,
+  signAccessToken,
+  verifyAccessToken,
+} from './access-token';
+
+const SECRET = 'test-secret';
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+describe('AccessToken', () => {
+  describe('parseDurationSeconds', () => {
+    it('単位付き・単位なしの期間を秒に変換する', () => {
+      expect(parseDurationSeconds('24h')).toBe(86400);
+      expect(parseDurationSeconds('30m')).toBe(1800);
+      expect(parseDurationSeconds('7d')).toBe(604800);
+      expect(parseDurationSeconds('3600')).toBe(3600);
+    });
+
+    it('形式不正ならエラー', () => {
+      expect(() => parseDurationSeconds('1w')).toThrow('Invalid duration');
+    });
+  });
+
+  describe('signAccessToken / verifyAccessToken', () => {
+    const token = signAccessToken(
+      { sub: 'user-1', email: 'a@example.com' },
+      SECRET,
+      3600,
+      NOW,
+    );
+
+    it('発行したトークンを検証できる', () => {
+      const payload = verifyAccessToken(token, SECRET, NOW);
+      expect(payload).toMatchObject({ sub: 'user-1', email: 'a@example.com' });
+      expect(payload.exp - payload.iat).toBe(3600);
+    });
+
+    it('シークレットが異なると署名エラー', () => {
+      expect(() => verifyAccessToken(token, 'other', NOW)).toThrow(
+        'Invalid signature',
+      );
+    });
+
+    it('ペイロードを改ざんすると署名エラー', () => {
+      const [header, , signature] = token.split('.');
+      const forged = Buffer.from(
+        JSON.stringify({ sub: 'admin', email: 'x', iat: 0, exp: 9e9 }),
+      ).toString('base64url');
+      expect(() =>
+        verifyAccessToken(`${header}.${forged}.${signature}`, SECRET, NOW),
+      ).toThrow(InvalidAccessTokenError);
+    });
+
+    it('有効期限切れはエラー', () => {
+      const later = new Date(NOW.getTime() + 3600 * 1000);
+      expect(() => verifyAccessToken(token, SECRET, later)).toThrow(
+        'Token expired',
+      );
+    });
+
+    it('JWT形式でなければエラー', () => {
+      expect(() => verifyAccessToken('abc', SECRET, NOW)).toThrow(
+        'Malformed token',
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// ============================================================================
+// アクセストークン（JWT HS256）の発行・検証
+// 外部ライブラリを使わず node:crypto のみで実装する（純粋関数）
+// ============================================================================
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface AccessTokenPayload {
+  /** User.id */
+  sub: string;
+  email: string;
+  /** 発行時刻（UNIX秒） */
+  iat: number;
+  /** 有効期限（UNIX秒） */
+  exp: number;
+}
+
+export class InvalidAccessTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAccessTokenError';
+  }
+}
+
+const HEADER = { alg: 'HS256', typ: 'JWT' };
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+/**
+ * 有効期間の文字列を秒に変換（"24h", "30m", "7d", "3600"）
+ * @throws 形式不正の場合
+ */
+export function parseDurationSeconds(value: string): number {
+  const match = /^(\d+)([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2] || 's'];
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
+
+export function signAccessToken(
+  claims: { sub: string; email: string },
+  secret: string,
+  expiresInSeconds: number,
+  now: Date = new Date(),
+): string {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload: AccessTokenPayload = {
+    ...claims,
+    iat,
+    exp: iat + expiresInSeconds,
+  };
+  const unsigned = `${encode(HEADER)}.${encode(payload)}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+/**
+ * 署名・有効期限を検証してペイロードを返す
+ * @throws InvalidAccessTokenError 検証失敗時
+ */
+export function verifyAccessToken(
+  token: string,
+  secret: string,
+  now: Date = new Date(),
+): AccessTokenPayload {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new InvalidAccessTokenError('Malformed token');
+  }
+  const [header, payload, signature] = parts;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidAccessTokenError('Invalid signature');
+  }
+
+  let decodedHeader: { alg?: string };
+  let decoded: Partial<AccessTokenPayload>;
+  try {
+    decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new InvalidAccessTokenError('Malformed token');
+  }
+  if (decodedHeader.alg !== HEADER.alg) {
+    throw new InvalidAccessTokenError('Unsupported algorithm');
+  }
+  if (
+    typeof decoded.sub !== 'string' ||
+    typeof decoded.email !== 'string' ||
+    typeof decoded.iat !== 'number' ||
+    typeof decoded.exp !== 'number'
+  ) {
+    throw new InvalidAccessTokenError('Invalid payload');
+  }
+  if (decoded.exp <= Math.floor(now.getTime() / 1000)) {
+    throw new InvalidAccessTokenError('Token expired');
+  }
+  return decoded as AccessTokenPayload;
+}
@@ -0,0 +1,45 @@
+// ============================================================================
+// パスワードハッシュ（scrypt）
+// 保存形式: scrypt$<salt(hex)>$<hash(hex)>
+// ============================================================================
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const SCHEME = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/** パスワードの最低文字数 */
+export const MIN_PASSWORD_LENGTH = 12;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${SCHEME}$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/** 保存形式が不正な場合も false を返す（ログイン失敗として扱う） */
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== SCHEME || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  if (expected.length !== KEY_LENGTH) return false;
+
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, 'hex'),
+    KEY_LENGTH,
+  );
+  return timingSafeEqual(expected, actual);
+}
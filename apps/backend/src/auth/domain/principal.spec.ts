@@ -0,0 +1,83 @@
+import {
+  DEFAULT_ADVERTISER_SCOPE_KEYS,
+  advertiserScopeFilter,
+  collectAdvertiserIds,
+  inaccessibleAdvertisers,
+  missingPermissions,
+  type AuthPrincipal,
+} from './principal';
+import { hashPassword, verifyPassword } from './password';
+
+const operator: AuthPrincipal = {
+  type: 'USER',
+  userId: 'user-1',
+  email: 'operator@example.com',
+  permissions: ['budget:read', 'budget:execute'],
+  advertiserIds: ['adv-uuid-1', '7000000001'],
+};
+
+describe('AuthPrincipal', () => {
+  it('不足している権限を返す', () => {
+    expect(
+      missingPermissions(operator, ['budget:execute', 'cross-deploy:run']),
+    ).toEqual(['cross-deploy:run']);
+    expect(missingPermissions(operator, [])).toEqual([]);
+  });
+
+  it('担当外の広告アカウントを返す（advertiserIds=nullなら全アカウント可）', () => {
+    expect(
+      inaccessibleAdvertisers(operator, ['7000000001', '7000000002']),
+    ).toEqual(['7000000002']);
+    expect(
+      inaccessibleAdvertisers({ ...operator, advertiserIds: null }, [
+        '7000000002',
+      ]),
+    ).toEqual([]);
+  });
+
+  it('params/query/bodyから広告アカウントIDを収集する', () => {
+    const ids = collectAdvertiserIds(
+      [
+        { advertiserId: '7000000001' },
+        { advertiserIds: '7000000002, 7000000003' },
+        {
+          sourceAdvertiserId: '7000000001',
+          targetAdvertiserIds: ['7000000004'],
+        },
+        undefined,
+      ],
+      DEFAULT_ADVERTISER_SCOPE_KEYS,
+    );
+    expect(ids).toEqual([
+      '7000000001',
+      '7000000002',
+      '7000000003',
+      '7000000004',
+    ]);
+  });
+
+  it('一覧の条件は指定がなければスコープ内、スコープ外の指定は空になる', () => {
+    const scope = ['adv-1', '7000000001'];
+    expect(advertiserScopeFilter(undefined, null)).toBeUndefined();
+    expect(advertiserScopeFilter(undefined, scope)).toEqual({ in: scope });
+    expect(advertiserScopeFilter('7000000001', scope)).toBe('7000000001');
+    expect(advertiserScopeFilter('7000000009', scope)).toEqual({ in: [] });
+  });
+});
+
+describe('Password', () => {
+  it('ハッシュ化したパスワードを検証できる', async () => {
+    const stored = await hashPassword('correct horse battery');
+    expect(stored.startsWith('scrypt$')).toBe(true);
+    await expect(verifyPassword('correct horse battery', stored)).resolves.toBe(
+      true,
+    );
+    await expect(verifyPassword('wrong password!!', stored)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('保存形式が不正ならfalse', async () => {
+    await expect(verifyPassword('x', 'plain-text')).resolves.toBe(false);
+  });
+});
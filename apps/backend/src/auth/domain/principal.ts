@@ -0,0 +1,92 @@
+// ============================================================================
+// 認証済み主体（ユーザー / 自動実行）と権限・広告アカウントスコープ判定
+// ============================================================================
+
+export interface AuthPrincipal {
+  /** USER: ログインユーザー / AUTOMATION: GitHub Actions等の自動実行 */
+  type: 'USER' | 'AUTOMATION';
+  userId: string | null;
+  email: string | null;
+  permissions: string[];
+  /**
+   * アクセス可能な広告アカウント（Advertiser.id と tiktokAdvertiserId の両方を含む）
+   * null なら全アカウント
+   */
+  advertiserIds: string[] | null;
+}
+
+/** リクエストから広告アカウントIDを探すキー（params / query / body） */
+export const DEFAULT_ADVERTISER_SCOPE_KEYS = [
+  'advertiserId',
+  'advertiserIds',
+  'sourceAdvertiserId',
+  'targetAdvertiserIds',
+];
+
+export function missingPermissions(
+  principal: AuthPrincipal,
+  required: string[],
+): string[] {
+  const granted = new Set(principal.permissions);
+  return required.filter((permission) => !granted.has(permission));
+}
+
+export function canAccessAdvertiser(
+  principal: AuthPrincipal,
+  advertiserId: string,
+): boolean {
+  return (
+    principal.advertiserIds === null ||
+    principal.advertiserIds.includes(advertiserId)
+  );
+}
+
+/** アクセスできない広告アカウントIDを返す（空ならOK） */
+export function inaccessibleAdvertisers(
+  principal: AuthPrincipal,
+  advertiserIds: string[],
+): string[] {
+  return advertiserIds.filter((id) => !canAccessAdvertiser(principal, id));
+}
+
+/**
+ * params / query / body から広告アカウントIDを収集する
+ * 配列またはカンマ区切り文字列（?advertiserIds=a,b）にも対応
+ */
+export function collectAdvertiserIds(
+  sources: unknown[],
+  keys: string[],
+): string[] {
+  const ids = new Set<string>();
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    for (const key of keys) {
+      const value = (source as Record<string, unknown>)[key];
+      const values = Array.isArray(value)
+        ? value
+        : typeof value === 'string'
+          ? value.split(',')
+          : [];
+      for (const v of values) {
+        if (typeof v === 'string' && v.trim()) ids.add(v.trim());
+      }
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * 一覧取得の advertiserId 条件（Prisma の where 用）
+ * 指定がなければスコープ内のみ、スコープ外の指定は何も返さない
+ */
+export function advertiserScopeFilter(
+  advertiserId: string | undefined,
+  scope: string[] | null,
+): string | { in: string[] } | undefined {
+  if (advertiserId) {
+    return scope === null || scope.includes(advertiserId)
+      ? advertiserId
+      : { in: [] };
+  }
+  return scope === null ? undefined : { in: scope };
+}
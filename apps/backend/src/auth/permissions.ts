@@ -0,0 +1,146 @@
+// ============================================================================
+// 権限カタログ・既定ロール
+// Permission.name は "<resource>:<action>" 形式。prisma/seed.ts もここから投入する
+// ============================================================================
+
+export const PERMISSIONS = {
+  /** UserAdvertiserによる絞り込みなしで全広告アカウントにアクセス */
+  ADVERTISER_ALL: 'advertiser:all',
+  ADVERTISER_READ: 'advertiser:read',
+  ADVERTISER_WRITE: 'advertiser:write',
+
+  APPEAL_READ: 'appeal:read',
+  APPEAL_WRITE: 'appeal:write',
+
+  CAMPAIGN_READ: 'campaign:read',
+  CAMPAIGN_WRITE: 'campaign:write',
+
+  CREATIVE_READ: 'creative:read',
+  CREATIVE_WRITE: 'creative:write',
+
+  REPORT_READ: 'report:read',
+  /** メトリクス修復キューの承認・却下・適用と整合性チェックの実行 */
+  METRIC_REPAIR: 'metric:repair',
+
+  BUDGET_READ: 'budget:read',
+  /** 予算調整・停止・リセットの実行 */
+  BUDGET_EXECUTE: 'budget:execute',
+  /** 除外設定・予算上限・ルールセットの変更 */
+  BUDGET_CONFIGURE: 'budget:configure',
+
+  CROSS_DEPLOY_RUN: 'cross-deploy:run',
+
+  /** 自動化（予算調整・日中停止・リセット・アラート）の一時停止・解除 */
+  AUTOMATION_CONTROL: 'automation:control',
+
+  NOTIFICATION_READ: 'notification:read',
+  NOTIFICATION_WRITE: 'notification:write',
+  /** 通知の配信先（LINE / Slack / メール / Webhook）・ルーティングの設定 */
+  NOTIFICATION_CONFIGURE: 'notification:configure',
+
+  SIMULATION_READ: 'simulation:read',
+  /** 利益シミュレーションTODOの承認・却下 */
+  SIMULATION_REVIEW: 'simulation:review',
+
+  /** TikTok OAuthトークンの取得・保存・更新 */
+  TIKTOK_TOKEN_MANAGE: 'tiktok-token:manage',
+
+  /** バッチジョブの手動実行 */
+  JOBS_RUN: 'jobs:run',
+
+  /** Webhook受信イベントの閲覧・再実行 */
+  WEBHOOK_MANAGE: 'webhook:manage',
+
+  EXPERIMENT_READ: 'experiment:read',
+  /** 実験の作成・開始・終了・評価 */
+  EXPERIMENT_MANAGE: 'experiment:manage',
+
+  USER_READ: 'user:read',
+  USER_MANAGE: 'user:manage',
+} as const;
+
+export type PermissionName = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: PermissionName[] = Object.values(PERMISSIONS);
+
+export const PERMISSION_DESCRIPTIONS: Record<PermissionName, string> = {
+  'advertiser:all': '全広告アカウントへのアクセス',
+  'advertiser:read': '広告アカウントの閲覧',
+  'advertiser:write': '広告アカウントの設定変更',
+  'appeal:read': '訴求の閲覧',
+  'appeal:write': '訴求の作成・編集',
+  'campaign:read': 'キャンペーン・広告の閲覧',
+  'campaign:write': 'キャンペーン・広告の作成・編集',
+  'creative:read': 'クリエイティブの閲覧',
+  'creative:write': 'クリエイティブのアップロード・削除',
+  'report:read': 'レポート・ダッシュボードの閲覧',
+  'metric:repair': 'メトリクス修復キューの承認・却下・適用',
+  'budget:read': '予算調整の状況・設定の閲覧',
+  'budget:execute': '予算調整の実行',
+  'budget:configure': '予算調整の設定変更',
+  'cross-deploy:run': '横展開の実行',
+  'automation:control': '自動化の一時停止・解除',
+  'notification:read': '通知の閲覧',
+  'notification:write': '通知の既読・削除',
+  'notification:configure': '通知の配信先・ルーティング設定の変更',
+  'simulation:read': '利益シミュレーションの閲覧',
+  'simulation:review': '利益シミュレーションTODOの承認・却下',
+  'tiktok-token:manage': 'TikTokトークンの管理',
+  'jobs:run': 'バッチジョブの手動実行',
+  'webhook:manage': 'Webhook受信イベントの閲覧・再実行',
+  'experiment:read': '実験（A/Bテスト）の閲覧',
+  'experiment:manage': '実験（A/Bテスト）の作成・開始・終了・評価',
+  'user:read': 'ユーザーの閲覧',
+  'user:manage': 'ユーザー・ロールの管理',
+};
+
+const READ_PERMISSIONS: PermissionName[] = [
+  PERMISSIONS.ADVERTISER_READ,
+  PERMISSIONS.APPEAL_READ,
+  PERMISSIONS.CAMPAIGN_READ,
+  PERMISSIONS.CREATIVE_READ,
+  PERMISSIONS.REPORT_READ,
+  PERMISSIONS.BUDGET_READ,
+  PERMISSIONS.NOTIFICATION_READ,
+  PERMISSIONS.SIMULATION_READ,
+  PERMISSIONS.EXPERIMENT_READ,
+];
+
+/** 既定ロールと権限（ADMINは全権限） */
+export const DEFAULT_ROLES: {
+  name: string;
+  description: string;
+  permissions: PermissionName[];
+}[] = [
+  {
+    name: 'ADMIN',
+    description: 'システム管理者 - すべての操作が可能',
+    permissions: ALL_PERMISSIONS,
+  },
+  {
+    name: 'OPERATOR',
+    description: '運用担当者 - 担当アカウントの入稿・予算調整・横展開が可能',
+    permissions: [
+      ...READ_PERMISSIONS,
+      PERMISSIONS.CAMPAIGN_WRITE,
+      PERMISSIONS.CREATIVE_WRITE,
+      PERMISSIONS.BUDGET_EXECUTE,
+      PERMISSIONS.BUDGET_CONFIGURE,
+      PERMISSIONS.CROSS_DEPLOY_RUN,
+      PERMISSIONS.AUTOMATION_CONTROL,
+      PERMISSIONS.NOTIFICATION_WRITE,
+      PERMISSIONS.EXPERIMENT_MANAGE,
+    ],
+  },
+  {
+    name: 'APPROVER',
+    description: '承認者 - 閲覧と利益シミュレーションTODOの承認が可能',
+    permissions: [...READ_PERMISSIONS, PERMISSIONS.SIMULATION_REVIEW],
+  },
+  {
+    name: 'VIEWER',
+    description:
+      '閲覧者 - 担当アカウントのレポート・ダッシュボードの閲覧のみ可能',
+    permissions: READ_PERMISSIONS,
+  },
+];
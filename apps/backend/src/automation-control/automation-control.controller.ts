@@ -0,0 +1,142 @@
+// ============================================================================
+// AutomationControlController - 自動化の一時停止（キルスイッチ）API
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  AutomationControlService,
+  type AutomationPauseDto,
+} from './automation-control.service';
+import {
+  AUTOMATION_SUBSYSTEMS,
+  AUTOMATION_SUBSYSTEM_LABELS,
+} from './domain/automation-control';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { canAccessAdvertiser } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.BUDGET_READ)
+@Controller('api/automation-control')
+export class AutomationControlController {
+  private readonly logger = new Logger(AutomationControlController.name);
+
+  constructor(private readonly service: AutomationControlService) {}
+
+  /**
+   * 一時停止できるサブシステム
+   * GET /api/automation-control/subsystems
+   */
+  @Get('subsystems')
+  subsystems() {
+    return {
+      success: true,
+      data: AUTOMATION_SUBSYSTEMS.map((id) => ({
+        id,
+        label: AUTOMATION_SUBSYSTEM_LABELS[id],
+      })),
+    };
+  }
+
+  /**
+   * 一時停止の一覧（全体停止 + 担当アカウントの停止）
+   * GET /api/automation-control/pauses?includeInactive=true
+   */
+  @Get('pauses')
+  async list(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    return this.handle('List pauses', async () => {
+      const pauses = await this.service.list(includeInactive === 'true');
+      return pauses.filter(
+        (pause) =>
+          pause.advertiserId === null ||
+          canAccessAdvertiser(principal, pause.advertiserId),
+      );
+    });
+  }
+
+  /**
+   * サブシステム別の停止状況（advertiserId 省略時は全体停止のみ）
+   * GET /api/automation-control/status?advertiserId=xxx
+   */
+  @Get('status')
+  async status(@Query('advertiserId') advertiserId?: string) {
+    return this.handle('Get status', async () =>
+      this.service.status(advertiserId || null),
+    );
+  }
+
+  /**
+   * 一時停止を登録（advertiserId 省略で全体停止、subsystem 省略で全サブシステム）
+   * POST /api/automation-control/pauses
+   */
+  @RequirePermissions(PERMISSIONS.AUTOMATION_CONTROL)
+  @Post('pauses')
+  async pause(
+    @Body() body: AutomationPauseDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    if (!body.advertiserId) this.assertGlobalAccess(principal);
+    return this.handle('Pause', async () =>
+      this.service.pause(body, principal.userId),
+    );
+  }
+
+  /**
+   * 一時停止を解除
+   * POST /api/automation-control/pauses/:id/release
+   */
+  @RequirePermissions(PERMISSIONS.AUTOMATION_CONTROL)
+  @Post('pauses/:id/release')
+  async release(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Release', async () => {
+      const existing = await this.service.findById(id);
+      if (existing.advertiserId === null) {
+        this.assertGlobalAccess(principal);
+      } else if (!canAccessAdvertiser(principal, existing.advertiserId)) {
+        throw new ForbiddenException(
+          `No access to advertiser: ${existing.advertiserId}`,
+        );
+      }
+      return this.service.release(id, principal.userId);
+    });
+  }
+
+  /** 全体停止の登録・解除は全アカウントにアクセスできる主体のみ */
+  private assertGlobalAccess(principal: AuthPrincipal) {
+    if (principal.advertiserIds !== null) {
+      throw new ForbiddenException(
+        'Global automation pause requires access to all advertisers',
+      );
+    }
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[AUTOMATION-CONTROL] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
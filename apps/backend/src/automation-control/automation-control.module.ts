@@ -0,0 +1,15 @@
+// ============================================================================
+// AutomationControlModule - 自動化の一時停止（キルスイッチ）（グローバル）
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { AutomationControlService } from './automation-control.service';
+import { AutomationControlController } from './automation-control.controller';
+
+@Global()
+@Module({
+  controllers: [AutomationControlController],
+  providers: [AutomationControlService],
+  exports: [AutomationControlService],
+})
+export class AutomationControlModule {}
@@ -0,0 +1,203 @@
+// ============================================================================
+// AutomationControlService - 自動化の一時停止（キルスイッチ）
+// 定期実行のエントリポイント（V2予算調整・日中CPAチェック・日予算リセット等）は
+// 実行前に check / gate を呼び、停止中の広告アカウントをスキップとして報告する
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { AutomationPause } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { withDatabaseRetry } from '../common/utils';
+import {
+  AUTOMATION_SUBSYSTEMS,
+  findBlockingPause,
+  isPauseActive,
+  toSkip,
+  validatePauseInput,
+} from './domain/automation-control';
+import type {
+  AutomationSkip,
+  AutomationSubsystem,
+} from './domain/automation-control';
+
+export interface AutomationPauseDto {
+  /** 省略 / null = 全アカウント */
+  advertiserId?: string | null;
+  /** 省略 / null = 全サブシステム */
+  subsystem?: string | null;
+  reason?: string;
+  /** ISO 8601。省略 / null = 手動解除まで */
+  expiresAt?: string | null;
+}
+
+export interface AutomationGateResult {
+  allowed: string[];
+  skipped: AutomationSkip[];
+}
+
+/** 広告アカウント（または全体）のサブシステム別停止状況 */
+export interface AutomationStatus {
+  advertiserId: string | null;
+  subsystems: Record<AutomationSubsystem, AutomationSkip | null>;
+}
+
+@Injectable()
+export class AutomationControlService {
+  private readonly logger = new Logger(AutomationControlService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ============================================================================
+  // 判定（各ジョブから呼ぶ）
+  // ============================================================================
+
+  /**
+   * サブシステム・広告アカウントが停止中ならスキップ情報を返す
+   * @param advertiserId null の場合は全体停止のみ判定する
+   */
+  async check(
+    subsystem: AutomationSubsystem,
+    advertiserId: string | null,
+  ): Promise<AutomationSkip | null> {
+    const pauses = await this.activePauses(new Date());
+    const pause = findBlockingPause(
+      pauses,
+      subsystem,
+      advertiserId,
+      new Date(),
+    );
+    if (!pause) return null;
+
+    const skip = toSkip(pause, subsystem, advertiserId);
+    this.logSkip(skip);
+    return skip;
+  }
+
+  /** 広告アカウント一覧を実行対象とスキップに振り分ける */
+  async gate(
+    subsystem: AutomationSubsystem,
+    advertiserIds: string[],
+  ): Promise<AutomationGateResult> {
+    const now = new Date();
+    const pauses = await this.activePauses(now);
+    const result: AutomationGateResult = { allowed: [], skipped: [] };
+
+    for (const advertiserId of advertiserIds) {
+      const pause = findBlockingPause(pauses, subsystem, advertiserId, now);
+      if (!pause) {
+        result.allowed.push(advertiserId);
+        continue;
+      }
+      const skip = toSkip(pause, subsystem, advertiserId);
+      this.logSkip(skip);
+      result.skipped.push(skip);
+    }
+    return result;
+  }
+
+  async status(advertiserId: string | null): Promise<AutomationStatus> {
+    const now = new Date();
+    const pauses = await this.activePauses(now);
+    const subsystems = {} as AutomationStatus['subsystems'];
+    for (const subsystem of AUTOMATION_SUBSYSTEMS) {
+      const pause = findBlockingPause(pauses, subsystem, advertiserId, now);
+      subsystems[subsystem] = pause
+        ? toSkip(pause, subsystem, advertiserId)
+        : null;
+    }
+    return { advertiserId, subsystems };
+  }
+
+  // ============================================================================
+  // 管理
+  // ============================================================================
+
+  /** 一時停止の一覧（新しい順）。includeInactive=false なら有効なもののみ */
+  async list(includeInactive = false): Promise<AutomationPause[]> {
+    const rows = await this.prisma.automationPause.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    if (includeInactive) return rows;
+    const now = new Date();
+    return rows.filter((row) => isPauseActive(row, now));
+  }
+
+  async pause(
+    dto: AutomationPauseDto,
+    userId: string | null,
+  ): Promise<AutomationPause> {
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    const errors = validatePauseInput({ ...dto, expiresAt }, new Date());
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid automation pause: ${errors.join('; ')}`,
+      );
+    }
+
+    const created = await this.prisma.automationPause.create({
+      data: {
+        advertiserId: dto.advertiserId || null,
+        subsystem: dto.subsystem || null,
+        reason: dto.reason!.trim(),
+        expiresAt,
+        createdById: userId,
+      },
+    });
+    this.logger.warn(
+      `[AUTOMATION-CONTROL] Paused ${created.subsystem ?? 'ALL'} for ${created.advertiserId ?? 'ALL advertisers'} until ${created.expiresAt?.toISOString() ?? 'released'}: ${created.reason}`,
+    );
+    return created;
+  }
+
+  async release(id: string, userId: string | null): Promise<AutomationPause> {
+    const existing = await this.findById(id);
+    if (existing.releasedAt) {
+      throw new BadRequestException(`Automation pause already released: ${id}`);
+    }
+
+    const released = await this.prisma.automationPause.update({
+      where: { id },
+      data: { releasedAt: new Date(), releasedById: userId },
+    });
+    this.logger.log(
+      `[AUTOMATION-CONTROL] Released ${released.subsystem ?? 'ALL'} for ${released.advertiserId ?? 'ALL advertisers'}`,
+    );
+    return released;
+  }
+
+  async findById(id: string): Promise<AutomationPause> {
+    const row = await this.prisma.automationPause.findUnique({ where: { id } });
+    if (!row) {
+      throw new NotFoundException(`Automation pause not found: ${id}`);
+    }
+    return row;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  private async activePauses(now: Date): Promise<AutomationPause[]> {
+    return withDatabaseRetry(
+      () =>
+        this.prisma.automationPause.findMany({
+          where: {
+            releasedAt: null,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+          },
+        }),
+      { logger: this.logger, context: 'AutomationControl activePauses' },
+    );
+  }
+
+  private logSkip(skip: AutomationSkip) {
+    this.logger.warn(
+      `[AUTOMATION-CONTROL] Skipped ${skip.subsystem} for ${skip.advertiserId ?? 'ALL'} (${skip.scope} pause ${skip.pauseId}): ${skip.reason}`,
+    );
+  }
+}
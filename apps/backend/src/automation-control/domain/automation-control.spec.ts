@@ -0,0 +1,119 @@
+import {
+  findBlockingPause,
+  isPauseActive,
+  toSkip,
+  validatePauseInput,
+} from './automation-control';
+import type { AutomationPauseRecord } from './automation-control';
+
+const now = new Date('2026-03-01T03:00:00Z');
+
+const pause = (
+  overrides: Partial<AutomationPauseRecord>,
+): AutomationPauseRecord => ({
+  id: 'p-1',
+  advertiserId: 'adv-1',
+  subsystem: null,
+  reason: 'ローンチ中',
+  expiresAt: null,
+  releasedAt: null,
+  ...overrides,
+});
+
+describe('isPauseActive', () => {
+  it('解除済み・期限切れは無効', () => {
+    expect(isPauseActive(pause({}), now)).toBe(true);
+    expect(isPauseActive(pause({ releasedAt: now }), now)).toBe(false);
+    expect(
+      isPauseActive(
+        pause({ expiresAt: new Date('2026-03-01T02:59:59Z') }),
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      isPauseActive(
+        pause({ expiresAt: new Date('2026-03-01T04:00:00Z') }),
+        now,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('findBlockingPause', () => {
+  it('対象アカウント・サブシステムに該当する停止だけを返す', () => {
+    const pauses = [
+      pause({ id: 'other-adv', advertiserId: 'adv-2' }),
+      pause({ id: 'other-sub', subsystem: 'MIDNIGHT_RESET' }),
+    ];
+    expect(findBlockingPause(pauses, 'V2_BUDGET', 'adv-1', now)).toBeNull();
+    expect(findBlockingPause(pauses, 'MIDNIGHT_RESET', 'adv-1', now)?.id).toBe(
+      'other-sub',
+    );
+  });
+
+  it('範囲の広い停止（全体・全サブシステム）を優先する', () => {
+    const pauses = [
+      pause({ id: 'adv-sub', subsystem: 'V2_BUDGET' }),
+      pause({ id: 'adv-all' }),
+      pause({ id: 'global-sub', advertiserId: null, subsystem: 'V2_BUDGET' }),
+    ];
+    expect(findBlockingPause(pauses, 'V2_BUDGET', 'adv-1', now)?.id).toBe(
+      'global-sub',
+    );
+    expect(
+      findBlockingPause(pauses.slice(0, 2), 'V2_BUDGET', 'adv-1', now)?.id,
+    ).toBe('adv-all');
+  });
+
+  it('広告アカウント未指定なら全体停止のみ判定する', () => {
+    expect(
+      findBlockingPause([pause({})], 'SEMINAR_ALERT', null, now),
+    ).toBeNull();
+    expect(
+      findBlockingPause(
+        [pause({ advertiserId: null })],
+        'SEMINAR_ALERT',
+        null,
+        now,
+      )?.id,
+    ).toBe('p-1');
+  });
+});
+
+describe('toSkip', () => {
+  it('停止の範囲と理由を記録する', () => {
+    expect(
+      toSkip(pause({ advertiserId: null }), 'INTRADAY_PAUSE', 'adv-1'),
+    ).toEqual({
+      advertiserId: 'adv-1',
+      subsystem: 'INTRADAY_PAUSE',
+      pauseId: 'p-1',
+      scope: 'GLOBAL',
+      reason: 'ローンチ中',
+      expiresAt: null,
+    });
+  });
+});
+
+describe('validatePauseInput', () => {
+  it('理由・サブシステム・期限をチェックする', () => {
+    expect(validatePauseInput({ reason: '障害対応' }, now)).toEqual([]);
+    expect(
+      validatePauseInput(
+        {
+          reason: ' ',
+          subsystem: 'UNKNOWN',
+          expiresAt: new Date('2026-03-01T02:00:00Z'),
+        },
+        now,
+      ),
+    ).toEqual([
+      'reason is required',
+      expect.stringContaining('subsystem must be one of'),
+      'expiresAt must be in the future',
+    ]);
+    expect(
+      validatePauseInput({ reason: 'x', expiresAt: new Date('invalid') }, now),
+    ).toEqual(['expiresAt must be a valid date']);
+  });
+});
@@ -0,0 +1,142 @@
+// ============================================================================
+// 自動化コントロール - 一時停止（キルスイッチ）の判定（純粋関数）
+// 全体停止 / 広告アカウント単位の停止 / サブシステム単位の停止を期限・理由付きで管理する
+// ============================================================================
+
+/** 一時停止の対象になる定期実行のサブシステム */
+export const AUTOMATION_SUBSYSTEMS = [
+  'V2_BUDGET',
+  'INTRADAY_PAUSE',
+  'INTRADAY_BUDGET_RESTORE',
+  'MIDNIGHT_RESET',
+  'SEMINAR_ALERT',
+  'CROSS_DEPLOY_ROLLOUT',
+  'DAYPARTING',
+] as const;
+
+export type AutomationSubsystem = (typeof AUTOMATION_SUBSYSTEMS)[number];
+
+export const AUTOMATION_SUBSYSTEM_LABELS: Record<AutomationSubsystem, string> =
+  {
+    V2_BUDGET: '毎時予算調整V2',
+    INTRADAY_PAUSE: '日中CPAチェック（停止・予算削減・再開）',
+    INTRADAY_BUDGET_RESTORE: '日中削減予算の復元',
+    MIDNIGHT_RESET: '0時の日予算リセット',
+    SEMINAR_ALERT: 'セミナー着座CPOアラート',
+    CROSS_DEPLOY_ROLLOUT: '承認済み横展開の実行',
+    DAYPARTING: '配信時間帯の自動適用',
+  };
+
+/** AutomationPause 行（必要な列のみ） */
+export interface AutomationPauseRecord {
+  id: string;
+  /** null = 全アカウント */
+  advertiserId: string | null;
+  /** null = 全サブシステム */
+  subsystem: string | null;
+  reason: string;
+  expiresAt: Date | null;
+  releasedAt: Date | null;
+}
+
+/** 一時停止により実行を見送った記録（各ジョブの結果に含めて返す） */
+export interface AutomationSkip {
+  advertiserId: string | null;
+  subsystem: AutomationSubsystem;
+  pauseId: string;
+  scope: 'GLOBAL' | 'ADVERTISER';
+  reason: string;
+  expiresAt: Date | null;
+}
+
+export function isAutomationSubsystem(
+  value: unknown,
+): value is AutomationSubsystem {
+  return (
+    typeof value === 'string' &&
+    (AUTOMATION_SUBSYSTEMS as readonly string[]).includes(value)
+  );
+}
+
+/** 解除されておらず、期限切れでもない */
+export function isPauseActive(
+  pause: AutomationPauseRecord,
+  now: Date,
+): boolean {
+  if (pause.releasedAt) return false;
+  return !pause.expiresAt || pause.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * サブシステム・広告アカウントの実行を止めている一時停止を探す
+ * 複数該当する場合は範囲の広いもの（全体・全サブシステム）を優先する
+ *
+ * @param advertiserId null の場合は全体停止のみ判定する
+ */
+export function findBlockingPause(
+  pauses: AutomationPauseRecord[],
+  subsystem: AutomationSubsystem,
+  advertiserId: string | null,
+  now: Date,
+): AutomationPauseRecord | null {
+  const rank = (pause: AutomationPauseRecord) =>
+    (pause.advertiserId === null ? 0 : 2) + (pause.subsystem === null ? 0 : 1);
+
+  const blocking = pauses.filter(
+    (pause) =>
+      isPauseActive(pause, now) &&
+      (pause.subsystem === null || pause.subsystem === subsystem) &&
+      (pause.advertiserId === null || pause.advertiserId === advertiserId),
+  );
+  if (blocking.length === 0) return null;
+  return blocking.reduce((best, pause) =>
+    rank(pause) < rank(best) ? pause : best,
+  );
+}
+
+export function toSkip(
+  pause: AutomationPauseRecord,
+  subsystem: AutomationSubsystem,
+  advertiserId: string | null,
+): AutomationSkip {
+  return {
+    advertiserId,
+    subsystem,
+    pauseId: pause.id,
+    scope: pause.advertiserId === null ? 'GLOBAL' : 'ADVERTISER',
+    reason: pause.reason,
+    expiresAt: pause.expiresAt,
+  };
+}
+
+export interface AutomationPauseInput {
+  advertiserId?: string | null;
+  subsystem?: string | null;
+  reason?: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * 一時停止の入力チェック
+ * @returns エラーメッセージ（空なら妥当）
+ */
+export function validatePauseInput(
+  input: AutomationPauseInput,
+  now: Date,
+): string[] {
+  const errors: string[] = [];
+  if (!input.reason?.trim()) {
+    errors.push('reason is required');
+  }
+  if (input.subsystem != null && !isAutomationSubsystem(input.subsystem)) {
+    errors.push(`subsystem must be one of ${AUTOMATION_SUBSYSTEMS.join(', ')}`);
+  }
+  if (input.expiresAt != null) {
+    if (Number.isNaN(input.expiresAt.getTime())) {
+      errors.push('expiresAt must be a valid date');
+    } else if (input.expiresAt.getTime() <= now.getTime()) {
+      errors.push('expiresAt must be in the future');
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,100 @@
+// ============================================================================
+// BudgetAuditController - 予算・ステータス変更のタイムライン・ロールバックAPI
+// ============================================================================
+
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { BudgetAuditService } from './budget-audit.service';
+import { isAuditEntityType } from './domain/audit-event';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.BUDGET_READ)
+@Controller('api/budget-audit')
+export class BudgetAuditController {
+  private readonly logger = new Logger(BudgetAuditController.name);
+
+  constructor(private readonly service: BudgetAuditService) {}
+
+  /**
+   * 広告アカウントの予算・ステータス変更タイムライン（新しい順）
+   * GET /api/budget-audit/advertisers/:advertiserId/events?entityType=ADGROUP&entityId=xxx&limit=100
+   */
+  @Get('advertisers/:advertiserId/events')
+  async timeline(
+    @Param('advertiserId') advertiserId: string,
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.handle('Get timeline', async () =>
+      this.service.timeline(advertiserId, {
+        entityType,
+        entityId,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      }),
+    );
+  }
+
+  /**
+   * 広告・広告セット・キャンペーン単位のタイムライン（監査項目導入前の旧ログを含む）
+   * GET /api/budget-audit/advertisers/:advertiserId/entities/:entityType/:entityId
+   */
+  @Get('advertisers/:advertiserId/entities/:entityType/:entityId')
+  async entityTimeline(
+    @Param('advertiserId') advertiserId: string,
+    @Param('entityType') entityType: string,
+    @Param('entityId') entityId: string,
+  ) {
+    if (!isAuditEntityType(entityType)) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'entityType must be one of AD, ADGROUP, CAMPAIGN',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return this.handle('Get entity timeline', async () =>
+      this.service.entityTimeline(advertiserId, entityType, entityId),
+    );
+  }
+
+  /**
+   * 変更を取り消して変更前の予算・ステータスに戻す
+   * POST /api/budget-audit/advertisers/:advertiserId/events/:eventId/rollback
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @Post('advertisers/:advertiserId/events/:eventId/rollback')
+  async rollback(
+    @Param('advertiserId') advertiserId: string,
+    @Param('eventId') eventId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Rollback', async () =>
+      this.service.rollback(advertiserId, eventId, principal.userId),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[BUDGET-AUDIT] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
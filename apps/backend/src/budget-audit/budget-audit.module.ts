@@ -0,0 +1,17 @@
+// ============================================================================
+// BudgetAuditModule - 予算・ステータス変更の監査タイムライン（グローバル）
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { TiktokModule } from '../tiktok/tiktok.module';
+import { BudgetAuditService } from './budget-audit.service';
+import { BudgetAuditController } from './budget-audit.controller';
+
+@Global()
+@Module({
+  imports: [TiktokModule],
+  controllers: [BudgetAuditController],
+  providers: [BudgetAuditService],
+  exports: [BudgetAuditService],
+})
+export class BudgetAuditModule {}
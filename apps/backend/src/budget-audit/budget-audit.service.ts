@@ -0,0 +1,354 @@
+// ============================================================================
+// BudgetAuditService - 予算・ステータス変更の監査記録・タイムライン・ロールバック
+// V1 / V2 / 日中最適化 / 日予算リセットの変更はすべてここを通して ChangeLog に記録する
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { withDatabaseRetry } from '../common/utils';
+import {
+  auditFieldOf,
+  planRollback,
+  rollbackAction,
+  ROLLBACK_SOURCE,
+  toAuditEvent,
+} from './domain/audit-event';
+import type {
+  AdStatus,
+  AuditEntityType,
+  AuditEvent,
+  AuditLogRow,
+  AuditState,
+  RollbackTarget,
+} from './domain/audit-event';
+
+export interface BudgetAuditInput {
+  /** TikTok advertiser_id */
+  advertiserId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  /** 既存の ChangeLog.action（UPDATE_BUDGET / PAUSE / INTRADAY_BUDGET_REDUCE 等） */
+  action: string;
+  /** 実行したジョブ名（ユーザー操作の場合は userId も指定） */
+  source: string;
+  userId?: string | null;
+  before: AuditState | null;
+  after: AuditState | null;
+  ruleId?: string | null;
+  reason?: string | null;
+  rollbackOfId?: string | null;
+}
+
+export interface TimelineQuery {
+  entityType?: string;
+  entityId?: string;
+  limit?: number;
+}
+
+export interface RollbackResult {
+  rolledBack: AuditEvent;
+  target: RollbackTarget;
+  event: AuditEvent;
+}
+
+const DEFAULT_TIMELINE_LIMIT = 100;
+const MAX_TIMELINE_LIMIT = 500;
+
+const AUDIT_ROW_INCLUDE = {
+  user: { select: { name: true, email: true } },
+} satisfies Prisma.ChangeLogInclude;
+
+@Injectable()
+export class BudgetAuditService {
+  private readonly logger = new Logger(BudgetAuditService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+    private readonly tokenVault: TokenVaultService,
+  ) {}
+
+  // ============================================================================
+  // 記録
+  // ============================================================================
+
+  /**
+   * 予算・ステータス変更を記録する（DB障害時はリトライ後に例外）
+   * 呼び出し側で失敗を非致命扱いにするかを決める
+   */
+  async record(input: BudgetAuditInput): Promise<AuditEvent> {
+    const row = await withDatabaseRetry(
+      () =>
+        this.prisma.changeLog.create({
+          data: {
+            entityType: input.entityType,
+            entityId: input.entityId,
+            action: input.action,
+            source: input.source,
+            userId: input.userId ?? null,
+            beforeData: (input.before ?? undefined) as Prisma.InputJsonValue,
+            afterData: (input.after ?? undefined) as Prisma.InputJsonValue,
+            reason: input.reason ?? null,
+            advertiserId: input.advertiserId,
+            field: auditFieldOf(input.before, input.after),
+            ruleId: input.ruleId ?? null,
+            rollbackOfId: input.rollbackOfId ?? null,
+          },
+          include: AUDIT_ROW_INCLUDE,
+        }),
+      { logger: this.logger, context: `BudgetAudit ${input.action}` },
+    );
+    return toAuditEvent(row as AuditLogRow)!;
+  }
+
+  // ============================================================================
+  // タイムライン
+  // ============================================================================
+
+  /** 広告アカウントの予算・ステータス変更（新しい順） */
+  async timeline(
+    advertiserId: string,
+    query: TimelineQuery = {},
+  ): Promise<AuditEvent[]> {
+    const limit = Math.min(
+      Math.max(query.limit ?? DEFAULT_TIMELINE_LIMIT, 1),
+      MAX_TIMELINE_LIMIT,
+    );
+    const rows = await this.prisma.changeLog.findMany({
+      where: {
+        advertiserId,
+        field: { not: null },
+        ...(query.entityType && { entityType: query.entityType }),
+        ...(query.entityId && { entityId: query.entityId }),
+      },
+      include: AUDIT_ROW_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return this.normalize(rows);
+  }
+
+  /**
+   * 広告・広告セット・キャンペーン単位のタイムライン（新しい順）
+   * 監査項目導入前の旧ログも action / beforeData から正規化して含める。
+   * 旧ログは広告アカウント未記録のため、対象がその広告アカウントのものと確認できた場合だけ含める
+   */
+  async entityTimeline(
+    advertiserId: string,
+    entityType: AuditEntityType,
+    entityId: string,
+  ): Promise<AuditEvent[]> {
+    const events = await this.entityEvents(entityType, entityId);
+    const hasLegacy = events.some((event) => event.advertiserId === null);
+    const ownsEntity =
+      hasLegacy && (await this.ownerOf(entityType, entityId)) === advertiserId;
+    return events.filter((event) =>
+      event.advertiserId === null
+        ? ownsEntity
+        : event.advertiserId === advertiserId,
+    );
+  }
+
+  /** 対象の広告アカウント（TikTok advertiser_id。未同期なら null） */
+  private async ownerOf(
+    entityType: AuditEntityType,
+    entityId: string,
+  ): Promise<string | null> {
+    const advertiser = { select: { tiktokAdvertiserId: true } };
+    switch (entityType) {
+      case 'AD': {
+        const ad = await this.prisma.ad.findUnique({
+          where: { tiktokId: entityId },
+          select: {
+            adGroup: {
+              select: { campaign: { select: { advertiser } } },
+            },
+          },
+        });
+        return ad?.adGroup.campaign.advertiser.tiktokAdvertiserId ?? null;
+      }
+      case 'ADGROUP': {
+        const adGroup = await this.prisma.adGroup.findUnique({
+          where: { tiktokId: entityId },
+          select: { campaign: { select: { advertiser } } },
+        });
+        return adGroup?.campaign.advertiser.tiktokAdvertiserId ?? null;
+      }
+      case 'CAMPAIGN': {
+        const campaign = await this.prisma.campaign.findUnique({
+          where: { tiktokId: entityId },
+          select: { advertiser },
+        });
+        return campaign?.advertiser.tiktokAdvertiserId ?? null;
+      }
+    }
+  }
+
+  /** 対象の全イベント（広告アカウントで絞らない） */
+  private async entityEvents(
+    entityType: AuditEntityType,
+    entityId: string,
+    limit = DEFAULT_TIMELINE_LIMIT,
+  ): Promise<AuditEvent[]> {
+    const rows = await this.prisma.changeLog.findMany({
+      where: { entityType, entityId },
+      include: AUDIT_ROW_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), MAX_TIMELINE_LIMIT),
+    });
+    return this.normalize(rows);
+  }
+
+  // ============================================================================
+  // ロールバック
+  // ============================================================================
+
+  /**
+   * 指定イベントの変更前の値に戻し、ロールバック自体もイベントとして記録する
+   * 予算: Smart+ API と通常API の両方に書き込む（V2の増額と同じ）
+   * ステータス: updateAdStatus
+   */
+  async rollback(
+    advertiserId: string,
+    eventId: string,
+    userId: string | null,
+  ): Promise<RollbackResult> {
+    const row = await this.prisma.changeLog.findUnique({
+      where: { id: eventId },
+      include: AUDIT_ROW_INCLUDE,
+    });
+    const event = row ? toAuditEvent(row as AuditLogRow) : null;
+    if (!event || event.advertiserId !== advertiserId) {
+      throw new NotFoundException(`Audit event not found: ${eventId}`);
+    }
+
+    const latest = await this.latestApplied(event);
+    const plan = planRollback(event, latest);
+    if (!plan.ok) {
+      throw new BadRequestException(plan.reason);
+    }
+
+    const token = await this.tokenVault.findByAdvertiserId(advertiserId);
+    if (!token) {
+      throw new BadRequestException(
+        `No access token for advertiser: ${advertiserId}`,
+      );
+    }
+
+    await this.apply(plan.target, token.accessToken);
+
+    const key = plan.target.field === 'BUDGET' ? 'budget' : 'status';
+    const recorded = await this.record({
+      advertiserId,
+      entityType: plan.target.entityType,
+      entityId: plan.target.entityId,
+      action: rollbackAction(plan.target.field),
+      source: ROLLBACK_SOURCE,
+      userId,
+      before: { [key]: plan.target.current },
+      after: { [key]: plan.target.value },
+      ruleId: event.ruleId,
+      reason: `ロールバック: ${event.action} (${event.at.toISOString()}) を取り消し`,
+      rollbackOfId: event.id,
+    });
+
+    this.logger.log(
+      `[BUDGET-AUDIT] Rolled back ${event.entityType} ${event.entityId} ${event.field}: ${String(plan.target.current)} → ${String(plan.target.value)}`,
+    );
+    return { rolledBack: event, target: plan.target, event: recorded };
+  }
+
+  /** 同じ対象・項目で実際に反映された最新イベント（失敗ログは除く） */
+  private async latestApplied(event: AuditEvent): Promise<AuditEvent | null> {
+    const recent = await this.entityEvents(
+      event.entityType,
+      event.entityId,
+      MAX_TIMELINE_LIMIT,
+    );
+    return (
+      recent.find((item) => item.field === event.field && !item.error) ?? null
+    );
+  }
+
+  private async apply(target: RollbackTarget, accessToken: string) {
+    const { advertiserId, entityId } = target;
+
+    if (target.field === 'STATUS') {
+      await this.tiktokService.updateAdStatus(
+        advertiserId,
+        accessToken,
+        [entityId],
+        target.value as AdStatus,
+      );
+      return;
+    }
+
+    const budget = target.value as number;
+    if (target.entityType === 'CAMPAIGN') {
+      // Smart+ キャンペーンか通常キャンペーンかは記録されていないため、Smart+ → 通常の順に試す
+      try {
+        await this.tiktokService.updateSmartPlusCampaignBudget(
+          advertiserId,
+          accessToken,
+          entityId,
+          budget,
+        );
+      } catch (smartPlusError) {
+        this.logger.warn(
+          `[BUDGET-AUDIT] Smart+ campaign API failed for ${entityId}: ${smartPlusError.message}. Falling back to regular API...`,
+        );
+        await this.tiktokService.updateCampaign(
+          advertiserId,
+          accessToken,
+          entityId,
+          { budget },
+        );
+      }
+      return;
+    }
+
+    // 広告セット: Smart+ APIと通常API両方に書き込む（片方だけだと高い方が参照されるリスク）
+    let smartPlusError: Error | null = null;
+    try {
+      await this.tiktokService.updateSmartPlusAdGroupBudgets(
+        advertiserId,
+        accessToken,
+        [{ adgroup_id: entityId, budget }],
+      );
+    } catch (error) {
+      smartPlusError = error;
+      this.logger.warn(
+        `[BUDGET-AUDIT] Smart+ adgroup API failed for ${entityId}: ${error.message}`,
+      );
+    }
+    try {
+      await this.tiktokService.updateAdGroup(
+        advertiserId,
+        accessToken,
+        entityId,
+        {
+          budget,
+        },
+      );
+    } catch (error) {
+      if (smartPlusError) throw error;
+      this.logger.warn(
+        `[BUDGET-AUDIT] Regular adgroup API failed for ${entityId}: ${error.message}`,
+      );
+    }
+  }
+
+  private normalize(rows: unknown[]): AuditEvent[] {
+    return rows
+      .map((row) => toAuditEvent(row as AuditLogRow))
+      .filter((event): event is AuditEvent => event !== null);
+  }
+}
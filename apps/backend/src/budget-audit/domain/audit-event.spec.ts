@@ -0,0 +1,134 @@
+import { planRollback, toAuditEvent } from './audit-event';
+import type { AuditEvent, AuditLogRow } from './audit-event';
+
+const row = (overrides: Partial<AuditLogRow>): AuditLogRow => ({
+  id: 'log-1',
+  entityType: 'ADGROUP',
+  entityId: 'ag-1',
+  action: 'UPDATE_BUDGET',
+  source: 'BUDGET_OPTIMIZATION_V2',
+  userId: null,
+  beforeData: { budget: 5000 },
+  afterData: { budget: 6500 },
+  reason: null,
+  advertiserId: 'adv-1',
+  field: 'BUDGET',
+  ruleId: 'increase-1',
+  rollbackOfId: null,
+  createdAt: new Date('2026-03-01T01:00:00Z'),
+  ...overrides,
+});
+
+const event = (overrides: Partial<AuditLogRow>): AuditEvent =>
+  toAuditEvent(row(overrides))!;
+
+describe('toAuditEvent', () => {
+  it('予算変更を before / after / 実行ジョブ付きで正規化する', () => {
+    expect(event({})).toMatchObject({
+      entityType: 'ADGROUP',
+      field: 'BUDGET',
+      before: 5000,
+      after: 6500,
+      actor: { type: 'JOB', name: 'BUDGET_OPTIMIZATION_V2' },
+      ruleId: 'increase-1',
+    });
+  });
+
+  it('ユーザー操作はユーザー名を実行者にする', () => {
+    expect(
+      event({ userId: 'u-1', user: { name: '佐藤', email: 's@example.com' } })
+        .actor,
+    ).toEqual({ type: 'USER', name: '佐藤', userId: 'u-1' });
+  });
+
+  it('監査項目導入前の停止ログはアクションから ENABLE → DISABLE を補う', () => {
+    expect(
+      event({
+        entityType: 'AD',
+        action: 'PAUSE',
+        beforeData: null,
+        afterData: null,
+        field: null,
+        advertiserId: null,
+      }),
+    ).toMatchObject({ field: 'STATUS', before: 'ENABLE', after: 'DISABLE' });
+  });
+
+  it('予算・ステータス以外の変更は対象外', () => {
+    expect(
+      toAuditEvent(
+        row({
+          action: 'CREATE',
+          beforeData: null,
+          afterData: { name: 'x' },
+          field: null,
+        }),
+      ),
+    ).toBeNull();
+    expect(toAuditEvent(row({ entityType: 'APPEAL' }))).toBeNull();
+  });
+});
+
+describe('planRollback', () => {
+  it('最新の変更なら変更前の値に戻す', () => {
+    const target = event({});
+    expect(planRollback(target, target)).toEqual({
+      ok: true,
+      target: {
+        advertiserId: 'adv-1',
+        entityType: 'ADGROUP',
+        entityId: 'ag-1',
+        field: 'BUDGET',
+        value: 5000,
+        current: 6500,
+      },
+    });
+  });
+
+  it('より新しい変更があれば拒否する', () => {
+    const newer = event({
+      id: 'log-2',
+      action: 'RESET_BUDGET',
+      createdAt: new Date('2026-03-01T15:00:00Z'),
+    });
+    const plan = planRollback(event({}), newer);
+    expect(plan.ok).toBe(false);
+    expect(!plan.ok && plan.reason).toContain('より新しい変更があります');
+  });
+
+  it('失敗ログ・広告アカウント不明・広告以外のステータスは取り消せない', () => {
+    const failed = event({
+      action: 'RESET_BUDGET_ERROR',
+      afterData: { budget: 3000, error: 'timeout' },
+    });
+    expect(planRollback(failed, null).ok).toBe(false);
+    expect(planRollback(event({ advertiserId: null }), null).ok).toBe(false);
+    expect(
+      planRollback(
+        event({
+          entityType: 'CAMPAIGN',
+          field: 'STATUS',
+          beforeData: { status: 'ENABLE' },
+          afterData: { status: 'DISABLE' },
+        }),
+        null,
+      ).ok,
+    ).toBe(false);
+  });
+
+  it('広告の停止は ENABLE に戻す', () => {
+    const pause = event({
+      entityType: 'AD',
+      entityId: 'ad-1',
+      action: 'INTRADAY_PAUSE',
+      field: 'STATUS',
+      beforeData: { status: 'ENABLE' },
+      afterData: { status: 'DISABLE' },
+    });
+    const plan = planRollback(pause, pause);
+    expect(plan.ok && plan.target).toMatchObject({
+      field: 'STATUS',
+      value: 'ENABLE',
+    });
+  });
+});
@@ -0,0 +1,226 @@
+// ============================================================================
+// 予算監査 - ChangeLog の正規化とロールバック判定（純粋関数）
+// 予算・ステータス変更はすべて ChangeLog に記録し、ここで1本のタイムラインに揃える
+// ============================================================================
+
+export type AuditEntityType = 'AD' | 'ADGROUP' | 'CAMPAIGN';
+export type AuditField = 'BUDGET' | 'STATUS';
+export type AdStatus = 'ENABLE' | 'DISABLE';
+
+/** ChangeLog.beforeData / afterData の形（既存ログと互換） */
+export interface AuditState {
+  budget?: number;
+  status?: AdStatus;
+  error?: string;
+}
+
+/** 手動ロールバックの記録に使う ChangeLog.source */
+export const ROLLBACK_SOURCE = 'MANUAL_ROLLBACK';
+
+/** 監査項目（field）導入前のログを STATUS とみなすアクション */
+const LEGACY_STATUS_ACTIONS = new Set([
+  'PAUSE',
+  'RESUME',
+  'INTRADAY_PAUSE',
+  'INTRADAY_RESUME',
+]);
+
+/** 正規化前の ChangeLog 行（必要な列のみ） */
+export interface AuditLogRow {
+  id: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  source: string;
+  userId: string | null;
+  beforeData: unknown;
+  afterData: unknown;
+  reason: string | null;
+  advertiserId: string | null;
+  field: string | null;
+  ruleId: string | null;
+  rollbackOfId: string | null;
+  createdAt: Date;
+  user?: { name: string; email: string } | null;
+}
+
+export interface AuditActor {
+  /** JOB: バッチ・自動最適化（source がジョブ名）/ USER: 手動操作 */
+  type: 'JOB' | 'USER';
+  name: string;
+  userId: string | null;
+}
+
+/** タイムラインの1件 */
+export interface AuditEvent {
+  id: string;
+  at: Date;
+  advertiserId: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  field: AuditField;
+  action: string;
+  before: number | AdStatus | null;
+  after: number | AdStatus | null;
+  actor: AuditActor;
+  ruleId: string | null;
+  reason: string | null;
+  error: string | null;
+  rollbackOfId: string | null;
+}
+
+export function isAuditEntityType(value: string): value is AuditEntityType {
+  return value === 'AD' || value === 'ADGROUP' || value === 'CAMPAIGN';
+}
+
+function asState(data: unknown): AuditState | null {
+  return data && typeof data === 'object' ? (data as AuditState) : null;
+}
+
+/** before / after のどちらかに入っている値から変更項目を判定 */
+export function auditFieldOf(
+  before: AuditState | null,
+  after: AuditState | null,
+): AuditField | null {
+  if (typeof after?.budget === 'number' || typeof before?.budget === 'number')
+    return 'BUDGET';
+  if (after?.status || before?.status) return 'STATUS';
+  return null;
+}
+
+function valueOf(
+  state: AuditState | null,
+  field: AuditField,
+): number | AdStatus | null {
+  if (!state) return null;
+  if (field === 'BUDGET') return state.budget ?? null;
+  return state.status ?? null;
+}
+
+/** ステータスは二値なので、片方しか記録がなければもう片方を補う */
+function oppositeStatus(status: AdStatus | null): AdStatus | null {
+  if (status === 'DISABLE') return 'ENABLE';
+  if (status === 'ENABLE') return 'DISABLE';
+  return null;
+}
+
+/**
+ * ChangeLog 行を監査イベントに正規化する
+ * 予算・ステータス以外の変更（入稿・設定変更等）は null
+ */
+export function toAuditEvent(row: AuditLogRow): AuditEvent | null {
+  if (!isAuditEntityType(row.entityType)) return null;
+
+  const beforeState = asState(row.beforeData);
+  const afterState = asState(row.afterData);
+  const field =
+    (row.field === 'BUDGET' || row.field === 'STATUS' ? row.field : null) ??
+    auditFieldOf(beforeState, afterState) ??
+    (LEGACY_STATUS_ACTIONS.has(row.action) ? 'STATUS' : null);
+  if (!field) return null;
+
+  let before = valueOf(beforeState, field);
+  let after = valueOf(afterState, field);
+  if (field === 'STATUS') {
+    // 旧ログの停止は afterData なし（V2）/ beforeData なし（V1・日中）がある
+    if (!after && row.action.includes('PAUSE')) after = 'DISABLE';
+    if (!after && row.action.includes('RESUME')) after = 'ENABLE';
+    before ??= oppositeStatus(after as AdStatus | null);
+    after ??= oppositeStatus(before as AdStatus | null);
+  }
+
+  return {
+    id: row.id,
+    at: row.createdAt,
+    advertiserId: row.advertiserId,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    field,
+    action: row.action,
+    before,
+    after,
+    actor: row.userId
+      ? {
+          type: 'USER',
+          name: row.user?.name ?? row.user?.email ?? row.userId,
+          userId: row.userId,
+        }
+      : { type: 'JOB', name: row.source, userId: null },
+    ruleId: row.ruleId,
+    reason: row.reason,
+    error: afterState?.error ?? null,
+    rollbackOfId: row.rollbackOfId,
+  };
+}
+
+/** ロールバックで書き戻す内容 */
+export interface RollbackTarget {
+  advertiserId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  field: AuditField;
+  /** 書き戻す値（= 対象イベントの before） */
+  value: number | AdStatus;
+  /** 書き戻し前の値（= 対象イベントの after） */
+  current: number | AdStatus | null;
+}
+
+export type RollbackPlan =
+  | { ok: true; target: RollbackTarget }
+  | { ok: false; reason: string };
+
+/**
+ * イベントを取り消せるか判定する
+ * 同じ対象・項目により新しい変更がある場合は、それを上書きしないよう拒否する
+ *
+ * @param latest 同じ entity / field の最新イベント
+ */
+export function planRollback(
+  event: AuditEvent,
+  latest: AuditEvent | null,
+): RollbackPlan {
+  if (event.error) {
+    return { ok: false, reason: '失敗した変更は取り消せません' };
+  }
+  if (!event.advertiserId) {
+    return {
+      ok: false,
+      reason: '広告アカウントが記録されていない変更は取り消せません',
+    };
+  }
+  if (event.before === null) {
+    return { ok: false, reason: '変更前の値が記録されていません' };
+  }
+  if (event.field === 'STATUS' && event.entityType !== 'AD') {
+    return {
+      ok: false,
+      reason: 'ステータスの取り消しは広告単位のみ対応しています',
+    };
+  }
+  if (latest && latest.id !== event.id) {
+    return {
+      ok: false,
+      reason: `より新しい変更があります（${latest.at.toISOString()} ${latest.action}）`,
+    };
+  }
+  if (event.before === event.after) {
+    return { ok: false, reason: '変更前後の値が同じです' };
+  }
+
+  return {
+    ok: true,
+    target: {
+      advertiserId: event.advertiserId,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      field: event.field,
+      value: event.before,
+      current: event.after,
+    },
+  };
+}
+
+/** ロールバック記録に使う ChangeLog.action */
+export function rollbackAction(field: AuditField): string {
+  return field === 'BUDGET' ? 'ROLLBACK_BUDGET' : 'ROLLBACK_STATUS';
+}
@@ -0,0 +1,46 @@
+// ============================================================================
+// BudgetBacktestController - APIエンドポイント
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Post,
+} from '@nestjs/common';
+import {
+  BudgetBacktestService,
+  type RunBacktestDto,
+} from './budget-backtest.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.BUDGET_READ)
+@Controller('api/budget-backtest')
+export class BudgetBacktestController {
+  private readonly logger = new Logger(BudgetBacktestController.name);
+
+  constructor(private readonly service: BudgetBacktestService) {}
+
+  /**
+   * 過去実績を予算調整V2の判定で再生し、実績と比較する
+   * POST /api/budget-backtest/run
+   * Body: { advertiserId, startDate, endDate, ruleSetId?, definition? }
+   */
+  @Post('run')
+  async run(@Body() body: RunBacktestDto) {
+    try {
+      const report = await this.service.run(body);
+      return { success: true, data: report };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[BACKTEST] Run failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
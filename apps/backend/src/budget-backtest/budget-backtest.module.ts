@@ -0,0 +1,45 @@
+// ============================================================================
+// BudgetBacktestModule - DIバインディング
+// BACKTEST_SHEET_FIXTURE_PATH を設定するとCV台帳の代わりにJSONフィクスチャを読む
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BudgetBacktestService } from './budget-backtest.service';
+import { BudgetBacktestController } from './budget-backtest.controller';
+import {
+  BACKTEST_HISTORY_SOURCE,
+  CONVERSION_COUNT_SOURCE,
+} from './domain/ports';
+import type { ConversionCountSource } from './domain/ports';
+import { PrismaBacktestHistorySource } from './infrastructure/prisma-backtest-history-source';
+import { LedgerConversionCountSource } from './infrastructure/ledger-conversion-count-source';
+import { FixtureConversionCountSource } from './infrastructure/fixture-conversion-count-source';
+import { ConversionLedgerModule } from '../conversion-ledger/conversion-ledger.module';
+import { ConversionLedgerService } from '../conversion-ledger/conversion-ledger.service';
+import { BudgetOptimizationV2Module } from '../budget-optimization-v2/budget-optimization-v2.module';
+
+@Module({
+  imports: [ConversionLedgerModule, BudgetOptimizationV2Module],
+  controllers: [BudgetBacktestController],
+  providers: [
+    BudgetBacktestService,
+    { provide: BACKTEST_HISTORY_SOURCE, useClass: PrismaBacktestHistorySource },
+    {
+      provide: CONVERSION_COUNT_SOURCE,
+      inject: [ConfigService, ConversionLedgerService],
+      useFactory: (
+        configService: ConfigService,
+        conversionLedger: ConversionLedgerService,
+      ): ConversionCountSource => {
+        const fixturePath = configService.get<string>(
+          'BACKTEST_SHEET_FIXTURE_PATH',
+        );
+        return fixturePath
+          ? new FixtureConversionCountSource(fixturePath)
+          : new LedgerConversionCountSource(conversionLedger);
+      },
+    },
+  ],
+})
+export class BudgetBacktestModule {}
@@ -0,0 +1,312 @@
+// ============================================================================
+// BudgetBacktestService - 予算調整V2 バックテストのオーケストレーション
+// TikTok APIは呼ばず、DB・スプシ（またはフィクスチャ）の実績のみで再生する
+// ============================================================================
+
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { validateAdNameFormat } from '../common/utils';
+import {
+  buildIndividualReservationPath,
+  buildRegistrationPath,
+  usesFrontCPO,
+} from '../budget-optimization-v2/types';
+import { BudgetRuleSetService } from '../budget-optimization-v2/budget-rule-set.service';
+import { validateRuleSetDefinition } from '../budget-optimization-v2/domain/rule-engine';
+import type { BudgetRuleSetDefinition } from '../budget-optimization-v2/domain/rule-types';
+import {
+  BACKTEST_HISTORY_SOURCE,
+  CONVERSION_COUNT_SOURCE,
+} from './domain/ports';
+import type {
+  BacktestHistorySource,
+  BacktestTarget,
+  ConversionCountSource,
+  ConversionKind,
+  StoredAdHistory,
+} from './domain/ports';
+import type {
+  AdDayActual,
+  BacktestAdInput,
+  BacktestAdResult,
+  BacktestReport,
+} from './domain/types';
+import {
+  LOOKBACK_DAYS,
+  addDays,
+  compareTotals,
+  listDates,
+  simulateAd,
+  summarizeTotals,
+} from './domain/backtest-simulation';
+
+/** 1回のバックテストで指定できる最大日数（スプシ読み出し量の上限） */
+const MAX_PERIOD_DAYS = 92;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface RunBacktestDto {
+  /** TikTok advertiser_id */
+  advertiserId: string;
+  /** JST日付 YYYY-MM-DD（両端含む） */
+  startDate: string;
+  endDate: string;
+  /** 保存済みルールセットで再生（省略時は現在有効なルールセット） */
+  ruleSetId?: string;
+  /** 未保存のルールセット定義で再生（ruleSetIdより優先） */
+  definition?: BudgetRuleSetDefinition;
+}
+
+@Injectable()
+export class BudgetBacktestService {
+  private readonly logger = new Logger(BudgetBacktestService.name);
+
+  constructor(
+    @Inject(BACKTEST_HISTORY_SOURCE)
+    private readonly historySource: BacktestHistorySource,
+    @Inject(CONVERSION_COUNT_SOURCE)
+    private readonly conversionSource: ConversionCountSource,
+    private readonly ruleSetService: BudgetRuleSetService,
+  ) {}
+
+  async run(dto: RunBacktestDto): Promise<BacktestReport> {
+    this.validatePeriod(dto.startDate, dto.endDate);
+
+    const target = await this.historySource.findTarget(dto.advertiserId);
+    if (!target) {
+      throw new NotFoundException(
+        `Advertiser ${dto.advertiserId} not found or no appeal assigned`,
+      );
+    }
+
+    const ruleSet = await this.resolveRuleSet(dto, target);
+    const period = { startDate: dto.startDate, endDate: dto.endDate };
+    this.logger.log(
+      `[BACKTEST] ${dto.advertiserId} ${period.startDate}〜${period.endDate} (rule set: ${ruleSet.source}${ruleSet.version ? ` v${ruleSet.version}` : ''})`,
+    );
+
+    // 停止判定の参照期間のため開始7日前から読み込む
+    const loadStart = addDays(dto.startDate, -LOOKBACK_DAYS);
+    const dates = listDates(loadStart, dto.endDate);
+    const [histories, excludedCRs] = await Promise.all([
+      this.historySource.findAdHistories(target, loadStart, dto.endDate),
+      this.historySource.findExcludedCreativeNames(dto.advertiserId),
+    ]);
+
+    const ads: BacktestAdResult[] = [];
+    const skippedAds: BacktestReport['skippedAds'] = [];
+
+    for (const history of histories) {
+      const parsed = validateAdNameFormat(history.adName).parsed;
+      if (!parsed) {
+        skippedAds.push({ ...this.adRef(history), reason: '広告名パース不可' });
+        continue;
+      }
+      if (excludedCRs.has(parsed.creativeName)) {
+        skippedAds.push({
+          ...this.adRef(history),
+          reason: `予算調整除外: CR名=${parsed.creativeName}`,
+        });
+        continue;
+      }
+
+      try {
+        const input = await this.buildAdInput(history, parsed, target, dates);
+        ads.push(
+          simulateAd(input, {
+            definition: ruleSet.definition,
+            channelType: target.channelType,
+            kpi: target.appeal.kpi,
+            period,
+          }),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `[BACKTEST] Ad ${history.adId} (${history.adName}) skipped: ${error.message}`,
+        );
+        skippedAds.push({
+          ...this.adRef(history),
+          reason: `件数取得失敗: ${error.message}`,
+        });
+      }
+    }
+
+    const comparison = compareTotals(
+      summarizeTotals(ads.flatMap((ad) => ad.days.map((d) => d.actual))),
+      summarizeTotals(ads.flatMap((ad) => ad.days.map((d) => d.simulated))),
+    );
+
+    this.logger.log(
+      `[BACKTEST] Done: ${ads.length} ads simulated, ${skippedAds.length} skipped, spend ¥${comparison.actual.spend.toFixed(0)} → ¥${comparison.simulated.spend.toFixed(0)}`,
+    );
+
+    return {
+      advertiserId: dto.advertiserId,
+      appealName: target.appeal.name,
+      channelType: target.channelType,
+      period,
+      ruleSet: {
+        source: ruleSet.source,
+        id: ruleSet.id,
+        version: ruleSet.version,
+      },
+      ...comparison,
+      ads,
+      skippedAds,
+    };
+  }
+
+  // ============================================================================
+  // 入力組み立て
+  // ============================================================================
+
+  private async buildAdInput(
+    history: StoredAdHistory,
+    parsed: { date: string; creativeName: string; lpName: string },
+    target: BacktestTarget,
+    dates: string[],
+  ): Promise<BacktestAdInput> {
+    const { appeal, channelType } = target;
+    const registrationPath = buildRegistrationPath(parsed.lpName, appeal.name);
+
+    const count = (
+      kind: ConversionKind,
+      path: string,
+      spreadsheetUrl: string | null,
+    ) =>
+      this.conversionSource.getDailyCounts({
+        kind,
+        channelType,
+        appealName: appeal.name,
+        spreadsheetUrl,
+        individualReservationSheet: target.individualReservationSheet,
+        registrationPath: path,
+        dates,
+      });
+
+    const cvCounts = await count(
+      'CV',
+      registrationPath,
+      appeal.cvSpreadsheetUrl,
+    );
+    const frontCounts = usesFrontCPO(channelType)
+      ? await count('FRONT_SALES', registrationPath, appeal.frontSpreadsheetUrl)
+      : new Map<string, number>();
+    const indResCounts = await count(
+      'INDIVIDUAL_RESERVATION',
+      buildIndividualReservationPath(
+        parsed.lpName,
+        parsed.creativeName,
+        appeal.name,
+      ),
+      null,
+    );
+
+    const metricsByDate = new Map(history.metrics.map((m) => [m.date, m]));
+    const hourlyByDate = new Map(
+      history.hourly.map((h) => [h.date, h.observations]),
+    );
+
+    const days: AdDayActual[] = dates.map((date) => {
+      const hourly = hourlyByDate.get(date) ?? [];
+      return {
+        date,
+        spend: metricsByDate.get(date)?.spend ?? 0,
+        impressions: metricsByDate.get(date)?.impressions ?? 0,
+        cvCount: cvCounts.get(date) ?? 0,
+        frontSalesCount: frontCounts.get(date) ?? 0,
+        individualReservationCount: indResCounts.get(date) ?? 0,
+        dailyBudget: hourly[0]?.dailyBudget ?? null,
+        hourly,
+      };
+    });
+
+    return {
+      adId: history.adId,
+      adName: history.adName,
+      baseBudget: history.initialBudget ?? target.defaultDailyBudget,
+      budgetCap: history.budgetCap,
+      publishDate: parsed.date || null,
+      days,
+    };
+  }
+
+  private async resolveRuleSet(
+    dto: RunBacktestDto,
+    target: BacktestTarget,
+  ): Promise<{
+    source: BacktestReport['ruleSet']['source'];
+    id: string | null;
+    version: number | null;
+    definition: BudgetRuleSetDefinition;
+  }> {
+    if (dto.definition) {
+      const errors = validateRuleSetDefinition(dto.definition);
+      if (errors.length > 0) {
+        throw new BadRequestException({ message: 'Invalid rule set', errors });
+      }
+      return {
+        source: 'REQUEST',
+        id: null,
+        version: null,
+        definition: dto.definition,
+      };
+    }
+
+    if (dto.ruleSetId) {
+      const stored = await this.ruleSetService.findOne(dto.ruleSetId);
+      const definition =
+        stored.definition as unknown as BudgetRuleSetDefinition;
+      const errors = validateRuleSetDefinition(definition);
+      if (errors.length > 0) {
+        throw new BadRequestException({
+          message: `Rule set ${stored.id} is invalid`,
+          errors,
+        });
+      }
+      return {
+        source: 'DB',
+        id: stored.id,
+        version: stored.version,
+        definition,
+      };
+    }
+
+    const resolved = await this.ruleSetService.resolve(
+      target.channelType,
+      target.appeal.id,
+    );
+    return {
+      source: resolved.source,
+      id: resolved.id,
+      version: resolved.version,
+      definition: resolved.definition,
+    };
+  }
+
+  private validatePeriod(startDate: string, endDate: string): void {
+    const isValidDate = (date: string) =>
+      DATE_PATTERN.test(date ?? '') &&
+      !isNaN(new Date(`${date}T00:00:00.000Z`).getTime());
+    if (!isValidDate(startDate) || !isValidDate(endDate)) {
+      throw new BadRequestException('startDate / endDate must be YYYY-MM-DD');
+    }
+    if (startDate > endDate) {
+      throw new BadRequestException('startDate must be on or before endDate');
+    }
+    if (listDates(startDate, endDate).length > MAX_PERIOD_DAYS) {
+      throw new BadRequestException(
+        `Period must be ${MAX_PERIOD_DAYS} days or less`,
+      );
+    }
+  }
+
+  private adRef(history: StoredAdHistory) {
+    return { adId: history.adId, adName: history.adName };
+  }
+}
@@ -0,0 +1,203 @@
+import {
+  addDays,
+  compareTotals,
+  listDates,
+  simulateAd,
+  summarizeTotals,
+} from './backtest-simulation';
+import { buildDefaultRuleSet } from '../../budget-optimization-v2/domain/default-rule-set';
+import type { BudgetRuleSetDefinition } from '../../budget-optimization-v2/domain/rule-types';
+import type { AdDayActual, BacktestAdInput, SimulationSettings } from './types';
+
+const PERIOD = { startDate: '2026-03-08', endDate: '2026-03-08' };
+
+const KPI = {
+  targetCPA: 5000,
+  allowableCPA: 10000,
+  allowableIndividualReservationCPO: null,
+};
+
+function day(date: string, overrides: Partial<AdDayActual> = {}): AdDayActual {
+  return {
+    date,
+    spend: 0,
+    impressions: 0,
+    cvCount: 0,
+    frontSalesCount: 0,
+    individualReservationCount: 0,
+    dailyBudget: null,
+    hourly: [],
+    ...overrides,
+  };
+}
+
+/** 期間開始前7日分の実績 */
+function lookbackDays(overrides: Partial<AdDayActual>): AdDayActual[] {
+  return listDates('2026-03-01', '2026-03-07').map((d) => day(d, overrides));
+}
+
+function input(days: AdDayActual[]): BacktestAdInput {
+  return {
+    adId: 'ad-1',
+    adName: '260201/テスト/CR00001/LP1-CR00001',
+    baseBudget: 5000,
+    budgetCap: null,
+    publishDate: null,
+    days,
+  };
+}
+
+function settings(
+  definition: BudgetRuleSetDefinition,
+  kpi: SimulationSettings['kpi'] = KPI,
+): SimulationSettings {
+  return { definition, channelType: 'SEMINAR', kpi, period: PERIOD };
+}
+
+/** 判定ルールを空にした定義（実績がそのまま再現されるはず） */
+function noopDefinition(): BudgetRuleSetDefinition {
+  const def = buildDefaultRuleSet('SEMINAR');
+  return {
+    increase: { ...def.increase, rules: [] },
+    pause: { rules: [] },
+    individualReservation: { ...def.individualReservation, rules: [] },
+  };
+}
+
+describe('BacktestSimulation', () => {
+  describe('listDates / addDays', () => {
+    it('月跨ぎの日付を列挙する', () => {
+      expect(listDates('2026-02-27', '2026-03-02')).toEqual([
+        '2026-02-27',
+        '2026-02-28',
+        '2026-03-01',
+        '2026-03-02',
+      ]);
+      expect(addDays('2026-03-01', -7)).toBe('2026-02-22');
+    });
+  });
+
+  describe('summarizeTotals / compareTotals', () => {
+    it('CV0件のCPAはnull、差分もnullになる', () => {
+      const actual = summarizeTotals([
+        {
+          spend: 1000,
+          impressions: 0,
+          cvCount: 0,
+          frontSalesCount: 0,
+          individualReservationCount: 0,
+          endBudget: null,
+        },
+      ]);
+      expect(actual.cpa).toBeNull();
+      const simulated = { ...actual, spend: 500, cvCount: 1, cpa: 500 };
+      const result = compareTotals(actual, simulated);
+      expect(result.diff.spend).toBe(-500);
+      expect(result.diff.cpa).toBeNull();
+    });
+  });
+
+  describe('simulateAd', () => {
+    it('判定が何も発火しなければ実績をそのまま再現する', () => {
+      const result = simulateAd(
+        input([
+          ...lookbackDays({ spend: 3000, cvCount: 1 }),
+          day('2026-03-08', { spend: 4000, cvCount: 2 }),
+        ]),
+        settings(noopDefinition()),
+      );
+
+      expect(result.days).toHaveLength(1);
+      expect(result.simulated.spend).toBeCloseTo(4000);
+      expect(result.simulated.cvCount).toBeCloseTo(2);
+      expect(result.actual.spend).toBe(4000);
+      expect(result.events).toEqual([]);
+    });
+
+    it('過去7日CV=0なら初日に停止し、シミュレーション上の消化は0になる', () => {
+      const result = simulateAd(
+        input([
+          ...lookbackDays({ spend: 3000, impressions: 2000 }),
+          day('2026-03-08', { spend: 4000, cvCount: 1 }),
+        ]),
+        settings(buildDefaultRuleSet('SEMINAR')),
+      );
+
+      expect(result.pausedOn).toBe('2026-03-08');
+      expect(result.events[0]).toMatchObject({
+        stage: 'PAUSE',
+        ruleId: 'no-cv',
+        action: 'PAUSE',
+      });
+      expect(result.simulated.spend).toBe(0);
+      expect(result.days[0].simulated.paused).toBe(true);
+    });
+
+    it('新規CR保護の条件を満たす場合は停止判定しない', () => {
+      const result = simulateAd(
+        input([day('2026-03-08', { spend: 4000, cvCount: 0 })]),
+        settings(buildDefaultRuleSet('SEMINAR')),
+      );
+      expect(result.pausedOn).toBeNull();
+    });
+
+    it('毎時スナップショットで増額を再生し、予算律速の日は消化が伸びる', () => {
+      const result = simulateAd(
+        input([
+          day('2026-03-08', {
+            spend: 5000,
+            cvCount: 4,
+            dailyBudget: 5000,
+            hourly: [
+              { hour: 10, todaySpend: 2000, todayCV: 2, dailyBudget: 5000 },
+              { hour: 11, todaySpend: 4000, todayCV: 3, dailyBudget: 5000 },
+            ],
+          }),
+        ]),
+        settings(buildDefaultRuleSet('SEMINAR')),
+      );
+
+      expect(
+        result.events.map((e) => [e.hour, e.ruleId, e.budgetAfter]),
+      ).toEqual([
+        [10, 'tier-low', 6500],
+        [11, 'tier-low', 8450],
+      ]);
+      // 2000 + 2000×1.3 + 1000×1.69
+      expect(result.simulated.spend).toBeCloseTo(6290);
+      expect(result.simulated.cvCount).toBeCloseTo(4.99);
+      expect(result.days[0].simulated.endBudget).toBe(8450);
+    });
+
+    it('個別予約CPO超過で減額した日は予算で消化が頭打ちになる', () => {
+      const def = noopDefinition();
+      const definition = {
+        ...def,
+        individualReservation:
+          buildDefaultRuleSet('SEMINAR').individualReservation,
+      };
+      // 過去7日: 広告費¥35,000・個別予約1件 → CPO ¥35,000 > 許容¥20,000
+      const lookback = lookbackDays({
+        spend: 5000,
+        cvCount: 2,
+        impressions: 10000,
+      }).map((d, i) => (i === 0 ? { ...d, individualReservationCount: 1 } : d));
+      const result = simulateAd(
+        input([...lookback, day('2026-03-08', { spend: 5000, cvCount: 2 })]),
+        settings(definition, {
+          ...KPI,
+          allowableIndividualReservationCPO: 20000,
+        }),
+      );
+
+      expect(result.events[0]).toMatchObject({
+        stage: 'INDIVIDUAL_RESERVATION',
+        ruleId: 'indres-cpo-over',
+        budgetBefore: 5000,
+        budgetAfter: 4000,
+      });
+      expect(result.simulated.spend).toBeCloseTo(4000);
+      expect(result.simulated.cvCount).toBeCloseTo(1.6);
+    });
+  });
+});
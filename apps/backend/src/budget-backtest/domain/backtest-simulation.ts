@@ -0,0 +1,397 @@
+// ============================================================================
+// 予算調整V2 バックテスト - シミュレーション（純粋関数のみ）
+//
+// 予算調整V2と同じ判定関数（rule-engine）で日次・毎時の判定を再生する。
+// 予算が変わった場合の実績は「CPA一定・予算律速の日だけ消化が予算に比例」と仮定して補正する。
+// - 毎日0時に初期予算へリセット
+// - 第1回（0時台）: 前日までの7日間で停止判定 → 個別予約CPO判定
+// - 毎時: 当日累計で増額判定（スナップショットがない日は運用時間に均等配分して近似）
+// ============================================================================
+
+import {
+  MIN_IMPRESSIONS_FOR_PAUSE,
+  isWithin7DaysOfPublish,
+} from '../../budget-optimization-v2/types';
+import {
+  applyIncreaseLimits,
+  buildPauseRuleContext,
+  calculateDecreasedBudget,
+  calculateIncreasedBudget,
+  matchRule,
+} from '../../budget-optimization-v2/domain/rule-engine';
+import type { PauseMetrics } from '../../budget-optimization-v2/domain/rule-types';
+import type {
+  AdDayActual,
+  BacktestAdInput,
+  BacktestAdResult,
+  BacktestComparison,
+  BacktestDayResult,
+  BacktestDecisionEvent,
+  BacktestTotals,
+  DayTotals,
+  HourlyObservation,
+  SimulationSettings,
+} from './types';
+
+/** 停止判定で参照する日数 */
+export const LOOKBACK_DAYS = 7;
+
+/** 実績消化がこの割合以上なら予算律速の日とみなす（増額時に消化が伸びる） */
+export const BUDGET_BOUND_RATIO = 0.9;
+
+// ============================================================================
+// 日付ユーティリティ
+// ============================================================================
+
+/** YYYY-MM-DD に日数を加算 */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** 期間内の日付一覧（両端含む） */
+export function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let d = startDate; d <= endDate; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+}
+
+// ============================================================================
+// 集計
+// ============================================================================
+
+function ratioOrNull(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function summarizeTotals(days: DayTotals[]): BacktestTotals {
+  const spend = days.reduce((sum, d) => sum + d.spend, 0);
+  const cvCount = days.reduce((sum, d) => sum + d.cvCount, 0);
+  const frontSalesCount = days.reduce((sum, d) => sum + d.frontSalesCount, 0);
+  const individualReservationCount = days.reduce(
+    (sum, d) => sum + d.individualReservationCount,
+    0,
+  );
+  return {
+    spend,
+    cvCount,
+    cpa: ratioOrNull(spend, cvCount),
+    frontSalesCount,
+    frontCPO: ratioOrNull(spend, frontSalesCount),
+    individualReservationCount,
+    individualReservationCPO: ratioOrNull(spend, individualReservationCount),
+  };
+}
+
+export function compareTotals(
+  actual: BacktestTotals,
+  simulated: BacktestTotals,
+): BacktestComparison {
+  const diffOrNull = (a: number | null, b: number | null) =>
+    a === null || b === null ? null : b - a;
+  return {
+    actual,
+    simulated,
+    diff: {
+      spend: simulated.spend - actual.spend,
+      cvCount: simulated.cvCount - actual.cvCount,
+      cpa: diffOrNull(actual.cpa, simulated.cpa),
+      frontCPO: diffOrNull(actual.frontCPO, simulated.frontCPO),
+    },
+  };
+}
+
+function toPauseMetrics(days: DayTotals[]): PauseMetrics {
+  const totals = summarizeTotals(days);
+  return {
+    last7DaysSpend: totals.spend,
+    last7DaysImpressions: days.reduce((sum, d) => sum + d.impressions, 0),
+    last7DaysCVCount: totals.cvCount,
+    last7DaysFrontSalesCount: totals.frontSalesCount,
+    last7DaysCPA: totals.cpa,
+    last7DaysFrontCPO: totals.frontCPO,
+    last7DaysIndividualReservationCount: totals.individualReservationCount,
+    last7DaysIndividualReservationCPO: totals.individualReservationCPO,
+  };
+}
+
+function actualTotals(day: AdDayActual): DayTotals {
+  const lastObservation = day.hourly[day.hourly.length - 1];
+  return {
+    spend: day.spend,
+    impressions: day.impressions,
+    cvCount: day.cvCount,
+    frontSalesCount: day.frontSalesCount,
+    individualReservationCount: day.individualReservationCount,
+    endBudget: lastObservation?.dailyBudget ?? day.dailyBudget,
+  };
+}
+
+const PAUSED_DAY: DayTotals = {
+  spend: 0,
+  impressions: 0,
+  cvCount: 0,
+  frontSalesCount: 0,
+  individualReservationCount: 0,
+  endBudget: null,
+};
+
+// ============================================================================
+// 第1回: 停止判定・個別予約CPO判定
+// ============================================================================
+
+function replayFirstRound(
+  input: BacktestAdInput,
+  date: string,
+  budget: number,
+  lookback: DayTotals[],
+  settings: SimulationSettings,
+): { paused: boolean; budget: number; events: BacktestDecisionEvent[] } {
+  const { definition, kpi } = settings;
+  const metrics = toPauseMetrics(lookback);
+
+  // 新規CR保護（V2と同条件）
+  if (
+    metrics.last7DaysSpend < (kpi.allowableCPA || 0) &&
+    metrics.last7DaysImpressions < MIN_IMPRESSIONS_FOR_PAUSE
+  ) {
+    return { paused: false, budget, events: [] };
+  }
+
+  const ctx = buildPauseRuleContext(budget, metrics, kpi);
+  const pause = matchRule(definition.pause.rules, ctx, 'CONTINUE');
+  if (pause.action === 'PAUSE') {
+    return {
+      paused: true,
+      budget,
+      events: [
+        {
+          date,
+          hour: null,
+          stage: 'PAUSE',
+          ...pause,
+          budgetBefore: budget,
+          budgetAfter: 0,
+        },
+      ],
+    };
+  }
+
+  // 個別予約CPO判定（出稿7日以内は保護）
+  const isNewAd =
+    input.publishDate !== null &&
+    isWithin7DaysOfPublish(input.publishDate, date);
+  if (!kpi.allowableIndividualReservationCPO || isNewAd) {
+    return { paused: false, budget, events: [] };
+  }
+
+  const stage = definition.individualReservation;
+  const indRes = matchRule(stage.rules, ctx, 'CONTINUE');
+  if (indRes.action === 'CONTINUE') {
+    return { paused: false, budget, events: [] };
+  }
+
+  const paused = indRes.action === 'PAUSE';
+  const newBudget = paused ? budget : calculateDecreasedBudget(stage, budget);
+  return {
+    paused,
+    budget: newBudget,
+    events: [
+      {
+        date,
+        hour: null,
+        stage: 'INDIVIDUAL_RESERVATION',
+        ...indRes,
+        budgetBefore: budget,
+        budgetAfter: paused ? 0 : newBudget,
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// 毎時: 増額判定
+// ============================================================================
+
+/** スナップショットがない日は日次実績を各時の30分時点に均等配分する */
+function evenHourlyObservations(day: AdDayActual): HourlyObservation[] {
+  const budget = day.dailyBudget ?? 0;
+  return Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    todaySpend: (day.spend * (hour + 0.5)) / 24,
+    todayCV: (day.cvCount * (hour + 0.5)) / 24,
+    dailyBudget: budget,
+  }));
+}
+
+function replayIntraday(
+  input: BacktestAdInput,
+  day: AdDayActual,
+  startBudget: number,
+  settings: SimulationSettings,
+): { totals: DayTotals; events: BacktestDecisionEvent[] } {
+  const stage = settings.definition.increase;
+  const observations =
+    day.hourly.length > 0 ? day.hourly : evenHourlyObservations(day);
+  const budgetBound =
+    day.dailyBudget !== null &&
+    day.spend >= day.dailyBudget * BUDGET_BOUND_RATIO;
+
+  const events: BacktestDecisionEvent[] = [];
+  let budget = startBudget;
+  let simSpend = 0;
+  let simCV = 0;
+  let prevSpend = 0;
+  let prevCV = 0;
+  let actualBudget = observations[0]?.dailyBudget || budget;
+
+  // 最後の観測以降〜日次確定値までを最終区間として扱う
+  const points = [
+    ...observations.map((o) => ({ ...o, final: false })),
+    {
+      hour: 24,
+      todaySpend: day.spend,
+      todayCV: day.cvCount,
+      dailyBudget: actualBudget,
+      final: true,
+    },
+  ];
+
+  for (const point of points) {
+    const deltaSpend = Math.max(0, point.todaySpend - prevSpend);
+    const deltaCV = Math.max(0, point.todayCV - prevCV);
+    prevSpend = Math.max(prevSpend, point.todaySpend);
+    prevCV = Math.max(prevCV, point.todayCV);
+
+    const budgetRatio = actualBudget > 0 ? budget / actualBudget : 1;
+    const ratio = budgetBound ? budgetRatio : Math.min(budgetRatio, 1);
+    const simDelta = Math.min(
+      deltaSpend * ratio,
+      Math.max(0, budget - simSpend),
+    );
+    const cvScale = deltaSpend > 0 ? simDelta / deltaSpend : Math.min(ratio, 1);
+    simSpend += simDelta;
+    simCV += deltaCV * cvScale;
+    if (!point.final && point.dailyBudget > 0) actualBudget = point.dailyBudget;
+    if (point.final) break;
+
+    const match = matchRule(
+      stage.rules,
+      {
+        currentBudget: budget,
+        todayCPA: simCV > 0 ? simSpend / simCV : null,
+        todayCV: simCV,
+        todaySpend: simSpend,
+        targetCPA: settings.kpi.targetCPA,
+      },
+      'CONTINUE',
+    );
+    if (match.action !== 'INCREASE') continue;
+
+    const increased = calculateIncreasedBudget(stage, budget);
+    const limited = applyIncreaseLimits(budget, increased.newBudget, {
+      budgetCap: input.budgetCap,
+      maxDailyBudget: stage.maxDailyBudget,
+    });
+    if (limited.newBudget === null) continue;
+
+    events.push({
+      date: day.date,
+      hour: point.hour,
+      stage: 'INCREASE',
+      ...match,
+      reason: `増額: ${match.reason}${limited.note}`,
+      budgetBefore: budget,
+      budgetAfter: limited.newBudget,
+    });
+    budget = limited.newBudget;
+  }
+
+  // フロント販売・個別予約・impは消化額に比例すると仮定
+  const spendScale = day.spend > 0 ? simSpend / day.spend : 1;
+  return {
+    totals: {
+      spend: simSpend,
+      impressions: day.impressions * spendScale,
+      cvCount: simCV,
+      frontSalesCount: day.frontSalesCount * spendScale,
+      individualReservationCount: day.individualReservationCount * spendScale,
+      endBudget: budget,
+    },
+    events,
+  };
+}
+
+// ============================================================================
+// 広告1件のシミュレーション
+// ============================================================================
+
+/**
+ * 広告1件の実績を予算調整V2の判定で再生する
+ * 期間開始前の日は実績をそのまま停止判定の参照期間として使う
+ */
+export function simulateAd(
+  input: BacktestAdInput,
+  settings: SimulationSettings,
+): BacktestAdResult {
+  const { period } = settings;
+  const history: DayTotals[] = [];
+  const days: BacktestDayResult[] = [];
+  const events: BacktestDecisionEvent[] = [];
+  let pausedOn: string | null = null;
+
+  for (const day of input.days) {
+    const actual = actualTotals(day);
+    if (day.date < period.startDate) {
+      history.push(actual);
+      continue;
+    }
+    if (day.date > period.endDate) break;
+
+    let simulated: DayTotals | null = null;
+    if (!pausedOn) {
+      const firstRound = replayFirstRound(
+        input,
+        day.date,
+        input.baseBudget,
+        history.slice(-LOOKBACK_DAYS),
+        settings,
+      );
+      events.push(...firstRound.events);
+
+      if (firstRound.paused) {
+        pausedOn = day.date;
+      } else {
+        const intraday = replayIntraday(
+          input,
+          day,
+          firstRound.budget,
+          settings,
+        );
+        events.push(...intraday.events);
+        simulated = intraday.totals;
+      }
+    }
+
+    const simulatedDay = simulated ?? PAUSED_DAY;
+    history.push(simulatedDay);
+    days.push({
+      date: day.date,
+      actual,
+      simulated: { ...simulatedDay, paused: simulated === null },
+    });
+  }
+
+  return {
+    adId: input.adId,
+    adName: input.adName,
+    actual: summarizeTotals(days.map((d) => d.actual)),
+    simulated: summarizeTotals(days.map((d) => d.simulated)),
+    pausedOn,
+    events,
+    days,
+  };
+}
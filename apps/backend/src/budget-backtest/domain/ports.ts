@@ -0,0 +1,86 @@
+// ============================================================================
+// 予算調整V2 バックテスト - ポート定義
+// 実績の読み出し元（DB / スプシ / フィクスチャ）をDIで差し替えられるようにする
+// ============================================================================
+
+import type { ChannelType } from '../../budget-optimization-v2/types';
+import type { IndividualReservationSheet } from '../../data-source/domain/data-source';
+import type { AppealKpi } from '../../budget-optimization-v2/domain/rule-types';
+import type { HourlyObservation } from './types';
+
+// ============================================================================
+// 広告実績ポート（Metric / HourlyOptimizationSnapshot）
+// ============================================================================
+
+export interface BacktestTarget {
+  /** TikTok advertiser_id */
+  advertiserId: string;
+  channelType: ChannelType;
+  /** 初期予算が未登録の広告に使う日予算 */
+  defaultDailyBudget: number;
+  individualReservationSheet: IndividualReservationSheet;
+  appeal: {
+    id: string;
+    name: string;
+    cvSpreadsheetUrl: string | null;
+    frontSpreadsheetUrl: string | null;
+    kpi: AppealKpi;
+  };
+}
+
+export interface StoredAdHistory {
+  /** TikTok ad_id */
+  adId: string;
+  adName: string;
+  /** 初期予算（未登録ならnull → 導線デフォルト） */
+  initialBudget: number | null;
+  budgetCap: number | null;
+  /** 日次メトリクス（JST日付） */
+  metrics: { date: string; spend: number; impressions: number }[];
+  /** 毎時スナップショット（JST日付ごと） */
+  hourly: { date: string; observations: HourlyObservation[] }[];
+}
+
+export interface BacktestHistorySource {
+  findTarget(advertiserId: string): Promise<BacktestTarget | null>;
+
+  /** 期間内にメトリクスがある広告の実績（startDate〜endDate、JST日付） */
+  findAdHistories(
+    target: BacktestTarget,
+    startDate: string,
+    endDate: string,
+  ): Promise<StoredAdHistory[]>;
+
+  /** 現在有効な予算調整除外CR名 */
+  findExcludedCreativeNames(advertiserId: string): Promise<Set<string>>;
+}
+
+// ============================================================================
+// CV・フロント販売・個別予約件数ポート（CV台帳 or フィクスチャ）
+// ============================================================================
+
+export type ConversionKind = 'CV' | 'FRONT_SALES' | 'INDIVIDUAL_RESERVATION';
+
+export interface ConversionCountQuery {
+  kind: ConversionKind;
+  channelType: ChannelType;
+  appealName: string;
+  /** CV / フロント販売シートのURL（個別予約は individualReservationSheet を使う） */
+  spreadsheetUrl: string | null;
+  individualReservationSheet: IndividualReservationSheet;
+  registrationPath: string;
+  /** JST日付（YYYY-MM-DD） */
+  dates: string[];
+}
+
+export interface ConversionCountSource {
+  /** 日付 → 件数 */
+  getDailyCounts(query: ConversionCountQuery): Promise<Map<string, number>>;
+}
+
+// ============================================================================
+// DIトークン
+// ============================================================================
+
+export const BACKTEST_HISTORY_SOURCE = Symbol('BacktestHistorySource');
+export const CONVERSION_COUNT_SOURCE = Symbol('ConversionCountSource');
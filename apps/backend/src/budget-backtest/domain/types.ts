@@ -0,0 +1,149 @@
+// ============================================================================
+// 予算調整V2 バックテスト - 型定義
+// 保存済みの実績を予算調整V2の判定ロジックに再生し、実績と比較する
+// ============================================================================
+
+import type { ChannelType } from '../../budget-optimization-v2/types';
+import type {
+  AppealKpi,
+  BudgetRuleSetDefinition,
+} from '../../budget-optimization-v2/domain/rule-types';
+
+// ============================================================================
+// 入力（実績）
+// ============================================================================
+
+/** 期間（JST日付 YYYY-MM-DD、両端含む） */
+export interface BacktestPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+/** 毎時スナップショット1件（当日累計値） */
+export interface HourlyObservation {
+  /** JSTの時（0〜23） */
+  hour: number;
+  todaySpend: number;
+  todayCV: number;
+  /** スナップショット時点の日予算 */
+  dailyBudget: number;
+}
+
+/** 広告1日分の実績 */
+export interface AdDayActual {
+  date: string;
+  spend: number;
+  impressions: number;
+  cvCount: number;
+  frontSalesCount: number;
+  individualReservationCount: number;
+  /** その日の実際の日予算（スナップショットがなければnull） */
+  dailyBudget: number | null;
+  /** 毎時スナップショット（時刻昇順、保持期間外なら空） */
+  hourly: HourlyObservation[];
+}
+
+/** 広告1件分のシミュレーション入力 */
+export interface BacktestAdInput {
+  adId: string;
+  adName: string;
+  /** 0時リセット後の予算（初期予算 or 導線デフォルト） */
+  baseBudget: number;
+  /** AdBudgetCap（未設定ならnull） */
+  budgetCap: number | null;
+  /** 広告名の出稿日（YYMMDD、パース不可ならnull） */
+  publishDate: string | null;
+  /** 期間開始7日前からの日次実績（日付昇順） */
+  days: AdDayActual[];
+}
+
+export interface SimulationSettings {
+  definition: BudgetRuleSetDefinition;
+  channelType: ChannelType;
+  kpi: AppealKpi;
+  period: BacktestPeriod;
+}
+
+// ============================================================================
+// 出力
+// ============================================================================
+
+export interface DayTotals {
+  spend: number;
+  impressions: number;
+  cvCount: number;
+  frontSalesCount: number;
+  individualReservationCount: number;
+  /** 日の終了時点の日予算（不明ならnull） */
+  endBudget: number | null;
+}
+
+export interface BacktestDayResult {
+  date: string;
+  actual: DayTotals;
+  simulated: DayTotals & { paused: boolean };
+}
+
+export type BacktestStage = 'PAUSE' | 'INDIVIDUAL_RESERVATION' | 'INCREASE';
+
+/** シミュレーション中に予算・配信状態を変えた判定 */
+export interface BacktestDecisionEvent {
+  date: string;
+  /** 増額判定のJST時（停止判定は第1回なのでnull） */
+  hour: number | null;
+  stage: BacktestStage;
+  ruleId: string;
+  action: string;
+  reason: string;
+  budgetBefore: number;
+  budgetAfter: number;
+}
+
+export interface BacktestTotals {
+  spend: number;
+  cvCount: number;
+  cpa: number | null;
+  frontSalesCount: number;
+  frontCPO: number | null;
+  individualReservationCount: number;
+  individualReservationCPO: number | null;
+}
+
+export interface BacktestAdResult {
+  adId: string;
+  adName: string;
+  actual: BacktestTotals;
+  simulated: BacktestTotals;
+  /** シミュレーション上で停止した日（停止しなければnull） */
+  pausedOn: string | null;
+  events: BacktestDecisionEvent[];
+  days: BacktestDayResult[];
+}
+
+export interface BacktestComparison {
+  actual: BacktestTotals;
+  simulated: BacktestTotals;
+  /** simulated - actual（CPA系はどちらかがnullならnull） */
+  diff: {
+    spend: number;
+    cvCount: number;
+    cpa: number | null;
+    frontCPO: number | null;
+  };
+}
+
+export interface BacktestReport extends BacktestComparison {
+  advertiserId: string;
+  appealName: string;
+  channelType: ChannelType;
+  period: BacktestPeriod;
+  /** 使用したルールセット（REQUEST = リクエストで渡された未保存の定義） */
+  ruleSet: {
+    source: 'DB' | 'DEFAULT' | 'REQUEST';
+    id: string | null;
+    version: number | null;
+  };
+  ads: BacktestAdResult[];
+  /** シミュレーション対象外の広告（広告名パース不可・除外CR・件数取得失敗） */
+  skippedAds: { adId: string; adName: string; reason: string }[];
+}
@@ -0,0 +1,32 @@
+import { parseConversionFixture } from './fixture-conversion-count-source';
+
+describe('parseConversionFixture', () => {
+  it('未記載の種別は空として読み込む', () => {
+    const fixture = parseConversionFixture({
+      CV: { 'TikTok広告-セミナー-LP1': { '2026-03-01': 3 } },
+    });
+
+    expect(fixture.CV['TikTok広告-セミナー-LP1']['2026-03-01']).toBe(3);
+    expect(fixture.FRONT_SALES).toEqual({});
+    expect(fixture.INDIVIDUAL_RESERVATION).toEqual({});
+  });
+
+  it('オブジェクト以外はエラー', () => {
+    expect(() => parseConversionFixture([])).toThrow('must be a JSON object');
+    expect(() => parseConversionFixture({ CV: [] })).toThrow(
+      '"CV" must be an object',
+    );
+  });
+
+  it('日付形式・件数が不正ならエラー', () => {
+    expect(() =>
+      parseConversionFixture({ CV: { path: { '2026/03/01': 1 } } }),
+    ).toThrow('invalid date');
+    expect(() =>
+      parseConversionFixture({ CV: { path: { '2026-03-01': -1 } } }),
+    ).toThrow('non-negative number');
+    expect(() =>
+      parseConversionFixture({ CV: { path: { '2026-03-01': '1' } } }),
+    ).toThrow('non-negative number');
+  });
+});
@@ -0,0 +1,89 @@
+// ============================================================================
+// FixtureConversionCountSource - JSONフィクスチャから日別件数を取得
+// ローカルDB + フィクスチャでルール変更を安全に検証するための実装
+// （BACKTEST_SHEET_FIXTURE_PATH 設定時にスプシの代わりに使用）
+//
+// フォーマット:
+// {
+//   "CV": { "<登録経路>": { "YYYY-MM-DD": 件数 } },
+//   "FRONT_SALES": { ... },
+//   "INDIVIDUAL_RESERVATION": { "<登録経路-CR名>": { ... } }
+// }
+// ============================================================================
+
+import * as fs from 'fs';
+import type {
+  ConversionCountQuery,
+  ConversionCountSource,
+  ConversionKind,
+} from '../domain/ports';
+
+export type ConversionFixture = Record<
+  ConversionKind,
+  Record<string, Record<string, number>>
+>;
+
+const KINDS: ConversionKind[] = ['CV', 'FRONT_SALES', 'INDIVIDUAL_RESERVATION'];
+
+/**
+ * フィクスチャJSONを検証して読み込む（未記載の種別は空扱い）
+ * @throws 形式不正の場合
+ */
+export function parseConversionFixture(raw: unknown): ConversionFixture {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Conversion fixture must be a JSON object');
+  }
+  const source = raw as Record<string, unknown>;
+  const fixture = {} as ConversionFixture;
+
+  for (const kind of KINDS) {
+    const byPath = source[kind] ?? {};
+    if (typeof byPath !== 'object' || Array.isArray(byPath)) {
+      throw new Error(`Conversion fixture "${kind}" must be an object`);
+    }
+    fixture[kind] = {};
+    for (const [path, byDate] of Object.entries(byPath)) {
+      if (!byDate || typeof byDate !== 'object' || Array.isArray(byDate)) {
+        throw new Error(
+          `Conversion fixture "${kind}.${path}" must be an object`,
+        );
+      }
+      fixture[kind][path] = {};
+      for (const [date, count] of Object.entries(byDate)) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          throw new Error(
+            `Conversion fixture "${kind}.${path}" has invalid date: ${date}`,
+          );
+        }
+        if (typeof count !== 'number' || !isFinite(count) || count < 0) {
+          throw new Error(
+            `Conversion fixture "${kind}.${path}.${date}" must be a non-negative number`,
+          );
+        }
+        fixture[kind][path][date] = count;
+      }
+    }
+  }
+  return fixture;
+}
+
+export class FixtureConversionCountSource implements ConversionCountSource {
+  private fixture: ConversionFixture | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  getDailyCounts(query: ConversionCountQuery): Promise<Map<string, number>> {
+    const byDate = this.load()[query.kind][query.registrationPath] ?? {};
+    return Promise.resolve(
+      new Map(query.dates.map((date) => [date, byDate[date] ?? 0])),
+    );
+  }
+
+  private load(): ConversionFixture {
+    if (!this.fixture) {
+      const content = fs.readFileSync(this.filePath, 'utf-8');
+      this.fixture = parseConversionFixture(JSON.parse(content));
+    }
+    return this.fixture;
+  }
+}
@@ -0,0 +1,64 @@
+// ============================================================================
+// LedgerConversionCountSource - 予算調整V2と同じCV台帳から日別件数を取得
+// 台帳の同期が古いシートは ConversionLedgerService がシートから数える
+// ============================================================================
+
+import { Injectable } from '@nestjs/common';
+import { ConversionLedgerService } from '../../conversion-ledger/conversion-ledger.service';
+import type {
+  ConversionCountQuery,
+  ConversionCountSource,
+} from '../domain/ports';
+
+@Injectable()
+export class LedgerConversionCountSource implements ConversionCountSource {
+  constructor(private readonly conversionLedger: ConversionLedgerService) {}
+
+  async getDailyCounts(
+    query: ConversionCountQuery,
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (query.kind !== 'INDIVIDUAL_RESERVATION' && !query.spreadsheetUrl) {
+      return counts;
+    }
+
+    for (const date of query.dates) {
+      const startDate = new Date(`${date}T00:00:00+09:00`);
+      const endDate = new Date(`${date}T23:59:59.999+09:00`);
+      counts.set(date, await this.countForDay(query, startDate, endDate));
+    }
+    return counts;
+  }
+
+  private countForDay(
+    query: ConversionCountQuery,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    switch (query.kind) {
+      case 'CV':
+        return this.conversionLedger.getCVCount(
+          query.appealName,
+          query.spreadsheetUrl!,
+          query.registrationPath,
+          startDate,
+          endDate,
+        );
+      case 'FRONT_SALES':
+        return this.conversionLedger.getFrontSalesCount(
+          query.appealName,
+          query.spreadsheetUrl!,
+          query.registrationPath,
+          startDate,
+          endDate,
+        );
+      case 'INDIVIDUAL_RESERVATION':
+        return this.conversionLedger.getIndividualReservationCount(
+          query.individualReservationSheet,
+          query.registrationPath,
+          startDate,
+          endDate,
+        );
+    }
+  }
+}
@@ -0,0 +1,171 @@
+// ============================================================================
+// PrismaBacktestHistorySource - Metric / HourlyOptimizationSnapshot から実績を取得
+// ============================================================================
+
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ChannelRegistryService } from '../../channel-registry/channel-registry.service';
+import { DataSourceService } from '../../data-source/data-source.service';
+import type {
+  BacktestHistorySource,
+  BacktestTarget,
+  StoredAdHistory,
+} from '../domain/ports';
+import type { HourlyObservation } from '../domain/types';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** JSTの日付・時を取得 */
+function toJST(date: Date): { date: string; hour: number } {
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  return { date: jst.toISOString().slice(0, 10), hour: jst.getUTCHours() };
+}
+
+@Injectable()
+export class PrismaBacktestHistorySource implements BacktestHistorySource {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly channelRegistry: ChannelRegistryService,
+    private readonly dataSources: DataSourceService,
+  ) {}
+
+  async findTarget(advertiserId: string): Promise<BacktestTarget | null> {
+    const advertiser = await this.prisma.advertiser.findUnique({
+      where: { tiktokAdvertiserId: advertiserId },
+      include: { appeal: true },
+    });
+    if (!advertiser?.appeal) return null;
+
+    const appeal = advertiser.appeal;
+    const profile = this.channelRegistry.resolveAppeal(appeal);
+    return {
+      advertiserId,
+      channelType: profile.channelType,
+      defaultDailyBudget: profile.defaultDailyBudget,
+      individualReservationSheet:
+        await this.dataSources.resolveIndividualReservationSheet(profile),
+      appeal: {
+        id: appeal.id,
+        name: appeal.name,
+        cvSpreadsheetUrl: appeal.cvSpreadsheetUrl,
+        frontSpreadsheetUrl: appeal.frontSpreadsheetUrl,
+        kpi: {
+          targetCPA: appeal.targetCPA,
+          allowableCPA: appeal.allowableCPA,
+          targetFrontCPO: appeal.targetFrontCPO,
+          allowableFrontCPO: appeal.allowableFrontCPO,
+          allowableIndividualReservationCPO:
+            appeal.allowableIndividualReservationCPO,
+        },
+      },
+    };
+  }
+
+  async findAdHistories(
+    target: BacktestTarget,
+    startDate: string,
+    endDate: string,
+  ): Promise<StoredAdHistory[]> {
+    // Metric.statDate は JST日付を UTC 00:00 で保存している
+    const statDateRange = {
+      gte: new Date(`${startDate}T00:00:00.000Z`),
+      lte: new Date(`${endDate}T00:00:00.000Z`),
+    };
+
+    const ads = await this.prisma.ad.findMany({
+      where: {
+        adGroup: {
+          campaign: { advertiser: { tiktokAdvertiserId: target.advertiserId } },
+        },
+        metrics: { some: { entityType: 'AD', statDate: statDateRange } },
+      },
+      include: {
+        adGroup: {
+          select: {
+            initialBudget: true,
+            campaign: {
+              select: { initialBudget: true, budgetOptimizeOn: true },
+            },
+          },
+        },
+        budgetCap: true,
+        metrics: {
+          where: { entityType: 'AD', statDate: statDateRange },
+          orderBy: { statDate: 'asc' },
+        },
+      },
+    });
+
+    const snapshots = await this.prisma.hourlyOptimizationSnapshot.findMany({
+      where: {
+        advertiserId: target.advertiserId,
+        adId: { in: ads.map((ad) => ad.tiktokId) },
+        executionTime: {
+          gte: new Date(`${startDate}T00:00:00+09:00`),
+          lte: new Date(`${endDate}T23:59:59.999+09:00`),
+        },
+      },
+      orderBy: { executionTime: 'asc' },
+    });
+
+    // 広告 → 日付 → 観測値（同じ時に複数あれば最後を採用）
+    const hourlyByAd = new Map<string, Map<string, HourlyObservation[]>>();
+    for (const snap of snapshots) {
+      const { date, hour } = toJST(snap.executionTime);
+      const byDate = hourlyByAd.get(snap.adId) ?? new Map();
+      hourlyByAd.set(snap.adId, byDate);
+      const observations: HourlyObservation[] = byDate.get(date) ?? [];
+      byDate.set(date, observations);
+      const observation = {
+        hour,
+        todaySpend: snap.todaySpend,
+        todayCV: snap.todayCVCount,
+        dailyBudget: snap.dailyBudget,
+      };
+      if (observations[observations.length - 1]?.hour === hour) {
+        observations[observations.length - 1] = observation;
+      } else {
+        observations.push(observation);
+      }
+    }
+
+    return ads.map((ad) => {
+      const { campaign } = ad.adGroup;
+      const initialBudget = campaign.budgetOptimizeOn
+        ? (campaign.initialBudget ?? ad.adGroup.initialBudget)
+        : (ad.adGroup.initialBudget ?? campaign.initialBudget);
+      const hourly = hourlyByAd.get(ad.tiktokId) ?? new Map();
+
+      return {
+        adId: ad.tiktokId,
+        adName: ad.name,
+        initialBudget,
+        budgetCap: ad.budgetCap?.enabled ? ad.budgetCap.maxDailyBudget : null,
+        metrics: ad.metrics.map((m) => ({
+          date: m.statDate.toISOString().slice(0, 10),
+          spend: m.spend,
+          impressions: m.impressions,
+        })),
+        hourly: [...hourly.entries()].map(([date, observations]) => ({
+          date,
+          observations,
+        })),
+      };
+    });
+  }
+
+  async findExcludedCreativeNames(advertiserId: string): Promise<Set<string>> {
+    const now = new Date();
+    const exclusions = await this.prisma.budgetOptimizationExclusion.findMany({
+      where: {
+        enabled: true,
+        AND: [
+          { OR: [{ advertiserId: null }, { advertiserId }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+        ],
+      },
+      select: { creativeName: true },
+    });
+    return new Set(exclusions.map((e) => e.creativeName));
+  }
+}
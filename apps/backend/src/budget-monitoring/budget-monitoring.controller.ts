@@ -8,7 +8,14 @@ import {
 } from '@nestjs/common';
 import { BudgetMonitoringService } from './budget-monitoring.service';
 import { ConfigService } from '@nestjs/config';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+@RequireAllAdvertisers()
 @Controller('api/budget-monitoring')
 export class BudgetMonitoringController {
   private readonly logger = new Logger(BudgetMonitoringController.name);
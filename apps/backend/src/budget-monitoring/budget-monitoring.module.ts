@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { BudgetMonitoringController } from './budget-monitoring.controller';
 import { BudgetMonitoringService } from './budget-monitoring.service';
 import { TiktokModule } from '../tiktok/tiktok.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
-  imports: [TiktokModule],
+  imports: [TiktokModule, NotificationModule],
   controllers: [BudgetMonitoringController],
   providers: [BudgetMonitoringService],
   exports: [BudgetMonitoringService],
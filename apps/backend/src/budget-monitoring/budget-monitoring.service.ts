@@ -1,6 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { TiktokService } from '../tiktok/tiktok.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import {
+  NotificationSeverity,
+  NotificationType,
+} from '../notification/notification.service';
 
 interface BudgetAnomaly {
   advertiserId: string;
@@ -36,6 +41,7 @@ export class BudgetMonitoringService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly tiktokService: TiktokService,
+    private readonly dispatcher: NotificationDispatcherService,
   ) {}
 
   /**
@@ -93,8 +99,8 @@ export class BudgetMonitoringService {
       if (!dryRun) {
         // ChangeLogに記録
         await this.saveAnomalies(allAnomalies);
-        // Slack通知
-        await this.sendSlackSummary(allAnomalies);
+        // 通知（既定は Slack）
+        await this.notifyAnomalies(allAnomalies);
       }
     } else {
       this.logger.log(
@@ -345,50 +351,31 @@ export class BudgetMonitoringService {
   }
 
   /**
-   * Slack通知を送信
+   * 予算異常を通知（広告アカウントごとに配信ルールで振り分け。既定は Slack）
    */
-  private async sendSlackSummary(anomalies: BudgetAnomaly[]): Promise<void> {
-    const lines = anomalies.map(
-      (a) =>
-        `- ${a.advertiserName} | ${a.adName} | adgroup=${a.adgroupId}\n` +
-        `  現在: \u00A5${a.currentBudget.toLocaleString()} / 前回: \u00A5${a.lastKnownBudget?.toLocaleString() ?? 'N/A'}\n` +
-        `  ${a.reason}`,
-    );
-
-    const message =
-      `[予算異常検知] ${anomalies.length}件の異常を検知しました\n\n` +
-      lines.join('\n\n');
-
-    await this.sendSlackNotification(message);
-  }
-
-  /**
-   * Slack Webhook通知
-   */
-  private async sendSlackNotification(message: string): Promise<void> {
-    const webhookUrl = process.env.SLACK_WEBHOOK_URL;
-    if (!webhookUrl) {
-      this.logger.warn(
-        '[BudgetMonitor] SLACK_WEBHOOK_URL未設定のためSlack通知をスキップ',
-      );
-      return;
+  private async notifyAnomalies(anomalies: BudgetAnomaly[]): Promise<void> {
+    const byAdvertiser = new Map<string, BudgetAnomaly[]>();
+    for (const anomaly of anomalies) {
+      const list = byAdvertiser.get(anomaly.advertiserId) ?? [];
+      list.push(anomaly);
+      byAdvertiser.set(anomaly.advertiserId, list);
     }
 
-    try {
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: message }),
+    for (const [advertiserId, group] of byAdvertiser) {
+      const lines = group.map(
+        (a) =>
+          `- ${a.advertiserName} | ${a.adName} | adgroup=${a.adgroupId}\n` +
+          `  現在: \u00A5${a.currentBudget.toLocaleString()} / 前回: \u00A5${a.lastKnownBudget?.toLocaleString() ?? 'N/A'}\n` +
+          `  ${a.reason}`,
+      );
+      await this.dispatcher.dispatch({
+        type: NotificationType.BUDGET_ANOMALY,
+        severity: NotificationSeverity.WARNING,
+        advertiserId,
+        title: `[予算異常検知] ${group[0].advertiserName}: ${group.length}件の異常を検知しました`,
+        message: lines.join('\n\n'),
+        metadata: { adgroupIds: group.map((a) => a.adgroupId) },
       });
-      if (!response.ok) {
-        this.logger.warn(
-          `[BudgetMonitor] Slack通知失敗: HTTP ${response.status}`,
-        );
-      } else {
-        this.logger.log('[BudgetMonitor] Slack通知送信完了');
-      }
-    } catch (error) {
-      this.logger.warn(`[BudgetMonitor] Slack通知エラー: ${error.message}`);
     }
   }
 }
@@ -12,10 +12,21 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { BudgetOptimizationV2Service } from './budget-optimization-v2.service';
+import {
+  BudgetRuleSetService,
+  type CreateBudgetRuleSetDto,
+} from './budget-rule-set.service';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
-import type { HourlyExecutionResult } from './types';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import type { ChannelType, HourlyExecutionResult } from './types';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.BUDGET_READ)
 @Controller('api/budget-optimization-v2')
 export class BudgetOptimizationV2Controller {
   private readonly logger = new Logger(BudgetOptimizationV2Controller.name);
@@ -24,6 +35,8 @@ export class BudgetOptimizationV2Controller {
     private readonly service: BudgetOptimizationV2Service,
     private readonly configService: ConfigService,
     private readonly prisma: PrismaService,
+    private readonly ruleSetService: BudgetRuleSetService,
+    private readonly channelRegistry: ChannelRegistryService,
   ) {}
 
   private getAccessToken(providedToken?: string): string {
@@ -37,6 +50,7 @@ export class BudgetOptimizationV2Controller {
    * 特定Advertiserの毎時予算調整を実行
    * POST /api/budget-optimization-v2/execute/:advertiserId
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
   @Post('execute/:advertiserId')
   async execute(
     @Param('advertiserId') advertiserId: string,
@@ -67,6 +81,8 @@ export class BudgetOptimizationV2Controller {
    * 全対象アカウントの毎時予算調整を実行
    * POST /api/budget-optimization-v2/execute-all
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @RequireAllAdvertisers()
   @Post('execute-all')
   async executeAll(
     @Body('accessToken') accessToken?: string,
@@ -118,6 +134,8 @@ export class BudgetOptimizationV2Controller {
    * POST /api/budget-optimization-v2/write-daily-report
    * GitHub Actionsから最適化API成功後に呼ばれる
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @RequireAllAdvertisers()
   @Post('write-daily-report')
   async writeDailyReport(@Body('results') results: HourlyExecutionResult[]) {
     this.logger.log(
@@ -146,6 +164,7 @@ export class BudgetOptimizationV2Controller {
    * 予算調整対象のAdvertiser IDリストを返す（GitHub Actions用）
    * GET /api/budget-optimization-v2/target-advertisers
    */
+  @RequireAllAdvertisers()
   @Get('target-advertisers')
   async getTargetAdvertisers() {
     try {
@@ -193,6 +212,7 @@ export class BudgetOptimizationV2Controller {
    * 特定Advertiserの日予算をデフォルトにリセット
    * POST /api/budget-optimization-v2/reset-budget/:advertiserId
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
   @Post('reset-budget/:advertiserId')
   async resetBudget(
     @Param('advertiserId') advertiserId: string,
@@ -223,6 +243,8 @@ export class BudgetOptimizationV2Controller {
    * 全対象アカウントの日予算をデフォルトにリセット
    * POST /api/budget-optimization-v2/reset-budget-all
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @RequireAllAdvertisers()
   @Post('reset-budget-all')
   async resetBudgetAll(
     @Body('accessToken') accessToken?: string,
@@ -250,6 +272,7 @@ export class BudgetOptimizationV2Controller {
    * GET /api/budget-optimization-v2/reset-status-today
    * フォールバックcronが「リセット済みかどうか」を判定するために使用
    */
+  @RequireAllAdvertisers()
   @Get('reset-status-today')
   async getResetStatusToday() {
     try {
@@ -335,6 +358,7 @@ export class BudgetOptimizationV2Controller {
    * 除外追加
    * POST /api/budget-optimization-v2/exclusions
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
   @Post('exclusions')
   async createExclusion(
     @Body()
@@ -378,6 +402,7 @@ export class BudgetOptimizationV2Controller {
    * 除外更新
    * PATCH /api/budget-optimization-v2/exclusions/:id
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
   @Patch('exclusions/:id')
   async updateExclusion(
     @Param('id') id: string,
@@ -420,6 +445,7 @@ export class BudgetOptimizationV2Controller {
    * 除外削除
    * DELETE /api/budget-optimization-v2/exclusions/:id
    */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
   @Delete('exclusions/:id')
   async deleteExclusion(@Param('id') id: string) {
     try {
@@ -436,4 +462,160 @@ export class BudgetOptimizationV2Controller {
       );
     }
   }
+
+  // ============================================================================
+  // 判定ルールセット
+  // ============================================================================
+
+  /**
+   * ルールセット一覧
+   * GET /api/budget-optimization-v2/rule-sets?channelType=SNS&appealId=xxx
+   */
+  @Get('rule-sets')
+  async getRuleSets(
+    @Query('channelType') channelType?: ChannelType,
+    @Query('appealId') appealId?: string,
+  ) {
+    try {
+      const ruleSets = await this.ruleSetService.findAll({
+        channelType,
+        appealId,
+      });
+      return { success: true, data: ruleSets };
+    } catch (error) {
+      this.logger.error('[V2] Get rule sets failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * 既定ルールセット（新しい版を作る際のひな形）
+   * GET /api/budget-optimization-v2/rule-sets/default/:channelType
+   */
+  @Get('rule-sets/default/:channelType')
+  getDefaultRuleSet(@Param('channelType') channelType: ChannelType) {
+    if (!['SNS', 'AI', 'SEMINAR'].includes(channelType)) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'channelType must be one of SNS, AI, SEMINAR',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return { success: true, data: this.ruleSetService.getDefault(channelType) };
+  }
+
+  /**
+   * 訴求に適用中のルールセット
+   * GET /api/budget-optimization-v2/rule-sets/resolved/:appealId
+   */
+  @Get('rule-sets/resolved/:appealId')
+  async getResolvedRuleSet(@Param('appealId') appealId: string) {
+    try {
+      const appeal = await this.prisma.appeal.findUnique({
+        where: { id: appealId },
+      });
+      if (!appeal) {
+        throw new HttpException(
+          { success: false, error: `Appeal ${appealId} not found` },
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      const ruleSet = await this.ruleSetService.resolve(
+        this.channelRegistry.resolveAppeal(appeal).channelType,
+        appeal.id,
+      );
+      return { success: true, data: ruleSet };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[V2] Resolve rule set failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * ルールセット詳細
+   * GET /api/budget-optimization-v2/rule-sets/:id
+   */
+  @Get('rule-sets/:id')
+  async getRuleSet(@Param('id') id: string) {
+    try {
+      const ruleSet = await this.ruleSetService.findOne(id);
+      return { success: true, data: ruleSet };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[V2] Get rule set failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * ルールセットの新しい版を作成（activate: true で即時有効化）
+   * POST /api/budget-optimization-v2/rule-sets
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
+  @Post('rule-sets')
+  async createRuleSet(@Body() body: CreateBudgetRuleSetDto) {
+    try {
+      const ruleSet = await this.ruleSetService.create(body);
+      return { success: true, data: ruleSet };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[V2] Create rule set failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * 指定版を有効化（旧版を指定すればロールバック）
+   * POST /api/budget-optimization-v2/rule-sets/:id/activate
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
+  @Post('rule-sets/:id/activate')
+  async activateRuleSet(@Param('id') id: string) {
+    try {
+      const ruleSet = await this.ruleSetService.activate(id);
+      return { success: true, data: ruleSet };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[V2] Activate rule set failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  /**
+   * 指定版を無効化（スコープに有効版がなければ既定ルールに戻る）
+   * POST /api/budget-optimization-v2/rule-sets/:id/deactivate
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
+  @Post('rule-sets/:id/deactivate')
+  async deactivateRuleSet(@Param('id') id: string) {
+    try {
+      const ruleSet = await this.ruleSetService.deactivate(id);
+      return { success: true, data: ruleSet };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error('[V2] Deactivate rule set failed:', error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 }
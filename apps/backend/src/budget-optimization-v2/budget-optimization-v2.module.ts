@@ -1,10 +1,14 @@
 import { Module } from '@nestjs/common';
 import { BudgetOptimizationV2Controller } from './budget-optimization-v2.controller';
 import { BudgetOptimizationV2Service } from './budget-optimization-v2.service';
+import { BudgetRuleSetService } from './budget-rule-set.service';
 import { TiktokModule } from '../tiktok/tiktok.module';
 import { GoogleSheetsModule } from '../google-sheets/google-sheets.module';
 import { AppealModule } from '../appeal/appeal.module';
 import { AdPerformanceModule } from '../ad-performance/ad-performance.module';
+import { NotificationModule } from '../notification/notification.module';
+import { ConversionLedgerModule } from '../conversion-ledger/conversion-ledger.module';
+import { ExperimentModule } from '../experiment/experiment.module';
 
 @Module({
   imports: [
@@ -12,9 +16,12 @@ import { AdPerformanceModule } from '../ad-performance/ad-performance.module';
     GoogleSheetsModule,
     AppealModule,
     AdPerformanceModule,
+    NotificationModule,
+    ConversionLedgerModule,
+    ExperimentModule,
   ],
   controllers: [BudgetOptimizationV2Controller],
-  providers: [BudgetOptimizationV2Service],
-  exports: [BudgetOptimizationV2Service],
+  providers: [BudgetOptimizationV2Service, BudgetRuleSetService],
+  exports: [BudgetOptimizationV2Service, BudgetRuleSetService],
 })
 export class BudgetOptimizationV2Module {}
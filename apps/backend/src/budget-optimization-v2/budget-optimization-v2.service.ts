@@ -1,34 +1,47 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { GoogleSheetsService } from '../google-sheets/google-sheets.service';
+import { ConversionLedgerService } from '../conversion-ledger/conversion-ledger.service';
 import { AppealService } from '../appeal/appeal.service';
 import { AdBudgetCapService } from '../ad-performance/ad-budget-cap.service';
-import { ConfigService } from '@nestjs/config';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import { DataSourceService } from '../data-source/data-source.service';
+import { BudgetAuditService } from '../budget-audit/budget-audit.service';
+import { AutomationControlService } from '../automation-control/automation-control.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import type { JobRunContext } from '../job-queue/job-run-context';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { ExperimentService } from '../experiment/experiment.service';
+import { frozenBy, type BudgetFreeze } from '../experiment/domain/experiment';
+import { isDeliveringAt } from '../dayparting/domain/dayparting';
+import {
+  NotificationSeverity,
+  NotificationType,
+} from '../notification/notification.service';
+import { BudgetRuleSetService } from './budget-rule-set.service';
 import {
-  validateAdNameFormat,
-  batchJobLock,
-  withDatabaseRetry,
-} from '../common/utils';
+  matchRule,
+  calculateIncreasedBudget,
+  applyIncreaseLimits,
+  calculateDecreasedBudget,
+  buildPauseRuleContext,
+} from './domain/rule-engine';
+import type { ResolvedBudgetRuleSet } from './domain/rule-types';
+import { ConfigService } from '@nestjs/config';
+import { validateAdNameFormat, withDatabaseRetry } from '../common/utils';
 import {
   BUDGET_INCREASE_RATE,
-  BUDGET_DECREASE_RATE,
-  BUDGET_TIER,
-  BUDGET_TIER_MIN_OPTS,
   OPERATION_HOURS,
   MIN_IMPRESSIONS_FOR_PAUSE,
   SNAPSHOT_RETENTION_DAYS,
   TIKTOK_BUDGET_LIMITS,
-  DEFAULT_DAILY_BUDGET,
-  DAILY_REPORT_SPREADSHEET_ID,
-  DAILY_REPORT_SHEET_NAME,
-  INDIVIDUAL_RESERVATION_SPREADSHEET_ID,
-  INDIVIDUAL_RESERVATION_CONFIG,
   WINNING_CR_BUDGET_TIER,
-  LINEAR_INCREASE_CONFIG,
   V1_BUDGET_MAX,
   V1_COOLDOWN_DAYS,
-  detectChannelType,
+  buildRegistrationPath,
+  buildIndividualReservationPath,
+  isWithin7DaysOfPublish,
   usesFrontCPO,
   type ChannelType,
   type V2SmartPlusAd,
@@ -44,8 +57,12 @@ import {
   type BudgetResetAction,
 } from './types';
 
+/** 実験の予算固定を取得できなかったときの見送り理由 */
+const EXPERIMENT_FREEZE_UNKNOWN =
+  '実験の予算固定を取得できないため予算変更なし';
+
 @Injectable()
-export class BudgetOptimizationV2Service {
+export class BudgetOptimizationV2Service implements OnModuleInit {
   private readonly logger = new Logger(BudgetOptimizationV2Service.name);
 
   constructor(
@@ -55,44 +72,58 @@ export class BudgetOptimizationV2Service {
     private readonly appealService: AppealService,
     private readonly adBudgetCapService: AdBudgetCapService,
     private readonly configService: ConfigService,
+    private readonly budgetRuleSetService: BudgetRuleSetService,
+    private readonly channelRegistry: ChannelRegistryService,
+    private readonly dataSources: DataSourceService,
+    private readonly budgetAudit: BudgetAuditService,
+    private readonly automationControl: AutomationControlService,
+    private readonly jobQueue: JobQueueService,
+    private readonly dispatcher: NotificationDispatcherService,
+    private readonly conversionLedger: ConversionLedgerService,
+    private readonly experiments: ExperimentService,
   ) {}
 
+  onModuleInit() {
+    // 失敗した広告アカウントの再実行（POST /api/job-runs/runs/:id/retry）用
+    // アクセストークンは実行記録に残さないため、再実行時は環境変数から取得する
+    this.jobQueue.register('budget-optimization-v2', (run) =>
+      this.executeAllInRun(
+        this.defaultAccessToken(),
+        run.params?.dryRun === true,
+        run,
+      ),
+    );
+    this.jobQueue.register('budget-reset-midnight', (run) =>
+      this.resetAllInRun(
+        this.defaultAccessToken(),
+        run.params?.dryRun === true,
+        run,
+      ),
+    );
+  }
+
+  private defaultAccessToken(): string {
+    const token = this.configService.get<string>('TIKTOK_ACCESS_TOKEN');
+    if (!token) throw new Error('TIKTOK_ACCESS_TOKEN is not configured');
+    return token;
+  }
+
   /**
-   * V2エラー通知（LINE Messaging API → AI秘書）
+   * V2エラー通知（配信ルールで送る。既定は LINE Messaging API → AI秘書）
    * API取得失敗やDB障害で予算調整が正常に動作しなかった場合に通知
    */
   private async notifyError(
     context: string,
     errorMessage: string,
+    advertiserId: string | null = null,
   ): Promise<void> {
-    const token = process.env.LINE_CHANNEL_ACCESS_TOKEN;
-    const userId = process.env.LINE_USER_ID;
-    if (!token || !userId) {
-      this.logger.warn(
-        '[V2] LINE通知: LINE_CHANNEL_ACCESS_TOKEN or LINE_USER_ID未設定',
-      );
-      return;
-    }
-
-    const text = `🚨 V2予算調整エラー\n\n【${context}】\n${errorMessage}`;
-    try {
-      const response = await fetch('https://api.line.me/v2/bot/message/push', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          to: userId,
-          messages: [{ type: 'text', text }],
-        }),
-      });
-      if (!response.ok) {
-        this.logger.warn(`[V2] LINE通知失敗: HTTP ${response.status}`);
-      }
-    } catch {
-      this.logger.warn('[V2] LINE通知送信失敗');
-    }
+    await this.dispatcher.dispatch({
+      type: NotificationType.SYSTEM_ERROR,
+      severity: NotificationSeverity.CRITICAL,
+      advertiserId,
+      title: '🚨 V2予算調整エラー',
+      message: `【${context}】\n${errorMessage}`,
+    });
   }
 
   // ============================================================================
@@ -123,6 +154,15 @@ export class BudgetOptimizationV2Service {
       return this.emptyResult(advertiserId, now);
     }
 
+    // 自動化の一時停止中は実行しない（dryRunも含む）
+    const automationSkip = await this.automationControl.check(
+      'V2_BUDGET',
+      advertiserId,
+    );
+    if (automationSkip) {
+      return { ...this.emptyResult(advertiserId, now), automationSkip };
+    }
+
     // Google Sheetsキャッシュクリア
     this.googleSheetsService.clearCache();
 
@@ -139,6 +179,36 @@ export class BudgetOptimizationV2Service {
     }
 
     const appeal = advertiser.appeal;
+    const channelType = this.channelRegistry.resolveAppeal(appeal).channelType;
+
+    // 判定ルールセット解決（訴求専用 → 導線共通 → 既定）
+    const ruleSet = await this.budgetRuleSetService.resolve(
+      channelType,
+      appeal.id,
+    );
+    this.logger.log(
+      `[V2] Rule set: ${ruleSet.source === 'DB' ? `v${ruleSet.version} (${ruleSet.id})` : 'default'}`,
+    );
+
+    // 参照シートの列構成・鮮度を検証（列移動や更新停止でCV数0のまま判定しない）
+    const dataSourceReport = await this.dataSources.preflight(
+      appeal,
+      channelType,
+    );
+    if (dataSourceReport.status === 'FAILED') {
+      const failures = dataSourceReport.results
+        .filter((r) => r.status === 'FAILED')
+        .flatMap((r) => r.issues.map((issue) => `${r.name}: ${issue.message}`));
+      this.logger.error(
+        `[V2] Data source validation failed → 予算調整をスキップ: ${failures.join('; ')}`,
+      );
+      await this.notifyError(
+        'データソース検証失敗',
+        `アカウント: ${advertiser.name}\nスプレッドシートの列構成・更新状況が想定と異なるため、予算調整をスキップしました\n${failures.join('\n')}`,
+        advertiserId,
+      );
+      return this.emptyResult(advertiserId, now);
+    }
 
     // Smart+配信中広告を取得
     let activeAds: V2SmartPlusAd[];
@@ -153,6 +223,7 @@ export class BudgetOptimizationV2Service {
       await this.notifyError(
         '広告取得失敗',
         `アカウント: ${advertiser.name}\nTikTok APIから配信中広告を取得できず、予算調整をスキップしました\n${error.message}`,
+        advertiserId,
       );
       return this.emptyResult(advertiserId, now);
     }
@@ -190,6 +261,7 @@ export class BudgetOptimizationV2Service {
       stage2Results = await this.executeStage2(
         activeAds,
         appeal,
+        ruleSet,
         advertiserId,
         accessToken,
         jstDateStr,
@@ -210,6 +282,7 @@ export class BudgetOptimizationV2Service {
       await this.notifyError(
         'Snapshotバッチ保存失敗',
         `アカウント: ${advertiserId}\nSnapshotの一括保存に失敗。次回ラウンドのCV差分検出に影響する可能性\n${snapshotError.message}`,
+        advertiserId,
       );
     }
 
@@ -253,37 +326,46 @@ export class BudgetOptimizationV2Service {
    * 全対象アカウントに対して毎時予算調整を実行
    */
   async executeAll(accessToken: string, dryRun: boolean = false) {
-    const jobName = 'budget-optimization-v2';
-    if (!batchJobLock.acquire(jobName, 1800000)) {
+    const outcome = await this.jobQueue.run(
+      'budget-optimization-v2',
+      (run) => this.executeAllInRun(accessToken, dryRun, run),
+      { trigger: 'API', params: { dryRun } },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn('[V2] Previous job is still running. Skipping...');
-      return { success: false, reason: 'JOB_LOCKED' };
+      return { success: false, reason: 'JOB_LOCKED', runId: outcome.runId };
     }
+    if (outcome.error) throw new Error(outcome.error);
 
-    try {
-      const advertiserIds = await this.getTargetAdvertiserIds();
-      const results: HourlyExecutionResult[] = [];
+    return {
+      success: true,
+      dryRun,
+      runId: outcome.runId,
+      results: outcome.result,
+    };
+  }
 
-      for (const advertiserId of advertiserIds) {
-        try {
-          const result = await this.executeHourlyOptimization(
-            advertiserId,
-            accessToken,
-            dryRun,
-          );
-          results.push(result);
-        } catch (error) {
-          this.logger.error(
-            `[V2] Failed for advertiser ${advertiserId}:`,
-            error,
-          );
-          results.push(this.emptyResult(advertiserId, new Date()));
-        }
-      }
+  private async executeAllInRun(
+    accessToken: string,
+    dryRun: boolean,
+    run: JobRunContext,
+  ): Promise<HourlyExecutionResult[]> {
+    const advertiserIds = await this.getTargetAdvertiserIds();
+    const outcomes = await run.forEachAdvertiser(
+      advertiserIds,
+      (advertiserId) => advertiserId,
+      (advertiserId) =>
+        this.executeHourlyOptimization(advertiserId, accessToken, dryRun),
+      { summarize: (result) => ({ ...result.summary }) },
+    );
 
-      return { success: true, dryRun, results };
-    } finally {
-      batchJobLock.release(jobName);
-    }
+    return outcomes.map((outcome) => {
+      if (outcome.status === 'SUCCEEDED') return outcome.value!;
+      this.logger.error(
+        `[V2] Failed for advertiser ${outcome.advertiserId}: ${outcome.error}`,
+      );
+      return this.emptyResult(outcome.advertiserId, new Date());
+    });
   }
 
   // ============================================================================
@@ -312,7 +394,9 @@ export class BudgetOptimizationV2Service {
         include: { appeal: true },
       });
       const appealName = advertiser?.appeal?.name ?? result.advertiserId;
-      const channelType = detectChannelType(appealName);
+      const channelType: ChannelType = advertiser?.appeal
+        ? this.channelRegistry.resolveAppeal(advertiser.appeal).channelType
+        : 'SEMINAR';
 
       // Stage1をadIdでMap化
       const stage1Map = new Map(result.stage1Results.map((r) => [r.adId, r]));
@@ -380,11 +464,14 @@ export class BudgetOptimizationV2Service {
       return;
     }
 
+    const { spreadsheetId, sheetName } =
+      await this.dataSources.resolveDailyReport();
+
     // ヘッダー行チェック（シートが空の場合のみヘッダーを書き出し）
     try {
       const existing = await this.googleSheetsService.getValues(
-        DAILY_REPORT_SPREADSHEET_ID,
-        `'${DAILY_REPORT_SHEET_NAME}'!A1`,
+        spreadsheetId,
+        `'${sheetName}'!A1`,
       );
       if (!existing || existing.length === 0 || !existing[0]?.[0]) {
         const headers = [
@@ -409,8 +496,8 @@ export class BudgetOptimizationV2Service {
           '判定理由',
         ];
         await this.googleSheetsService.appendValues(
-          DAILY_REPORT_SPREADSHEET_ID,
-          `'${DAILY_REPORT_SHEET_NAME}'!A:S`,
+          spreadsheetId,
+          `'${sheetName}'!A:S`,
           [headers],
         );
       }
@@ -423,8 +510,8 @@ export class BudgetOptimizationV2Service {
 
     // データ書き出し
     await this.googleSheetsService.appendValues(
-      DAILY_REPORT_SPREADSHEET_ID,
-      `'${DAILY_REPORT_SHEET_NAME}'!A:S`,
+      spreadsheetId,
+      `'${sheetName}'!A:S`,
       rows,
     );
 
@@ -458,6 +545,29 @@ export class BudgetOptimizationV2Service {
     return new Set(exclusions.map((e) => e.creativeName));
   }
 
+  /**
+   * 実施中の実験で予算を固定している広告
+   * 取得失敗時は null（実験中の広告の予算を変えないよう、呼び出し側はこの回の予算変更を見送る）
+   */
+  private async getExperimentBudgetFreeze(
+    advertiserId: string,
+    stage: string,
+  ): Promise<BudgetFreeze | null> {
+    try {
+      return await this.experiments.budgetFreeze(advertiserId);
+    } catch (error) {
+      this.logger.error(
+        `[V2] getExperimentBudgetFreeze failed: ${error.message} → ${stage}の予算変更をスキップ`,
+      );
+      await this.notifyError(
+        `実験の予算固定取得失敗（${stage}）`,
+        `アカウント: ${advertiserId}\n実施中の実験の取得に失敗。予算変更をスキップ\n${error.message}`,
+        advertiserId,
+      );
+      return null;
+    }
+  }
+
   // ============================================================================
   // 第1段階：当日CPA基準の予算増額
   // ============================================================================
@@ -487,6 +597,7 @@ export class BudgetOptimizationV2Service {
       await this.notifyError(
         'メトリクス取得失敗（Stage1）',
         `アカウント: ${advertiserId}\n当日広告費の取得に失敗。${ads.length}件の広告の予算増額をスキップ\n${error.message}`,
+        advertiserId,
       );
       return ads.map((ad) =>
         this.skipDecision(ad, `メトリクス取得エラー: ${error.message}`),
@@ -503,6 +614,13 @@ export class BudgetOptimizationV2Service {
       );
       excludedCRs = new Set();
     }
+    const budgetFreeze = await this.getExperimentBudgetFreeze(
+      advertiserId,
+      'Stage1',
+    );
+    if (!budgetFreeze) {
+      return ads.map((ad) => this.skipDecision(ad, EXPERIMENT_FREEZE_UNKNOWN));
+    }
 
     const results: BudgetIncreaseDecision[] = [];
 
@@ -527,6 +645,18 @@ export class BudgetOptimizationV2Service {
           continue;
         }
 
+        // 実験中の予算固定チェック
+        const frozenExperiment = frozenBy(budgetFreeze, ad);
+        if (frozenExperiment) {
+          this.logger.log(
+            `[V2] Ad ${ad.adId} (${ad.adName}): 実験中のため予算固定 実験=${frozenExperiment} → SKIP`,
+          );
+          results.push(
+            this.skipDecision(ad, `実験中のため予算固定: ${frozenExperiment}`),
+          );
+          continue;
+        }
+
         // V1日次判定モードで増額判定（当日CVフィルタなし、過去7日フロントCPOで判定）
         const decision = await this.evaluateBudgetIncreaseV1(
           ad,
@@ -549,6 +679,7 @@ export class BudgetOptimizationV2Service {
               decision.newBudget,
               advertiserId,
               accessToken,
+              decision.ruleId,
             );
           } else {
             this.logger.error(
@@ -557,6 +688,7 @@ export class BudgetOptimizationV2Service {
             this.notifyError(
               'Snapshot保存失敗',
               `広告: ${ad.adName}\nSnapshot保存に失敗したため予算増額をスキップ。DB障害の可能性`,
+              advertiserId,
             ).catch(() => {});
             decision.action = 'SKIP';
             decision.reason = `Snapshot保存失敗のため増額スキップ（元判定: ${decision.reason}）`;
@@ -583,6 +715,7 @@ export class BudgetOptimizationV2Service {
   private async executeStage2(
     ads: V2SmartPlusAd[],
     appeal: any,
+    ruleSet: ResolvedBudgetRuleSet,
     advertiserId: string,
     accessToken: string,
     todayStr: string,
@@ -590,7 +723,10 @@ export class BudgetOptimizationV2Service {
   ): Promise<PauseDecision[]> {
     this.logger.log('[V2] === Stage 2: 7-day CPA/CPO pause evaluation ===');
 
-    const channelType = detectChannelType(appeal.name);
+    const channelProfile = this.channelRegistry.resolveAppeal(appeal);
+    const channelType = channelProfile.channelType;
+    const individualReservationSheet =
+      await this.dataSources.resolveIndividualReservationSheet(channelProfile);
     this.logger.log(
       `[V2] Channel type: ${channelType} (appeal: ${appeal.name})`,
     );
@@ -625,6 +761,10 @@ export class BudgetOptimizationV2Service {
       );
       excludedCRs = new Set();
     }
+    const budgetFreeze = await this.getExperimentBudgetFreeze(
+      advertiserId,
+      'Stage2',
+    );
 
     const results: PauseDecision[] = [];
 
@@ -672,7 +812,7 @@ export class BudgetOptimizationV2Service {
           continue;
         }
 
-        const registrationPath = this.generateRegistrationPath(
+        const registrationPath = buildRegistrationPath(
           ad.parsedName.lpName,
           appeal.name,
         );
@@ -707,11 +847,10 @@ export class BudgetOptimizationV2Service {
         }
 
         const isWithin7Days =
-          ad.parsedName &&
-          this.isWithin7DaysOfPublish(ad.parsedName.date, todayStr);
+          ad.parsedName && isWithin7DaysOfPublish(ad.parsedName.date, todayStr);
 
         // スプレッドシートから過去7日間のCV数を取得
-        const last7DaysCVCount = await this.googleSheetsService.getCVCount(
+        const last7DaysCVCount = await this.conversionLedger.getCVCount(
           appeal.name,
           appeal.cvSpreadsheetUrl,
           registrationPath,
@@ -723,7 +862,7 @@ export class BudgetOptimizationV2Service {
         let last7DaysFrontSalesCount = 0;
         if (usesFrontCPO(channelType) && appeal.frontSpreadsheetUrl) {
           last7DaysFrontSalesCount =
-            await this.googleSheetsService.getFrontSalesCount(
+            await this.conversionLedger.getFrontSalesCount(
               appeal.name,
               appeal.frontSpreadsheetUrl,
               registrationPath,
@@ -733,18 +872,16 @@ export class BudgetOptimizationV2Service {
         }
 
         // 個別予約数を取得
-        const individualReservationPath =
-          this.generateIndividualReservationPath(
-            ad.parsedName.lpName,
-            ad.parsedName.creativeName,
-            appeal.name,
-          );
+        const individualReservationPath = buildIndividualReservationPath(
+          ad.parsedName.lpName,
+          ad.parsedName.creativeName,
+          appeal.name,
+        );
         let last7DaysIndividualReservationCount = 0;
         try {
           last7DaysIndividualReservationCount =
-            await this.googleSheetsService.getIndividualReservationCount(
-              channelType,
-              INDIVIDUAL_RESERVATION_SPREADSHEET_ID,
+            await this.conversionLedger.getIndividualReservationCount(
+              individualReservationSheet,
               individualReservationPath,
               startDate,
               endDate,
@@ -772,6 +909,7 @@ export class BudgetOptimizationV2Service {
           ad,
           channelType,
           appeal,
+          ruleSet,
           last7DaysSpend,
           last7DaysImpressions,
           last7DaysCVCount,
@@ -796,6 +934,7 @@ export class BudgetOptimizationV2Service {
               ad,
               channelType,
               appeal,
+              ruleSet,
               last7DaysSpend,
               last7DaysImpressions,
               last7DaysCVCount,
@@ -804,11 +943,25 @@ export class BudgetOptimizationV2Service {
               last7DaysFrontCPO,
               last7DaysIndividualReservationCount,
               last7DaysIndividualReservationCPO,
-              appeal.allowableIndividualReservationCPO,
             );
           }
         }
 
+        // 実験中の予算固定: 停止判定は通常どおり、予算減額のみ見送る
+        // 実験を取得できなければ全広告の減額を見送る
+        const frozenExperiment = budgetFreeze && frozenBy(budgetFreeze, ad);
+        const freezeReason = !budgetFreeze
+          ? EXPERIMENT_FREEZE_UNKNOWN
+          : frozenExperiment && `実験中のため予算固定: ${frozenExperiment}`;
+        if (freezeReason && decision.action === 'BUDGET_DECREASE_20PCT') {
+          decision = {
+            ...decision,
+            action: 'CONTINUE',
+            reason: `${freezeReason}（${decision.reason}）`,
+            newBudgetAfterDecrease: undefined,
+          };
+        }
+
         results.push(decision);
 
         // アクション実行
@@ -819,13 +972,19 @@ export class BudgetOptimizationV2Service {
               decision.reason,
               advertiserId,
               accessToken,
+              decision.ruleId,
             );
-          } else if (decision.action === 'BUDGET_DECREASE_20PCT') {
+          } else if (
+            decision.action === 'BUDGET_DECREASE_20PCT' &&
+            decision.newBudgetAfterDecrease
+          ) {
             const newBudget = await this.executeBudgetDecrease(
               ad,
+              decision.newBudgetAfterDecrease,
               decision.reason,
               advertiserId,
               accessToken,
+              decision.ruleId,
             );
             decision.newBudgetAfterDecrease = newBudget;
           }
@@ -863,6 +1022,7 @@ export class BudgetOptimizationV2Service {
   private async executeSubsequentRound(
     ads: V2SmartPlusAd[],
     appeal: any,
+    ruleSet: ResolvedBudgetRuleSet,
     advertiserId: string,
     accessToken: string,
     todayStr: string,
@@ -885,6 +1045,7 @@ export class BudgetOptimizationV2Service {
       await this.notifyError(
         'メトリクス取得失敗（Subsequent）',
         `アカウント: ${advertiserId}\n当日広告費の取得に失敗。${ads.length}件の広告の予算増額をスキップ\n${error.message}`,
+        advertiserId,
       );
       return ads.map((ad) =>
         this.skipDecision(ad, `メトリクス取得エラー: ${error.message}`),
@@ -902,6 +1063,7 @@ export class BudgetOptimizationV2Service {
       await this.notifyError(
         'Snapshot取得失敗',
         `アカウント: ${advertiserId}\n前回Snapshotの取得に失敗。予算増額をスキップ\n${error.message}`,
+        advertiserId,
       );
       return ads.map((ad) =>
         this.skipDecision(ad, `Snapshot取得エラー: ${error.message}`),
@@ -918,6 +1080,14 @@ export class BudgetOptimizationV2Service {
       );
       excludedCRs = new Set();
     }
+    const budgetFreeze = await this.getExperimentBudgetFreeze(
+      advertiserId,
+      'SubsequentRound',
+    );
+    if (!budgetFreeze) {
+      return ads.map((ad) => this.skipDecision(ad, EXPERIMENT_FREEZE_UNKNOWN));
+    }
+    const outOfWindow = await this.adGroupsOutOfWindow(ads);
 
     const results: BudgetIncreaseDecision[] = [];
 
@@ -942,13 +1112,25 @@ export class BudgetOptimizationV2Service {
           continue;
         }
 
-        const registrationPath = this.generateRegistrationPath(
+        // 実験中の予算固定チェック
+        const frozenExperiment = frozenBy(budgetFreeze, ad);
+        if (frozenExperiment) {
+          this.logger.log(
+            `[V2] Ad ${ad.adId} (${ad.adName}): 実験中のため予算固定 実験=${frozenExperiment} → SKIP`,
+          );
+          results.push(
+            this.skipDecision(ad, `実験中のため予算固定: ${frozenExperiment}`),
+          );
+          continue;
+        }
+
+        const registrationPath = buildRegistrationPath(
           ad.parsedName.lpName,
           appeal.name,
         );
         const todayStart = this.parseJSTDate(todayStr);
         const todayEnd = this.parseJSTDateEnd(todayStr);
-        const todayCV = await this.googleSheetsService.getCVCount(
+        const todayCV = await this.conversionLedger.getCVCount(
           appeal.name,
           appeal.cvSpreadsheetUrl,
           registrationPath,
@@ -960,6 +1142,21 @@ export class BudgetOptimizationV2Service {
         const lastSnapshot = lastSnapshots.get(ad.adId);
         const lastCVCount = lastSnapshot?.todayCVCount || 0;
 
+        // 配信時間帯（dayparting）外は消化が止まっているため増額しない
+        // 前回のCV数で記録し、増えたCVは次の配信時間帯のラウンドで判定する
+        if (outOfWindow.has(ad.adgroupId)) {
+          const metrics = todayMetrics.get(ad.adId);
+          results.push(
+            this.skipDecision(
+              ad,
+              `配信時間帯外のため増額見送り（前回: ${lastCVCount}, 現在: ${todayCV}）`,
+              lastCVCount,
+              metrics?.spend || 0,
+            ),
+          );
+          continue;
+        }
+
         if (todayCV <= lastCVCount) {
           // 実際のCV数を渡してスナップショットに正しく保存する
           // （todayCV=0で保存すると次回ラウンドで同じCVが再検出されるバグを防止）
@@ -986,7 +1183,6 @@ export class BudgetOptimizationV2Service {
         const todayCPA = todayCV > 0 ? todaySpend / todayCV : null;
 
         // 増額判定
-        const channelType = detectChannelType(appeal.name);
         const decision = await this.evaluateBudgetIncrease(
           ad,
           todayCPA,
@@ -994,7 +1190,7 @@ export class BudgetOptimizationV2Service {
           todaySpend,
           appeal.targetCPA,
           advertiserId,
-          channelType,
+          ruleSet,
         );
 
         // 増額実行（Snapshot保存を先に行い、成功した場合のみ予算変更）
@@ -1011,6 +1207,7 @@ export class BudgetOptimizationV2Service {
               decision.newBudget,
               advertiserId,
               accessToken,
+              decision.ruleId,
             );
           } else {
             this.logger.error(
@@ -1019,6 +1216,7 @@ export class BudgetOptimizationV2Service {
             this.notifyError(
               'Snapshot保存失敗',
               `広告: ${ad.adName}\nSnapshot保存に失敗したため予算増額をスキップ。DB障害の可能性`,
+              advertiserId,
             ).catch(() => {});
             decision.action = 'SKIP';
             decision.reason = `Snapshot保存失敗のため増額スキップ（元判定: ${decision.reason}）`;
@@ -1047,11 +1245,12 @@ export class BudgetOptimizationV2Service {
     todayCPA: number | null,
     todayCV: number,
     todaySpend: number,
-    targetCPA: number,
+    targetCPA: number | null,
     advertiserId: string,
-    channelType: ChannelType = 'AI',
+    ruleSet: ResolvedBudgetRuleSet,
   ): Promise<BudgetIncreaseDecision> {
     const currentBudget = ad.dailyBudget;
+    const stage = ruleSet.definition.increase;
     const base = {
       adId: ad.adId,
       adName: ad.adName,
@@ -1061,96 +1260,50 @@ export class BudgetOptimizationV2Service {
       todaySpend,
     };
 
-    // 当日CPA > 目標CPA → 継続
-    if (todayCPA === null || todayCPA > targetCPA) {
+    // ルール判定（当日CPA・予算帯別オプト数）
+    const match = matchRule(
+      stage.rules,
+      { currentBudget, todayCPA, todayCV, todaySpend, targetCPA },
+      'CONTINUE',
+    );
+    if (match.action !== 'INCREASE') {
       return {
         ...base,
         action: 'CONTINUE',
-        reason:
-          todayCPA === null
-            ? '当日CPA算出不可（広告費0）'
-            : `当日CPA ¥${todayCPA.toFixed(0)} > 目標CPA ¥${targetCPA}`,
+        reason: match.reason,
+        ruleId: match.ruleId,
       };
     }
+    let reason = match.reason;
 
-    // 当日CPA ≤ 目標CPA → 予算帯別ルール
-    let canIncrease = false;
-    let reason = '';
-
-    if (currentBudget < BUDGET_TIER.LOW_MAX) {
-      // 8,000円未満 → 無条件で1.3倍
-      canIncrease = true;
-      reason = `日予算¥${currentBudget.toFixed(0)} < ¥${BUDGET_TIER.LOW_MAX}、CPA¥${todayCPA.toFixed(0)} ≤ 目標¥${targetCPA}`;
-    } else if (currentBudget <= BUDGET_TIER.MID_MAX) {
-      // 8,000〜20,000円 → オプト2以上
-      if (todayCV >= BUDGET_TIER_MIN_OPTS.MID) {
-        canIncrease = true;
-        reason = `日予算¥${currentBudget.toFixed(0)}、オプト${todayCV} ≥ ${BUDGET_TIER_MIN_OPTS.MID}`;
-      } else {
-        reason = `日予算¥${currentBudget.toFixed(0)}、オプト${todayCV} < ${BUDGET_TIER_MIN_OPTS.MID}`;
-      }
-    } else {
-      // 20,000円超 → オプト3以上
-      if (todayCV >= BUDGET_TIER_MIN_OPTS.HIGH) {
-        canIncrease = true;
-        reason = `日予算¥${currentBudget.toFixed(0)}、オプト${todayCV} ≥ ${BUDGET_TIER_MIN_OPTS.HIGH}`;
-      } else {
-        reason = `日予算¥${currentBudget.toFixed(0)}、オプト${todayCV} < ${BUDGET_TIER_MIN_OPTS.HIGH}`;
-      }
-    }
-
-    if (!canIncrease) {
-      return { ...base, action: 'CONTINUE', reason: `オプト数不足: ${reason}` };
-    }
-
-    // 新予算を計算（導線別: 閾値超で1.3倍→+固定額に切替）
-    let newBudget: number;
-    const linearConfig = LINEAR_INCREASE_CONFIG[channelType];
-    if (linearConfig && currentBudget >= linearConfig.threshold) {
-      newBudget = currentBudget + linearConfig.amount;
-      reason += ` [${channelType}: ¥${currentBudget.toFixed(0)} ≥ ¥${linearConfig.threshold} → +¥${linearConfig.amount}]`;
-    } else {
-      newBudget = Math.round(currentBudget * BUDGET_INCREASE_RATE);
+    // 新予算を計算（導線別: 閾値超で倍率→+固定額に切替）
+    const increased = calculateIncreasedBudget(stage, currentBudget);
+    if (increased.note) {
+      reason += ` [${ruleSet.channelType}: ${increased.note}]`;
     }
 
-    // AdBudgetCapチェック
+    // 上限チェック（AdBudgetCap → グローバル上限 → TikTok API制限）
     const budgetCap = await this.getEffectiveBudgetCap(ad.adId, advertiserId);
-    if (budgetCap !== null && newBudget > budgetCap) {
-      if (currentBudget >= budgetCap) {
-        return {
-          ...base,
-          action: 'CONTINUE',
-          reason: `AdBudgetCap ¥${budgetCap} に到達済み`,
-        };
-      }
-      newBudget = budgetCap;
-      reason += ` → AdBudgetCap ¥${budgetCap} で制限`;
-    }
-
-    // グローバル日予算上限チェック（30万円）
-    if (newBudget > WINNING_CR_BUDGET_TIER.TIER3_MAX) {
-      if (currentBudget >= WINNING_CR_BUDGET_TIER.TIER3_MAX) {
-        return {
-          ...base,
-          action: 'CONTINUE',
-          reason: `グローバル日予算上限 ¥${WINNING_CR_BUDGET_TIER.TIER3_MAX} に到達済み`,
-        };
-      }
-      newBudget = WINNING_CR_BUDGET_TIER.TIER3_MAX;
-      reason += ` → グローバル上限 ¥${WINNING_CR_BUDGET_TIER.TIER3_MAX} で制限`;
+    const limited = applyIncreaseLimits(currentBudget, increased.newBudget, {
+      budgetCap,
+      maxDailyBudget: stage.maxDailyBudget,
+    });
+    if (limited.newBudget === null) {
+      return {
+        ...base,
+        action: 'CONTINUE',
+        reason: limited.note,
+        ruleId: match.ruleId,
+      };
     }
-
-    // TikTok API制限チェック
-    newBudget = Math.max(
-      TIKTOK_BUDGET_LIMITS.MIN,
-      Math.min(TIKTOK_BUDGET_LIMITS.MAX, newBudget),
-    );
+    reason += limited.note;
 
     return {
       ...base,
       action: 'INCREASE',
       reason: `増額: ${reason}`,
-      newBudget,
+      newBudget: limited.newBudget,
+      ruleId: match.ruleId,
     };
   }
 
@@ -1239,8 +1392,8 @@ export class BudgetOptimizationV2Service {
     }
 
     // 4. 導線別の増額判定
-    const channelType = detectChannelType(appeal.name);
-    const registrationPath = this.generateRegistrationPath(
+    const channelType = this.channelRegistry.resolveAppeal(appeal).channelType;
+    const registrationPath = buildRegistrationPath(
       ad.parsedName!.lpName,
       appeal.name,
     );
@@ -1250,7 +1403,7 @@ export class BudgetOptimizationV2Service {
       let last7DaysFrontSalesCount = 0;
       if (appeal.frontSpreadsheetUrl) {
         last7DaysFrontSalesCount =
-          await this.googleSheetsService.getFrontSalesCount(
+          await this.conversionLedger.getFrontSalesCount(
             appeal.name,
             appeal.frontSpreadsheetUrl,
             registrationPath,
@@ -1281,7 +1434,10 @@ export class BudgetOptimizationV2Service {
       // 増額計算
       let newBudget = Math.round(currentBudget * BUDGET_INCREASE_RATE);
       newBudget = Math.min(newBudget, V1_BUDGET_MAX);
-      newBudget = Math.max(TIKTOK_BUDGET_LIMITS.MIN, Math.min(TIKTOK_BUDGET_LIMITS.MAX, newBudget));
+      newBudget = Math.max(
+        TIKTOK_BUDGET_LIMITS.MIN,
+        Math.min(TIKTOK_BUDGET_LIMITS.MAX, newBudget),
+      );
 
       this.logger.log(
         `[V2-V1MODE] Ad ${ad.adId}: V1増額判定=INCREASE ¥${currentBudget} → ¥${newBudget} (フロントCPO ¥${last7DaysFrontCPO.toFixed(0)} ≤ 目標 ¥${targetFrontCPO}, フロント${last7DaysFrontSalesCount}件)`,
@@ -1292,6 +1448,7 @@ export class BudgetOptimizationV2Service {
         action: 'INCREASE',
         reason: `[V1] 増額: フロントCPO ¥${last7DaysFrontCPO.toFixed(0)} ≤ 目標 ¥${targetFrontCPO}、フロント${last7DaysFrontSalesCount}件、¥${currentBudget} → ¥${newBudget}`,
         newBudget,
+        ruleId: 'V1_FRONT_CPO_WITHIN_TARGET',
       };
     } else {
       // セミナー（スキルプラス）導線: 過去7日CPAベース判定
@@ -1305,7 +1462,7 @@ export class BudgetOptimizationV2Service {
       }
 
       // 過去7日CV数をスプシから取得
-      const last7DaysCVCount = await this.googleSheetsService.getCVCount(
+      const last7DaysCVCount = await this.conversionLedger.getCVCount(
         appeal.name,
         appeal.cvSpreadsheetUrl,
         registrationPath,
@@ -1334,7 +1491,10 @@ export class BudgetOptimizationV2Service {
       // 増額計算
       let newBudget = Math.round(currentBudget * BUDGET_INCREASE_RATE);
       newBudget = Math.min(newBudget, V1_BUDGET_MAX);
-      newBudget = Math.max(TIKTOK_BUDGET_LIMITS.MIN, Math.min(TIKTOK_BUDGET_LIMITS.MAX, newBudget));
+      newBudget = Math.max(
+        TIKTOK_BUDGET_LIMITS.MIN,
+        Math.min(TIKTOK_BUDGET_LIMITS.MAX, newBudget),
+      );
 
       this.logger.log(
         `[V2-V1MODE] Ad ${ad.adId}: V1増額判定=INCREASE ¥${currentBudget} → ¥${newBudget} (CPA ¥${last7DaysCPA.toFixed(0)} ≤ 目標CPA ¥${targetCPA}, CV${last7DaysCVCount}件)`,
@@ -1345,6 +1505,7 @@ export class BudgetOptimizationV2Service {
         action: 'INCREASE',
         reason: `[V1] 増額: CPA ¥${last7DaysCPA.toFixed(0)} ≤ 目標CPA ¥${targetCPA}、CV${last7DaysCVCount}件、¥${currentBudget} → ¥${newBudget}`,
         newBudget,
+        ruleId: 'V1_CPA_WITHIN_TARGET',
       };
     }
   }
@@ -1357,6 +1518,7 @@ export class BudgetOptimizationV2Service {
     ad: V2SmartPlusAd,
     channelType: ChannelType,
     appeal: any,
+    ruleSet: ResolvedBudgetRuleSet,
     last7DaysSpend: number,
     last7DaysImpressions: number,
     last7DaysCVCount: number,
@@ -1380,87 +1542,18 @@ export class BudgetOptimizationV2Service {
       last7DaysIndividualReservationCPO,
     };
 
-    if (usesFrontCPO(channelType)) {
-      // SNS/AI導線: フロントCPO判定
-      const allowableFrontCPO = appeal.allowableFrontCPO;
-      const allowableCPA = appeal.allowableCPA;
-
-      if (last7DaysFrontSalesCount >= 1) {
-        // フロント販売あり → フロントCPOで判定
-        if (
-          last7DaysFrontCPO !== null &&
-          last7DaysFrontCPO > allowableFrontCPO
-        ) {
-          return {
-            ...base,
-            action: 'PAUSE',
-            reason: `フロントCPO ¥${last7DaysFrontCPO.toFixed(0)} > 許容値 ¥${allowableFrontCPO}`,
-          };
-        }
-        return {
-          ...base,
-          action: 'CONTINUE',
-          reason: `フロントCPO ¥${(last7DaysFrontCPO || 0).toFixed(0)} ≤ 許容値 ¥${allowableFrontCPO}`,
-        };
-      }
-
-      // フロント販売なし
-      if (last7DaysCVCount === 0) {
-        return {
-          ...base,
-          action: 'PAUSE',
-          reason: '過去7日間CV=0、フロント販売=0',
-        };
-      }
-
-      // フロント販売0だがCV>0
-      // まず広告費が許容フロントCPO以上消化していたら停止
-      if (allowableFrontCPO && last7DaysSpend >= allowableFrontCPO) {
-        return {
-          ...base,
-          action: 'PAUSE',
-          reason: `フロント販売0、広告費 ¥${last7DaysSpend.toFixed(0)} ≥ 許容フロントCPO ¥${allowableFrontCPO}（フロント販売未発生）`,
-        };
-      }
-
-      // CPAフォールバック
-      if (last7DaysCPA !== null && last7DaysCPA > allowableCPA) {
-        return {
-          ...base,
-          action: 'PAUSE',
-          reason: `フロント販売0、CPA ¥${last7DaysCPA.toFixed(0)} > 許容CPA ¥${allowableCPA}（フォールバック）`,
-        };
-      }
-      return {
-        ...base,
-        action: 'CONTINUE',
-        reason: `フロント販売0、CPA ¥${(last7DaysCPA || 0).toFixed(0)} ≤ 許容CPA ¥${allowableCPA}`,
-      };
-    }
-
-    // スキルプラス（セミナー）導線: CPA判定
-    const allowableCPA = appeal.allowableCPA;
-
-    if (last7DaysCVCount === 0) {
-      return {
-        ...base,
-        action: 'PAUSE',
-        reason: '過去7日間CV=0',
-      };
-    }
-
-    if (last7DaysCPA !== null && last7DaysCPA > allowableCPA) {
-      return {
-        ...base,
-        action: 'PAUSE',
-        reason: `CPA ¥${last7DaysCPA.toFixed(0)} > 許容CPA ¥${allowableCPA}`,
-      };
-    }
+    // SNS/AI導線はフロントCPO、セミナー導線はCPAで判定（ルールセット側で定義）
+    const match = matchRule(
+      ruleSet.definition.pause.rules,
+      buildPauseRuleContext(ad.dailyBudget, base, appeal),
+      'CONTINUE',
+    );
 
     return {
       ...base,
-      action: 'CONTINUE',
-      reason: `CPA ¥${(last7DaysCPA || 0).toFixed(0)} ≤ 許容CPA ¥${allowableCPA}`,
+      action: match.action,
+      reason: match.reason,
+      ruleId: match.ruleId,
     };
   }
 
@@ -1476,6 +1569,7 @@ export class BudgetOptimizationV2Service {
     ad: V2SmartPlusAd,
     channelType: ChannelType,
     appeal: any,
+    ruleSet: ResolvedBudgetRuleSet,
     last7DaysSpend: number,
     last7DaysImpressions: number,
     last7DaysCVCount: number,
@@ -1484,7 +1578,6 @@ export class BudgetOptimizationV2Service {
     last7DaysFrontCPO: number | null,
     last7DaysIndividualReservationCount: number,
     last7DaysIndividualReservationCPO: number | null,
-    allowableIndividualReservationCPO: number,
   ): PauseDecision {
     const base = {
       adId: ad.adId,
@@ -1500,49 +1593,41 @@ export class BudgetOptimizationV2Service {
       last7DaysIndividualReservationCPO,
     };
 
-    if (last7DaysIndividualReservationCount === 0) {
-      // 個別予約0件: 広告費ベースで判定
-      if (last7DaysSpend >= allowableIndividualReservationCPO) {
-        this.logger.log(
-          `[V2] Ad ${ad.adId}: 個別予約0件、広告費 ¥${last7DaysSpend.toFixed(0)} ≥ 許容個別予約CPO ¥${allowableIndividualReservationCPO} → PAUSE`,
-        );
-        return {
-          ...base,
-          action: 'PAUSE',
-          reason: `個別予約0件、広告費 ¥${last7DaysSpend.toFixed(0)} ≥ 許容個別予約CPO ¥${allowableIndividualReservationCPO}`,
-        };
-      }
+    const stage = ruleSet.definition.individualReservation;
+    const match = matchRule(
+      stage.rules,
+      buildPauseRuleContext(ad.dailyBudget, base, appeal),
+      'CONTINUE',
+    );
+
+    if (match.action === 'CONTINUE') {
       return {
         ...base,
         action: 'CONTINUE',
-        reason: `個別予約0件、広告費 ¥${last7DaysSpend.toFixed(0)} < 許容個別予約CPO ¥${allowableIndividualReservationCPO}（継続）`,
+        reason: match.reason,
+        ruleId: match.ruleId,
       };
     }
 
-    // 個別予約1件以上: CPOで判定
-    if (
-      last7DaysIndividualReservationCPO !== null &&
-      last7DaysIndividualReservationCPO > allowableIndividualReservationCPO
-    ) {
-      const newBudget = Math.max(
-        TIKTOK_BUDGET_LIMITS.MIN,
-        Math.floor(ad.dailyBudget * BUDGET_DECREASE_RATE),
-      );
-      this.logger.log(
-        `[V2] Ad ${ad.adId}: 個別予約CPO ¥${last7DaysIndividualReservationCPO.toFixed(0)} > 許容 ¥${allowableIndividualReservationCPO} → 予算20%ダウン (¥${ad.dailyBudget} → ¥${newBudget})`,
-      );
+    this.logger.log(
+      `[V2] Ad ${ad.adId}: ${match.reason} → ${match.action} (rule: ${match.ruleId})`,
+    );
+
+    if (match.action === 'BUDGET_DECREASE_20PCT') {
       return {
         ...base,
         action: 'BUDGET_DECREASE_20PCT',
-        reason: `個別予約CPO ¥${last7DaysIndividualReservationCPO.toFixed(0)} > 許容 ¥${allowableIndividualReservationCPO}（予算20%ダウン）`,
-        newBudgetAfterDecrease: newBudget,
+        reason: match.reason,
+        ruleId: match.ruleId,
+        newBudgetAfterDecrease: calculateDecreasedBudget(stage, ad.dailyBudget),
       };
     }
 
     return {
       ...base,
-      action: 'CONTINUE',
-      reason: `個別予約CPO ¥${(last7DaysIndividualReservationCPO || 0).toFixed(0)} ≤ 許容 ¥${allowableIndividualReservationCPO}（継続）`,
+      action: match.action,
+      reason: match.reason,
+      ruleId: match.ruleId,
     };
   }
 
@@ -1945,6 +2030,7 @@ export class BudgetOptimizationV2Service {
     newBudget: number,
     advertiserId: string,
     accessToken: string,
+    ruleId?: string,
   ): Promise<void> {
     const oldBudget = ad.dailyBudget;
     this.logger.log(
@@ -1997,21 +2083,19 @@ export class BudgetOptimizationV2Service {
         }
       }
 
-      // ChangeLog記録（失敗しても予算変更自体は成功扱い）
+      // 監査ログ記録（失敗しても予算変更自体は成功扱い）
       try {
-        await withDatabaseRetry(() =>
-          this.prisma.changeLog.create({
-            data: {
-              entityType: ad.isCBO ? 'CAMPAIGN' : 'ADGROUP',
-              entityId: ad.isCBO ? ad.campaignId : ad.adgroupId,
-              action: 'UPDATE_BUDGET',
-              source: 'BUDGET_OPTIMIZATION_V2',
-              beforeData: { budget: oldBudget },
-              afterData: { budget: newBudget },
-              reason: `V2予算増額: ¥${oldBudget} → ¥${newBudget} (${ad.isSmartPlus ? 'Smart+' : '通常'})`,
-            },
-          }),
-        );
+        await this.budgetAudit.record({
+          advertiserId,
+          entityType: ad.isCBO ? 'CAMPAIGN' : 'ADGROUP',
+          entityId: ad.isCBO ? ad.campaignId : ad.adgroupId,
+          action: 'UPDATE_BUDGET',
+          source: 'BUDGET_OPTIMIZATION_V2',
+          before: { budget: oldBudget },
+          after: { budget: newBudget },
+          ruleId,
+          reason: `V2予算増額: ¥${oldBudget} → ¥${newBudget} (${ad.isSmartPlus ? 'Smart+' : '通常'})`,
+        });
       } catch (changeLogError) {
         this.logger.warn(
           `[V2] ChangeLog save failed (non-fatal): ${changeLogError.message}`,
@@ -2034,6 +2118,7 @@ export class BudgetOptimizationV2Service {
     reason: string,
     advertiserId: string,
     accessToken: string,
+    ruleId?: string,
   ): Promise<void> {
     this.logger.log(`[V2] Pausing ad ${ad.adId} (${ad.adName}): ${reason}`);
 
@@ -2052,19 +2137,19 @@ export class BudgetOptimizationV2Service {
       throw error;
     }
 
-    // ChangeLog記録（失敗しても停止自体は成功扱い）
+    // 監査ログ記録（失敗しても停止自体は成功扱い）
     try {
-      await withDatabaseRetry(() =>
-        this.prisma.changeLog.create({
-          data: {
-            entityType: 'AD',
-            entityId: ad.adId,
-            action: 'PAUSE',
-            source: 'BUDGET_OPTIMIZATION_V2',
-            reason: `V2停止判定: ${reason}`,
-          },
-        }),
-      );
+      await this.budgetAudit.record({
+        advertiserId,
+        entityType: 'AD',
+        entityId: ad.adId,
+        action: 'PAUSE',
+        source: 'BUDGET_OPTIMIZATION_V2',
+        before: { status: 'ENABLE' },
+        after: { status: 'DISABLE' },
+        ruleId,
+        reason: `V2停止判定: ${reason}`,
+      });
     } catch (changeLogError) {
       this.logger.warn(
         `[V2] Pause ChangeLog save failed (non-fatal): ${changeLogError.message}`,
@@ -2073,22 +2158,20 @@ export class BudgetOptimizationV2Service {
   }
 
   /**
-   * 広告の日予算を20%ダウンする（個別予約CPO超過時）
+   * 広告の日予算を減額する（個別予約CPO超過時、減額後予算はルールセットで算出済み）
    */
   private async executeBudgetDecrease(
     ad: V2SmartPlusAd,
+    newBudget: number,
     reason: string,
     advertiserId: string,
     accessToken: string,
+    ruleId?: string,
   ): Promise<number> {
     const oldBudget = ad.dailyBudget;
-    const newBudget = Math.max(
-      TIKTOK_BUDGET_LIMITS.MIN,
-      Math.floor(oldBudget * BUDGET_DECREASE_RATE),
-    );
 
     this.logger.log(
-      `[V2] Budget decrease for ad ${ad.adId} (${ad.adName}): ¥${oldBudget} → ¥${newBudget} (20% down, 個別予約CPO超過)`,
+      `[V2] Budget decrease for ad ${ad.adId} (${ad.adName}): ¥${oldBudget} → ¥${newBudget} (個別予約CPO超過)`,
     );
 
     try {
@@ -2131,21 +2214,19 @@ export class BudgetOptimizationV2Service {
         }
       }
 
-      // ChangeLog記録（失敗しても予算変更自体は成功扱い）
+      // 監査ログ記録（失敗しても予算変更自体は成功扱い）
       try {
-        await withDatabaseRetry(() =>
-          this.prisma.changeLog.create({
-            data: {
-              entityType: ad.isCBO ? 'CAMPAIGN' : 'ADGROUP',
-              entityId: ad.isCBO ? ad.campaignId : ad.adgroupId,
-              action: 'DECREASE_BUDGET',
-              source: 'BUDGET_OPTIMIZATION_V2',
-              beforeData: { budget: oldBudget },
-              afterData: { budget: newBudget },
-              reason: `V2予算減額(個別予約CPO超過): ${reason}`,
-            },
-          }),
-        );
+        await this.budgetAudit.record({
+          advertiserId,
+          entityType: ad.isCBO ? 'CAMPAIGN' : 'ADGROUP',
+          entityId: ad.isCBO ? ad.campaignId : ad.adgroupId,
+          action: 'DECREASE_BUDGET',
+          source: 'BUDGET_OPTIMIZATION_V2',
+          before: { budget: oldBudget },
+          after: { budget: newBudget },
+          ruleId,
+          reason: `V2予算減額(個別予約CPO超過): ${reason}`,
+        });
       } catch (changeLogError) {
         this.logger.warn(
           `[V2] Budget decrease ChangeLog save failed (non-fatal): ${changeLogError.message}`,
@@ -2342,18 +2423,6 @@ export class BudgetOptimizationV2Service {
     }
   }
 
-  private generateRegistrationPath(lpName: string, appealName: string): string {
-    return `TikTok広告-${appealName}-${lpName}`;
-  }
-
-  private generateIndividualReservationPath(
-    lpName: string,
-    creativeName: string,
-    appealName: string,
-  ): string {
-    return `TikTok広告-${appealName}-${lpName}-${creativeName}`;
-  }
-
   private getJSTHour(date: Date): number {
     const jst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
     return jst.getUTCHours();
@@ -2374,37 +2443,6 @@ export class BudgetOptimizationV2Service {
     return new Date(`${dateStr}T23:59:59+09:00`);
   }
 
-  /**
-   * 出稿日が直近7日以内かどうかを判定
-   * @param adDateStr 広告名の日付部分 (YYMMDD形式, e.g., "260204")
-   * @param todayStr 今日の日付 (YYYY-MM-DD形式, e.g., "2026-02-26")
-   * @returns 出稿日が今日から7日以内ならtrue
-   */
-  private isWithin7DaysOfPublish(adDateStr: string, todayStr: string): boolean {
-    try {
-      if (!adDateStr || adDateStr.length < 6) return false;
-      const year = 2000 + parseInt(adDateStr.slice(0, 2), 10);
-      const month = parseInt(adDateStr.slice(2, 4), 10);
-      const day = parseInt(adDateStr.slice(4, 6), 10);
-      if (isNaN(year) || isNaN(month) || isNaN(day)) return false;
-
-      const publishDate = new Date(Date.UTC(year, month - 1, day));
-      const today = new Date(
-        Date.UTC(
-          parseInt(todayStr.slice(0, 4), 10),
-          parseInt(todayStr.slice(5, 7), 10) - 1,
-          parseInt(todayStr.slice(8, 10), 10),
-        ),
-      );
-
-      const diffMs = today.getTime() - publishDate.getTime();
-      const diffDays = diffMs / (1000 * 60 * 60 * 24);
-      return diffDays >= 0 && diffDays < 7;
-    } catch {
-      return false;
-    }
-  }
-
   private calculateLast7DaysPeriod(todayStr: string): {
     startDate: Date;
     endDate: Date;
@@ -2423,6 +2461,22 @@ export class BudgetOptimizationV2Service {
     };
   }
 
+  /** 現在、配信時間帯（AdGroup.schedule.dayparting）の外にある広告セットのID */
+  private async adGroupsOutOfWindow(
+    ads: V2SmartPlusAd[],
+  ): Promise<Set<string>> {
+    const adGroups = await this.prisma.adGroup.findMany({
+      where: { tiktokId: { in: [...new Set(ads.map((ad) => ad.adgroupId))] } },
+      select: { tiktokId: true, schedule: true },
+    });
+    const now = new Date();
+    return new Set(
+      adGroups
+        .filter((adGroup) => !isDeliveringAt(adGroup.schedule, now))
+        .map((adGroup) => adGroup.tiktokId),
+    );
+  }
+
   private skipDecision(
     ad: V2SmartPlusAd,
     reason: string,
@@ -2462,7 +2516,7 @@ export class BudgetOptimizationV2Service {
     const winningAdIds = new Set<string>();
     const now = new Date();
     const todayStr = this.getJSTDateString(now);
-    const channelType = detectChannelType(appeal.name);
+    const channelType = this.channelRegistry.resolveAppeal(appeal).channelType;
 
     // 7日間メトリクス取得
     const {
@@ -2487,13 +2541,13 @@ export class BudgetOptimizationV2Service {
       try {
         if (!ad.parsedName) continue;
 
-        const registrationPath = this.generateRegistrationPath(
+        const registrationPath = buildRegistrationPath(
           ad.parsedName.lpName,
           appeal.name,
         );
 
         // 条件1: 直近30日で1日7CV以上の日があるか
-        const maxDailyCV = await this.googleSheetsService.getMaxDailyCVCount(
+        const maxDailyCV = await this.conversionLedger.getMaxDailyCVCount(
           appeal.cvSpreadsheetUrl,
           registrationPath,
           start30,
@@ -2511,7 +2565,7 @@ export class BudgetOptimizationV2Service {
           if (!appeal.targetFrontCPO || !appeal.frontSpreadsheetUrl) continue;
 
           const frontSalesCount =
-            await this.googleSheetsService.getFrontSalesCount(
+            await this.conversionLedger.getFrontSalesCount(
               appeal.name,
               appeal.frontSpreadsheetUrl,
               registrationPath,
@@ -2531,7 +2585,7 @@ export class BudgetOptimizationV2Service {
           // 条件2 (セミナー): 7日間CPA ≤ targetCPA
           if (!appeal.targetCPA) continue;
 
-          const cvCount = await this.googleSheetsService.getCVCount(
+          const cvCount = await this.conversionLedger.getCVCount(
             appeal.name,
             appeal.cvSpreadsheetUrl,
             registrationPath,
@@ -2591,13 +2645,31 @@ export class BudgetOptimizationV2Service {
     }
 
     const appeal = advertiser.appeal;
-    const channelType = detectChannelType(appeal.name);
-    const defaultBudget = DEFAULT_DAILY_BUDGET[channelType];
+    const { channelType, defaultDailyBudget: defaultBudget } =
+      this.channelRegistry.resolveAppeal(appeal);
 
     this.logger.log(
       `[V2-RESET] Channel: ${channelType}, Default budget: ¥${defaultBudget}`,
     );
 
+    // 自動化の一時停止中はリセットしない
+    const automationSkip = await this.automationControl.check(
+      'MIDNIGHT_RESET',
+      advertiserId,
+    );
+    if (automationSkip) {
+      return {
+        advertiserId,
+        channelType,
+        defaultBudget,
+        executionTime: now.toISOString(),
+        dryRun,
+        adResults: [],
+        summary: { totalAds: 0, reset: 0, skippedAlreadyDefault: 0, errors: 0 },
+        automationSkip,
+      };
+    }
+
     // Smart+配信中広告を取得
     const activeAds = await this.getActiveSmartPlusAds(
       advertiserId,
@@ -2807,21 +2879,18 @@ export class BudgetOptimizationV2Service {
             }
           }
 
-          // ChangeLog記録（失敗してもリセット自体は成功扱い）
+          // 監査ログ記録（失敗してもリセット自体は成功扱い）
           try {
-            await withDatabaseRetry(() =>
-              this.prisma.changeLog.create({
-                data: {
-                  entityType,
-                  entityId,
-                  action: 'RESET_BUDGET',
-                  source: 'BUDGET_RESET_MIDNIGHT',
-                  beforeData: { budget: ad.dailyBudget },
-                  afterData: { budget: resetBudget },
-                  reason: `日予算リセット: ¥${ad.dailyBudget} → ¥${resetBudget} (${channelType}デフォルト)`,
-                },
-              }),
-            );
+            await this.budgetAudit.record({
+              advertiserId,
+              entityType,
+              entityId,
+              action: 'RESET_BUDGET',
+              source: 'BUDGET_RESET_MIDNIGHT',
+              before: { budget: ad.dailyBudget },
+              after: { budget: resetBudget },
+              reason: `日予算リセット: ¥${ad.dailyBudget} → ¥${resetBudget} (${channelType}デフォルト)`,
+            });
           } catch (changeLogError) {
             this.logger.warn(
               `[V2-RESET] ChangeLog save failed (non-fatal): ${changeLogError.message}`,
@@ -2842,21 +2911,18 @@ export class BudgetOptimizationV2Service {
           `[V2-RESET] ${dryRun ? '[DRY-RUN] ' : ''}RESET ${ad.adName}: ¥${ad.dailyBudget} → ¥${resetBudget}${resetBudget !== defaultBudget ? ' (入稿時予算)' : ''}`,
         );
       } catch (error) {
-        // エラー時もChangeLogに記録（サイレント失敗を防止）
+        // エラー時も監査ログに記録（サイレント失敗を防止）
         try {
-          await withDatabaseRetry(() =>
-            this.prisma.changeLog.create({
-              data: {
-                entityType,
-                entityId,
-                action: 'RESET_BUDGET_ERROR',
-                source: 'BUDGET_RESET_MIDNIGHT',
-                beforeData: { budget: ad.dailyBudget },
-                afterData: { budget: resetBudget, error: error.message },
-                reason: `日予算リセット失敗: ¥${ad.dailyBudget} → ¥${resetBudget} (${error.message})`,
-              },
-            }),
-          );
+          await this.budgetAudit.record({
+            advertiserId,
+            entityType,
+            entityId,
+            action: 'RESET_BUDGET_ERROR',
+            source: 'BUDGET_RESET_MIDNIGHT',
+            before: { budget: ad.dailyBudget },
+            after: { budget: resetBudget, error: error.message },
+            reason: `日予算リセット失敗: ¥${ad.dailyBudget} → ¥${resetBudget} (${error.message})`,
+          });
         } catch (logError) {
           this.logger.error(
             `[V2-RESET] Failed to log error to ChangeLog: ${logError.message}`,
@@ -2907,38 +2973,51 @@ export class BudgetOptimizationV2Service {
    * 全対象アカウントの日予算をリセット
    */
   async resetAllDailyBudgets(accessToken: string, dryRun: boolean = false) {
-    const jobName = 'budget-reset-midnight';
-    if (!batchJobLock.acquire(jobName, 600000)) {
+    const outcome = await this.jobQueue.run(
+      'budget-reset-midnight',
+      (run) => this.resetAllInRun(accessToken, dryRun, run),
+      { trigger: 'API', params: { dryRun } },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn(
         '[V2-RESET] Previous reset job is still running. Skipping...',
       );
-      return { success: false, reason: 'JOB_LOCKED' };
+      return { success: false, reason: 'JOB_LOCKED', runId: outcome.runId };
     }
+    if (outcome.error) throw new Error(outcome.error);
 
-    try {
-      const advertiserIds = await this.getTargetAdvertiserIds();
-      const results: BudgetResetResult[] = [];
+    return {
+      success: true,
+      dryRun,
+      runId: outcome.runId,
+      results: outcome.result,
+    };
+  }
 
-      for (const advertiserId of advertiserIds) {
-        try {
-          const result = await this.resetDailyBudgets(
-            advertiserId,
-            accessToken,
-            dryRun,
-          );
-          results.push(result);
-        } catch (error) {
-          this.logger.error(
-            `[V2-RESET] Failed for advertiser ${advertiserId}:`,
-            error,
-          );
-        }
-      }
+  private async resetAllInRun(
+    accessToken: string,
+    dryRun: boolean,
+    run: JobRunContext,
+  ): Promise<BudgetResetResult[]> {
+    const advertiserIds = await this.getTargetAdvertiserIds();
+    const outcomes = await run.forEachAdvertiser(
+      advertiserIds,
+      (advertiserId) => advertiserId,
+      (advertiserId) =>
+        this.resetDailyBudgets(advertiserId, accessToken, dryRun),
+    );
 
-      return { success: true, dryRun, results };
-    } finally {
-      batchJobLock.release(jobName);
+    const results: BudgetResetResult[] = [];
+    for (const outcome of outcomes) {
+      if (outcome.status === 'SUCCEEDED') {
+        results.push(outcome.value!);
+      } else {
+        this.logger.error(
+          `[V2-RESET] Failed for advertiser ${outcome.advertiserId}: ${outcome.error}`,
+        );
+      }
     }
+    return results;
   }
 
   // ============================================================================
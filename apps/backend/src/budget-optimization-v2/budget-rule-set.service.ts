@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import type { ChannelType } from './types';
+import { buildDefaultRuleSet } from './domain/default-rule-set';
+import { validateRuleSetDefinition } from './domain/rule-engine';
+import type {
+  BudgetRuleSetDefinition,
+  ResolvedBudgetRuleSet,
+} from './domain/rule-types';
+
+const CHANNEL_TYPES: ChannelType[] = ['SNS', 'AI', 'SEMINAR'];
+
+/** 版番号の競合（同時保存）時の再試行回数 */
+const MAX_VERSION_RETRIES = 5;
+
+export interface CreateBudgetRuleSetDto {
+  channelType: ChannelType;
+  appealId?: string | null;
+  definition: BudgetRuleSetDefinition;
+  note?: string;
+  createdBy?: string;
+  /** trueなら作成と同時に有効化 */
+  activate?: boolean;
+}
+
+/**
+ * 予算調整V2 判定ルールセットの管理
+ * スコープ（導線 × 訴求）ごとにバージョンを積み上げ、有効版を1つだけ持つ。
+ * 有効版の解決順: 訴求専用 → 導線共通 → 既定（types.ts の定数）
+ */
+@Injectable()
+export class BudgetRuleSetService {
+  private readonly logger = new Logger(BudgetRuleSetService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 判定に使うルールセットを解決する
+   * DB障害時は既定ルールセットで続行する（予算調整自体は止めない）
+   */
+  async resolve(
+    channelType: ChannelType,
+    appealId: string | null,
+  ): Promise<ResolvedBudgetRuleSet> {
+    try {
+      const candidates = await this.prisma.budgetRuleSet.findMany({
+        where: {
+          channelType,
+          isActive: true,
+          OR: [{ appealId: null }, ...(appealId ? [{ appealId }] : [])],
+        },
+        orderBy: { version: 'desc' },
+      });
+      const active =
+        candidates.find((c) => c.appealId !== null) ??
+        candidates.find((c) => c.appealId === null);
+
+      if (active) {
+        const definition =
+          active.definition as unknown as BudgetRuleSetDefinition;
+        const errors = validateRuleSetDefinition(definition);
+        if (errors.length === 0) {
+          return {
+            source: 'DB',
+            id: active.id,
+            version: active.version,
+            channelType,
+            appealId: active.appealId,
+            definition,
+          };
+        }
+        this.logger.error(
+          `[V2-Rules] Active rule set ${active.id} (v${active.version}) is invalid → 既定ルールで続行: ${errors.join('; ')}`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `[V2-Rules] Failed to load rule set for ${channelType}: ${error.message} → 既定ルールで続行`,
+      );
+    }
+
+    return this.getDefault(channelType, appealId);
+  }
+
+  /**
+   * 既定ルールセット（DB未登録時に使われる内容）
+   */
+  getDefault(
+    channelType: ChannelType,
+    appealId: string | null = null,
+  ): ResolvedBudgetRuleSet {
+    return {
+      source: 'DEFAULT',
+      id: null,
+      version: null,
+      channelType,
+      appealId,
+      definition: buildDefaultRuleSet(channelType),
+    };
+  }
+
+  /**
+   * ルールセット一覧（新しい版から）
+   */
+  async findAll(filter: { channelType?: ChannelType; appealId?: string }) {
+    return this.prisma.budgetRuleSet.findMany({
+      where: {
+        ...(filter.channelType && { channelType: filter.channelType }),
+        ...(filter.appealId && { appealId: filter.appealId }),
+      },
+      include: { appeal: { select: { id: true, name: true } } },
+      orderBy: [{ channelType: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const ruleSet = await this.prisma.budgetRuleSet.findUnique({
+      where: { id },
+      include: { appeal: { select: { id: true, name: true } } },
+    });
+    if (!ruleSet) {
+      throw new NotFoundException(`Budget rule set ${id} not found`);
+    }
+    return ruleSet;
+  }
+
+  /**
+   * 新しい版を作成する（既存版は変更しない）
+   * 同じスコープへの同時保存は (scopeKey, version) の一意制約で片方が P2002 になるため、
+   * 最新版を読み直して次の版番号で再試行する
+   */
+  async create(dto: CreateBudgetRuleSetDto) {
+    if (!CHANNEL_TYPES.includes(dto.channelType)) {
+      throw new BadRequestException(
+        `channelType must be one of ${CHANNEL_TYPES.join(', ')}`,
+      );
+    }
+    const errors = validateRuleSetDefinition(dto.definition);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid rule set', errors });
+    }
+
+    const appealId = dto.appealId || null;
+    const scopeKey = ruleSetScopeKey(dto.channelType, appealId);
+    const created = await this.createNextVersion(dto, appealId, scopeKey);
+
+    this.logger.log(
+      `[V2-Rules] Created rule set ${dto.channelType}/${appealId ?? '*'} v${created.version} (id: ${created.id})`,
+    );
+
+    return dto.activate ? this.activate(created.id) : created;
+  }
+
+  private async createNextVersion(
+    dto: CreateBudgetRuleSetDto,
+    appealId: string | null,
+    scopeKey: string,
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.prisma.budgetRuleSet.findFirst({
+        where: { scopeKey },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      const version = (latest?.version ?? 0) + 1;
+      try {
+        return await this.prisma.budgetRuleSet.create({
+          data: {
+            channelType: dto.channelType,
+            appealId,
+            scopeKey,
+            version,
+            definition: dto.definition as any,
+            note: dto.note || null,
+            createdBy: dto.createdBy || null,
+          },
+        });
+      } catch (error) {
+        if (error?.code !== 'P2002' || attempt >= MAX_VERSION_RETRIES) {
+          throw error;
+        }
+        this.logger.warn(
+          `[V2-Rules] Version ${scopeKey} v${version} was taken by a concurrent save, retrying (${attempt}/${MAX_VERSION_RETRIES})`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 指定版を有効化し、同じスコープの他の版を無効化する
+   * 旧版を指定すればロールバックになる
+   */
+  async activate(id: string) {
+    const target = await this.findOne(id);
+
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.budgetRuleSet.updateMany({
+        where: {
+          channelType: target.channelType,
+          appealId: target.appealId,
+          isActive: true,
+          id: { not: id },
+        },
+        data: { isActive: false },
+      }),
+      this.prisma.budgetRuleSet.update({
+        where: { id },
+        data: { isActive: true, activatedAt: new Date() },
+      }),
+    ]);
+
+    this.logger.log(
+      `[V2-Rules] Activated rule set ${target.channelType}/${target.appealId ?? '*'} v${target.version}`,
+    );
+    return activated;
+  }
+
+  /**
+   * 指定版を無効化する（スコープに有効版がなくなれば既定ルールに戻る）
+   */
+  async deactivate(id: string) {
+    await this.findOne(id);
+    return this.prisma.budgetRuleSet.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+}
+
+/** ルールセットのスコープキー（導線:訴求ID、導線共通は 導線:*） */
+export function ruleSetScopeKey(
+  channelType: ChannelType,
+  appealId: string | null,
+): string {
+  return `${channelType}:${appealId ?? '*'}`;
+}
@@ -0,0 +1,230 @@
+// ============================================================================
+// 予算調整V2 既定ルールセット
+// DBに有効なルールセットがない場合に使用する。types.ts の定数から生成し、
+// ルールエンジン導入前の判定ロジックと同じ結果になるようにしている
+// ============================================================================
+
+import {
+  BUDGET_INCREASE_RATE,
+  BUDGET_DECREASE_RATE,
+  BUDGET_TIER,
+  BUDGET_TIER_MIN_OPTS,
+  LINEAR_INCREASE_CONFIG,
+  WINNING_CR_BUDGET_TIER,
+  usesFrontCPO,
+  type ChannelType,
+} from '../types';
+import type {
+  BudgetRule,
+  BudgetRuleSetDefinition,
+  IncreaseStageDefinition,
+  IndividualReservationStageDefinition,
+  PauseRuleAction,
+} from './rule-types';
+
+function buildIncreaseStage(channelType: ChannelType): IncreaseStageDefinition {
+  const { MID, HIGH } = BUDGET_TIER_MIN_OPTS;
+  const linear = LINEAR_INCREASE_CONFIG[channelType];
+
+  return {
+    rules: [
+      {
+        id: 'target-cpa-unset',
+        when: [{ fact: 'targetCPA', op: 'isNull' }],
+        action: 'CONTINUE',
+        reason: '目標CPA未設定',
+      },
+      {
+        id: 'today-cpa-unavailable',
+        when: [{ fact: 'todayCPA', op: 'isNull' }],
+        action: 'CONTINUE',
+        reason: '当日CPA算出不可（広告費0）',
+      },
+      {
+        id: 'today-cpa-over-target',
+        when: [{ fact: 'todayCPA', op: 'gt', value: { ref: 'targetCPA' } }],
+        action: 'CONTINUE',
+        reason: '当日CPA ¥{todayCPA} > 目標CPA ¥{targetCPA}',
+      },
+      {
+        id: 'tier-low',
+        when: [{ fact: 'currentBudget', op: 'lt', value: BUDGET_TIER.LOW_MAX }],
+        action: 'INCREASE',
+        reason: `日予算¥{currentBudget} < ¥${BUDGET_TIER.LOW_MAX}、CPA¥{todayCPA} ≤ 目標¥{targetCPA}`,
+      },
+      {
+        id: 'tier-mid',
+        when: [
+          { fact: 'currentBudget', op: 'lte', value: BUDGET_TIER.MID_MAX },
+          { fact: 'todayCV', op: 'gte', value: MID },
+        ],
+        action: 'INCREASE',
+        reason: `日予算¥{currentBudget}、オプト{todayCV} ≥ ${MID}`,
+      },
+      {
+        id: 'tier-mid-insufficient-opts',
+        when: [
+          { fact: 'currentBudget', op: 'lte', value: BUDGET_TIER.MID_MAX },
+        ],
+        action: 'CONTINUE',
+        reason: `オプト数不足: 日予算¥{currentBudget}、オプト{todayCV} < ${MID}`,
+      },
+      {
+        id: 'tier-high',
+        when: [{ fact: 'todayCV', op: 'gte', value: HIGH }],
+        action: 'INCREASE',
+        reason: `日予算¥{currentBudget}、オプト{todayCV} ≥ ${HIGH}`,
+      },
+      {
+        id: 'tier-high-insufficient-opts',
+        when: [],
+        action: 'CONTINUE',
+        reason: `オプト数不足: 日予算¥{currentBudget}、オプト{todayCV} < ${HIGH}`,
+      },
+    ],
+    rate: BUDGET_INCREASE_RATE,
+    linearIncrease: linear ? { ...linear } : null,
+    maxDailyBudget: WINNING_CR_BUDGET_TIER.TIER3_MAX,
+  };
+}
+
+/** SNS/AI導線: フロントCPO判定（フロント販売0件ならCPAでフォールバック） */
+const FRONT_CPO_PAUSE_RULES: BudgetRule<PauseRuleAction>[] = [
+  {
+    id: 'front-cpo-over',
+    when: [
+      { fact: 'last7DaysFrontSalesCount', op: 'gte', value: 1 },
+      {
+        fact: 'last7DaysFrontCPO',
+        op: 'gt',
+        value: { ref: 'allowableFrontCPO' },
+      },
+    ],
+    action: 'PAUSE',
+    reason: 'フロントCPO ¥{last7DaysFrontCPO} > 許容値 ¥{allowableFrontCPO}',
+  },
+  {
+    id: 'front-cpo-ok',
+    when: [{ fact: 'last7DaysFrontSalesCount', op: 'gte', value: 1 }],
+    action: 'CONTINUE',
+    reason: 'フロントCPO ¥{last7DaysFrontCPO} ≤ 許容値 ¥{allowableFrontCPO}',
+  },
+  {
+    id: 'no-cv-no-front',
+    when: [{ fact: 'last7DaysCVCount', op: 'eq', value: 0 }],
+    action: 'PAUSE',
+    reason: '過去7日間CV=0、フロント販売=0',
+  },
+  {
+    id: 'no-front-spend-over-front-cpo',
+    when: [
+      {
+        fact: 'last7DaysSpend',
+        op: 'gte',
+        value: { ref: 'allowableFrontCPO' },
+      },
+    ],
+    action: 'PAUSE',
+    reason:
+      'フロント販売0、広告費 ¥{last7DaysSpend} ≥ 許容フロントCPO ¥{allowableFrontCPO}（フロント販売未発生）',
+  },
+  {
+    id: 'no-front-cpa-over',
+    when: [{ fact: 'last7DaysCPA', op: 'gt', value: { ref: 'allowableCPA' } }],
+    action: 'PAUSE',
+    reason:
+      'フロント販売0、CPA ¥{last7DaysCPA} > 許容CPA ¥{allowableCPA}（フォールバック）',
+  },
+  {
+    id: 'no-front-cpa-ok',
+    when: [],
+    action: 'CONTINUE',
+    reason: 'フロント販売0、CPA ¥{last7DaysCPA} ≤ 許容CPA ¥{allowableCPA}',
+  },
+];
+
+/** セミナー導線: CPA判定 */
+const CPA_PAUSE_RULES: BudgetRule<PauseRuleAction>[] = [
+  {
+    id: 'no-cv',
+    when: [{ fact: 'last7DaysCVCount', op: 'eq', value: 0 }],
+    action: 'PAUSE',
+    reason: '過去7日間CV=0',
+  },
+  {
+    id: 'cpa-over',
+    when: [{ fact: 'last7DaysCPA', op: 'gt', value: { ref: 'allowableCPA' } }],
+    action: 'PAUSE',
+    reason: 'CPA ¥{last7DaysCPA} > 許容CPA ¥{allowableCPA}',
+  },
+  {
+    id: 'cpa-ok',
+    when: [],
+    action: 'CONTINUE',
+    reason: 'CPA ¥{last7DaysCPA} ≤ 許容CPA ¥{allowableCPA}',
+  },
+];
+
+const INDIVIDUAL_RESERVATION_STAGE: IndividualReservationStageDefinition = {
+  rules: [
+    {
+      id: 'indres-zero-spend-over',
+      when: [
+        { fact: 'last7DaysIndividualReservationCount', op: 'eq', value: 0 },
+        {
+          fact: 'last7DaysSpend',
+          op: 'gte',
+          value: { ref: 'allowableIndividualReservationCPO' },
+        },
+      ],
+      action: 'PAUSE',
+      reason:
+        '個別予約0件、広告費 ¥{last7DaysSpend} ≥ 許容個別予約CPO ¥{allowableIndividualReservationCPO}',
+    },
+    {
+      id: 'indres-zero',
+      when: [
+        { fact: 'last7DaysIndividualReservationCount', op: 'eq', value: 0 },
+      ],
+      action: 'CONTINUE',
+      reason:
+        '個別予約0件、広告費 ¥{last7DaysSpend} < 許容個別予約CPO ¥{allowableIndividualReservationCPO}（継続）',
+    },
+    {
+      id: 'indres-cpo-over',
+      when: [
+        {
+          fact: 'last7DaysIndividualReservationCPO',
+          op: 'gt',
+          value: { ref: 'allowableIndividualReservationCPO' },
+        },
+      ],
+      action: 'BUDGET_DECREASE_20PCT',
+      reason:
+        '個別予約CPO ¥{last7DaysIndividualReservationCPO} > 許容 ¥{allowableIndividualReservationCPO}（予算20%ダウン）',
+    },
+    {
+      id: 'indres-cpo-ok',
+      when: [],
+      action: 'CONTINUE',
+      reason:
+        '個別予約CPO ¥{last7DaysIndividualReservationCPO} ≤ 許容 ¥{allowableIndividualReservationCPO}（継続）',
+    },
+  ],
+  decreaseRate: BUDGET_DECREASE_RATE,
+};
+
+/** 導線別の既定ルールセットを生成する */
+export function buildDefaultRuleSet(
+  channelType: ChannelType,
+): BudgetRuleSetDefinition {
+  return {
+    increase: buildIncreaseStage(channelType),
+    pause: {
+      rules: usesFrontCPO(channelType)
+        ? FRONT_CPO_PAUSE_RULES
+        : CPA_PAUSE_RULES,
+    },
+    individualReservation: INDIVIDUAL_RESERVATION_STAGE,
+  };
+}
@@ -0,0 +1,284 @@
+import {
+  NO_MATCH_RULE_ID,
+  calculateIncreasedBudget,
+  evaluateCondition,
+  matchRule,
+  renderReason,
+  validateRuleSetDefinition,
+} from './rule-engine';
+import { buildDefaultRuleSet } from './default-rule-set';
+import type { BudgetRule, RuleContext } from './rule-types';
+
+describe('BudgetRuleEngine', () => {
+  describe('evaluateCondition', () => {
+    it('固定値との比較を評価する', () => {
+      const ctx: RuleContext = { todayCV: 3 };
+      expect(
+        evaluateCondition({ fact: 'todayCV', op: 'gte', value: 3 }, ctx),
+      ).toBe(true);
+      expect(
+        evaluateCondition({ fact: 'todayCV', op: 'gt', value: 3 }, ctx),
+      ).toBe(false);
+      expect(
+        evaluateCondition({ fact: 'todayCV', op: 'eq', value: 3 }, ctx),
+      ).toBe(true);
+      expect(
+        evaluateCondition({ fact: 'todayCV', op: 'lt', value: 4 }, ctx),
+      ).toBe(true);
+      expect(
+        evaluateCondition({ fact: 'todayCV', op: 'lte', value: 2 }, ctx),
+      ).toBe(false);
+    });
+
+    it('KPI参照との比較を評価する', () => {
+      const ctx: RuleContext = { todayCPA: 5000, targetCPA: 4000 };
+      expect(
+        evaluateCondition(
+          { fact: 'todayCPA', op: 'gt', value: { ref: 'targetCPA' } },
+          ctx,
+        ),
+      ).toBe(true);
+    });
+
+    it('左辺・右辺がnullの比較は不一致になる', () => {
+      expect(
+        evaluateCondition(
+          { fact: 'todayCPA', op: 'gt', value: { ref: 'targetCPA' } },
+          { todayCPA: null, targetCPA: 4000 },
+        ),
+      ).toBe(false);
+      expect(
+        evaluateCondition(
+          { fact: 'last7DaysCPA', op: 'gt', value: { ref: 'allowableCPA' } },
+          { last7DaysCPA: 5000 },
+        ),
+      ).toBe(false);
+    });
+
+    it('isNull / notNull は未設定値を判定できる', () => {
+      expect(evaluateCondition({ fact: 'targetCPA', op: 'isNull' }, {})).toBe(
+        true,
+      );
+      expect(
+        evaluateCondition(
+          { fact: 'targetCPA', op: 'notNull' },
+          { targetCPA: 1 },
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('renderReason', () => {
+    it('テンプレートを実値（整数）で置換し、未取得は - にする', () => {
+      expect(
+        renderReason('CPA ¥{last7DaysCPA} > 許容CPA ¥{allowableCPA}', {
+          last7DaysCPA: 5432.6,
+          allowableCPA: null,
+        }),
+      ).toBe('CPA ¥5433 > 許容CPA ¥-');
+    });
+
+    it('未知のプレースホルダはそのまま残す', () => {
+      expect(renderReason('{unknown}', {})).toBe('{unknown}');
+    });
+  });
+
+  describe('matchRule', () => {
+    const rules: BudgetRule<'PAUSE' | 'CONTINUE'>[] = [
+      {
+        id: 'first',
+        when: [{ fact: 'last7DaysCVCount', op: 'eq', value: 0 }],
+        action: 'PAUSE',
+        reason: 'CV=0',
+      },
+      {
+        id: 'second',
+        when: [{ fact: 'last7DaysCVCount', op: 'gte', value: 0 }],
+        action: 'CONTINUE',
+        reason: 'CV={last7DaysCVCount}',
+      },
+    ];
+
+    it('上から評価して最初に一致したルールを採用する', () => {
+      const result = matchRule(rules, { last7DaysCVCount: 0 }, 'CONTINUE');
+      expect(result).toEqual({
+        ruleId: 'first',
+        action: 'PAUSE',
+        reason: 'CV=0',
+      });
+    });
+
+    it('どれにも一致しなければフォールバックを返す', () => {
+      const result = matchRule(rules, {}, 'CONTINUE');
+      expect(result.ruleId).toBe(NO_MATCH_RULE_ID);
+      expect(result.action).toBe('CONTINUE');
+    });
+  });
+
+  describe('calculateIncreasedBudget', () => {
+    const stage = buildDefaultRuleSet('SNS').increase;
+
+    it('閾値未満は倍率で増額する', () => {
+      expect(calculateIncreasedBudget(stage, 10_000)).toEqual({
+        newBudget: 13_000,
+        note: null,
+      });
+    });
+
+    it('閾値以上は固定額で増額する', () => {
+      const result = calculateIncreasedBudget(stage, 50_000);
+      expect(result.newBudget).toBe(60_000);
+      expect(result.note).toContain('+¥10000');
+    });
+  });
+
+  describe('validateRuleSetDefinition', () => {
+    it('既定ルールセットは全導線で有効', () => {
+      for (const ch of ['SNS', 'AI', 'SEMINAR'] as const) {
+        expect(validateRuleSetDefinition(buildDefaultRuleSet(ch))).toEqual([]);
+      }
+    });
+
+    it('不正な定義のエラーを列挙する', () => {
+      const def = buildDefaultRuleSet('SEMINAR');
+      const invalid = {
+        ...def,
+        increase: {
+          ...def.increase,
+          rate: 0,
+          rules: [
+            {
+              id: 'a',
+              when: [{ fact: 'foo', op: 'gt', value: 1 }],
+              action: 'PAUSE',
+              reason: '',
+            },
+            {
+              id: 'a',
+              when: [{ fact: 'todayCV', op: 'gt' }],
+              action: 'INCREASE',
+              reason: '',
+            },
+          ],
+        },
+        individualReservation: {
+          ...def.individualReservation,
+          decreaseRate: 1.2,
+        },
+      };
+
+      const errors = validateRuleSetDefinition(invalid);
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          'increase.rules[0].action must be one of INCREASE, CONTINUE',
+          'increase.rules[0].when[0].fact "foo" is unknown',
+          'increase.rules[1].id "a" is duplicated',
+          'increase.rate must be a positive number',
+          'individualReservation.decreaseRate must be between 0 and 1',
+        ]),
+      );
+      expect(
+        errors.some((e) => e.startsWith('increase.rules[1].when[0].value')),
+      ).toBe(true);
+    });
+
+    it('オブジェクト以外は拒否する', () => {
+      expect(validateRuleSetDefinition(null)).toEqual([
+        'definition must be an object',
+      ]);
+    });
+  });
+
+  describe('既定ルールセット（従来ロジックとの互換）', () => {
+    const increase = (ctx: RuleContext) =>
+      matchRule(buildDefaultRuleSet('AI').increase.rules, ctx, 'CONTINUE');
+
+    it('目標CPA未設定・当日CPA超過は増額しない', () => {
+      expect(
+        increase({ currentBudget: 5000, todayCPA: 1000, todayCV: 1 }).ruleId,
+      ).toBe('target-cpa-unset');
+      expect(
+        increase({
+          currentBudget: 5000,
+          todayCPA: 5000,
+          todayCV: 1,
+          targetCPA: 4000,
+        }).ruleId,
+      ).toBe('today-cpa-over-target');
+    });
+
+    it('予算帯ごとの最低オプト数で増額可否が決まる', () => {
+      const base = { todayCPA: 3000, targetCPA: 4000 };
+      expect(
+        increase({ ...base, currentBudget: 7_999, todayCV: 1 }).action,
+      ).toBe('INCREASE');
+      expect(
+        increase({ ...base, currentBudget: 20_000, todayCV: 1 }).ruleId,
+      ).toBe('tier-mid-insufficient-opts');
+      expect(
+        increase({ ...base, currentBudget: 20_000, todayCV: 2 }).action,
+      ).toBe('INCREASE');
+      const high = increase({ ...base, currentBudget: 30_000, todayCV: 2 });
+      expect(high.action).toBe('CONTINUE');
+      expect(high.reason).toBe('オプト数不足: 日予算¥30000、オプト2 < 3');
+    });
+
+    it('SNS/AI導線はフロントCPO、フロント販売0ならCPAで停止判定する', () => {
+      const pause = (ctx: RuleContext) =>
+        matchRule(buildDefaultRuleSet('SNS').pause.rules, ctx, 'CONTINUE');
+      const kpi = { allowableCPA: 5000, allowableFrontCPO: 50_000 };
+
+      expect(
+        pause({
+          ...kpi,
+          last7DaysFrontSalesCount: 1,
+          last7DaysFrontCPO: 60_000,
+        }).action,
+      ).toBe('PAUSE');
+      expect(
+        pause({
+          ...kpi,
+          last7DaysFrontSalesCount: 0,
+          last7DaysCVCount: 0,
+          last7DaysSpend: 100,
+        }).ruleId,
+      ).toBe('no-cv-no-front');
+      expect(
+        pause({
+          ...kpi,
+          last7DaysFrontSalesCount: 0,
+          last7DaysCVCount: 5,
+          last7DaysSpend: 20_000,
+          last7DaysCPA: 4000,
+        }).action,
+      ).toBe('CONTINUE');
+    });
+
+    it('セミナー導線はCPAで停止判定する', () => {
+      const rules = buildDefaultRuleSet('SEMINAR').pause.rules;
+      expect(
+        matchRule(
+          rules,
+          { last7DaysCVCount: 3, last7DaysCPA: 6000, allowableCPA: 5000 },
+          'CONTINUE',
+        ).ruleId,
+      ).toBe('cpa-over');
+    });
+
+    it('個別予約CPO超過は予算減額になる', () => {
+      const stage = buildDefaultRuleSet('SEMINAR').individualReservation;
+      const result = matchRule(
+        stage.rules,
+        {
+          last7DaysSpend: 100_000,
+          last7DaysIndividualReservationCount: 2,
+          last7DaysIndividualReservationCPO: 50_000,
+          allowableIndividualReservationCPO: 40_000,
+        },
+        'CONTINUE',
+      );
+      expect(result.action).toBe('BUDGET_DECREASE_20PCT');
+      expect(stage.decreaseRate).toBe(0.8);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+// ============================================================================
+// 予算調整V2 判定ルールエンジン
+// 宣言的ルールを上から評価し、最初に一致したアクションを返す（純粋関数のみ）
+// ============================================================================
+
+import { TIKTOK_BUDGET_LIMITS } from '../types';
+import {
+  RULE_FACT_NAMES,
+  RULE_THRESHOLD_NAMES,
+  type BudgetRule,
+  type BudgetRuleSetDefinition,
+  type IncreaseStageDefinition,
+  type IndividualReservationStageDefinition,
+  type AppealKpi,
+  type PauseMetrics,
+  type RuleCondition,
+  type RuleContext,
+  type RuleMatch,
+  type RuleOperand,
+} from './rule-types';
+
+/** どのルールにも一致しなかった場合のルールID */
+export const NO_MATCH_RULE_ID = 'no-match';
+
+/** 右辺を解決する。KPI参照が未設定ならnull */
+function resolveOperand(
+  operand: RuleOperand | undefined,
+  ctx: RuleContext,
+): number | null {
+  if (operand === undefined) return null;
+  if (typeof operand === 'number') return operand;
+  const value = ctx[operand.ref];
+  return value === undefined || value === null ? null : value;
+}
+
+/**
+ * 条件を1件評価する
+ * 比較演算は左辺・右辺どちらかがnull（未取得 or KPI未設定）なら不一致とする
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  ctx: RuleContext,
+): boolean {
+  const raw = ctx[condition.fact];
+  const left = raw === undefined ? null : raw;
+
+  if (condition.op === 'isNull') return left === null;
+  if (condition.op === 'notNull') return left !== null;
+
+  const right = resolveOperand(condition.value, ctx);
+  if (left === null || right === null) return false;
+
+  switch (condition.op) {
+    case 'lt':
+      return left < right;
+    case 'lte':
+      return left <= right;
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'eq':
+      return left === right;
+    default:
+      return false;
+  }
+}
+
+/** reasonテンプレートの {name} を実値で置換する */
+export function renderReason(template: string, ctx: RuleContext): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(name in ctx)) return match;
+    const value = ctx[name as keyof RuleContext];
+    return value === null || value === undefined ? '-' : value.toFixed(0);
+  });
+}
+
+/** 停止判定・個別予約CPO判定のルール評価に渡す値を組み立てる */
+export function buildPauseRuleContext(
+  currentBudget: number,
+  metrics: PauseMetrics,
+  kpi: AppealKpi,
+): RuleContext {
+  return {
+    currentBudget,
+    last7DaysSpend: metrics.last7DaysSpend,
+    last7DaysImpressions: metrics.last7DaysImpressions,
+    last7DaysCVCount: metrics.last7DaysCVCount,
+    last7DaysCPA: metrics.last7DaysCPA,
+    last7DaysFrontSalesCount: metrics.last7DaysFrontSalesCount,
+    last7DaysFrontCPO: metrics.last7DaysFrontCPO,
+    last7DaysIndividualReservationCount:
+      metrics.last7DaysIndividualReservationCount,
+    last7DaysIndividualReservationCPO:
+      metrics.last7DaysIndividualReservationCPO,
+    targetCPA: kpi.targetCPA,
+    allowableCPA: kpi.allowableCPA,
+    targetFrontCPO: kpi.targetFrontCPO,
+    allowableFrontCPO: kpi.allowableFrontCPO,
+    allowableIndividualReservationCPO: kpi.allowableIndividualReservationCPO,
+  };
+}
+
+/** ルールを上から評価し、最初に一致したルールの結果を返す */
+export function matchRule<A extends string>(
+  rules: BudgetRule<A>[],
+  ctx: RuleContext,
+  fallbackAction: A,
+): RuleMatch<A> {
+  for (const rule of rules) {
+    if (rule.when.every((c) => evaluateCondition(c, ctx))) {
+      return {
+        ruleId: rule.id,
+        action: rule.action,
+        reason: renderReason(rule.reason, ctx),
+      };
+    }
+  }
+  return {
+    ruleId: NO_MATCH_RULE_ID,
+    action: fallbackAction,
+    reason: '該当ルールなし',
+  };
+}
+
+/**
+ * 増額後の予算を算出する（AdBudgetCap・TikTok上限は呼び出し側で適用）
+ * @returns newBudget と理由に付記する補足
+ */
+export function calculateIncreasedBudget(
+  stage: IncreaseStageDefinition,
+  currentBudget: number,
+): { newBudget: number; note: string | null } {
+  const linear = stage.linearIncrease;
+  if (linear && currentBudget >= linear.threshold) {
+    return {
+      newBudget: currentBudget + linear.amount,
+      note: `¥${currentBudget.toFixed(0)} ≥ ¥${linear.threshold} → +¥${linear.amount}`,
+    };
+  }
+  return { newBudget: Math.round(currentBudget * stage.rate), note: null };
+}
+
+/**
+ * 増額後の予算に上限を適用する（AdBudgetCap → グローバル上限 → TikTok API制限）
+ * @returns newBudget が null なら上限到達済みで増額不可（note が理由）
+ */
+export function applyIncreaseLimits(
+  currentBudget: number,
+  newBudget: number,
+  limits: { budgetCap: number | null; maxDailyBudget: number },
+): { newBudget: number | null; note: string } {
+  let budget = newBudget;
+  let note = '';
+
+  const { budgetCap, maxDailyBudget } = limits;
+  if (budgetCap !== null && budget > budgetCap) {
+    if (currentBudget >= budgetCap) {
+      return { newBudget: null, note: `AdBudgetCap ¥${budgetCap} に到達済み` };
+    }
+    budget = budgetCap;
+    note += ` → AdBudgetCap ¥${budgetCap} で制限`;
+  }
+
+  if (budget > maxDailyBudget) {
+    if (currentBudget >= maxDailyBudget) {
+      return {
+        newBudget: null,
+        note: `グローバル日予算上限 ¥${maxDailyBudget} に到達済み`,
+      };
+    }
+    budget = maxDailyBudget;
+    note += ` → グローバル上限 ¥${maxDailyBudget} で制限`;
+  }
+
+  return {
+    newBudget: Math.max(
+      TIKTOK_BUDGET_LIMITS.MIN,
+      Math.min(TIKTOK_BUDGET_LIMITS.MAX, budget),
+    ),
+    note,
+  };
+}
+
+/** 個別予約CPO超過時の減額後予算 */
+export function calculateDecreasedBudget(
+  stage: IndividualReservationStageDefinition,
+  currentBudget: number,
+): number {
+  return Math.max(
+    TIKTOK_BUDGET_LIMITS.MIN,
+    Math.floor(currentBudget * stage.decreaseRate),
+  );
+}
+
+// ----------------------------------------------------------------------------
+// バリデーション
+// ----------------------------------------------------------------------------
+
+const OPERATORS = ['lt', 'lte', 'gt', 'gte', 'eq', 'isNull', 'notNull'];
+
+const STAGE_ACTIONS: Record<keyof BudgetRuleSetDefinition, string[]> = {
+  increase: ['INCREASE', 'CONTINUE'],
+  pause: ['PAUSE', 'CONTINUE'],
+  individualReservation: ['PAUSE', 'CONTINUE', 'BUDGET_DECREASE_20PCT'],
+};
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * ルールセット定義を検証する（API経由の登録時に使用）
+ * @returns エラーメッセージ一覧（空なら有効）
+ */
+export function validateRuleSetDefinition(definition: any): string[] {
+  const errors: string[] = [];
+  if (!definition || typeof definition !== 'object') {
+    return ['definition must be an object'];
+  }
+
+  for (const stageName of Object.keys(STAGE_ACTIONS) as Array<
+    keyof BudgetRuleSetDefinition
+  >) {
+    const stage = definition[stageName];
+    if (!stage || !Array.isArray(stage.rules)) {
+      errors.push(`${stageName}.rules must be an array`);
+      continue;
+    }
+
+    const ids = new Set<string>();
+    stage.rules.forEach((rule: any, i: number) => {
+      const path = `${stageName}.rules[${i}]`;
+      if (!rule?.id || typeof rule.id !== 'string') {
+        errors.push(`${path}.id is required`);
+      } else if (ids.has(rule.id)) {
+        errors.push(`${path}.id "${rule.id}" is duplicated`);
+      } else {
+        ids.add(rule.id);
+      }
+      if (!STAGE_ACTIONS[stageName].includes(rule?.action)) {
+        errors.push(
+          `${path}.action must be one of ${STAGE_ACTIONS[stageName].join(', ')}`,
+        );
+      }
+      if (typeof rule?.reason !== 'string') {
+        errors.push(`${path}.reason must be a string`);
+      }
+      if (!Array.isArray(rule?.when)) {
+        errors.push(`${path}.when must be an array`);
+        return;
+      }
+      rule.when.forEach((cond: any, j: number) => {
+        const condPath = `${path}.when[${j}]`;
+        if (
+          !RULE_FACT_NAMES.includes(cond?.fact) &&
+          !RULE_THRESHOLD_NAMES.includes(cond?.fact)
+        ) {
+          errors.push(`${condPath}.fact "${cond?.fact}" is unknown`);
+        }
+        if (!OPERATORS.includes(cond?.op)) {
+          errors.push(`${condPath}.op "${cond?.op}" is unknown`);
+          return;
+        }
+        if (cond.op === 'isNull' || cond.op === 'notNull') return;
+        const value = cond.value;
+        const validValue =
+          (typeof value === 'number' && isFinite(value)) ||
+          (value &&
+            typeof value === 'object' &&
+            RULE_THRESHOLD_NAMES.includes(value.ref));
+        if (!validValue) {
+          errors.push(
+            `${condPath}.value must be a number or { ref: ${RULE_THRESHOLD_NAMES.join(' | ')} }`,
+          );
+        }
+      });
+    });
+  }
+
+  const increase = definition.increase;
+  if (increase) {
+    if (!isPositiveNumber(increase.rate)) {
+      errors.push('increase.rate must be a positive number');
+    }
+    if (!isPositiveNumber(increase.maxDailyBudget)) {
+      errors.push('increase.maxDailyBudget must be a positive number');
+    }
+    if (
+      increase.linearIncrease !== null &&
+      (!isPositiveNumber(increase.linearIncrease?.threshold) ||
+        !isPositiveNumber(increase.linearIncrease?.amount))
+    ) {
+      errors.push(
+        'increase.linearIncrease must be null or { threshold, amount } (positive numbers)',
+      );
+    }
+  }
+
+  const indRes = definition.individualReservation;
+  if (
+    indRes &&
+    !(isPositiveNumber(indRes.decreaseRate) && indRes.decreaseRate < 1)
+  ) {
+    errors.push('individualReservation.decreaseRate must be between 0 and 1');
+  }
+
+  return errors;
+}
@@ -0,0 +1,155 @@
+// ============================================================================
+// 予算調整V2 判定ルールセット - 型定義
+// 増額・停止の閾値をDBで管理し、再デプロイなしで変更できるようにする
+// ============================================================================
+
+import type { ChannelType } from '../types';
+
+// ----------------------------------------------------------------------------
+// 判定に使う値
+// ----------------------------------------------------------------------------
+
+/** 広告ごとの実績値（条件の左辺） */
+export const RULE_FACT_NAMES = [
+  'currentBudget',
+  'todayCPA',
+  'todayCV',
+  'todaySpend',
+  'last7DaysSpend',
+  'last7DaysImpressions',
+  'last7DaysCVCount',
+  'last7DaysCPA',
+  'last7DaysFrontSalesCount',
+  'last7DaysFrontCPO',
+  'last7DaysIndividualReservationCount',
+  'last7DaysIndividualReservationCPO',
+] as const;
+
+export type RuleFactName = (typeof RULE_FACT_NAMES)[number];
+
+/** Appealの KPI 値（条件の右辺として参照可能） */
+export const RULE_THRESHOLD_NAMES = [
+  'targetCPA',
+  'allowableCPA',
+  'targetFrontCPO',
+  'allowableFrontCPO',
+  'allowableIndividualReservationCPO',
+] as const;
+
+export type RuleThresholdName = (typeof RULE_THRESHOLD_NAMES)[number];
+
+/** 判定時に渡す値一式（未取得の値は null / undefined） */
+export type RuleContext = Partial<
+  Record<RuleFactName | RuleThresholdName, number | null>
+>;
+
+/** AppealのKPI設定（未設定は null） */
+export type AppealKpi = Partial<Record<RuleThresholdName, number | null>>;
+
+/** 停止判定・個別予約CPO判定に使う過去7日間の実績 */
+export interface PauseMetrics {
+  last7DaysSpend: number;
+  last7DaysImpressions: number;
+  last7DaysCVCount: number;
+  last7DaysFrontSalesCount: number;
+  last7DaysCPA: number | null;
+  last7DaysFrontCPO: number | null;
+  last7DaysIndividualReservationCount: number;
+  last7DaysIndividualReservationCPO: number | null;
+}
+
+// ----------------------------------------------------------------------------
+// 条件・ルール
+// ----------------------------------------------------------------------------
+
+export type RuleOperator =
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte'
+  | 'eq'
+  | 'isNull'
+  | 'notNull';
+
+/** 右辺: 固定値 or AppealのKPI参照 */
+export type RuleOperand = number | { ref: RuleThresholdName };
+
+export interface RuleCondition {
+  /** KPI値自体の未設定チェック（isNull）にも使えるよう閾値名も指定可能 */
+  fact: RuleFactName | RuleThresholdName;
+  op: RuleOperator;
+  /** isNull / notNull 以外は必須 */
+  value?: RuleOperand;
+}
+
+/**
+ * 1ルール = 全条件AND。ルールは上から順に評価し、最初に一致したものを採用する。
+ * reason の {factName} / {thresholdName} は実値（円単位で丸め）に置換される。
+ */
+export interface BudgetRule<A extends string> {
+  id: string;
+  when: RuleCondition[];
+  action: A;
+  reason: string;
+}
+
+export type IncreaseRuleAction = 'INCREASE' | 'CONTINUE';
+export type PauseRuleAction = 'PAUSE' | 'CONTINUE';
+export type IndividualReservationRuleAction =
+  | 'PAUSE'
+  | 'CONTINUE'
+  | 'BUDGET_DECREASE_20PCT';
+
+// ----------------------------------------------------------------------------
+// ステージ定義
+// ----------------------------------------------------------------------------
+
+/** 増額判定（当日CPA・オプト数） */
+export interface IncreaseStageDefinition {
+  rules: BudgetRule<IncreaseRuleAction>[];
+  /** 増額倍率 */
+  rate: number;
+  /** 予算がthreshold以上なら倍率ではなく+amountで増額（null = 常に倍率） */
+  linearIncrease: { threshold: number; amount: number } | null;
+  /** 日予算のグローバル上限（円） */
+  maxDailyBudget: number;
+}
+
+/** 停止判定（過去7日CPA・フロントCPO） */
+export interface PauseStageDefinition {
+  rules: BudgetRule<PauseRuleAction>[];
+}
+
+/** 個別予約CPO判定（停止判定がCONTINUEの場合のみ実行） */
+export interface IndividualReservationStageDefinition {
+  rules: BudgetRule<IndividualReservationRuleAction>[];
+  /** BUDGET_DECREASE_20PCT 時に現予算へ掛ける倍率 */
+  decreaseRate: number;
+}
+
+export interface BudgetRuleSetDefinition {
+  increase: IncreaseStageDefinition;
+  pause: PauseStageDefinition;
+  individualReservation: IndividualReservationStageDefinition;
+}
+
+// ----------------------------------------------------------------------------
+// 解決済みルールセット
+// ----------------------------------------------------------------------------
+
+export interface ResolvedBudgetRuleSet {
+  /** DB = budget_rule_sets の有効版, DEFAULT = types.ts の定数から生成した既定値 */
+  source: 'DB' | 'DEFAULT';
+  id: string | null;
+  version: number | null;
+  channelType: ChannelType;
+  appealId: string | null;
+  definition: BudgetRuleSetDefinition;
+}
+
+/** ルール評価結果 */
+export interface RuleMatch<A extends string> {
+  ruleId: string;
+  action: A;
+  reason: string;
+}
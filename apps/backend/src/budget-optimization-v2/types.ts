@@ -2,6 +2,11 @@
 // 予算調整V2 型定義・定数
 // ============================================================================
 
+import type { ChannelType } from '../channel-registry/domain/channel';
+import type { AutomationSkip } from '../automation-control/domain/automation-control';
+
+export type { ChannelType };
+
 /** 増額倍率 */
 export const BUDGET_INCREASE_RATE = 1.3;
 
@@ -77,62 +82,66 @@ export const V1_BUDGET_MAX = 40_000;
 /** V1日次判定モードのクールダウン日数 */
 export const V1_COOLDOWN_DAYS = 3;
 
-/** チャネル別デフォルト日予算（円） */
-export const DEFAULT_DAILY_BUDGET: Record<ChannelType, number> = {
-  AI: 3_000,
-  SEMINAR: 5_000,
-  SNS: 3_000,
-} as const;
-
-/** 日次レポート書き出し先スプレッドシートID */
-export const DAILY_REPORT_SPREADSHEET_ID =
-  '17PWEALugoIY2aKtjpITuyEAwJRz7o03q5iLeR5_5FwM';
-
-/** 日次レポートシート名 */
-export const DAILY_REPORT_SHEET_NAME = 'シート1';
-
-/** 個別予約スプレッドシートID（全導線共通） */
-export const INDIVIDUAL_RESERVATION_SPREADSHEET_ID =
-  '1MsJRbZGrLOkgd7lRApr1ciFQ1GOZaIjmrXQSIe3_nCA';
-
-/** 個別予約 導線別タブ・列設定 */
-export const INDIVIDUAL_RESERVATION_CONFIG = {
-  SEMINAR: {
-    sheetName: 'スキルプラス（オートウェビナー用）',
-    dateColumnIndex: 0, // A列
-    pathColumnIndex: 34, // AI列
-  },
-  AI: {
-    sheetName: 'AI',
-    dateColumnIndex: 0, // A列
-    pathColumnIndex: 46, // AU列
-  },
-  SNS: {
-    sheetName: 'SNS',
-    dateColumnIndex: 0, // A列
-    pathColumnIndex: 46, // AU列
-  },
-} as const;
-
 // ----------------------------------------------------------------------------
-// 導線タイプ
+// 導線タイプ（導線タイプ・デフォルト日予算は ChannelRegistryService、シート設定は DataSourceService で解決）
 // ----------------------------------------------------------------------------
 
-export type ChannelType = 'SNS' | 'AI' | 'SEMINAR';
-
-/** Appeal名から導線タイプを判定 */
-export function detectChannelType(appealName: string): ChannelType {
-  const upper = appealName.toUpperCase();
-  if (upper.includes('SNS')) return 'SNS';
-  if (upper.includes('AI')) return 'AI';
-  return 'SEMINAR';
-}
-
 /** フロントCPOで判定する導線か */
 export function usesFrontCPO(channelType: ChannelType): boolean {
   return channelType === 'SNS' || channelType === 'AI';
 }
 
+/** CV・フロント販売シートの登録経路（LP単位） */
+export function buildRegistrationPath(
+  lpName: string,
+  appealName: string,
+): string {
+  return `TikTok広告-${appealName}-${lpName}`;
+}
+
+/** 個別予約シートの登録経路（LP × CR単位） */
+export function buildIndividualReservationPath(
+  lpName: string,
+  creativeName: string,
+  appealName: string,
+): string {
+  return `TikTok広告-${appealName}-${lpName}-${creativeName}`;
+}
+
+/**
+ * 出稿日が直近7日以内かどうかを判定
+ * @param adDateStr 広告名の日付部分 (YYMMDD形式, e.g., "260204")
+ * @param todayStr 今日の日付 (YYYY-MM-DD形式, e.g., "2026-02-26")
+ * @returns 出稿日が今日から7日以内ならtrue
+ */
+export function isWithin7DaysOfPublish(
+  adDateStr: string,
+  todayStr: string,
+): boolean {
+  try {
+    if (!adDateStr || adDateStr.length < 6) return false;
+    const year = 2000 + parseInt(adDateStr.slice(0, 2), 10);
+    const month = parseInt(adDateStr.slice(2, 4), 10);
+    const day = parseInt(adDateStr.slice(4, 6), 10);
+    if (isNaN(year) || isNaN(month) || isNaN(day)) return false;
+
+    const publishDate = new Date(Date.UTC(year, month - 1, day));
+    const today = new Date(
+      Date.UTC(
+        parseInt(todayStr.slice(0, 4), 10),
+        parseInt(todayStr.slice(5, 7), 10) - 1,
+        parseInt(todayStr.slice(8, 10), 10),
+      ),
+    );
+
+    const diffMs = today.getTime() - publishDate.getTime();
+    const diffDays = diffMs / (1000 * 60 * 60 * 24);
+    return diffDays >= 0 && diffDays < 7;
+  } catch {
+    return false;
+  }
+}
+
 // ----------------------------------------------------------------------------
 // Smart+広告情報
 // ----------------------------------------------------------------------------
@@ -198,6 +207,8 @@ export interface BudgetIncreaseDecision {
   todayCPA: number | null;
   todayCV: number;
   todaySpend: number;
+  /** 判定に一致したルールID（ルールセット由来） */
+  ruleId?: string;
 }
 
 // ----------------------------------------------------------------------------
@@ -225,6 +236,8 @@ export interface PauseDecision {
   last7DaysIndividualReservationCount: number;
   last7DaysIndividualReservationCPO: number | null;
   newBudgetAfterDecrease?: number;
+  /** 判定に一致したルールID（ルールセット由来） */
+  ruleId?: string;
 }
 
 // ----------------------------------------------------------------------------
@@ -245,6 +258,8 @@ export interface HourlyExecutionResult {
     skipped: number;
     budgetDecreased: number;
   };
+  /** 自動化の一時停止で実行を見送った場合 */
+  automationSkip?: AutomationSkip;
 }
 
 // ----------------------------------------------------------------------------
@@ -277,4 +292,6 @@ export interface BudgetResetResult {
     skippedAlreadyDefault: number;
     errors: number;
   };
+  /** 自動化の一時停止で実行を見送った場合 */
+  automationSkip?: AutomationSkip;
 }
@@ -5,6 +5,8 @@ import {
 } from './campaign-builder.service';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
 /**
  * フロントエンドから受け取るデータ形式
@@ -14,7 +16,7 @@ interface FrontendCampaignInput {
   campaignName: string;
   pattern: 'NON_TARGETING' | 'LOOKALIKE';
   adTexts: string[];
-  adNames?: string[]; // 広告名（オプション）
+  adNames?: string[]; // 広告名（広告文と同じ数）
   landingPageUrl: string;
   lpName: string;
   creativeIds: string[];
@@ -23,6 +25,7 @@ interface FrontendCampaignInput {
   accessToken?: string;
 }
 
+@RequirePermissions(PERMISSIONS.CAMPAIGN_WRITE)
 @Controller('api/campaign-builder')
 export class CampaignBuilderController {
   private readonly logger = new Logger(CampaignBuilderController.name);
@@ -73,9 +76,8 @@ export class CampaignBuilderController {
         // 各広告文とCreativeを組み合わせて広告を作成
         const creativeId =
           frontendInput.creativeIds[index % frontendInput.creativeIds.length];
-        const adName =
-          frontendInput.adNames?.[index] ||
-          `${frontendInput.lpName}_${index + 1}`;
+        // 広告名は必須（YYMMDD/制作者名/CR名/LP{n}-CR{5桁}。サービス側で検証）
+        const adName = frontendInput.adNames?.[index] ?? '';
 
         return {
           adName,
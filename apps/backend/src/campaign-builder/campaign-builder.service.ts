@@ -1,7 +1,8 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { ConfigService } from '@nestjs/config';
+import { adNameErrors } from '../ad-naming/domain/ad-name';
 
 export interface CampaignBuilderInput {
   // 共通項目
@@ -43,6 +44,16 @@ export class CampaignBuilderService {
   async buildCampaign(input: CampaignBuilderInput, accessToken: string) {
     this.logger.log(`Building campaign: ${input.campaignName}`);
 
+    // 命名規則に合わない広告は自動化の対象外になるため、作成前に弾く
+    const nameErrors = input.ads.flatMap((ad, index) =>
+      adNameErrors(ad.adName).map((error) => `ads[${index}]: ${error}`),
+    );
+    if (nameErrors.length > 0) {
+      throw new BadRequestException(
+        'Invalid campaign: ' + nameErrors.join('; '),
+      );
+    }
+
     try {
       // 1. Advertiserの訴求を取得
       const advertiser = await this.prisma.advertiser.findUnique({
@@ -0,0 +1,132 @@
+// ============================================================================
+// ChannelRegistryController - 導線・訴求・アカウント区分の管理API
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ChannelRegistryService,
+  type UpdateAdvertiserProfileDto,
+  type UpdateAppealChannelDto,
+} from './channel-registry.service';
+import { isChannelType } from './domain/channel';
+import {
+  AdvertiserScope,
+  CurrentPrincipal,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { canAccessAdvertiser } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.APPEAL_READ)
+@Controller('api/channel-registry')
+export class ChannelRegistryController {
+  private readonly logger = new Logger(ChannelRegistryController.name);
+
+  constructor(private readonly service: ChannelRegistryService) {}
+
+  /**
+   * 訴求ごとの導線設定（未設定項目は既定値で補った値）
+   * GET /api/channel-registry/appeals
+   */
+  @Get('appeals')
+  async listAppeals() {
+    return this.handle('List appeals', async () => this.service.listAppeals());
+  }
+
+  /**
+   * 訴求の導線タイプ・デフォルト日予算を更新
+   * PATCH /api/channel-registry/appeals/:id
+   */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
+  @Patch('appeals/:id')
+  async updateAppeal(
+    @Param('id') id: string,
+    @Body() body: UpdateAppealChannelDto,
+  ) {
+    return this.handle('Update appeal', async () =>
+      this.service.updateAppeal(id, body),
+    );
+  }
+
+  /**
+   * channelType 未設定の訴求に訴求名から推定した導線タイプを保存
+   * POST /api/channel-registry/appeals/backfill-channel-types
+   */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
+  @Post('appeals/backfill-channel-types')
+  async backfillChannelTypes() {
+    return this.handle('Backfill channel types', async () =>
+      this.service.backfillChannelTypes(),
+    );
+  }
+
+  /**
+   * 広告アカウント一覧（導線・略称付き）
+   * GET /api/channel-registry/advertisers?channelType=AI
+   */
+  @RequirePermissions(PERMISSIONS.ADVERTISER_READ)
+  @Get('advertisers')
+  async listAdvertisers(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('channelType') channelType?: string,
+  ) {
+    if (channelType !== undefined && !isChannelType(channelType)) {
+      throw new HttpException(
+        {
+          success: false,
+          error: 'channelType must be one of SNS, AI, SEMINAR',
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return this.handle('List advertisers', async () => {
+      const advertisers = await this.service.listAdvertisers(
+        channelType ? [channelType] : undefined,
+      );
+      return advertisers.filter((advertiser) =>
+        canAccessAdvertiser(principal, advertiser.id),
+      );
+    });
+  }
+
+  /**
+   * 広告アカウントの略称・訴求（グルーピング）を更新
+   * PATCH /api/channel-registry/advertisers/:id
+   */
+  @RequirePermissions(PERMISSIONS.ADVERTISER_WRITE)
+  @AdvertiserScope('id')
+  @Patch('advertisers/:id')
+  async updateAdvertiser(
+    @Param('id') id: string,
+    @Body() body: UpdateAdvertiserProfileDto,
+  ) {
+    return this.handle('Update advertiser', async () =>
+      this.service.updateAdvertiser(id, body),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[CHANNEL] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
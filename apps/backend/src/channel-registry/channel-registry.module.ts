@@ -0,0 +1,15 @@
+// ============================================================================
+// ChannelRegistryModule - 導線・訴求レジストリ（グローバル）
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { ChannelRegistryService } from './channel-registry.service';
+import { ChannelRegistryController } from './channel-registry.controller';
+
+@Global()
+@Module({
+  controllers: [ChannelRegistryController],
+  providers: [ChannelRegistryService],
+  exports: [ChannelRegistryService],
+})
+export class ChannelRegistryModule {}
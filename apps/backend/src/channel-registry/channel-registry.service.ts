@@ -0,0 +1,220 @@
+// ============================================================================
+// ChannelRegistryService - 導線・訴求・広告アカウント情報の解決
+// 導線タイプ・デフォルト日予算・アカウント区分はここから取得する
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { Advertiser, Appeal } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  inferChannelTypeFromAppealName,
+  isChannelType,
+  resolveAppealProfile,
+} from './domain/channel';
+import type {
+  AdvertiserProfile,
+  AppealChannelRecord,
+  AppealProfile,
+  ChannelType,
+} from './domain/channel';
+
+export interface UpdateAppealChannelDto {
+  channelType?: string;
+  defaultDailyBudget?: number | null;
+}
+
+export interface UpdateAdvertiserProfileDto {
+  shortName?: string | null;
+  appealId?: string | null;
+}
+
+@Injectable()
+export class ChannelRegistryService {
+  private readonly logger = new Logger(ChannelRegistryService.name);
+  private readonly warnedInferredAppeals = new Set<string>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ============================================================================
+  // 解決
+  // ============================================================================
+
+  /** 読み込み済みのAppealから導線情報を解決 */
+  resolveAppeal(appeal: AppealChannelRecord): AppealProfile {
+    const profile = resolveAppealProfile(appeal);
+    if (
+      profile.channelTypeSource === 'INFERRED' &&
+      !this.warnedInferredAppeals.has(appeal.id)
+    ) {
+      this.warnedInferredAppeals.add(appeal.id);
+      this.logger.warn(
+        `[CHANNEL] Appeal "${appeal.name}" has no channelType; inferred ${profile.channelType} from name`,
+      );
+    }
+    return profile;
+  }
+
+  async findAppealProfile(appealId: string): Promise<AppealProfile | null> {
+    const appeal = await this.prisma.appeal.findUnique({
+      where: { id: appealId },
+    });
+    return appeal ? this.resolveAppeal(appeal) : null;
+  }
+
+  async listAppeals(): Promise<AppealProfile[]> {
+    const appeals = await this.prisma.appeal.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return appeals.map((appeal) => this.resolveAppeal(appeal));
+  }
+
+  /** TikTok advertiser_id からアカウント情報を取得 */
+  async findAdvertiser(
+    tiktokAdvertiserId: string,
+  ): Promise<AdvertiserProfile | null> {
+    const advertiser = await this.prisma.advertiser.findUnique({
+      where: { tiktokAdvertiserId },
+      include: { appeal: true },
+    });
+    return advertiser ? this.toAdvertiserProfile(advertiser) : null;
+  }
+
+  /**
+   * 広告アカウント一覧
+   * @param channelTypes 指定時はその導線の訴求に紐づくアカウントのみ
+   */
+  async listAdvertisers(
+    channelTypes?: ChannelType[],
+  ): Promise<AdvertiserProfile[]> {
+    const advertisers = await this.prisma.advertiser.findMany({
+      include: { appeal: true },
+      orderBy: { name: 'asc' },
+    });
+    return advertisers
+      .map((advertiser) => this.toAdvertiserProfile(advertiser))
+      .filter(
+        (profile) =>
+          !channelTypes ||
+          (profile.appeal !== null &&
+            channelTypes.includes(profile.appeal.channelType)),
+      );
+  }
+
+  // ============================================================================
+  // 更新（管理画面）
+  // ============================================================================
+
+  async updateAppeal(
+    appealId: string,
+    dto: UpdateAppealChannelDto,
+  ): Promise<AppealProfile> {
+    if (dto.channelType !== undefined && !isChannelType(dto.channelType)) {
+      throw new BadRequestException(
+        `channelType must be one of SNS, AI, SEMINAR`,
+      );
+    }
+    if (dto.defaultDailyBudget != null && dto.defaultDailyBudget <= 0) {
+      throw new BadRequestException('defaultDailyBudget must be positive');
+    }
+
+    await this.requireAppeal(appealId);
+    const appeal = await this.prisma.appeal.update({
+      where: { id: appealId },
+      data: {
+        channelType: dto.channelType,
+        defaultDailyBudget: dto.defaultDailyBudget,
+      },
+    });
+    this.logger.log(`[CHANNEL] Updated appeal ${appeal.name}`);
+    return this.resolveAppeal(appeal);
+  }
+
+  async updateAdvertiser(
+    advertiserId: string,
+    dto: UpdateAdvertiserProfileDto,
+  ): Promise<AdvertiserProfile> {
+    const existing = await this.prisma.advertiser.findUnique({
+      where: { id: advertiserId },
+    });
+    if (!existing) {
+      throw new NotFoundException(
+        `Advertiser with ID ${advertiserId} not found`,
+      );
+    }
+    if (dto.appealId) {
+      await this.requireAppeal(dto.appealId);
+    }
+
+    const advertiser = await this.prisma.advertiser.update({
+      where: { id: advertiserId },
+      data: {
+        shortName: dto.shortName === undefined ? undefined : dto.shortName,
+        appealId: dto.appealId,
+      },
+      include: { appeal: true },
+    });
+    return this.toAdvertiserProfile(advertiser);
+  }
+
+  /**
+   * channelType 未設定の訴求に、訴求名から推定した導線タイプを保存する
+   * @returns 更新した訴求数
+   */
+  async backfillChannelTypes(): Promise<
+    { appealId: string; appealName: string; channelType: ChannelType }[]
+  > {
+    const appeals = await this.prisma.appeal.findMany({
+      where: { channelType: null },
+    });
+    const updated: {
+      appealId: string;
+      appealName: string;
+      channelType: ChannelType;
+    }[] = [];
+
+    for (const appeal of appeals) {
+      const channelType = inferChannelTypeFromAppealName(appeal.name);
+      await this.prisma.appeal.update({
+        where: { id: appeal.id },
+        data: { channelType },
+      });
+      updated.push({
+        appealId: appeal.id,
+        appealName: appeal.name,
+        channelType,
+      });
+    }
+
+    this.logger.log(
+      `[CHANNEL] Backfilled channelType for ${updated.length} appeals`,
+    );
+    return updated;
+  }
+
+  private async requireAppeal(appealId: string): Promise<void> {
+    const appeal = await this.prisma.appeal.findUnique({
+      where: { id: appealId },
+      select: { id: true },
+    });
+    if (!appeal) {
+      throw new NotFoundException(`Appeal with ID ${appealId} not found`);
+    }
+  }
+
+  private toAdvertiserProfile(
+    advertiser: Advertiser & { appeal: Appeal | null },
+  ): AdvertiserProfile {
+    return {
+      id: advertiser.id,
+      tiktokAdvertiserId: advertiser.tiktokAdvertiserId,
+      name: advertiser.name,
+      label: advertiser.shortName ?? advertiser.name,
+      appeal: advertiser.appeal ? this.resolveAppeal(advertiser.appeal) : null,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  channelTypeFromFunnelName,
+  inferChannelTypeFromAppealName,
+  resolveAppealProfile,
+  toFunnelName,
+  toSimulationChannel,
+  type AppealChannelRecord,
+} from './channel';
+
+const appeal: AppealChannelRecord = {
+  id: 'appeal-1',
+  name: 'AI',
+  channelType: null,
+  defaultDailyBudget: null,
+};
+
+describe('ChannelRegistry', () => {
+  it('channelType未設定なら訴求名から推定し、既定値で補う', () => {
+    const profile = resolveAppealProfile(appeal);
+    expect(profile.channelType).toBe('AI');
+    expect(profile.channelTypeSource).toBe('INFERRED');
+    expect(profile.defaultDailyBudget).toBe(3000);
+  });
+
+  it('Appealの設定を訴求名より優先する', () => {
+    const profile = resolveAppealProfile({
+      ...appeal,
+      name: 'AI活用セミナー',
+      channelType: 'SEMINAR',
+      defaultDailyBudget: 8000,
+    });
+    expect(profile.channelType).toBe('SEMINAR');
+    expect(profile.channelTypeSource).toBe('EXPLICIT');
+    expect(profile.defaultDailyBudget).toBe(8000);
+  });
+
+  it('不正なchannelTypeは未設定として扱う', () => {
+    const profile = resolveAppealProfile({ ...appeal, channelType: 'TV' });
+    expect(profile.channelTypeSource).toBe('INFERRED');
+  });
+
+  it('訴求名からの推定（SNS > AI > SEMINAR）', () => {
+    expect(inferChannelTypeFromAppealName('sns AI')).toBe('SNS');
+    expect(inferChannelTypeFromAppealName('Ai')).toBe('AI');
+    expect(inferChannelTypeFromAppealName('スキルプラス')).toBe('SEMINAR');
+  });
+
+  it('導線名・利益シミュレーション区分への変換', () => {
+    expect(toFunnelName('SEMINAR')).toBe('スキルプラス');
+    expect(channelTypeFromFunnelName('スキルプラス')).toBe('SEMINAR');
+    expect(channelTypeFromFunnelName('不明')).toBeNull();
+    expect(toSimulationChannel('SEMINAR')).toBe('SKILL_PLUS');
+    expect(toSimulationChannel('SNS')).toBe('SNS');
+  });
+});
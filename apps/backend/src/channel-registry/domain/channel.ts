@@ -0,0 +1,116 @@
+// ============================================================================
+// 導線・訴求レジストリ - 型定義・解決ロジック（純粋関数）
+// 導線タイプ・デフォルト日予算は Appeal の設定を優先し、
+// 未設定項目は導線別の既定値で補う（シート設定は data-source レジストリ）
+// ============================================================================
+
+export type ChannelType = 'SNS' | 'AI' | 'SEMINAR';
+
+export const CHANNEL_TYPES: ChannelType[] = ['SNS', 'AI', 'SEMINAR'];
+
+/** 利益シミュレーションの導線区分（SEMINAR = スキルプラス） */
+export type SimulationChannel = 'AI' | 'SNS' | 'SKILL_PLUS';
+
+/** Appealのうち導線解決に使う列 */
+export interface AppealChannelRecord {
+  id: string;
+  name: string;
+  channelType: string | null;
+  defaultDailyBudget: number | null;
+}
+
+export interface AppealProfile {
+  appealId: string;
+  appealName: string;
+  channelType: ChannelType;
+  /** EXPLICIT: Appealに設定済み / INFERRED: 訴求名から推定（移行前） */
+  channelTypeSource: 'EXPLICIT' | 'INFERRED';
+  defaultDailyBudget: number;
+}
+
+export interface AdvertiserProfile {
+  /** Advertiser.id */
+  id: string;
+  tiktokAdvertiserId: string;
+  name: string;
+  /** 略称（未設定なら name） */
+  label: string;
+  appeal: AppealProfile | null;
+}
+
+// ----------------------------------------------------------------------------
+// 導線別の既定値
+// ----------------------------------------------------------------------------
+
+export const DEFAULT_DAILY_BUDGET_BY_CHANNEL: Record<ChannelType, number> = {
+  AI: 3_000,
+  SEMINAR: 5_000,
+  SNS: 3_000,
+};
+
+/** UTAGE・広告文で使う導線名 */
+const FUNNEL_NAMES: Record<ChannelType, string> = {
+  AI: 'AI',
+  SNS: 'SNS',
+  SEMINAR: 'スキルプラス',
+};
+
+const SIMULATION_CHANNELS: Record<ChannelType, SimulationChannel> = {
+  AI: 'AI',
+  SNS: 'SNS',
+  SEMINAR: 'SKILL_PLUS',
+};
+
+// ----------------------------------------------------------------------------
+// 解決
+// ----------------------------------------------------------------------------
+
+export function isChannelType(value: unknown): value is ChannelType {
+  return CHANNEL_TYPES.includes(value as ChannelType);
+}
+
+/**
+ * 訴求名から導線タイプを推定（channelType 未設定の Appeal の移行用）
+ */
+export function inferChannelTypeFromAppealName(
+  appealName: string,
+): ChannelType {
+  const upper = appealName.toUpperCase();
+  if (upper.includes('SNS')) return 'SNS';
+  if (upper.includes('AI')) return 'AI';
+  return 'SEMINAR';
+}
+
+export function resolveAppealProfile(
+  appeal: AppealChannelRecord,
+): AppealProfile {
+  const explicit = isChannelType(appeal.channelType);
+  const channelType = explicit
+    ? (appeal.channelType as ChannelType)
+    : inferChannelTypeFromAppealName(appeal.name);
+
+  return {
+    appealId: appeal.id,
+    appealName: appeal.name,
+    channelType,
+    channelTypeSource: explicit ? 'EXPLICIT' : 'INFERRED',
+    defaultDailyBudget:
+      appeal.defaultDailyBudget ?? DEFAULT_DAILY_BUDGET_BY_CHANNEL[channelType],
+  };
+}
+
+export function toFunnelName(channelType: ChannelType): string {
+  return FUNNEL_NAMES[channelType];
+}
+
+export function channelTypeFromFunnelName(
+  funnelName: string,
+): ChannelType | null {
+  return CHANNEL_TYPES.find((ch) => FUNNEL_NAMES[ch] === funnelName) ?? null;
+}
+
+export function toSimulationChannel(
+  channelType: ChannelType,
+): SimulationChannel {
+  return SIMULATION_CHANNELS[channelType];
+}
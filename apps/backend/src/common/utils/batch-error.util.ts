@@ -250,63 +250,3 @@ export class BatchExecutionTracker {
     };
   }
 }
-
-/**
- * バッチジョブのロック機能（S-01対応）
- * 同時実行を防止
- */
-export class BatchJobLock {
-  private locks: Map<string, { startTime: Date; timeout: number }> = new Map();
-
-  /**
-   * ロックを取得
-   * @returns ロック取得成功かどうか
-   */
-  acquire(jobName: string, timeoutMs: number = 600000): boolean {
-    const existing = this.locks.get(jobName);
-
-    if (existing) {
-      // タイムアウトをチェック
-      const elapsed = Date.now() - existing.startTime.getTime();
-      if (elapsed < existing.timeout) {
-        return false; // まだロック中
-      }
-      // タイムアウトしている場合は強制解除
-    }
-
-    this.locks.set(jobName, {
-      startTime: new Date(),
-      timeout: timeoutMs,
-    });
-
-    return true;
-  }
-
-  /**
-   * ロックを解放
-   */
-  release(jobName: string): void {
-    this.locks.delete(jobName);
-  }
-
-  /**
-   * ロック状態を確認
-   */
-  isLocked(jobName: string): boolean {
-    const existing = this.locks.get(jobName);
-    if (!existing) return false;
-
-    const elapsed = Date.now() - existing.startTime.getTime();
-    return elapsed < existing.timeout;
-  }
-
-  /**
-   * ロック開始時刻を取得
-   */
-  getLockStartTime(jobName: string): Date | undefined {
-    return this.locks.get(jobName)?.startTime;
-  }
-}
-
-// シングルトンのジョブロック
-export const batchJobLock = new BatchJobLock();
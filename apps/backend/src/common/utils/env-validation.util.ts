@@ -30,6 +30,9 @@ const REQUIRED_ENV_VARS = [
   // Database
   'DATABASE_URL',
 
+  // OAuthトークンの暗号化（TokenVaultService）
+  'ENCRYPTION_KEY',
+
   // Google Sheets (オプショナルだが警告を出す)
   // 'GOOGLE_SERVICE_ACCOUNT_CREDENTIALS',
 ];
@@ -69,6 +72,15 @@ const ENV_FORMAT_VALIDATORS: {
     }
     return { valid: true };
   },
+  ENCRYPTION_KEY: (value) => {
+    if (value.length < 32) {
+      return {
+        valid: false,
+        reason: 'ENCRYPTION_KEYは32文字以上である必要があります',
+      };
+    }
+    return { valid: true };
+  },
   GOOGLE_SERVICE_ACCOUNT_CREDENTIALS: (value) => {
     try {
       const parsed = JSON.parse(value);
@@ -5,3 +5,4 @@ export * from './optimization-error.util';
 export * from './database-error.util';
 export * from './batch-error.util';
 export * from './env-validation.util';
+export * from './sheet-date.util';
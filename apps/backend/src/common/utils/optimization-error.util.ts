@@ -1,4 +1,5 @@
 import { Logger } from '@nestjs/common';
+import { parseAdName } from '../../ad-naming/domain/ad-name';
 
 /**
  * 予算最適化エラータイプ
@@ -208,7 +209,7 @@ export function validateAppealSettings(appeal: any): {
 
 /**
  * 広告名の形式検証（O-01対応）
- * 形式: 出稿日/制作者名/CR名/LP名-番号
+ * 形式: 出稿日/制作者名/CR名/LP名-番号（読み取りは ad-naming の parseAdName）
  */
 export function validateAdNameFormat(adName: string): {
   isValid: boolean;
@@ -233,10 +234,10 @@ export function validateAdNameFormat(adName: string): {
     };
   }
 
-  const parts = adName.split('/');
+  const parsed = parseAdName(adName);
 
   // 最低4パート必要（出稿日/制作者名/CR名/LP名）
-  if (parts.length < 4) {
+  if (!parsed) {
     return {
       isValid: false,
       warning: {
@@ -245,7 +246,7 @@ export function validateAdNameFormat(adName: string): {
         message: `[O-01] 広告名パース失敗: 形式が不正です（/区切りが4未満）: ${adName}`,
         isRetryable: false,
         entityName: adName,
-        details: { actualParts: parts.length, requiredParts: 4 },
+        details: { actualParts: adName.split('/').length, requiredParts: 4 },
       },
     };
   }
@@ -253,10 +254,10 @@ export function validateAdNameFormat(adName: string): {
   return {
     isValid: true,
     parsed: {
-      date: parts[0],
-      creator: parts[1],
-      creativeName: parts.slice(2, parts.length - 1).join('/'),
-      lpName: parts[parts.length - 1],
+      date: parsed.launchDate,
+      creator: parsed.creator,
+      creativeName: parsed.crName,
+      lpName: parsed.lpName,
     },
   };
 }
@@ -0,0 +1,117 @@
+// ============================================================================
+// ConversionLedgerController - CV台帳（同期状態・日別件数・手動同期）API
+// ============================================================================
+
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ConversionLedgerService } from './conversion-ledger.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import {
+  CurrentPrincipal,
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { canAccessAdvertiser } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.APPEAL_READ)
+@Controller('api/conversion-ledger')
+export class ConversionLedgerController {
+  private readonly logger = new Logger(ConversionLedgerController.name);
+
+  constructor(
+    private readonly ledger: ConversionLedgerService,
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  /**
+   * シートごとの同期状態
+   * GET /api/conversion-ledger/sheets
+   */
+  @RequireAllAdvertisers()
+  @Get('sheets')
+  async sheets() {
+    return this.handle('List sheets', async () => this.ledger.listSheets());
+  }
+
+  /**
+   * 登録経路の日別件数（source=webhook で Webhook で受け取った分）
+   * GET /api/conversion-ledger/counts?kind=CV&registrationPath=TikTok広告-SNS-LP1-CR00572&from=2026-02-01&to=2026-02-28
+   */
+  @RequireAllAdvertisers()
+  @Get('counts')
+  async counts(
+    @Query('kind') kind?: string,
+    @Query('registrationPath') registrationPath?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('source') source?: string,
+  ) {
+    return this.handle('Get counts', async () =>
+      this.ledger.dailyCounts({ kind, registrationPath, from, to, source }),
+    );
+  }
+
+  /**
+   * 広告に紐付いた種別ごとの日別件数
+   * GET /api/conversion-ledger/ads/:tiktokAdId/daily?from=2026-02-01&to=2026-02-28
+   */
+  @Get('ads/:tiktokAdId/daily')
+  async adDaily(
+    @Param('tiktokAdId') tiktokAdId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.handle('Get ad counts', async () => {
+      const result = await this.ledger.adDailyCounts(tiktokAdId, {
+        from,
+        to,
+      });
+      if (!canAccessAdvertiser(principal, result.advertiserId)) {
+        throw new ForbiddenException(
+          `No access to advertiser: ${result.advertiserId}`,
+        );
+      }
+      return result;
+    });
+  }
+
+  /**
+   * シートを今すぐ取り込む
+   * POST /api/conversion-ledger/sync
+   */
+  @RequirePermissions(PERMISSIONS.JOBS_RUN)
+  @RequireAllAdvertisers()
+  @Post('sync')
+  async sync() {
+    return this.handle('Sync', async () =>
+      this.jobQueue.run('conversion-ledger-sync', () => this.ledger.syncAll(), {
+        trigger: 'API',
+      }),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[CV-LEDGER] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,16 @@
+// ============================================================================
+// ConversionLedgerModule - CV・フロント販売・個別予約の台帳
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { GoogleSheetsModule } from '../google-sheets/google-sheets.module';
+import { ConversionLedgerService } from './conversion-ledger.service';
+import { ConversionLedgerController } from './conversion-ledger.controller';
+
+@Module({
+  imports: [GoogleSheetsModule],
+  controllers: [ConversionLedgerController],
+  providers: [ConversionLedgerService],
+  exports: [ConversionLedgerService],
+})
+export class ConversionLedgerModule {}
@@ -0,0 +1,831 @@
+// ============================================================================
+// ConversionLedgerService - CV・フロント販売・個別予約の台帳（conversion_events）
+// シートの行を定期的に取り込み、予算調整・日中CPAチェックの件数はDBで数える。
+// 同期が古い・失敗したシートは従来どおり GoogleSheetsService でシートから数える
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import type { ConversionSheetSync, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GoogleSheetsService } from '../google-sheets/google-sheets.service';
+import { DataSourceService } from '../data-source/data-source.service';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import { validateSpreadsheetUrl } from '../common/utils';
+import type { ChannelType } from '../channel-registry/domain/channel';
+import {
+  validateSheetLayout,
+  type DataSourceDefinition,
+  type IndividualReservationSheet,
+  type LayoutIssue,
+} from '../data-source/domain/data-source';
+import {
+  CONVERSION_KINDS,
+  LEDGER_SOURCES,
+  PUSHED_SPREADSHEET_ID,
+  REGISTRATION_SHEET_NAMES,
+  diffLedger,
+  extractLedgerRows,
+  isSyncFresh,
+  maxDailyCount,
+  parseRegistrationPath,
+  toJstDate,
+  type ConversionKind,
+  type LedgerRow,
+  type LedgerSource,
+} from './domain/conversion-ledger';
+
+export interface SheetSyncResult {
+  kind: ConversionKind;
+  spreadsheetId: string;
+  sheetName: string;
+  status: 'OK' | 'FAILED';
+  rowCount: number;
+  inserted: number;
+  deleted: number;
+  error: string | null;
+}
+
+export interface ConversionLedgerSyncResult {
+  sheets: SheetSyncResult[];
+  /** 既存の未紐付け行のうち、今回広告に紐付けた件数 */
+  relinked: number;
+}
+
+export interface DailyConversionCount {
+  date: string;
+  count: number;
+}
+
+/** Webhook で受け取った1件 */
+export interface PushedConversion {
+  kind: ConversionKind;
+  /** 送信元（utage / tiktok） */
+  source: string;
+  eventId: string;
+  registrationPath: string;
+  occurredAt: Date;
+  /** 広告が分かっていれば指定する（なければ次回の同期で LP-CR から紐付ける） */
+  adId?: string | null;
+}
+
+/** 同期対象のシート */
+interface SyncTarget {
+  kind: ConversionKind;
+  spreadsheetId: string;
+  definition: DataSourceDefinition;
+}
+
+/** 台帳の件数を使う同期の鮮度（分）の既定値。同期は10分毎 */
+const DEFAULT_MAX_AGE_MINUTES = 20;
+
+/** 未紐付けの行を広告に紐付け直す対象期間（日） */
+const RELINK_LOOKBACK_DAYS = 30;
+
+const INSERT_CHUNK_SIZE = 500;
+
+@Injectable()
+export class ConversionLedgerService implements OnModuleInit {
+  private readonly logger = new Logger(ConversionLedgerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly googleSheetsService: GoogleSheetsService,
+    private readonly dataSourceService: DataSourceService,
+    private readonly channelRegistry: ChannelRegistryService,
+    private readonly configService: ConfigService,
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.register('conversion-ledger-sync', () => this.syncAll());
+  }
+
+  /**
+   * 10分毎（日本時間）にシートを取り込む
+   */
+  @Cron('*/10 * * * *', {
+    name: 'conversion-ledger-sync',
+    timeZone: 'Asia/Tokyo',
+  })
+  async scheduleSync() {
+    const outcome = await this.jobQueue.run('conversion-ledger-sync', () =>
+      this.syncAll(),
+    );
+    if (outcome.status === 'SKIPPED') {
+      this.logger.warn('[CV-LEDGER] Previous sync job is still running');
+    }
+  }
+
+  // ============================================================================
+  // 同期
+  // ============================================================================
+
+  /**
+   * 全訴求のCV・フロント販売・個別予約シートを取り込む
+   * 同じシートを複数の訴求が参照していても1回だけ読む。
+   * 失敗したシートがあれば、他のシートを取り込んだ後にエラーにする（ジョブを FAILED にする）
+   */
+  async syncAll(now: Date = new Date()): Promise<ConversionLedgerSyncResult> {
+    const targets = await this.collectTargets();
+    const adLookup = await this.loadAdLookup();
+    const sheets: SheetSyncResult[] = [];
+
+    for (const target of targets) {
+      sheets.push(await this.syncSheet(target, adLookup, now));
+    }
+    const relinked = await this.relinkUnlinked(adLookup, now);
+
+    const failed = sheets.filter((s) => s.status === 'FAILED');
+    this.logger.log(
+      `[CV-LEDGER] Synced ${sheets.length - failed.length}/${sheets.length} sheets: inserted=${sumOf(sheets, 'inserted')} deleted=${sumOf(sheets, 'deleted')} relinked=${relinked}`,
+    );
+    if (failed.length > 0) {
+      throw new Error(
+        `Failed to sync ${failed.length} sheet(s): ${failed.map((s) => `${s.kind} ${s.sheetName} (${s.error})`).join('; ')}`,
+      );
+    }
+    return { sheets, relinked };
+  }
+
+  /** シートの同期状態 */
+  async listSheets(): Promise<ConversionSheetSync[]> {
+    return this.prisma.conversionSheetSync.findMany({
+      orderBy: [{ kind: 'asc' }, { sheetName: 'asc' }],
+    });
+  }
+
+  /** @param onlyChannel 指定時はその導線の訴求が参照するシートのみ */
+  private async collectTargets(
+    onlyChannel?: ChannelType,
+  ): Promise<SyncTarget[]> {
+    const appeals = await this.prisma.appeal.findMany({
+      orderBy: { name: 'asc' },
+    });
+    const targets = new Map<string, SyncTarget>();
+
+    for (const appeal of appeals) {
+      const { channelType } = this.channelRegistry.resolveAppeal(appeal);
+      if (onlyChannel && channelType !== onlyChannel) continue;
+      const sheets = await this.dataSourceService.resolveAppealSheets(
+        appeal,
+        channelType,
+      );
+      for (const { definition, spreadsheetId } of sheets) {
+        if (!spreadsheetId) continue;
+        const kind = definition.kind as ConversionKind;
+        const key = `${kind}:${spreadsheetId}:${definition.sheetName}`;
+        if (!targets.has(key)) {
+          targets.set(key, { kind, spreadsheetId, definition });
+        }
+      }
+    }
+    return [...targets.values()];
+  }
+
+  private async syncSheet(
+    target: SyncTarget,
+    adLookup: AdLookup,
+    now: Date,
+  ): Promise<SheetSyncResult> {
+    const { kind, spreadsheetId, definition } = target;
+    const sheetName = definition.sheetName;
+    const where = { kind, spreadsheetId, sheetName };
+    let issues: LayoutIssue[] = [];
+
+    try {
+      const values = await this.googleSheetsService.getValues(
+        spreadsheetId,
+        `'${sheetName}'`,
+      );
+      const layout = validateSheetLayout(values, definition);
+      issues = layout.issues;
+      const dateColumn = layout.columns.date;
+      const pathColumn = layout.columns.registrationPath;
+      if (dateColumn === undefined || pathColumn === undefined) {
+        throw new Error(
+          `登録日時・登録経路の列を特定できません: ${issues.map((i) => i.message).join('; ')}`,
+        );
+      }
+
+      const rows = extractLedgerRows(values, {
+        headerRowIndex: definition.headerRowIndex,
+        dateColumn,
+        pathColumn,
+        splitLines: kind === 'INDIVIDUAL_RESERVATION',
+      });
+      const existing = await this.prisma.conversionEvent.findMany({
+        where,
+        select: { rowHash: true },
+      });
+      const { toInsert, toDelete } = diffLedger(
+        existing.map((e) => e.rowHash),
+        rows,
+      );
+
+      if (toDelete.length > 0) {
+        await this.prisma.conversionEvent.deleteMany({
+          where: { ...where, rowHash: { in: toDelete } },
+        });
+      }
+      for (let i = 0; i < toInsert.length; i += INSERT_CHUNK_SIZE) {
+        await this.prisma.conversionEvent.createMany({
+          data: toInsert
+            .slice(i, i + INSERT_CHUNK_SIZE)
+            .map((row) => this.toEvent(target, row, adLookup)),
+          skipDuplicates: true,
+        });
+      }
+
+      const result: SheetSyncResult = {
+        ...where,
+        status: 'OK',
+        rowCount: rows.length,
+        inserted: toInsert.length,
+        deleted: toDelete.length,
+        error: null,
+      };
+      await this.saveSyncState(result, issues, now);
+      return result;
+    } catch (error) {
+      this.logger.warn(
+        `[CV-LEDGER] Failed to sync ${kind} ${sheetName} (${spreadsheetId}): ${error.message}`,
+      );
+      const result: SheetSyncResult = {
+        ...where,
+        status: 'FAILED',
+        rowCount: 0,
+        inserted: 0,
+        deleted: 0,
+        error: error.message,
+      };
+      await this.saveSyncState(result, issues, now);
+      return result;
+    }
+  }
+
+  private toEvent(
+    target: SyncTarget,
+    row: LedgerRow,
+    adLookup: AdLookup,
+  ): Prisma.ConversionEventCreateManyInput {
+    return {
+      kind: target.kind,
+      spreadsheetId: target.spreadsheetId,
+      sheetName: target.definition.sheetName,
+      rowHash: row.rowHash,
+      registrationPath: row.registrationPath,
+      lpCr: row.lpCr,
+      adId: adLookup.resolve(row.registrationPath),
+      occurredAt: row.occurredAt,
+      jstDate: row.jstDate,
+    };
+  }
+
+  private async saveSyncState(
+    result: SheetSyncResult,
+    issues: LayoutIssue[],
+    now: Date,
+  ): Promise<void> {
+    const where = {
+      kind: result.kind,
+      spreadsheetId: result.spreadsheetId,
+      sheetName: result.sheetName,
+    };
+    const ok = result.status === 'OK';
+    const data = {
+      status: result.status,
+      error: result.error,
+      issues: issues as unknown as Prisma.InputJsonValue,
+      lastAttemptAt: now,
+      // 失敗時は前回成功時の件数・同期日時を残す
+      ...(ok
+        ? {
+            rowCount: result.rowCount,
+            inserted: result.inserted,
+            deleted: result.deleted,
+            lastSyncedAt: now,
+          }
+        : {}),
+    };
+
+    const existing = await this.prisma.conversionSheetSync.findFirst({
+      where,
+    });
+    if (existing) {
+      await this.prisma.conversionSheetSync.update({
+        where: { id: existing.id },
+        data,
+      });
+    } else {
+      await this.prisma.conversionSheetSync.create({
+        data: { ...where, ...data },
+      });
+    }
+  }
+
+  // ============================================================================
+  // Webhook
+  // ============================================================================
+
+  /**
+   * Webhook で受け取った登録・リードを台帳に追加する
+   * 送信元・イベントIDで一意のため、再送・再処理では追加しない
+   * @returns 追加した場合は true
+   */
+  async recordPushed(event: PushedConversion): Promise<boolean> {
+    const registrationPath = event.registrationPath.trim();
+    try {
+      await this.prisma.conversionEvent.create({
+        data: {
+          kind: event.kind,
+          spreadsheetId: PUSHED_SPREADSHEET_ID,
+          sheetName: event.source,
+          rowHash: event.eventId,
+          registrationPath,
+          lpCr: parseRegistrationPath(registrationPath)?.lpCr ?? null,
+          adId: event.adId ?? null,
+          occurredAt: event.occurredAt,
+          jstDate: toJstDate(event.occurredAt),
+        },
+      });
+      return true;
+    } catch (error) {
+      if (error?.code === 'P2002') return false;
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // 広告への紐付け
+  // ============================================================================
+
+  /**
+   * 広告名の LP-CR（最後の「/」以降）と広告アカウントの訴求名から広告を引く
+   * 同じ訴求・LP-CR の広告が複数ある場合は特定できないため紐付けない
+   */
+  private async loadAdLookup(): Promise<AdLookup> {
+    const ads = await this.prisma.ad.findMany({
+      select: {
+        id: true,
+        name: true,
+        adGroup: {
+          select: {
+            campaign: {
+              select: {
+                advertiser: { select: { appeal: { select: { name: true } } } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const candidates = new Map<string, Set<string>>();
+    for (const ad of ads) {
+      const appealName = ad.adGroup?.campaign?.advertiser?.appeal?.name;
+      const lpCr = ad.name.split('/').pop()?.trim();
+      if (!appealName || !lpCr) continue;
+      const key = `${appealName}:${lpCr}`;
+      const ids = candidates.get(key) ?? new Set<string>();
+      ids.add(ad.id);
+      candidates.set(key, ids);
+    }
+
+    return {
+      resolve: (registrationPath) => {
+        const parsed = parseRegistrationPath(registrationPath);
+        if (!parsed) return null;
+        const ids = candidates.get(`${parsed.appealName}:${parsed.lpCr}`);
+        return ids && ids.size === 1 ? [...ids][0] : null;
+      },
+    };
+  }
+
+  /** 取り込み後に作成された広告へ、直近の未紐付け行を紐付ける */
+  private async relinkUnlinked(adLookup: AdLookup, now: Date): Promise<number> {
+    const since = new Date(
+      now.getTime() - RELINK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const unlinked = await this.prisma.conversionEvent.findMany({
+      where: { adId: null, lpCr: { not: null }, occurredAt: { gte: since } },
+      select: { registrationPath: true },
+      distinct: ['registrationPath'],
+    });
+
+    let relinked = 0;
+    for (const { registrationPath } of unlinked) {
+      const adId = adLookup.resolve(registrationPath);
+      if (!adId) continue;
+      const updated = await this.prisma.conversionEvent.updateMany({
+        where: { adId: null, registrationPath, occurredAt: { gte: since } },
+        data: { adId },
+      });
+      relinked += updated.count;
+    }
+    return relinked;
+  }
+
+  // ============================================================================
+  // 件数（GoogleSheetsService と同じ引数。台帳が古ければシートから数える）
+  // ============================================================================
+
+  /** CV数（TT_オプト） */
+  async getCVCount(
+    appealName: string,
+    cvSpreadsheetUrl: string,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const count = await this.countFromLedger(
+      'CV',
+      spreadsheetIdOf(cvSpreadsheetUrl),
+      REGISTRATION_SHEET_NAMES.CV,
+      registrationPath,
+      startDate,
+      endDate,
+    );
+    return (
+      count ??
+      this.googleSheetsService.getCVCount(
+        appealName,
+        cvSpreadsheetUrl,
+        registrationPath,
+        startDate,
+        endDate,
+      )
+    );
+  }
+
+  /** フロント販売本数（TT【OTO】 + TT【3day】） */
+  async getFrontSalesCount(
+    appealName: string,
+    frontSpreadsheetUrl: string,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const count = await this.countFromLedger(
+      'FRONT_SALES',
+      spreadsheetIdOf(frontSpreadsheetUrl),
+      REGISTRATION_SHEET_NAMES.FRONT_SALES,
+      registrationPath,
+      startDate,
+      endDate,
+    );
+    return (
+      count ??
+      this.googleSheetsService.getFrontSalesCount(
+        appealName,
+        frontSpreadsheetUrl,
+        registrationPath,
+        startDate,
+        endDate,
+      )
+    );
+  }
+
+  /** 個別予約数 */
+  async getIndividualReservationCount(
+    sheet: IndividualReservationSheet,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const count = await this.countFromLedger(
+      'INDIVIDUAL_RESERVATION',
+      sheet.spreadsheetId,
+      [sheet.sheetName],
+      registrationPath,
+      startDate,
+      endDate,
+    );
+    return (
+      count ??
+      this.googleSheetsService.getIndividualReservationCount(
+        sheet,
+        registrationPath,
+        startDate,
+        endDate,
+      )
+    );
+  }
+
+  /** 期間内で1日あたりの最大CV数 */
+  async getMaxDailyCVCount(
+    cvSpreadsheetUrl: string,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const spreadsheetId = spreadsheetIdOf(cvSpreadsheetUrl);
+    const sheetNames = REGISTRATION_SHEET_NAMES.CV;
+    try {
+      if (await this.isLedgerFresh('CV', spreadsheetId, sheetNames)) {
+        const events = await this.prisma.conversionEvent.findMany({
+          where: {
+            kind: 'CV',
+            spreadsheetId: spreadsheetId!,
+            sheetName: { in: sheetNames },
+            registrationPath,
+            occurredAt: { gte: startDate, lte: endDate },
+          },
+          select: { jstDate: true },
+        });
+        return maxDailyCount(events.map((e) => e.jstDate));
+      }
+    } catch (error) {
+      this.logger.warn(
+        `[CV-LEDGER] Ledger query failed, reading sheet instead: ${error.message}`,
+      );
+    }
+    return this.googleSheetsService.getMaxDailyCVCount(
+      cvSpreadsheetUrl,
+      registrationPath,
+      startDate,
+      endDate,
+    );
+  }
+
+  /**
+   * 台帳の件数（台帳を使えなければ null）
+   * 対象タブがすべて同期済み・成功・鮮度内の場合だけ台帳を使う
+   */
+  private async countFromLedger(
+    kind: ConversionKind,
+    spreadsheetId: string | null,
+    sheetNames: string[],
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number | null> {
+    try {
+      if (!(await this.isLedgerFresh(kind, spreadsheetId, sheetNames))) {
+        return null;
+      }
+      return await this.prisma.conversionEvent.count({
+        where: {
+          kind,
+          spreadsheetId: spreadsheetId!,
+          sheetName: { in: sheetNames },
+          registrationPath,
+          occurredAt: { gte: startDate, lte: endDate },
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `[CV-LEDGER] Ledger query failed, reading sheet instead: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private async isLedgerFresh(
+    kind: ConversionKind,
+    spreadsheetId: string | null,
+    sheetNames: string[],
+  ): Promise<boolean> {
+    if (!spreadsheetId) return false;
+    const syncs = await this.prisma.conversionSheetSync.findMany({
+      where: { kind, spreadsheetId, sheetName: { in: sheetNames } },
+    });
+    const now = new Date();
+    const maxAgeMinutes = this.maxAgeMinutes();
+    return (
+      syncs.length === sheetNames.length &&
+      syncs.every(
+        (sync) =>
+          sync.status === 'OK' &&
+          isSyncFresh(sync.lastSyncedAt, now, maxAgeMinutes),
+      )
+    );
+  }
+
+  private maxAgeMinutes(): number {
+    const configured = Number(
+      this.configService.get<string>('CONVERSION_LEDGER_MAX_AGE_MINUTES'),
+    );
+    return configured > 0 ? configured : DEFAULT_MAX_AGE_MINUTES;
+  }
+
+  /**
+   * 導線の訴求が参照するシートの種別ごとの日別件数（利益シミュレーションの実績用）
+   * 導線にシートのない種別は含めない。
+   * 対象タブが1つでも同期切れ・失敗なら null（呼び出し側はシートの集計値を使う）
+   * @param from YYYY-MM-DD（JST）
+   * @param to YYYY-MM-DD（JST）
+   */
+  async channelDailyCounts(
+    channelType: ChannelType,
+    from: string,
+    to: string,
+  ): Promise<Partial<Record<ConversionKind, DailyConversionCount[]>> | null> {
+    try {
+      const targets = await this.collectTargets(channelType);
+      if (targets.length === 0) return null;
+
+      const counts: Partial<Record<ConversionKind, DailyConversionCount[]>> =
+        {};
+      for (const kind of CONVERSION_KINDS) {
+        const ofKind = targets.filter((t) => t.kind === kind);
+        if (ofKind.length === 0) continue;
+        const jstDates: string[] = [];
+        for (const spreadsheetId of new Set(
+          ofKind.map((t) => t.spreadsheetId),
+        )) {
+          const sheetNames = ofKind
+            .filter((t) => t.spreadsheetId === spreadsheetId)
+            .map((t) => t.definition.sheetName);
+          if (!(await this.isLedgerFresh(kind, spreadsheetId, sheetNames))) {
+            return null;
+          }
+          const events = await this.prisma.conversionEvent.findMany({
+            where: {
+              kind,
+              spreadsheetId,
+              sheetName: { in: sheetNames },
+              jstDate: { gte: from, lte: to },
+            },
+            select: { jstDate: true },
+          });
+          jstDates.push(...events.map((e) => e.jstDate));
+        }
+        counts[kind] = toDailyCounts(jstDates);
+      }
+      return counts;
+    } catch (error) {
+      this.logger.warn(
+        `[CV-LEDGER] Ledger query failed for ${channelType}, reading sheet instead: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 履歴（台帳のみ）
+  // ============================================================================
+
+  /**
+   * 登録経路の日別件数
+   * @param from YYYY-MM-DD（JST）
+   * @param to YYYY-MM-DD（JST）
+   * @param source 既定は sheet（同じ登録がシートと Webhook の両方にあるため混ぜない）
+   */
+  async dailyCounts(query: {
+    kind?: string;
+    registrationPath?: string;
+    from?: string;
+    to?: string;
+    source?: string;
+  }): Promise<DailyConversionCount[]> {
+    const errors = validateHistoryQuery(query);
+    if (!query.kind) {
+      errors.push('kind is required');
+    }
+    if (!query.registrationPath?.trim()) {
+      errors.push('registrationPath is required');
+    }
+    if (
+      query.source !== undefined &&
+      !LEDGER_SOURCES.includes(query.source as LedgerSource)
+    ) {
+      errors.push(`source must be one of ${LEDGER_SOURCES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid query: ${errors.join('; ')}`);
+    }
+
+    const events = await this.prisma.conversionEvent.findMany({
+      where: {
+        kind: query.kind,
+        registrationPath: query.registrationPath!.trim(),
+        jstDate: { gte: query.from, lte: query.to },
+        ...sourceFilter((query.source ?? 'sheet') as LedgerSource),
+      },
+      select: { jstDate: true },
+    });
+    return toDailyCounts(events.map((e) => e.jstDate));
+  }
+
+  /**
+   * 広告に紐付いた種別ごとの日別件数（シートの取り込み分）
+   * @returns advertiserId はアクセス権の確認用（TikTok advertiser_id）
+   */
+  async adDailyCounts(
+    tiktokAdId: string,
+    query: { from?: string; to?: string },
+  ): Promise<{
+    adId: string;
+    advertiserId: string;
+    counts: Record<ConversionKind, DailyConversionCount[]>;
+  }> {
+    const errors = validateHistoryQuery(query);
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid query: ${errors.join('; ')}`);
+    }
+    const ad = await this.prisma.ad.findUnique({
+      where: { tiktokId: tiktokAdId },
+      select: {
+        id: true,
+        adGroup: {
+          select: {
+            campaign: {
+              select: { advertiser: { select: { tiktokAdvertiserId: true } } },
+            },
+          },
+        },
+      },
+    });
+    if (!ad) {
+      throw new NotFoundException(`Ad with ID ${tiktokAdId} not found`);
+    }
+
+    const events = await this.prisma.conversionEvent.findMany({
+      where: {
+        adId: ad.id,
+        jstDate: { gte: query.from, lte: query.to },
+        ...sourceFilter('sheet'),
+      },
+      select: { kind: true, jstDate: true },
+    });
+    const counts = {} as Record<ConversionKind, DailyConversionCount[]>;
+    for (const kind of CONVERSION_KINDS) {
+      counts[kind] = toDailyCounts(
+        events.filter((e) => e.kind === kind).map((e) => e.jstDate),
+      );
+    }
+    return {
+      adId: tiktokAdId,
+      advertiserId: ad.adGroup.campaign.advertiser.tiktokAdvertiserId,
+      counts,
+    };
+  }
+}
+
+/** 登録経路 → 広告ID（特定できなければ null） */
+interface AdLookup {
+  resolve(registrationPath: string): string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateHistoryQuery(query: {
+  kind?: string;
+  from?: string;
+  to?: string;
+}): string[] {
+  const errors: string[] = [];
+  if (
+    query.kind !== undefined &&
+    !CONVERSION_KINDS.includes(query.kind as ConversionKind)
+  ) {
+    errors.push(`kind must be one of ${CONVERSION_KINDS.join(', ')}`);
+  }
+  if (!query.from || !DATE_PATTERN.test(query.from)) {
+    errors.push('from must be YYYY-MM-DD');
+  }
+  if (!query.to || !DATE_PATTERN.test(query.to)) {
+    errors.push('to must be YYYY-MM-DD');
+  }
+  if (errors.length === 0 && query.from! > query.to!) {
+    errors.push('from must be on or before to');
+  }
+  return errors;
+}
+
+function toDailyCounts(jstDates: string[]): DailyConversionCount[] {
+  const counts = new Map<string, number>();
+  for (const date of jstDates) {
+    counts.set(date, (counts.get(date) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, count]) => ({ date, count }));
+}
+
+function sourceFilter(source: LedgerSource) {
+  return {
+    spreadsheetId:
+      source === 'webhook'
+        ? PUSHED_SPREADSHEET_ID
+        : { not: PUSHED_SPREADSHEET_ID },
+  };
+}
+
+function spreadsheetIdOf(url: string): string | null {
+  const parsed = validateSpreadsheetUrl(url);
+  return parsed.isValid ? parsed.spreadsheetId! : null;
+}
+
+function sumOf(sheets: SheetSyncResult[], key: 'inserted' | 'deleted'): number {
+  return sheets.reduce((sum, sheet) => sum + sheet[key], 0);
+}
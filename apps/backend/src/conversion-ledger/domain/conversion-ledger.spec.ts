@@ -0,0 +1,146 @@
+import {
+  diffLedger,
+  extractLedgerRows,
+  isSyncFresh,
+  maxDailyCount,
+  parseRegistrationPath,
+  toJstDate,
+  type LedgerLayout,
+} from './conversion-ledger';
+
+const CV_LAYOUT: LedgerLayout = {
+  headerRowIndex: 0,
+  dateColumn: 1,
+  pathColumn: 0,
+  splitLines: false,
+};
+
+const RESERVATION_LAYOUT: LedgerLayout = {
+  headerRowIndex: 0,
+  dateColumn: 0,
+  pathColumn: 1,
+  splitLines: true,
+};
+
+describe('parseRegistrationPath', () => {
+  it('訴求名と LP-CR を取り出す', () => {
+    expect(parseRegistrationPath('TikTok広告-SNS-LP1-CR00572')).toEqual({
+      appealName: 'SNS',
+      lpCr: 'LP1-CR00572',
+    });
+    expect(
+      parseRegistrationPath('TikTok広告-スキルプラス-LP2-CR00322-冬CR'),
+    ).toEqual({ appealName: 'スキルプラス', lpCr: 'LP2-CR00322' });
+  });
+
+  it('形式が違えば null', () => {
+    expect(parseRegistrationPath('Instagram-SNS-LP1-CR00572')).toBeNull();
+    expect(parseRegistrationPath('TikTok広告-SNS-LP1')).toBeNull();
+  });
+});
+
+describe('extractLedgerRows', () => {
+  it('日付をJSTとして解釈し、日付・登録経路のない行は除く', () => {
+    const rows = extractLedgerRows(
+      [
+        ['登録経路', '登録日時'],
+        ['TikTok広告-SNS-LP1-CR00572', '2026/02/15 08:30:00'],
+        ['TikTok広告-SNS-LP1-CR00572', ''],
+        ['', '2026/02/15'],
+        ['TikTok広告-SNS-LP1-CR00572', 'not a date'],
+      ],
+      CV_LAYOUT,
+    );
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        registrationPath: 'TikTok広告-SNS-LP1-CR00572',
+        lpCr: 'LP1-CR00572',
+        occurredAt: new Date('2026-02-14T23:30:00Z'),
+        jstDate: '2026-02-15',
+      }),
+    ]);
+  });
+
+  it('同じ内容の行は出現順で別の行として扱う', () => {
+    const row = ['TikTok広告-SNS-LP1-CR00572', '2026/02/15 08:30'];
+    const rows = extractLedgerRows([['h', 'h'], row, row], CV_LAYOUT);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].rowHash).not.toBe(rows[1].rowHash);
+  });
+
+  it('行が挿入されても他の行のハッシュは変わらない', () => {
+    const a = ['TikTok広告-SNS-LP1-CR00001', '2026/02/15'];
+    const b = ['TikTok広告-SNS-LP1-CR00002', '2026/02/16'];
+    const inserted = ['TikTok広告-SNS-LP1-CR00003', '2026/02/15'];
+
+    const before = extractLedgerRows([['h', 'h'], a, b], CV_LAYOUT);
+    const after = extractLedgerRows([['h', 'h'], inserted, a, b], CV_LAYOUT);
+
+    expect(after.map((r) => r.rowHash)).toEqual(
+      expect.arrayContaining(before.map((r) => r.rowHash)),
+    );
+  });
+
+  it('個別予約はセル内の改行ごとに1件とし、前後の空白を除く', () => {
+    const rows = extractLedgerRows(
+      [
+        ['日付', '登録経路'],
+        [
+          '2026/02/15',
+          'TikTok広告-AI-LP2-CR00322 \n\nTikTok広告-AI-LP3-CR00400',
+        ],
+      ],
+      RESERVATION_LAYOUT,
+    );
+
+    expect(rows.map((r) => r.registrationPath)).toEqual([
+      'TikTok広告-AI-LP2-CR00322',
+      'TikTok広告-AI-LP3-CR00400',
+    ]);
+    expect(new Set(rows.map((r) => r.rowHash)).size).toBe(2);
+  });
+});
+
+describe('diffLedger', () => {
+  it('新しい行を追加し、シートから消えた行を削除する', () => {
+    const [kept, added] = extractLedgerRows(
+      [
+        ['h', 'h'],
+        ['TikTok広告-SNS-LP1-CR00001', '2026/02/15'],
+        ['TikTok広告-SNS-LP1-CR00002', '2026/02/15'],
+      ],
+      CV_LAYOUT,
+    );
+
+    const diff = diffLedger([kept.rowHash, 'removed'], [kept, added]);
+
+    expect(diff.toInsert).toEqual([added]);
+    expect(diff.toDelete).toEqual(['removed']);
+  });
+});
+
+describe('isSyncFresh', () => {
+  const now = new Date('2026-02-15T10:00:00Z');
+
+  it('最後の同期から指定分以内なら true', () => {
+    expect(isSyncFresh(new Date('2026-02-15T09:45:00Z'), now, 20)).toBe(true);
+    expect(isSyncFresh(new Date('2026-02-15T09:30:00Z'), now, 20)).toBe(false);
+    expect(isSyncFresh(null, now, 20)).toBe(false);
+  });
+});
+
+describe('maxDailyCount / toJstDate', () => {
+  it('日別件数の最大値（件数なしは0）', () => {
+    expect(
+      maxDailyCount(['2026-02-14', '2026-02-15', '2026-02-15', '2026-02-16']),
+    ).toBe(2);
+    expect(maxDailyCount([])).toBe(0);
+  });
+
+  it('UTC 15時以降は翌日の JST 日付', () => {
+    expect(toJstDate(new Date('2026-02-14T15:00:00Z'))).toBe('2026-02-15');
+    expect(toJstDate(new Date('2026-02-14T14:59:59Z'))).toBe('2026-02-14');
+  });
+});
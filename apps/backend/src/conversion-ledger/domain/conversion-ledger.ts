@@ -0,0 +1,165 @@
+// ============================================================================
+// コンバージョン台帳 - シート行の取り込み・差分・集計（純粋関数）
+// CV・フロント販売・個別予約シートの行を登録経路・日付・行ハッシュで正規化し、
+// 予算調整や日中CPAチェックがシート全体を毎回読まずに件数を数えられるようにする
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { parseSheetDate } from '../../common/utils/sheet-date.util';
+
+export type ConversionKind = 'CV' | 'FRONT_SALES' | 'INDIVIDUAL_RESERVATION';
+
+export const CONVERSION_KINDS: ConversionKind[] = [
+  'CV',
+  'FRONT_SALES',
+  'INDIVIDUAL_RESERVATION',
+];
+
+/**
+ * 件数集計で読むタブ（GoogleSheetsService の getCVCount / getFrontSalesCount と同じ）
+ * 個別予約はデータソース設定のタブを使う
+ */
+export const REGISTRATION_SHEET_NAMES: Record<
+  Exclude<ConversionKind, 'INDIVIDUAL_RESERVATION'>,
+  string[]
+> = {
+  CV: ['TT_オプト'],
+  FRONT_SALES: ['TT【OTO】', 'TT【3day】'],
+};
+
+/**
+ * Webhook で受け取った登録・リードの保存先（spreadsheetId）
+ * sheetName に送信元、rowHash にイベントIDを入れる。
+ * シートの件数集計はシート・タブで絞るため、同じ登録がシートにも載っても二重に数えない
+ */
+export const PUSHED_SPREADSHEET_ID = 'webhook';
+
+/** 件数の取得元（sheet: シートの取り込み / webhook: Webhook で受け取った分） */
+export type LedgerSource = 'sheet' | 'webhook';
+
+export const LEDGER_SOURCES: LedgerSource[] = ['sheet', 'webhook'];
+
+/** 取り込む列（0始まり） */
+export interface LedgerLayout {
+  headerRowIndex: number;
+  dateColumn: number;
+  pathColumn: number;
+  /** 1セルに改行区切りで複数の登録経路が入る（個別予約） */
+  splitLines: boolean;
+}
+
+/** 台帳の1件 */
+export interface LedgerRow {
+  rowHash: string;
+  registrationPath: string;
+  /** 登録経路の LP-CR（例: LP1-CR00572）。解釈できなければ null */
+  lpCr: string | null;
+  occurredAt: Date;
+  /** YYYY-MM-DD（JST） */
+  jstDate: string;
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 登録経路: TikTok広告-{訴求名}-LP{n}-CR{n}[-{CR名}] */
+const REGISTRATION_PATH_PATTERN = /^TikTok広告-(.+?)-(LP\d+-CR\d+)(?:-|$)/i;
+
+/** JST の日付（YYYY-MM-DD） */
+export function toJstDate(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** 登録経路から訴求名と LP-CR を取り出す */
+export function parseRegistrationPath(
+  path: string,
+): { appealName: string; lpCr: string } | null {
+  const match = path.match(REGISTRATION_PATH_PATTERN);
+  return match ? { appealName: match[1], lpCr: match[2] } : null;
+}
+
+/**
+ * シートの行を台帳の行に変換する
+ * 日付・登録経路のない行、日付を解釈できない行は除く（件数集計と同じ扱い）
+ *
+ * 行ハッシュは「日付セル・登録経路セル・同じ内容の行の出現順・セル内の行番号」から求める。
+ * 行番号を含めないため、途中に行が挿入・削除されても他の行のハッシュは変わらない
+ */
+export function extractLedgerRows(
+  rows: unknown[][],
+  layout: LedgerLayout,
+): LedgerRow[] {
+  const result: LedgerRow[] = [];
+  const ordinals = new Map<string, number>();
+
+  for (const row of rows.slice(layout.headerRowIndex + 1)) {
+    const dateCell = cellText(row[layout.dateColumn]);
+    const pathCell = cellText(row[layout.pathColumn]);
+    if (!dateCell || !pathCell) continue;
+
+    const occurredAt = parseSheetDate(dateCell);
+    if (!occurredAt) continue;
+
+    const contentKey = `${dateCell}\u0000${pathCell}`;
+    const ordinal = ordinals.get(contentKey) ?? 0;
+    ordinals.set(contentKey, ordinal + 1);
+
+    const lines = layout.splitLines ? pathCell.split('\n') : [pathCell];
+    lines.forEach((line, lineIndex) => {
+      const registrationPath = line.trim();
+      if (!registrationPath) return;
+      result.push({
+        rowHash: hashRow(contentKey, ordinal, lineIndex),
+        registrationPath,
+        lpCr: parseRegistrationPath(registrationPath)?.lpCr ?? null,
+        occurredAt,
+        jstDate: toJstDate(occurredAt),
+      });
+    });
+  }
+
+  return result;
+}
+
+/** 保存済みのハッシュとシートの行を比べ、追加・削除する行を求める */
+export function diffLedger(
+  existingHashes: Iterable<string>,
+  rows: LedgerRow[],
+): { toInsert: LedgerRow[]; toDelete: string[] } {
+  const existing = new Set(existingHashes);
+  const current = new Set(rows.map((row) => row.rowHash));
+  return {
+    toInsert: rows.filter((row) => !existing.has(row.rowHash)),
+    toDelete: [...existing].filter((hash) => !current.has(hash)),
+  };
+}
+
+/** 最後の同期から maxAgeMinutes 以内なら台帳の件数を使ってよい */
+export function isSyncFresh(
+  lastSyncedAt: Date | null,
+  now: Date,
+  maxAgeMinutes: number,
+): boolean {
+  return (
+    lastSyncedAt !== null &&
+    now.getTime() - lastSyncedAt.getTime() <= maxAgeMinutes * 60 * 1000
+  );
+}
+
+/** 日別件数の最大値 */
+export function maxDailyCount(jstDates: string[]): number {
+  const counts = new Map<string, number>();
+  for (const date of jstDates) {
+    counts.set(date, (counts.get(date) ?? 0) + 1);
+  }
+  return Math.max(0, ...counts.values());
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function hashRow(contentKey: string, ordinal: number, line: number): string {
+  return createHash('sha1')
+    .update(`${contentKey}\u0000${ordinal}\u0000${line}`)
+    .digest('hex');
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// CreativeAssetController - クリエイティブ素材の系譜 API
+// 担当範囲の広告アカウントにあるコピーと、その実績だけを返す
+// ============================================================================
+
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { CreativeAssetService } from './creative-asset.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.CREATIVE_READ)
+@Controller('api/creative-assets')
+export class CreativeAssetController {
+  private readonly logger = new Logger(CreativeAssetController.name);
+
+  constructor(private readonly creativeAssets: CreativeAssetService) {}
+
+  /**
+   * 素材一覧（アカウントごとの video_id / image_id を含む）
+   * GET /api/creative-assets?advertiserId=xxx&mediaType=VIDEO
+   */
+  @Get()
+  async list(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
+    @Query('mediaType') mediaType?: string,
+  ) {
+    return this.handle('List creative assets', () =>
+      this.creativeAssets.list(
+        {
+          advertiserId: advertiserId || undefined,
+          mediaType: mediaType || undefined,
+        },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  /**
+   * 素材の詳細
+   * GET /api/creative-assets/:id
+   */
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Get creative asset', () =>
+      this.creativeAssets.findById(id, principal.advertiserIds),
+    );
+  }
+
+  /**
+   * 素材単位の実績（全デプロイの合計とアカウント別）
+   * GET /api/creative-assets/:id/performance?from=2026-03-01&to=2026-03-31
+   */
+  @Get(':id/performance')
+  async performance(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.handle('Get creative asset performance', () =>
+      this.creativeAssets.performance(
+        id,
+        { from: from || undefined, to: to || undefined },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[CREATIVE_ASSET] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,17 @@
+// ============================================================================
+// CreativeAssetModule - クリエイティブ素材の系譜
+// 横展開・動画入稿がアップロード時に素材を登録・再利用するため CreativeAssetService を公開する
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { CreativeAssetService } from './creative-asset.service';
+import { CreativeAssetController } from './creative-asset.controller';
+import { TiktokModule } from '../tiktok/tiktok.module';
+
+@Module({
+  imports: [TiktokModule],
+  controllers: [CreativeAssetController],
+  providers: [CreativeAssetService],
+  exports: [CreativeAssetService],
+})
+export class CreativeAssetModule {}
@@ -0,0 +1,398 @@
+// ============================================================================
+// CreativeAssetService - クリエイティブ素材の系譜
+// 動画・画像をアカウントへアップロードするときに内容ハッシュで素材を登録し、
+// 同じアカウントに同じ素材が既にあれば再アップロードせずにその video_id / image_id を使う
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import {
+  CREATIVE_MEDIA_TYPES,
+  contentHash,
+  summarizeAssetPerformance,
+  type AssetAdPerformance,
+  type CreativeAssetOrigin,
+  type CreativeMediaType,
+} from './domain/creative-asset';
+
+export interface MediaUploadRequest {
+  advertiserId: string;
+  accessToken: string;
+  buffer: Buffer;
+  filename: string;
+  origin: CreativeAssetOrigin;
+  /** コピー元の video_id / image_id（横展開・再出稿） */
+  sourceMediaId?: string;
+}
+
+export interface MediaUploadResult {
+  /** アカウント内の video_id / image_id */
+  mediaId: string;
+  /** 素材の登録に失敗した場合は null（アップロード自体は成功） */
+  assetId: string | null;
+  /** 既存のコピーを使い、アップロードしなかった */
+  reused: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable()
+export class CreativeAssetService {
+  private readonly logger = new Logger(CreativeAssetService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+  ) {}
+
+  /** 動画をアップロード（同じ内容の動画がアカウントにあれば再利用） */
+  async uploadVideo(request: MediaUploadRequest): Promise<MediaUploadResult> {
+    return this.upload('VIDEO', request);
+  }
+
+  /** 画像をアップロード（同じ内容の画像がアカウントにあれば再利用） */
+  async uploadImage(request: MediaUploadRequest): Promise<MediaUploadResult> {
+    return this.upload('IMAGE', request);
+  }
+
+  /**
+   * アップロード済みの素材をコピーとして登録する（横展開元の動画など）
+   * 登録の失敗は呼び出し元の処理を止めない
+   */
+  async recordCopy(
+    mediaType: CreativeMediaType,
+    buffer: Buffer,
+    copy: {
+      advertiserId: string;
+      tiktokMediaId: string;
+      origin: CreativeAssetOrigin;
+      filename?: string;
+      sourceMediaId?: string;
+    },
+  ): Promise<string | null> {
+    try {
+      const asset = await this.findOrCreateAsset(
+        mediaType,
+        buffer,
+        copy.filename,
+      );
+      await this.prisma.creativeAssetCopy.upsert({
+        where: {
+          advertiserId_tiktokMediaId: {
+            advertiserId: copy.advertiserId,
+            tiktokMediaId: copy.tiktokMediaId,
+          },
+        },
+        create: {
+          assetId: asset.id,
+          advertiserId: copy.advertiserId,
+          tiktokMediaId: copy.tiktokMediaId,
+          origin: copy.origin,
+          sourceMediaId: copy.sourceMediaId ?? null,
+        },
+        update: { lastUsedAt: new Date() },
+      });
+      return asset.id;
+    } catch (error) {
+      this.logger.warn(
+        `[CREATIVE_ASSET] Failed to record ${mediaType} ${copy.tiktokMediaId} (${copy.advertiserId}): ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * 素材一覧（担当範囲のアカウントのコピーのみ）
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
+   */
+  async list(
+    filters: { advertiserId?: string; mediaType?: string },
+    scope: string[] | null,
+  ) {
+    if (
+      filters.mediaType &&
+      !CREATIVE_MEDIA_TYPES.includes(filters.mediaType as CreativeMediaType)
+    ) {
+      throw new BadRequestException(
+        `mediaType must be one of ${CREATIVE_MEDIA_TYPES.join(', ')}`,
+      );
+    }
+    const copyWhere = {
+      advertiserId: scopedAdvertisers(filters.advertiserId, scope),
+    };
+    const assets = await this.prisma.creativeAsset.findMany({
+      where: {
+        mediaType: filters.mediaType,
+        copies: { some: copyWhere },
+      },
+      include: {
+        copies: { where: copyWhere, orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return assets.map((asset) => ({
+      ...asset,
+      accountCount: new Set(asset.copies.map((copy) => copy.advertiserId)).size,
+    }));
+  }
+
+  async findById(id: string, scope: string[] | null) {
+    const asset = await this.prisma.creativeAsset.findUnique({
+      where: { id },
+      include: {
+        copies: {
+          where: { advertiserId: scopedAdvertisers(undefined, scope) },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+    if (!asset || asset.copies.length === 0) {
+      throw new NotFoundException(`Creative asset ${id} not found`);
+    }
+    return asset;
+  }
+
+  /**
+   * 素材単位の実績（全アカウントのコピーを使った広告の合計とアカウント別）
+   * 広告と素材は同期済みの Ad → Creative の video_id / image_id で紐付ける
+   */
+  async performance(
+    id: string,
+    period: { from?: string; to?: string },
+    scope: string[] | null,
+  ) {
+    const errors = (['from', 'to'] as const)
+      .filter((key) => period[key] && !DATE_PATTERN.test(period[key]))
+      .map((key) => `${key} must be YYYY-MM-DD`);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid performance query: ' + errors.join('; '),
+      );
+    }
+    const asset = await this.findById(id, scope);
+    const mediaIds = asset.copies.map((copy) => copy.tiktokMediaId);
+    const advertiserIds = [
+      ...new Set(asset.copies.map((copy) => copy.advertiserId)),
+    ];
+
+    const ads = await this.prisma.ad.findMany({
+      where: {
+        creative: {
+          OR: [
+            { tiktokVideoId: { in: mediaIds } },
+            { tiktokImageId: { in: mediaIds } },
+          ],
+        },
+        adGroup: {
+          campaign: {
+            advertiser: { tiktokAdvertiserId: { in: advertiserIds } },
+          },
+        },
+      },
+      select: {
+        id: true,
+        creative: { select: { tiktokVideoId: true, tiktokImageId: true } },
+        adGroup: {
+          select: {
+            campaign: {
+              select: { advertiser: { select: { tiktokAdvertiserId: true } } },
+            },
+          },
+        },
+      },
+    });
+    const adIds = ads.map((ad) => ad.id);
+
+    const [metrics, conversions] = await Promise.all([
+      this.prisma.metric.groupBy({
+        by: ['adId'],
+        where: {
+          entityType: 'AD',
+          adId: { in: adIds },
+          statDate: {
+            gte: period.from
+              ? new Date(`${period.from}T00:00:00.000Z`)
+              : undefined,
+            lte: period.to ? new Date(`${period.to}T00:00:00.000Z`) : undefined,
+          },
+        },
+        _sum: { spend: true, impressions: true, clicks: true },
+      }),
+      this.prisma.conversionEvent.groupBy({
+        by: ['adId', 'kind'],
+        where: {
+          adId: { in: adIds },
+          kind: { in: ['CV', 'FRONT_SALES'] },
+          jstDate: { gte: period.from, lte: period.to },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const metricByAd = new Map(metrics.map((m) => [m.adId, m._sum]));
+    const countByAd = new Map(
+      conversions.map((c) => [`${c.adId}:${c.kind}`, c._count._all]),
+    );
+    const rows: AssetAdPerformance[] = ads.map((ad) => {
+      const metric = metricByAd.get(ad.id);
+      const count = (kind: string) => countByAd.get(`${ad.id}:${kind}`) ?? 0;
+      const mediaId = mediaIds.includes(ad.creative.tiktokVideoId ?? '')
+        ? ad.creative.tiktokVideoId!
+        : ad.creative.tiktokImageId!;
+      return {
+        advertiserId: ad.adGroup.campaign.advertiser.tiktokAdvertiserId,
+        tiktokMediaId: mediaId,
+        adId: ad.id,
+        spend: metric?.spend ?? 0,
+        impressions: metric?.impressions ?? 0,
+        clicks: metric?.clicks ?? 0,
+        conversions: count('CV'),
+        frontSales: count('FRONT_SALES'),
+      };
+    });
+
+    return {
+      asset,
+      period: { from: period.from ?? null, to: period.to ?? null },
+      ...summarizeAssetPerformance(asset.copies, rows),
+    };
+  }
+
+  private async upload(
+    mediaType: CreativeMediaType,
+    request: MediaUploadRequest,
+  ): Promise<MediaUploadResult> {
+    const existing = await this.findReusableCopy(mediaType, request);
+    if (existing) {
+      this.logger.log(
+        `[CREATIVE_ASSET] Reusing ${mediaType} ${existing.tiktokMediaId} in ${request.advertiserId} (${request.filename})`,
+      );
+      await this.prisma.creativeAssetCopy
+        .update({
+          where: { id: existing.id },
+          data: { lastUsedAt: new Date() },
+        })
+        .catch(() => undefined);
+      return {
+        mediaId: existing.tiktokMediaId,
+        assetId: existing.assetId,
+        reused: true,
+      };
+    }
+
+    const mediaId =
+      mediaType === 'VIDEO'
+        ? await this.tiktokService.uploadVideoToAccount(
+            request.advertiserId,
+            request.accessToken,
+            request.buffer,
+            request.filename,
+          )
+        : await this.tiktokService.uploadImageToAccount(
+            request.advertiserId,
+            request.accessToken,
+            request.buffer,
+            request.filename,
+          );
+    const assetId = await this.recordCopy(mediaType, request.buffer, {
+      advertiserId: request.advertiserId,
+      tiktokMediaId: mediaId,
+      origin: request.origin,
+      filename: request.filename,
+      sourceMediaId: request.sourceMediaId,
+    });
+    return { mediaId, assetId, reused: false };
+  }
+
+  /**
+   * 同じ内容のコピーがアカウントにあり、TikTok 側にもまだ存在すれば返す
+   * 照会に失敗した場合はアップロードする（再利用はあくまで節約のため）
+   */
+  private async findReusableCopy(
+    mediaType: CreativeMediaType,
+    request: MediaUploadRequest,
+  ) {
+    try {
+      const copies = await this.prisma.creativeAssetCopy.findMany({
+        where: {
+          advertiserId: request.advertiserId,
+          asset: { contentHash: contentHash(request.buffer), mediaType },
+        },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+      if (copies.length === 0) return null;
+
+      const ids = copies.map((copy) => copy.tiktokMediaId);
+      const found =
+        mediaType === 'VIDEO'
+          ? (
+              await this.tiktokService.getVideoInfo(
+                request.advertiserId,
+                request.accessToken,
+                ids,
+              )
+            ).map((video) => String(video.video_id))
+          : (
+              await this.tiktokService.getImageInfo(
+                request.advertiserId,
+                request.accessToken,
+                ids,
+              )
+            ).map((image) => String(image.image_id));
+      const alive = copies.find((copy) => found.includes(copy.tiktokMediaId));
+
+      // TikTok 側で削除されたコピーは系譜から外す
+      const gone = copies
+        .filter((copy) => !found.includes(copy.tiktokMediaId))
+        .map((copy) => copy.id);
+      if (gone.length > 0) {
+        await this.prisma.creativeAssetCopy.deleteMany({
+          where: { id: { in: gone } },
+        });
+      }
+      return alive ?? null;
+    } catch (error) {
+      this.logger.warn(
+        `[CREATIVE_ASSET] Reuse lookup failed for ${request.advertiserId}, uploading: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private async findOrCreateAsset(
+    mediaType: CreativeMediaType,
+    buffer: Buffer,
+    filename?: string,
+  ) {
+    const hash = contentHash(buffer);
+    return this.prisma.creativeAsset.upsert({
+      where: { contentHash: hash },
+      create: {
+        contentHash: hash,
+        mediaType,
+        fileSize: buffer.length,
+        filename: filename ?? null,
+      },
+      update: {},
+    });
+  }
+}
+
+/** 指定アカウントと担当範囲を合わせた advertiserId の条件（undefined なら絞り込みなし） */
+function scopedAdvertisers(
+  advertiserId: string | undefined,
+  scope: string[] | null,
+) {
+  if (advertiserId) {
+    return scope === null || scope.includes(advertiserId)
+      ? advertiserId
+      : { in: [] };
+  }
+  return scope === null ? undefined : { in: scope };
+}
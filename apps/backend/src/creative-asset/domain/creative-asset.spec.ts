@@ -0,0 +1,103 @@
+import {
+  contentHash,
+  summarizeAssetPerformance,
+  type AssetAdPerformance,
+} from './creative-asset';
+
+function ad(
+  advertiserId: string,
+  adId: string,
+  values: Partial<AssetAdPerformance> = {},
+): AssetAdPerformance {
+  return {
+    advertiserId,
+    tiktokMediaId: `video-${advertiserId}`,
+    adId,
+    spend: 0,
+    impressions: 0,
+    clicks: 0,
+    conversions: 0,
+    frontSales: 0,
+    ...values,
+  };
+}
+
+describe('contentHash', () => {
+  it('同じ内容なら同じハッシュ、1バイトでも違えば別のハッシュ', () => {
+    expect(contentHash(Buffer.from('video-bytes'))).toBe(
+      contentHash(Buffer.from('video-bytes')),
+    );
+    expect(contentHash(Buffer.from('video-bytes'))).not.toBe(
+      contentHash(Buffer.from('video-bytes!')),
+    );
+    expect(contentHash(Buffer.from(''))).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('summarizeAssetPerformance', () => {
+  it('全アカウントの広告を素材単位に合算し、アカウント別は広告費の多い順に並べる', () => {
+    const result = summarizeAssetPerformance(
+      [
+        { advertiserId: 'A', tiktokMediaId: 'video-A' },
+        { advertiserId: 'B', tiktokMediaId: 'video-B' },
+      ],
+      [
+        ad('A', 'ad-1', {
+          spend: 10000,
+          impressions: 5000,
+          clicks: 50,
+          conversions: 2,
+        }),
+        ad('A', 'ad-2', { spend: 5000, conversions: 1, frontSales: 1 }),
+        ad('B', 'ad-3', {
+          spend: 30000,
+          impressions: 5000,
+          clicks: 50,
+          conversions: 3,
+        }),
+      ],
+    );
+
+    expect(result.total).toEqual({
+      adCount: 3,
+      spend: 45000,
+      impressions: 10000,
+      clicks: 100,
+      conversions: 6,
+      frontSales: 1,
+      ctr: 1,
+      cpa: 7500,
+      frontCpo: 45000,
+    });
+    expect(
+      result.deployments.map((d) => [
+        d.advertiserId,
+        d.adCount,
+        d.spend,
+        d.cpa,
+      ]),
+    ).toEqual([
+      ['B', 1, 30000, 10000],
+      ['A', 2, 15000, 5000],
+    ]);
+  });
+
+  it('広告のないコピーも実績0の行として残す', () => {
+    const result = summarizeAssetPerformance(
+      [{ advertiserId: 'C', tiktokMediaId: 'video-C' }],
+      [],
+    );
+
+    expect(result.deployments).toEqual([
+      expect.objectContaining({
+        advertiserId: 'C',
+        tiktokMediaIds: ['video-C'],
+        adCount: 0,
+        spend: 0,
+        cpa: null,
+        ctr: null,
+      }),
+    ]);
+    expect(result.total.adCount).toBe(0);
+  });
+});
@@ -0,0 +1,131 @@
+// ============================================================================
+// クリエイティブ素材の系譜（純粋関数）
+// ファイル内容のハッシュで同じ動画・画像を識別し、各アカウントへのコピー（video_id / image_id）
+// ごとの実績を素材単位に合算する
+// ============================================================================
+
+import { createHash } from 'crypto';
+
+export type CreativeMediaType = 'VIDEO' | 'IMAGE';
+
+export const CREATIVE_MEDIA_TYPES: CreativeMediaType[] = ['VIDEO', 'IMAGE'];
+
+/**
+ * コピーの登録経路
+ * SOURCE: 横展開・再出稿の元として取得した既存の素材（アップロード経路は不明）
+ */
+export type CreativeAssetOrigin =
+  | 'CROSS_DEPLOY'
+  | 'STREAMLINED_CREATOR'
+  | 'REDEPLOY'
+  | 'CREATIVE_UPLOAD'
+  | 'SOURCE';
+
+/** ファイル内容のハッシュ（SHA-256） */
+export function contentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+export interface AssetCopyRef {
+  advertiserId: string;
+  tiktokMediaId: string;
+}
+
+/** 素材のコピーを使っている広告1件の実績 */
+export interface AssetAdPerformance {
+  advertiserId: string;
+  tiktokMediaId: string;
+  adId: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  frontSales: number;
+}
+
+export interface PerformanceTotals {
+  adCount: number;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  frontSales: number;
+  /** CTR（%）。インプレッション0なら null */
+  ctr: number | null;
+  /** CV0なら null */
+  cpa: number | null;
+  /** フロント販売0なら null */
+  frontCpo: number | null;
+}
+
+export interface AssetDeploymentPerformance extends PerformanceTotals {
+  advertiserId: string;
+  tiktokMediaIds: string[];
+}
+
+export interface AssetPerformance {
+  total: PerformanceTotals;
+  /** アカウント別（広告費の多い順） */
+  deployments: AssetDeploymentPerformance[];
+}
+
+/**
+ * 素材単位の実績
+ * 広告の実績がないコピー（アップロードのみ）もアカウント別の行として残す
+ */
+export function summarizeAssetPerformance(
+  copies: AssetCopyRef[],
+  ads: AssetAdPerformance[],
+): AssetPerformance {
+  const byAdvertiser = new Map<
+    string,
+    { mediaIds: Set<string>; ads: AssetAdPerformance[] }
+  >();
+  const entry = (advertiserId: string) => {
+    if (!byAdvertiser.has(advertiserId)) {
+      byAdvertiser.set(advertiserId, { mediaIds: new Set(), ads: [] });
+    }
+    return byAdvertiser.get(advertiserId)!;
+  };
+  copies.forEach((copy) =>
+    entry(copy.advertiserId).mediaIds.add(copy.tiktokMediaId),
+  );
+  ads.forEach((ad) => {
+    const target = entry(ad.advertiserId);
+    target.mediaIds.add(ad.tiktokMediaId);
+    target.ads.push(ad);
+  });
+
+  const deployments = [...byAdvertiser.entries()]
+    .map(([advertiserId, { mediaIds, ads: rows }]) => ({
+      advertiserId,
+      tiktokMediaIds: [...mediaIds].sort(),
+      ...totals(rows),
+    }))
+    .sort(
+      (a, b) =>
+        b.spend - a.spend || a.advertiserId.localeCompare(b.advertiserId),
+    );
+  return { total: totals(ads), deployments };
+}
+
+function totals(rows: AssetAdPerformance[]): PerformanceTotals {
+  const sum = (key: 'spend' | 'impressions' | 'clicks' | 'conversions') =>
+    rows.reduce((total, row) => total + row[key], 0);
+  const spend = sum('spend');
+  const impressions = sum('impressions');
+  const clicks = sum('clicks');
+  const conversions = sum('conversions');
+  const frontSales = rows.reduce((total, row) => total + row.frontSales, 0);
+  return {
+    adCount: new Set(rows.map((row) => row.adId)).size,
+    spend,
+    impressions,
+    clicks,
+    conversions,
+    frontSales,
+    ctr: impressions > 0 ? (clicks / impressions) * 100 : null,
+    cpa: conversions > 0 ? spend / conversions : null,
+    frontCpo: frontSales > 0 ? spend / frontSales : null,
+  };
+}
@@ -14,7 +14,11 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { CreativeService } from './creative.service';
 import { ConfigService } from '@nestjs/config';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
 
+@RequirePermissions(PERMISSIONS.CREATIVE_READ)
 @Controller('api/creatives')
 export class CreativeController {
   private readonly logger = new Logger(CreativeController.name);
@@ -28,6 +32,7 @@ export class CreativeController {
    * Vercel Blob Client Upload用のトークン取得
    * GET /api/creatives/blob-token
    */
+  @RequirePermissions(PERMISSIONS.CREATIVE_WRITE)
   @Get('blob-token')
   async getBlobUploadToken() {
     this.logger.log(`Getting Blob upload token`);
@@ -61,11 +66,17 @@ export class CreativeController {
    * GET /api/creatives?advertiserId=xxx
    */
   @Get()
-  async findAll() {
+  async findAll(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
+  ) {
     this.logger.log('Getting all creatives');
 
     try {
-      const creatives = await this.creativeService.findAll();
+      const creatives = await this.creativeService.findAll(
+        advertiserId,
+        principal.advertiserIds,
+      );
       return {
         success: true,
         data: creatives,
@@ -112,6 +123,7 @@ export class CreativeController {
    *   - filename: ファイル名
    *   - fileSize: ファイルサイズ
    */
+  @RequirePermissions(PERMISSIONS.CREATIVE_WRITE)
   @Post('upload-from-blob')
   async uploadFromBlob(
     @Body('advertiserId') advertiserId: string,
@@ -161,6 +173,7 @@ export class CreativeController {
    *   - name: Creative名
    *   - accessToken: Access Token（オプション）
    */
+  @RequirePermissions(PERMISSIONS.CREATIVE_WRITE)
   @Post('upload')
   @UseInterceptors(FileInterceptor('file'))
   async upload(
@@ -215,6 +228,7 @@ export class CreativeController {
    * Creative削除
    * DELETE /api/creatives/:id
    */
+  @RequirePermissions(PERMISSIONS.CREATIVE_WRITE)
   @Delete(':id')
   async remove(@Param('id') id: string) {
     this.logger.log(`Deleting creative: ${id}`);
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { CreativeController } from './creative.controller';
 import { CreativeService } from './creative.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { CreativeAssetModule } from '../creative-asset/creative-asset.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, CreativeAssetModule],
   controllers: [CreativeController],
   providers: [CreativeService],
   exports: [CreativeService],
@@ -1,5 +1,8 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { CreativeAssetService } from '../creative-asset/creative-asset.service';
+import { advertiserScopeFilter } from '../auth/domain/principal';
 import { put } from '@vercel/blob';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
@@ -18,6 +21,8 @@ export class CreativeService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private tokenVault: TokenVaultService,
+    private creativeAssets: CreativeAssetService,
   ) {
     this.tiktokApiBaseUrl =
       this.configService.get<string>('TIKTOK_API_BASE_URL') || '';
@@ -136,6 +141,18 @@ export class CreativeService {
 
       this.logger.log(`Creative saved to database: ${creative.id}`);
 
+      // 素材の系譜に登録（横展開・再出稿で同じ素材を再利用できるように）
+      await this.creativeAssets.recordCopy(
+        isVideo ? 'VIDEO' : 'IMAGE',
+        file.buffer,
+        {
+          advertiserId: tiktokAdvertiserId,
+          tiktokMediaId: (isVideo ? tiktokVideoId : tiktokImageId)!,
+          origin: 'CREATIVE_UPLOAD',
+          filename: file.originalname,
+        },
+      );
+
       return creative;
     } catch (error) {
       this.logger.error('Failed to upload creative', error);
@@ -338,9 +355,11 @@ export class CreativeService {
 
   /**
    * Creative一覧取得
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
    */
-  async findAll() {
+  async findAll(advertiserId: string | undefined, scope: string[] | null) {
     return this.prisma.creative.findMany({
+      where: { advertiserId: advertiserScopeFilter(advertiserId, scope) },
       include: {
         advertiser: {
           select: {
@@ -386,9 +405,7 @@ export class CreativeService {
    * Access Token取得
    */
   async getAccessToken(tiktokAdvertiserId: string): Promise<string | null> {
-    const token = await this.prisma.oAuthToken.findUnique({
-      where: { advertiserId: tiktokAdvertiserId },
-    });
+    const token = await this.tokenVault.findByAdvertiserId(tiktokAdvertiserId);
     return token?.accessToken || null;
   }
 
@@ -551,6 +568,18 @@ export class CreativeService {
 
       this.logger.log(`Creative saved to database: ${creative.id}`);
 
+      // 素材の系譜に登録（横展開・再出稿で同じ素材を再利用できるように）
+      await this.creativeAssets.recordCopy(
+        isVideo ? 'VIDEO' : 'IMAGE',
+        fileBuffer,
+        {
+          advertiserId: tiktokAdvertiserId,
+          tiktokMediaId: (isVideo ? tiktokVideoId : tiktokImageId)!,
+          origin: 'CREATIVE_UPLOAD',
+          filename: filename,
+        },
+      );
+
       return creative;
     } catch (error) {
       this.logger.error('Failed to upload creative from Blob', error);
@@ -1,6 +1,10 @@
 import { Controller, Get, Query } from '@nestjs/common';
 import { CreatorStopRateService } from './creator-stop-rate.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
 
+@RequirePermissions(PERMISSIONS.REPORT_READ)
 @Controller('api/creator-stop-rate')
 export class CreatorStopRateController {
   constructor(
@@ -13,6 +17,7 @@ export class CreatorStopRateController {
    */
   @Get()
   async getCreatorStopRates(
+    @CurrentPrincipal() principal: AuthPrincipal,
     @Query('advertiserIds') advertiserIds?: string,
     @Query('days') days?: string,
   ) {
@@ -20,6 +25,7 @@ export class CreatorStopRateController {
       advertiserIds: advertiserIds
         ? advertiserIds.split(',').map((id) => id.trim())
         : undefined,
+      allowedAdvertiserIds: principal.advertiserIds,
       days: days ? parseInt(days, 10) : undefined,
     });
   }
@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { validateAdNameFormat } from '../common/utils/optimization-error.util';
-import { detectChannelType } from '../budget-optimization-v2/types';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
 
 interface CreatorAd {
   adName: string;
@@ -63,18 +63,24 @@ export interface CreatorStopRateResponse {
 export class CreatorStopRateService {
   private readonly logger = new Logger(CreatorStopRateService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly channelRegistry: ChannelRegistryService,
+  ) {}
 
   async getCreatorStopRates(options?: {
     advertiserIds?: string[];
+    /** 担当アカウントでの絞り込み（nullなら全アカウント） */
+    allowedAdvertiserIds?: string[] | null;
     days?: number;
   }): Promise<CreatorStopRateResponse> {
     const days = options?.days || 30;
 
     // Step 1: 対象アカウント取得
-    const advertiserIds = await this.getTargetAdvertiserIds(
-      options?.advertiserIds,
-    );
+    const allowed = options?.allowedAdvertiserIds;
+    const advertiserIds = (
+      await this.getTargetAdvertiserIds(options?.advertiserIds)
+    ).filter((id) => !allowed || allowed.includes(id));
 
     if (advertiserIds.length === 0) {
       return this.emptyResponse(days);
@@ -338,24 +344,12 @@ export class CreatorStopRateService {
       return requestedIds;
     }
 
-    // Appeal付きのAdvertiserを取得し、AI or SEMINAR のみフィルタ
-    const advertisers = await this.prisma.advertiser.findMany({
-      where: {
-        appeal: { isNot: null },
-      },
-      select: {
-        id: true,
-        appeal: { select: { name: true } },
-      },
-    });
-
-    return advertisers
-      .filter((adv) => {
-        if (!adv.appeal) return false;
-        const channelType = detectChannelType(adv.appeal.name);
-        return channelType === 'AI' || channelType === 'SEMINAR';
-      })
-      .map((adv) => adv.id);
+    // AI or SEMINAR 導線の訴求に紐づくAdvertiser
+    const advertisers = await this.channelRegistry.listAdvertisers([
+      'AI',
+      'SEMINAR',
+    ]);
+    return advertisers.map((adv) => adv.id);
   }
 
   /** YYMMDD形式に変換 */
@@ -0,0 +1,161 @@
+// ============================================================================
+// CrossDeployPlannerController - 横展開候補の提案と承認済み横展開のキュー
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { CrossDeployPlannerService } from './cross-deploy-planner.service';
+import type { RolloutApprovalInput } from './domain/cross-deploy-planner';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { inaccessibleAdvertisers } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.CROSS_DEPLOY_RUN)
+@Controller('api/cross-deploy-planner')
+export class CrossDeployPlannerController {
+  private readonly logger = new Logger(CrossDeployPlannerController.name);
+
+  constructor(private readonly plannerService: CrossDeployPlannerService) {}
+
+  /**
+   * 横展開候補（KPI達成＋CV数の多い順、展開先の提案付き）
+   * GET /api/cross-deploy-planner/candidates?appealId=xxx&days=7&minConversions=5
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
+  @Get('candidates')
+  async candidates(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('appealId') appealId?: string,
+    @Query('days') days?: string,
+    @Query('minConversions') minConversions?: string,
+  ) {
+    return this.handle('Candidates', () =>
+      this.plannerService.candidates(
+        {
+          appealId: appealId || undefined,
+          days: days ? Number(days) : undefined,
+          minConversions: minConversions ? Number(minConversions) : undefined,
+        },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  /**
+   * 展開先を承認してキューに積む
+   * POST /api/cross-deploy-planner/plans  { sourceAdvertiserId, sourceAdId, targetAdvertiserIds, dailyBudget? }
+   */
+  @Post('plans')
+  async approve(
+    @Body() body: RolloutApprovalInput,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Approve', async () => {
+      this.assertAccess(principal, [
+        body?.sourceAdvertiserId,
+        ...(Array.isArray(body?.targetAdvertiserIds)
+          ? body.targetAdvertiserIds
+          : []),
+      ]);
+      return this.plannerService.approve(body, principal.userId);
+    });
+  }
+
+  /**
+   * 横展開キュー（新しい順・最大100件）
+   * GET /api/cross-deploy-planner/rollouts?status=QUEUED&planId=xxx&targetAdvertiserId=yyy
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
+  @Get('rollouts')
+  async rollouts(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('status') status?: string,
+    @Query('planId') planId?: string,
+    @Query('targetAdvertiserId') targetAdvertiserId?: string,
+  ) {
+    return this.handle('List rollouts', () =>
+      this.plannerService.listRollouts(
+        {
+          status: status || undefined,
+          planId: planId || undefined,
+          targetAdvertiserId: targetAdvertiserId || undefined,
+        },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  /**
+   * キュー待ちの横展開を取り消す
+   * POST /api/cross-deploy-planner/rollouts/:id/cancel
+   */
+  @Post('rollouts/:id/cancel')
+  async cancel(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Cancel', () =>
+      this.plannerService.cancel(id, principal.advertiserIds),
+    );
+  }
+
+  /**
+   * 失敗した横展開をキューに戻す
+   * POST /api/cross-deploy-planner/rollouts/:id/retry
+   */
+  @Post('rollouts/:id/retry')
+  async retry(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Retry', () =>
+      this.plannerService.retry(id, principal.advertiserIds),
+    );
+  }
+
+  /**
+   * キューを今すぐ流す（上限・一時停止は定期実行と同じ）
+   * POST /api/cross-deploy-planner/rollouts/process
+   */
+  @Post('rollouts/process')
+  async process() {
+    this.logger.log('Manual rollout requested');
+    return this.handle('Process', () => this.plannerService.runNow());
+  }
+
+  private assertAccess(principal: AuthPrincipal, advertiserIds: string[]) {
+    const denied = inaccessibleAdvertisers(
+      principal,
+      advertiserIds.filter(Boolean),
+    );
+    if (denied.length > 0) {
+      throw new ForbiddenException(
+        `No access to advertisers: ${denied.join(', ')}`,
+      );
+    }
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[CROSS-DEPLOY-PLANNER] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,15 @@
+// ============================================================================
+// CrossDeployPlannerModule - 横展開候補の提案と承認済み横展開のロールアウト
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { CrossDeployPlannerService } from './cross-deploy-planner.service';
+import { CrossDeployPlannerController } from './cross-deploy-planner.controller';
+import { CrossDeployModule } from '../cross-deploy/cross-deploy.module';
+
+@Module({
+  imports: [CrossDeployModule],
+  controllers: [CrossDeployPlannerController],
+  providers: [CrossDeployPlannerService],
+})
+export class CrossDeployPlannerModule {}
@@ -0,0 +1,648 @@
+// ============================================================================
+// CrossDeployPlannerService - 勝ちCRの横展開候補の提案と承認済み横展開のロールアウト
+// 広告単位メトリクス（Metric entityType=AD）とコンバージョン台帳のCV数で勝ちCRを選び、
+// CrossDeployLog と展開先の広告名で展開済みのアカウントを除いて展開先を提案する。
+// 承認した展開先は CrossDeployRollout に積み、定期実行で CrossDeployService.crossDeploy を呼ぶ
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import type { CrossDeployRollout, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import { AutomationControlService } from '../automation-control/automation-control.service';
+import type { AutomationSkip } from '../automation-control/domain/automation-control';
+import { CrossDeployService } from '../cross-deploy/cross-deploy.service';
+import type { CrossDeployResult } from '../cross-deploy/types';
+import { toJstDate } from '../conversion-ledger/domain/conversion-ledger';
+import { addDays, type KpiAttainment } from '../dashboard/domain/dashboard';
+import {
+  DEFAULT_DAILY_CAP_PER_ACCOUNT,
+  DEFAULT_LOOKBACK_DAYS,
+  DEFAULT_MIN_CONVERSIONS,
+  MAX_ROLLOUTS_PER_RUN,
+  ROLLOUT_STATUSES,
+  evaluateCandidate,
+  isLiveCrossDeploy,
+  proposeTargets,
+  rankCandidates,
+  selectDispatchable,
+  validateApprovalInput,
+  validateCandidateQuery,
+  type CandidateQuery,
+  type DeferReason,
+  type RolloutApprovalInput,
+  type RolloutStatus,
+  type TargetExclusion,
+} from './domain/cross-deploy-planner';
+
+export interface CrossDeployCandidate {
+  sourceAdvertiserId: string;
+  sourceAdvertiserName: string;
+  sourceAdId: string;
+  sourceAdName: string;
+  appealId: string;
+  appealName: string;
+  /** 判定期間（JST, YYYY-MM-DD） */
+  period: { from: string; to: string };
+  spend: number;
+  conversions: number;
+  cpa: number | null;
+  attainment: KpiAttainment;
+  targetAdvertiserIds: string[];
+  excludedTargets: TargetExclusion[];
+}
+
+export interface RolloutRunResult {
+  dispatched: number;
+  completed: number;
+  failed: number;
+  deferred: {
+    rolloutId: string;
+    targetAdvertiserId: string;
+    reason: DeferReason;
+  }[];
+  automationSkips: AutomationSkip[];
+}
+
+/** 元広告ごとの判定結果（勝ちCRでないものも含む） */
+interface SourceEvaluation extends CrossDeployCandidate {
+  winning: boolean;
+}
+
+@Injectable()
+export class CrossDeployPlannerService implements OnModuleInit {
+  private readonly logger = new Logger(CrossDeployPlannerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly jobQueue: JobQueueService,
+    private readonly automationControl: AutomationControlService,
+    private readonly crossDeployService: CrossDeployService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.register('cross-deploy-rollout', () => this.processQueue());
+  }
+
+  // ============================================================================
+  // 候補の提案
+  // ============================================================================
+
+  /**
+   * 横展開候補（順位順）
+   * 展開先が残っていない勝ちCRは返さない
+   * @param scope 元アカウントとして扱える広告アカウント（null なら全アカウント）
+   */
+  async candidates(
+    query: CandidateQuery,
+    scope: string[] | null,
+    now: Date = new Date(),
+  ): Promise<CrossDeployCandidate[]> {
+    const errors = validateCandidateQuery(query);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid candidate query: ' + errors.join('; '),
+      );
+    }
+    const evaluations = await this.evaluateSources(
+      {
+        appealId: query.appealId,
+        days: query.days ?? DEFAULT_LOOKBACK_DAYS,
+        minConversions: query.minConversions ?? DEFAULT_MIN_CONVERSIONS,
+      },
+      scope,
+      now,
+    );
+    return rankCandidates(
+      evaluations.filter((e) => e.winning && e.targetAdvertiserIds.length > 0),
+    ).map(({ winning: _winning, ...candidate }) => candidate);
+  }
+
+  // ============================================================================
+  // 承認・キュー
+  // ============================================================================
+
+  /**
+   * 展開先を承認してキューに積む
+   * 展開先は元アカウントと同じ訴求で、まだそのクリエイティブがないアカウントに限る
+   */
+  async approve(
+    input: RolloutApprovalInput,
+    approvedBy: string | null,
+    now: Date = new Date(),
+  ): Promise<CrossDeployRollout[]> {
+    const errors = validateApprovalInput(input);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid rollout approval: ' + errors.join('; '),
+      );
+    }
+    const [evaluation] = await this.evaluateSources(
+      {
+        days: DEFAULT_LOOKBACK_DAYS,
+        minConversions: DEFAULT_MIN_CONVERSIONS,
+        sourceAdId: input.sourceAdId,
+      },
+      [input.sourceAdvertiserId],
+      now,
+    );
+    if (!evaluation) {
+      throw new NotFoundException(
+        `Active ad ${input.sourceAdId} not found in ${input.sourceAdvertiserId}`,
+      );
+    }
+
+    const rejected = input.targetAdvertiserIds.flatMap((id) => {
+      if (evaluation.targetAdvertiserIds.includes(id)) return [];
+      const exclusion = evaluation.excludedTargets.find(
+        (e) => e.advertiserId === id,
+      );
+      return [`${id} (${exclusion?.reason ?? 'NOT_SAME_APPEAL'})`];
+    });
+    if (rejected.length > 0) {
+      throw new BadRequestException(
+        `Targets cannot be rolled out: ${rejected.join(', ')}`,
+      );
+    }
+
+    const planId = randomUUID();
+    const candidate = {
+      period: evaluation.period,
+      spend: evaluation.spend,
+      conversions: evaluation.conversions,
+      cpa: evaluation.cpa,
+      attainmentStatus: evaluation.attainment.status,
+      winning: evaluation.winning,
+    };
+    const rollouts: CrossDeployRollout[] = [];
+    for (const targetAdvertiserId of input.targetAdvertiserIds) {
+      rollouts.push(
+        await this.prisma.crossDeployRollout.create({
+          data: {
+            planId,
+            sourceAdvertiserId: input.sourceAdvertiserId,
+            sourceAdId: input.sourceAdId,
+            sourceAdName: evaluation.sourceAdName,
+            targetAdvertiserId,
+            dailyBudget: input.dailyBudget ?? null,
+            candidate: candidate as Prisma.InputJsonValue,
+            approvedBy,
+          },
+        }),
+      );
+    }
+    this.logger.log(
+      `[CROSS-DEPLOY-PLANNER] Approved ${input.sourceAdId} → ${input.targetAdvertiserIds.join(', ')} (plan ${planId})`,
+    );
+    return rollouts;
+  }
+
+  async listRollouts(
+    filters: { status?: string; planId?: string; targetAdvertiserId?: string },
+    scope: string[] | null,
+  ): Promise<CrossDeployRollout[]> {
+    if (
+      filters.status &&
+      !ROLLOUT_STATUSES.includes(filters.status as RolloutStatus)
+    ) {
+      throw new BadRequestException(
+        `status must be one of ${ROLLOUT_STATUSES.join(', ')}`,
+      );
+    }
+    return this.prisma.crossDeployRollout.findMany({
+      where: {
+        status: filters.status,
+        planId: filters.planId,
+        targetAdvertiserId: filters.targetAdvertiserId,
+        ...(scope !== null && {
+          OR: [
+            { sourceAdvertiserId: { in: scope } },
+            { targetAdvertiserId: { in: scope } },
+          ],
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /** キュー待ちの横展開を取り消す */
+  async cancel(
+    id: string,
+    scope: string[] | null,
+  ): Promise<CrossDeployRollout> {
+    const rollout = await this.findRollout(id, scope);
+    return this.transition(rollout, 'QUEUED', {
+      status: 'CANCELLED',
+      finishedAt: new Date(),
+    });
+  }
+
+  /** 失敗した横展開をキューに戻す（次回の実行で最初からやり直す） */
+  async retry(id: string, scope: string[] | null): Promise<CrossDeployRollout> {
+    const rollout = await this.findRollout(id, scope);
+    return this.transition(rollout, 'FAILED', {
+      status: 'QUEUED',
+      failedStep: null,
+      errorMessage: null,
+      startedAt: null,
+      finishedAt: null,
+    });
+  }
+
+  // ============================================================================
+  // ロールアウト（定期実行）
+  // ============================================================================
+
+  @Cron('*/30 * * * *', {
+    name: 'cross-deploy-rollout',
+    timeZone: 'Asia/Tokyo',
+  })
+  async scheduleRollout() {
+    await this.jobQueue.run('cross-deploy-rollout', () => this.processQueue());
+  }
+
+  /** 手動実行（POST /api/cross-deploy-planner/rollouts/process） */
+  async runNow() {
+    return this.jobQueue.run(
+      'cross-deploy-rollout',
+      () => this.processQueue(),
+      {
+        trigger: 'API',
+      },
+    );
+  }
+
+  /**
+   * キュー待ちの横展開を古い順に流す
+   * 自動化の一時停止中・当日の上限に達した展開先と、1回の実行上限を超えた分はキューに残す
+   */
+  async processQueue(now: Date = new Date()): Promise<RolloutRunResult> {
+    const queued = await this.prisma.crossDeployRollout.findMany({
+      where: { status: 'QUEUED' },
+      orderBy: { createdAt: 'asc' },
+    });
+    const gate = await this.automationControl.gate('CROSS_DEPLOY_ROLLOUT', [
+      ...new Set(queued.map((r) => r.targetAdvertiserId)),
+    ]);
+    const { dispatch, deferred } = selectDispatchable(
+      queued.filter((r) => gate.allowed.includes(r.targetAdvertiserId)),
+      await this.deployedToday(now),
+      this.dailyCap(),
+      MAX_ROLLOUTS_PER_RUN,
+    );
+
+    // 同じ元広告・日予算の展開先は1回の crossDeploy にまとめる（元動画のダウンロードを1回で済ませる）
+    const groups = new Map<string, CrossDeployRollout[]>();
+    for (const rollout of dispatch) {
+      const key = `${rollout.sourceAdvertiserId}|${rollout.sourceAdId}|${rollout.dailyBudget ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), rollout]);
+    }
+
+    const result: RolloutRunResult = {
+      dispatched: 0,
+      completed: 0,
+      failed: 0,
+      deferred: deferred.map(({ item, reason }) => ({
+        rolloutId: item.id,
+        targetAdvertiserId: item.targetAdvertiserId,
+        reason,
+      })),
+      automationSkips: gate.skipped,
+    };
+    for (const group of groups.values()) {
+      const claimed = await this.claim(group);
+      if (claimed.length === 0) continue;
+      result.dispatched += claimed.length;
+      for (const status of await this.deploy(claimed)) {
+        if (status === 'COMPLETED') result.completed++;
+        else result.failed++;
+      }
+    }
+
+    this.logger.log(
+      `[CROSS-DEPLOY-PLANNER] Rollout: dispatched=${result.dispatched}, completed=${result.completed}, failed=${result.failed}, deferred=${result.deferred.length}, skipped=${result.automationSkips.length}`,
+    );
+    return result;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  /**
+   * 元広告（配信中）の実績・KPI達成状況と展開先の振り分け
+   * 展開先の判定には担当範囲外のアカウントも含める（同じ訴求の全アカウントを見る）
+   */
+  private async evaluateSources(
+    options: {
+      appealId?: string;
+      days: number;
+      minConversions: number;
+      sourceAdId?: string;
+    },
+    scope: string[] | null,
+    now: Date,
+  ): Promise<SourceEvaluation[]> {
+    const to = addDays(toJstDate(now), -1);
+    const period = { from: addDays(to, -(options.days - 1)), to };
+
+    const advertisers = await this.prisma.advertiser.findMany({
+      where: { appealId: { not: null }, status: 'ACTIVE' },
+      include: { appeal: true },
+    });
+    const campaigns = await this.prisma.campaign.findMany({
+      where: { advertiserId: { in: advertisers.map((a) => a.id) } },
+      include: {
+        adGroups: {
+          select: {
+            ads: {
+              select: { id: true, tiktokId: true, name: true, status: true },
+            },
+          },
+        },
+      },
+    });
+
+    // アカウントごとの配信中の広告
+    const activeAds = new Map<
+      string,
+      { id: string; tiktokId: string; name: string }[]
+    >();
+    for (const campaign of campaigns) {
+      for (const adGroup of campaign.adGroups) {
+        for (const ad of adGroup.ads) {
+          if (ad.status !== 'ENABLE') continue;
+          activeAds.set(campaign.advertiserId, [
+            ...(activeAds.get(campaign.advertiserId) ?? []),
+            ad,
+          ]);
+        }
+      }
+    }
+
+    const sources = advertisers
+      .filter(
+        (advertiser) =>
+          (scope === null || scope.includes(advertiser.tiktokAdvertiserId)) &&
+          (!options.appealId || advertiser.appealId === options.appealId),
+      )
+      .flatMap((advertiser) =>
+        (activeAds.get(advertiser.id) ?? [])
+          .filter(
+            (ad) => !options.sourceAdId || ad.tiktokId === options.sourceAdId,
+          )
+          .map((ad) => ({ advertiser, ad })),
+      );
+    if (sources.length === 0) return [];
+
+    const adIds = sources.map((s) => s.ad.id);
+    const sourceAdIds = sources.map((s) => s.ad.tiktokId);
+    const [metrics, conversions, logs, rollouts] = await Promise.all([
+      this.prisma.metric.findMany({
+        where: {
+          entityType: 'AD',
+          adId: { in: adIds },
+          statDate: {
+            gte: new Date(`${period.from}T00:00:00.000Z`),
+            lte: new Date(`${period.to}T00:00:00.000Z`),
+          },
+        },
+        select: { adId: true, spend: true },
+      }),
+      this.prisma.conversionEvent.findMany({
+        where: {
+          kind: 'CV',
+          adId: { in: adIds },
+          jstDate: { gte: period.from, lte: period.to },
+        },
+        select: { adId: true },
+      }),
+      this.prisma.crossDeployLog.findMany({
+        where: { sourceAdId: { in: sourceAdIds } },
+        select: {
+          sourceAdId: true,
+          targetAdvertiserId: true,
+          status: true,
+          adId: true,
+        },
+      }),
+      this.prisma.crossDeployRollout.findMany({
+        where: {
+          sourceAdId: { in: sourceAdIds },
+          status: { in: ['QUEUED', 'RUNNING'] },
+        },
+        select: { sourceAdId: true, targetAdvertiserId: true },
+      }),
+    ]);
+
+    const spendByAd = new Map<string, number>();
+    for (const metric of metrics) {
+      if (!metric.adId) continue;
+      spendByAd.set(
+        metric.adId,
+        (spendByAd.get(metric.adId) ?? 0) + metric.spend,
+      );
+    }
+    const cvByAd = new Map<string, number>();
+    for (const event of conversions) {
+      if (!event.adId) continue;
+      cvByAd.set(event.adId, (cvByAd.get(event.adId) ?? 0) + 1);
+    }
+    const targetsOf = (
+      rows: { sourceAdId: string; targetAdvertiserId: string }[],
+      sourceAdId: string,
+    ) =>
+      new Set(
+        rows
+          .filter((row) => row.sourceAdId === sourceAdId)
+          .map((row) => row.targetAdvertiserId),
+      );
+
+    return sources.map(({ advertiser, ad }) => {
+      const appeal = advertiser.appeal!;
+      const performance = {
+        spend: spendByAd.get(ad.id) ?? 0,
+        conversions: cvByAd.get(ad.id) ?? 0,
+      };
+      const evaluation = evaluateCandidate(
+        performance,
+        appeal,
+        options.minConversions,
+      );
+      const siblings = advertisers
+        .filter(
+          (other) => other.appealId === appeal.id && other.id !== advertiser.id,
+        )
+        .map((other) => ({
+          advertiserId: other.tiktokAdvertiserId,
+          adNames: (activeAds.get(other.id) ?? []).map((a) => a.name),
+        }));
+      const { targets, excluded } = proposeTargets(
+        ad.name,
+        siblings,
+        targetsOf(logs.filter(isLiveCrossDeploy), ad.tiktokId),
+        targetsOf(rollouts, ad.tiktokId),
+      );
+      return {
+        sourceAdvertiserId: advertiser.tiktokAdvertiserId,
+        sourceAdvertiserName: advertiser.name,
+        sourceAdId: ad.tiktokId,
+        sourceAdName: ad.name,
+        appealId: appeal.id,
+        appealName: appeal.name,
+        period,
+        ...performance,
+        ...evaluation,
+        targetAdvertiserIds: targets,
+        excludedTargets: excluded,
+      };
+    });
+  }
+
+  /** 展開先アカウント別の当日（JST）の横展開数（手動の横展開を含む。失敗・ドライランは除く） */
+  private async deployedToday(now: Date): Promise<Map<string, number>> {
+    const logs = await this.prisma.crossDeployLog.findMany({
+      where: {
+        createdAt: { gte: new Date(`${toJstDate(now)}T00:00:00+09:00`) },
+      },
+      select: { targetAdvertiserId: true, status: true, adId: true },
+    });
+    const counts = new Map<string, number>();
+    for (const log of logs.filter(isLiveCrossDeploy)) {
+      counts.set(
+        log.targetAdvertiserId,
+        (counts.get(log.targetAdvertiserId) ?? 0) + 1,
+      );
+    }
+    return counts;
+  }
+
+  /** QUEUED → RUNNING を条件付きで更新し、取れたものだけを返す（多重実行で二重に出稿しない） */
+  private async claim(
+    rollouts: CrossDeployRollout[],
+  ): Promise<CrossDeployRollout[]> {
+    const claimed: CrossDeployRollout[] = [];
+    for (const rollout of rollouts) {
+      const { count } = await this.prisma.crossDeployRollout.updateMany({
+        where: { id: rollout.id, status: 'QUEUED' },
+        data: {
+          status: 'RUNNING',
+          attempts: rollout.attempts + 1,
+          startedAt: new Date(),
+        },
+      });
+      if (count > 0) claimed.push(rollout);
+    }
+    return claimed;
+  }
+
+  /** 同じ元広告の展開先をまとめて横展開し、結果を記録する */
+  private async deploy(
+    rollouts: CrossDeployRollout[],
+  ): Promise<('COMPLETED' | 'FAILED')[]> {
+    const [first] = rollouts;
+    let results: CrossDeployResult[];
+    try {
+      results = await this.crossDeployService.crossDeploy({
+        sourceAdvertiserId: first.sourceAdvertiserId,
+        sourceAdId: first.sourceAdId,
+        targetAdvertiserIds: rollouts.map((r) => r.targetAdvertiserId),
+        mode: 'SMART_PLUS',
+        dailyBudget: first.dailyBudget ?? undefined,
+      });
+    } catch (error) {
+      // 元広告の取得・動画のダウンロードで失敗した場合は全展開先を失敗にする
+      this.logger.error(
+        `[CROSS-DEPLOY-PLANNER] Cross deploy of ${first.sourceAdId} failed: ${error.message}`,
+      );
+      results = rollouts.map((r) => ({
+        targetAdvertiserId: r.targetAdvertiserId,
+        status: 'FAILED',
+        mode: 'SMART_PLUS',
+        error: error.message,
+        failedStep: 'SOURCE_FETCH',
+      }));
+    }
+
+    const statuses: ('COMPLETED' | 'FAILED')[] = [];
+    for (const rollout of rollouts) {
+      const deployed = results.find(
+        (r) => r.targetAdvertiserId === rollout.targetAdvertiserId,
+      );
+      const status = deployed?.status === 'SUCCESS' ? 'COMPLETED' : 'FAILED';
+      await this.prisma.crossDeployRollout.update({
+        where: { id: rollout.id },
+        data: {
+          status,
+          failedStep: deployed?.failedStep ?? null,
+          errorMessage:
+            status === 'FAILED'
+              ? (deployed?.error ?? 'No result from cross deploy')
+              : null,
+          adName: deployed?.adName ?? null,
+          crNumber: deployed?.crNumber ?? null,
+          campaignId: deployed?.campaignId ?? null,
+          adgroupId: deployed?.adgroupId ?? null,
+          adId: deployed?.adId ?? null,
+          finishedAt: new Date(),
+        },
+      });
+      statuses.push(status);
+    }
+    return statuses;
+  }
+
+  private async findRollout(
+    id: string,
+    scope: string[] | null,
+  ): Promise<CrossDeployRollout> {
+    const rollout = await this.prisma.crossDeployRollout.findUnique({
+      where: { id },
+    });
+    if (
+      !rollout ||
+      (scope !== null && !scope.includes(rollout.targetAdvertiserId))
+    ) {
+      throw new NotFoundException(`Cross deploy rollout not found: ${id}`);
+    }
+    return rollout;
+  }
+
+  private async transition(
+    rollout: CrossDeployRollout,
+    from: RolloutStatus,
+    data: Prisma.CrossDeployRolloutUpdateManyMutationInput,
+  ): Promise<CrossDeployRollout> {
+    const { count } = await this.prisma.crossDeployRollout.updateMany({
+      where: { id: rollout.id, status: from },
+      data,
+    });
+    if (count === 0) {
+      throw new BadRequestException(
+        `Only ${from} rollouts can be changed (status: ${rollout.status})`,
+      );
+    }
+    return this.prisma.crossDeployRollout.findUniqueOrThrow({
+      where: { id: rollout.id },
+    });
+  }
+
+  /** 展開先アカウントごとの1日の上限（CROSS_DEPLOY_DAILY_CAP_PER_ACCOUNT） */
+  private dailyCap(): number {
+    const configured = Number(
+      this.configService.get<string>('CROSS_DEPLOY_DAILY_CAP_PER_ACCOUNT'),
+    );
+    return configured > 0 ? configured : DEFAULT_DAILY_CAP_PER_ACCOUNT;
+  }
+}
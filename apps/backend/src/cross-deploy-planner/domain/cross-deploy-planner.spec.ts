@@ -0,0 +1,172 @@
+import {
+  creativeKeyOf,
+  evaluateCandidate,
+  isLiveCrossDeploy,
+  isSameCreative,
+  proposeTargets,
+  rankCandidates,
+  selectDispatchable,
+  validateApprovalInput,
+} from './cross-deploy-planner';
+
+const targets = {
+  targetCPA: 3000,
+  allowableCPA: 4000,
+  targetFrontCPO: null,
+  allowableFrontCPO: null,
+};
+
+describe('creativeKeyOf / isSameCreative', () => {
+  it('CR番号か制作者/CR名が一致すれば同じクリエイティブとみなす', () => {
+    const source = creativeKeyOf('260301/山田/勝ちCR/LP2-CR00468');
+    expect(source).toEqual({ crNumber: 468, label: '山田/勝ちCR' });
+
+    // 横展開先ではCR番号が変わっても制作者/CR名は同じ
+    expect(
+      isSameCreative(source, creativeKeyOf('260305/山田/勝ちCR/LP2-CR00512')),
+    ).toBe(true);
+    expect(isSameCreative(source, creativeKeyOf('winning_CR468.mp4'))).toBe(
+      true,
+    );
+    expect(
+      isSameCreative(source, creativeKeyOf('260301/佐藤/別CR/LP2-CR00469')),
+    ).toBe(false);
+  });
+});
+
+describe('evaluateCandidate', () => {
+  it('CV数が下限以上で、CPAが許容以下なら勝ちCR', () => {
+    expect(
+      evaluateCandidate({ spend: 15000, conversions: 5 }, targets, 5),
+    ).toMatchObject({
+      cpa: 3000,
+      attainment: { status: 'ACHIEVED' },
+      winning: true,
+    });
+    expect(
+      evaluateCandidate({ spend: 20000, conversions: 5 }, targets, 5).winning,
+    ).toBe(true);
+    // 許容超過・CV数不足は対象外
+    expect(
+      evaluateCandidate({ spend: 25000, conversions: 5 }, targets, 5).winning,
+    ).toBe(false);
+    expect(
+      evaluateCandidate({ spend: 8000, conversions: 4 }, targets, 5).winning,
+    ).toBe(false);
+  });
+
+  it('訴求に目標・許容CPAがなければ判定しない', () => {
+    expect(
+      evaluateCandidate(
+        { spend: 15000, conversions: 10 },
+        { ...targets, targetCPA: null, allowableCPA: null },
+        5,
+      ),
+    ).toMatchObject({ attainment: { status: 'NO_TARGET' }, winning: false });
+  });
+});
+
+describe('rankCandidates', () => {
+  it('目標達成 → 許容内、同じ達成状況ならCV数・目標CPA比の順に並べる', () => {
+    const candidate = (id: string, spend: number, conversions: number) => ({
+      id,
+      conversions,
+      ...evaluateCandidate({ spend, conversions }, targets, 1),
+    });
+    const ranked = rankCandidates([
+      candidate('within', 35000, 10),
+      candidate('few', 10000, 5),
+      candidate('many', 25000, 10),
+      candidate('cheap', 20000, 10),
+    ]);
+    expect(ranked.map((c) => c.id)).toEqual(['cheap', 'many', 'few', 'within']);
+  });
+});
+
+describe('proposeTargets', () => {
+  it('同じクリエイティブが配信中・横展開済み・キュー待ちのアカウントを除外する', () => {
+    expect(
+      proposeTargets(
+        '260301/山田/勝ちCR/LP2-CR00468',
+        [
+          {
+            advertiserId: 'running',
+            adNames: ['260305/山田/勝ちCR/LP2-CR00512'],
+          },
+          { advertiserId: 'deployed', adNames: [] },
+          { advertiserId: 'queued', adNames: [] },
+          { advertiserId: 'open', adNames: ['260301/佐藤/別CR/LP1-CR00100'] },
+        ],
+        new Set(['deployed']),
+        new Set(['queued']),
+      ),
+    ).toEqual({
+      targets: ['open'],
+      excluded: [
+        { advertiserId: 'running', reason: 'ALREADY_RUNNING' },
+        { advertiserId: 'deployed', reason: 'CROSS_DEPLOYED' },
+        { advertiserId: 'queued', reason: 'IN_QUEUE' },
+      ],
+    });
+  });
+
+  it('失敗・ドライランの横展開ログは展開済みに数えない', () => {
+    expect(isLiveCrossDeploy({ status: 'FAILED', adId: null })).toBe(false);
+    expect(isLiveCrossDeploy({ status: 'COMPLETED', adId: null })).toBe(false);
+    expect(isLiveCrossDeploy({ status: 'COMPLETED', adId: 'ad-1' })).toBe(true);
+    expect(isLiveCrossDeploy({ status: 'UTAGE_CREATED', adId: null })).toBe(
+      true,
+    );
+  });
+});
+
+describe('selectDispatchable', () => {
+  it('展開先の1日上限と1回の実行上限を超えた分は次回以降に回す', () => {
+    const item = (id: string, targetAdvertiserId: string) => ({
+      id,
+      targetAdvertiserId,
+    });
+    const { dispatch, deferred } = selectDispatchable(
+      [
+        item('1', 'a'),
+        item('2', 'a'),
+        item('3', 'b'),
+        item('4', 'c'),
+        item('5', 'd'),
+      ],
+      new Map([['b', 2]]),
+      2,
+      2,
+    );
+    expect(dispatch.map((d) => d.id)).toEqual(['1', '2']);
+    expect(deferred.map((d) => [d.item.id, d.reason])).toEqual([
+      ['3', 'DAILY_CAP'],
+      ['4', 'RUN_LIMIT'],
+      ['5', 'RUN_LIMIT'],
+    ]);
+  });
+});
+
+describe('validateApprovalInput', () => {
+  it('展開先の重複・元アカウントの指定・日予算を検証する', () => {
+    expect(
+      validateApprovalInput({
+        sourceAdvertiserId: 'a',
+        sourceAdId: 'ad',
+        targetAdvertiserIds: ['b'],
+      }),
+    ).toEqual([]);
+    expect(
+      validateApprovalInput({
+        sourceAdvertiserId: 'a',
+        targetAdvertiserIds: ['b', 'b', 'a'],
+        dailyBudget: 0,
+      }),
+    ).toEqual([
+      'sourceAdId is required',
+      'targetAdvertiserIds must not contain duplicates',
+      'targetAdvertiserIds must not include the source account',
+      'dailyBudget must be a positive number',
+    ]);
+  });
+});
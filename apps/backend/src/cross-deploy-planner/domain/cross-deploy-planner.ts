@@ -0,0 +1,274 @@
+// ============================================================================
+// 横展開プランナー（純粋関数）
+// 直近の実績で勝ちCR（KPI達成＋CV数）を選んで順位付けし、同じ訴求のアカウントのうち
+// まだそのクリエイティブを配信していないアカウントを展開先として提案する。
+// 承認済みの横展開はアカウント別の1日上限・1回の実行上限の範囲でキューから流す
+// ============================================================================
+
+import {
+  emptyDailyTotals,
+  evaluateAttainment,
+  summarizeKpi,
+  type AppealTargets,
+  type KpiAttainment,
+} from '../../dashboard/domain/dashboard';
+
+/** CrossDeployRollout.status */
+export type RolloutStatus =
+  | 'QUEUED'
+  | 'RUNNING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'CANCELLED';
+
+export const ROLLOUT_STATUSES: RolloutStatus[] = [
+  'QUEUED',
+  'RUNNING',
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+];
+
+/** 勝ちCRの判定期間（前日までの日数） */
+export const DEFAULT_LOOKBACK_DAYS = 7;
+export const MAX_LOOKBACK_DAYS = 30;
+
+/** 勝ちCRとみなす期間内のCV数の下限 */
+export const DEFAULT_MIN_CONVERSIONS = 5;
+
+/** 展開先アカウントごとの1日（JST）の横展開数の上限（手動の横展開も数える） */
+export const DEFAULT_DAILY_CAP_PER_ACCOUNT = 2;
+
+/** 1回のキュー実行で流す横展開の上限（動画のダウンロード・アップロードを直列で行うため） */
+export const MAX_ROLLOUTS_PER_RUN = 3;
+
+/**
+ * 展開先から外した理由
+ * ALREADY_RUNNING: 同じクリエイティブの広告が配信中 / CROSS_DEPLOYED: 横展開ログあり / IN_QUEUE: キューに積まれている
+ */
+export type TargetExclusionReason =
+  | 'ALREADY_RUNNING'
+  | 'CROSS_DEPLOYED'
+  | 'IN_QUEUE';
+
+export interface TargetExclusion {
+  advertiserId: string;
+  reason: TargetExclusionReason;
+}
+
+/** 広告名から読み取るクリエイティブの識別子 */
+export interface CreativeKey {
+  /** LP-CR部分のCR番号 */
+  crNumber: number | null;
+  /** 制作者/CR名（横展開・再出稿ではCR番号が変わってもこの部分は引き継がれる） */
+  label: string | null;
+}
+
+export interface CandidatePerformance {
+  spend: number;
+  conversions: number;
+}
+
+export interface CandidateEvaluation {
+  cpa: number | null;
+  attainment: KpiAttainment;
+  /** KPI達成（目標 or 許容以下）かつCV数が下限以上 */
+  winning: boolean;
+}
+
+export interface CandidateQuery {
+  appealId?: string;
+  days?: number;
+  minConversions?: number;
+}
+
+export interface RolloutApprovalInput {
+  sourceAdvertiserId: string;
+  sourceAdId: string;
+  targetAdvertiserIds: string[];
+  dailyBudget?: number;
+}
+
+/** 展開先ごとの判定材料 */
+export interface SiblingAccount {
+  advertiserId: string;
+  /** 配信中の広告名 */
+  adNames: string[];
+}
+
+export type DeferReason = 'DAILY_CAP' | 'RUN_LIMIT';
+
+export function validateCandidateQuery(query: CandidateQuery): string[] {
+  const errors: string[] = [];
+  if (
+    query.days !== undefined &&
+    !(
+      Number.isInteger(query.days) &&
+      query.days >= 1 &&
+      query.days <= MAX_LOOKBACK_DAYS
+    )
+  ) {
+    errors.push(`days must be an integer between 1 and ${MAX_LOOKBACK_DAYS}`);
+  }
+  if (
+    query.minConversions !== undefined &&
+    !(Number.isInteger(query.minConversions) && query.minConversions >= 1)
+  ) {
+    errors.push('minConversions must be a positive integer');
+  }
+  return errors;
+}
+
+export function validateApprovalInput(
+  input: Partial<RolloutApprovalInput>,
+): string[] {
+  const errors: string[] = [];
+  if (!input.sourceAdvertiserId) errors.push('sourceAdvertiserId is required');
+  if (!input.sourceAdId) errors.push('sourceAdId is required');
+  const targets = input.targetAdvertiserIds;
+  if (
+    !Array.isArray(targets) ||
+    targets.length === 0 ||
+    targets.some((id) => typeof id !== 'string' || !id)
+  ) {
+    errors.push('targetAdvertiserIds must be a non-empty array of strings');
+  } else {
+    if (new Set(targets).size !== targets.length) {
+      errors.push('targetAdvertiserIds must not contain duplicates');
+    }
+    if (targets.includes(input.sourceAdvertiserId!)) {
+      errors.push('targetAdvertiserIds must not include the source account');
+    }
+  }
+  if (
+    input.dailyBudget !== undefined &&
+    !(Number.isFinite(input.dailyBudget) && input.dailyBudget > 0)
+  ) {
+    errors.push('dailyBudget must be a positive number');
+  }
+  return errors;
+}
+
+/** 広告名（YYMMDD/制作者/CR名/LP{n}-CR{00000}）からクリエイティブの識別子を読み取る */
+export function creativeKeyOf(adName: string): CreativeKey {
+  const crMatch = adName.match(/CR(\d+)/);
+  const parts = adName.split('/');
+  return {
+    crNumber: crMatch ? parseInt(crMatch[1], 10) : null,
+    label: parts.length >= 3 ? `${parts[1]}/${parts[2]}` : null,
+  };
+}
+
+/** CR番号か制作者/CR名のどちらかが一致すれば同じクリエイティブとみなす */
+export function isSameCreative(a: CreativeKey, b: CreativeKey): boolean {
+  return (
+    (a.crNumber !== null && a.crNumber === b.crNumber) ||
+    (a.label !== null && a.label === b.label)
+  );
+}
+
+/** 訴求の目標・許容CPAに対する達成状況と勝ちCRの判定 */
+export function evaluateCandidate(
+  performance: CandidatePerformance,
+  targets: AppealTargets,
+  minConversions: number,
+): CandidateEvaluation {
+  const kpi = summarizeKpi([
+    {
+      ...emptyDailyTotals(''),
+      spend: performance.spend,
+      conversions: performance.conversions,
+    },
+  ]);
+  const attainment = evaluateAttainment(kpi, targets).cpa;
+  return {
+    cpa: attainment.value,
+    attainment,
+    winning:
+      performance.conversions >= minConversions &&
+      (attainment.status === 'ACHIEVED' ||
+        attainment.status === 'WITHIN_ALLOWABLE'),
+  };
+}
+
+/**
+ * 候補の順位付け
+ * 目標達成 → 許容内の順に、同じ達成状況ならCV数が多い順、同数なら目標CPA比が低い順
+ */
+export function rankCandidates<
+  T extends { attainment: KpiAttainment; conversions: number },
+>(candidates: T[]): T[] {
+  const statusRank = (c: T) => (c.attainment.status === 'ACHIEVED' ? 0 : 1);
+  return [...candidates].sort(
+    (a, b) =>
+      statusRank(a) - statusRank(b) ||
+      b.conversions - a.conversions ||
+      (a.attainment.ratioToTarget ?? Infinity) -
+        (b.attainment.ratioToTarget ?? Infinity),
+  );
+}
+
+/**
+ * 横展開ログのうち、展開済み（または実行中）とみなすもの
+ * 失敗したもの・ドライラン（広告を作らずに完了）は数えない
+ */
+export function isLiveCrossDeploy(log: {
+  status: string;
+  adId: string | null;
+}): boolean {
+  if (log.status === 'FAILED') return false;
+  return !(log.status === 'COMPLETED' && !log.adId);
+}
+
+/** 同じ訴求のアカウントを展開先と除外に振り分ける */
+export function proposeTargets(
+  sourceAdName: string,
+  siblings: SiblingAccount[],
+  crossDeployed: Set<string>,
+  queued: Set<string>,
+): { targets: string[]; excluded: TargetExclusion[] } {
+  const key = creativeKeyOf(sourceAdName);
+  const targets: string[] = [];
+  const excluded: TargetExclusion[] = [];
+  for (const sibling of siblings) {
+    const reason: TargetExclusionReason | null = sibling.adNames.some((name) =>
+      isSameCreative(key, creativeKeyOf(name)),
+    )
+      ? 'ALREADY_RUNNING'
+      : crossDeployed.has(sibling.advertiserId)
+        ? 'CROSS_DEPLOYED'
+        : queued.has(sibling.advertiserId)
+          ? 'IN_QUEUE'
+          : null;
+    if (reason) excluded.push({ advertiserId: sibling.advertiserId, reason });
+    else targets.push(sibling.advertiserId);
+  }
+  return { targets, excluded };
+}
+
+/**
+ * キューから今回流すものを選ぶ（古い順）
+ * 展開先アカウントの当日の横展開数が上限に達していれば翌日以降に回し、1回の実行上限を超えた分は次回に回す
+ */
+export function selectDispatchable<T extends { targetAdvertiserId: string }>(
+  queued: T[],
+  deployedToday: Map<string, number>,
+  dailyCap: number,
+  maxPerRun: number,
+): { dispatch: T[]; deferred: { item: T; reason: DeferReason }[] } {
+  const counts = new Map(deployedToday);
+  const dispatch: T[] = [];
+  const deferred: { item: T; reason: DeferReason }[] = [];
+  for (const item of queued) {
+    const count = counts.get(item.targetAdvertiserId) ?? 0;
+    if (count >= dailyCap) {
+      deferred.push({ item, reason: 'DAILY_CAP' });
+    } else if (dispatch.length >= maxPerRun) {
+      deferred.push({ item, reason: 'RUN_LIMIT' });
+    } else {
+      dispatch.push(item);
+      counts.set(item.targetAdvertiserId, count + 1);
+    }
+  }
+  return { dispatch, deferred };
+}
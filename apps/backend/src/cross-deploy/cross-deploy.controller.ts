@@ -12,7 +12,10 @@ import {
 } from '@nestjs/common';
 import { CrossDeployService } from './cross-deploy.service';
 import { CrossDeployInput } from './types';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.CROSS_DEPLOY_RUN)
 @Controller('api/cross-deploy')
 export class CrossDeployController {
   private readonly logger = new Logger(CrossDeployController.name);
@@ -23,6 +26,7 @@ export class CrossDeployController {
    * 元広告のプレビュー
    * GET /api/cross-deploy/preview?sourceAdvertiserId=xxx&sourceAdId=yyy
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
   @Get('preview')
   async preview(
     @Query('sourceAdvertiserId') sourceAdvertiserId: string,
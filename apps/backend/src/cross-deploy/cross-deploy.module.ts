@@ -3,9 +3,10 @@ import { CrossDeployService } from './cross-deploy.service';
 import { CrossDeployController } from './cross-deploy.controller';
 import { TiktokModule } from '../tiktok/tiktok.module';
 import { UtageModule } from '../utage/utage.module';
+import { CreativeAssetModule } from '../creative-asset/creative-asset.module';
 
 @Module({
-  imports: [TiktokModule, UtageModule],
+  imports: [TiktokModule, UtageModule, CreativeAssetModule],
   controllers: [CrossDeployController],
   providers: [CrossDeployService],
   exports: [CrossDeployService],
@@ -2,11 +2,27 @@
  * 横展開サービス
  * Smart+広告/通常配信の両対応でアカウント間の広告横展開を実行
  */
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { UtageService } from '../utage/utage.service';
-import { DEFAULT_DAILY_BUDGET, DEEP_FUNNEL_CONFIG } from '../utage/utage.types';
+import { CreativeAssetService } from '../creative-asset/creative-asset.service';
+import { DEEP_FUNNEL_CONFIG } from '../utage/utage.types';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import {
+  DEFAULT_DAILY_BUDGET_BY_CHANNEL,
+  channelTypeFromFunnelName,
+  toFunnelName,
+  type AppealChannelRecord,
+  type ChannelType,
+} from '../channel-registry/domain/channel';
+import {
+  adNameErrors,
+  formatAdName,
+  launchDateOf,
+  parseAdName,
+} from '../ad-naming/domain/ad-name';
 import { CrossDeployInput, CrossDeployResult, PreviewResult } from './types';
 
 @Injectable()
@@ -17,6 +33,9 @@ export class CrossDeployService {
     private prisma: PrismaService,
     private tiktokService: TiktokService,
     private utageService: UtageService,
+    private tokenVault: TokenVaultService,
+    private channelRegistry: ChannelRegistryService,
+    private creativeAssets: CreativeAssetService,
   ) {}
 
   /**
@@ -57,6 +76,16 @@ export class CrossDeployService {
       `横展開開始: ${input.sourceAdId} → ${input.targetAdvertiserIds.join(', ')} (mode: ${input.mode})`,
     );
 
+    // 上書きする広告名も命名規則に従わないと自動化の対象外になる
+    if (input.adNameOverride !== undefined) {
+      const errors = adNameErrors(input.adNameOverride);
+      if (errors.length > 0) {
+        throw new BadRequestException(
+          'Invalid cross deploy: ' + errors.join('; '),
+        );
+      }
+    }
+
     // 1. 元広告データ取得
     const sourceToken = await this.getAccessToken(input.sourceAdvertiserId);
     const sourceDetail = await this.tiktokService.getSmartPlusAdFullDetail(
@@ -73,7 +102,7 @@ export class CrossDeployService {
     }
 
     // 3. 元広告名からappeal/LP番号を抽出
-    const { appeal, lpNumber } = this.parseAdNameForAppeal(
+    const { appeal, lpNumber } = await this.parseAdNameForAppeal(
       sourceDetail.adName,
       input.sourceAdvertiserId,
     );
@@ -100,6 +129,11 @@ export class CrossDeployService {
         const resp = await fetch(imageUrl);
         const buffer = Buffer.from(await resp.arrayBuffer());
         imageBuffers.set(imageId, buffer);
+        await this.creativeAssets.recordCopy('IMAGE', buffer, {
+          advertiserId: input.sourceAdvertiserId,
+          tiktokMediaId: imageId,
+          origin: 'SOURCE',
+        });
         await new Promise((r) => setTimeout(r, 100));
       }
     }
@@ -136,6 +170,11 @@ export class CrossDeployService {
 
         const buffer = await this.tiktokService.downloadVideo(downloadUrl);
         videoBuffers.set(videoId, buffer);
+        await this.creativeAssets.recordCopy('VIDEO', buffer, {
+          advertiserId: input.sourceAdvertiserId,
+          tiktokMediaId: videoId,
+          origin: 'SOURCE',
+        });
         await new Promise((r) => setTimeout(r, 100));
       }
     }
@@ -208,35 +247,41 @@ export class CrossDeployService {
         );
       }
 
-      // i. 動画をターゲットにアップロード
+      // i. 動画をターゲットにアップロード（同じ動画が既にあれば再利用）
       const videoMapping: Record<string, string> = {};
       for (const videoId of videoIdsToUse) {
         const buffer = videoBuffers.get(videoId)!;
-        const newVideoId = await this.tiktokService.uploadVideoToAccount(
-          targetAdvertiserId,
-          targetToken,
+        const upload = await this.creativeAssets.uploadVideo({
+          advertiserId: targetAdvertiserId,
+          accessToken: targetToken,
           buffer,
-          `cross_deploy_${videoId}.mp4`,
-        );
-        videoMapping[videoId] = newVideoId;
-        await this.tiktokService.waitForVideoReady(
-          targetAdvertiserId,
-          targetToken,
-          newVideoId,
-        );
+          filename: `cross_deploy_${videoId}.mp4`,
+          origin: 'CROSS_DEPLOY',
+          sourceMediaId: videoId,
+        });
+        videoMapping[videoId] = upload.mediaId;
+        if (!upload.reused) {
+          await this.tiktokService.waitForVideoReady(
+            targetAdvertiserId,
+            targetToken,
+            upload.mediaId,
+          );
+        }
         await new Promise((r) => setTimeout(r, 100));
       }
 
-      // ii. 画像をターゲットにアップロード
+      // ii. 画像をターゲットにアップロード（同じ画像が既にあれば再利用）
       const imageMapping: Record<string, string> = {};
       for (const [imageId, buffer] of imageBuffers) {
-        const newImageId = await this.tiktokService.uploadImageToAccount(
-          targetAdvertiserId,
-          targetToken,
+        const upload = await this.creativeAssets.uploadImage({
+          advertiserId: targetAdvertiserId,
+          accessToken: targetToken,
           buffer,
-          `cross_deploy_${imageId.split('/').pop()}.jpg`,
-        );
-        imageMapping[imageId] = newImageId;
+          filename: `cross_deploy_${imageId.split('/').pop()}.jpg`,
+          origin: 'CROSS_DEPLOY',
+          sourceMediaId: imageId,
+        });
+        imageMapping[imageId] = upload.mediaId;
         await new Promise((r) => setTimeout(r, 100));
       }
 
@@ -277,7 +322,8 @@ export class CrossDeployService {
         lpNumber,
       );
       const dailyBudget =
-        input.dailyBudget || DEFAULT_DAILY_BUDGET[appeal] || 3000;
+        input.dailyBudget ||
+        this.resolveDefaultDailyBudget(targetAdvertiser.appeal, appeal);
 
       // iv. キャンペーン作成
       const campaignId = await this.tiktokService.createSmartPlusCampaign(
@@ -431,20 +477,25 @@ export class CrossDeployService {
         );
       }
 
-      // i. 動画をアップロード
+      // i. 動画をアップロード（同じ動画が既にあれば再利用）
       const buffer = videoBuffers.get(videoId)!;
-      const newVideoId = await this.tiktokService.uploadVideoToAccount(
-        targetAdvertiserId,
-        targetToken,
+      const upload = await this.creativeAssets.uploadVideo({
+        advertiserId: targetAdvertiserId,
+        accessToken: targetToken,
         buffer,
-        `cross_deploy_${videoId}.mp4`,
-      );
+        filename: `cross_deploy_${videoId}.mp4`,
+        origin: 'CROSS_DEPLOY',
+        sourceMediaId: videoId,
+      });
+      const newVideoId = upload.mediaId;
       const videoMapping = { [videoId]: newVideoId };
-      await this.tiktokService.waitForVideoReady(
-        targetAdvertiserId,
-        targetToken,
-        newVideoId,
-      );
+      if (!upload.reused) {
+        await this.tiktokService.waitForVideoReady(
+          targetAdvertiserId,
+          targetToken,
+          newVideoId,
+        );
+      }
 
       await this.updateLog(log.id, { status: 'VIDEOS_UPLOADED', videoMapping });
 
@@ -478,7 +529,8 @@ export class CrossDeployService {
         lpNumber,
       );
       const dailyBudget =
-        input.dailyBudget || DEFAULT_DAILY_BUDGET[appeal] || 3000;
+        input.dailyBudget ||
+        this.resolveDefaultDailyBudget(targetAdvertiser.appeal, appeal);
 
       // iii. キャンペーン作成（通常配信）
       const advertiserUuid = targetAdvertiser.id;
@@ -636,9 +688,7 @@ export class CrossDeployService {
   // ========== ヘルパーメソッド ==========
 
   private async getAccessToken(advertiserId: string): Promise<string> {
-    const token = await this.prisma.oAuthToken.findUnique({
-      where: { advertiserId },
-    });
+    const token = await this.tokenVault.findByAdvertiserId(advertiserId);
     if (!token)
       throw new Error(`アクセストークンが見つかりません: ${advertiserId}`);
     return token.accessToken;
@@ -665,44 +715,41 @@ export class CrossDeployService {
   /**
    * 広告名からappealとLP番号を推測
    */
-  private parseAdNameForAppeal(
+  private async parseAdNameForAppeal(
     adName: string,
     sourceAdvertiserId: string,
-  ): { appeal: string; lpNumber: number } {
+  ): Promise<{ appeal: string; lpNumber: number }> {
     // 広告名パターン: YYMMDD/制作者名/CR名/LP名-CR12345
     // LP名から "LP1", "LP2" 等を抽出
     const lpMatch = adName.match(/LP(\d+)/i);
     const lpNumber = lpMatch ? parseInt(lpMatch[1]) : 1;
 
-    // appealはアカウントのappealから取得
-    // 同期的に取得できないのでAdvertiserテーブルから推測
-    const aiAccounts = [
-      '7468288053866561553',
-      '7523128243466551303',
-      '7543540647266074641',
-      '7580666710525493255',
-    ];
-    const snsAccounts = [
-      '7247073333517238273',
-      '7543540100849156112',
-      '7543540381615800337',
-    ];
-    const spAccounts = [
-      '7474920444831875080',
-      '7592868952431362066',
-      '7616545514662051858',
-    ];
-
-    let appeal = 'AI';
-    if (snsAccounts.includes(sourceAdvertiserId)) appeal = 'SNS';
-    else if (spAccounts.includes(sourceAdvertiserId)) appeal = 'スキルプラス';
+    // appealは元アカウントの訴求（導線）から取得
+    const source =
+      await this.channelRegistry.findAdvertiser(sourceAdvertiserId);
+    let channelType: ChannelType = source?.appeal?.channelType ?? 'AI';
 
     // 広告名にも手がかりがある場合
-    if (adName.includes('SNS') || adName.includes('sns')) appeal = 'SNS';
+    if (adName.includes('SNS') || adName.includes('sns')) channelType = 'SNS';
     else if (adName.includes('スキル') || adName.includes('セミナー'))
-      appeal = 'スキルプラス';
+      channelType = 'SEMINAR';
 
-    return { appeal, lpNumber };
+    return { appeal: toFunnelName(channelType), lpNumber };
+  }
+
+  /**
+   * デフォルト日予算（ターゲットアカウントの訴求設定 → 導線別の既定値）
+   */
+  private resolveDefaultDailyBudget(
+    targetAppeal: AppealChannelRecord | null,
+    appeal: string,
+  ): number {
+    if (targetAppeal) {
+      return this.channelRegistry.resolveAppeal(targetAppeal)
+        .defaultDailyBudget;
+    }
+    const channelType = channelTypeFromFunnelName(appeal) ?? 'AI';
+    return DEFAULT_DAILY_BUDGET_BY_CHANNEL[channelType];
   }
 
   /**
@@ -716,18 +763,15 @@ export class CrossDeployService {
   ): string {
     if (input.adNameOverride) return input.adNameOverride;
 
-    // YYMMDD（JST）
-    const now = new Date();
-    const jst = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-    const dateStr = `${String(jst.getUTCFullYear()).slice(2)}${String(jst.getUTCMonth() + 1).padStart(2, '0')}${String(jst.getUTCDate()).padStart(2, '0')}`;
-
-    // 元広告名から制作者名/CR名を抽出
-    const parts = sourceAdName.split('/');
-    const creator = parts.length >= 2 ? parts[1] : '横展開';
-    const crName = parts.length >= 3 ? parts[2] : '横展開CR';
-
-    const crStr = String(crNumber).padStart(5, '0');
-    return `${dateStr}/${creator}/${crName}/LP${lpNumber}-CR${crStr}`;
+    // 元広告名から制作者名/CR名を抽出（読めなければ既定値）
+    const source = parseAdName(sourceAdName);
+    return formatAdName({
+      launchDate: launchDateOf(new Date()),
+      creator: source?.creator.trim() || '横展開',
+      crName: source?.crName.trim() || '横展開CR',
+      lpNumber,
+      crNumber,
+    });
   }
 
   /**
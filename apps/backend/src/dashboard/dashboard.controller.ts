@@ -1,6 +1,22 @@
-import { Controller, Get, Logger } from '@nestjs/common';
+// ============================================================================
+// DashboardController - ダッシュボード API
+// 同期済みデータを担当範囲の広告アカウントに絞って集計する
+// ============================================================================
+
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Query,
+} from '@nestjs/common';
 import { DashboardService } from './dashboard.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
 
+@RequirePermissions(PERMISSIONS.REPORT_READ)
 @Controller('api/dashboard')
 export class DashboardController {
   private readonly logger = new Logger(DashboardController.name);
@@ -8,26 +24,45 @@ export class DashboardController {
   constructor(private readonly dashboardService: DashboardService) {}
 
   /**
-   * ダッシュボードデータ取得
-   * 固定トークンで全Advertiserのデータを集約して返す
-   * GET /api/dashboard
+   * ダッシュボードデータ取得（期間KPI・日別推移・前期間/前日比・訴求別の目標達成状況）
+   * GET /api/dashboard?from=2026-03-01&to=2026-03-07&channel=SNS&appealId=xxx&advertiserIds=a,b
    */
   @Get()
-  async getDashboardData() {
-    this.logger.log('Dashboard data requested');
+  async getDashboardData(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('channel') channel?: string,
+    @Query('appealId') appealId?: string,
+    @Query('advertiserIds') advertiserIds?: string,
+  ) {
+    return this.handle('Get dashboard data', () =>
+      this.dashboardService.getDashboardData(
+        {
+          from: from || undefined,
+          to: to || undefined,
+          channel: channel || undefined,
+          appealId: appealId || undefined,
+          advertiserIds: advertiserIds
+            ?.split(',')
+            .map((id) => id.trim())
+            .filter((id) => id),
+        },
+        principal.advertiserIds,
+      ),
+    );
+  }
 
+  private async handle<T>(label: string, fn: () => Promise<T>) {
     try {
-      const data = await this.dashboardService.getAggregatedDashboardData();
-      return {
-        success: true,
-        data,
-      };
+      return { success: true, data: await fn() };
     } catch (error) {
-      this.logger.error('Failed to get dashboard data', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to fetch dashboard data',
-      };
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[DASHBOARD] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
     }
   }
 }
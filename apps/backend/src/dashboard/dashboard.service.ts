@@ -1,196 +1,303 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { TiktokService } from '../tiktok/tiktok.service';
+// ============================================================================
+// DashboardService - 同期済みデータによるダッシュボード集計
+// Campaign / AdGroup / 広告単位メトリクス（Metric entityType=AD）とコンバージョン台帳を
+// DBから読み、ページ表示のたびに TikTok API を呼ばない（トークン切れの影響も受けない）
+// ============================================================================
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import {
+  CHANNEL_TYPES,
+  isChannelType,
+  type ChannelType,
+} from '../channel-registry/domain/channel';
+import { toJstDate } from '../conversion-ledger/domain/conversion-ledger';
+import {
+  addDays,
+  addTotals,
+  compareKpi,
+  emptyDailyTotals,
+  evaluateAttainment,
+  fillDailySeries,
+  resolveDashboardPeriod,
+  summarizeKpi,
+  validateDashboardQuery,
+  type DailyTotals,
+} from './domain/dashboard';
+
+export interface DashboardFilters {
+  from?: string;
+  to?: string;
+  channel?: string;
+  appealId?: string;
+  /** Advertiser.id / tiktokAdvertiserId のどちらでも指定できる */
+  advertiserIds?: string[];
+}
 
 @Injectable()
 export class DashboardService {
   private readonly logger = new Logger(DashboardService.name);
-  private readonly accessToken: string;
-  private readonly advertiserIds: string[];
 
   constructor(
-    private configService: ConfigService,
-    private tiktokService: TiktokService,
-  ) {
-    this.accessToken =
-      this.configService.get<string>('TIKTOK_ACCESS_TOKEN') || '';
-    const idsString =
-      this.configService.get<string>('TIKTOK_ADVERTISER_IDS') || '';
-    this.advertiserIds = idsString
-      .split(',')
-      .map((id) => id.trim())
-      .filter((id) => id);
-
-    this.logger.log(
-      `Initialized with ${this.advertiserIds.length} advertiser IDs`,
-    );
-  }
+    private readonly prisma: PrismaService,
+    private readonly channelRegistry: ChannelRegistryService,
+  ) {}
 
   /**
-   * 全AdvertiserのダッシュボードデータGetを集約
+   * ダッシュボードデータ
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
    */
-  async getAggregatedDashboardData() {
-    const endDate = new Date().toISOString().split('T')[0];
-    const startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-      .toISOString()
-      .split('T')[0];
-
-    this.logger.log(`Fetching data for period: ${startDate} to ${endDate}`);
-
-    // 全Advertiserのキャンペーンを取得
-    const allCampaigns: any[] = [];
-    const allReportData: any[] = [];
-
-    for (const advertiserId of this.advertiserIds) {
-      try {
-        // キャンペーン取得
-        const campaignsResponse = await this.tiktokService.getCampaigns(
-          advertiserId,
-          this.accessToken,
-        );
-
-        // 広告セット取得
-        const adGroupsResponse = await this.tiktokService.getAdGroups(
-          advertiserId,
-          this.accessToken,
-        );
-
-        // キャンペーンIDごとに広告セットの予算を集計
-        const adGroupsByCampaign: Record<string, any[]> = {};
-        if (adGroupsResponse?.data?.list) {
-          adGroupsResponse.data.list.forEach((adGroup: any) => {
-            const campaignId = adGroup.campaign_id;
-            if (!adGroupsByCampaign[campaignId]) {
-              adGroupsByCampaign[campaignId] = [];
-            }
-            adGroupsByCampaign[campaignId].push(adGroup);
-          });
-        }
-
-        if (campaignsResponse?.data?.list) {
-          const campaigns = campaignsResponse.data.list.map((c: any) => {
-            const adGroups = adGroupsByCampaign[c.campaign_id] || [];
-
-            // 広告セットの日予算を集計
-            let totalAdGroupBudget = 0;
-            let adGroupBudgetMode = '';
-
-            adGroups.forEach((ag: any) => {
-              if (ag.budget) {
-                totalAdGroupBudget += parseFloat(ag.budget);
-                adGroupBudgetMode = ag.budget_mode || '';
-              }
-            });
+  async getDashboardData(
+    filters: DashboardFilters,
+    scope: string[] | null,
+    now = new Date(),
+  ) {
+    const today = toJstDate(now);
+    const errors = validateDashboardQuery(filters, today);
+    if (filters.channel && !isChannelType(filters.channel)) {
+      errors.push(`channel must be one of ${CHANNEL_TYPES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid dashboard query: ' + errors.join('; '),
+      );
+    }
+    const { period, previous } = resolveDashboardPeriod(filters, today);
 
-            return {
-              id: c.campaign_id,
-              tiktokId: c.campaign_id,
-              advertiserId: c.advertiser_id,
-              name: c.campaign_name,
-              objectiveType: c.objective_type,
-              budgetMode: c.budget_mode || adGroupBudgetMode,
-              budget:
-                c.budget ||
-                (totalAdGroupBudget > 0 ? totalAdGroupBudget : null),
-              adGroupCount: adGroups.length,
-              status: c.operation_status,
-              createdAt: c.create_time,
-              updatedAt: c.modify_time,
-            };
-          });
-          allCampaigns.push(...campaigns);
-        }
+    // 担当範囲の広告アカウント → 導線・訴求・アカウント指定で絞り込む
+    const accessible = (
+      await this.prisma.advertiser.findMany({
+        include: { appeal: true },
+        orderBy: { name: 'asc' },
+      })
+    ).filter(
+      (advertiser) =>
+        scope === null ||
+        scope.includes(advertiser.id) ||
+        scope.includes(advertiser.tiktokAdvertiserId),
+    );
+    const channelOf = (appeal: (typeof accessible)[number]['appeal']) =>
+      appeal ? this.channelRegistry.resolveAppeal(appeal).channelType : null;
+    const advertisers = accessible.filter(
+      (advertiser) =>
+        (!filters.channel ||
+          channelOf(advertiser.appeal) === filters.channel) &&
+        (!filters.appealId || advertiser.appealId === filters.appealId) &&
+        (!filters.advertiserIds?.length ||
+          filters.advertiserIds.some(
+            (id) =>
+              id === advertiser.id || id === advertiser.tiktokAdvertiserId,
+          )),
+    );
+    const advertiserById = new Map(advertisers.map((a) => [a.id, a]));
 
-        // レポートデータ取得
-        const reportResponse = await this.tiktokService.getReport(
-          advertiserId,
-          this.accessToken,
-          {
-            dataLevel: 'AUCTION_CAMPAIGN',
-            startDate,
-            endDate,
+    const campaigns = await this.prisma.campaign.findMany({
+      where: { advertiserId: { in: [...advertiserById.keys()] } },
+      include: {
+        adGroups: {
+          select: {
+            budget: true,
+            budgetMode: true,
+            ads: { select: { id: true } },
           },
-        );
-
-        if (reportResponse?.data?.list) {
-          allReportData.push(...reportResponse.data.list);
-        }
-      } catch (error) {
-        this.logger.error(
-          `Failed to fetch data for advertiser ${advertiserId}`,
-        );
-        this.logger.error(`Error message: ${error.message}`);
-        this.logger.error(`Error stack: ${error.stack}`);
-        // エラーがあっても他のAdvertiserのデータは取得を続ける
+        },
+      },
+    });
+    const campaignOfAd = new Map<string, string>();
+    for (const campaign of campaigns) {
+      for (const adGroup of campaign.adGroups) {
+        adGroup.ads.forEach((ad) => campaignOfAd.set(ad.id, campaign.id));
       }
     }
+    const adIds = [...campaignOfAd.keys()];
 
-    // KPIデータを計算
-    let totalSpend = 0;
-    let totalImpressions = 0;
-    let totalClicks = 0;
-    let totalConversions = 0;
-
-    const chartDataMap: Record<string, any> = {};
-
-    allReportData.forEach((record: any) => {
-      const metrics = record.metrics || {};
-      const date = record.dimensions?.stat_time_day || record.stat_time_day;
+    // 前期間の初日〜期間末日をまとめて読み、日付×キャンペーンで合計する
+    const [metrics, conversions, latest] = await Promise.all([
+      this.prisma.metric.findMany({
+        where: {
+          entityType: 'AD',
+          adId: { in: adIds },
+          statDate: {
+            gte: new Date(`${previous.from}T00:00:00.000Z`),
+            lte: new Date(`${period.to}T00:00:00.000Z`),
+          },
+        },
+        select: {
+          adId: true,
+          statDate: true,
+          spend: true,
+          impressions: true,
+          clicks: true,
+        },
+      }),
+      this.prisma.conversionEvent.findMany({
+        where: {
+          adId: { in: adIds },
+          jstDate: { gte: previous.from, lte: period.to },
+        },
+        select: { adId: true, jstDate: true, kind: true },
+      }),
+      this.prisma.metric.aggregate({
+        where: { entityType: 'AD', adId: { in: adIds } },
+        _max: { statDate: true },
+      }),
+    ]);
 
-      totalSpend += parseFloat(metrics.spend || '0');
-      totalImpressions += parseInt(metrics.impressions || '0', 10);
-      totalClicks += parseInt(metrics.clicks || '0', 10);
-      totalConversions += parseInt(metrics.conversions || '0', 10);
+    const daily = new Map<string, DailyTotals>();
+    const byCampaign = new Map<string, DailyTotals>();
+    const add = (
+      adId: string | null,
+      date: string,
+      values: Partial<DailyTotals>,
+    ) => {
+      const campaignId = adId ? campaignOfAd.get(adId) : undefined;
+      if (!campaignId) return;
+      const delta = { ...emptyDailyTotals(date), ...values };
+      if (!daily.has(date)) daily.set(date, emptyDailyTotals(date));
+      addTotals(daily.get(date)!, delta);
+      if (date < period.from) return;
+      if (!byCampaign.has(campaignId)) {
+        byCampaign.set(campaignId, emptyDailyTotals(''));
+      }
+      addTotals(byCampaign.get(campaignId)!, delta);
+    };
+    for (const metric of metrics) {
+      add(metric.adId, metric.statDate.toISOString().slice(0, 10), {
+        spend: metric.spend,
+        impressions: metric.impressions,
+        clicks: metric.clicks,
+      });
+    }
+    for (const event of conversions) {
+      add(event.adId, event.jstDate, {
+        conversions: event.kind === 'CV' ? 1 : 0,
+        frontSales: event.kind === 'FRONT_SALES' ? 1 : 0,
+        individualReservations: event.kind === 'INDIVIDUAL_RESERVATION' ? 1 : 0,
+      });
+    }
 
-      if (date) {
-        if (!chartDataMap[date]) {
-          chartDataMap[date] = {
-            date,
-            spend: 0,
-            impressions: 0,
-            clicks: 0,
-            conversions: 0,
-          };
-        }
+    const chartData = fillDailySeries(daily, period);
+    const kpiData = summarizeKpi(chartData);
+    const previousKpi = summarizeKpi(fillDailySeries(daily, previous));
+    const previousDate = addDays(period.to, -1);
+    const dayOverDay = {
+      date: period.to,
+      previousDate,
+      changes: compareKpi(
+        summarizeKpi(
+          fillDailySeries(daily, { from: period.to, to: period.to }),
+        ),
+        summarizeKpi(
+          fillDailySeries(daily, { from: previousDate, to: previousDate }),
+        ),
+      ),
+    };
 
-        chartDataMap[date].spend += parseFloat(metrics.spend || '0');
-        chartDataMap[date].impressions += parseInt(
-          metrics.impressions || '0',
-          10,
-        );
-        chartDataMap[date].clicks += parseInt(metrics.clicks || '0', 10);
-        chartDataMap[date].conversions += parseInt(
-          metrics.conversions || '0',
-          10,
+    const campaignRows = campaigns
+      .map((campaign) => {
+        const totals = byCampaign.get(campaign.id) ?? emptyDailyTotals('');
+        const adGroupBudget = campaign.adGroups.reduce(
+          (sum, adGroup) => sum + (adGroup.budget ?? 0),
+          0,
         );
+        const advertiser = advertiserById.get(campaign.advertiserId)!;
+        return {
+          id: campaign.id,
+          tiktokId: campaign.tiktokId,
+          advertiserId: advertiser.tiktokAdvertiserId,
+          advertiserName: advertiser.name,
+          appealName: advertiser.appeal?.name ?? null,
+          name: campaign.name,
+          objectiveType: campaign.objectiveType,
+          budgetMode:
+            campaign.budgetMode ?? campaign.adGroups[0]?.budgetMode ?? null,
+          budget: campaign.budget || (adGroupBudget > 0 ? adGroupBudget : null),
+          adGroupCount: campaign.adGroups.length,
+          status: campaign.status,
+          spend: totals.spend,
+          conversions: totals.conversions,
+          frontSales: totals.frontSales,
+          createdAt: campaign.createdAt,
+          updatedAt: campaign.updatedAt,
+        };
+      })
+      .sort((a, b) => b.spend - a.spend);
+
+    // 訴求ごとのKPIと目標達成状況
+    const appealTotals = new Map<string, DailyTotals>();
+    for (const campaign of campaigns) {
+      const appealId = advertiserById.get(campaign.advertiserId)!.appealId;
+      const totals = byCampaign.get(campaign.id);
+      if (!appealId || !totals) continue;
+      if (!appealTotals.has(appealId)) {
+        appealTotals.set(appealId, emptyDailyTotals(''));
       }
+      addTotals(appealTotals.get(appealId)!, totals);
+    }
+    const appeals = uniqueAppeals(advertisers).map((appeal) => {
+      const kpi = summarizeKpi([
+        appealTotals.get(appeal.id) ?? emptyDailyTotals(''),
+      ]);
+      return {
+        appealId: appeal.id,
+        appealName: appeal.name,
+        channelType: channelOf(appeal),
+        advertiserCount: advertisers.filter((a) => a.appealId === appeal.id)
+          .length,
+        kpi,
+        attainment: evaluateAttainment(kpi, appeal),
+      };
     });
 
-    const avgCtr =
-      totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0;
-    const avgCpa = totalConversions > 0 ? totalSpend / totalConversions : 0;
-
-    const kpiData = {
-      totalSpend,
-      totalImpressions,
-      totalClicks,
-      totalConversions,
-      avgCtr,
-      avgCpa,
-    };
-
-    const chartData = Object.values(chartDataMap).sort((a: any, b: any) =>
-      a.date.localeCompare(b.date),
-    );
-
+    const lastMetricDate = latest._max.statDate
+      ? latest._max.statDate.toISOString().slice(0, 10)
+      : null;
     this.logger.log(
-      `Aggregated data: ${allCampaigns.length} campaigns, ${allReportData.length} report records`,
+      `[DASHBOARD] ${period.from}〜${period.to}: ${advertisers.length} advertisers, ${campaignRows.length} campaigns, ${metrics.length} metric rows`,
     );
 
     return {
-      campaigns: allCampaigns,
+      period,
+      previousPeriod: previous,
+      filters: {
+        channel: (filters.channel as ChannelType | undefined) ?? null,
+        appealId: filters.appealId ?? null,
+        advertiserIds: advertisers.map((a) => a.tiktokAdvertiserId),
+      },
+      filterOptions: {
+        appeals: uniqueAppeals(accessible).map((appeal) => ({
+          id: appeal.id,
+          name: appeal.name,
+          channelType: channelOf(appeal),
+        })),
+        advertisers: accessible.map((advertiser) => ({
+          id: advertiser.id,
+          tiktokAdvertiserId: advertiser.tiktokAdvertiserId,
+          name: advertiser.name,
+          appealId: advertiser.appealId,
+        })),
+      },
+      advertiserCount: advertisers.length,
+      lastMetricDate,
       kpiData,
+      comparison: {
+        previousPeriod: compareKpi(kpiData, previousKpi),
+        dayOverDay,
+      },
       chartData,
+      campaigns: campaignRows,
+      appeals,
     };
   }
 }
+
+function uniqueAppeals<T extends { appeal: { id: string } | null }>(
+  advertisers: T[],
+): NonNullable<T['appeal']>[] {
+  const appeals = new Map<string, NonNullable<T['appeal']>>();
+  for (const { appeal } of advertisers) {
+    if (appeal) appeals.set(appeal.id, appeal as NonNullable<T['appeal']>);
+  }
+  return [...appeals.values()];
+}
@@ -0,0 +1,170 @@
+import {
+  compareKpi,
+  emptyDailyTotals,
+  evaluateAttainment,
+  fillDailySeries,
+  resolveDashboardPeriod,
+  summarizeKpi,
+  validateDashboardQuery,
+  type AppealTargets,
+  type DailyTotals,
+} from './dashboard';
+
+function day(date: string, values: Partial<DailyTotals>): DailyTotals {
+  return { ...emptyDailyTotals(date), ...values };
+}
+
+const TARGETS: AppealTargets = {
+  targetCPA: 5000,
+  allowableCPA: 8000,
+  targetFrontCPO: 20000,
+  allowableFrontCPO: 40000,
+};
+
+describe('validateDashboardQuery', () => {
+  it('日付形式・前後関係・期間の上限を検証する', () => {
+    expect(validateDashboardQuery({}, '2026-03-10')).toEqual([]);
+    expect(
+      validateDashboardQuery(
+        { from: '2026-3-1', to: '2026-02-30' },
+        '2026-03-10',
+      ),
+    ).toEqual(['from must be YYYY-MM-DD', 'to must be YYYY-MM-DD']);
+    expect(
+      validateDashboardQuery(
+        { from: '2026-03-05', to: '2026-03-04' },
+        '2026-03-10',
+      ),
+    ).toEqual(['from must be on or before to']);
+    expect(
+      validateDashboardQuery({ from: '2025-12-01' }, '2026-03-10'),
+    ).toEqual(['The period must be 92 days or less']);
+  });
+});
+
+describe('resolveDashboardPeriod', () => {
+  it('省略時は今日までの直近7日と、その直前7日を返す', () => {
+    expect(resolveDashboardPeriod({}, '2026-03-10')).toEqual({
+      period: { from: '2026-03-04', to: '2026-03-10', days: 7 },
+      previous: { from: '2026-02-25', to: '2026-03-03', days: 7 },
+    });
+  });
+
+  it('指定期間と同じ日数の直前期間を返す', () => {
+    expect(
+      resolveDashboardPeriod({ from: '2026-03-01', to: '2026-03-01' }, 'x'),
+    ).toEqual({
+      period: { from: '2026-03-01', to: '2026-03-01', days: 1 },
+      previous: { from: '2026-02-28', to: '2026-02-28', days: 1 },
+    });
+    expect(
+      resolveDashboardPeriod({ from: '2026-03-08' }, '2026-03-10'),
+    ).toMatchObject({ period: { to: '2026-03-10', days: 3 } });
+  });
+});
+
+describe('fillDailySeries / summarizeKpi / compareKpi', () => {
+  it('実績のない日を0で埋めて合計とCTR・CPA・フロントCPOを求める', () => {
+    const series = fillDailySeries(
+      new Map([
+        [
+          '2026-03-01',
+          day('2026-03-01', {
+            spend: 10000,
+            impressions: 5000,
+            clicks: 50,
+            conversions: 2,
+          }),
+        ],
+        [
+          '2026-03-03',
+          day('2026-03-03', {
+            spend: 5000,
+            impressions: 5000,
+            clicks: 50,
+            conversions: 1,
+            frontSales: 1,
+          }),
+        ],
+      ]),
+      { from: '2026-03-01', to: '2026-03-03' },
+    );
+
+    expect(series.map((d) => [d.date, d.spend])).toEqual([
+      ['2026-03-01', 10000],
+      ['2026-03-02', 0],
+      ['2026-03-03', 5000],
+    ]);
+    expect(summarizeKpi(series)).toEqual({
+      totalSpend: 15000,
+      totalImpressions: 10000,
+      totalClicks: 100,
+      totalConversions: 3,
+      totalFrontSales: 1,
+      totalIndividualReservations: 0,
+      avgCtr: 1,
+      avgCpa: 5000,
+      frontCpo: 15000,
+    });
+  });
+
+  it('比較対象が0・算出不可の指標は null にする', () => {
+    const current = summarizeKpi([
+      day('d', { spend: 12000, conversions: 3, frontSales: 1 }),
+    ]);
+    const previous = summarizeKpi([day('d', { spend: 10000, conversions: 2 })]);
+
+    expect(compareKpi(current, previous)).toEqual({
+      spend: 20,
+      impressions: null,
+      clicks: null,
+      conversions: 50,
+      frontSales: null,
+      cpa: -20,
+      frontCpo: null,
+    });
+  });
+});
+
+describe('evaluateAttainment', () => {
+  function kpi(spend: number, conversions: number, frontSales = 0) {
+    return summarizeKpi([day('d', { spend, conversions, frontSales })]);
+  }
+
+  it('目標以下・許容以下・許容超過を判定する', () => {
+    expect(evaluateAttainment(kpi(10000, 2), TARGETS).cpa).toEqual({
+      value: 5000,
+      target: 5000,
+      allowable: 8000,
+      status: 'ACHIEVED',
+      ratioToTarget: 1,
+    });
+    expect(evaluateAttainment(kpi(14000, 2), TARGETS).cpa.status).toBe(
+      'WITHIN_ALLOWABLE',
+    );
+    expect(evaluateAttainment(kpi(20000, 2), TARGETS).cpa.status).toBe('OVER');
+  });
+
+  it('件数0は広告費が許容を超えるまで NO_DATA、超えたら OVER', () => {
+    expect(evaluateAttainment(kpi(0, 0), TARGETS).cpa.status).toBe('NO_DATA');
+    expect(evaluateAttainment(kpi(30000, 1), TARGETS).frontCpo).toMatchObject({
+      value: null,
+      status: 'NO_DATA',
+    });
+    expect(evaluateAttainment(kpi(50000, 10), TARGETS).frontCpo.status).toBe(
+      'OVER',
+    );
+  });
+
+  it('目標・許容とも未設定なら NO_TARGET', () => {
+    const none = {
+      targetCPA: null,
+      allowableCPA: null,
+      targetFrontCPO: null,
+      allowableFrontCPO: null,
+    };
+    expect(evaluateAttainment(kpi(10000, 2), none).cpa.status).toBe(
+      'NO_TARGET',
+    );
+  });
+});
@@ -0,0 +1,297 @@
+// ============================================================================
+// ダッシュボード集計（純粋関数）
+// 同期済みの広告単位メトリクスとコンバージョン台帳の件数から、期間のKPI・日別推移・
+// 前期間/前日比・訴求の目標CPA/フロントCPOに対する達成状況を求める
+// ============================================================================
+
+/** 期間指定の上限（日数） */
+export const MAX_DASHBOARD_DAYS = 92;
+export const DEFAULT_DASHBOARD_DAYS = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DashboardQuery {
+  from?: string;
+  to?: string;
+}
+
+/** 集計期間（JST、両端を含む） */
+export interface DashboardPeriod {
+  from: string;
+  to: string;
+  days: number;
+}
+
+/** 1日分の合計 */
+export interface DailyTotals {
+  date: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  /** CV（オプト）件数（コンバージョン台帳） */
+  conversions: number;
+  frontSales: number;
+  individualReservations: number;
+}
+
+export interface DashboardKpi {
+  totalSpend: number;
+  totalImpressions: number;
+  totalClicks: number;
+  totalConversions: number;
+  totalFrontSales: number;
+  totalIndividualReservations: number;
+  /** CTR（%） */
+  avgCtr: number;
+  /** CPA（CV0なら0） */
+  avgCpa: number;
+  /** フロントCPO（フロント販売0なら null） */
+  frontCpo: number | null;
+}
+
+/** 比較対象からの変化率（%）。比較対象が0・算出不可なら null */
+export interface KpiChanges {
+  spend: number | null;
+  impressions: number | null;
+  clicks: number | null;
+  conversions: number | null;
+  frontSales: number | null;
+  cpa: number | null;
+  frontCpo: number | null;
+}
+
+/**
+ * 目標に対する達成状況
+ * ACHIEVED: 目標以下 / WITHIN_ALLOWABLE: 許容以下 / OVER: 許容超過（件数0で許容額以上の消化を含む）
+ * NO_DATA: 広告費なし / NO_TARGET: 目標・許容とも未設定
+ */
+export type AttainmentStatus =
+  | 'ACHIEVED'
+  | 'WITHIN_ALLOWABLE'
+  | 'OVER'
+  | 'NO_DATA'
+  | 'NO_TARGET';
+
+export interface KpiAttainment {
+  value: number | null;
+  target: number | null;
+  allowable: number | null;
+  status: AttainmentStatus;
+  /** 目標に対する比率（value / target）。算出不可なら null */
+  ratioToTarget: number | null;
+}
+
+export interface AppealTargets {
+  targetCPA: number | null;
+  allowableCPA: number | null;
+  targetFrontCPO: number | null;
+  allowableFrontCPO: number | null;
+}
+
+// ============================================================================
+// 期間
+// ============================================================================
+
+export function validateDashboardQuery(
+  query: DashboardQuery,
+  today: string,
+): string[] {
+  const errors: string[] = [];
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (value !== undefined && !isValidDate(value)) {
+      errors.push(`${key} must be YYYY-MM-DD`);
+    }
+  }
+  if (errors.length > 0 || !query.from) return errors;
+  const days = daysBetween(query.from, endDate(query, today)) + 1;
+  if (days < 1) errors.push('from must be on or before to');
+  if (days > MAX_DASHBOARD_DAYS) {
+    errors.push(`The period must be ${MAX_DASHBOARD_DAYS} days or less`);
+  }
+  return errors;
+}
+
+/**
+ * 集計期間と比較用の前期間（同じ日数の直前期間）
+ * 省略時は today を終端とする直近7日。from のみなら today まで、to のみなら to から7日
+ */
+export function resolveDashboardPeriod(
+  query: DashboardQuery,
+  today: string,
+): { period: DashboardPeriod; previous: DashboardPeriod } {
+  const to = endDate(query, today);
+  const from = query.from ?? addDays(to, -(DEFAULT_DASHBOARD_DAYS - 1));
+  const days = daysBetween(from, to) + 1;
+  return {
+    period: { from, to, days },
+    previous: { from: addDays(from, -days), to: addDays(from, -1), days },
+  };
+}
+
+/** YYYY-MM-DD に日数を足す */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** 期間内の日付（昇順） */
+export function datesInPeriod(period: { from: string; to: string }): string[] {
+  const dates: string[] = [];
+  for (let d = period.from; d <= period.to; d = addDays(d, 1)) dates.push(d);
+  return dates;
+}
+
+// ============================================================================
+// 集計
+// ============================================================================
+
+export function emptyDailyTotals(date: string): DailyTotals {
+  return {
+    date,
+    spend: 0,
+    impressions: 0,
+    clicks: 0,
+    conversions: 0,
+    frontSales: 0,
+    individualReservations: 0,
+  };
+}
+
+/** 日別合計を期間の全日付に揃える（実績のない日は0） */
+export function fillDailySeries(
+  totals: Map<string, DailyTotals>,
+  period: { from: string; to: string },
+): DailyTotals[] {
+  return datesInPeriod(period).map(
+    (date) => totals.get(date) ?? emptyDailyTotals(date),
+  );
+}
+
+export function addTotals(
+  target: DailyTotals,
+  source: Omit<DailyTotals, 'date'>,
+) {
+  target.spend += source.spend;
+  target.impressions += source.impressions;
+  target.clicks += source.clicks;
+  target.conversions += source.conversions;
+  target.frontSales += source.frontSales;
+  target.individualReservations += source.individualReservations;
+}
+
+export function summarizeKpi(series: DailyTotals[]): DashboardKpi {
+  const total = emptyDailyTotals('');
+  series.forEach((day) => addTotals(total, day));
+  return {
+    totalSpend: total.spend,
+    totalImpressions: total.impressions,
+    totalClicks: total.clicks,
+    totalConversions: total.conversions,
+    totalFrontSales: total.frontSales,
+    totalIndividualReservations: total.individualReservations,
+    avgCtr:
+      total.impressions > 0 ? (total.clicks / total.impressions) * 100 : 0,
+    avgCpa: total.conversions > 0 ? total.spend / total.conversions : 0,
+    frontCpo: total.frontSales > 0 ? total.spend / total.frontSales : null,
+  };
+}
+
+export function compareKpi(
+  current: DashboardKpi,
+  previous: DashboardKpi,
+): KpiChanges {
+  return {
+    spend: changeRate(current.totalSpend, previous.totalSpend),
+    impressions: changeRate(
+      current.totalImpressions,
+      previous.totalImpressions,
+    ),
+    clicks: changeRate(current.totalClicks, previous.totalClicks),
+    conversions: changeRate(
+      current.totalConversions,
+      previous.totalConversions,
+    ),
+    frontSales: changeRate(current.totalFrontSales, previous.totalFrontSales),
+    cpa:
+      current.totalConversions > 0 && previous.totalConversions > 0
+        ? changeRate(current.avgCpa, previous.avgCpa)
+        : null,
+    frontCpo: changeRate(current.frontCpo, previous.frontCpo),
+  };
+}
+
+/** 訴求の目標・許容CPA / フロントCPOに対する達成状況 */
+export function evaluateAttainment(
+  kpi: DashboardKpi,
+  targets: AppealTargets,
+): { cpa: KpiAttainment; frontCpo: KpiAttainment } {
+  return {
+    cpa: attainment(
+      kpi.totalSpend,
+      kpi.totalConversions,
+      targets.targetCPA,
+      targets.allowableCPA,
+    ),
+    frontCpo: attainment(
+      kpi.totalSpend,
+      kpi.totalFrontSales,
+      targets.targetFrontCPO,
+      targets.allowableFrontCPO,
+    ),
+  };
+}
+
+function attainment(
+  spend: number,
+  count: number,
+  target: number | null,
+  allowable: number | null,
+): KpiAttainment {
+  const value = count > 0 ? spend / count : null;
+  const ratioToTarget = value !== null && target ? value / target : null;
+  const base = { value, target, allowable, ratioToTarget };
+  if (!target && !allowable) return { ...base, status: 'NO_TARGET' };
+  if (spend <= 0) return { ...base, status: 'NO_DATA' };
+
+  // 件数0は「いま1件取れたら」の単価（= 広告費）で判定する
+  const effective = value ?? spend;
+  if (target && effective <= target) {
+    return { ...base, status: value === null ? 'NO_DATA' : 'ACHIEVED' };
+  }
+  if (allowable && effective <= allowable) {
+    return {
+      ...base,
+      status: value === null ? 'NO_DATA' : 'WITHIN_ALLOWABLE',
+    };
+  }
+  return { ...base, status: 'OVER' };
+}
+
+function changeRate(
+  current: number | null,
+  previous: number | null,
+): number | null {
+  if (current === null || previous === null || previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+function isValidDate(value: string): boolean {
+  return (
+    DATE_PATTERN.test(value) &&
+    new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value
+  );
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS,
+  );
+}
+
+function endDate(query: DashboardQuery, today: string): string {
+  if (query.to) return query.to;
+  return query.from && query.from > today ? query.from : today;
+}
@@ -0,0 +1,108 @@
+// ============================================================================
+// DataSourceController - データソース（スプレッドシート設定）の管理・検証API
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { DataSourceService, type DataSourceDto } from './data-source.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.APPEAL_READ)
+@Controller('api/data-sources')
+export class DataSourceController {
+  private readonly logger = new Logger(DataSourceController.name);
+
+  constructor(private readonly service: DataSourceService) {}
+
+  /**
+   * 登録済みデータソース一覧（最終検証結果を含む）
+   * GET /api/data-sources
+   */
+  @Get()
+  async list() {
+    return this.handle('List data sources', async () => this.service.list());
+  }
+
+  /**
+   * データソース登録
+   * POST /api/data-sources
+   */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
+  @Post()
+  async create(@Body() body: DataSourceDto) {
+    return this.handle('Create data source', async () =>
+      this.service.create(body),
+    );
+  }
+
+  /**
+   * 訴求の予算調整で読むシートをまとめて検証
+   * POST /api/data-sources/validate/appeals/:appealId
+   */
+  @Post('validate/appeals/:appealId')
+  async validateAppeal(@Param('appealId') appealId: string) {
+    return this.handle('Validate appeal data sources', async () =>
+      this.service.validateAppealById(appealId),
+    );
+  }
+
+  /**
+   * データソース更新
+   * PATCH /api/data-sources/:id
+   */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() body: DataSourceDto) {
+    return this.handle('Update data source', async () =>
+      this.service.update(id, body),
+    );
+  }
+
+  /**
+   * データソース削除（以降は上位スコープ or 既定値で解決）
+   * DELETE /api/data-sources/:id
+   */
+  @RequirePermissions(PERMISSIONS.APPEAL_WRITE)
+  @Delete(':id')
+  async remove(@Param('id') id: string) {
+    return this.handle('Delete data source', async () => {
+      await this.service.remove(id);
+      return { id };
+    });
+  }
+
+  /**
+   * シートのヘッダー（列位置）と鮮度を検証
+   * POST /api/data-sources/:id/validate
+   */
+  @Post(':id/validate')
+  async validate(@Param('id') id: string) {
+    return this.handle('Validate data source', async () =>
+      this.service.validateById(id),
+    );
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[DATA-SOURCE] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
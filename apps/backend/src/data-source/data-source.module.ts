@@ -0,0 +1,17 @@
+// ============================================================================
+// DataSourceModule - データソースレジストリ（グローバル）
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { GoogleSheetsModule } from '../google-sheets/google-sheets.module';
+import { DataSourceService } from './data-source.service';
+import { DataSourceController } from './data-source.controller';
+
+@Global()
+@Module({
+  imports: [GoogleSheetsModule],
+  controllers: [DataSourceController],
+  providers: [DataSourceService],
+  exports: [DataSourceService],
+})
+export class DataSourceModule {}
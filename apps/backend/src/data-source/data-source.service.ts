@@ -0,0 +1,532 @@
+// ============================================================================
+// DataSourceService - スプレッドシート設定（データソース）の解決・検証
+// 日次レポート・CV・フロント販売・個別予約シートの場所と列の期待値はここから取得する
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { DataSource, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { GoogleSheetsService } from '../google-sheets/google-sheets.service';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import { validateSpreadsheetUrl } from '../common/utils';
+import {
+  inferChannelTypeFromAppealName,
+  isChannelType,
+} from '../channel-registry/domain/channel';
+import type {
+  AppealProfile,
+  ChannelType,
+} from '../channel-registry/domain/channel';
+import { usesFrontCPO } from '../budget-optimization-v2/types';
+import {
+  defaultDataSources,
+  selectDataSources,
+  toIndividualReservationSheet,
+  validateDataSourceDefinition,
+  validateSheetLayout,
+} from './domain/data-source';
+import type {
+  ColumnMapping,
+  DataSourceDefinition,
+  DataSourceKind,
+  IndividualReservationSheet,
+  LayoutValidationResult,
+} from './domain/data-source';
+
+export interface DataSourceDto {
+  name?: string;
+  kind?: string;
+  channelType?: string | null;
+  appealId?: string | null;
+  spreadsheetId?: string | null;
+  sheetName?: string;
+  headerRowIndex?: number;
+  columns?: ColumnMapping;
+  freshnessColumn?: string | null;
+  maxStaleDays?: number | null;
+  isActive?: boolean;
+}
+
+/** 検証対象の訴求（CV / フロント販売シートURLを含む） */
+export interface DataSourceAppeal {
+  id: string;
+  name: string;
+  cvSpreadsheetUrl: string | null;
+  frontSpreadsheetUrl: string | null;
+}
+
+export interface DataSourceValidation extends LayoutValidationResult {
+  dataSourceId: string | null;
+  name: string;
+  kind: DataSourceKind;
+  spreadsheetId: string | null;
+  sheetName: string;
+  checkedAt: Date;
+}
+
+export interface AppealDataSourceReport {
+  appealId: string;
+  appealName: string;
+  status: 'OK' | 'FAILED';
+  results: DataSourceValidation[];
+}
+
+/** 新規訴求のシートURL生成に使う環境変数（DataSource 未登録時の既定値） */
+const TEMPLATE_SPREADSHEET_ENV_KEYS: Partial<
+  Record<ChannelType, Record<'CV' | 'FRONT_SALES', string>>
+> = {
+  SNS: {
+    CV: 'APPEAL_SNS_CV_SPREADSHEET_ID',
+    FRONT_SALES: 'APPEAL_SNS_FRONT_SPREADSHEET_ID',
+  },
+  AI: {
+    CV: 'APPEAL_AI_CV_SPREADSHEET_ID',
+    FRONT_SALES: 'APPEAL_AI_FRONT_SPREADSHEET_ID',
+  },
+};
+
+/** 実行前検証の結果を使い回す時間（毎時バッチ内で同じシートを何度も読まない） */
+const PREFLIGHT_CACHE_TTL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class DataSourceService {
+  private readonly logger = new Logger(DataSourceService.name);
+  private readonly preflightCache = new Map<
+    string,
+    { report: AppealDataSourceReport; timestamp: number }
+  >();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly googleSheetsService: GoogleSheetsService,
+    private readonly configService: ConfigService,
+    private readonly channelRegistry: ChannelRegistryService,
+  ) {}
+
+  // ============================================================================
+  // 解決
+  // ============================================================================
+
+  /**
+   * 種別・スコープに適用するデータソース定義を解決する
+   * 解決順: 訴求専用 → 導線共通 → 全体共通 → 既定
+   * DB障害時は既定値で続行する
+   */
+  async resolve(
+    kind: DataSourceKind,
+    scope: { appealId: string | null; channelType: ChannelType | null } = {
+      appealId: null,
+      channelType: null,
+    },
+  ): Promise<DataSourceDefinition[]> {
+    try {
+      const rows = await this.prisma.dataSource.findMany({
+        where: { kind, isActive: true },
+        orderBy: { name: 'asc' },
+      });
+      const selected = selectDataSources(
+        rows.map((row) => this.toDefinition(row)),
+        kind,
+        scope,
+      );
+      if (selected.length > 0) return selected;
+    } catch (error) {
+      this.logger.warn(
+        `[DATA-SOURCE] Failed to load ${kind} data sources: ${error.message} → 既定値で続行`,
+      );
+    }
+    return defaultDataSources(
+      kind,
+      scope.channelType,
+      this.templateSpreadsheetId(kind, scope.channelType),
+    );
+  }
+
+  /** 日次レポートの書き出し先 */
+  async resolveDailyReport(): Promise<{
+    spreadsheetId: string;
+    sheetName: string;
+  }> {
+    const [definition] = await this.resolve('DAILY_REPORT');
+    return {
+      spreadsheetId: definition.spreadsheetId!,
+      sheetName: definition.sheetName,
+    };
+  }
+
+  /** 訴求の個別予約シート */
+  async resolveIndividualReservationSheet(
+    profile: Pick<AppealProfile, 'appealId' | 'channelType'>,
+  ): Promise<IndividualReservationSheet> {
+    const [definition] = await this.resolve('INDIVIDUAL_RESERVATION', {
+      appealId: profile.appealId,
+      channelType: profile.channelType,
+    });
+    return toIndividualReservationSheet(definition);
+  }
+
+  /**
+   * 訴求の予算調整で読むシート（CV・フロント販売・個別予約）
+   * spreadsheetId は実際に読むシート（CV / FRONT_SALES は訴求のシートURLを優先）
+   */
+  async resolveAppealSheets(
+    appeal: DataSourceAppeal,
+    channelType: ChannelType,
+  ): Promise<
+    { definition: DataSourceDefinition; spreadsheetId: string | null }[]
+  > {
+    const scope = { appealId: appeal.id, channelType };
+    const kinds: DataSourceKind[] = [
+      'CV',
+      ...(usesFrontCPO(channelType) ? (['FRONT_SALES'] as const) : []),
+      'INDIVIDUAL_RESERVATION',
+    ];
+
+    const sheets: {
+      definition: DataSourceDefinition;
+      spreadsheetId: string | null;
+    }[] = [];
+    for (const kind of kinds) {
+      for (const definition of await this.resolve(kind, scope)) {
+        sheets.push({
+          definition,
+          spreadsheetId: this.spreadsheetIdFor(definition, appeal),
+        });
+      }
+    }
+    return sheets;
+  }
+
+  /**
+   * 新規訴求のCV・フロント販売シートURL
+   * 訴求名から推定した導線の CV / FRONT_SALES データソースのシートIDを使う
+   */
+  async resolveTemplateSpreadsheetUrls(appealName: string): Promise<{
+    cvSpreadsheetUrl: string;
+    frontSpreadsheetUrl: string;
+  }> {
+    const channelType = inferChannelTypeFromAppealName(appealName);
+    const scope = { appealId: null, channelType };
+    const [cv] = await this.resolve('CV', scope);
+    const [front] = await this.resolve('FRONT_SALES', scope);
+
+    if (!cv?.spreadsheetId || !front?.spreadsheetId) {
+      throw new Error(
+        `Spreadsheet configuration not found for appeal: ${appealName}. ` +
+          `Please register CV / FRONT_SALES data sources for ${channelType}.`,
+      );
+    }
+    return {
+      cvSpreadsheetUrl: this.toSpreadsheetUrl(cv.spreadsheetId),
+      frontSpreadsheetUrl: this.toSpreadsheetUrl(front.spreadsheetId),
+    };
+  }
+
+  // ============================================================================
+  // 検証
+  // ============================================================================
+
+  /**
+   * シートを読み込み、列位置と鮮度を検証する
+   * 登録済みのデータソースなら結果を保存する
+   */
+  async validate(
+    definition: DataSourceDefinition,
+    appeal?: DataSourceAppeal,
+  ): Promise<DataSourceValidation> {
+    const spreadsheetId = this.spreadsheetIdFor(definition, appeal);
+    const checkedAt = new Date();
+    let result: LayoutValidationResult;
+
+    if (!spreadsheetId) {
+      result = this.unreadable('スプレッドシートが設定されていません');
+    } else {
+      try {
+        const rows = await this.googleSheetsService.getValues(
+          spreadsheetId,
+          `'${definition.sheetName}'`,
+        );
+        result = validateSheetLayout(rows, definition);
+      } catch (error) {
+        result = this.unreadable(`シートを読み込めません: ${error.message}`);
+      }
+    }
+
+    if (result.status === 'FAILED') {
+      this.logger.warn(
+        `[DATA-SOURCE] ${definition.name} (${definition.sheetName}) failed: ${result.issues.map((i) => i.message).join('; ')}`,
+      );
+    }
+
+    if (definition.id) {
+      await this.prisma.dataSource.update({
+        where: { id: definition.id },
+        data: {
+          lastValidatedAt: checkedAt,
+          lastValidationStatus: result.status,
+          lastValidationIssues: result.issues as unknown as Prisma.JsonArray,
+        },
+      });
+    }
+
+    return {
+      ...result,
+      dataSourceId: definition.id,
+      name: definition.name,
+      kind: definition.kind,
+      spreadsheetId,
+      sheetName: definition.sheetName,
+      checkedAt,
+    };
+  }
+
+  async validateById(id: string): Promise<DataSourceValidation> {
+    const row = await this.requireDataSource(id);
+    const definition = this.toDefinition(row);
+    const appeal = row.appealId
+      ? await this.prisma.appeal.findUnique({ where: { id: row.appealId } })
+      : null;
+    return this.validate(definition, appeal ?? undefined);
+  }
+
+  /**
+   * 訴求の予算調整で読むシート（CV・フロント販売・個別予約）をまとめて検証
+   */
+  async validateAppeal(
+    appeal: DataSourceAppeal,
+    channelType: ChannelType,
+  ): Promise<AppealDataSourceReport> {
+    const results: DataSourceValidation[] = [];
+    for (const { definition } of await this.resolveAppealSheets(
+      appeal,
+      channelType,
+    )) {
+      results.push(await this.validate(definition, appeal));
+    }
+
+    return {
+      appealId: appeal.id,
+      appealName: appeal.name,
+      status: results.every((r) => r.status === 'OK') ? 'OK' : 'FAILED',
+      results,
+    };
+  }
+
+  async validateAppealById(appealId: string): Promise<AppealDataSourceReport> {
+    const appeal = await this.prisma.appeal.findUnique({
+      where: { id: appealId },
+    });
+    if (!appeal) {
+      throw new NotFoundException(`Appeal with ID ${appealId} not found`);
+    }
+    const { channelType } = this.channelRegistry.resolveAppeal(appeal);
+    return this.validateAppeal(appeal, channelType);
+  }
+
+  /**
+   * 予算調整前のシート検証（結果は一定時間キャッシュ）
+   */
+  async preflight(
+    appeal: DataSourceAppeal,
+    channelType: ChannelType,
+  ): Promise<AppealDataSourceReport> {
+    const cached = this.preflightCache.get(appeal.id);
+    if (cached && Date.now() - cached.timestamp < PREFLIGHT_CACHE_TTL_MS) {
+      return cached.report;
+    }
+    const report = await this.validateAppeal(appeal, channelType);
+    this.preflightCache.set(appeal.id, { report, timestamp: Date.now() });
+    return report;
+  }
+
+  // ============================================================================
+  // 管理
+  // ============================================================================
+
+  async list(): Promise<DataSource[]> {
+    return this.prisma.dataSource.findMany({
+      orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async create(dto: DataSourceDto): Promise<DataSource> {
+    if (!dto.name?.trim()) {
+      throw new BadRequestException('name is required');
+    }
+    const fields = this.toValidatedFields(dto);
+    await this.assertAppealExists(fields.appealId);
+
+    const created = await this.prisma.dataSource.create({
+      data: {
+        ...fields,
+        columns: fields.columns as unknown as Prisma.InputJsonValue,
+        name: dto.name.trim(),
+        isActive: dto.isActive ?? true,
+      },
+    });
+    this.clearPreflightCache();
+    this.logger.log(`[DATA-SOURCE] Created ${created.name} (${created.kind})`);
+    return created;
+  }
+
+  async update(id: string, dto: DataSourceDto): Promise<DataSource> {
+    const existing = await this.requireDataSource(id);
+    const fields = this.toValidatedFields(dto, this.toDefinition(existing));
+    await this.assertAppealExists(fields.appealId);
+
+    const updated = await this.prisma.dataSource.update({
+      where: { id },
+      data: {
+        ...fields,
+        columns: fields.columns as unknown as Prisma.InputJsonValue,
+        name: dto.name?.trim() || undefined,
+        isActive: dto.isActive,
+      },
+    });
+    this.clearPreflightCache();
+    this.logger.log(`[DATA-SOURCE] Updated ${updated.name} (${updated.kind})`);
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    const existing = await this.requireDataSource(id);
+    await this.prisma.dataSource.delete({ where: { id } });
+    this.clearPreflightCache();
+    this.logger.log(`[DATA-SOURCE] Deleted ${existing.name}`);
+  }
+
+  clearPreflightCache(): void {
+    this.preflightCache.clear();
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  private toDefinition(row: DataSource): DataSourceDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      kind: row.kind as DataSourceKind,
+      channelType: isChannelType(row.channelType) ? row.channelType : null,
+      appealId: row.appealId,
+      spreadsheetId: row.spreadsheetId,
+      sheetName: row.sheetName,
+      headerRowIndex: row.headerRowIndex,
+      columns: (row.columns ?? {}) as unknown as ColumnMapping,
+      freshnessColumn: row.freshnessColumn,
+      maxStaleDays: row.maxStaleDays,
+    };
+  }
+
+  /** 入力と既存値をマージし、妥当性を検証した保存対象の項目 */
+  private toValidatedFields(
+    dto: DataSourceDto,
+    existing?: DataSourceDefinition,
+  ): Omit<DataSourceDefinition, 'id' | 'name'> {
+    if (dto.channelType != null && !isChannelType(dto.channelType)) {
+      throw new BadRequestException(
+        'channelType must be one of SNS, AI, SEMINAR',
+      );
+    }
+    const orExisting = <T>(value: T | undefined, fallback: T): T =>
+      value === undefined ? fallback : value;
+
+    const fields = {
+      kind: (dto.kind ?? existing?.kind) as DataSourceKind,
+      channelType: orExisting(dto.channelType, existing?.channelType ?? null),
+      appealId: orExisting(dto.appealId, existing?.appealId ?? null),
+      spreadsheetId: orExisting(
+        dto.spreadsheetId,
+        existing?.spreadsheetId ?? null,
+      ),
+      sheetName: dto.sheetName ?? existing?.sheetName ?? '',
+      headerRowIndex: dto.headerRowIndex ?? existing?.headerRowIndex ?? 0,
+      columns: dto.columns ?? existing?.columns ?? {},
+      freshnessColumn: orExisting(
+        dto.freshnessColumn,
+        existing?.freshnessColumn ?? null,
+      ),
+      maxStaleDays: orExisting(
+        dto.maxStaleDays,
+        existing?.maxStaleDays ?? null,
+      ),
+    };
+
+    const errors = validateDataSourceDefinition(fields);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid data source: ${errors.join('; ')}`,
+      );
+    }
+    return fields;
+  }
+
+  private async assertAppealExists(appealId: string | null): Promise<void> {
+    if (!appealId) return;
+    const appeal = await this.prisma.appeal.findUnique({
+      where: { id: appealId },
+      select: { id: true },
+    });
+    if (!appeal) {
+      throw new NotFoundException(`Appeal with ID ${appealId} not found`);
+    }
+  }
+
+  private async requireDataSource(id: string): Promise<DataSource> {
+    const row = await this.prisma.dataSource.findUnique({ where: { id } });
+    if (!row) {
+      throw new NotFoundException(`DataSource with ID ${id} not found`);
+    }
+    return row;
+  }
+
+  /** CV / FRONT_SALES は訴求のシートURLを優先（集計処理と同じシートを検証する） */
+  private spreadsheetIdFor(
+    definition: DataSourceDefinition,
+    appeal?: DataSourceAppeal,
+  ): string | null {
+    const appealUrl =
+      definition.kind === 'CV'
+        ? appeal?.cvSpreadsheetUrl
+        : definition.kind === 'FRONT_SALES'
+          ? appeal?.frontSpreadsheetUrl
+          : null;
+    if (appealUrl) {
+      const parsed = validateSpreadsheetUrl(appealUrl);
+      return parsed.isValid ? parsed.spreadsheetId! : null;
+    }
+    return definition.spreadsheetId;
+  }
+
+  private templateSpreadsheetId(
+    kind: DataSourceKind,
+    channelType: ChannelType | null,
+  ): string | null {
+    if (kind !== 'CV' && kind !== 'FRONT_SALES') return null;
+    const envKey = channelType
+      ? TEMPLATE_SPREADSHEET_ENV_KEYS[channelType]?.[kind]
+      : undefined;
+    return (envKey && this.configService.get<string>(envKey)) || null;
+  }
+
+  private toSpreadsheetUrl(spreadsheetId: string): string {
+    return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
+  }
+
+  private unreadable(message: string): LayoutValidationResult {
+    return {
+      status: 'FAILED',
+      columns: {},
+      latestDate: null,
+      daysSinceUpdate: null,
+      issues: [{ code: 'UNREADABLE', message }],
+    };
+  }
+}
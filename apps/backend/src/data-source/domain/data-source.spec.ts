@@ -0,0 +1,189 @@
+import {
+  defaultDataSources,
+  locateColumn,
+  selectDataSources,
+  toIndividualReservationSheet,
+  validateDataSourceDefinition,
+  validateSheetLayout,
+  type DataSourceDefinition,
+} from './data-source';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+const cvSource: DataSourceDefinition = {
+  ...defaultDataSources('CV', 'AI', 'sheet-cv')[0],
+};
+
+describe('DataSource', () => {
+  describe('selectDataSources', () => {
+    const registered: DataSourceDefinition[] = [
+      { ...cvSource, id: 'global', name: '全体', channelType: null },
+      { ...cvSource, id: 'ai', name: 'AI共通', channelType: 'AI' },
+      { ...cvSource, id: 'appeal', name: '訴求専用', appealId: 'appeal-1' },
+      ...defaultDataSources('FRONT_SALES', 'AI').map((d, i) => ({
+        ...d,
+        id: `front-${i}`,
+      })),
+    ];
+
+    it('訴求専用 → 導線共通 → 全体共通の順に解決する', () => {
+      const pick = (appealId: string | null, channelType: 'AI' | 'SNS') =>
+        selectDataSources(registered, 'CV', { appealId, channelType }).map(
+          (d) => d.id,
+        );
+      expect(pick('appeal-1', 'AI')).toEqual(['appeal']);
+      expect(pick('appeal-2', 'AI')).toEqual(['ai']);
+      expect(pick('appeal-2', 'SNS')).toEqual(['global']);
+    });
+
+    it('同じスコープの定義（複数タブ）はすべて返し、該当なしなら空', () => {
+      expect(
+        selectDataSources(registered, 'FRONT_SALES', {
+          appealId: null,
+          channelType: 'AI',
+        }),
+      ).toHaveLength(2);
+      expect(
+        selectDataSources(registered, 'DAILY_REPORT', {
+          appealId: null,
+          channelType: null,
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe('既定値', () => {
+    it('個別予約は導線別のタブ・ヘッダー名の候補と従来の列位置', () => {
+      expect(
+        toIndividualReservationSheet(
+          defaultDataSources('INDIVIDUAL_RESERVATION', 'SEMINAR')[0],
+        ),
+      ).toEqual({
+        spreadsheetId: '1MsJRbZGrLOkgd7lRApr1ciFQ1GOZaIjmrXQSIe3_nCA',
+        sheetName: 'スキルプラス（オートウェビナー用）',
+        headerRowIndex: 0,
+        dateColumn: expect.objectContaining({
+          headers: expect.arrayContaining(['登録日時']),
+          fallbackIndex: 0,
+        }),
+        pathColumn: expect.objectContaining({
+          headers: expect.arrayContaining(['登録経路']),
+          fallbackIndex: 34,
+        }),
+      });
+    });
+
+    it('既定値はすべて入力チェックを通る（CV/FRONT_SALESはシートID未設定可）', () => {
+      for (const kind of [
+        'DAILY_REPORT',
+        'CV',
+        'FRONT_SALES',
+        'INDIVIDUAL_RESERVATION',
+      ] as const) {
+        for (const definition of defaultDataSources(kind, 'AI')) {
+          expect(validateDataSourceDefinition(definition)).toEqual([]);
+        }
+      }
+    });
+  });
+
+  describe('validateDataSourceDefinition', () => {
+    it('列指定・鮮度設定の不備を検出する', () => {
+      const errors = validateDataSourceDefinition({
+        ...defaultDataSources('INDIVIDUAL_RESERVATION', 'AI')[0],
+        columns: { date: { index: -1 }, memo: {} },
+        freshnessColumn: 'updatedAt',
+        maxStaleDays: 1,
+      });
+      expect(errors).toEqual([
+        'columns.date.index must be a non-negative integer',
+        'columns.memo needs headers or index',
+        'columns.registrationPath is required for INDIVIDUAL_RESERVATION',
+        'freshnessColumn "updatedAt" is not in columns',
+      ]);
+    });
+  });
+
+  describe('validateSheetLayout', () => {
+    const header = ['ID', '名前', 'メール', 'LP', '登録経路', '登録日時'];
+
+    it('ヘッダーから列を特定し、鮮度が許容内ならOK', () => {
+      const result = validateSheetLayout(
+        [header, ['1', 'a', 'x', 'LP1', 'TikTok広告-AI-LP1-CR1', daysAgo(1)]],
+        cvSource,
+      );
+      expect(result.status).toBe('OK');
+      expect(result.columns).toEqual({ registrationPath: 4, date: 5 });
+      expect(result.daysSinceUpdate).toBeLessThanOrEqual(2);
+    });
+
+    it('ヘッダーが見つからない列・更新が止まったシートはFAILED', () => {
+      const result = validateSheetLayout(
+        [
+          ['ID', '名前', '登録日時'],
+          ['1', 'a', daysAgo(5)],
+        ],
+        cvSource,
+      );
+      expect(result.status).toBe('FAILED');
+      expect(result.issues.map((i) => i.code)).toEqual([
+        'COLUMN_MISSING',
+        'STALE',
+      ]);
+    });
+
+    it('固定列の想定位置から移動していればFAILED', () => {
+      const result = validateSheetLayout([['日付', '広告名', 'アカウント']], {
+        ...defaultDataSources('DAILY_REPORT', null)[0],
+      });
+      expect(result.issues).toEqual([
+        expect.objectContaining({ code: 'COLUMN_MOVED', column: 'account' }),
+      ]);
+    });
+
+    it('ヘッダー名が見つからず既定の列位置がシート幅を超えていればFAILED', () => {
+      const definition = defaultDataSources('INDIVIDUAL_RESERVATION', 'AI')[0];
+      const result = validateSheetLayout(
+        [Array.from({ length: 40 }, (_, i) => `列${i}`)],
+        definition,
+      );
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          code: 'COLUMN_OUT_OF_RANGE',
+          column: 'registrationPath',
+        }),
+      ]);
+    });
+
+    it('個別予約の列がずれてもヘッダー名で追い、見つからなければ既定の列位置を使う', () => {
+      const definition = defaultDataSources('INDIVIDUAL_RESERVATION', 'AI')[0];
+      // AU列(46)にあった登録経路が1列右(47)にずれたシート
+      const shifted = Array.from({ length: 50 }, (_, i) => `列${i}`);
+      shifted[0] = '登録日時';
+      shifted[47] = '登録経路';
+
+      const result = validateSheetLayout([shifted], definition);
+      expect(result.status).toBe('OK');
+      expect(result.columns).toEqual({ date: 0, registrationPath: 47 });
+      expect(locateColumn(shifted, definition.columns.registrationPath)).toBe(
+        47,
+      );
+
+      const unnamed = Array.from({ length: 50 }, (_, i) => `列${i}`);
+      expect(validateSheetLayout([unnamed], definition).columns).toEqual({
+        date: 0,
+        registrationPath: 46,
+      });
+    });
+
+    it('ヘッダー行がなければFAILED', () => {
+      expect(validateSheetLayout([], cvSource).issues[0].code).toBe(
+        'NO_HEADER',
+      );
+    });
+  });
+});
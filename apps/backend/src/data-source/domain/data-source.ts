@@ -0,0 +1,487 @@
+// ============================================================================
+// データソースレジストリ - 型定義・解決・レイアウト検証（純粋関数）
+// スプレッドシートのタブ・列（ヘッダー名）・鮮度の期待値を定義し、
+// 列の移動や更新停止を件数ゼロとして見過ごさずに検出する
+// ============================================================================
+
+import type { ChannelType } from '../../channel-registry/domain/channel';
+import {
+  checkDataFreshness,
+  detectColumnPositions,
+} from '../../common/utils/google-sheets-error.util';
+
+export type DataSourceKind =
+  | 'DAILY_REPORT'
+  | 'CV'
+  | 'FRONT_SALES'
+  | 'INDIVIDUAL_RESERVATION';
+
+export const DATA_SOURCE_KINDS: DataSourceKind[] = [
+  'DAILY_REPORT',
+  'CV',
+  'FRONT_SALES',
+  'INDIVIDUAL_RESERVATION',
+];
+
+/**
+ * 列の期待値
+ * headers: ヘッダー名の候補（部分一致）。指定時はヘッダー行から列を特定する
+ * index: 0始まりの列番号。headersと併用した場合は特定した列と一致する必要がある
+ * fallbackIndex: ヘッダー名が見つからないときに使う0始まりの列番号
+ */
+export interface ColumnSpec {
+  headers?: string[];
+  index?: number;
+  fallbackIndex?: number;
+}
+
+export type ColumnMapping = Record<string, ColumnSpec>;
+
+export interface DataSourceDefinition {
+  /** DataSource.id（既定値ならnull） */
+  id: string | null;
+  name: string;
+  kind: DataSourceKind;
+  channelType: ChannelType | null;
+  appealId: string | null;
+  /** CV / FRONT_SALES で null なら訴求のシートURLを使う */
+  spreadsheetId: string | null;
+  sheetName: string;
+  /** 0始まりのヘッダー行番号 */
+  headerRowIndex: number;
+  columns: ColumnMapping;
+  /** 鮮度チェックに使う列キー */
+  freshnessColumn: string | null;
+  /** 最新日付がこの日数より古ければ失敗（nullならチェックしない） */
+  maxStaleDays: number | null;
+}
+
+/** 個別予約件数の集計に使うシート設定（列はヘッダー行から特定する） */
+export interface IndividualReservationSheet {
+  spreadsheetId: string;
+  sheetName: string;
+  /** 0始まりのヘッダー行番号 */
+  headerRowIndex: number;
+  dateColumn: ColumnSpec;
+  pathColumn: ColumnSpec;
+}
+
+// ----------------------------------------------------------------------------
+// 既定値（DataSource 未登録時に使う）
+// ----------------------------------------------------------------------------
+
+/** 日次レポート書き出し先 */
+export const DEFAULT_DAILY_REPORT_SPREADSHEET_ID =
+  '17PWEALugoIY2aKtjpITuyEAwJRz7o03q5iLeR5_5FwM';
+export const DEFAULT_DAILY_REPORT_SHEET_NAME = 'シート1';
+
+/** 個別予約スプレッドシートID（全導線共通） */
+export const DEFAULT_INDIVIDUAL_RESERVATION_SPREADSHEET_ID =
+  '1MsJRbZGrLOkgd7lRApr1ciFQ1GOZaIjmrXQSIe3_nCA';
+
+const DEFAULT_INDIVIDUAL_RESERVATION_SHEETS: Record<
+  ChannelType,
+  { sheetName: string; dateColumnIndex: number; pathColumnIndex: number }
+> = {
+  SEMINAR: {
+    sheetName: 'スキルプラス（オートウェビナー用）',
+    dateColumnIndex: 0, // A列
+    pathColumnIndex: 34, // AI列
+  },
+  AI: {
+    sheetName: 'AI',
+    dateColumnIndex: 0, // A列
+    pathColumnIndex: 46, // AU列
+  },
+  SNS: {
+    sheetName: 'SNS',
+    dateColumnIndex: 0, // A列
+    pathColumnIndex: 46, // AU列
+  },
+};
+
+/** CV・フロント販売シートの列（登録経路・登録日時） */
+export const REGISTRATION_SHEET_COLUMNS: ColumnMapping = {
+  registrationPath: {
+    headers: [
+      '登録経路',
+      '流入経路',
+      'registration_path',
+      'path',
+      'ファネル登録経路',
+    ],
+  },
+  date: {
+    headers: [
+      '登録日時',
+      '登録日',
+      'date',
+      'created_at',
+      'timestamp',
+      'アクション実行日時',
+      '実行日時',
+    ],
+  },
+};
+
+/**
+ * 既定のデータソース定義
+ * @param templateSpreadsheetId CV / FRONT_SALES の新規訴求用シートID（環境変数由来）
+ */
+export function defaultDataSources(
+  kind: DataSourceKind,
+  channelType: ChannelType | null,
+  templateSpreadsheetId: string | null = null,
+): DataSourceDefinition[] {
+  const base = {
+    id: null,
+    channelType,
+    appealId: null,
+    headerRowIndex: 0,
+    freshnessColumn: null,
+    maxStaleDays: null,
+  };
+
+  switch (kind) {
+    case 'DAILY_REPORT':
+      return [
+        {
+          ...base,
+          channelType: null,
+          name: '日次レポート（既定）',
+          kind,
+          spreadsheetId: DEFAULT_DAILY_REPORT_SPREADSHEET_ID,
+          sheetName: DEFAULT_DAILY_REPORT_SHEET_NAME,
+          columns: {
+            date: { headers: ['日付'], index: 0 },
+            account: { headers: ['アカウント'], index: 1 },
+          },
+        },
+      ];
+    case 'CV':
+      return [
+        {
+          ...base,
+          name: 'CV（既定）',
+          kind,
+          spreadsheetId: templateSpreadsheetId,
+          sheetName: 'TT_オプト',
+          columns: REGISTRATION_SHEET_COLUMNS,
+          freshnessColumn: 'date',
+          maxStaleDays: 2,
+        },
+      ];
+    case 'FRONT_SALES':
+      return ['TT【OTO】', 'TT【3day】'].map((sheetName) => ({
+        ...base,
+        name: `フロント販売 ${sheetName}（既定）`,
+        kind,
+        spreadsheetId: templateSpreadsheetId,
+        sheetName,
+        columns: REGISTRATION_SHEET_COLUMNS,
+      }));
+    case 'INDIVIDUAL_RESERVATION': {
+      const sheet = DEFAULT_INDIVIDUAL_RESERVATION_SHEETS[channelType ?? 'AI'];
+      return [
+        {
+          ...base,
+          name: `個別予約 ${sheet.sheetName}（既定）`,
+          kind,
+          spreadsheetId: DEFAULT_INDIVIDUAL_RESERVATION_SPREADSHEET_ID,
+          sheetName: sheet.sheetName,
+          // 列が動いてもヘッダー名で追えるようにし、見つからなければ従来の列位置を使う
+          columns: {
+            date: {
+              ...REGISTRATION_SHEET_COLUMNS.date,
+              fallbackIndex: sheet.dateColumnIndex,
+            },
+            registrationPath: {
+              ...REGISTRATION_SHEET_COLUMNS.registrationPath,
+              fallbackIndex: sheet.pathColumnIndex,
+            },
+          },
+        },
+      ];
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// 解決
+// ----------------------------------------------------------------------------
+
+export function isDataSourceKind(value: unknown): value is DataSourceKind {
+  return DATA_SOURCE_KINDS.includes(value as DataSourceKind);
+}
+
+/**
+ * 登録済みの定義から適用するものを選ぶ
+ * 訴求専用 → 導線共通 → 全体共通 の順に、最初に見つかったスコープの定義をすべて返す
+ * （FRONT_SALES のように1種別で複数タブを持つ場合があるため）
+ * @returns 該当なしなら空配列（呼び出し側で既定値を使う）
+ */
+export function selectDataSources(
+  registered: DataSourceDefinition[],
+  kind: DataSourceKind,
+  scope: { appealId: string | null; channelType: ChannelType | null },
+): DataSourceDefinition[] {
+  const ofKind = registered.filter((d) => d.kind === kind);
+  const scopes: ((d: DataSourceDefinition) => boolean)[] = [
+    (d) => scope.appealId !== null && d.appealId === scope.appealId,
+    (d) =>
+      d.appealId === null &&
+      scope.channelType !== null &&
+      d.channelType === scope.channelType,
+    (d) => d.appealId === null && d.channelType === null,
+  ];
+  for (const matches of scopes) {
+    const selected = ofKind.filter(matches);
+    if (selected.length > 0) return selected;
+  }
+  return [];
+}
+
+export class DataSourceConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSourceConfigError';
+  }
+}
+
+/** 個別予約の定義を集計用のシート設定に変換 */
+export function toIndividualReservationSheet(
+  definition: DataSourceDefinition,
+): IndividualReservationSheet {
+  const dateColumn = definition.columns.date;
+  const pathColumn = definition.columns.registrationPath;
+  if (!definition.spreadsheetId || !dateColumn || !pathColumn) {
+    throw new DataSourceConfigError(
+      `Data source "${definition.name}" needs spreadsheetId and date/registrationPath columns`,
+    );
+  }
+  return {
+    spreadsheetId: definition.spreadsheetId,
+    sheetName: definition.sheetName,
+    headerRowIndex: definition.headerRowIndex,
+    dateColumn,
+    pathColumn,
+  };
+}
+
+/**
+ * ヘッダー行から列番号を特定する
+ * ヘッダー名で見つからなければ fallbackIndex / index を使う（どれもなければ undefined）
+ */
+export function locateColumn(
+  headerRow: unknown[],
+  spec: ColumnSpec,
+): number | undefined {
+  const found = spec.headers?.length
+    ? detectColumnPositions(headerRow, { column: spec.headers }).positions
+        .column
+    : undefined;
+  return found ?? spec.fallbackIndex ?? spec.index;
+}
+
+/**
+ * 定義の入力チェック
+ * @returns エラーメッセージ（空なら妥当）
+ */
+export function validateDataSourceDefinition(
+  definition: Omit<DataSourceDefinition, 'id' | 'name'>,
+): string[] {
+  const errors: string[] = [];
+  const isIndex = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+
+  if (!isDataSourceKind(definition.kind)) {
+    errors.push(`kind must be one of ${DATA_SOURCE_KINDS.join(', ')}`);
+  }
+  if (!definition.sheetName?.trim()) {
+    errors.push('sheetName is required');
+  }
+  if (!isIndex(definition.headerRowIndex)) {
+    errors.push('headerRowIndex must be a non-negative integer');
+  }
+  if (
+    (definition.kind === 'DAILY_REPORT' ||
+      definition.kind === 'INDIVIDUAL_RESERVATION') &&
+    !definition.spreadsheetId
+  ) {
+    errors.push(`spreadsheetId is required for ${definition.kind}`);
+  }
+
+  const columns = definition.columns ?? {};
+  for (const [key, spec] of Object.entries(columns)) {
+    const hasHeaders = Array.isArray(spec?.headers) && spec.headers.length > 0;
+    if (
+      !hasHeaders &&
+      spec?.index === undefined &&
+      spec?.fallbackIndex === undefined
+    ) {
+      errors.push(`columns.${key} needs headers or index`);
+    }
+    for (const field of ['index', 'fallbackIndex'] as const) {
+      if (spec?.[field] !== undefined && !isIndex(spec[field])) {
+        errors.push(`columns.${key}.${field} must be a non-negative integer`);
+      }
+    }
+  }
+  if (definition.kind === 'INDIVIDUAL_RESERVATION') {
+    for (const key of ['date', 'registrationPath']) {
+      if (!columns[key]) {
+        errors.push(`columns.${key} is required for ${definition.kind}`);
+      }
+    }
+  }
+
+  if (definition.freshnessColumn && !columns[definition.freshnessColumn]) {
+    errors.push(
+      `freshnessColumn "${definition.freshnessColumn}" is not in columns`,
+    );
+  }
+  if (definition.maxStaleDays !== null) {
+    if (!isIndex(definition.maxStaleDays)) {
+      errors.push('maxStaleDays must be a non-negative integer');
+    }
+    if (!definition.freshnessColumn) {
+      errors.push('maxStaleDays requires freshnessColumn');
+    }
+  }
+  return errors;
+}
+
+// ----------------------------------------------------------------------------
+// レイアウト検証
+// ----------------------------------------------------------------------------
+
+export type LayoutIssueCode =
+  | 'UNREADABLE'
+  | 'NO_HEADER'
+  | 'COLUMN_MISSING'
+  | 'COLUMN_MOVED'
+  | 'COLUMN_OUT_OF_RANGE'
+  | 'STALE';
+
+export interface LayoutIssue {
+  code: LayoutIssueCode;
+  column?: string;
+  message: string;
+}
+
+export interface LayoutValidationResult {
+  status: 'OK' | 'FAILED';
+  /** 列キー → 特定した列番号 */
+  columns: Record<string, number>;
+  /** 鮮度列の最新日付（YYYY-MM-DD） */
+  latestDate: string | null;
+  daysSinceUpdate: number | null;
+  issues: LayoutIssue[];
+}
+
+/**
+ * シートの内容が定義どおりのレイアウト・鮮度か検証する
+ * 列の不足・移動・範囲外、鮮度切れはいずれも FAILED
+ */
+export function validateSheetLayout(
+  rows: unknown[][],
+  definition: DataSourceDefinition,
+): LayoutValidationResult {
+  const issues: LayoutIssue[] = [];
+  const columns: Record<string, number> = {};
+  const headerRow = rows[definition.headerRowIndex];
+
+  if (!headerRow || headerRow.length === 0) {
+    return {
+      status: 'FAILED',
+      columns,
+      latestDate: null,
+      daysSinceUpdate: null,
+      issues: [
+        {
+          code: 'NO_HEADER',
+          message: `ヘッダー行（${definition.headerRowIndex + 1}行目）がありません`,
+        },
+      ],
+    };
+  }
+
+  const headerColumns: Record<string, string[]> = {};
+  for (const [key, spec] of Object.entries(definition.columns)) {
+    if (spec.headers && spec.headers.length > 0) {
+      headerColumns[key] = spec.headers;
+    }
+  }
+  const detected = detectColumnPositions(headerRow, headerColumns).positions;
+
+  for (const [key, spec] of Object.entries(definition.columns)) {
+    const found = detected[key];
+    if (
+      headerColumns[key] &&
+      found === undefined &&
+      spec.fallbackIndex === undefined
+    ) {
+      issues.push({
+        code: 'COLUMN_MISSING',
+        column: key,
+        message: `列「${key}」のヘッダー（${headerColumns[key].join(' / ')}）が見つかりません`,
+      });
+      continue;
+    }
+    if (
+      found !== undefined &&
+      spec.index !== undefined &&
+      found !== spec.index
+    ) {
+      issues.push({
+        code: 'COLUMN_MOVED',
+        column: key,
+        message: `列「${key}」が想定位置（${spec.index}）ではなく${found}列目にあります`,
+      });
+      continue;
+    }
+    const index = found ?? spec.index ?? spec.fallbackIndex!;
+    if (index >= headerRow.length) {
+      issues.push({
+        code: 'COLUMN_OUT_OF_RANGE',
+        column: key,
+        message: `列「${key}」（${index}）がヘッダー行の範囲外です（${headerRow.length}列）`,
+      });
+      continue;
+    }
+    columns[key] = index;
+  }
+
+  let latestDate: string | null = null;
+  let daysSinceUpdate: number | null = null;
+  const freshnessIndex = definition.freshnessColumn
+    ? columns[definition.freshnessColumn]
+    : undefined;
+  if (definition.maxStaleDays !== null && freshnessIndex !== undefined) {
+    const freshness = checkDataFreshness(
+      rows.slice(definition.headerRowIndex),
+      freshnessIndex,
+      definition.maxStaleDays,
+    );
+    latestDate = freshness.latestDate
+      ? freshness.latestDate.toISOString().slice(0, 10)
+      : null;
+    daysSinceUpdate = freshness.daysSinceUpdate ?? null;
+    if (!freshness.isFresh) {
+      issues.push({
+        code: 'STALE',
+        column: definition.freshnessColumn!,
+        message:
+          freshness.warning?.message ??
+          `最新データが${definition.maxStaleDays}日より古いです`,
+      });
+    }
+  }
+
+  return {
+    status: issues.length === 0 ? 'OK' : 'FAILED',
+    columns,
+    latestDate,
+    daysSinceUpdate,
+    issues,
+  };
+}
@@ -0,0 +1,148 @@
+// ============================================================================
+// DaypartingController - 時間帯分析と配信時間帯（dayparting）の適用
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { DaypartingService } from './dayparting.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { inaccessibleAdvertisers } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@Controller('api/dayparting')
+export class DaypartingController {
+  private readonly logger = new Logger(DaypartingController.name);
+
+  constructor(private readonly daypartingService: DaypartingService) {}
+
+  /**
+   * 訴求別・広告別の時間帯実績と配信時間帯の提案
+   * GET /api/dayparting/analysis?appealId=xxx&days=7
+   */
+  @RequirePermissions(PERMISSIONS.REPORT_READ)
+  @Get('analysis')
+  async analysis(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('appealId') appealId?: string,
+    @Query('days') days?: string,
+  ) {
+    return this.handle('Analysis', () =>
+      this.daypartingService.analyze(
+        {
+          appealId: appealId || undefined,
+          days: days ? Number(days) : undefined,
+        },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  /**
+   * 広告アカウント別の配信時間帯の設定（自動適用・適用中の時間帯）
+   * GET /api/dayparting/plans
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_READ)
+  @Get('plans')
+  async plans(@CurrentPrincipal() principal: AuthPrincipal) {
+    return this.handle('List plans', () =>
+      this.daypartingService.listPlans(principal.advertiserIds),
+    );
+  }
+
+  /**
+   * 自動適用のオン・オフ
+   * POST /api/dayparting/plans/:advertiserId/auto-apply  { autoApply: true }
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_CONFIGURE)
+  @Post('plans/:advertiserId/auto-apply')
+  async setAutoApply(
+    @Param('advertiserId') advertiserId: string,
+    @Body() body: { autoApply: boolean },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Set auto apply', async () => {
+      this.assertAccess(principal, advertiserId);
+      return this.daypartingService.setAutoApply(advertiserId, body?.autoApply);
+    });
+  }
+
+  /**
+   * 配信中の広告セットに配信時間帯を反映する（activeHours 省略時は提案を使う）
+   * POST /api/dayparting/plans/:advertiserId/apply  { activeHours?: number[], dryRun?: boolean }
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @Post('plans/:advertiserId/apply')
+  async apply(
+    @Param('advertiserId') advertiserId: string,
+    @Body() body: { activeHours?: number[]; dryRun?: boolean },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Apply', async () => {
+      this.assertAccess(principal, advertiserId);
+      return this.daypartingService.apply(advertiserId, {
+        activeHours: body?.activeHours,
+        dryRun: body?.dryRun === true,
+      });
+    });
+  }
+
+  /**
+   * 終日配信に戻し、自動適用をオフにする
+   * POST /api/dayparting/plans/:advertiserId/reset
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @Post('plans/:advertiserId/reset')
+  async reset(
+    @Param('advertiserId') advertiserId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Reset', async () => {
+      this.assertAccess(principal, advertiserId);
+      return this.daypartingService.reset(advertiserId);
+    });
+  }
+
+  /**
+   * 自動適用を今すぐ実行する（一時停止は定期実行と同じ）
+   * POST /api/dayparting/run
+   */
+  @RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
+  @Post('run')
+  async run() {
+    this.logger.log('Manual dayparting apply requested');
+    return this.handle('Run', () => this.daypartingService.runNow());
+  }
+
+  private assertAccess(principal: AuthPrincipal, advertiserId: string) {
+    const denied = inaccessibleAdvertisers(principal, [advertiserId]);
+    if (denied.length > 0) {
+      throw new ForbiddenException(
+        `No access to advertisers: ${denied.join(', ')}`,
+      );
+    }
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[DAYPARTING] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
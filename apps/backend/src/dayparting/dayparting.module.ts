@@ -0,0 +1,15 @@
+// ============================================================================
+// DaypartingModule - 時間帯分析と配信時間帯（dayparting）の管理
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { DaypartingService } from './dayparting.service';
+import { DaypartingController } from './dayparting.controller';
+import { TiktokModule } from '../tiktok/tiktok.module';
+
+@Module({
+  imports: [TiktokModule],
+  controllers: [DaypartingController],
+  providers: [DaypartingService],
+})
+export class DaypartingModule {}
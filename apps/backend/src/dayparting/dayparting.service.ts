@@ -0,0 +1,626 @@
+// ============================================================================
+// DaypartingService - 時間帯分析と配信時間帯（dayparting）の管理
+// 時間別レポート（stat_time_hour × ad_id）とコンバージョン台帳のCVを訴求・広告単位で
+// 時間帯別に集計し、導線別の方針で配信時間帯を提案する。
+// 自動適用（オプトイン）の広告アカウントは毎朝、配信中の広告セット・Smart+ 広告セットへ反映する
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import type { DaypartingPlan, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import { eachAdvertiser, JobRunContext } from '../job-queue/job-run-context';
+import { AutomationControlService } from '../automation-control/automation-control.service';
+import type { AutomationSkip } from '../automation-control/domain/automation-control';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import type { ChannelType } from '../channel-registry/domain/channel';
+import { toJstDate } from '../conversion-ledger/domain/conversion-ledger';
+import { addDays } from '../dashboard/domain/dashboard';
+import {
+  ALL_HOURS,
+  DAYPARTING_POLICY_BY_CHANNEL,
+  DEFAULT_ANALYSIS_DAYS,
+  addHourlyStats,
+  daypartingOf,
+  describeWindows,
+  emptyHourlyStats,
+  parseStatHour,
+  recommendWindow,
+  toDayparting,
+  validateActiveHours,
+  validateAnalysisDays,
+  type DaypartingRecommendation,
+  type HourlyStats,
+} from './domain/dayparting';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export interface AdHourlyPerformance {
+  advertiserId: string;
+  adId: string;
+  adName: string;
+  spend: number;
+  conversions: number;
+  hourly: HourlyStats[];
+}
+
+export interface DaypartingAnalysis {
+  appealId: string;
+  appealName: string;
+  channelType: ChannelType;
+  allowableCPA: number | null;
+  /** 集計期間（JST, YYYY-MM-DD） */
+  period: { from: string; to: string };
+  advertiserIds: string[];
+  /** 時間別レポートを取得できなかった広告アカウント（集計に含まれない） */
+  failedAdvertiserIds: string[];
+  hourly: HourlyStats[];
+  recommendation: DaypartingRecommendation;
+  /** 広告別の時間帯実績（消化額の多い順） */
+  ads: AdHourlyPerformance[];
+}
+
+export interface DaypartingApplyResult {
+  advertiserId: string;
+  dryRun: boolean;
+  activeHours: number[];
+  windows: string[];
+  /** 手動指定なら null */
+  recommendation: DaypartingRecommendation | null;
+  updated: { adgroupId: string; smartPlus: boolean }[];
+  /** 既に同じ配信時間帯の広告セット数 */
+  unchanged: number;
+  failed: { adgroupId: string; error: string }[];
+}
+
+export interface DaypartingRunResult {
+  processed: number;
+  updated: number;
+  failed: number;
+  automationSkips: AutomationSkip[];
+}
+
+@Injectable()
+export class DaypartingService implements OnModuleInit {
+  private readonly logger = new Logger(DaypartingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly jobQueue: JobQueueService,
+    private readonly automationControl: AutomationControlService,
+    private readonly channelRegistry: ChannelRegistryService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.register('dayparting-apply', (run) =>
+      this.executeAutoApply(run),
+    );
+  }
+
+  // ============================================================================
+  // 時間帯分析
+  // ============================================================================
+
+  /**
+   * 訴求別の時間帯実績と配信時間帯の提案（昨日までの days 日間）
+   * @param scope 扱える広告アカウント（null なら全アカウント）
+   */
+  async analyze(
+    query: { appealId?: string; days?: number },
+    scope: string[] | null,
+    now: Date = new Date(),
+  ): Promise<DaypartingAnalysis[]> {
+    const errors = validateAnalysisDays(query.days);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid dayparting query: ' + errors.join('; '),
+      );
+    }
+    const to = addDays(toJstDate(now), -1);
+    const period = {
+      from: addDays(to, -((query.days ?? DEFAULT_ANALYSIS_DAYS) - 1)),
+      to,
+    };
+
+    const advertisers = await this.prisma.advertiser.findMany({
+      where: {
+        appealId: query.appealId ?? { not: null },
+        status: 'ACTIVE',
+        ...(scope !== null && { tiktokAdvertiserId: { in: scope } }),
+      },
+      include: { appeal: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const byAppeal = new Map<string, typeof advertisers>();
+    for (const advertiser of advertisers) {
+      const appealId = advertiser.appealId!;
+      byAppeal.set(appealId, [...(byAppeal.get(appealId) ?? []), advertiser]);
+    }
+
+    const analyses: DaypartingAnalysis[] = [];
+    for (const group of byAppeal.values()) {
+      const appeal = this.channelRegistry.resolveAppeal(group[0].appeal!);
+      const ads: AdHourlyPerformance[] = [];
+      const failedAdvertiserIds: string[] = [];
+      for (const advertiser of group) {
+        try {
+          ads.push(
+            ...(await this.collectAdHourly(
+              advertiser.tiktokAdvertiserId,
+              period,
+            )),
+          );
+        } catch (error) {
+          this.logger.warn(
+            `[DAYPARTING] Hourly report failed for ${advertiser.tiktokAdvertiserId}: ${error.message}`,
+          );
+          failedAdvertiserIds.push(advertiser.tiktokAdvertiserId);
+        }
+      }
+
+      const hourly = emptyHourlyStats();
+      for (const ad of ads) {
+        for (const row of ad.hourly) addHourlyStats(hourly, row.hour, row);
+      }
+      const allowableCPA = group[0].appeal!.allowableCPA;
+      analyses.push({
+        appealId: appeal.appealId,
+        appealName: appeal.appealName,
+        channelType: appeal.channelType,
+        allowableCPA,
+        period,
+        advertiserIds: group.map((a) => a.tiktokAdvertiserId),
+        failedAdvertiserIds,
+        hourly,
+        recommendation: recommendWindow(
+          hourly,
+          allowableCPA,
+          DAYPARTING_POLICY_BY_CHANNEL[appeal.channelType],
+        ),
+        ads: ads.sort((a, b) => b.spend - a.spend),
+      });
+    }
+    return analyses;
+  }
+
+  // ============================================================================
+  // 配信時間帯の設定
+  // ============================================================================
+
+  async listPlans(scope: string[] | null): Promise<DaypartingPlan[]> {
+    return this.prisma.daypartingPlan.findMany({
+      where: scope !== null ? { advertiserId: { in: scope } } : {},
+      orderBy: { advertiserId: 'asc' },
+    });
+  }
+
+  /** 自動適用のオン・オフ（オンにした翌朝から分析結果を広告セットへ反映する） */
+  async setAutoApply(
+    advertiserId: string,
+    autoApply: boolean,
+  ): Promise<DaypartingPlan> {
+    if (typeof autoApply !== 'boolean') {
+      throw new BadRequestException('autoApply must be a boolean');
+    }
+    await this.findAdvertiser(advertiserId);
+    return this.prisma.daypartingPlan.upsert({
+      where: { advertiserId },
+      create: { advertiserId, autoApply },
+      update: { autoApply },
+    });
+  }
+
+  /**
+   * 配信中の広告セットに配信時間帯を反映する
+   * activeHours を省略すると訴求の分析結果の提案を使う
+   */
+  async apply(
+    advertiserId: string,
+    options: { activeHours?: number[]; dryRun?: boolean } = {},
+    now: Date = new Date(),
+  ): Promise<DaypartingApplyResult> {
+    const advertiser = await this.findAdvertiser(advertiserId);
+    const appeal = this.channelRegistry.resolveAppeal(advertiser.appeal!);
+
+    if (options.activeHours !== undefined) {
+      const errors = validateActiveHours(
+        options.activeHours,
+        DAYPARTING_POLICY_BY_CHANNEL[appeal.channelType],
+      );
+      if (errors.length > 0) {
+        throw new BadRequestException(
+          'Invalid dayparting: ' + errors.join('; '),
+        );
+      }
+      return this.applyHours(
+        advertiserId,
+        options.activeHours,
+        null,
+        !!options.dryRun,
+      );
+    }
+
+    const recommendation = await this.recommendationFor(appeal.appealId, now);
+    return this.applyHours(
+      advertiserId,
+      recommendation.activeHours,
+      recommendation,
+      !!options.dryRun,
+    );
+  }
+
+  /** 終日配信に戻し、自動適用をオフにする */
+  async reset(advertiserId: string): Promise<DaypartingApplyResult> {
+    await this.findAdvertiser(advertiserId);
+    const result = await this.applyHours(advertiserId, ALL_HOURS, null, false);
+    await this.prisma.daypartingPlan.update({
+      where: { advertiserId },
+      data: { autoApply: false },
+    });
+    return result;
+  }
+
+  // ============================================================================
+  // 自動適用（定期実行）
+  // ============================================================================
+
+  @Cron('0 4 * * *', { name: 'dayparting-apply', timeZone: 'Asia/Tokyo' })
+  async scheduleAutoApply() {
+    await this.jobQueue.run('dayparting-apply', (run) =>
+      this.executeAutoApply(run),
+    );
+  }
+
+  /** 手動実行（POST /api/dayparting/run） */
+  async runNow() {
+    return this.jobQueue.run(
+      'dayparting-apply',
+      (run) => this.executeAutoApply(run),
+      { trigger: 'API' },
+    );
+  }
+
+  /**
+   * 自動適用がオンの広告アカウントに前日までの分析結果を反映する
+   * 分析は訴求ごとに1回だけ行い、同じ訴求のアカウントで使い回す
+   */
+  async executeAutoApply(
+    run?: JobRunContext,
+    now: Date = new Date(),
+  ): Promise<DaypartingRunResult> {
+    const plans = await this.prisma.daypartingPlan.findMany({
+      where: { autoApply: true },
+      orderBy: { advertiserId: 'asc' },
+    });
+    const gate = await this.automationControl.gate(
+      'DAYPARTING',
+      plans.map((plan) => plan.advertiserId),
+    );
+
+    const recommendations = new Map<string, DaypartingRecommendation>();
+    const outcomes = await eachAdvertiser(
+      run,
+      plans.filter((plan) => gate.allowed.includes(plan.advertiserId)),
+      (plan) => plan.advertiserId,
+      async (plan) => {
+        const advertiser = await this.findAdvertiser(plan.advertiserId);
+        let recommendation = recommendations.get(advertiser.appealId!);
+        if (!recommendation) {
+          recommendation = await this.recommendationFor(
+            advertiser.appealId!,
+            now,
+          );
+          recommendations.set(advertiser.appealId!, recommendation);
+        }
+        const result = await this.applyHours(
+          plan.advertiserId,
+          recommendation.activeHours,
+          recommendation,
+          false,
+        );
+        if (result.failed.length > 0) {
+          throw new Error(
+            `Failed to update ${result.failed.length} adgroups: ${result.failed[0].error}`,
+          );
+        }
+        return result;
+      },
+      {
+        summarize: (result) => ({
+          windows: result.windows,
+          updated: result.updated.length,
+          unchanged: result.unchanged,
+        }),
+      },
+    );
+
+    const summary: DaypartingRunResult = {
+      processed: outcomes.length,
+      updated: outcomes.reduce(
+        (sum, o) => sum + (o.value?.updated.length ?? 0),
+        0,
+      ),
+      failed: outcomes.filter((o) => o.status === 'FAILED').length,
+      automationSkips: gate.skipped,
+    };
+    this.logger.log(
+      `[DAYPARTING] Auto apply: processed=${summary.processed}, updated=${summary.updated}, failed=${summary.failed}, skipped=${summary.automationSkips.length}`,
+    );
+    return summary;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  private async findAdvertiser(advertiserId: string) {
+    const advertiser = await this.prisma.advertiser.findUnique({
+      where: { tiktokAdvertiserId: advertiserId },
+      include: { appeal: true },
+    });
+    if (!advertiser) {
+      throw new NotFoundException(`Advertiser ${advertiserId} not found`);
+    }
+    if (!advertiser.appeal) {
+      throw new BadRequestException(
+        `Advertiser ${advertiserId} has no appeal (allowable CPA is unknown)`,
+      );
+    }
+    return advertiser;
+  }
+
+  /**
+   * 訴求の配信時間帯の提案
+   * 時間別レポートを取得できないアカウントがあると実績が欠けて終日配信に戻してしまうため、提案しない
+   */
+  private async recommendationFor(
+    appealId: string,
+    now: Date,
+  ): Promise<DaypartingRecommendation> {
+    const [analysis] = await this.analyze({ appealId }, null, now);
+    if (!analysis) {
+      throw new BadRequestException(
+        `Appeal ${appealId} has no active advertisers`,
+      );
+    }
+    if (analysis.failedAdvertiserIds.length > 0) {
+      throw new Error(
+        `Hourly report unavailable for ${analysis.failedAdvertiserIds.join(', ')}`,
+      );
+    }
+    return analysis.recommendation;
+  }
+
+  private async accessToken(advertiserId: string): Promise<string> {
+    const token = await this.tokenVault.findByAdvertiserId(advertiserId);
+    if (!token) {
+      throw new Error(`アクセストークンが見つかりません: ${advertiserId}`);
+    }
+    return token.accessToken;
+  }
+
+  /**
+   * 1アカウントの広告別・時間帯別の実績
+   * 時間別レポートは1日ずつ取得する（stat_time_hour は1リクエスト1日まで）
+   * CVは台帳の発生時刻（JST）の時で数え、レポートに出てこない広告のCVは含めない
+   */
+  private async collectAdHourly(
+    advertiserId: string,
+    period: { from: string; to: string },
+  ): Promise<AdHourlyPerformance[]> {
+    const accessToken = await this.accessToken(advertiserId);
+    const hourlyByAd = new Map<string, HourlyStats[]>();
+    for (let date = period.from; date <= period.to; date = addDays(date, 1)) {
+      const rows = await this.tiktokService.getAllReportData(
+        advertiserId,
+        accessToken,
+        {
+          dataLevel: 'AUCTION_AD',
+          startDate: date,
+          endDate: date,
+          dimensions: ['stat_time_hour', 'ad_id'],
+          metrics: ['spend', 'impressions', 'clicks'],
+        },
+      );
+      for (const row of rows) {
+        const adId = row.dimensions?.ad_id;
+        const hour = parseStatHour(row.dimensions?.stat_time_hour);
+        if (!adId || hour === null) continue;
+        const hourly = hourlyByAd.get(adId) ?? emptyHourlyStats();
+        hourlyByAd.set(adId, hourly);
+        addHourlyStats(hourly, hour, {
+          spend: parseFloat(row.metrics?.spend || '0'),
+          impressions: parseInt(row.metrics?.impressions || '0', 10),
+          clicks: parseInt(row.metrics?.clicks || '0', 10),
+        });
+      }
+    }
+    if (hourlyByAd.size === 0) return [];
+
+    const ads = await this.prisma.ad.findMany({
+      where: { tiktokId: { in: [...hourlyByAd.keys()] } },
+      select: { id: true, tiktokId: true, name: true },
+    });
+    const conversions = await this.prisma.conversionEvent.findMany({
+      where: {
+        kind: 'CV',
+        adId: { in: ads.map((ad) => ad.id) },
+        jstDate: { gte: period.from, lte: period.to },
+      },
+      select: { adId: true, occurredAt: true },
+    });
+    const tiktokIdOf = new Map(ads.map((ad) => [ad.id, ad.tiktokId]));
+    for (const event of conversions) {
+      const hourly = hourlyByAd.get(tiktokIdOf.get(event.adId!) ?? '');
+      if (!hourly) continue;
+      const hour = new Date(
+        event.occurredAt.getTime() + JST_OFFSET_MS,
+      ).getUTCHours();
+      addHourlyStats(hourly, hour, { conversions: 1 });
+    }
+
+    const nameOf = new Map(ads.map((ad) => [ad.tiktokId, ad.name]));
+    return [...hourlyByAd.entries()].map(([adId, hourly]) => ({
+      advertiserId,
+      adId,
+      adName: nameOf.get(adId) ?? adId,
+      spend: hourly.reduce((sum, h) => sum + h.spend, 0),
+      conversions: hourly.reduce((sum, h) => sum + h.conversions, 0),
+      hourly,
+    }));
+  }
+
+  /**
+   * 配信中の広告セットへ dayparting を反映し、AdGroup.schedule と設定を更新する
+   * 既に同じ配信時間帯の広告セット（終日配信なら未設定のものも）は更新しない
+   */
+  private async applyHours(
+    advertiserId: string,
+    activeHours: number[],
+    recommendation: DaypartingRecommendation | null,
+    dryRun: boolean,
+  ): Promise<DaypartingApplyResult> {
+    const hours = [...new Set(activeHours)].sort((a, b) => a - b);
+    const dayparting = toDayparting(hours);
+    const fullDay = hours.length === ALL_HOURS.length;
+
+    const advertiser = await this.findAdvertiser(advertiserId);
+    const campaigns = await this.prisma.campaign.findMany({
+      where: { advertiserId: advertiser.id },
+      select: { id: true },
+    });
+    const adGroups = await this.prisma.adGroup.findMany({
+      where: {
+        status: 'ENABLE',
+        campaignId: { in: campaigns.map((c) => c.id) },
+      },
+      select: { id: true, tiktokId: true, schedule: true },
+    });
+    const targets = adGroups.filter((adGroup) => {
+      const current = daypartingOf(adGroup.schedule);
+      return fullDay
+        ? current !== null && current.includes('0')
+        : current !== dayparting;
+    });
+
+    const result: DaypartingApplyResult = {
+      advertiserId,
+      dryRun,
+      activeHours: hours,
+      windows: describeWindows(hours),
+      recommendation,
+      updated: [],
+      unchanged: adGroups.length - targets.length,
+      failed: [],
+    };
+    if (targets.length === 0 && dryRun) return result;
+
+    const accessToken =
+      targets.length > 0 ? await this.accessToken(advertiserId) : '';
+    const smartPlusAdGroupIds =
+      targets.length > 0
+        ? await this.smartPlusAdGroupIds(advertiserId, accessToken)
+        : new Set<string>();
+
+    for (const adGroup of targets) {
+      const smartPlus = smartPlusAdGroupIds.has(adGroup.tiktokId);
+      if (dryRun) {
+        result.updated.push({ adgroupId: adGroup.tiktokId, smartPlus });
+        continue;
+      }
+      try {
+        if (smartPlus) {
+          await this.tiktokService.updateSmartPlusAdGroupDayparting(
+            advertiserId,
+            accessToken,
+            adGroup.tiktokId,
+            dayparting,
+          );
+        } else {
+          await this.tiktokService.updateAdGroup(
+            advertiserId,
+            accessToken,
+            adGroup.tiktokId,
+            { dayparting },
+          );
+        }
+        await this.prisma.adGroup.update({
+          where: { id: adGroup.id },
+          data: {
+            schedule: {
+              ...((adGroup.schedule as Prisma.JsonObject | null) ?? {}),
+              dayparting,
+            },
+          },
+        });
+        result.updated.push({ adgroupId: adGroup.tiktokId, smartPlus });
+      } catch (error) {
+        this.logger.error(
+          `[DAYPARTING] Failed to update adgroup ${adGroup.tiktokId}: ${error.message}`,
+        );
+        result.failed.push({
+          adgroupId: adGroup.tiktokId,
+          error: error.message,
+        });
+      }
+    }
+    if (dryRun) return result;
+
+    const plan = {
+      activeHours: fullDay ? [] : hours,
+      // 手動指定・リセットは提案なし
+      recommendation: (recommendation ?? {
+        status: 'MANUAL',
+      }) as unknown as Prisma.InputJsonValue,
+      appliedAt: new Date(),
+      lastError:
+        result.failed.length > 0
+          ? result.failed.map((f) => `${f.adgroupId}: ${f.error}`).join('\n')
+          : null,
+    };
+    await this.prisma.daypartingPlan.upsert({
+      where: { advertiserId },
+      create: { advertiserId, ...plan },
+      update: plan,
+    });
+    this.logger.log(
+      `[DAYPARTING] Applied ${result.windows.join(', ')} to ${advertiserId}: updated=${result.updated.length}, unchanged=${result.unchanged}, failed=${result.failed.length}`,
+    );
+    return result;
+  }
+
+  /** 配信中の Smart+ 広告が属する広告グループ（Smart+ 用の更新APIで更新する） */
+  private async smartPlusAdGroupIds(
+    advertiserId: string,
+    accessToken: string,
+  ): Promise<Set<string>> {
+    try {
+      const response = await this.tiktokService.getSmartPlusAds(
+        advertiserId,
+        accessToken,
+        undefined,
+        'ENABLE',
+      );
+      return new Set(
+        (response.data?.list || []).map((ad: any) => String(ad.adgroup_id)),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `[DAYPARTING] Failed to fetch Smart+ ads for ${advertiserId} (may not support Smart+): ${error.message}`,
+      );
+      return new Set();
+    }
+  }
+}
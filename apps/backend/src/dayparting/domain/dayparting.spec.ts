@@ -0,0 +1,124 @@
+import {
+  DAYPARTING_POLICY_BY_CHANNEL,
+  addHourlyStats,
+  describeWindows,
+  emptyHourlyStats,
+  isDeliveringAt,
+  parseStatHour,
+  recommendWindow,
+  toDayparting,
+  validateActiveHours,
+} from './dayparting';
+
+const policy = DAYPARTING_POLICY_BY_CHANNEL.AI;
+
+/** 毎時 ¥10,000・CV4件（CPA ¥2,500）の実績に、指定の時間帯だけ上書きする */
+function hourly(overrides: Record<number, { spend: number; cv: number }>) {
+  const stats = emptyHourlyStats();
+  for (const row of stats) {
+    const { spend, cv } = overrides[row.hour] ?? { spend: 10000, cv: 4 };
+    addHourlyStats(stats, row.hour, { spend, conversions: cv });
+  }
+  return stats;
+}
+
+describe('parseStatHour', () => {
+  it('stat_time_hour から時を取り出す', () => {
+    expect(parseStatHour('2026-03-01 13:00:00')).toBe(13);
+    expect(parseStatHour('2026-03-01 00:00:00')).toBe(0);
+    expect(parseStatHour('13')).toBeNull();
+  });
+});
+
+describe('recommendWindow', () => {
+  it('十分な消化があり許容CPA×倍率を超える時間帯を悪い順に止める', () => {
+    const recommendation = recommendWindow(
+      hourly({
+        2: { spend: 9000, cv: 0 }, // CV0
+        3: { spend: 12000, cv: 2 }, // CPA 6,000 > 4,000×1.3
+        4: { spend: 10000, cv: 2 }, // CPA 5,000 ≤ 5,200 → 継続
+        5: { spend: 5000, cv: 0 }, // 消化が許容CPA×2未満 → 判断しない
+      }),
+      4000,
+      policy,
+    );
+
+    expect(recommendation).toMatchObject({
+      status: 'RECOMMENDED',
+      excludedHours: [
+        { hour: 2, reason: 'NO_CV', cpa: null },
+        { hour: 3, reason: 'CPA_OVER', cpa: 6000 },
+      ],
+      windows: ['0:00-2:00', '4:00-24:00'],
+    });
+    expect(recommendation.activeHours).toHaveLength(22);
+  });
+
+  it('導線の最低配信時間数は残し、許容CPA未設定なら判定しない', () => {
+    const allBad = Object.fromEntries(
+      Array.from({ length: 24 }, (_, h) => [h, { spend: 20000, cv: h % 2 }]),
+    );
+    const seminar = recommendWindow(
+      hourly(allBad),
+      4000,
+      DAYPARTING_POLICY_BY_CHANNEL.SEMINAR,
+    );
+    expect(seminar.activeHours).toHaveLength(16);
+    // CV0の時間帯から止める
+    expect(seminar.excludedHours.every((h) => h.reason === 'NO_CV')).toBe(true);
+
+    expect(recommendWindow(hourly({}), 4000, policy).status).toBe('FULL_DAY');
+    expect(recommendWindow(hourly(allBad), null, policy)).toMatchObject({
+      status: 'NO_TARGET',
+      windows: ['0:00-24:00'],
+    });
+  });
+});
+
+describe('describeWindows', () => {
+  it('連続した時を時間帯にまとめる', () => {
+    expect(describeWindows([7, 8, 9, 20, 21, 22, 23])).toEqual([
+      '7:00-10:00',
+      '20:00-24:00',
+    ]);
+  });
+});
+
+describe('validateActiveHours', () => {
+  it('0〜23の整数で、導線の最低配信時間数以上であること', () => {
+    expect(
+      validateActiveHours(
+        Array.from({ length: 18 }, (_, h) => h + 6),
+        policy,
+      ),
+    ).toEqual([]);
+    expect(validateActiveHours([1, 2, 24], policy)).toEqual([
+      'activeHours must be an array of integers between 0 and 23',
+    ]);
+    expect(validateActiveHours([7, 8, 9], policy)).toEqual([
+      'activeHours must include at least 18 hours for this channel',
+    ]);
+  });
+});
+
+describe('toDayparting / isDeliveringAt', () => {
+  it('毎日同じ時間帯の dayparting を作り、JSTの曜日・時刻で配信中か判定する', () => {
+    const dayparting = toDayparting([7, 8, 9]);
+    expect(dayparting).toHaveLength(336);
+    expect(dayparting.slice(0, 48)).toBe(
+      '0'.repeat(14) + '1'.repeat(6) + '0'.repeat(28),
+    );
+
+    const schedule = { startTime: null, dayparting };
+    // 2026-03-04（水）8:30 JST / 10:00 JST
+    expect(isDeliveringAt(schedule, new Date('2026-03-03T23:30:00Z'))).toBe(
+      true,
+    );
+    expect(isDeliveringAt(schedule, new Date('2026-03-04T01:00:00Z'))).toBe(
+      false,
+    );
+    // 未設定・不正な値は終日配信
+    expect(isDeliveringAt(null, new Date())).toBe(true);
+    expect(isDeliveringAt({ dayparting: '01' }, new Date())).toBe(true);
+  });
+});
@@ -0,0 +1,262 @@
+// ============================================================================
+// 時間帯分析・配信時間帯（dayparting） - 純粋関数のみ
+//
+// 時間別レポート（stat_time_hour）とコンバージョン台帳のCV数を時間帯別に集計し、
+// 導線別の方針で「許容CPAを大きく超える時間帯」を配信しない時間帯として提案する。
+// TikTok の dayparting は月曜0:00から30分刻み×7日（336文字）の '0' / '1' 文字列
+// ============================================================================
+
+import type { ChannelType } from '../../channel-registry/domain/channel';
+
+/** 集計期間の既定（昨日までの日数） */
+export const DEFAULT_ANALYSIS_DAYS = 7;
+export const MAX_ANALYSIS_DAYS = 28;
+
+/** dayparting の文字数（30分 × 48 × 7日） */
+export const DAYPARTING_LENGTH = 48 * 7;
+
+export interface HourlyStats {
+  /** JSTの時（0〜23） */
+  hour: number;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+}
+
+/** 導線別の時間帯停止の方針 */
+export interface DaypartingPolicy {
+  /** 少なくともこの時間数は配信する */
+  minActiveHours: number;
+  /** 時間帯CPAが許容CPAのこの倍率を超えたら止める候補 */
+  maxCpaRatio: number;
+  /** 許容CPAの何件分の消化があれば判断するか（少ない時間帯は止めない） */
+  minEvidenceCPAs: number;
+}
+
+export const DAYPARTING_POLICY_BY_CHANNEL: Record<
+  ChannelType,
+  DaypartingPolicy
+> = {
+  AI: { minActiveHours: 18, maxCpaRatio: 1.3, minEvidenceCPAs: 2 },
+  SNS: { minActiveHours: 18, maxCpaRatio: 1.3, minEvidenceCPAs: 2 },
+  // セミナー導線はCVが少なく時間帯ごとのブレが大きいため、実績を多めに求め止めすぎない
+  SEMINAR: { minActiveHours: 16, maxCpaRatio: 1.5, minEvidenceCPAs: 3 },
+};
+
+export type HourExclusionReason = 'CPA_OVER' | 'NO_CV';
+
+export interface ExcludedHour {
+  hour: number;
+  reason: HourExclusionReason;
+  spend: number;
+  conversions: number;
+  cpa: number | null;
+}
+
+/**
+ * RECOMMENDED: 止める時間帯あり / FULL_DAY: 終日配信のまま
+ * NO_TARGET: 許容CPAが未設定で判定しない
+ */
+export type RecommendationStatus = 'RECOMMENDED' | 'FULL_DAY' | 'NO_TARGET';
+
+export interface DaypartingRecommendation {
+  status: RecommendationStatus;
+  /** 配信する時（昇順） */
+  activeHours: number[];
+  /** 止める時間帯（CPAの悪い順） */
+  excludedHours: ExcludedHour[];
+  /** 表示用の配信時間帯（例: 7:00-24:00） */
+  windows: string[];
+  policy: DaypartingPolicy;
+}
+
+export const ALL_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// ============================================================================
+// 集計
+// ============================================================================
+
+export function emptyHourlyStats(): HourlyStats[] {
+  return ALL_HOURS.map((hour) => ({
+    hour,
+    spend: 0,
+    impressions: 0,
+    clicks: 0,
+    conversions: 0,
+  }));
+}
+
+/** 時間帯別の実績に加算する（hour は 0〜23） */
+export function addHourlyStats(
+  target: HourlyStats[],
+  hour: number,
+  stats: Partial<Omit<HourlyStats, 'hour'>>,
+): void {
+  const row = target[hour];
+  if (!row) return;
+  row.spend += stats.spend ?? 0;
+  row.impressions += stats.impressions ?? 0;
+  row.clicks += stats.clicks ?? 0;
+  row.conversions += stats.conversions ?? 0;
+}
+
+/** stat_time_hour（例: "2026-03-01 13:00:00"）から時を取り出す */
+export function parseStatHour(value: unknown): number | null {
+  const match = /^\d{4}-\d{2}-\d{2} (\d{2}):/.exec(String(value ?? ''));
+  if (!match) return null;
+  const hour = Number(match[1]);
+  return hour >= 0 && hour < 24 ? hour : null;
+}
+
+// ============================================================================
+// 提案
+// ============================================================================
+
+/**
+ * 時間帯別の実績から配信時間帯を提案する
+ * 十分な消化があり、CV=0 か CPA が許容CPA×倍率を超える時間帯を悪い順に止め、
+ * 導線の最低配信時間数は残す
+ */
+export function recommendWindow(
+  hourly: HourlyStats[],
+  allowableCPA: number | null,
+  policy: DaypartingPolicy,
+): DaypartingRecommendation {
+  if (!allowableCPA || allowableCPA <= 0) {
+    return fullDay('NO_TARGET', policy);
+  }
+
+  const minSpend = allowableCPA * policy.minEvidenceCPAs;
+  const candidates: ExcludedHour[] = hourly
+    .filter((h) => h.spend >= minSpend)
+    .map((h) => ({
+      hour: h.hour,
+      reason: (h.conversions === 0
+        ? 'NO_CV'
+        : 'CPA_OVER') as HourExclusionReason,
+      spend: h.spend,
+      conversions: h.conversions,
+      cpa: h.conversions > 0 ? h.spend / h.conversions : null,
+    }))
+    .filter((h) => h.cpa === null || h.cpa > allowableCPA * policy.maxCpaRatio)
+    .sort(
+      (a, b) =>
+        (b.cpa ?? Infinity) - (a.cpa ?? Infinity) ||
+        b.spend - a.spend ||
+        a.hour - b.hour,
+    );
+
+  const excludedHours = candidates.slice(
+    0,
+    Math.max(0, 24 - policy.minActiveHours),
+  );
+  if (excludedHours.length === 0) return fullDay('FULL_DAY', policy);
+
+  const excluded = new Set(excludedHours.map((h) => h.hour));
+  const activeHours = ALL_HOURS.filter((hour) => !excluded.has(hour));
+  return {
+    status: 'RECOMMENDED',
+    activeHours,
+    excludedHours,
+    windows: describeWindows(activeHours),
+    policy,
+  };
+}
+
+/** 配信する時を連続した時間帯の表記にする（例: [0,1,7,...,23] → 0:00-2:00, 7:00-24:00） */
+export function describeWindows(activeHours: number[]): string[] {
+  const sorted = [...new Set(activeHours)].sort((a, b) => a - b);
+  const windows: string[] = [];
+  let start: number | null = null;
+  sorted.forEach((hour, i) => {
+    if (start === null) start = hour;
+    if (sorted[i + 1] !== hour + 1) {
+      windows.push(`${start}:00-${hour + 1}:00`);
+      start = null;
+    }
+  });
+  return windows;
+}
+
+function fullDay(
+  status: RecommendationStatus,
+  policy: DaypartingPolicy,
+): DaypartingRecommendation {
+  return {
+    status,
+    activeHours: [...ALL_HOURS],
+    excludedHours: [],
+    windows: describeWindows(ALL_HOURS),
+    policy,
+  };
+}
+
+export function validateAnalysisDays(days: number | undefined): string[] {
+  if (
+    days !== undefined &&
+    !(Number.isInteger(days) && days >= 1 && days <= MAX_ANALYSIS_DAYS)
+  ) {
+    return [`days must be an integer between 1 and ${MAX_ANALYSIS_DAYS}`];
+  }
+  return [];
+}
+
+/** 手動で指定した配信する時の検証（導線の最低配信時間数を下回らないこと） */
+export function validateActiveHours(
+  activeHours: unknown,
+  policy: DaypartingPolicy,
+): string[] {
+  if (
+    !Array.isArray(activeHours) ||
+    !activeHours.every((h) => Number.isInteger(h) && h >= 0 && h < 24)
+  ) {
+    return ['activeHours must be an array of integers between 0 and 23'];
+  }
+  if (new Set(activeHours).size < policy.minActiveHours) {
+    return [
+      `activeHours must include at least ${policy.minActiveHours} hours for this channel`,
+    ];
+  }
+  return [];
+}
+
+// ============================================================================
+// TikTok dayparting
+// ============================================================================
+
+/** 配信する時を毎日同じ時間帯の dayparting 文字列にする */
+export function toDayparting(activeHours: number[]): string {
+  const active = new Set(activeHours);
+  const day = ALL_HOURS.map((hour) => (active.has(hour) ? '11' : '00')).join(
+    '',
+  );
+  return day.repeat(7);
+}
+
+/** AdGroup.schedule（同期・適用した広告セットの配信設定）の dayparting */
+export function daypartingOf(schedule: unknown): string | null {
+  const dayparting = (schedule as { dayparting?: unknown } | null)?.dayparting;
+  return typeof dayparting === 'string' &&
+    dayparting.length === DAYPARTING_LENGTH &&
+    /^[01]+$/.test(dayparting)
+    ? dayparting
+    : null;
+}
+
+/**
+ * その時刻に配信する設定か（dayparting が未設定・不正なら終日配信とみなす）
+ * 判定はJSTの曜日・30分枠で行う
+ */
+export function isDeliveringAt(schedule: unknown, at: Date): boolean {
+  const dayparting = daypartingOf(schedule);
+  if (!dayparting || !dayparting.includes('0')) return true;
+
+  const jst = new Date(at.getTime() + 9 * 60 * 60 * 1000);
+  const mondayIndex = (jst.getUTCDay() + 6) % 7;
+  const slot =
+    mondayIndex * 48 +
+    jst.getUTCHours() * 2 +
+    (jst.getUTCMinutes() >= 30 ? 1 : 0);
+  return dayparting[slot] === '1';
+}
@@ -0,0 +1,252 @@
+import {
+  binomialTwoSidedPValue,
+  buildBudgetFreeze,
+  evaluateExperiment,
+  frozenBy,
+  normalQuantile,
+  overlappingTargets,
+  toExperimentConfig,
+  validateExperimentInput,
+} from './experiment';
+import type { ExperimentConfig, ExperimentInput } from './experiment';
+
+const input = (overrides: Partial<ExperimentInput> = {}): ExperimentInput => ({
+  name: 'CR本数テスト',
+  primaryMetric: 'CPA',
+  arms: [
+    { key: 'A', name: '1本', adIds: ['ad-1'] },
+    { key: 'B', name: '3本', adgroupIds: ['ag-2'] },
+  ],
+  ...overrides,
+});
+
+const config = (
+  overrides: Partial<ExperimentConfig> = {},
+): ExperimentConfig => ({
+  ...toExperimentConfig(input(), ['adv-1']),
+  minSample: { minConversions: 20, minSpend: 0, minDays: 7 },
+  ...overrides,
+});
+
+const period = { from: '2026-03-01', to: '2026-03-07', days: 7 };
+
+describe('validateExperimentInput / toExperimentConfig', () => {
+  it('正しい入力はエラーなし、既定値を補って保存用の設定にする', () => {
+    expect(validateExperimentInput(input())).toEqual([]);
+    expect(toExperimentConfig(input(), ['adv-2', 'adv-1', 'adv-2'])).toEqual({
+      arms: [
+        { key: 'A', name: '1本', adIds: ['ad-1'], adgroupIds: [] },
+        { key: 'B', name: '3本', adIds: [], adgroupIds: ['ag-2'] },
+      ],
+      controlArm: 'A',
+      primaryMetric: 'CPA',
+      minSample: { minConversions: 20, minSpend: 0, minDays: 7 },
+      alpha: 0.05,
+      freezeBudgets: false,
+      advertiserIds: ['adv-1', 'adv-2'],
+    });
+  });
+
+  it('アーム数・キー重複・同じ広告の重複・指標・対照アーム・有意水準を検証する', () => {
+    expect(
+      validateExperimentInput(
+        input({ primaryMetric: 'ROAS', arms: [{ key: 'A', adIds: ['1'] }] }),
+      ),
+    ).toEqual([
+      'primaryMetric must be one of CPA, FRONT_CPO, INDIVIDUAL_RESERVATION_CPO',
+      'arms must contain at least 2 arms',
+    ]);
+    expect(
+      validateExperimentInput(
+        input({
+          arms: [
+            { key: 'A', adIds: ['ad-1'] },
+            { key: 'A', adIds: ['ad-1'] },
+            { key: 'C' },
+          ],
+          controlArm: 'Z',
+          minSample: { minDays: -1 },
+          alpha: 0.5,
+        }),
+      ),
+    ).toEqual([
+      'arm key "A" is duplicated',
+      'arm "C" must have adIds or adgroupIds',
+      'controlArm "Z" is not one of the arms',
+      'minSample.minDays must be a non-negative number',
+      'alpha must be greater than 0 and at most 0.2',
+    ]);
+    expect(
+      validateExperimentInput(
+        input({
+          arms: [
+            { key: 'A', adIds: ['ad-1'] },
+            { key: 'B', adIds: ['ad-1'] },
+          ],
+        }),
+      ),
+    ).toEqual(['ad ad-1 is in both arm "A" and "B"']);
+  });
+
+  it('同時に実施できない重複対象を返す', () => {
+    const other = toExperimentConfig(
+      input({
+        arms: [
+          { key: 'X', adgroupIds: ['ag-2'] },
+          { key: 'Y', adIds: ['ad-9'] },
+        ],
+      }),
+      ['adv-1'],
+    );
+    expect(overlappingTargets(config(), other)).toEqual(['adgroup ag-2']);
+  });
+});
+
+describe('統計', () => {
+  it('正確二項検定の両側 p 値', () => {
+    expect(binomialTwoSidedPValue(5, 10, 0.5)).toBeCloseTo(1, 10);
+    expect(binomialTwoSidedPValue(0, 10, 0.5)).toBeCloseTo(2 / 1024, 10);
+    expect(binomialTwoSidedPValue(0, 0, 0.5)).toBe(1);
+  });
+
+  it('標準正規分布の分位点', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+});
+
+describe('evaluateExperiment', () => {
+  const now = new Date('2026-03-08T00:00:00Z');
+
+  it('対照より有意に単価が低いアームを勝者にする', () => {
+    const result = evaluateExperiment(
+      config(),
+      [
+        { key: 'A', spend: 100_000, conversions: 50 },
+        { key: 'B', spend: 100_000, conversions: 90 },
+      ],
+      period,
+      now,
+    );
+
+    expect(result.verdict).toBe('WINNER');
+    expect(result.winner).toBe('B');
+    const b = result.arms[1];
+    expect(b.costPerConversion).toBeCloseTo(1111.1, 1);
+    expect(b.comparison).toMatchObject({
+      significant: true,
+      direction: 'BETTER',
+    });
+    expect(b.comparison!.costRatio).toBeCloseTo(50 / 90, 10);
+    expect(b.comparison!.costRatioInterval![1]).toBeLessThan(1);
+    expect(result.summary).toBe('勝者: 3本（CPA ¥1,111、α=0.05）');
+  });
+
+  it('広告費の差を織り込んで比べる（件数が多くても単価が同じなら差なし）', () => {
+    const result = evaluateExperiment(
+      config(),
+      [
+        { key: 'A', spend: 50_000, conversions: 25 },
+        { key: 'B', spend: 150_000, conversions: 75 },
+      ],
+      period,
+      now,
+    );
+
+    expect(result.verdict).toBe('NO_SIGNIFICANT_DIFFERENCE');
+    expect(result.winner).toBeNull();
+    expect(result.arms[1].comparison!.pValue).toBeGreaterThan(0.5);
+  });
+
+  it('比較アームがすべて有意に悪ければ対照アームを勝者にする', () => {
+    const result = evaluateExperiment(
+      config(),
+      [
+        { key: 'A', spend: 100_000, conversions: 60 },
+        { key: 'B', spend: 100_000, conversions: 20 },
+      ],
+      period,
+      now,
+    );
+
+    expect(result.arms[1].comparison!.direction).toBe('WORSE');
+    expect(result.winner).toBe('A');
+  });
+
+  it('最小サンプル条件を満たすまでは差があっても判定保留', () => {
+    const result = evaluateExperiment(
+      config({ minSample: { minConversions: 60, minSpend: 0, minDays: 7 } }),
+      [
+        { key: 'A', spend: 100_000, conversions: 50 },
+        { key: 'B', spend: 100_000, conversions: 90 },
+      ],
+      { ...period, to: '2026-03-03', days: 3 },
+      now,
+    );
+
+    expect(result.verdict).toBe('INSUFFICIENT_SAMPLE');
+    expect(result.winner).toBeNull();
+    expect(result.sampleShortfalls).toEqual(['実施日数 3 < 7日']);
+    expect(result.arms.map((arm) => arm.sampleShortfalls)).toEqual([
+      ['CPAの件数 50 < 60'],
+      [],
+    ]);
+    // 比較結果は参考として残す
+    expect(result.arms[1].comparison!.significant).toBe(true);
+  });
+
+  it('比較アームが複数なら Bonferroni 補正で有意水準を割る', () => {
+    const observations = [
+      { key: 'A', spend: 100_000, conversions: 50 },
+      { key: 'B', spend: 100_000, conversions: 74 },
+      { key: 'C', spend: 100_000, conversions: 50 },
+    ];
+    const twoArms = evaluateExperiment(
+      config(),
+      observations.slice(0, 2),
+      period,
+      now,
+    );
+    const threeArms = evaluateExperiment(
+      config({
+        arms: [
+          ...config().arms,
+          { key: 'C', name: '5本', adIds: ['ad-5'], adgroupIds: [] },
+        ],
+      }),
+      observations,
+      period,
+      now,
+    );
+
+    const single = twoArms.arms[1].comparison!;
+    const corrected = threeArms.arms[1].comparison!;
+    expect(single.significant).toBe(true);
+    expect(corrected.adjustedPValue).toBeCloseTo(single.pValue * 2, 10);
+    expect(corrected.significant).toBe(false);
+    expect(threeArms.verdict).toBe('NO_SIGNIFICANT_DIFFERENCE');
+  });
+});
+
+describe('buildBudgetFreeze / frozenBy', () => {
+  it('予算固定が有効な実験の広告・広告グループだけを対象にする', () => {
+    const freeze = buildBudgetFreeze([
+      { name: '固定あり', config: config({ freezeBudgets: true }) },
+      {
+        name: '固定なし',
+        config: config({
+          arms: [{ key: 'X', name: 'X', adIds: ['ad-9'], adgroupIds: [] }],
+        }),
+      },
+    ]);
+
+    expect(frozenBy(freeze, { adId: 'ad-1', adgroupId: 'ag-1' })).toBe(
+      '固定あり',
+    );
+    expect(frozenBy(freeze, { adId: 'ad-3', adgroupId: 'ag-2' })).toBe(
+      '固定あり',
+    );
+    expect(frozenBy(freeze, { adId: 'ad-9', adgroupId: 'ag-9' })).toBeNull();
+  });
+});
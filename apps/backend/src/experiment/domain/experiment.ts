@@ -0,0 +1,590 @@
+// ============================================================================
+// 実験（A/Bテスト） - アーム定義の検証・最小サンプル判定・有意差検定（純粋関数）
+// 各アームは広告・広告グループの集合（複数アカウントにまたがってよい）。
+// 主要指標（CPA / フロントCPO / 個別予約CPO）を「広告費あたりの件数」として比べ、
+// 対照アームとの差を条件付き正確二項検定 + Bonferroni 補正で判定する
+// ============================================================================
+
+import type { ConversionKind } from '../../conversion-ledger/domain/conversion-ledger';
+
+export type ExperimentMetric =
+  | 'CPA'
+  | 'FRONT_CPO'
+  | 'INDIVIDUAL_RESERVATION_CPO';
+
+export const EXPERIMENT_METRICS: ExperimentMetric[] = [
+  'CPA',
+  'FRONT_CPO',
+  'INDIVIDUAL_RESERVATION_CPO',
+];
+
+export const EXPERIMENT_METRIC_LABELS: Record<ExperimentMetric, string> = {
+  CPA: 'CPA',
+  FRONT_CPO: 'フロントCPO',
+  INDIVIDUAL_RESERVATION_CPO: '個別予約CPO',
+};
+
+/** 主要指標の分母になるコンバージョン台帳の種別 */
+export const METRIC_CONVERSION_KIND: Record<ExperimentMetric, ConversionKind> =
+  {
+    CPA: 'CV',
+    FRONT_CPO: 'FRONT_SALES',
+    INDIVIDUAL_RESERVATION_CPO: 'INDIVIDUAL_RESERVATION',
+  };
+
+export type ExperimentStatus = 'DRAFT' | 'RUNNING' | 'COMPLETED' | 'CANCELLED';
+
+export const EXPERIMENT_STATUSES: ExperimentStatus[] = [
+  'DRAFT',
+  'RUNNING',
+  'COMPLETED',
+  'CANCELLED',
+];
+
+/** 最小サンプル条件（すべてのアームが満たすまで勝者を出さない） */
+export interface MinimumSampleRule {
+  /** アームごとの最小件数（主要指標の分母） */
+  minConversions: number;
+  /** アームごとの最小広告費（円） */
+  minSpend: number;
+  /** 最小実施日数（開始日を含む JST の日数） */
+  minDays: number;
+}
+
+export const DEFAULT_MIN_SAMPLE: MinimumSampleRule = {
+  minConversions: 20,
+  minSpend: 0,
+  minDays: 7,
+};
+
+export const DEFAULT_ALPHA = 0.05;
+
+export interface ExperimentArm {
+  key: string;
+  name: string;
+  /** TikTok 広告ID */
+  adIds: string[];
+  /** TikTok 広告グループID（配下の広告すべてを含む） */
+  adgroupIds: string[];
+}
+
+/** Experiment.config に保存する設定 */
+export interface ExperimentConfig {
+  arms: ExperimentArm[];
+  controlArm: string;
+  primaryMetric: ExperimentMetric;
+  minSample: MinimumSampleRule;
+  alpha: number;
+  /** 実施中は予算調整V2でアームの広告の予算を変えない */
+  freezeBudgets: boolean;
+  /** アームの広告が属する TikTok 広告アカウントID（作成・更新時に解決） */
+  advertiserIds: string[];
+}
+
+export interface ExperimentArmInput {
+  key: string;
+  name?: string;
+  adIds?: string[];
+  adgroupIds?: string[];
+}
+
+/** 作成・更新 API の入力 */
+export interface ExperimentInput {
+  name: string;
+  hypothesis?: string;
+  experimentType?: string;
+  arms: ExperimentArmInput[];
+  /** 省略時は最初のアーム */
+  controlArm?: string;
+  primaryMetric: string;
+  minSample?: Partial<MinimumSampleRule>;
+  alpha?: number;
+  freezeBudgets?: boolean;
+}
+
+/** アームの実績（評価期間の合計） */
+export interface ArmObservation {
+  key: string;
+  spend: number;
+  conversions: number;
+}
+
+export interface ArmComparison {
+  /** 対照アームに対する単価の比（< 1 なら対照より安い）。件数0なら null */
+  costRatio: number | null;
+  /** 単価の比の信頼区間（Bonferroni 補正後の信頼水準） */
+  costRatioInterval: [number, number] | null;
+  pValue: number;
+  /** Bonferroni 補正後の p 値 */
+  adjustedPValue: number;
+  significant: boolean;
+  /** 有意な場合の向き（BETTER: 対照より単価が低い） */
+  direction: 'BETTER' | 'WORSE' | null;
+}
+
+export interface ArmResult {
+  key: string;
+  name: string;
+  spend: number;
+  conversions: number;
+  /** 主要指標の値（広告費 ÷ 件数）。件数0なら null */
+  costPerConversion: number | null;
+  /** 最小サンプル条件の不足（空なら充足） */
+  sampleShortfalls: string[];
+  /** 対照アームとの比較（対照アーム自身は null） */
+  comparison: ArmComparison | null;
+}
+
+export type ExperimentVerdict =
+  | 'INSUFFICIENT_SAMPLE'
+  | 'NO_SIGNIFICANT_DIFFERENCE'
+  | 'WINNER';
+
+/** Experiment.result に保存する評価結果 */
+export interface ExperimentResult {
+  evaluatedAt: string;
+  primaryMetric: ExperimentMetric;
+  /** 評価期間（JST、両端を含む） */
+  from: string;
+  to: string;
+  days: number;
+  alpha: number;
+  controlArm: string;
+  verdict: ExperimentVerdict;
+  winner: string | null;
+  arms: ArmResult[];
+  /** 日数不足など実験全体の条件不足 */
+  sampleShortfalls: string[];
+  summary: string;
+}
+
+// ============================================================================
+// 入力検証・正規化
+// ============================================================================
+
+const ARM_KEY_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export function isExperimentMetric(value: string): value is ExperimentMetric {
+  return (EXPERIMENT_METRICS as string[]).includes(value);
+}
+
+/** 作成・更新入力の検証（エラーメッセージの配列、空なら OK） */
+export function validateExperimentInput(input: ExperimentInput): string[] {
+  const errors: string[] = [];
+  if (!input.name?.trim()) errors.push('name is required');
+  if (!isExperimentMetric(input.primaryMetric)) {
+    errors.push(
+      `primaryMetric must be one of ${EXPERIMENT_METRICS.join(', ')}`,
+    );
+  }
+  if (!Array.isArray(input.arms) || input.arms.length < 2) {
+    errors.push('arms must contain at least 2 arms');
+    return errors;
+  }
+
+  const keys = new Set<string>();
+  const owners = new Map<string, string>();
+  for (const arm of input.arms) {
+    if (!ARM_KEY_PATTERN.test(arm.key ?? '')) {
+      errors.push(
+        `arm key "${arm.key}" must be 1-32 letters, digits, "_" or "-"`,
+      );
+      continue;
+    }
+    if (keys.has(arm.key)) errors.push(`arm key "${arm.key}" is duplicated`);
+    keys.add(arm.key);
+
+    const ids = [
+      ...(arm.adIds ?? []).map((id) => `ad ${id}`),
+      ...(arm.adgroupIds ?? []).map((id) => `adgroup ${id}`),
+    ];
+    if (ids.length === 0) {
+      errors.push(`arm "${arm.key}" must have adIds or adgroupIds`);
+    }
+    for (const id of ids) {
+      const owner = owners.get(id);
+      if (owner && owner !== arm.key) {
+        errors.push(`${id} is in both arm "${owner}" and "${arm.key}"`);
+      }
+      owners.set(id, arm.key);
+    }
+  }
+
+  if (input.controlArm !== undefined && !keys.has(input.controlArm)) {
+    errors.push(`controlArm "${input.controlArm}" is not one of the arms`);
+  }
+  for (const [field, value] of Object.entries(input.minSample ?? {})) {
+    if (typeof value !== 'number' || !(value >= 0)) {
+      errors.push(`minSample.${field} must be a non-negative number`);
+    }
+  }
+  if (
+    input.alpha !== undefined &&
+    !(typeof input.alpha === 'number' && input.alpha > 0 && input.alpha <= 0.2)
+  ) {
+    errors.push('alpha must be greater than 0 and at most 0.2');
+  }
+  return errors;
+}
+
+/** 検証済みの入力を保存用の設定にする（既定値を補う） */
+export function toExperimentConfig(
+  input: ExperimentInput,
+  advertiserIds: string[],
+): ExperimentConfig {
+  return {
+    arms: input.arms.map((arm) => ({
+      key: arm.key,
+      name: arm.name?.trim() || arm.key,
+      adIds: unique(arm.adIds ?? []),
+      adgroupIds: unique(arm.adgroupIds ?? []),
+    })),
+    controlArm: input.controlArm ?? input.arms[0].key,
+    primaryMetric: input.primaryMetric as ExperimentMetric,
+    minSample: { ...DEFAULT_MIN_SAMPLE, ...input.minSample },
+    alpha: input.alpha ?? DEFAULT_ALPHA,
+    freezeBudgets: input.freezeBudgets ?? false,
+    advertiserIds: unique(advertiserIds).sort(),
+  };
+}
+
+/** 2つの実験で共通する広告・広告グループ（同時に実施できない） */
+export function overlappingTargets(
+  a: ExperimentConfig,
+  b: ExperimentConfig,
+): string[] {
+  const targets = (config: ExperimentConfig) =>
+    new Set(
+      config.arms.flatMap((arm) => [
+        ...arm.adIds.map((id) => `ad ${id}`),
+        ...arm.adgroupIds.map((id) => `adgroup ${id}`),
+      ]),
+    );
+  const other = targets(b);
+  return [...targets(a)].filter((target) => other.has(target));
+}
+
+// ============================================================================
+// 評価
+// ============================================================================
+
+/**
+ * アームの実績から有意差と勝者を判定する
+ *
+ * 各アームの件数を「広告費に比例する Poisson 過程」とみなし、対照アームとの合計件数を
+ * 条件にした正確二項検定で件数/広告費の差を調べる（広告費の差は比率に織り込まれる）。
+ * 勝者は対照より有意に単価が低いアームのうち最も単価が低いもの。
+ * すべての比較アームが有意に悪ければ対照アームを勝者とする
+ */
+export function evaluateExperiment(
+  config: ExperimentConfig,
+  observations: ArmObservation[],
+  period: { from: string; to: string; days: number },
+  now: Date = new Date(),
+): ExperimentResult {
+  const byKey = new Map(observations.map((o) => [o.key, o]));
+  const observed = (key: string): ArmObservation =>
+    byKey.get(key) ?? { key, spend: 0, conversions: 0 };
+  const control = observed(config.controlArm);
+  const treatments = config.arms.filter((arm) => arm.key !== config.controlArm);
+  // 対照アームとの比較回数で有意水準を割る（Bonferroni）
+  const comparisons = treatments.length;
+  const z = normalQuantile(1 - config.alpha / comparisons / 2);
+
+  const arms: ArmResult[] = config.arms.map((arm) => {
+    const { spend, conversions } = observed(arm.key);
+    return {
+      key: arm.key,
+      name: arm.name,
+      spend,
+      conversions,
+      costPerConversion: conversions > 0 ? spend / conversions : null,
+      sampleShortfalls: armShortfalls(config, spend, conversions),
+      comparison:
+        arm.key === config.controlArm
+          ? null
+          : compareWithControl(
+              { spend, conversions },
+              control,
+              config.alpha,
+              comparisons,
+              z,
+            ),
+    };
+  });
+
+  const sampleShortfalls =
+    period.days < config.minSample.minDays
+      ? [`実施日数 ${period.days} < ${config.minSample.minDays}日`]
+      : [];
+  const sufficient =
+    sampleShortfalls.length === 0 &&
+    arms.every((arm) => arm.sampleShortfalls.length === 0);
+
+  let verdict: ExperimentVerdict = 'INSUFFICIENT_SAMPLE';
+  let winner: string | null = null;
+  if (sufficient) {
+    winner = pickWinner(config, arms);
+    verdict = winner ? 'WINNER' : 'NO_SIGNIFICANT_DIFFERENCE';
+  }
+
+  return {
+    evaluatedAt: now.toISOString(),
+    primaryMetric: config.primaryMetric,
+    from: period.from,
+    to: period.to,
+    days: period.days,
+    alpha: config.alpha,
+    controlArm: config.controlArm,
+    verdict,
+    winner,
+    arms,
+    sampleShortfalls,
+    summary: summarize(config, verdict, winner, arms),
+  };
+}
+
+function armShortfalls(
+  config: ExperimentConfig,
+  spend: number,
+  conversions: number,
+): string[] {
+  const { minConversions, minSpend } = config.minSample;
+  const label = EXPERIMENT_METRIC_LABELS[config.primaryMetric];
+  const shortfalls: string[] = [];
+  if (conversions < minConversions) {
+    shortfalls.push(`${label}の件数 ${conversions} < ${minConversions}`);
+  }
+  if (spend < minSpend) {
+    shortfalls.push(`広告費 ¥${Math.round(spend)} < ¥${minSpend}`);
+  }
+  return shortfalls;
+}
+
+function compareWithControl(
+  treatment: { spend: number; conversions: number },
+  control: { spend: number; conversions: number },
+  alpha: number,
+  comparisons: number,
+  z: number,
+): ArmComparison {
+  const total = treatment.conversions + control.conversions;
+  const totalSpend = treatment.spend + control.spend;
+  const pValue =
+    totalSpend > 0
+      ? binomialTwoSidedPValue(
+          treatment.conversions,
+          total,
+          treatment.spend / totalSpend,
+        )
+      : 1;
+  const adjustedPValue = Math.min(1, pValue * comparisons);
+  const significant = adjustedPValue < alpha;
+
+  let costRatio: number | null = null;
+  let costRatioInterval: [number, number] | null = null;
+  if (
+    treatment.conversions > 0 &&
+    control.conversions > 0 &&
+    control.spend > 0
+  ) {
+    costRatio =
+      treatment.spend /
+      treatment.conversions /
+      (control.spend / control.conversions);
+    // log(単価比) の標準誤差（件数の Poisson 誤差のみ。広告費は固定とみなす）
+    const se = Math.sqrt(1 / treatment.conversions + 1 / control.conversions);
+    costRatioInterval = [
+      costRatio * Math.exp(-z * se),
+      costRatio * Math.exp(z * se),
+    ];
+  }
+
+  // 広告費あたりの件数が多い = 単価が低い
+  const treatmentRate =
+    treatment.spend > 0 ? treatment.conversions / treatment.spend : 0;
+  const controlRate =
+    control.spend > 0 ? control.conversions / control.spend : 0;
+  return {
+    costRatio,
+    costRatioInterval,
+    pValue,
+    adjustedPValue,
+    significant,
+    direction: significant
+      ? treatmentRate > controlRate
+        ? 'BETTER'
+        : 'WORSE'
+      : null,
+  };
+}
+
+function pickWinner(
+  config: ExperimentConfig,
+  arms: ArmResult[],
+): string | null {
+  const treatments = arms.filter((arm) => arm.comparison !== null);
+  const better = treatments
+    .filter((arm) => arm.comparison!.direction === 'BETTER')
+    .sort(
+      (a, b) =>
+        (a.costPerConversion ?? Infinity) - (b.costPerConversion ?? Infinity),
+    );
+  if (better.length > 0) return better[0].key;
+  if (treatments.every((arm) => arm.comparison!.direction === 'WORSE')) {
+    return config.controlArm;
+  }
+  return null;
+}
+
+function summarize(
+  config: ExperimentConfig,
+  verdict: ExperimentVerdict,
+  winner: string | null,
+  arms: ArmResult[],
+): string {
+  const label = EXPERIMENT_METRIC_LABELS[config.primaryMetric];
+  switch (verdict) {
+    case 'INSUFFICIENT_SAMPLE':
+      return `最小サンプル条件を満たしていないため判定保留（${label}）`;
+    case 'NO_SIGNIFICANT_DIFFERENCE':
+      return `対照アームとの${label}の差は有意ではありません（α=${config.alpha}）`;
+    case 'WINNER': {
+      const arm = arms.find((a) => a.key === winner)!;
+      const cost =
+        arm.costPerConversion === null
+          ? '-'
+          : `¥${Math.round(arm.costPerConversion).toLocaleString()}`;
+      return `勝者: ${arm.name}（${label} ${cost}、α=${config.alpha}）`;
+    }
+  }
+}
+
+// ============================================================================
+// 予算固定（予算調整V2から参照）
+// ============================================================================
+
+/** 予算を固定する広告・広告グループ → 実験名 */
+export interface BudgetFreeze {
+  adIds: Map<string, string>;
+  adgroupIds: Map<string, string>;
+}
+
+/** 実施中で予算固定が有効な実験から予算固定の対象を集める */
+export function buildBudgetFreeze(
+  experiments: { name: string; config: ExperimentConfig }[],
+): BudgetFreeze {
+  const freeze: BudgetFreeze = { adIds: new Map(), adgroupIds: new Map() };
+  for (const { name, config } of experiments) {
+    if (!config.freezeBudgets) continue;
+    for (const arm of config.arms) {
+      arm.adIds.forEach((id) => freeze.adIds.set(id, name));
+      arm.adgroupIds.forEach((id) => freeze.adgroupIds.set(id, name));
+    }
+  }
+  return freeze;
+}
+
+/** 広告の予算を固定している実験名（固定されていなければ null） */
+export function frozenBy(
+  freeze: BudgetFreeze,
+  ad: { adId: string; adgroupId: string },
+): string | null {
+  return (
+    freeze.adIds.get(ad.adId) ?? freeze.adgroupIds.get(ad.adgroupId) ?? null
+  );
+}
+
+// ============================================================================
+// 統計
+// ============================================================================
+
+/**
+ * 二項分布 Bin(n, p) で k 件を観測したときの両側 p 値（正確検定）
+ * 観測値以下の確率になる値の確率を合計する
+ */
+export function binomialTwoSidedPValue(
+  k: number,
+  n: number,
+  p: number,
+): number {
+  if (n === 0) return 1;
+  if (p <= 0) return k === 0 ? 1 : 0;
+  if (p >= 1) return k === n ? 1 : 0;
+  const logNFactorial = logGamma(n + 1);
+  const logPmf = (i: number) =>
+    logNFactorial -
+    logGamma(i + 1) -
+    logGamma(n - i + 1) +
+    i * Math.log(p) +
+    (n - i) * Math.log(1 - p);
+  // 浮動小数点の誤差で同じ確率の値を取りこぼさないよう少し緩める
+  const threshold = logPmf(k) + 1e-7;
+  let total = 0;
+  for (let i = 0; i <= n; i++) {
+    const value = logPmf(i);
+    if (value <= threshold) total += Math.exp(value);
+  }
+  return Math.min(1, total);
+}
+
+/** 標準正規分布の分位点（Acklam の有理近似、相対誤差 1e-9 程度） */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const x =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? x : -x;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** log Γ(x)（Lanczos 近似、x > 0） */
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const y = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (y + i);
+  const t = y + 7.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (y + 0.5) * Math.log(t) - t + Math.log(sum)
+  );
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.map((v) => String(v).trim()).filter(Boolean))];
+}
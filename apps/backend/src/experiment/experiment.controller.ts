@@ -0,0 +1,211 @@
+// ============================================================================
+// ExperimentController - 実験（A/Bテスト）の定義・実施・評価 API
+// アームの広告が属するすべての広告アカウントにアクセスできる場合のみ操作できる
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import type { Experiment } from '@prisma/client';
+import { ExperimentService, configOf } from './experiment.service';
+import type { ExperimentInput } from './domain/experiment';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { inaccessibleAdvertisers } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.EXPERIMENT_READ)
+@Controller('api/experiments')
+export class ExperimentController {
+  private readonly logger = new Logger(ExperimentController.name);
+
+  constructor(private readonly experiments: ExperimentService) {}
+
+  /**
+   * 実験一覧（担当アカウントに収まるもののみ）
+   * GET /api/experiments?status=RUNNING
+   */
+  @Get()
+  async list(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('status') status?: string,
+  ) {
+    return this.handle('List experiments', async () => {
+      const experiments = await this.experiments.list({
+        status: status || undefined,
+      });
+      return experiments.filter(
+        (experiment) =>
+          inaccessibleAdvertisers(principal, advertisersOf(experiment))
+            .length === 0,
+      );
+    });
+  }
+
+  /**
+   * 実験の詳細（最新の評価結果を含む）
+   * GET /api/experiments/:id
+   */
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Get experiment', async () =>
+      this.findAccessible(id, principal),
+    );
+  }
+
+  /**
+   * 実験を作成（下書き）
+   * POST /api/experiments
+   */
+  @RequirePermissions(PERMISSIONS.EXPERIMENT_MANAGE)
+  @Post()
+  async create(
+    @Body() body: ExperimentInput,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Create experiment', async () => {
+      this.assertAccess(
+        principal,
+        await this.experiments.resolveAdvertisers(body),
+      );
+      return this.experiments.create(body, principal.userId);
+    });
+  }
+
+  /**
+   * 下書きの実験を変更
+   * PUT /api/experiments/:id
+   */
+  @RequirePermissions(PERMISSIONS.EXPERIMENT_MANAGE)
+  @Put(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: ExperimentInput,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Update experiment', async () => {
+      await this.findAccessible(id, principal);
+      this.assertAccess(
+        principal,
+        await this.experiments.resolveAdvertisers(body),
+      );
+      return this.experiments.update(id, body);
+    });
+  }
+
+  /**
+   * 実験を開始
+   * POST /api/experiments/:id/start
+   */
+  @RequirePermissions(PERMISSIONS.EXPERIMENT_MANAGE)
+  @Post(':id/start')
+  async start(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Start experiment', async () => {
+      await this.findAccessible(id, principal);
+      return this.experiments.start(id);
+    });
+  }
+
+  /**
+   * 実験を終了して最終評価を保存
+   * POST /api/experiments/:id/stop
+   */
+  @RequirePermissions(PERMISSIONS.EXPERIMENT_MANAGE)
+  @Post(':id/stop')
+  async stop(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Stop experiment', async () => {
+      await this.findAccessible(id, principal);
+      return this.experiments.stop(id);
+    });
+  }
+
+  /**
+   * 実験を中止
+   * POST /api/experiments/:id/cancel
+   */
+  @RequirePermissions(PERMISSIONS.EXPERIMENT_MANAGE)
+  @Post(':id/cancel')
+  async cancel(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Cancel experiment', async () => {
+      await this.findAccessible(id, principal);
+      return this.experiments.cancel(id);
+    });
+  }
+
+  /**
+   * 現時点の評価を保存
+   * POST /api/experiments/:id/evaluate
+   */
+  @RequirePermissions(PERMISSIONS.EXPERIMENT_MANAGE)
+  @Post(':id/evaluate')
+  async evaluate(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Evaluate experiment', async () => {
+      await this.findAccessible(id, principal);
+      return this.experiments.evaluate(id);
+    });
+  }
+
+  private async findAccessible(
+    id: string,
+    principal: AuthPrincipal,
+  ): Promise<Experiment> {
+    const experiment = await this.experiments.findById(id);
+    this.assertAccess(principal, advertisersOf(experiment));
+    return experiment;
+  }
+
+  private assertAccess(principal: AuthPrincipal, advertiserIds: string[]) {
+    const denied = inaccessibleAdvertisers(principal, advertiserIds);
+    if (denied.length > 0) {
+      throw new ForbiddenException(
+        `No access to advertisers: ${denied.join(', ')}`,
+      );
+    }
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[EXPERIMENT] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
+
+/** アームの広告が属する広告アカウント（アーム定義のない旧データは Experiment.advertiserId） */
+function advertisersOf(experiment: Experiment): string[] {
+  return (
+    configOf(experiment)?.advertiserIds ??
+    (experiment.advertiserId ? [experiment.advertiserId] : [])
+  );
+}
@@ -0,0 +1,15 @@
+// ============================================================================
+// ExperimentModule - 実験（A/Bテスト）フレームワーク
+// 予算調整V2が予算固定の対象を参照するため ExperimentService を公開する
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { ExperimentService } from './experiment.service';
+import { ExperimentController } from './experiment.controller';
+
+@Module({
+  controllers: [ExperimentController],
+  providers: [ExperimentService],
+  exports: [ExperimentService],
+})
+export class ExperimentModule {}
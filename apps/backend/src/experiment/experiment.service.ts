@@ -0,0 +1,438 @@
+// ============================================================================
+// ExperimentService - 実験（A/Bテスト）の定義・実施・評価
+// アームの広告費は Metric（広告単位・日次）、件数はコンバージョン台帳から集計し、
+// 評価結果を Experiment.result / winner に保存する。
+// 予算固定が有効な実施中の実験は予算調整V2から参照される
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import type { Experiment, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import { toJstDate } from '../conversion-ledger/domain/conversion-ledger';
+import {
+  EXPERIMENT_STATUSES,
+  METRIC_CONVERSION_KIND,
+  buildBudgetFreeze,
+  evaluateExperiment,
+  overlappingTargets,
+  toExperimentConfig,
+  validateExperimentInput,
+  type ArmObservation,
+  type BudgetFreeze,
+  type ExperimentArm,
+  type ExperimentConfig,
+  type ExperimentInput,
+  type ExperimentResult,
+  type ExperimentStatus,
+} from './domain/experiment';
+
+export interface ExperimentQuery {
+  status?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ExperimentService implements OnModuleInit {
+  private readonly logger = new Logger(ExperimentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.register('experiment-evaluation', () =>
+      this.evaluateRunning(),
+    );
+  }
+
+  // ============================================================================
+  // 定義
+  // ============================================================================
+
+  async list(query: ExperimentQuery = {}): Promise<Experiment[]> {
+    if (
+      query.status &&
+      !(EXPERIMENT_STATUSES as string[]).includes(query.status)
+    ) {
+      throw new BadRequestException(
+        `status must be one of ${EXPERIMENT_STATUSES.join(', ')}`,
+      );
+    }
+    return this.prisma.experiment.findMany({
+      where: { status: query.status },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findById(id: string): Promise<Experiment> {
+    const experiment = await this.prisma.experiment.findUnique({
+      where: { id },
+    });
+    if (!experiment) {
+      throw new NotFoundException(`Experiment not found: ${id}`);
+    }
+    return experiment;
+  }
+
+  /**
+   * アームの広告・広告グループが属する TikTok 広告アカウントID
+   * 登録されていない広告・広告グループがあれば 400
+   */
+  async resolveAdvertisers(input: ExperimentInput): Promise<string[]> {
+    this.validate(input);
+    const adIds = input.arms.flatMap((arm) => arm.adIds ?? []);
+    const adgroupIds = input.arms.flatMap((arm) => arm.adgroupIds ?? []);
+    const [ads, adgroups] = await Promise.all([
+      this.prisma.ad.findMany({
+        where: { tiktokId: { in: adIds } },
+        select: {
+          tiktokId: true,
+          adGroup: {
+            select: {
+              campaign: {
+                select: {
+                  advertiser: { select: { tiktokAdvertiserId: true } },
+                },
+              },
+            },
+          },
+        },
+      }),
+      this.prisma.adGroup.findMany({
+        where: { tiktokId: { in: adgroupIds } },
+        select: {
+          tiktokId: true,
+          campaign: {
+            select: { advertiser: { select: { tiktokAdvertiserId: true } } },
+          },
+        },
+      }),
+    ]);
+
+    const found = new Set([
+      ...ads.map((ad) => `ad ${ad.tiktokId}`),
+      ...adgroups.map((adgroup) => `adgroup ${adgroup.tiktokId}`),
+    ]);
+    const missing = [
+      ...adIds.map((id) => `ad ${id}`),
+      ...adgroupIds.map((id) => `adgroup ${id}`),
+    ].filter((target) => !found.has(target));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown targets: ${missing.join(', ')}`);
+    }
+
+    return [
+      ...new Set([
+        ...ads.map((ad) => ad.adGroup.campaign.advertiser.tiktokAdvertiserId),
+        ...adgroups.map(
+          (adgroup) => adgroup.campaign.advertiser.tiktokAdvertiserId,
+        ),
+      ]),
+    ];
+  }
+
+  async create(
+    input: ExperimentInput,
+    createdBy: string | null,
+  ): Promise<Experiment> {
+    const config = toExperimentConfig(
+      input,
+      await this.resolveAdvertisers(input),
+    );
+    const created = await this.prisma.experiment.create({
+      data: {
+        name: input.name.trim(),
+        hypothesis: input.hypothesis ?? null,
+        experimentType: input.experimentType || 'AB_TEST',
+        advertiserId: await this.singleAdvertiserId(config),
+        config: config as unknown as Prisma.InputJsonValue,
+        createdBy,
+      },
+    });
+    this.logger.log(
+      `[EXPERIMENT] Created ${created.id} "${created.name}" (${config.arms.length} arms, ${config.primaryMetric})`,
+    );
+    return created;
+  }
+
+  /** 下書きの定義を変更する（開始後は変更できない） */
+  async update(id: string, input: ExperimentInput): Promise<Experiment> {
+    const existing = await this.findById(id);
+    this.assertStatus(existing, ['DRAFT'], 'update');
+    const config = toExperimentConfig(
+      input,
+      await this.resolveAdvertisers(input),
+    );
+    return this.prisma.experiment.update({
+      where: { id },
+      data: {
+        name: input.name.trim(),
+        hypothesis: input.hypothesis ?? null,
+        experimentType: input.experimentType || existing.experimentType,
+        advertiserId: await this.singleAdvertiserId(config),
+        config: config as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  // ============================================================================
+  // 実施
+  // ============================================================================
+
+  /** 開始（同じ広告・広告グループを含む実施中の実験があれば開始できない） */
+  async start(id: string, now: Date = new Date()): Promise<Experiment> {
+    const experiment = await this.findById(id);
+    this.assertStatus(experiment, ['DRAFT'], 'start');
+    const config = this.requireConfig(experiment);
+
+    const running = await this.prisma.experiment.findMany({
+      where: { status: 'RUNNING' },
+    });
+    for (const other of running) {
+      const otherConfig = configOf(other);
+      if (!otherConfig) continue;
+      const overlap = overlappingTargets(config, otherConfig);
+      if (overlap.length > 0) {
+        throw new BadRequestException(
+          `Targets already in running experiment "${other.name}" (${other.id}): ${overlap.join(', ')}`,
+        );
+      }
+    }
+
+    const started = await this.prisma.experiment.update({
+      where: { id },
+      data: { status: 'RUNNING', startDate: now },
+    });
+    this.logger.log(
+      `[EXPERIMENT] Started ${id} "${experiment.name}"${config.freezeBudgets ? ' (budgets frozen)' : ''}`,
+    );
+    return started;
+  }
+
+  /** 終了して最終評価を保存する */
+  async stop(id: string, now: Date = new Date()): Promise<Experiment> {
+    const experiment = await this.findById(id);
+    this.assertStatus(experiment, ['RUNNING'], 'stop');
+    const result = await this.computeResult(
+      { ...experiment, endDate: now },
+      now,
+    );
+    const stopped = await this.prisma.experiment.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        endDate: now,
+        result: result as unknown as Prisma.InputJsonValue,
+        winner: result.winner,
+      },
+    });
+    this.logger.log(
+      `[EXPERIMENT] Completed ${id} "${experiment.name}": ${result.summary}`,
+    );
+    return stopped;
+  }
+
+  /** 中止（評価は保存しない。予算固定も解除される） */
+  async cancel(id: string, now: Date = new Date()): Promise<Experiment> {
+    const experiment = await this.findById(id);
+    this.assertStatus(experiment, ['DRAFT', 'RUNNING'], 'cancel');
+    return this.prisma.experiment.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        endDate: experiment.startDate ? now : null,
+      },
+    });
+  }
+
+  // ============================================================================
+  // 評価
+  // ============================================================================
+
+  /** 現時点の評価を保存する（実施中なら今日までの途中経過） */
+  async evaluate(id: string, now: Date = new Date()): Promise<Experiment> {
+    const experiment = await this.findById(id);
+    this.assertStatus(experiment, ['RUNNING', 'COMPLETED'], 'evaluate');
+    const result = await this.computeResult(experiment, now);
+    return this.prisma.experiment.update({
+      where: { id },
+      data: {
+        result: result as unknown as Prisma.InputJsonValue,
+        winner: result.winner,
+      },
+    });
+  }
+
+  @Cron('0 10 * * *', { name: 'experiment-evaluation', timeZone: 'Asia/Tokyo' })
+  async scheduleEvaluation() {
+    await this.jobQueue.run('experiment-evaluation', () =>
+      this.evaluateRunning(),
+    );
+  }
+
+  /** 実施中の実験をすべて評価する（1件の失敗で他を止めない） */
+  async evaluateRunning(
+    now: Date = new Date(),
+  ): Promise<{ evaluated: number; failed: string[] }> {
+    const running = await this.prisma.experiment.findMany({
+      where: { status: 'RUNNING' },
+      select: { id: true },
+    });
+    const failed: string[] = [];
+    for (const { id } of running) {
+      try {
+        await this.evaluate(id, now);
+      } catch (error) {
+        this.logger.error(
+          `[EXPERIMENT] Evaluation failed for ${id}: ${error.message}`,
+        );
+        failed.push(id);
+      }
+    }
+    return { evaluated: running.length - failed.length, failed };
+  }
+
+  // ============================================================================
+  // 予算固定
+  // ============================================================================
+
+  /** 広告アカウントで予算を固定している広告・広告グループ（予算調整V2用） */
+  async budgetFreeze(advertiserId: string): Promise<BudgetFreeze> {
+    const running = await this.prisma.experiment.findMany({
+      where: { status: 'RUNNING' },
+      select: { name: true, config: true },
+    });
+    return buildBudgetFreeze(
+      running.flatMap((experiment) => {
+        const config = configOf(experiment);
+        return config?.advertiserIds.includes(advertiserId)
+          ? [{ name: experiment.name, config }]
+          : [];
+      }),
+    );
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  private validate(input: ExperimentInput) {
+    const errors = validateExperimentInput(input ?? ({} as ExperimentInput));
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid experiment: ${errors.join('; ')}`);
+    }
+  }
+
+  private assertStatus(
+    experiment: Experiment,
+    allowed: ExperimentStatus[],
+    action: string,
+  ) {
+    if (!(allowed as string[]).includes(experiment.status)) {
+      throw new BadRequestException(
+        `Cannot ${action} experiment in status ${experiment.status}`,
+      );
+    }
+  }
+
+  private requireConfig(experiment: Experiment): ExperimentConfig {
+    const config = configOf(experiment);
+    if (!config) {
+      throw new BadRequestException(
+        `Experiment has no arm definitions: ${experiment.id}`,
+      );
+    }
+    return config;
+  }
+
+  /** アームが1アカウントに収まる場合の Advertiser.id */
+  private async singleAdvertiserId(
+    config: ExperimentConfig,
+  ): Promise<string | null> {
+    if (config.advertiserIds.length !== 1) return null;
+    const advertiser = await this.prisma.advertiser.findUnique({
+      where: { tiktokAdvertiserId: config.advertiserIds[0] },
+      select: { id: true },
+    });
+    return advertiser?.id ?? null;
+  }
+
+  private async computeResult(
+    experiment: Experiment,
+    now: Date,
+  ): Promise<ExperimentResult> {
+    const config = this.requireConfig(experiment);
+    const from = toJstDate(experiment.startDate ?? now);
+    const to = toJstDate(experiment.endDate ?? now);
+    const days = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1;
+
+    const observations = await Promise.all(
+      config.arms.map((arm) => this.observe(arm, config, from, to)),
+    );
+    return evaluateExperiment(config, observations, { from, to, days }, now);
+  }
+
+  /** アームの広告費（Metric）と主要指標の件数（コンバージョン台帳） */
+  private async observe(
+    arm: ExperimentArm,
+    config: ExperimentConfig,
+    from: string,
+    to: string,
+  ): Promise<ArmObservation> {
+    // 広告グループ指定は評価時点の配下の広告すべて（途中で追加された広告も含む）
+    const ads = await this.prisma.ad.findMany({
+      where: {
+        OR: [
+          { tiktokId: { in: arm.adIds } },
+          { adGroup: { tiktokId: { in: arm.adgroupIds } } },
+        ],
+      },
+      select: { id: true },
+    });
+    const adIds = ads.map((ad) => ad.id);
+    if (adIds.length === 0) {
+      return { key: arm.key, spend: 0, conversions: 0 };
+    }
+
+    // Metric.statDate は JST日付を UTC 00:00 で保存している
+    const [spend, conversions] = await Promise.all([
+      this.prisma.metric.aggregate({
+        where: {
+          entityType: 'AD',
+          adId: { in: adIds },
+          statDate: {
+            gte: new Date(`${from}T00:00:00.000Z`),
+            lte: new Date(`${to}T00:00:00.000Z`),
+          },
+        },
+        _sum: { spend: true },
+      }),
+      this.prisma.conversionEvent.count({
+        where: {
+          adId: { in: adIds },
+          kind: METRIC_CONVERSION_KIND[config.primaryMetric],
+          jstDate: { gte: from, lte: to },
+        },
+      }),
+    ]);
+    return { key: arm.key, spend: spend._sum.spend ?? 0, conversions };
+  }
+}
+
+/** 保存された設定（アーム定義のない旧データは null） */
+export function configOf(experiment: {
+  config: Prisma.JsonValue;
+}): ExperimentConfig | null {
+  const config = experiment.config as unknown as ExperimentConfig | null;
+  return Array.isArray(config?.arms) ? config : null;
+}
@@ -1,6 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { google } from 'googleapis';
 import { ConfigService } from '@nestjs/config';
+import { ApiLogService } from '../api-log/api-log.service';
+import {
+  REGISTRATION_SHEET_COLUMNS,
+  locateColumn,
+} from '../data-source/domain/data-source';
+import type { IndividualReservationSheet } from '../data-source/domain/data-source';
 import {
   withRetry,
   validateSpreadsheetUrl,
@@ -11,6 +17,7 @@ import {
   isGoogleSheetsErrorRetryable,
   GoogleSheetsErrorType,
   GoogleSheetsErrorInfo,
+  parseSheetDate,
 } from '../common/utils';
 
 interface SheetCacheEntry {
@@ -22,27 +29,13 @@ interface SheetCacheEntry {
 }
 
 /**
- * 列位置の期待値定義
+ * 列位置の期待値定義（ヘッダー名の候補はデータソースの既定定義と共通）
  * registrationPath: 登録経路列
  * date: 登録日時列
  */
 const EXPECTED_COLUMNS = {
-  registrationPath: [
-    '登録経路',
-    '流入経路',
-    'registration_path',
-    'path',
-    'ファネル登録経路',
-  ],
-  date: [
-    '登録日時',
-    '登録日',
-    'date',
-    'created_at',
-    'timestamp',
-    'アクション実行日時',
-    '実行日時',
-  ],
+  registrationPath: REGISTRATION_SHEET_COLUMNS.registrationPath.headers!,
+  date: REGISTRATION_SHEET_COLUMNS.date.headers!,
 };
 
 @Injectable()
@@ -54,7 +47,10 @@ export class GoogleSheetsService {
   private readonly CACHE_TTL_MS = 5 * 60 * 1000; // 5分間キャッシュ
   private readonly MAX_CACHE_SIZE = 50; // M-03: キャッシュエントリ上限
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private apiLog: ApiLogService,
+  ) {
     // サービスアカウント認証
     const credentials = JSON.parse(
       this.configService.get<string>('GOOGLE_SERVICE_ACCOUNT_CREDENTIALS') ||
@@ -102,10 +98,17 @@ export class GoogleSheetsService {
     try {
       const response = await withRetry<any>(
         () =>
-          this.sheets.spreadsheets.values.get({
+          this.logged(
+            'GET',
+            'spreadsheets.values.get',
             spreadsheetId,
-            range: fullRange,
-          }),
+            fullRange,
+            () =>
+              this.sheets.spreadsheets.values.get({
+                spreadsheetId,
+                range: fullRange,
+              }),
+          ),
         {
           maxRetries: 3,
           initialDelayMs: 1000,
@@ -246,7 +249,14 @@ export class GoogleSheetsService {
   async getValues(spreadsheetId: string, range: string): Promise<string[][]> {
     try {
       const response = await withRetry<any>(
-        () => this.sheets.spreadsheets.values.get({ spreadsheetId, range }),
+        () =>
+          this.logged(
+            'GET',
+            'spreadsheets.values.get',
+            spreadsheetId,
+            range,
+            () => this.sheets.spreadsheets.values.get({ spreadsheetId, range }),
+          ),
         {
           maxRetries: 3,
           initialDelayMs: 1000,
@@ -282,12 +292,19 @@ export class GoogleSheetsService {
     try {
       await withRetry<any>(
         () =>
-          this.sheets.spreadsheets.values.update({
+          this.logged(
+            'PUT',
+            'spreadsheets.values.update',
             spreadsheetId,
             range,
-            valueInputOption: 'USER_ENTERED',
-            requestBody: { values },
-          }),
+            () =>
+              this.sheets.spreadsheets.values.update({
+                spreadsheetId,
+                range,
+                valueInputOption: 'USER_ENTERED',
+                requestBody: { values },
+              }),
+          ),
         {
           maxRetries: 3,
           initialDelayMs: 1000,
@@ -323,13 +340,20 @@ export class GoogleSheetsService {
     try {
       await withRetry<any>(
         () =>
-          this.sheets.spreadsheets.values.append({
+          this.logged(
+            'POST',
+            'spreadsheets.values.append',
             spreadsheetId,
             range,
-            valueInputOption: 'USER_ENTERED',
-            insertDataOption: 'INSERT_ROWS',
-            requestBody: { values },
-          }),
+            () =>
+              this.sheets.spreadsheets.values.append({
+                spreadsheetId,
+                range,
+                valueInputOption: 'USER_ENTERED',
+                insertDataOption: 'INSERT_ROWS',
+                requestBody: { values },
+              }),
+          ),
         {
           maxRetries: 3,
           initialDelayMs: 1000,
@@ -359,6 +383,29 @@ export class GoogleSheetsService {
     this.logger.log('Sheet cache cleared');
   }
 
+  /**
+   * Sheets API の呼び出しを記録する
+   * セルの値は個人情報を含むため、スプレッドシートIDと範囲だけを残す
+   */
+  private logged<T extends { status?: number }>(
+    method: string,
+    endpoint: string,
+    spreadsheetId: string,
+    range: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return this.apiLog.track(
+      {
+        provider: 'google-sheets',
+        method,
+        endpoint,
+        requestBody: { spreadsheetId, range },
+      },
+      fn,
+      (response) => response.status ?? 200,
+    );
+  }
+
   /**
    * M-03: キャッシュサイズ上限を強制
    * 最大サイズを超えた場合、最も古いエントリを削除
@@ -451,7 +498,7 @@ export class GoogleSheetsService {
         }
 
         // 日付が範囲内かチェック
-        const rowDate = this.parseDate(dateValue);
+        const rowDate = parseSheetDate(dateValue);
         if (!rowDate) {
           continue;
         }
@@ -511,7 +558,7 @@ export class GoogleSheetsService {
         if (!pathValue || !dateValue || pathValue !== registrationPath)
           continue;
 
-        const rowDate = this.parseDate(dateValue);
+        const rowDate = parseSheetDate(dateValue);
         if (!rowDate || rowDate < startDate || rowDate > endDate) continue;
 
         const dateKey = rowDate.toISOString().slice(0, 10);
@@ -628,49 +675,41 @@ export class GoogleSheetsService {
    * 個別予約数を取得
    *
    * 既存のcountRegistrationPathとは異なるロジック:
-   * - 列位置はchannelTypeで固定（ヘッダー検出不要）
+   * - 列位置は個別予約データソースの設定に従う（ヘッダー名で特定し、見つからなければ既定の列番号）
    * - 1セル内に改行区切りで複数の登録経路が含まれる場合があり、
    *   各行をカウントする
    *
-   * @param channelType 導線タイプ（タブ名・列の決定に使用）
-   * @param spreadsheetId スプレッドシートID
+   * @param sheet 個別予約シート設定（DataSourceServiceで解決）
    * @param registrationPath 登録経路（例: TikTok広告-スキルプラス-LP2-CR00322）
    * @param startDate 開始日
    * @param endDate 終了日
    * @returns 個別予約件数
    */
   async getIndividualReservationCount(
-    channelType: 'SNS' | 'AI' | 'SEMINAR',
-    spreadsheetId: string,
+    sheet: IndividualReservationSheet,
     registrationPath: string,
     startDate: Date,
     endDate: Date,
   ): Promise<number> {
-    const config: Record<
-      string,
-      { sheetName: string; dateColumnIndex: number; pathColumnIndex: number }
-    > = {
-      SEMINAR: {
-        sheetName: 'スキルプラス（オートウェビナー用）',
-        dateColumnIndex: 0,
-        pathColumnIndex: 34,
-      },
-      AI: { sheetName: 'AI', dateColumnIndex: 0, pathColumnIndex: 46 },
-      SNS: { sheetName: 'SNS', dateColumnIndex: 0, pathColumnIndex: 46 },
-    };
-
-    const { sheetName, dateColumnIndex, pathColumnIndex } = config[channelType];
+    const { spreadsheetId, sheetName, headerRowIndex } = sheet;
 
     this.logger.log(
-      `[個別予約] Counting for path: ${registrationPath}, sheet: ${sheetName}, pathCol: ${pathColumnIndex}`,
+      `[個別予約] Counting for path: ${registrationPath}, sheet: ${sheetName}`,
     );
 
     try {
-      // AU列(46)まで取得するために A:AZ の範囲を指定
+      // 既定のAU列(46)を含む A:AZ を基本とし、設定列がそれより右なら広げる
+      const lastColumnIndex = Math.max(
+        51,
+        ...[sheet.dateColumn, sheet.pathColumn].flatMap((spec) => [
+          spec.index ?? 0,
+          spec.fallbackIndex ?? 0,
+        ]),
+      );
       const rows = await this.getSheetDataWithCache(
         spreadsheetId,
         sheetName,
-        'A:AZ',
+        `A:${this.toColumnLetter(lastColumnIndex)}`,
       );
 
       if (!rows || rows.length === 0) {
@@ -678,9 +717,18 @@ export class GoogleSheetsService {
         return 0;
       }
 
+      const headerRow = rows[headerRowIndex] ?? [];
+      const dateColumnIndex = locateColumn(headerRow, sheet.dateColumn);
+      const pathColumnIndex = locateColumn(headerRow, sheet.pathColumn);
+      if (dateColumnIndex === undefined || pathColumnIndex === undefined) {
+        throw new Error(
+          `[個別予約] 登録日時・登録経路の列を特定できません: ${sheetName}`,
+        );
+      }
+
       let count = 0;
-      // ヘッダー行をスキップ
-      for (let i = 1; i < rows.length; i++) {
+      // ヘッダー行までをスキップ
+      for (let i = headerRowIndex + 1; i < rows.length; i++) {
         const row = rows[i];
         const dateValue = row[dateColumnIndex];
         const pathValue = row[pathColumnIndex];
@@ -688,7 +736,7 @@ export class GoogleSheetsService {
         if (!dateValue) continue;
 
         // 日付が範囲内かチェック
-        const rowDate = this.parseDate(String(dateValue));
+        const rowDate = parseSheetDate(String(dateValue));
         if (!rowDate) continue;
         if (rowDate < startDate || rowDate > endDate) continue;
 
@@ -720,40 +768,12 @@ export class GoogleSheetsService {
     }
   }
 
-  /**
-   * 日付文字列をDateオブジェクトに変換（JSTとして解釈）
-   * スプレッドシートの日付はJST前提のため、タイムゾーン情報がなければ+09:00として扱う
-   */
-  private parseDate(dateString: string): Date | null {
-    try {
-      if (!dateString) return null;
-      const trimmed = dateString.trim();
-
-      // タイムゾーン情報が既にある場合はそのまま解釈
-      if (/[+-]\d{2}:?\d{2}$|Z$/i.test(trimmed) || /GMT|UTC/i.test(trimmed)) {
-        const date = new Date(trimmed);
-        return isNaN(date.getTime()) ? null : date;
-      }
-
-      // タイムゾーンなし → JSTとしてパース
-      // "2026/02/15", "2026/2/15", "2026-02-15", "2026/02/15 18:30:00" 等
-      const match = trimmed.match(
-        /^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})(?:\s+(\d{1,2}:\d{2}(?::\d{2})?))?/,
-      );
-      if (match) {
-        const [, year, month, day, time] = match;
-        const mm = month.padStart(2, '0');
-        const dd = day.padStart(2, '0');
-        const timeStr = time || '00:00:00';
-        const date = new Date(`${year}-${mm}-${dd}T${timeStr}+09:00`);
-        return isNaN(date.getTime()) ? null : date;
-      }
-
-      // フォールバック
-      const date = new Date(trimmed);
-      return isNaN(date.getTime()) ? null : date;
-    } catch (error) {
-      return null;
+  /** 0始まりの列番号をA1表記の列名に変換（0 → A, 51 → AZ） */
+  private toColumnLetter(index: number): string {
+    let letter = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
     }
+    return letter;
   }
 }
@@ -0,0 +1,155 @@
+import {
+  buildPacingCurve,
+  decideByForecast,
+  describeForecast,
+  forecastEndOfDay,
+  toPacingDays,
+  type PacingDay,
+} from './eod-forecast';
+
+/** 指定の時刻に1日の share 割合を消化・獲得している日 */
+function day(hour: number, share: number, date: string): PacingDay {
+  return {
+    adId: 'ad-1',
+    date,
+    totalSpend: 10000,
+    totalCV: 10,
+    observations: [
+      { hour, todaySpend: 10000 * share, todayCV: Math.round(10 * share) },
+    ],
+  };
+}
+
+const history = { spend: 21000, cv: 6, days: 7 }; // 過去7日CPA 3,500
+const thresholds = { pauseConfidence: 0.8, reduceConfidence: 0.5 };
+
+describe('toPacingDays', () => {
+  it('広告×日にまとめ、同じ時は最後のスナップショット・終日消化額は Metric を使う', () => {
+    const days = toPacingDays(
+      [
+        {
+          adId: 'a',
+          date: '2026-03-01',
+          hour: 12,
+          todaySpend: 500,
+          todayCV: 1,
+        },
+        { adId: 'a', date: '2026-03-01', hour: 9, todaySpend: 100, todayCV: 0 },
+        {
+          adId: 'a',
+          date: '2026-03-01',
+          hour: 12,
+          todaySpend: 600,
+          todayCV: 2,
+        },
+        // Metric がない日は終日の実績が分からないので使わない
+        { adId: 'a', date: '2026-03-02', hour: 9, todaySpend: 100, todayCV: 0 },
+      ],
+      new Map([['a:2026-03-01', 1000]]),
+    );
+    expect(days).toEqual([
+      {
+        adId: 'a',
+        date: '2026-03-01',
+        totalSpend: 1000,
+        totalCV: 2,
+        observations: [
+          { hour: 9, todaySpend: 100, todayCV: 0 },
+          { hour: 12, todaySpend: 600, todayCV: 2 },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('buildPacingCurve', () => {
+  it('時刻ごとの消化割合の幅とCV獲得割合を作り、日数が足りない時刻は除く', () => {
+    const curve = buildPacingCurve([
+      day(10, 0.3, '2026-03-01'),
+      day(10, 0.4, '2026-03-02'),
+      day(10, 0.5, '2026-03-03'),
+      { ...day(10, 0.4, '2026-03-04'), totalCV: 0 },
+    ]);
+    expect(curve.days).toBe(4);
+    expect(curve.points.map((p) => p.hour)).toEqual([
+      10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23,
+    ]);
+    const [point] = curve.points;
+    expect(point.days).toBe(4);
+    expect(point.spendShare.p50).toBeCloseTo(0.4);
+    expect(point.spendShare.p10).toBeCloseTo(0.33);
+    expect(point.spendShare.p90).toBeCloseTo(0.47);
+    // CVのない日はCV獲得割合に含めない
+    expect(point.cvShare).toBeCloseTo(0.4);
+
+    expect(buildPacingCurve([day(10, 0.4, '2026-03-01')]).points).toEqual([]);
+  });
+});
+
+describe('forecastEndOfDay', () => {
+  const curveAt = (hour: number, shares: number[]) =>
+    buildPacingCurve(shares.map((s, i) => day(hour, s, `2026-03-0${i + 1}`)));
+
+  it('午前中のCV0は過去のCVRで残り時間のCVを見込み、即停止にはしない', () => {
+    const forecast = forecastEndOfDay(
+      curveAt(10, [0.35, 0.4, 0.4, 0.45, 0.4]),
+      {
+        hour: 10,
+        todaySpend: 4000,
+        todayCV: 0,
+        history,
+        allowableCPA: 6000,
+      },
+    )!;
+
+    expect(forecast.spend.p50).toBeCloseTo(10000);
+    expect(forecast.spend.p10).toBeLessThan(forecast.spend.p50);
+    expect(forecast.spend.p90).toBeGreaterThan(forecast.spend.p50);
+    expect(forecast.expectedCV).toBeGreaterThan(0.5);
+    expect(forecast.exceedProbability).toBeGreaterThan(0.5);
+    expect(forecast.exceedProbability).toBeLessThan(0.8);
+    expect(decideByForecast(forecast, thresholds)).toBe('REDUCE_BUDGET');
+  });
+
+  it('夜まで許容CPAを大きく超えたままなら高い確率で超過と判定して停止する', () => {
+    const forecast = forecastEndOfDay(curveAt(20, [0.85, 0.9, 0.9, 0.95]), {
+      hour: 20,
+      todaySpend: 18000,
+      todayCV: 1,
+      history,
+      allowableCPA: 6000,
+    })!;
+
+    expect(forecast.cpa.p50).toBeGreaterThan(6000);
+    expect(forecast.exceedProbability).toBeGreaterThan(0.95);
+    expect(decideByForecast(forecast, thresholds)).toBe('PAUSE');
+  });
+
+  it('既に着地でも許容CPA以内に収まるCV数があれば超過確率0で継続', () => {
+    const forecast = forecastEndOfDay(curveAt(15, [0.6, 0.6, 0.6]), {
+      hour: 15,
+      todaySpend: 6000,
+      todayCV: 3,
+      history,
+      allowableCPA: 6000,
+    })!;
+
+    expect(forecast.cv.p10).toBeGreaterThanOrEqual(3);
+    expect(forecast.cpa.p50).toBeLessThanOrEqual(10000 / 3);
+    expect(forecast.exceedProbability).toBe(0);
+    expect(decideByForecast(forecast, thresholds)).toBe('CONTINUE');
+    expect(describeForecast(forecast)).toContain('許容CPA超過確率0%');
+  });
+
+  it('この時刻の推移が足りなければ予測しない', () => {
+    expect(
+      forecastEndOfDay(curveAt(18, [0.8, 0.8, 0.8]), {
+        hour: 15,
+        todaySpend: 6000,
+        todayCV: 3,
+        history,
+        allowableCPA: 6000,
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,348 @@
+// ============================================================================
+// 日中CPAチェック - 終日着地予測（純粋関数のみ）
+//
+// 過去の毎時スナップショット（当日累計）と Metric の日次消化額から
+// 「何時までに1日の何割を消化・獲得しているか」のペーシング曲線を作り、
+// 現時点の当日累計から終日の消化額・CV数・CPAを幅付きで予測する。
+// - 消化額: 同じ時刻までの消化割合（日ごとのばらつきのP10/P50/P90）で割り戻す
+// - CV数: 過去7日のCVRを事前分布（ガンマ分布）とし、当日のCVで更新した
+//   残り時間のCV数を負の二項分布（ポアソン分布の混合）で見積もる
+//   → CVが固まって入る日でも、少ないCVだけで極端なCPAと判定しない
+// ============================================================================
+
+/** 日中CPAチェックの判定方式（RAW: 当日CPA / FORECAST: 終日着地予測） */
+export const INTRADAY_DECISION_MODES = ['RAW', 'FORECAST'] as const;
+export type IntradayDecisionMode = (typeof INTRADAY_DECISION_MODES)[number];
+
+export type IntradayDecision = 'PAUSE' | 'REDUCE_BUDGET' | 'CONTINUE';
+
+/** ペーシング曲線の学習に使う日数（今日を含まない） */
+export const PACING_LOOKBACK_DAYS = 14;
+
+/** この日数以上の実績がある時刻だけ予測する */
+export const MIN_CURVE_DAYS = 3;
+
+/** 過去のCVRを何日分の重みで当日の判定に効かせるか */
+export const PRIOR_WEIGHT_DAYS = 2;
+
+/** 既定: 許容CPA超過の確率がこの値以上なら停止 */
+export const DEFAULT_PAUSE_CONFIDENCE = 0.8;
+
+/** 既定: 許容CPA超過の確率がこの値以上なら予算削減 */
+export const DEFAULT_REDUCE_CONFIDENCE = 0.5;
+
+/** 負の二項分布の累積を打ち切るCV数（実運用の1広告1日のCV数より十分大きい） */
+const MAX_REMAINING_CV = 10000;
+
+export function isIntradayDecisionMode(
+  value: unknown,
+): value is IntradayDecisionMode {
+  return INTRADAY_DECISION_MODES.includes(value as IntradayDecisionMode);
+}
+
+// ============================================================================
+// ペーシング曲線
+// ============================================================================
+
+/** 毎時スナップショット1件（JSTの日付・時、当日累計値） */
+export interface PacingSnapshot {
+  adId: string;
+  date: string;
+  hour: number;
+  todaySpend: number;
+  todayCV: number;
+}
+
+/** 広告1日分の累計推移と終日実績 */
+export interface PacingDay {
+  adId: string;
+  date: string;
+  totalSpend: number;
+  totalCV: number;
+  /** 時刻昇順（同じ時に複数あれば最後を採用済み） */
+  observations: { hour: number; todaySpend: number; todayCV: number }[];
+}
+
+export interface Band<T = number> {
+  p10: T;
+  p50: T;
+  p90: T;
+}
+
+/** 各時刻までの終日に対する消化・獲得割合 */
+export interface PacingPoint {
+  hour: number;
+  /** この時刻の割合を計算できた日数 */
+  days: number;
+  spendShare: Band;
+  /** CVのあった日の平均（CVのある日がなければ消化割合のP50） */
+  cvShare: number;
+}
+
+export interface PacingCurve {
+  /** 学習に使えた広告×日の数 */
+  days: number;
+  /** 時刻昇順（実績が MIN_CURVE_DAYS 未満の時刻は含まない） */
+  points: PacingPoint[];
+}
+
+/**
+ * スナップショットを広告×日にまとめる
+ * 終日の消化額は Metric、CV数はその日の最後のスナップショットの累計を使う
+ * @param dailySpend `${adId}:${date}` → Metric の日次消化額（TikTok広告ID）
+ */
+export function toPacingDays(
+  snapshots: PacingSnapshot[],
+  dailySpend: Map<string, number>,
+): PacingDay[] {
+  const byDay = new Map<string, PacingDay>();
+  const sorted = [...snapshots].sort(
+    (a, b) =>
+      a.adId.localeCompare(b.adId) ||
+      a.date.localeCompare(b.date) ||
+      a.hour - b.hour,
+  );
+  for (const snap of sorted) {
+    const key = `${snap.adId}:${snap.date}`;
+    const totalSpend = dailySpend.get(key);
+    if (totalSpend === undefined || totalSpend <= 0) continue;
+
+    const day = byDay.get(key) ?? {
+      adId: snap.adId,
+      date: snap.date,
+      totalSpend,
+      totalCV: 0,
+      observations: [],
+    };
+    byDay.set(key, day);
+    const observation = {
+      hour: snap.hour,
+      todaySpend: snap.todaySpend,
+      todayCV: snap.todayCV,
+    };
+    const last = day.observations[day.observations.length - 1];
+    if (last?.hour === snap.hour) {
+      day.observations[day.observations.length - 1] = observation;
+    } else {
+      day.observations.push(observation);
+    }
+    day.totalCV = Math.max(day.totalCV, snap.todayCV);
+  }
+  return [...byDay.values()];
+}
+
+/** 広告×日の累計推移から時刻別の消化・獲得割合を作る */
+export function buildPacingCurve(
+  days: PacingDay[],
+  minDays = MIN_CURVE_DAYS,
+): PacingCurve {
+  const usable = days.filter(
+    (day) => day.totalSpend > 0 && day.observations.length > 0,
+  );
+  const points: PacingPoint[] = [];
+
+  for (let hour = 0; hour < 24; hour++) {
+    const spendShares: number[] = [];
+    const cvShares: number[] = [];
+    for (const day of usable) {
+      // その時刻以前の最後の観測（なければ判断材料にしない）
+      const observation = [...day.observations]
+        .reverse()
+        .find((o) => o.hour <= hour);
+      if (!observation) continue;
+      spendShares.push(clampShare(observation.todaySpend / day.totalSpend));
+      if (day.totalCV > 0) {
+        cvShares.push(clampShare(observation.todayCV / day.totalCV));
+      }
+    }
+    if (spendShares.length < minDays) continue;
+
+    const spendShare = {
+      p10: quantile(spendShares, 0.1),
+      p50: quantile(spendShares, 0.5),
+      p90: quantile(spendShares, 0.9),
+    };
+    points.push({
+      hour,
+      days: spendShares.length,
+      spendShare,
+      cvShare:
+        cvShares.length > 0
+          ? cvShares.reduce((sum, v) => sum + v, 0) / cvShares.length
+          : spendShare.p50,
+    });
+  }
+
+  return { days: usable.length, points };
+}
+
+// ============================================================================
+// 終日着地予測
+// ============================================================================
+
+export interface ForecastInput {
+  /** 現在のJSTの時（0〜23） */
+  hour: number;
+  todaySpend: number;
+  todayCV: number;
+  /** 過去の実績（CVRの事前分布に使う） */
+  history: { spend: number; cv: number; days: number };
+  allowableCPA: number;
+}
+
+export interface EndOfDayForecast {
+  hour: number;
+  /** 予測に使った曲線の日数（この時刻の割合を計算できた広告×日） */
+  curveDays: number;
+  /** この時刻までの消化割合（P50） */
+  spendShare: number;
+  /** 終日消化額（P10 = 控えめ、P90 = 多め） */
+  spend: Band;
+  /** 終日CV数（P10 = 少なめ、P90 = 多め） */
+  cv: Band;
+  /** 終日CPA（消化額はP50、CV数の幅から算出。CV=0の場合はnull） */
+  cpa: Band<number | null>;
+  /** 終日CV数の期待値 */
+  expectedCV: number;
+  allowableCPA: number;
+  /** 終日CPAが許容CPAを超える確率（0〜1） */
+  exceedProbability: number;
+}
+
+/**
+ * 当日累計から終日の消化額・CV数・CPAを予測する
+ * この時刻の曲線がない（履歴不足）か、消化割合が0の場合は null
+ */
+export function forecastEndOfDay(
+  curve: PacingCurve,
+  input: ForecastInput,
+): EndOfDayForecast | null {
+  const point = curve.points.find((p) => p.hour === input.hour);
+  if (!point || point.spendShare.p50 <= 0) return null;
+
+  // この時刻に消化0の日が1割以上あると上振れの上限が決まらないため、P50で代用する
+  const project = (share: number) =>
+    share > 0
+      ? input.todaySpend / share
+      : input.todaySpend / point.spendShare.p50;
+  const spend = {
+    p10: project(point.spendShare.p90),
+    p50: project(point.spendShare.p50),
+    p90: project(point.spendShare.p10),
+  };
+
+  // CVR（1円あたりのCV数）の事前分布: 過去の実績を PRIOR_WEIGHT_DAYS 日分に縮め、
+  // 実績がなくても「許容CPAで0.5件」を足して判定できるようにする
+  const weight = Math.min(
+    1,
+    PRIOR_WEIGHT_DAYS / Math.max(input.history.days, 1),
+  );
+  const shape = 0.5 + input.history.cv * weight + input.todayCV;
+  // 当日のCVは「終日消化額 × この時刻までのCV獲得割合」分の配信で得たとみなす
+  const rate =
+    0.5 * input.allowableCPA +
+    input.history.spend * weight +
+    spend.p50 * point.cvShare;
+  const remainingExposure = spend.p50 * (1 - point.cvShare);
+  const remaining = negativeBinomial(shape, rate, remainingExposure);
+
+  const cv = {
+    p10: input.todayCV + remaining.quantile(0.1),
+    p50: input.todayCV + remaining.quantile(0.5),
+    p90: input.todayCV + remaining.quantile(0.9),
+  };
+  const cpaOf = (count: number) => (count > 0 ? spend.p50 / count : null);
+
+  // 終日CPA > 許容CPA ⇔ 終日CV数 < 終日消化額 / 許容CPA
+  const requiredCV = spend.p50 / input.allowableCPA - input.todayCV;
+  const exceedProbability =
+    requiredCV <= 0 ? 0 : remaining.cdf(Math.ceil(requiredCV) - 1);
+
+  return {
+    hour: input.hour,
+    curveDays: point.days,
+    spendShare: point.spendShare.p50,
+    spend,
+    cv,
+    cpa: { p10: cpaOf(cv.p90), p50: cpaOf(cv.p50), p90: cpaOf(cv.p10) },
+    expectedCV: input.todayCV + (shape / rate) * remainingExposure,
+    allowableCPA: input.allowableCPA,
+    exceedProbability,
+  };
+}
+
+export interface ForecastThresholds {
+  pauseConfidence: number;
+  reduceConfidence: number;
+}
+
+/** 許容CPA超過の確率で停止・予算削減・継続を決める */
+export function decideByForecast(
+  forecast: EndOfDayForecast,
+  thresholds: ForecastThresholds,
+): IntradayDecision {
+  if (forecast.exceedProbability >= thresholds.pauseConfidence) return 'PAUSE';
+  if (forecast.exceedProbability >= thresholds.reduceConfidence) {
+    return 'REDUCE_BUDGET';
+  }
+  return 'CONTINUE';
+}
+
+/** 判定理由に添える予測の要約 */
+export function describeForecast(forecast: EndOfDayForecast): string {
+  const yen = (value: number | null) =>
+    value === null ? '-' : `¥${Math.round(value).toLocaleString()}`;
+  const { spend, cv, cpa } = forecast;
+  return (
+    `${forecast.hour}時時点の着地予測: ` +
+    `消化${yen(spend.p50)}（${yen(spend.p10)}〜${yen(spend.p90)}）、` +
+    `CV${cv.p50}件（${cv.p10}〜${cv.p90}件）、` +
+    `CPA${yen(cpa.p50)}（${yen(cpa.p10)}〜${yen(cpa.p90)}）、` +
+    `許容CPA超過確率${Math.round(forecast.exceedProbability * 100)}%` +
+    `（過去${forecast.curveDays}件の推移）`
+  );
+}
+
+// ============================================================================
+// 内部
+// ============================================================================
+
+function clampShare(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/** 線形補間の分位点 */
+function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * CVR ~ Gamma(shape, rate) のもとで exposure 円を消化したときのCV数
+ * （負の二項分布: P(0) = (rate / (rate + exposure))^shape）
+ */
+function negativeBinomial(shape: number, rate: number, exposure: number) {
+  const success = exposure / (rate + exposure);
+  const pmf: number[] = [];
+  let p = Math.pow(rate / (rate + exposure), shape);
+  let total = 0;
+  for (let k = 0; k <= MAX_REMAINING_CV && total < 1 - 1e-9; k++) {
+    pmf.push(p);
+    total += p;
+    p = (p * (shape + k) * success) / (k + 1);
+  }
+  const cdf = (k: number) =>
+    k < 0 ? 0 : pmf.slice(0, k + 1).reduce((sum, v) => sum + v, 0);
+  const quantileOf = (q: number) => {
+    let cumulative = 0;
+    for (let k = 0; k < pmf.length; k++) {
+      cumulative += pmf[k];
+      if (cumulative >= q) return k;
+    }
+    return pmf.length - 1;
+  };
+  return { cdf, quantile: quantileOf };
+}
@@ -2,7 +2,7 @@ import { Module } from '@nestjs/common';
 import { IntradayOptimizationService } from './intraday-optimization.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { TiktokModule } from '../tiktok/tiktok.module';
-import { GoogleSheetsModule } from '../google-sheets/google-sheets.module';
+import { ConversionLedgerModule } from '../conversion-ledger/conversion-ledger.module';
 import { AppealModule } from '../appeal/appeal.module';
 import { NotificationModule } from '../notification/notification.module';
 
@@ -10,7 +10,7 @@ import { NotificationModule } from '../notification/notification.module';
   imports: [
     PrismaModule,
     TiktokModule,
-    GoogleSheetsModule,
+    ConversionLedgerModule,
     AppealModule,
     NotificationModule,
   ],
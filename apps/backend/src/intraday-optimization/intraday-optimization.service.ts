@@ -1,24 +1,58 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { BudgetAuditService } from '../budget-audit/budget-audit.service';
+import { AutomationControlService } from '../automation-control/automation-control.service';
+import type { AutomationSkip } from '../automation-control/domain/automation-control';
 import { TiktokService } from '../tiktok/tiktok.service';
-import { GoogleSheetsService } from '../google-sheets/google-sheets.service';
+import { ConversionLedgerService } from '../conversion-ledger/conversion-ledger.service';
 import { AppealService } from '../appeal/appeal.service';
 import {
   NotificationService,
   NotificationSeverity,
+  NotificationType,
   EntityType,
 } from '../notification/notification.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import type { JobRunOutcome } from '../job-queue/job-queue.service';
 import {
-  batchJobLock,
-  validateAdNameFormat,
-  withDatabaseRetry,
-} from '../common/utils';
-
-/**
- * 日中CPA最適化判定結果
- */
-type IntradayDecision = 'PAUSE' | 'REDUCE_BUDGET' | 'CONTINUE';
+  eachAdvertiser,
+  type JobRunContext,
+} from '../job-queue/job-run-context';
+import { groupByAdvertiser } from '../job-queue/domain/job-run';
+import type { JobTrigger } from '../job-queue/domain/job-run';
+import { validateAdNameFormat, withDatabaseRetry } from '../common/utils';
+import { toJstDate } from '../conversion-ledger/domain/conversion-ledger';
+import { isDeliveringAt } from '../dayparting/domain/dayparting';
+import { isAutomationTarget } from '../ad-naming/domain/ad-name';
+import {
+  DEFAULT_PAUSE_CONFIDENCE,
+  DEFAULT_REDUCE_CONFIDENCE,
+  PACING_LOOKBACK_DAYS,
+  buildPacingCurve,
+  decideByForecast,
+  describeForecast,
+  forecastEndOfDay,
+  isIntradayDecisionMode,
+  toPacingDays,
+  type EndOfDayForecast,
+  type ForecastThresholds,
+  type IntradayDecision,
+  type IntradayDecisionMode,
+  type PacingCurve,
+} from './domain/eod-forecast';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 予測モードの判定材料（広告アカウント単位で1回だけ作る） */
+interface ForecastContext {
+  curve: PacingCurve;
+  /** 判定時点のJSTの時 */
+  hour: number;
+  thresholds: ForecastThresholds;
+}
 
 export interface IntradayCheckResult {
   adId: string;
@@ -34,10 +68,17 @@ export interface IntradayCheckResult {
   todayCV: number;
   /** 過去7日間のCV数 */
   last7DaysCV: number;
+  /** 判定に使った終日着地予測（当日CPAで判定した場合はnull） */
+  forecast: EndOfDayForecast | null;
 }
 
+/**
+ * 日中CPAチェックの結果
+ * dryRun=false の場合、advertisers は空で summary は実際に停止・削減した件数
+ */
 export interface DryRunResult {
   dryRun: boolean;
+  mode: IntradayDecisionMode;
   advertisers: {
     advertiserId: string;
     ads: IntradayCheckResult[];
@@ -48,10 +89,20 @@ export interface DryRunResult {
     wouldReduce: number;
     wouldContinue: number;
   };
+  /** 自動化の一時停止でチェックを見送ったアカウント */
+  automationSkips: AutomationSkip[];
+}
+
+/** 再開・予算復元の結果 */
+export interface IntradayRestoreResult {
+  processed: number;
+  failed: number;
+  /** 自動化の一時停止で見送ったアカウント（ログは未処理のまま残る） */
+  automationSkips: AutomationSkip[];
 }
 
 @Injectable()
-export class IntradayOptimizationService {
+export class IntradayOptimizationService implements OnModuleInit {
   private readonly logger = new Logger(IntradayOptimizationService.name);
 
   // 予算削減率（デフォルト50%）
@@ -60,18 +111,36 @@ export class IntradayOptimizationService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly tiktokService: TiktokService,
-    private readonly googleSheetsService: GoogleSheetsService,
+    private readonly conversionLedger: ConversionLedgerService,
     private readonly appealService: AppealService,
     private readonly notificationService: NotificationService,
     private readonly configService: ConfigService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly budgetAudit: BudgetAuditService,
+    private readonly automationControl: AutomationControlService,
+    private readonly jobQueue: JobQueueService,
   ) {}
 
+  onModuleInit() {
+    // 失敗した広告アカウントの再実行（POST /api/job-runs/runs/:id/retry）用
+    // 日中CPAチェックは予算削減の二重適用を避けるため再実行の対象にしない
+    this.jobQueue.register('intraday-resume', (run) =>
+      this.executeIntradayResume(run),
+    );
+    this.jobQueue.register('intraday-budget-restore', (run) =>
+      this.executeIntradayBudgetRestore(run),
+    );
+  }
+
   /**
    * 15:00 日中CPAチェックジョブ
    * NOTE: @Cronスケジューラは削除済み。GitHub Actionsワークフローも削除済み。
    * 手動実行のみ可能（POST /jobs/intraday-cpa-check）
    */
-  async runIntradayCPACheck() {
+  async runIntradayCPACheck(
+    trigger: JobTrigger = 'CRON',
+    additionalExcludedAdvertisers?: string[],
+  ): Promise<JobRunOutcome<DryRunResult> | undefined> {
     // フィーチャーフラグチェック
     if (
       this.configService.get('FEATURE_INTRADAY_CPA_CHECK_ENABLED') !== 'true'
@@ -80,33 +149,29 @@ export class IntradayOptimizationService {
       return;
     }
 
-    const jobName = 'intraday-cpa-check';
+    this.logger.log('Starting intraday CPA check job');
 
-    // ロック取得
-    if (!batchJobLock.acquire(jobName, 1800000)) {
+    const outcome = await this.jobQueue.run(
+      'intraday-cpa-check',
+      (run) =>
+        this.executeIntradayCPACheck(false, additionalExcludedAdvertisers, run),
+      { trigger },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn(
         `[IC-01] Previous intraday CPA check is still running. Skipping...`,
       );
-      return;
-    }
-
-    this.logger.log('Starting intraday CPA check job');
-
-    try {
-      await this.executeIntradayCPACheck();
-    } catch (error) {
-      this.logger.error('Intraday CPA check failed:', error);
-    } finally {
-      batchJobLock.release(jobName);
-      this.logger.log('Intraday CPA check job completed');
     }
+    return outcome;
   }
 
   /**
    * 23:59 配信再開ジョブ
    * NOTE: @Cronスケジューラは削除済み。手動実行のみ可能（POST /jobs/intraday-resume）
    */
-  async runIntradayResume() {
+  async runIntradayResume(
+    trigger: JobTrigger = 'CRON',
+  ): Promise<JobRunOutcome<IntradayRestoreResult> | undefined> {
     // フィーチャーフラグチェック
     if (
       this.configService.get('FEATURE_INTRADAY_CPA_CHECK_ENABLED') !== 'true'
@@ -115,32 +180,28 @@ export class IntradayOptimizationService {
       return;
     }
 
-    const jobName = 'intraday-resume';
+    this.logger.log('Starting intraday resume job');
 
-    if (!batchJobLock.acquire(jobName, 600000)) {
+    const outcome = await this.jobQueue.run(
+      'intraday-resume',
+      (run) => this.executeIntradayResume(run),
+      { trigger },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn(
         `[IR-01] Previous intraday resume is still running. Skipping...`,
       );
-      return;
-    }
-
-    this.logger.log('Starting intraday resume job');
-
-    try {
-      await this.executeIntradayResume();
-    } catch (error) {
-      this.logger.error('Intraday resume failed:', error);
-    } finally {
-      batchJobLock.release(jobName);
-      this.logger.log('Intraday resume job completed');
     }
+    return outcome;
   }
 
   /**
    * 23:59:30 予算復元ジョブ
    * NOTE: @Cronスケジューラは削除済み。手動実行のみ可能（POST /jobs/intraday-budget-restore）
    */
-  async runIntradayBudgetRestore() {
+  async runIntradayBudgetRestore(
+    trigger: JobTrigger = 'CRON',
+  ): Promise<JobRunOutcome<IntradayRestoreResult> | undefined> {
     // フィーチャーフラグチェック
     if (
       this.configService.get('FEATURE_INTRADAY_CPA_CHECK_ENABLED') !== 'true'
@@ -149,39 +210,38 @@ export class IntradayOptimizationService {
       return;
     }
 
-    const jobName = 'intraday-budget-restore';
+    this.logger.log('Starting intraday budget restore job');
 
-    if (!batchJobLock.acquire(jobName, 600000)) {
+    const outcome = await this.jobQueue.run(
+      'intraday-budget-restore',
+      (run) => this.executeIntradayBudgetRestore(run),
+      { trigger },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn(
         `[IB-01] Previous intraday budget restore is still running. Skipping...`,
       );
-      return;
-    }
-
-    this.logger.log('Starting intraday budget restore job');
-
-    try {
-      await this.executeIntradayBudgetRestore();
-    } catch (error) {
-      this.logger.error('Intraday budget restore failed:', error);
-    } finally {
-      batchJobLock.release(jobName);
-      this.logger.log('Intraday budget restore job completed');
     }
+    return outcome;
   }
 
   /**
    * 日中CPAチェックの実行
    * @param dryRun trueの場合、実際のAPI呼び出しをスキップして判定結果のみ返す
    * @param additionalExcludedAdvertisers 追加で除外するAdvertiser IDs（API呼び出し時に指定）
+   * @param run ジョブキューから実行する場合の実行コンテキスト（広告アカウント別の結果を記録）
+   * @param mode 判定方式（省略時は INTRADAY_DECISION_MODE、未設定なら当日CPAで判定）
    */
   async executeIntradayCPACheck(
     dryRun = false,
     additionalExcludedAdvertisers?: string[],
-  ): Promise<DryRunResult | void> {
+    run?: JobRunContext,
+    mode: IntradayDecisionMode = this.getDecisionMode(),
+  ): Promise<DryRunResult> {
     if (dryRun) {
       this.logger.log('=== DRY RUN MODE: No actual changes will be made ===');
     }
+    this.logger.log(`Decision mode: ${mode}`);
 
     // 除外Advertiser設定を取得（追加の除外リストを含む）
     const excludedAdvertisers = this.getExcludedAdvertisers(
@@ -193,29 +253,32 @@ export class IntradayOptimizationService {
       );
     }
 
-    // 有効なOAuthTokenを持つAdvertiserを取得
-    const oauthTokens = await this.prisma.oAuthToken.findMany({
-      where: {
-        expiresAt: { gt: new Date() },
-        NOT: { advertiserId: { in: excludedAdvertisers } },
-      },
-    });
+    // 有効なOAuthTokenを持つAdvertiserを取得（自動化の一時停止中は除外）
+    const candidates = (await this.tokenVault.findActive()).filter(
+      (token) => !excludedAdvertisers.includes(token.advertiserId),
+    );
+    const gate = await this.automationControl.gate(
+      'INTRADAY_PAUSE',
+      candidates.map((token) => token.advertiserId),
+    );
+    const oauthTokens = candidates.filter((token) =>
+      gate.allowed.includes(token.advertiserId),
+    );
 
     if (oauthTokens.length === 0) {
       this.logger.warn('No active advertisers found for intraday check');
-      if (dryRun) {
-        return {
-          dryRun: true,
-          advertisers: [],
-          summary: {
-            totalAds: 0,
-            wouldPause: 0,
-            wouldReduce: 0,
-            wouldContinue: 0,
-          },
-        };
-      }
-      return;
+      return {
+        dryRun,
+        mode,
+        advertisers: [],
+        summary: {
+          totalAds: 0,
+          wouldPause: 0,
+          wouldReduce: 0,
+          wouldContinue: 0,
+        },
+        automationSkips: gate.skipped,
+      };
     }
 
     let totalPaused = 0;
@@ -223,12 +286,16 @@ export class IntradayOptimizationService {
     let totalContinued = 0;
     const dryRunResults: DryRunResult['advertisers'] = [];
 
-    for (const token of oauthTokens) {
-      try {
+    const outcomes = await eachAdvertiser(
+      run,
+      oauthTokens,
+      (token) => token.advertiserId,
+      async (token) => {
         const result = await this.checkAdvertiser(
           token.advertiserId,
           token.accessToken,
           dryRun,
+          mode,
         );
         totalPaused += result.paused;
         totalReduced += result.reduced;
@@ -240,29 +307,38 @@ export class IntradayOptimizationService {
             ads: result.checkResults,
           });
         }
-      } catch (error) {
-        this.logger.error(
-          `[IC-01] Failed to check advertiser ${token.advertiserId}: ${error.message}`,
-        );
-      }
+        return result;
+      },
+      {
+        summarize: (result) => ({
+          paused: result.paused,
+          reduced: result.reduced,
+          continued: result.continued,
+        }),
+      },
+    );
+    for (const outcome of outcomes.filter((o) => o.status === 'FAILED')) {
+      this.logger.error(
+        `[IC-01] Failed to check advertiser ${outcome.advertiserId}: ${outcome.error}`,
+      );
     }
 
     this.logger.log(
       `Intraday CPA check completed. Paused: ${totalPaused}, Reduced: ${totalReduced}, Continued: ${totalContinued}`,
     );
 
-    if (dryRun) {
-      return {
-        dryRun: true,
-        advertisers: dryRunResults,
-        summary: {
-          totalAds: totalPaused + totalReduced + totalContinued,
-          wouldPause: totalPaused,
-          wouldReduce: totalReduced,
-          wouldContinue: totalContinued,
-        },
-      };
-    }
+    return {
+      dryRun,
+      mode,
+      advertisers: dryRunResults,
+      summary: {
+        totalAds: totalPaused + totalReduced + totalContinued,
+        wouldPause: totalPaused,
+        wouldReduce: totalReduced,
+        wouldContinue: totalContinued,
+      },
+      automationSkips: gate.skipped,
+    };
   }
 
   /**
@@ -271,7 +347,8 @@ export class IntradayOptimizationService {
   private async checkAdvertiser(
     advertiserId: string,
     accessToken: string,
-    dryRun = false,
+    dryRun: boolean,
+    mode: IntradayDecisionMode,
   ): Promise<{
     paused: number;
     reduced: number;
@@ -329,6 +406,17 @@ export class IntradayOptimizationService {
       today,
     );
 
+    // 予測モード: 過去の毎時推移から終日着地を予測する曲線を作る
+    const forecastContext =
+      mode === 'FORECAST'
+        ? await this.loadForecastContext(advertiserId, today)
+        : null;
+
+    // 配信時間帯（dayparting）外の広告セットは消化が止まっているため判定しない
+    const outOfWindow = await this.adGroupsOutOfWindow(
+      activeAds.map((ad) => String(ad.adgroup_id)),
+    );
+
     let paused = 0;
     let reduced = 0;
     let continued = 0;
@@ -344,7 +432,8 @@ export class IntradayOptimizationService {
           cvData,
           targetCPA,
           allowableCPA,
-          accessToken,
+          forecastContext,
+          !outOfWindow.has(String(ad.adgroup_id)),
         );
 
         checkResults.push(result);
@@ -390,26 +479,21 @@ export class IntradayOptimizationService {
   }
 
   /**
-   * クリエイティブ名（旧スマプラ等）かどうかを判定
-   * 拡張子（.mp4, .jpg等）を含む広告名はクリエイティブ名とみなす
+   * 現在、配信時間帯（AdGroup.schedule.dayparting）の外にある広告セットのTikTok ID
    */
-  private isCreativeName(adName: string | null | undefined): boolean {
-    if (!adName) return false;
-
-    const videoExtensions = ['.mp4', '.MP4', '.mov', '.MOV', '.avi', '.AVI'];
-    const imageExtensions = [
-      '.jpg',
-      '.JPG',
-      '.jpeg',
-      '.JPEG',
-      '.png',
-      '.PNG',
-      '.gif',
-      '.GIF',
-    ];
-    const allExtensions = [...videoExtensions, ...imageExtensions];
-
-    return allExtensions.some((ext) => adName.includes(ext));
+  private async adGroupsOutOfWindow(
+    adgroupIds: string[],
+  ): Promise<Set<string>> {
+    const adGroups = await this.prisma.adGroup.findMany({
+      where: { tiktokId: { in: adgroupIds } },
+      select: { tiktokId: true, schedule: true },
+    });
+    const now = new Date();
+    return new Set(
+      adGroups
+        .filter((adGroup) => !isDeliveringAt(adGroup.schedule, now))
+        .map((adGroup) => adGroup.tiktokId),
+    );
   }
 
   /**
@@ -468,13 +552,10 @@ export class IntradayOptimizationService {
 
       // 7. 正しい広告名フォーマット（日付/制作者/CR名/LP名）の広告のみを対象にする
       // クリエイティブ名やフォーマット不正の広告（旧スマプラ等）は除外
-      const targetAds = allActiveAds.filter((ad: any) => {
-        // クリエイティブ名は除外
-        if (this.isCreativeName(ad.ad_name)) return false;
-        // 正しいフォーマットのみ対象
-        const validation = validateAdNameFormat(ad.ad_name);
-        return validation.isValid;
-      });
+      // 対象外の広告は GET /api/ad-naming/non-conforming で確認・名前を修正できる
+      const targetAds = allActiveAds.filter((ad: any) =>
+        isAutomationTarget(ad.ad_name),
+      );
       const excludedCount = allActiveAds.length - targetAds.length;
 
       this.logger.log(
@@ -633,7 +714,7 @@ export class IntradayOptimizationService {
 
       try {
         // 当日CV数
-        const todayCV = await this.googleSheetsService.getCVCount(
+        const todayCV = await this.conversionLedger.getCVCount(
           appeal.name,
           appeal.cvSpreadsheetUrl,
           registrationPath,
@@ -642,7 +723,7 @@ export class IntradayOptimizationService {
         );
 
         // 過去7日間CV数
-        const last7DaysCV = await this.googleSheetsService.getCVCount(
+        const last7DaysCV = await this.conversionLedger.getCVCount(
           appeal.name,
           appeal.cvSpreadsheetUrl,
           registrationPath,
@@ -668,6 +749,8 @@ export class IntradayOptimizationService {
 
   /**
    * 広告を評価して判定
+   * 予測モードでは終日着地CPAが許容CPAを超える確率で判定し、
+   * この時刻の推移が足りない場合は当日CPAで判定する
    */
   private async evaluateAd(
     ad: any,
@@ -679,7 +762,8 @@ export class IntradayOptimizationService {
     cvData: Map<string, { todayCV: number; last7DaysCV: number }>,
     targetCPA: number,
     allowableCPA: number,
-    accessToken: string,
+    forecastContext: ForecastContext | null,
+    inDeliveryWindow = true,
   ): Promise<IntradayCheckResult> {
     const adId = ad.ad_id || ad.smart_plus_ad_id;
     const adName = ad.ad_name;
@@ -701,6 +785,7 @@ export class IntradayOptimizationService {
         last7DaysCPA: null,
         todayCV: 0,
         last7DaysCV: 0,
+        forecast: null,
       };
     }
 
@@ -721,39 +806,57 @@ export class IntradayOptimizationService {
     // CPA計算
     const todayCPA = todayCV > 0 ? todaySpend / todayCV : null;
 
+    if (!inDeliveryWindow) {
+      return {
+        adId,
+        adName,
+        adgroupId,
+        campaignId,
+        decision: 'CONTINUE',
+        reason: '配信時間帯（dayparting）外のため判定しない',
+        todaySpend,
+        todayCPA,
+        last7DaysCPA: null,
+        todayCV,
+        last7DaysCV,
+        forecast: null,
+      };
+    }
+
     // 過去7日間平均CPA = 過去7日間消化額 ÷ 過去7日間CV数
     const last7DaysSpend = await this.getLast7DaysSpend(adId);
     const last7DaysCPA = last7DaysCV > 0 ? last7DaysSpend / last7DaysCV : null;
 
-    // 判定ロジック
+    const forecast = forecastContext
+      ? forecastEndOfDay(forecastContext.curve, {
+          hour: forecastContext.hour,
+          todaySpend,
+          todayCV,
+          history: { spend: last7DaysSpend, cv: last7DaysCV, days: 7 },
+          allowableCPA,
+        })
+      : null;
+
     let decision: IntradayDecision;
     let reason: string;
-
-    if (todayCV === 0) {
-      // CV未発生時の判定
-      if (last7DaysCPA === null || last7DaysCPA === 0) {
-        // 過去7日間もCV=0 → 継続
-        decision = 'CONTINUE';
-        reason = '当日CV=0、過去7日間もCV=0のため継続（元々CVが少ない広告）';
-      } else {
-        // 過去7日間はCVあり → 停止
-        decision = 'PAUSE';
-        reason = `当日CV=0、過去7日間平均CPA=¥${last7DaysCPA.toFixed(0)} → CVR悪化の兆候のため停止`;
-      }
-    } else if (todayCPA !== null) {
-      if (todayCPA <= targetCPA) {
-        decision = 'CONTINUE';
-        reason = `当日CPA=¥${todayCPA.toFixed(0)} ≤ 目標CPA=¥${targetCPA} のため継続`;
-      } else if (todayCPA <= allowableCPA) {
-        decision = 'REDUCE_BUDGET';
-        reason = `当日CPA=¥${todayCPA.toFixed(0)} > 目標CPA=¥${targetCPA}、≤ 許容CPA=¥${allowableCPA} のため予算50%削減`;
-      } else {
-        decision = 'PAUSE';
-        reason = `当日CPA=¥${todayCPA.toFixed(0)} > 許容CPA=¥${allowableCPA} のため停止`;
-      }
+    if (forecastContext && forecast) {
+      decision = decideByForecast(forecast, forecastContext.thresholds);
+      reason = this.describeForecastDecision(
+        decision,
+        forecast,
+        forecastContext.thresholds,
+      );
     } else {
-      decision = 'CONTINUE';
-      reason = '判定データ不足のため継続';
+      ({ decision, reason } = this.decideByTodayCPA(
+        todayCV,
+        todayCPA,
+        last7DaysCPA,
+        targetCPA,
+        allowableCPA,
+      ));
+      if (forecastContext) {
+        reason = `着地予測に必要な推移が不足（${forecastContext.hour}時台）のため当日CPAで判定: ${reason}`;
+      }
     }
 
     return {
@@ -768,6 +871,147 @@ export class IntradayOptimizationService {
       last7DaysCPA,
       todayCV,
       last7DaysCV,
+      forecast,
+    };
+  }
+
+  /**
+   * 当日CPAでの判定（当日CV=0の場合は過去7日間平均CPAで判定）
+   */
+  private decideByTodayCPA(
+    todayCV: number,
+    todayCPA: number | null,
+    last7DaysCPA: number | null,
+    targetCPA: number,
+    allowableCPA: number,
+  ): { decision: IntradayDecision; reason: string } {
+    if (todayCV === 0) {
+      // CV未発生時の判定
+      if (last7DaysCPA === null || last7DaysCPA === 0) {
+        // 過去7日間もCV=0 → 継続
+        return {
+          decision: 'CONTINUE',
+          reason: '当日CV=0、過去7日間もCV=0のため継続（元々CVが少ない広告）',
+        };
+      }
+      // 過去7日間はCVあり → 停止
+      return {
+        decision: 'PAUSE',
+        reason: `当日CV=0、過去7日間平均CPA=¥${last7DaysCPA.toFixed(0)} → CVR悪化の兆候のため停止`,
+      };
+    }
+    if (todayCPA === null) {
+      return { decision: 'CONTINUE', reason: '判定データ不足のため継続' };
+    }
+    if (todayCPA <= targetCPA) {
+      return {
+        decision: 'CONTINUE',
+        reason: `当日CPA=¥${todayCPA.toFixed(0)} ≤ 目標CPA=¥${targetCPA} のため継続`,
+      };
+    }
+    if (todayCPA <= allowableCPA) {
+      return {
+        decision: 'REDUCE_BUDGET',
+        reason: `当日CPA=¥${todayCPA.toFixed(0)} > 目標CPA=¥${targetCPA}、≤ 許容CPA=¥${allowableCPA} のため予算50%削減`,
+      };
+    }
+    return {
+      decision: 'PAUSE',
+      reason: `当日CPA=¥${todayCPA.toFixed(0)} > 許容CPA=¥${allowableCPA} のため停止`,
+    };
+  }
+
+  /**
+   * 予測モードの判定理由（使った予測の要約を含める）
+   */
+  private describeForecastDecision(
+    decision: IntradayDecision,
+    forecast: EndOfDayForecast,
+    thresholds: ForecastThresholds,
+  ): string {
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    const probability = `終日CPAが許容CPA=¥${forecast.allowableCPA}を超える確率${percent(forecast.exceedProbability)}`;
+    const judgement =
+      decision === 'PAUSE'
+        ? `≥ ${percent(thresholds.pauseConfidence)} のため停止`
+        : decision === 'REDUCE_BUDGET'
+          ? `≥ ${percent(thresholds.reduceConfidence)} のため予算50%削減`
+          : `< ${percent(thresholds.reduceConfidence)} のため継続`;
+    return `${probability} ${judgement}（${describeForecast(forecast)}）`;
+  }
+
+  /**
+   * 予測モードの判定材料を作る
+   * 過去 PACING_LOOKBACK_DAYS 日の毎時スナップショット（予算調整V2が記録）と
+   * Metric の日次消化額から、広告アカウント全体のペーシング曲線を学習する
+   */
+  private async loadForecastContext(
+    advertiserId: string,
+    today: Date,
+  ): Promise<ForecastContext> {
+    const from = new Date(today);
+    from.setUTCDate(from.getUTCDate() - PACING_LOOKBACK_DAYS);
+
+    // today / from はJST日付をUTC 00:00で表しているので、実時刻はそこから9時間前
+    const snapshots = await this.prisma.hourlyOptimizationSnapshot.findMany({
+      where: {
+        advertiserId,
+        executionTime: {
+          gte: new Date(from.getTime() - JST_OFFSET_MS),
+          lt: new Date(today.getTime() - JST_OFFSET_MS),
+        },
+      },
+      orderBy: { executionTime: 'asc' },
+      select: {
+        adId: true,
+        executionTime: true,
+        todaySpend: true,
+        todayCVCount: true,
+      },
+    });
+
+    const ads = await this.prisma.ad.findMany({
+      where: { tiktokId: { in: [...new Set(snapshots.map((s) => s.adId))] } },
+      select: { id: true, tiktokId: true },
+    });
+    const tiktokIdOf = new Map(ads.map((ad) => [ad.id, ad.tiktokId]));
+    const metrics = await this.prisma.metric.findMany({
+      where: {
+        entityType: 'AD',
+        adId: { in: ads.map((ad) => ad.id) },
+        statDate: { gte: from, lt: today },
+      },
+      select: { adId: true, statDate: true, spend: true },
+    });
+
+    // Metric.statDate は JST日付を UTC 00:00 で保存している
+    const dailySpend = new Map<string, number>();
+    for (const metric of metrics) {
+      if (!metric.adId) continue;
+      const key = `${tiktokIdOf.get(metric.adId)}:${this.formatDateStr(metric.statDate)}`;
+      dailySpend.set(key, (dailySpend.get(key) ?? 0) + metric.spend);
+    }
+
+    const curve = buildPacingCurve(
+      toPacingDays(
+        snapshots.map((snap) => ({
+          adId: snap.adId,
+          date: toJstDate(snap.executionTime),
+          hour: this.jstHour(snap.executionTime),
+          todaySpend: snap.todaySpend,
+          todayCV: snap.todayCVCount,
+        })),
+        dailySpend,
+      ),
+    );
+    this.logger.log(
+      `Pacing curve for ${advertiserId}: ${curve.days} ad-days, ${curve.points.length} hours`,
+    );
+
+    return {
+      curve,
+      hour: this.jstHour(new Date()),
+      thresholds: this.getForecastThresholds(),
     };
   }
 
@@ -824,6 +1068,12 @@ export class IntradayOptimizationService {
         'DISABLE',
       );
 
+      const pauseReason = result.forecast
+        ? 'FORECAST_CPA_EXCEEDED'
+        : result.todayCPA === null
+          ? 'NO_CV_WITH_PREVIOUS_CV'
+          : 'CPA_EXCEEDED';
+
       // IntradayPauseLogに記録
       // 注: yesterdayCPAフィールドには過去7日間平均CPAを保存（後でDBフィールド名を更新予定）
       await withDatabaseRetry(
@@ -834,30 +1084,30 @@ export class IntradayOptimizationService {
               advertiserId,
               pauseDate: today,
               pauseTime: new Date(),
-              pauseReason:
-                result.todayCPA === null
-                  ? 'NO_CV_WITH_PREVIOUS_CV'
-                  : 'CPA_EXCEEDED',
+              pauseReason,
               todaySpend: result.todaySpend,
               todayCPA: result.todayCPA,
               yesterdayCPA: result.last7DaysCPA, // 過去7日間平均CPA
               targetCPA: 0, // 後で取得
               allowableCPA: 0, // 後で取得
+              forecast: this.toForecastJson(result.forecast),
             },
           }),
         { logger: this.logger, context: 'IntradayPauseLog create' },
       );
 
-      // ChangeLogに記録
-      await this.logChange(
-        'AD',
-        result.adId,
-        'INTRADAY_PAUSE',
-        'INTRADAY_OPTIMIZATION',
-        null,
-        { status: 'DISABLE' },
-        result.reason,
-      );
+      // 監査ログに記録
+      await this.budgetAudit.record({
+        advertiserId,
+        entityType: 'AD',
+        entityId: result.adId,
+        action: 'INTRADAY_PAUSE',
+        source: 'INTRADAY_OPTIMIZATION',
+        before: { status: 'ENABLE' },
+        after: { status: 'DISABLE' },
+        ruleId: pauseReason,
+        reason: result.reason,
+      });
 
       // 通知作成
       await this.createPauseNotification(result, advertiserId);
@@ -946,21 +1196,24 @@ export class IntradayOptimizationService {
               reducedBudget,
               reductionRate: this.BUDGET_REDUCTION_RATE,
               isCBO,
+              forecast: this.toForecastJson(result.forecast),
             },
           }),
         { logger: this.logger, context: 'IntradayBudgetReductionLog create' },
       );
 
-      // ChangeLogに記録
-      await this.logChange(
-        isCBO ? 'CAMPAIGN' : 'ADGROUP',
+      // 監査ログに記録
+      await this.budgetAudit.record({
+        advertiserId,
+        entityType: isCBO ? 'CAMPAIGN' : 'ADGROUP',
         entityId,
-        'INTRADAY_BUDGET_REDUCE',
-        'INTRADAY_OPTIMIZATION',
-        { budget: originalBudget },
-        { budget: reducedBudget },
-        result.reason,
-      );
+        action: 'INTRADAY_BUDGET_REDUCE',
+        source: 'INTRADAY_OPTIMIZATION',
+        before: { budget: originalBudget },
+        after: { budget: reducedBudget },
+        ruleId: result.forecast ? 'FORECAST_CPA_AT_RISK' : 'CPA_OVER_TARGET',
+        reason: result.reason,
+      });
 
       // 通知作成
       await this.createBudgetReduceNotification(
@@ -985,217 +1238,243 @@ export class IntradayOptimizationService {
    * 配信再開の実行
    * GitHub Actionsのスケジュール遅延で日付が変わる可能性があるため、
    * 当日と前日の停止ログを対象にする
+   * @param run ジョブキューから実行する場合の実行コンテキスト（広告アカウント単位でリトライ・結果記録）
    */
-  async executeIntradayResume() {
+  async executeIntradayResume(
+    run?: JobRunContext,
+  ): Promise<IntradayRestoreResult> {
     const today = this.getTodayJST();
     const yesterday = new Date(today);
     yesterday.setUTCDate(yesterday.getUTCDate() - 1);
 
     // 当日または前日に停止&未再開の広告を取得
     // （GitHub Actionsの遅延で日付が変わっても対応可能）
-    const pauseLogs = await this.prisma.intradayPauseLog.findMany({
+    const allPauseLogs = await this.prisma.intradayPauseLog.findMany({
       where: {
         pauseDate: { in: [today, yesterday] },
         resumed: false,
       },
     });
 
+    // 自動化の一時停止中のアカウントは再開しない（停止中は広告に触れない）
+    const gate = await this.automationControl.gate('INTRADAY_PAUSE', [
+      ...new Set(allPauseLogs.map((log) => log.advertiserId)),
+    ]);
+    const pauseLogs = allPauseLogs.filter((log) =>
+      gate.allowed.includes(log.advertiserId),
+    );
+
     if (pauseLogs.length === 0) {
       this.logger.log('No ads to resume');
-      return;
+      return { processed: 0, failed: 0, automationSkips: gate.skipped };
     }
 
     this.logger.log(`Found ${pauseLogs.length} ads to resume`);
 
     let resumed = 0;
-    let failed = 0;
-
-    for (const log of pauseLogs) {
-      try {
+    // 広告アカウント別の失敗件数（リトライした場合は最後の試行の件数）
+    const failedByAdvertiser = new Map<string, number>();
+
+    await eachAdvertiser(
+      run,
+      groupByAdvertiser(pauseLogs),
+      (group) => group.advertiserId,
+      async ({ advertiserId, items }) => {
         // OAuth Token取得
-        const token = await this.prisma.oAuthToken.findUnique({
-          where: { advertiserId: log.advertiserId },
-        });
+        const token = await this.tokenVault.findByAdvertiserId(advertiserId);
 
         if (!token) {
-          this.logger.warn(`No token for advertiser ${log.advertiserId}`);
-          continue;
+          this.logger.warn(`No token for advertiser ${advertiserId}`);
+          return;
         }
 
-        // 広告を再開
-        await this.tiktokService.updateAdStatus(
-          log.advertiserId,
-          token.accessToken,
-          [log.adId],
-          'ENABLE',
-        );
+        let failed = 0;
+        // 前回の試行で再開済みの広告は除く
+        for (const log of items.filter((item) => !item.resumed)) {
+          try {
+            // 広告を再開
+            await this.tiktokService.updateAdStatus(
+              log.advertiserId,
+              token.accessToken,
+              [log.adId],
+              'ENABLE',
+            );
 
-        // ログ更新
-        await this.prisma.intradayPauseLog.update({
-          where: { id: log.id },
-          data: {
-            resumed: true,
-            resumeTime: new Date(),
-          },
-        });
-
-        // ChangeLog記録
-        await this.logChange(
-          'AD',
-          log.adId,
-          'INTRADAY_RESUME',
-          'INTRADAY_OPTIMIZATION',
-          { status: 'DISABLE' },
-          { status: 'ENABLE' },
-          '23:59自動再開',
-        );
+            // ログ更新
+            await this.prisma.intradayPauseLog.update({
+              where: { id: log.id },
+              data: {
+                resumed: true,
+                resumeTime: new Date(),
+              },
+            });
+            log.resumed = true;
+
+            // 監査ログ記録
+            await this.budgetAudit.record({
+              advertiserId: log.advertiserId,
+              entityType: 'AD',
+              entityId: log.adId,
+              action: 'INTRADAY_RESUME',
+              source: 'INTRADAY_OPTIMIZATION',
+              before: { status: 'DISABLE' },
+              after: { status: 'ENABLE' },
+              reason: '23:59自動再開',
+            });
+
+            resumed++;
+            this.logger.log(`Resumed ad ${log.adId}`);
+          } catch (error) {
+            this.logger.error(
+              `[IR-02] Failed to resume ad ${log.adId}: ${error.message}`,
+            );
+            failed++;
+          }
+        }
 
-        resumed++;
-        this.logger.log(`Resumed ad ${log.adId}`);
-      } catch (error) {
-        this.logger.error(
-          `[IR-02] Failed to resume ad ${log.adId}: ${error.message}`,
-        );
-        failed++;
-      }
-    }
+        failedByAdvertiser.set(advertiserId, failed);
+        if (failed > 0) {
+          throw new Error(`${failed} ads failed to resume`);
+        }
+      },
+    );
 
+    const failed = [...failedByAdvertiser.values()].reduce((a, b) => a + b, 0);
     this.logger.log(
       `Intraday resume completed. Resumed: ${resumed}, Failed: ${failed}`,
     );
+    return { processed: resumed, failed, automationSkips: gate.skipped };
   }
 
   /**
    * 予算復元の実行
    * GitHub Actionsのスケジュール遅延で日付が変わる可能性があるため、
    * 当日と前日の削減ログを対象にする
+   * @param run ジョブキューから実行する場合の実行コンテキスト（広告アカウント単位でリトライ・結果記録）
    */
-  async executeIntradayBudgetRestore() {
+  async executeIntradayBudgetRestore(
+    run?: JobRunContext,
+  ): Promise<IntradayRestoreResult> {
     const today = this.getTodayJST();
     const yesterday = new Date(today);
     yesterday.setUTCDate(yesterday.getUTCDate() - 1);
 
     // 当日または前日に削減&未復元を取得
     // （GitHub Actionsの遅延で日付が変わっても対応可能）
-    const reductionLogs = await this.prisma.intradayBudgetReductionLog.findMany(
-      {
+    const allReductionLogs =
+      await this.prisma.intradayBudgetReductionLog.findMany({
         where: {
           reductionDate: { in: [today, yesterday] },
           restored: false,
         },
-      },
+      });
+
+    // 自動化の一時停止中のアカウントは復元しない
+    const gate = await this.automationControl.gate('INTRADAY_BUDGET_RESTORE', [
+      ...new Set(allReductionLogs.map((log) => log.advertiserId)),
+    ]);
+    const reductionLogs = allReductionLogs.filter((log) =>
+      gate.allowed.includes(log.advertiserId),
     );
 
     if (reductionLogs.length === 0) {
       this.logger.log('No budgets to restore');
-      return;
+      return { processed: 0, failed: 0, automationSkips: gate.skipped };
     }
 
     this.logger.log(`Found ${reductionLogs.length} budgets to restore`);
 
     let restored = 0;
-    let failed = 0;
-
-    for (const log of reductionLogs) {
-      try {
+    // 広告アカウント別の失敗件数（リトライした場合は最後の試行の件数）
+    const failedByAdvertiser = new Map<string, number>();
+
+    await eachAdvertiser(
+      run,
+      groupByAdvertiser(reductionLogs),
+      (group) => group.advertiserId,
+      async ({ advertiserId, items }) => {
         // OAuth Token取得
-        const token = await this.prisma.oAuthToken.findUnique({
-          where: { advertiserId: log.advertiserId },
-        });
+        const token = await this.tokenVault.findByAdvertiserId(advertiserId);
 
         if (!token) {
-          this.logger.warn(`No token for advertiser ${log.advertiserId}`);
-          continue;
+          this.logger.warn(`No token for advertiser ${advertiserId}`);
+          return;
         }
 
-        // 予算を復元
-        if (log.isCBO && log.campaignId) {
-          await this.tiktokService.updateCampaign(
-            log.advertiserId,
-            token.accessToken,
-            log.campaignId,
-            {
-              budget: log.originalBudget,
-            },
-          );
-        } else {
-          await this.tiktokService.updateAdGroup(
-            log.advertiserId,
-            token.accessToken,
-            log.adgroupId,
-            {
-              budget: log.originalBudget,
-            },
-          );
+        let failed = 0;
+        // 前回の試行で復元済みの予算は除く
+        for (const log of items.filter((item) => !item.restored)) {
+          try {
+            // 予算を復元
+            if (log.isCBO && log.campaignId) {
+              await this.tiktokService.updateCampaign(
+                log.advertiserId,
+                token.accessToken,
+                log.campaignId,
+                {
+                  budget: log.originalBudget,
+                },
+              );
+            } else {
+              await this.tiktokService.updateAdGroup(
+                log.advertiserId,
+                token.accessToken,
+                log.adgroupId,
+                {
+                  budget: log.originalBudget,
+                },
+              );
+            }
+
+            // ログ更新
+            await this.prisma.intradayBudgetReductionLog.update({
+              where: { id: log.id },
+              data: {
+                restored: true,
+                restoreTime: new Date(),
+              },
+            });
+            log.restored = true;
+
+            // 監査ログ記録
+            const entityType = log.isCBO ? 'CAMPAIGN' : 'ADGROUP';
+            const entityId = log.isCBO ? log.campaignId : log.adgroupId;
+            if (!entityId) continue;
+            await this.budgetAudit.record({
+              advertiserId: log.advertiserId,
+              entityType,
+              entityId,
+              action: 'INTRADAY_BUDGET_RESTORE',
+              source: 'INTRADAY_OPTIMIZATION',
+              before: { budget: log.reducedBudget },
+              after: { budget: log.originalBudget },
+              reason: '翌0:00自動復元',
+            });
+
+            restored++;
+            this.logger.log(
+              `Restored budget for ${entityType} ${entityId}: ¥${log.reducedBudget} → ¥${log.originalBudget}`,
+            );
+          } catch (error) {
+            this.logger.error(
+              `[IB-02] Failed to restore budget for ${log.adgroupId}: ${error.message}`,
+            );
+            failed++;
+          }
         }
 
-        // ログ更新
-        await this.prisma.intradayBudgetReductionLog.update({
-          where: { id: log.id },
-          data: {
-            restored: true,
-            restoreTime: new Date(),
-          },
-        });
-
-        // ChangeLog記録
-        const entityType = log.isCBO ? 'CAMPAIGN' : 'ADGROUP';
-        const entityId = log.isCBO ? log.campaignId : log.adgroupId;
-        if (!entityId) continue;
-        await this.logChange(
-          entityType,
-          entityId,
-          'INTRADAY_BUDGET_RESTORE',
-          'INTRADAY_OPTIMIZATION',
-          { budget: log.reducedBudget },
-          { budget: log.originalBudget },
-          '翌0:00自動復元',
-        );
-
-        restored++;
-        this.logger.log(
-          `Restored budget for ${entityType} ${entityId}: ¥${log.reducedBudget} → ¥${log.originalBudget}`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `[IB-02] Failed to restore budget for ${log.adgroupId}: ${error.message}`,
-        );
-        failed++;
-      }
-    }
+        failedByAdvertiser.set(advertiserId, failed);
+        if (failed > 0) {
+          throw new Error(`${failed} budgets failed to restore`);
+        }
+      },
+    );
 
+    const failed = [...failedByAdvertiser.values()].reduce((a, b) => a + b, 0);
     this.logger.log(
       `Intraday budget restore completed. Restored: ${restored}, Failed: ${failed}`,
     );
-  }
-
-  /**
-   * ChangeLog記録
-   */
-  private async logChange(
-    entityType: string,
-    entityId: string,
-    action: string,
-    source: string,
-    beforeData: any,
-    afterData: any,
-    reason: string,
-  ) {
-    await withDatabaseRetry(
-      () =>
-        this.prisma.changeLog.create({
-          data: {
-            entityType,
-            entityId,
-            action,
-            source,
-            beforeData,
-            afterData,
-            reason,
-          },
-        }),
-      { logger: this.logger, context: 'ChangeLog create' },
-    );
+    return { processed: restored, failed, automationSkips: gate.skipped };
   }
 
   /**
@@ -1211,13 +1490,14 @@ export class IntradayOptimizationService {
 
     if (!advertiser) return;
 
-    const message =
-      result.todayCPA !== null
+    const message = result.forecast
+      ? `広告「${result.adName}」を一時停止しました\n${result.reason}\n23:59に自動再開予定`
+      : result.todayCPA !== null
         ? `広告「${result.adName}」を一時停止しました\n当日CPA: ¥${result.todayCPA.toFixed(0)}（許容CPAを超過）\n23:59に自動再開予定`
         : `広告「${result.adName}」を一時停止しました\n当日CV: 0件（過去7日間平均CPA: ¥${result.last7DaysCPA?.toFixed(0) || '-'} → CVR悪化の兆候）\n23:59に自動再開予定`;
 
     await this.notificationService.createNotification({
-      type: 'INTRADAY_CPA_PAUSE' as any,
+      type: NotificationType.INTRADAY_CPA_PAUSE,
       severity: NotificationSeverity.WARNING,
       advertiserId: advertiser.id,
       entityType: EntityType.AD,
@@ -1229,6 +1509,7 @@ export class IntradayOptimizationService {
         todayCPA: result.todayCPA,
         last7DaysCPA: result.last7DaysCPA,
         todayCV: result.todayCV,
+        forecast: result.forecast,
       },
     });
   }
@@ -1248,10 +1529,13 @@ export class IntradayOptimizationService {
 
     if (!advertiser) return;
 
-    const message = `広告「${result.adName}」の予算を50%削減しました\n当日CPA: ¥${result.todayCPA?.toFixed(0) || '-'}\n現在予算: ¥${originalBudget.toLocaleString()} → ¥${reducedBudget.toLocaleString()}\n翌0:00に自動復元予定`;
+    const basis = result.forecast
+      ? result.reason
+      : `当日CPA: ¥${result.todayCPA?.toFixed(0) || '-'}`;
+    const message = `広告「${result.adName}」の予算を50%削減しました\n${basis}\n現在予算: ¥${originalBudget.toLocaleString()} → ¥${reducedBudget.toLocaleString()}\n翌0:00に自動復元予定`;
 
     await this.notificationService.createNotification({
-      type: 'INTRADAY_BUDGET_REDUCED' as any,
+      type: NotificationType.INTRADAY_BUDGET_REDUCED,
       severity: NotificationSeverity.INFO,
       advertiserId: advertiser.id,
       entityType: EntityType.ADGROUP,
@@ -1263,6 +1547,7 @@ export class IntradayOptimizationService {
         todayCPA: result.todayCPA,
         originalBudget,
         reducedBudget,
+        forecast: result.forecast,
       },
     });
   }
@@ -1288,6 +1573,52 @@ export class IntradayOptimizationService {
     return fromEnv;
   }
 
+  /**
+   * 日中CPAチェックの判定方式（INTRADAY_DECISION_MODE、既定は当日CPAで判定）
+   */
+  getDecisionMode(): IntradayDecisionMode {
+    const configured = this.configService.get<string>('INTRADAY_DECISION_MODE');
+    return isIntradayDecisionMode(configured) ? configured : 'RAW';
+  }
+
+  /**
+   * 予測モードの停止・予算削減の閾値（許容CPA超過の確率）
+   */
+  private getForecastThresholds(): ForecastThresholds {
+    const confidence = (key: string, fallback: number) => {
+      const configured = Number(this.configService.get<string>(key));
+      return configured > 0 && configured <= 1 ? configured : fallback;
+    };
+    return {
+      pauseConfidence: confidence(
+        'INTRADAY_FORECAST_PAUSE_CONFIDENCE',
+        DEFAULT_PAUSE_CONFIDENCE,
+      ),
+      reduceConfidence: confidence(
+        'INTRADAY_FORECAST_REDUCE_CONFIDENCE',
+        DEFAULT_REDUCE_CONFIDENCE,
+      ),
+    };
+  }
+
+  /**
+   * 停止・予算削減ログに残す予測（当日CPAで判定した場合は未設定）
+   */
+  private toForecastJson(
+    forecast: EndOfDayForecast | null,
+  ): Prisma.InputJsonValue | undefined {
+    return forecast
+      ? (forecast as unknown as Prisma.InputJsonValue)
+      : undefined;
+  }
+
+  /**
+   * JSTの時（0〜23）
+   */
+  private jstHour(date: Date): number {
+    return new Date(date.getTime() + JST_OFFSET_MS).getUTCHours();
+  }
+
   /**
    * 今日の日付（JST、時刻00:00:00）を取得
    */
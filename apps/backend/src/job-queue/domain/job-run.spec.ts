@@ -0,0 +1,87 @@
+import {
+  failedAdvertiserIds,
+  groupByAdvertiser,
+  isJobName,
+  isStaleRun,
+  retryDelayMs,
+  selectTargets,
+  summarizeRunStatus,
+} from './job-run';
+
+describe('isJobName', () => {
+  it('定義済みのジョブ名だけを受け付ける', () => {
+    expect(isJobName('budget-optimization-v2')).toBe(true);
+    expect(isJobName('unknown-job')).toBe(false);
+    expect(isJobName(undefined)).toBe(false);
+  });
+});
+
+describe('summarizeRunStatus', () => {
+  it('広告アカウントの成否からステータスを決める', () => {
+    const ok = { status: 'SUCCEEDED' as const };
+    const ng = { status: 'FAILED' as const };
+    expect(summarizeRunStatus([], null)).toBe('SUCCEEDED');
+    expect(summarizeRunStatus([ok, ok], null)).toBe('SUCCEEDED');
+    expect(summarizeRunStatus([ok, ng], null)).toBe('PARTIAL');
+    expect(summarizeRunStatus([ng], null)).toBe('FAILED');
+    expect(summarizeRunStatus([ok], 'DB down')).toBe('FAILED');
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('指数バックオフで上限30秒', () => {
+    expect(retryDelayMs(1)).toBe(1000);
+    expect(retryDelayMs(2)).toBe(2000);
+    expect(retryDelayMs(10)).toBe(30_000);
+  });
+});
+
+describe('isStaleRun', () => {
+  it('ロックの保持時間を過ぎた実行だけを残骸とみなす', () => {
+    const startedAt = new Date('2026-03-01T00:00:00Z');
+    // intraday-resume のロック保持は10分
+    expect(
+      isStaleRun(
+        'intraday-resume',
+        startedAt,
+        new Date('2026-03-01T00:09:59Z'),
+      ),
+    ).toBe(false);
+    expect(
+      isStaleRun(
+        'intraday-resume',
+        startedAt,
+        new Date('2026-03-01T00:10:00Z'),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe('failedAdvertiserIds / selectTargets', () => {
+  it('失敗した広告アカウントだけを再実行対象にする', () => {
+    const ids = failedAdvertiserIds([
+      { advertiserId: 'a', status: 'SUCCEEDED' },
+      { advertiserId: 'b', status: 'FAILED' },
+      { advertiserId: 'b', status: 'FAILED' },
+    ]);
+    expect(ids).toEqual(['b']);
+
+    const items = [{ id: 'a' }, { id: 'b' }];
+    expect(selectTargets(items, (i) => i.id, { advertiserIds: ids })).toEqual([
+      { id: 'b' },
+    ]);
+    expect(selectTargets(items, (i) => i.id, null)).toEqual(items);
+  });
+});
+
+describe('groupByAdvertiser', () => {
+  it('広告アカウントごとにまとめ、出現順を保つ', () => {
+    const groups = groupByAdvertiser([
+      { advertiserId: 'b', id: 1 },
+      { advertiserId: 'a', id: 2 },
+      { advertiserId: 'b', id: 3 },
+    ]);
+    expect(groups.map((g) => g.advertiserId)).toEqual(['b', 'a']);
+    expect(groups[0].items.map((i) => i.id)).toEqual([1, 3]);
+  });
+});
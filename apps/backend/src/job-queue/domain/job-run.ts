@@ -0,0 +1,189 @@
+// ============================================================================
+// ジョブキュー - ジョブ定義・ロック・実行ステータスの判定（純粋関数）
+// ============================================================================
+
+/** 定期実行ジョブの定義（ロック保持時間・広告アカウント単位のリトライ回数） */
+export const JOB_DEFINITIONS = {
+  'daily-entity-sync': {
+    label: '日次エンティティ同期',
+    lockTtlMs: 30 * 60 * 1000,
+    maxAttempts: 2,
+  },
+  'daily-report-fetch': {
+    label: '日次レポート取得',
+    lockTtlMs: 30 * 60 * 1000,
+    maxAttempts: 2,
+  },
+  // 増額・停止は二重適用を避けるため自動リトライしない（失敗分は手動で再実行）
+  'budget-optimization-v2': {
+    label: '毎時予算調整V2',
+    lockTtlMs: 30 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'budget-reset-midnight': {
+    label: '0時の日予算リセット',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 2,
+  },
+  // 予算削減は二重適用すると半額の半額になるため自動リトライしない
+  'intraday-cpa-check': {
+    label: '日中CPAチェック',
+    lockTtlMs: 30 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'intraday-resume': {
+    label: '日中停止広告の再開',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 2,
+  },
+  'intraday-budget-restore': {
+    label: '日中削減予算の復元',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 2,
+  },
+  'daily-ad-count-recording': {
+    label: '日次出稿数・停止数記録',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'oauth-token-refresh': {
+    label: 'OAuthトークンのリフレッシュ',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'conversion-ledger-sync': {
+    label: 'CV台帳の同期',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'api-log-cleanup': {
+    label: 'API呼び出しログの削除',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'experiment-evaluation': {
+    label: '実施中の実験の評価',
+    lockTtlMs: 10 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  // 動画のダウンロード・アップロードを伴うため長めにロックする。二重出稿を避けるため自動リトライしない
+  'cross-deploy-rollout': {
+    label: '承認済み横展開の実行',
+    lockTtlMs: 30 * 60 * 1000,
+    maxAttempts: 1,
+  },
+  'dayparting-apply': {
+    label: '配信時間帯の自動適用',
+    lockTtlMs: 20 * 60 * 1000,
+    maxAttempts: 2,
+  },
+  // 検知して修復キューに積むだけなので、取得に失敗したアカウントは翌日の実行に任せる
+  'metric-integrity-check': {
+    label: 'メトリクスの整合性チェック',
+    lockTtlMs: 20 * 60 * 1000,
+    maxAttempts: 1,
+  },
+} as const satisfies Record<
+  string,
+  { label: string; lockTtlMs: number; maxAttempts: number }
+>;
+
+export type JobName = keyof typeof JOB_DEFINITIONS;
+
+export type JobRunStatus =
+  | 'QUEUED'
+  | 'RUNNING'
+  | 'SUCCEEDED'
+  | 'PARTIAL'
+  | 'FAILED'
+  | 'SKIPPED';
+
+/** CRON: スケジューラ / API: 手動・GitHub Actions / RETRY: 失敗分の再実行 */
+export type JobTrigger = 'CRON' | 'API' | 'RETRY';
+
+export type AdvertiserResultStatus = 'SUCCEEDED' | 'FAILED';
+
+/** JobRun.params（アクセストークン等の秘匿情報は入れない） */
+export interface JobParams {
+  /** 指定した場合、この広告アカウントだけを処理する（再実行時は失敗分） */
+  advertiserIds?: string[];
+  [key: string]: unknown;
+}
+
+/** 広告アカウント単位のリトライ間隔の上限 */
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export function isJobName(value: unknown): value is JobName {
+  return typeof value === 'string' && value in JOB_DEFINITIONS;
+}
+
+/**
+ * 実行結果のステータス
+ * ジョブ自体が例外で終わった場合は FAILED、広告アカウントの一部だけ失敗した場合は PARTIAL
+ */
+export function summarizeRunStatus(
+  results: { status: AdvertiserResultStatus }[],
+  error: string | null,
+): JobRunStatus {
+  if (error) return 'FAILED';
+  const failed = results.filter((r) => r.status === 'FAILED').length;
+  if (failed === 0) return 'SUCCEEDED';
+  return failed === results.length ? 'FAILED' : 'PARTIAL';
+}
+
+/** n回目の試行が失敗した後、次の試行までの待ち時間（指数バックオフ） */
+export function retryDelayMs(attempt: number, baseMs = 1000): number {
+  return Math.min(baseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * 実行中のまま残った実行か（実行中のインスタンスが落ちた等）
+ * ロックの保持時間を過ぎるとロックも次の実行に奪われるため、それ以上は実行中とみなさない
+ */
+export function isStaleRun(
+  jobName: JobName,
+  startedAt: Date,
+  now: Date,
+): boolean {
+  return (
+    now.getTime() - startedAt.getTime() >= JOB_DEFINITIONS[jobName].lockTtlMs
+  );
+}
+
+/** 再実行の対象（失敗した広告アカウント） */
+export function failedAdvertiserIds(
+  results: { advertiserId: string; status: string }[],
+): string[] {
+  return [
+    ...new Set(
+      results.filter((r) => r.status === 'FAILED').map((r) => r.advertiserId),
+    ),
+  ];
+}
+
+/** params.advertiserIds が指定されていれば、その広告アカウントだけに絞る */
+export function selectTargets<T>(
+  items: T[],
+  advertiserIdOf: (item: T) => string,
+  params: JobParams | null,
+): T[] {
+  const only = params?.advertiserIds;
+  if (!only) return items;
+  return items.filter((item) => only.includes(advertiserIdOf(item)));
+}
+
+/** 広告アカウント単位で処理するため、ログ等を広告アカウントごとにまとめる（出現順を保つ） */
+export function groupByAdvertiser<T extends { advertiserId: string }>(
+  items: T[],
+): { advertiserId: string; items: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(item.advertiserId);
+    if (group) group.push(item);
+    else groups.set(item.advertiserId, [item]);
+  }
+  return [...groups].map(([advertiserId, grouped]) => ({
+    advertiserId,
+    items: grouped,
+  }));
+}
@@ -0,0 +1,105 @@
+// ============================================================================
+// JobQueueController - バッチジョブの実行記録・再実行 API
+// ============================================================================
+
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { JobQueueService } from './job-queue.service';
+import { JOB_DEFINITIONS } from './domain/job-run';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.JOBS_RUN)
+@RequireAllAdvertisers()
+@Controller('api/job-runs')
+export class JobQueueController {
+  private readonly logger = new Logger(JobQueueController.name);
+
+  constructor(private readonly jobQueue: JobQueueService) {}
+
+  /**
+   * ジョブの一覧
+   * GET /api/job-runs/jobs
+   */
+  @Get('jobs')
+  jobs() {
+    return {
+      success: true,
+      data: Object.entries(JOB_DEFINITIONS).map(([name, definition]) => ({
+        name,
+        ...definition,
+      })),
+    };
+  }
+
+  /**
+   * 実行記録の一覧（新しい順）
+   * GET /api/job-runs/runs?jobName=xxx&status=FAILED&limit=50
+   */
+  @Get('runs')
+  async list(
+    @Query('jobName') jobName?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const parsedLimit = limit ? parseInt(limit, 10) : undefined;
+    if (parsedLimit !== undefined && isNaN(parsedLimit)) {
+      throw new BadRequestException('limit must be a number');
+    }
+    return this.handle('List runs', () =>
+      this.jobQueue.listRuns({ jobName, status, limit: parsedLimit }),
+    );
+  }
+
+  /**
+   * 実行記録の詳細（広告アカウント別の結果を含む）
+   * GET /api/job-runs/runs/:id
+   */
+  @Get('runs/:id')
+  async detail(@Param('id') id: string) {
+    return this.handle('Get run', () => this.jobQueue.findRun(id));
+  }
+
+  /**
+   * 失敗した広告アカウントだけを再実行
+   * POST /api/job-runs/runs/:id/retry
+   */
+  @Post('runs/:id/retry')
+  async retry(@Param('id') id: string) {
+    return this.handle('Retry', () => this.jobQueue.retry(id));
+  }
+
+  /**
+   * キューに積まれたジョブを実行（サーバーレス環境の外部スケジューラ用）
+   * POST /api/job-runs/queue/drain
+   */
+  @Post('queue/drain')
+  async drain() {
+    return this.handle('Drain', () => this.jobQueue.drain());
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[JOB-QUEUE] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,15 @@
+// ============================================================================
+// JobQueueModule - バッチジョブのDBロック・実行記録・キュー（グローバル）
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { JobQueueService } from './job-queue.service';
+import { JobQueueController } from './job-queue.controller';
+
+@Global()
+@Module({
+  controllers: [JobQueueController],
+  providers: [JobQueueService],
+  exports: [JobQueueService],
+})
+export class JobQueueModule {}
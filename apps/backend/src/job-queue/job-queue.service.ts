@@ -0,0 +1,379 @@
+// ============================================================================
+// JobQueueService - バッチジョブのDBロック・実行記録・キュー
+// 旧 BatchJobLock（プロセス内Map）はサーバーレス・複数インスタンスで効かないため、
+// ロックを job_locks テーブルで取り、開始・終了・広告アカウント別結果を job_runs に残す
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import type { JobRun, JobRunResult, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { withDatabaseRetry } from '../common/utils';
+import { JobRunContext } from './job-run-context';
+import {
+  failedAdvertiserIds,
+  isJobName,
+  isStaleRun,
+  JOB_DEFINITIONS,
+  summarizeRunStatus,
+} from './domain/job-run';
+import type {
+  JobName,
+  JobParams,
+  JobRunStatus,
+  JobTrigger,
+} from './domain/job-run';
+
+export type JobHandler<T = unknown> = (run: JobRunContext) => Promise<T>;
+
+export interface JobRunOptions {
+  trigger?: JobTrigger;
+  params?: JobParams;
+}
+
+export interface JobRunOutcome<T> {
+  runId: string;
+  status: JobRunStatus;
+  /** SKIPPED の理由（LOCKED: 前回の実行が終わっていない） */
+  skipReason?: string;
+  result?: T;
+  error?: string;
+}
+
+export interface JobRunQuery {
+  jobName?: string;
+  status?: string;
+  limit?: number;
+}
+
+const DEFAULT_RUN_LIMIT = 50;
+const MAX_RUN_LIMIT = 200;
+
+@Injectable()
+export class JobQueueService {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly handlers = new Map<JobName, JobHandler>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ============================================================================
+  // 実行
+  // ============================================================================
+
+  /**
+   * ロックを取ってジョブを実行し、実行記録を残す
+   * 前回の実行がロックを保持している場合は実行せず SKIPPED を記録して返す
+   */
+  async run<T>(
+    jobName: JobName,
+    handler: JobHandler<T>,
+    options: JobRunOptions = {},
+  ): Promise<JobRunOutcome<T>> {
+    // drain に拾われないよう開始済みで作成する
+    const run = await this.createRun(jobName, options, 'RUNNING', new Date());
+    return this.execute(run, handler);
+  }
+
+  /**
+   * キュー・再実行から呼ぶジョブの処理を登録する
+   * 各ジョブのサービスが onModuleInit で登録する
+   */
+  register(jobName: JobName, handler: JobHandler): void {
+    this.handlers.set(jobName, handler);
+  }
+
+  /** ジョブをキューに積む（drain で実行される） */
+  async enqueue(
+    jobName: JobName,
+    options: JobRunOptions & { retryOfId?: string; attempt?: number } = {},
+  ): Promise<JobRun> {
+    if (!this.handlers.has(jobName)) {
+      throw new BadRequestException(`Job is not registered: ${jobName}`);
+    }
+    const run = await this.createRun(jobName, options, 'QUEUED');
+    this.logger.log(`[JOB-QUEUE] Enqueued ${jobName} (${run.id})`);
+    return run;
+  }
+
+  /**
+   * キューに積まれたジョブを古い順に実行する
+   * 常駐環境では毎分、サーバーレス環境では POST /api/job-runs/queue/drain から呼ぶ
+   * 先にインスタンスごと落ちて RUNNING のまま残った実行を FAILED にする
+   */
+  @Cron('* * * * *', { name: 'job-queue-drain' })
+  async drain(): Promise<JobRunOutcome<unknown>[]> {
+    await this.failStaleRuns(new Date());
+
+    const queued = await this.prisma.jobRun.findMany({
+      where: { status: 'QUEUED', startedAt: null },
+      orderBy: { queuedAt: 'asc' },
+    });
+    const outcomes: JobRunOutcome<unknown>[] = [];
+
+    for (const run of queued) {
+      const handler = isJobName(run.jobName)
+        ? this.handlers.get(run.jobName)
+        : undefined;
+      if (!handler) continue;
+      // 他インスタンスと同じ行を取り合わないよう QUEUED → RUNNING を条件付きで更新
+      const startedAt = new Date();
+      const claimed = await this.prisma.jobRun.updateMany({
+        where: { id: run.id, status: 'QUEUED', startedAt: null },
+        data: { status: 'RUNNING', startedAt },
+      });
+      if (claimed.count === 0) continue;
+      outcomes.push(
+        await this.execute({ ...run, status: 'RUNNING', startedAt }, handler),
+      );
+    }
+    return outcomes;
+  }
+
+  /** 失敗した広告アカウントだけを再実行する（キューに積んで即時実行） */
+  async retry(runId: string): Promise<JobRunOutcome<unknown>> {
+    const run = await this.findRun(runId);
+    if (!isJobName(run.jobName)) {
+      throw new BadRequestException(`Unknown job: ${run.jobName}`);
+    }
+    if (run.status !== 'FAILED' && run.status !== 'PARTIAL') {
+      throw new BadRequestException(
+        `Only FAILED or PARTIAL runs can be retried (status: ${run.status})`,
+      );
+    }
+
+    const failed = failedAdvertiserIds(run.results);
+    const params = (run.params ?? {}) as JobParams;
+    const queued = await this.enqueue(run.jobName, {
+      trigger: 'RETRY',
+      // 広告アカウント別の結果がない（ジョブ全体が失敗した）場合は同じ条件で再実行
+      params: failed.length > 0 ? { ...params, advertiserIds: failed } : params,
+      retryOfId: run.id,
+      attempt: run.attempt + 1,
+    });
+    const [outcome] = (await this.drain()).filter((o) => o.runId === queued.id);
+    return outcome ?? { runId: queued.id, status: 'QUEUED' };
+  }
+
+  // ============================================================================
+  // 参照
+  // ============================================================================
+
+  async listRuns(query: JobRunQuery = {}): Promise<JobRun[]> {
+    return this.prisma.jobRun.findMany({
+      where: {
+        ...(query.jobName && { jobName: query.jobName }),
+        ...(query.status && { status: query.status }),
+      },
+      orderBy: { queuedAt: 'desc' },
+      take: Math.min(
+        Math.max(query.limit ?? DEFAULT_RUN_LIMIT, 1),
+        MAX_RUN_LIMIT,
+      ),
+    });
+  }
+
+  async findRun(runId: string): Promise<JobRun & { results: JobRunResult[] }> {
+    const run = await this.prisma.jobRun.findUnique({
+      where: { id: runId },
+      include: { results: { orderBy: { startedAt: 'asc' } } },
+    });
+    if (!run) {
+      throw new NotFoundException(`Job run not found: ${runId}`);
+    }
+    return run;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  private async createRun(
+    jobName: JobName,
+    options: JobRunOptions & { retryOfId?: string; attempt?: number },
+    status: JobRunStatus,
+    startedAt: Date | null = null,
+  ): Promise<JobRun> {
+    return withDatabaseRetry(
+      () =>
+        this.prisma.jobRun.create({
+          data: {
+            jobName,
+            status,
+            trigger: options.trigger ?? 'CRON',
+            params: options.params as Prisma.InputJsonValue | undefined,
+            retryOfId: options.retryOfId ?? null,
+            attempt: options.attempt ?? 1,
+            startedAt,
+          },
+        }),
+      { logger: this.logger, context: `JobRun create ${jobName}` },
+    );
+  }
+
+  /**
+   * ロックの保持時間を過ぎても RUNNING のままの実行を FAILED にする
+   * 二重適用を避けるため自動では再実行しない（失敗分は retry で再実行する）
+   */
+  private async failStaleRuns(now: Date): Promise<void> {
+    const running = await this.prisma.jobRun.findMany({
+      where: { status: 'RUNNING' },
+    });
+    for (const run of running) {
+      if (!run.startedAt || !isJobName(run.jobName)) continue;
+      if (!isStaleRun(run.jobName, run.startedAt, now)) continue;
+      const failed = await this.prisma.jobRun.updateMany({
+        where: { id: run.id, status: 'RUNNING' },
+        data: {
+          status: 'FAILED',
+          error: `Run did not finish within ${JOB_DEFINITIONS[run.jobName].lockTtlMs}ms (instance stopped?)`,
+          finishedAt: now,
+        },
+      });
+      if (failed.count > 0) {
+        this.logger.warn(
+          `[JOB-QUEUE] Marked stale run ${run.jobName} (${run.id}) as FAILED (started: ${run.startedAt.toISOString()})`,
+        );
+      }
+    }
+  }
+
+  private async execute<T>(
+    run: JobRun,
+    handler: JobHandler<T>,
+  ): Promise<JobRunOutcome<T>> {
+    const jobName = run.jobName as JobName;
+    const definition = JOB_DEFINITIONS[jobName];
+
+    if (!(await this.acquireLock(jobName, run.id, definition.lockTtlMs))) {
+      const lock = await this.prisma.jobLock.findUnique({
+        where: { name: jobName },
+      });
+      this.logger.warn(
+        `[JOB-QUEUE] ${jobName} is still running (run ${lock?.ownerId}, started: ${lock?.acquiredAt.toISOString()}). Skipping...`,
+      );
+      await this.finishRun(run.id, {
+        status: 'SKIPPED',
+        skipReason: 'LOCKED',
+        startedAt: run.startedAt ?? new Date(),
+      });
+      return { runId: run.id, status: 'SKIPPED', skipReason: 'LOCKED' };
+    }
+
+    const startedAt = run.startedAt ?? new Date();
+    await this.prisma.jobRun.update({
+      where: { id: run.id },
+      data: { status: 'RUNNING', startedAt },
+    });
+    this.logger.log(`[JOB-QUEUE] Started ${jobName} (${run.id})`);
+
+    const context = new JobRunContext(
+      run.id,
+      jobName,
+      (run.params ?? null) as JobParams | null,
+      definition.maxAttempts,
+      this.prisma,
+      this.logger,
+    );
+
+    let result: T | undefined;
+    let error: string | null = null;
+    try {
+      result = await handler(context);
+    } catch (e) {
+      error = e?.message ?? String(e);
+      this.logger.error(`[JOB-QUEUE] ${jobName} (${run.id}) failed:`, e);
+    } finally {
+      await this.releaseLock(jobName, run.id);
+    }
+
+    const status = summarizeRunStatus(context.outcomes, error);
+    await this.finishRun(run.id, { status, error, startedAt });
+    this.logger.log(
+      `[JOB-QUEUE] Finished ${jobName} (${run.id}): ${status}${context.outcomes.length > 0 ? ` (${context.outcomes.filter((o) => o.status === 'FAILED').length}/${context.outcomes.length} advertisers failed)` : ''}`,
+    );
+    return { runId: run.id, status, result, error: error ?? undefined };
+  }
+
+  private async finishRun(
+    runId: string,
+    data: {
+      status: JobRunStatus;
+      startedAt: Date;
+      skipReason?: string;
+      error?: string | null;
+    },
+  ) {
+    try {
+      await withDatabaseRetry(
+        () =>
+          this.prisma.jobRun.update({
+            where: { id: runId },
+            data: {
+              status: data.status,
+              startedAt: data.startedAt,
+              skipReason: data.skipReason ?? null,
+              error: data.error ?? null,
+              finishedAt: new Date(),
+            },
+          }),
+        { logger: this.logger, context: 'JobRun finish' },
+      );
+    } catch (error) {
+      // 記録の失敗でジョブの結果を失わない
+      this.logger.error(
+        `[JOB-QUEUE] Failed to record finish of ${runId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * ロック取得: 期限切れのロックを奪うか、新規作成する
+   * 同時に作成した場合は主キー重複（P2002）で片方だけが成功する
+   */
+  private async acquireLock(
+    name: JobName,
+    ownerId: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const taken = await this.prisma.jobLock.updateMany({
+      where: { name, expiresAt: { lte: now } },
+      data: { ownerId, acquiredAt: now, expiresAt },
+    });
+    if (taken.count > 0) {
+      this.logger.warn(`[JOB-QUEUE] Took over expired lock: ${name}`);
+      return true;
+    }
+
+    try {
+      await this.prisma.jobLock.create({
+        data: { name, ownerId, acquiredAt: now, expiresAt },
+      });
+      return true;
+    } catch (error) {
+      if (error?.code === 'P2002') return false;
+      throw error;
+    }
+  }
+
+  private async releaseLock(name: JobName, ownerId: string) {
+    try {
+      await withDatabaseRetry(
+        () => this.prisma.jobLock.deleteMany({ where: { name, ownerId } }),
+        { logger: this.logger, context: `JobLock release ${name}` },
+      );
+    } catch (error) {
+      // 解放に失敗しても期限切れで次の実行が奪える
+      this.logger.error(
+        `[JOB-QUEUE] Failed to release lock ${name}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,175 @@
+// ============================================================================
+// JobRunContext - 実行中ジョブの広告アカウント別処理（リトライ・結果記録）
+// ============================================================================
+
+import { Logger } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { sleep, withDatabaseRetry } from '../common/utils';
+import { retryDelayMs, selectTargets } from './domain/job-run';
+import type {
+  AdvertiserResultStatus,
+  JobName,
+  JobParams,
+} from './domain/job-run';
+
+export interface AdvertiserOutcome<R> {
+  advertiserId: string;
+  status: AdvertiserResultStatus;
+  attempts: number;
+  value?: R;
+  error?: string;
+}
+
+export interface ForEachAdvertiserOptions<R> {
+  /** 省略時はジョブ定義の maxAttempts */
+  maxAttempts?: number;
+  /** JobRunResult.summary に保存する内容（省略時は保存しない） */
+  summarize?: (value: R) => Prisma.InputJsonValue;
+}
+
+export class JobRunContext {
+  /** 広告アカウント別の結果（JobRun 終了時のステータス判定に使う） */
+  readonly outcomes: AdvertiserOutcome<unknown>[] = [];
+
+  constructor(
+    readonly runId: string,
+    readonly jobName: JobName,
+    readonly params: JobParams | null,
+    private readonly defaultMaxAttempts: number,
+    private readonly prisma: PrismaService,
+    private readonly logger: Logger,
+    private readonly retryBaseMs = 1000,
+  ) {}
+
+  /**
+   * 広告アカウントごとに処理し、結果を JobRunResult に記録する
+   * 失敗した広告アカウントは maxAttempts まで再試行し、他の広告アカウントの処理は続ける
+   * params.advertiserIds があればその広告アカウントだけを処理する
+   */
+  async forEachAdvertiser<I, R>(
+    items: I[],
+    advertiserIdOf: (item: I) => string,
+    fn: (item: I, attempt: number) => Promise<R>,
+    options: ForEachAdvertiserOptions<R> = {},
+  ): Promise<AdvertiserOutcome<R>[]> {
+    const maxAttempts = options.maxAttempts ?? this.defaultMaxAttempts;
+    const outcomes: AdvertiserOutcome<R>[] = [];
+
+    for (const item of selectTargets(items, advertiserIdOf, this.params)) {
+      const advertiserId = advertiserIdOf(item);
+      const startedAt = new Date();
+      let outcome: AdvertiserOutcome<R> | null = null;
+
+      for (let attempt = 1; !outcome; attempt++) {
+        try {
+          const value = await fn(item, attempt);
+          outcome = {
+            advertiserId,
+            status: 'SUCCEEDED',
+            attempts: attempt,
+            value,
+          };
+        } catch (error) {
+          const message = error?.message ?? String(error);
+          if (attempt >= maxAttempts) {
+            outcome = {
+              advertiserId,
+              status: 'FAILED',
+              attempts: attempt,
+              error: message,
+            };
+            break;
+          }
+          this.logger.warn(
+            `[JOB-QUEUE] ${this.jobName} ${advertiserId} attempt ${attempt}/${maxAttempts} failed: ${message}. Retrying...`,
+          );
+          await sleep(retryDelayMs(attempt, this.retryBaseMs));
+        }
+      }
+
+      await this.record(outcome, startedAt, options.summarize);
+      outcomes.push(outcome);
+    }
+    return outcomes;
+  }
+
+  /** 広告アカウント単位のループを持たない処理の結果を記録する */
+  async recordAdvertiser(
+    advertiserId: string,
+    status: AdvertiserResultStatus,
+    details: { error?: string; summary?: Prisma.InputJsonValue } = {},
+  ): Promise<void> {
+    const now = new Date();
+    await this.record(
+      { advertiserId, status, attempts: 1, error: details.error },
+      now,
+      details.summary === undefined ? undefined : () => details.summary!,
+    );
+  }
+
+  private async record<R>(
+    outcome: AdvertiserOutcome<R>,
+    startedAt: Date,
+    summarize?: (value: R) => Prisma.InputJsonValue,
+  ) {
+    this.outcomes.push(outcome);
+    try {
+      await withDatabaseRetry(
+        () =>
+          this.prisma.jobRunResult.create({
+            data: {
+              runId: this.runId,
+              advertiserId: outcome.advertiserId,
+              status: outcome.status,
+              attempts: outcome.attempts,
+              error: outcome.error ?? null,
+              summary:
+                summarize && outcome.status === 'SUCCEEDED'
+                  ? summarize(outcome.value as R)
+                  : undefined,
+              startedAt,
+              finishedAt: new Date(),
+            },
+          }),
+        { logger: this.logger, context: 'JobRunResult create' },
+      );
+    } catch (error) {
+      // 記録の失敗でジョブ本体を止めない
+      this.logger.error(
+        `[JOB-QUEUE] Failed to record result for ${outcome.advertiserId}: ${error.message}`,
+      );
+    }
+  }
+}
+
+/**
+ * JobRunContext があればリトライ・記録付きで、なければ単純なループで広告アカウントごとに処理する
+ * （ジョブキューを通さない直接呼び出し・テストでも同じ処理を使うため）
+ */
+export async function eachAdvertiser<I, R>(
+  run: JobRunContext | undefined,
+  items: I[],
+  advertiserIdOf: (item: I) => string,
+  fn: (item: I, attempt: number) => Promise<R>,
+  options: ForEachAdvertiserOptions<R> = {},
+): Promise<AdvertiserOutcome<R>[]> {
+  if (run) return run.forEachAdvertiser(items, advertiserIdOf, fn, options);
+
+  const outcomes: AdvertiserOutcome<R>[] = [];
+  for (const item of items) {
+    const advertiserId = advertiserIdOf(item);
+    try {
+      const value = await fn(item, 1);
+      outcomes.push({ advertiserId, status: 'SUCCEEDED', attempts: 1, value });
+    } catch (error) {
+      outcomes.push({
+        advertiserId,
+        status: 'FAILED',
+        attempts: 1,
+        error: error?.message ?? String(error),
+      });
+    }
+  }
+  return outcomes;
+}
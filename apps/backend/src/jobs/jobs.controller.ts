@@ -3,8 +3,23 @@ import { SchedulerService } from './scheduler.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { IntradayOptimizationService } from '../intraday-optimization/intraday-optimization.service';
+import {
+  INTRADAY_DECISION_MODES,
+  isIntradayDecisionMode,
+} from '../intraday-optimization/domain/eod-forecast';
 import { AdCountRecordingService } from '../ad-count-recording/ad-count-recording.service';
-
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { TokenRefreshService } from '../token-refresh/token-refresh.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import type { JobRunOutcome } from '../job-queue/job-queue.service';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.JOBS_RUN)
+@RequireAllAdvertisers()
 @Controller('jobs')
 export class JobsController {
   private readonly logger = new Logger(JobsController.name);
@@ -15,42 +30,11 @@ export class JobsController {
     private readonly tiktokService: TiktokService,
     private readonly intradayOptimizationService: IntradayOptimizationService,
     private readonly adCountRecordingService: AdCountRecordingService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly tokenRefreshService: TokenRefreshService,
+    private readonly jobQueue: JobQueueService,
   ) {}
 
-  /**
-   * 無期限トークンのexpiresAtを更新
-   * POST /jobs/update-token-expiry
-   */
-  @Post('update-token-expiry')
-  async updateTokenExpiry() {
-    try {
-      // 全てのトークンのexpiresAtを2099年12月31日に更新
-      const futureDate = new Date('2099-12-31T23:59:59Z');
-
-      const result = await this.prisma.oAuthToken.updateMany({
-        data: {
-          expiresAt: futureDate,
-        },
-      });
-
-      this.logger.log(
-        `Updated expiresAt for ${result.count} tokens to ${futureDate.toISOString()}`,
-      );
-
-      return {
-        success: true,
-        message: `Updated ${result.count} tokens to expire at ${futureDate.toISOString()}`,
-        count: result.count,
-      };
-    } catch (error) {
-      this.logger.error('Failed to update token expiry', error);
-      return {
-        success: false,
-        error: error.message,
-      };
-    }
-  }
-
   /**
    * データ収集の診断情報
    * GET /jobs/diagnostics
@@ -124,11 +108,14 @@ export class JobsController {
     this.logger.log('Manual trigger: Running daily report fetch batch job');
 
     try {
-      await this.schedulerService.scheduleDailyReportFetch();
+      const outcome =
+        await this.schedulerService.scheduleDailyReportFetch('API');
       const summary = (this.schedulerService as any)._lastDailyReportSummary;
       return {
-        success: true,
-        message: 'Daily report fetch batch job completed',
+        ...this.toJobResponse(
+          outcome,
+          'Daily report fetch batch job completed',
+        ),
         summary,
       };
     } catch (error) {
@@ -151,13 +138,59 @@ export class JobsController {
     );
 
     try {
-      await this.schedulerService.scheduleDailyEntitySync();
+      const outcome =
+        await this.schedulerService.scheduleDailyEntitySync('API');
+      return this.toJobResponse(
+        outcome,
+        'Daily entity sync batch job completed (including Smart+ ads)',
+      );
+    } catch (error) {
+      this.logger.error('Manual entity sync failed', error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 期限の近いOAuthTokenのリフレッシュを手動で実行
+   * POST /jobs/refresh-tokens
+   */
+  @Post('refresh-tokens')
+  async refreshTokens() {
+    this.logger.log('Manual trigger: Refreshing expiring OAuth tokens');
+
+    try {
+      const result = await this.tokenRefreshService.refreshExpiringTokens();
       return {
         success: true,
-        message: 'Daily entity sync batch job completed (including Smart+ ads)',
+        data: result,
       };
     } catch (error) {
-      this.logger.error('Manual entity sync failed', error);
+      this.logger.error('Manual token refresh failed', error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * 平文で保存されているOAuthTokenを暗号化（暗号化導入前のレコードの移行）
+   * POST /jobs/seal-legacy-tokens
+   */
+  @Post('seal-legacy-tokens')
+  async sealLegacyTokens() {
+    try {
+      const count = await this.tokenVault.sealLegacyTokens();
+      return {
+        success: true,
+        message: `Sealed ${count} tokens`,
+        count,
+      };
+    } catch (error) {
+      this.logger.error('Failed to seal legacy tokens', error);
       return {
         success: false,
         error: error.message,
@@ -181,6 +214,9 @@ export class JobsController {
               advertiserId: true,
               expiresAt: true,
               scope: true,
+              lastRefreshedAt: true,
+              lastRefreshError: true,
+              refreshFailureCount: true,
               createdAt: true,
               updatedAt: true,
             },
@@ -190,6 +226,9 @@ export class JobsController {
               advertiserId: true,
               expiresAt: true,
               scope: true,
+              lastRefreshedAt: true,
+              lastRefreshError: true,
+              refreshFailureCount: true,
               createdAt: true,
               updatedAt: true,
             },
@@ -220,6 +259,9 @@ export class JobsController {
         expiresAt: token.expiresAt,
         isExpired: token.expiresAt < new Date(),
         scope: parsedScope,
+        lastRefreshedAt: token.lastRefreshedAt,
+        lastRefreshError: token.lastRefreshError,
+        refreshFailureCount: token.refreshFailureCount,
         createdAt: token.createdAt,
         updatedAt: token.updatedAt,
       };
@@ -244,22 +286,7 @@ export class JobsController {
   ) {
     try {
       // 指定されたAdvertiserIDまたは最初の有効なトークンを取得
-      const token = advertiserId
-        ? await this.prisma.oAuthToken.findFirst({
-            where: {
-              advertiserId: advertiserId,
-              expiresAt: {
-                gt: new Date(),
-              },
-            },
-          })
-        : await this.prisma.oAuthToken.findFirst({
-            where: {
-              expiresAt: {
-                gt: new Date(),
-              },
-            },
-          });
+      const token = await this.tokenVault.findAnyActive(advertiserId);
 
       if (!token) {
         return {
@@ -329,22 +356,7 @@ export class JobsController {
   async checkEntities(@Query('advertiserId') advertiserId?: string) {
     try {
       // 指定されたAdvertiserIDまたは最初の有効なトークンを取得
-      const token = advertiserId
-        ? await this.prisma.oAuthToken.findFirst({
-            where: {
-              advertiserId: advertiserId,
-              expiresAt: {
-                gt: new Date(),
-              },
-            },
-          })
-        : await this.prisma.oAuthToken.findFirst({
-            where: {
-              expiresAt: {
-                gt: new Date(),
-              },
-            },
-          });
+      const token = await this.tokenVault.findAnyActive(advertiserId);
 
       if (!token) {
         return {
@@ -411,22 +423,7 @@ export class JobsController {
   async syncEntities(@Query('advertiserId') advertiserId?: string) {
     try {
       // 指定されたAdvertiserIDまたは全ての有効なトークンを取得
-      const tokens = advertiserId
-        ? await this.prisma.oAuthToken.findMany({
-            where: {
-              advertiserId: advertiserId,
-              expiresAt: {
-                gt: new Date(),
-              },
-            },
-          })
-        : await this.prisma.oAuthToken.findMany({
-            where: {
-              expiresAt: {
-                gt: new Date(),
-              },
-            },
-          });
+      const tokens = await this.tokenVault.findActive(advertiserId);
 
       if (tokens.length === 0) {
         return {
@@ -528,6 +525,7 @@ export class JobsController {
                 schedule: {
                   startTime: adgroup.schedule_start_time,
                   endTime: adgroup.schedule_end_time,
+                  dayparting: adgroup.dayparting,
                 },
                 status: adgroup.operation_status,
               },
@@ -542,6 +540,7 @@ export class JobsController {
                 schedule: {
                   startTime: adgroup.schedule_start_time,
                   endTime: adgroup.schedule_end_time,
+                  dayparting: adgroup.dayparting,
                 },
                 status: adgroup.operation_status,
               },
@@ -738,12 +737,21 @@ export class JobsController {
    * 日中CPAチェックを実行（15:00用）
    * POST /jobs/intraday-cpa-check?dryRun=true でドライラン実行
    * POST /jobs/intraday-cpa-check?excludedAdvertisers=id1,id2,id3 で除外アカウント指定
+   * POST /jobs/intraday-cpa-check?mode=FORECAST で終日着地予測による判定（省略時は設定値）
    */
   @Post('intraday-cpa-check')
   async runIntradayCPACheck(
     @Query('dryRun') dryRun?: string,
     @Query('excludedAdvertisers') excludedAdvertisers?: string,
+    @Query('mode') mode?: string,
   ) {
+    if (mode && !isIntradayDecisionMode(mode)) {
+      return {
+        success: false,
+        error: `Invalid mode: ${mode} (${INTRADAY_DECISION_MODES.join(' | ')})`,
+      };
+    }
+    const decisionMode = isIntradayDecisionMode(mode) ? mode : undefined;
     const isDryRun = dryRun === 'true';
     const excludedList = excludedAdvertisers
       ? excludedAdvertisers
@@ -757,18 +765,34 @@ export class JobsController {
     );
 
     try {
-      const result =
-        await this.intradayOptimizationService.executeIntradayCPACheck(
-          isDryRun,
-          excludedList,
-        );
-      return {
-        success: true,
-        message: isDryRun
-          ? 'Intraday CPA check dry run completed'
-          : 'Intraday CPA check completed',
-        data: result,
-      };
+      // ドライランは変更を加えないため、ロック・実行記録なしで実行する
+      if (isDryRun) {
+        const result =
+          await this.intradayOptimizationService.executeIntradayCPACheck(
+            true,
+            excludedList,
+            undefined,
+            decisionMode,
+          );
+        return {
+          success: true,
+          message: 'Intraday CPA check dry run completed',
+          data: result,
+        };
+      }
+
+      const outcome = await this.jobQueue.run(
+        'intraday-cpa-check',
+        (run) =>
+          this.intradayOptimizationService.executeIntradayCPACheck(
+            false,
+            excludedList,
+            run,
+            decisionMode,
+          ),
+        { trigger: 'API' },
+      );
+      return this.toJobResponse(outcome, 'Intraday CPA check completed');
     } catch (error) {
       this.logger.error('Intraday CPA check failed', error);
       return {
@@ -787,13 +811,12 @@ export class JobsController {
     this.logger.log('Manual trigger: Running intraday ad resume');
 
     try {
-      const result =
-        await this.intradayOptimizationService.executeIntradayResume();
-      return {
-        success: true,
-        message: 'Intraday ad resume completed',
-        data: result,
-      };
+      const outcome = await this.jobQueue.run(
+        'intraday-resume',
+        (run) => this.intradayOptimizationService.executeIntradayResume(run),
+        { trigger: 'API' },
+      );
+      return this.toJobResponse(outcome, 'Intraday ad resume completed');
     } catch (error) {
       this.logger.error('Intraday ad resume failed', error);
       return {
@@ -812,13 +835,13 @@ export class JobsController {
     this.logger.log('Manual trigger: Running intraday budget restore');
 
     try {
-      const result =
-        await this.intradayOptimizationService.executeIntradayBudgetRestore();
-      return {
-        success: true,
-        message: 'Intraday budget restore completed',
-        data: result,
-      };
+      const outcome = await this.jobQueue.run(
+        'intraday-budget-restore',
+        (run) =>
+          this.intradayOptimizationService.executeIntradayBudgetRestore(run),
+        { trigger: 'API' },
+      );
+      return this.toJobResponse(outcome, 'Intraday budget restore completed');
     } catch (error) {
       this.logger.error('Intraday budget restore failed', error);
       return {
@@ -847,13 +870,12 @@ export class JobsController {
       const target = targetDate
         ? new Date(targetDate + 'T00:00:00Z')
         : undefined;
-      const result =
-        await this.adCountRecordingService.recordDailyCounts(target);
-      return {
-        success: true,
-        message: 'Daily ad count recording completed',
-        data: result,
-      };
+      const outcome = await this.jobQueue.run(
+        'daily-ad-count-recording',
+        () => this.adCountRecordingService.recordDailyCounts(target),
+        { trigger: 'API' },
+      );
+      return this.toJobResponse(outcome, 'Daily ad count recording completed');
     } catch (error) {
       this.logger.error('Daily ad count recording failed', error);
       return {
@@ -862,4 +884,28 @@ export class JobsController {
       };
     }
   }
+
+  /**
+   * ジョブキュー経由の実行結果をレスポンスに変換
+   * 前回の実行中（ロック保持中）・ジョブ全体の失敗は success: false
+   */
+  private toJobResponse<T>(outcome: JobRunOutcome<T>, message: string) {
+    if (outcome.status === 'SKIPPED') {
+      return {
+        success: false,
+        runId: outcome.runId,
+        error: 'Previous run is still in progress. Skipped.',
+      };
+    }
+    if (outcome.error) {
+      return { success: false, runId: outcome.runId, error: outcome.error };
+    }
+    return {
+      success: true,
+      message,
+      runId: outcome.runId,
+      status: outcome.status,
+      data: outcome.result,
+    };
+  }
 }
@@ -5,6 +5,7 @@ import { TiktokModule } from '../tiktok/tiktok.module';
 import { AdPerformanceModule } from '../ad-performance/ad-performance.module';
 import { IntradayOptimizationModule } from '../intraday-optimization/intraday-optimization.module';
 import { AdCountRecordingModule } from '../ad-count-recording/ad-count-recording.module';
+import { TokenRefreshModule } from '../token-refresh/token-refresh.module';
 
 @Module({
   imports: [
@@ -12,6 +13,7 @@ import { AdCountRecordingModule } from '../ad-count-recording/ad-count-recording
     forwardRef(() => AdPerformanceModule),
     IntradayOptimizationModule,
     AdCountRecordingModule,
+    TokenRefreshModule,
   ],
   controllers: [JobsController],
   providers: [SchedulerService],
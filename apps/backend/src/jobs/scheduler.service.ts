@@ -8,31 +8,53 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { BudgetAuditService } from '../budget-audit/budget-audit.service';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { AdPerformanceService } from '../ad-performance/ad-performance.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import type { JobRunContext } from '../job-queue/job-run-context';
+import type { JobTrigger } from '../job-queue/domain/job-run';
 import {
   BatchExecutionTracker,
   logBatchExecutionResult,
-  batchJobLock,
   BatchErrorType,
   withDatabaseRetry,
 } from '../common/utils';
 
+/** 日次レポート取得の広告アカウント・データレベル別の結果 */
+interface DailyReportResult {
+  advertiserId: string;
+  dataLevel: string;
+  status: 'success' | 'empty' | 'error';
+  recordCount?: number;
+  error?: string;
+}
+
 @Injectable()
 export class SchedulerService implements OnModuleInit {
   private readonly logger = new Logger(SchedulerService.name);
-  // 注意: ロック機構は batchJobLock に統一（二重管理の問題を解消）
-  // isSyncRunning, isReportRunning フラグは削除済み
+  // 注意: ロック・実行記録は JobQueueService（job_locks / job_runs テーブル）に統一
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly tiktokService: TiktokService,
     private readonly configService: ConfigService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly budgetAudit: BudgetAuditService,
+    private readonly jobQueue: JobQueueService,
     @Inject(forwardRef(() => AdPerformanceService))
     private readonly adPerformanceService: AdPerformanceService,
   ) {}
 
   async onModuleInit() {
+    // 失敗した広告アカウントの再実行（POST /api/job-runs/runs/:id/retry）用
+    this.jobQueue.register('daily-entity-sync', (run) =>
+      this.runDailyEntitySync(run),
+    );
+    this.jobQueue.register('daily-report-fetch', (run) =>
+      this.runDailyReportFetch(run),
+    );
     this.logger.log('Scheduler Service initialized');
   }
 
@@ -45,683 +67,675 @@ export class SchedulerService implements OnModuleInit {
     name: 'daily-entity-sync',
     timeZone: 'Asia/Tokyo',
   })
-  async scheduleDailyEntitySync() {
-    const jobName = 'daily-entity-sync';
-
-    // S-01: 同時実行競合チェック（ロック機能統一 - batchJobLockのみ使用）
-    // タイムアウトを30分に延長（大量データ処理対応）
-    if (!batchJobLock.acquire(jobName, 1800000)) {
-      // 30分タイムアウト
-      const lockStartTime = batchJobLock.getLockStartTime(jobName);
+  async scheduleDailyEntitySync(trigger: JobTrigger = 'CRON') {
+    // S-01: 同時実行競合チェック（job_locks テーブルのロック。前回の実行中はスキップ）
+    const outcome = await this.jobQueue.run(
+      'daily-entity-sync',
+      (run) => this.runDailyEntitySync(run),
+      { trigger },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn(
-        `[S-01] Previous entity sync job is still running (started: ${lockStartTime?.toISOString()}). Skipping...`,
+        '[S-01] Previous entity sync job is still running. Skipping...',
       );
-      return;
     }
+    return outcome;
+  }
 
+  /** 日次広告同期の本体（広告アカウント単位でリトライ・結果記録） */
+  private async runDailyEntitySync(run: JobRunContext) {
     this.logger.log('Starting daily entity sync batch job');
 
-    try {
-      // データベースから全ての有効なOAuthTokenを取得
-      const oauthTokens = await this.prisma.oAuthToken.findMany({
-        where: {
-          expiresAt: {
-            gt: new Date(),
-          },
-        },
-      });
+    // データベースから全ての有効なOAuthTokenを取得
+    const oauthTokens = await this.tokenVault.findActive();
 
-      if (oauthTokens.length === 0) {
-        this.logger.warn('No active tokens found. Skipping entity sync.');
-        return;
-      }
+    if (oauthTokens.length === 0) {
+      this.logger.warn('No active tokens found. Skipping entity sync.');
+      return;
+    }
 
-      let totalCampaigns = 0;
-      let totalAdgroups = 0;
-      let totalAds = 0;
-      let errorCount = 0;
+    let totalCampaigns = 0;
+    let totalAdgroups = 0;
+    let totalAds = 0;
+
+    // 各Advertiserに対して広告同期を実行
+    const outcomes = await run.forEachAdvertiser(
+      oauthTokens,
+      (token) => token.advertiserId,
+      async (token) => {
+        this.logger.log(
+          `Syncing entities for advertiser: ${token.advertiserId}`,
+        );
 
-      // 各Advertiserに対して広告同期を実行
-      for (const token of oauthTokens) {
-        try {
-          this.logger.log(
-            `Syncing entities for advertiser: ${token.advertiserId}`,
-          );
+        // Advertiserレコードを確実に存在させる
+        const advertiser = await this.prisma.advertiser.upsert({
+          where: { tiktokAdvertiserId: token.advertiserId },
+          create: {
+            tiktokAdvertiserId: token.advertiserId,
+            name: `Advertiser ${token.advertiserId}`,
+          },
+          update: {},
+        });
 
-          // Advertiserレコードを確実に存在させる
-          const advertiser = await this.prisma.advertiser.upsert({
-            where: { tiktokAdvertiserId: token.advertiserId },
+        // Campaignを取得してDBに保存（ページネーション対応）
+        const campaigns = await this.tiktokService.getAllCampaigns(
+          token.advertiserId,
+          token.accessToken,
+        );
+        let campaignsSynced = 0;
+
+        for (const campaign of campaigns) {
+          await this.prisma.campaign.upsert({
+            where: { tiktokId: String(campaign.campaign_id) },
             create: {
-              tiktokAdvertiserId: token.advertiserId,
-              name: `Advertiser ${token.advertiserId}`,
+              tiktokId: String(campaign.campaign_id),
+              advertiserId: advertiser.id,
+              name: campaign.campaign_name,
+              objectiveType: campaign.objective_type,
+              budgetMode: campaign.budget_mode,
+              budget: campaign.budget || null,
+              budgetOptimizeOn:
+                campaign.budget_optimize_on === true ||
+                campaign.budget_optimize_on === 'ON',
+              initialBudget: campaign.budget || null,
+              status: campaign.operation_status,
+            },
+            update: {
+              name: campaign.campaign_name,
+              objectiveType: campaign.objective_type,
+              budgetMode: campaign.budget_mode,
+              budget: campaign.budget || null,
+              budgetOptimizeOn:
+                campaign.budget_optimize_on === true ||
+                campaign.budget_optimize_on === 'ON',
+              status: campaign.operation_status,
             },
-            update: {},
           });
+          campaignsSynced++;
+        }
 
-          // Campaignを取得してDBに保存（ページネーション対応）
-          const campaigns = await this.tiktokService.getAllCampaigns(
-            token.advertiserId,
-            token.accessToken,
-          );
-          let campaignsSynced = 0;
-
-          for (const campaign of campaigns) {
-            await this.prisma.campaign.upsert({
-              where: { tiktokId: String(campaign.campaign_id) },
-              create: {
-                tiktokId: String(campaign.campaign_id),
-                advertiserId: advertiser.id,
-                name: campaign.campaign_name,
-                objectiveType: campaign.objective_type,
-                budgetMode: campaign.budget_mode,
-                budget: campaign.budget || null,
-                budgetOptimizeOn:
-                  campaign.budget_optimize_on === true ||
-                  campaign.budget_optimize_on === 'ON',
-                initialBudget: campaign.budget || null,
-                status: campaign.operation_status,
-              },
-              update: {
-                name: campaign.campaign_name,
-                objectiveType: campaign.objective_type,
-                budgetMode: campaign.budget_mode,
-                budget: campaign.budget || null,
-                budgetOptimizeOn:
-                  campaign.budget_optimize_on === true ||
-                  campaign.budget_optimize_on === 'ON',
-                status: campaign.operation_status,
-              },
-            });
-            campaignsSynced++;
-          }
-
-          // AdGroupを取得してDBに保存（ページネーション対応）
-          const adgroups = await this.tiktokService.getAllAdGroups(
-            token.advertiserId,
-            token.accessToken,
-          );
-          let adgroupsSynced = 0;
+        // AdGroupを取得してDBに保存（ページネーション対応）
+        const adgroups = await this.tiktokService.getAllAdGroups(
+          token.advertiserId,
+          token.accessToken,
+        );
+        let adgroupsSynced = 0;
 
-          for (const adgroup of adgroups) {
-            const campaign = await this.prisma.campaign.findUnique({
-              where: { tiktokId: String(adgroup.campaign_id) },
-            });
+        for (const adgroup of adgroups) {
+          const campaign = await this.prisma.campaign.findUnique({
+            where: { tiktokId: String(adgroup.campaign_id) },
+          });
 
-            if (!campaign) {
-              this.logger.warn(
-                `Campaign ${adgroup.campaign_id} not found, skipping adgroup ${adgroup.adgroup_id}`,
-              );
-              continue;
-            }
+          if (!campaign) {
+            this.logger.warn(
+              `Campaign ${adgroup.campaign_id} not found, skipping adgroup ${adgroup.adgroup_id}`,
+            );
+            continue;
+          }
 
-            await this.prisma.adGroup.upsert({
-              where: { tiktokId: String(adgroup.adgroup_id) },
-              create: {
-                tiktokId: String(adgroup.adgroup_id),
-                campaignId: campaign.id,
-                name: adgroup.adgroup_name,
-                placementType: adgroup.placement_type,
-                budgetMode: adgroup.budget_mode,
-                budget: adgroup.budget,
-                initialBudget: adgroup.budget, // 入稿時の初期予算を記録（0時リセット時にこの値に戻す）
-                bidType: adgroup.bid_type,
-                bidPrice: adgroup.bid_price,
-                targeting: adgroup,
-                schedule: {
-                  startTime: adgroup.schedule_start_time,
-                  endTime: adgroup.schedule_end_time,
-                },
-                status: adgroup.operation_status,
+          await this.prisma.adGroup.upsert({
+            where: { tiktokId: String(adgroup.adgroup_id) },
+            create: {
+              tiktokId: String(adgroup.adgroup_id),
+              campaignId: campaign.id,
+              name: adgroup.adgroup_name,
+              placementType: adgroup.placement_type,
+              budgetMode: adgroup.budget_mode,
+              budget: adgroup.budget,
+              initialBudget: adgroup.budget, // 入稿時の初期予算を記録（0時リセット時にこの値に戻す）
+              bidType: adgroup.bid_type,
+              bidPrice: adgroup.bid_price,
+              targeting: adgroup,
+              schedule: {
+                startTime: adgroup.schedule_start_time,
+                endTime: adgroup.schedule_end_time,
+                dayparting: adgroup.dayparting,
               },
-              update: {
-                name: adgroup.adgroup_name,
-                placementType: adgroup.placement_type,
-                budgetMode: adgroup.budget_mode,
-                budget: adgroup.budget,
-                bidType: adgroup.bid_type,
-                bidPrice: adgroup.bid_price,
-                targeting: adgroup,
-                schedule: {
-                  startTime: adgroup.schedule_start_time,
-                  endTime: adgroup.schedule_end_time,
-                },
-                status: adgroup.operation_status,
+              status: adgroup.operation_status,
+            },
+            update: {
+              name: adgroup.adgroup_name,
+              placementType: adgroup.placement_type,
+              budgetMode: adgroup.budget_mode,
+              budget: adgroup.budget,
+              bidType: adgroup.bid_type,
+              bidPrice: adgroup.bid_price,
+              targeting: adgroup,
+              schedule: {
+                startTime: adgroup.schedule_start_time,
+                endTime: adgroup.schedule_end_time,
+                dayparting: adgroup.dayparting,
               },
-            });
-            adgroupsSynced++;
-          }
+              status: adgroup.operation_status,
+            },
+          });
+          adgroupsSynced++;
+        }
 
-          // Adを取得してDBに保存（ページネーション対応）
-          const ads = await this.tiktokService.getAllAds(
-            token.advertiserId,
-            token.accessToken,
-          );
-          let adsSynced = 0;
+        // Adを取得してDBに保存（ページネーション対応）
+        const ads = await this.tiktokService.getAllAds(
+          token.advertiserId,
+          token.accessToken,
+        );
+        let adsSynced = 0;
 
-          // Smart+ 広告の手動設定名を取得するためのマップを作成
-          // ad/get APIが返すsmart_plus_ad_idをキーに、正しい広告名を取得
-          const smartPlusAdNameMap = new Map<string, string>();
-          const smartPlusAdStatusMap = new Map<string, string>();
-          try {
-            const smartPlusAdsForNames =
-              await this.tiktokService.getAllSmartPlusAds(
-                token.advertiserId,
-                token.accessToken,
+        // Smart+ 広告の手動設定名を取得するためのマップを作成
+        // ad/get APIが返すsmart_plus_ad_idをキーに、正しい広告名を取得
+        const smartPlusAdNameMap = new Map<string, string>();
+        const smartPlusAdStatusMap = new Map<string, string>();
+        try {
+          const smartPlusAdsForNames =
+            await this.tiktokService.getAllSmartPlusAds(
+              token.advertiserId,
+              token.accessToken,
+            );
+          for (const spAd of smartPlusAdsForNames) {
+            if (spAd.smart_plus_ad_id && spAd.ad_name) {
+              smartPlusAdNameMap.set(
+                String(spAd.smart_plus_ad_id),
+                spAd.ad_name,
+              );
+            }
+            if (spAd.smart_plus_ad_id && spAd.operation_status) {
+              smartPlusAdStatusMap.set(
+                String(spAd.smart_plus_ad_id),
+                spAd.operation_status,
               );
-            for (const spAd of smartPlusAdsForNames) {
-              if (spAd.smart_plus_ad_id && spAd.ad_name) {
-                smartPlusAdNameMap.set(
-                  String(spAd.smart_plus_ad_id),
-                  spAd.ad_name,
-                );
-              }
-              if (spAd.smart_plus_ad_id && spAd.operation_status) {
-                smartPlusAdStatusMap.set(
-                  String(spAd.smart_plus_ad_id),
-                  spAd.operation_status,
-                );
-              }
             }
-            this.logger.log(
-              `Built Smart+ ad name map with ${smartPlusAdNameMap.size} entries, status map with ${smartPlusAdStatusMap.size} entries`,
-            );
-          } catch (error) {
-            this.logger.warn(
-              `Failed to fetch Smart+ ads for name mapping: ${error.message}`,
-            );
           }
-
-          // === N+1クエリ削減: ループ前に参照データを一括取得してMap化 ===
-          const adGroupTiktokIds = [
-            ...new Set(
-              ads.map((a: any) => String(a.adgroup_id)).filter(Boolean),
-            ),
-          ];
-          const videoIds = [
-            ...new Set(ads.map((a: any) => a.video_id).filter(Boolean)),
-          ] as string[];
-          const imageIds = [
-            ...new Set(
-              ads.flatMap((a: any) => a.image_ids ?? []).filter(Boolean),
-            ),
-          ] as string[];
-          const candidateAdTiktokIds = [
-            ...new Set(
-              ads
-                .map((a: any) => String(a.smart_plus_ad_id ?? a.ad_id))
-                .filter(Boolean),
-            ),
-          ];
-          const [
-            adGroupList,
-            videoCreativeList,
-            imageCreativeList,
-            existingAdList,
-          ] = await Promise.all([
-            adGroupTiktokIds.length
-              ? this.prisma.adGroup.findMany({
-                  where: { tiktokId: { in: adGroupTiktokIds } },
-                  select: { id: true, tiktokId: true },
-                })
-              : Promise.resolve([]),
-            videoIds.length
-              ? this.prisma.creative.findMany({
-                  where: { tiktokVideoId: { in: videoIds } },
-                  select: { id: true, tiktokVideoId: true },
-                })
-              : Promise.resolve([]),
-            imageIds.length
-              ? this.prisma.creative.findMany({
-                  where: { tiktokImageId: { in: imageIds } },
-                  select: { id: true, tiktokImageId: true },
-                })
-              : Promise.resolve([]),
-            candidateAdTiktokIds.length
-              ? this.prisma.ad.findMany({
-                  where: { tiktokId: { in: candidateAdTiktokIds } },
-                  select: { tiktokId: true, status: true },
-                })
-              : Promise.resolve([]),
-          ]);
-          const adGroupMap = new Map<string, { id: string; tiktokId: string }>(
-            (adGroupList as any[]).map((g) => [g.tiktokId, g]),
-          );
-          const videoCreativeMap = new Map<string, { id: string }>(
-            (videoCreativeList as any[])
-              .filter((c) => c.tiktokVideoId)
-              .map((c) => [c.tiktokVideoId, { id: c.id }]),
-          );
-          const imageCreativeMap = new Map<string, { id: string }>(
-            (imageCreativeList as any[])
-              .filter((c) => c.tiktokImageId)
-              .map((c) => [c.tiktokImageId, { id: c.id }]),
-          );
-          const existingAdMap = new Map<string, { status: string }>(
-            (existingAdList as any[]).map((a) => [
-              a.tiktokId,
-              { status: a.status },
-            ]),
-          );
           this.logger.log(
-            `Pre-fetch: ${adGroupMap.size} adgroups, ${videoCreativeMap.size} videos, ${imageCreativeMap.size} images, ${existingAdMap.size} existing ads`,
+            `Built Smart+ ad name map with ${smartPlusAdNameMap.size} entries, status map with ${smartPlusAdStatusMap.size} entries`,
           );
+        } catch (error) {
+          this.logger.warn(
+            `Failed to fetch Smart+ ads for name mapping: ${error.message}`,
+          );
+        }
 
-          for (const ad of ads) {
-            const adgroup = adGroupMap.get(String(ad.adgroup_id));
+        // === N+1クエリ削減: ループ前に参照データを一括取得してMap化 ===
+        const adGroupTiktokIds = [
+          ...new Set(ads.map((a: any) => String(a.adgroup_id)).filter(Boolean)),
+        ];
+        const videoIds = [
+          ...new Set(ads.map((a: any) => a.video_id).filter(Boolean)),
+        ] as string[];
+        const imageIds = [
+          ...new Set(
+            ads.flatMap((a: any) => a.image_ids ?? []).filter(Boolean),
+          ),
+        ] as string[];
+        const candidateAdTiktokIds = [
+          ...new Set(
+            ads
+              .map((a: any) => String(a.smart_plus_ad_id ?? a.ad_id))
+              .filter(Boolean),
+          ),
+        ];
+        const [
+          adGroupList,
+          videoCreativeList,
+          imageCreativeList,
+          existingAdList,
+        ] = await Promise.all([
+          adGroupTiktokIds.length
+            ? this.prisma.adGroup.findMany({
+                where: { tiktokId: { in: adGroupTiktokIds } },
+                select: { id: true, tiktokId: true },
+              })
+            : Promise.resolve([]),
+          videoIds.length
+            ? this.prisma.creative.findMany({
+                where: { tiktokVideoId: { in: videoIds } },
+                select: { id: true, tiktokVideoId: true },
+              })
+            : Promise.resolve([]),
+          imageIds.length
+            ? this.prisma.creative.findMany({
+                where: { tiktokImageId: { in: imageIds } },
+                select: { id: true, tiktokImageId: true },
+              })
+            : Promise.resolve([]),
+          candidateAdTiktokIds.length
+            ? this.prisma.ad.findMany({
+                where: { tiktokId: { in: candidateAdTiktokIds } },
+                select: { tiktokId: true, status: true },
+              })
+            : Promise.resolve([]),
+        ]);
+        const adGroupMap = new Map<string, { id: string; tiktokId: string }>(
+          (adGroupList as any[]).map((g) => [g.tiktokId, g]),
+        );
+        const videoCreativeMap = new Map<string, { id: string }>(
+          (videoCreativeList as any[])
+            .filter((c) => c.tiktokVideoId)
+            .map((c) => [c.tiktokVideoId, { id: c.id }]),
+        );
+        const imageCreativeMap = new Map<string, { id: string }>(
+          (imageCreativeList as any[])
+            .filter((c) => c.tiktokImageId)
+            .map((c) => [c.tiktokImageId, { id: c.id }]),
+        );
+        const existingAdMap = new Map<string, { status: string }>(
+          (existingAdList as any[]).map((a) => [
+            a.tiktokId,
+            { status: a.status },
+          ]),
+        );
+        this.logger.log(
+          `Pre-fetch: ${adGroupMap.size} adgroups, ${videoCreativeMap.size} videos, ${imageCreativeMap.size} images, ${existingAdMap.size} existing ads`,
+        );
 
-            if (!adgroup) {
-              this.logger.warn(
-                `AdGroup ${ad.adgroup_id} not found, skipping ad ${ad.ad_id}`,
-              );
-              continue;
-            }
+        for (const ad of ads) {
+          const adgroup = adGroupMap.get(String(ad.adgroup_id));
 
-            // Creativeを処理（既存のCreativeがあればそれを使用、なければ作成）
-            let creativeId: string | null = null;
-            if (ad.video_id) {
-              const creative = videoCreativeMap.get(ad.video_id);
-
-              if (!creative) {
-                const newCreative = await this.prisma.creative.create({
-                  data: {
-                    advertiserId: advertiser.id,
-                    name: `Video ${ad.video_id}`,
-                    type: 'VIDEO',
-                    tiktokVideoId: ad.video_id,
-                    url: ad.video_id || '',
-                    filename: `video_${ad.video_id}`,
-                  },
-                });
-                creativeId = newCreative.id;
-                videoCreativeMap.set(ad.video_id, { id: newCreative.id });
-              } else {
-                creativeId = creative.id;
-              }
-            } else if (ad.image_ids && ad.image_ids.length > 0) {
-              const creative = imageCreativeMap.get(ad.image_ids[0]);
-
-              if (!creative) {
-                const newCreative = await this.prisma.creative.create({
-                  data: {
-                    advertiserId: advertiser.id,
-                    name: `Image ${ad.image_ids[0]}`,
-                    type: 'IMAGE',
-                    tiktokImageId: ad.image_ids[0],
-                    url: ad.image_ids[0] || '',
-                    filename: `image_${ad.image_ids[0]}`,
-                  },
-                });
-                creativeId = newCreative.id;
-                imageCreativeMap.set(ad.image_ids[0], { id: newCreative.id });
-              } else {
-                creativeId = creative.id;
-              }
-            }
+          if (!adgroup) {
+            this.logger.warn(
+              `AdGroup ${ad.adgroup_id} not found, skipping ad ${ad.ad_id}`,
+            );
+            continue;
+          }
 
-            if (!creativeId) {
-              this.logger.warn(
-                `No creative found for ad ${ad.ad_id}, skipping`,
-              );
-              continue;
-            }
+          // Creativeを処理（既存のCreativeがあればそれを使用、なければ作成）
+          let creativeId: string | null = null;
+          if (ad.video_id) {
+            const creative = videoCreativeMap.get(ad.video_id);
 
-            // Smart+ 広告の場合: smart_plus_ad_idをtiktokIdとして使用し、手動設定名を使用
-            // これにより、予算最適化で正しい広告名（日付/制作者/CR名/LP名）が使われる
-            const isSmartPlusAd = !!ad.smart_plus_ad_id;
-            const tiktokIdToUse = isSmartPlusAd
-              ? String(ad.smart_plus_ad_id)
-              : String(ad.ad_id);
-            const adNameToUse = isSmartPlusAd
-              ? smartPlusAdNameMap.get(String(ad.smart_plus_ad_id)) ||
-                ad.ad_name
-              : ad.ad_name;
-            // Smart+広告は smart_plus/ad/get APIのステータスを使用（親広告のステータスではなく素材個別のステータス）
-            const statusToUse = isSmartPlusAd
-              ? smartPlusAdStatusMap.get(String(ad.smart_plus_ad_id)) ||
-                ad.operation_status
-              : ad.operation_status;
-
-            if (isSmartPlusAd) {
-              this.logger.debug(
-                `Smart+ ad detected: ad_id=${ad.ad_id}, smart_plus_ad_id=${ad.smart_plus_ad_id}, name=${adNameToUse}, status=${statusToUse}`,
-              );
+            if (!creative) {
+              const newCreative = await this.prisma.creative.create({
+                data: {
+                  advertiserId: advertiser.id,
+                  name: `Video ${ad.video_id}`,
+                  type: 'VIDEO',
+                  tiktokVideoId: ad.video_id,
+                  url: ad.video_id || '',
+                  filename: `video_${ad.video_id}`,
+                },
+              });
+              creativeId = newCreative.id;
+              videoCreativeMap.set(ad.video_id, { id: newCreative.id });
+            } else {
+              creativeId = creative.id;
             }
+          } else if (ad.image_ids && ad.image_ids.length > 0) {
+            const creative = imageCreativeMap.get(ad.image_ids[0]);
 
-            // 手動停止検知: upsert前に既存レコードのstatusを確認（事前取得Mapから）
-            const existingAd = existingAdMap.get(tiktokIdToUse);
-            const wasEnabled =
-              existingAd && !existingAd.status.includes('DISABLE');
-            const isNowDisabled = statusToUse.includes('DISABLE');
-
-            await this.prisma.ad.upsert({
-              where: { tiktokId: tiktokIdToUse },
-              create: {
-                tiktokId: tiktokIdToUse,
-                adgroupId: adgroup.id,
-                name: adNameToUse,
-                creativeId,
-                adText: ad.ad_text,
-                callToAction: ad.call_to_action,
-                landingPageUrl: ad.landing_page_url,
-                displayName: ad.identity_id,
-                status: statusToUse,
-                reviewStatus: ad.app_download_status || 'APPROVED',
-              },
-              update: {
-                name: adNameToUse,
-                adText: ad.ad_text,
-                callToAction: ad.call_to_action,
-                landingPageUrl: ad.landing_page_url,
-                displayName: ad.identity_id,
-                status: statusToUse,
-                reviewStatus: ad.app_download_status || 'APPROVED',
-              },
-            });
-
-            // Smart+フォールバックで重複作成しないよう、Mapにも反映
-            existingAdMap.set(tiktokIdToUse, { status: statusToUse });
-
-            // ENABLE → DISABLE に変わった場合、ChangeLogに手動停止を記録
-            if (wasEnabled && isNowDisabled) {
-              await this.prisma.changeLog.create({
+            if (!creative) {
+              const newCreative = await this.prisma.creative.create({
                 data: {
-                  entityType: 'AD',
-                  entityId: tiktokIdToUse,
-                  action: 'PAUSE',
-                  source: 'MANUAL',
-                  reason: `手動停止検知 (${existingAd.status} → ${statusToUse})`,
-                  beforeData: { status: existingAd.status },
-                  afterData: { status: statusToUse },
+                  advertiserId: advertiser.id,
+                  name: `Image ${ad.image_ids[0]}`,
+                  type: 'IMAGE',
+                  tiktokImageId: ad.image_ids[0],
+                  url: ad.image_ids[0] || '',
+                  filename: `image_${ad.image_ids[0]}`,
                 },
               });
-              this.logger.log(
-                `手動停止検知: ${adNameToUse} (${tiktokIdToUse}): ${existingAd.status} → ${statusToUse}`,
-              );
+              creativeId = newCreative.id;
+              imageCreativeMap.set(ad.image_ids[0], { id: newCreative.id });
+            } else {
+              creativeId = creative.id;
             }
+          }
 
-            adsSynced++;
+          if (!creativeId) {
+            this.logger.warn(`No creative found for ad ${ad.ad_id}, skipping`);
+            continue;
           }
 
-          // Smart+ Adsのフォールバック同期
-          // 通常のad/get APIで取得できないSmart+広告がある場合のみ処理
-          // （通常は上記の処理でsmart_plus_ad_idを持つ広告は既に同期済み）
-          let smartPlusAdsSynced = 0;
-          try {
-            const smartPlusAds = await this.tiktokService.getAllSmartPlusAds(
-              token.advertiserId,
-              token.accessToken,
+          // Smart+ 広告の場合: smart_plus_ad_idをtiktokIdとして使用し、手動設定名を使用
+          // これにより、予算最適化で正しい広告名（日付/制作者/CR名/LP名）が使われる
+          const isSmartPlusAd = !!ad.smart_plus_ad_id;
+          const tiktokIdToUse = isSmartPlusAd
+            ? String(ad.smart_plus_ad_id)
+            : String(ad.ad_id);
+          const adNameToUse = isSmartPlusAd
+            ? smartPlusAdNameMap.get(String(ad.smart_plus_ad_id)) || ad.ad_name
+            : ad.ad_name;
+          // Smart+広告は smart_plus/ad/get APIのステータスを使用（親広告のステータスではなく素材個別のステータス）
+          const statusToUse = isSmartPlusAd
+            ? smartPlusAdStatusMap.get(String(ad.smart_plus_ad_id)) ||
+              ad.operation_status
+            : ad.operation_status;
+
+          if (isSmartPlusAd) {
+            this.logger.debug(
+              `Smart+ ad detected: ad_id=${ad.ad_id}, smart_plus_ad_id=${ad.smart_plus_ad_id}, name=${adNameToUse}, status=${statusToUse}`,
             );
+          }
+
+          // 手動停止検知: upsert前に既存レコードのstatusを確認（事前取得Mapから）
+          const existingAd = existingAdMap.get(tiktokIdToUse);
+          const wasEnabled =
+            existingAd && !existingAd.status.includes('DISABLE');
+          const isNowDisabled = statusToUse.includes('DISABLE');
+
+          await this.prisma.ad.upsert({
+            where: { tiktokId: tiktokIdToUse },
+            create: {
+              tiktokId: tiktokIdToUse,
+              adgroupId: adgroup.id,
+              name: adNameToUse,
+              creativeId,
+              adText: ad.ad_text,
+              callToAction: ad.call_to_action,
+              landingPageUrl: ad.landing_page_url,
+              displayName: ad.identity_id,
+              status: statusToUse,
+              reviewStatus: ad.app_download_status || 'APPROVED',
+            },
+            update: {
+              name: adNameToUse,
+              adText: ad.ad_text,
+              callToAction: ad.call_to_action,
+              landingPageUrl: ad.landing_page_url,
+              displayName: ad.identity_id,
+              status: statusToUse,
+              reviewStatus: ad.app_download_status || 'APPROVED',
+            },
+          });
+
+          // Smart+フォールバックで重複作成しないよう、Mapにも反映
+          existingAdMap.set(tiktokIdToUse, { status: statusToUse });
+
+          // ENABLE → DISABLE に変わった場合、監査ログに手動停止を記録
+          if (wasEnabled && isNowDisabled) {
+            await this.budgetAudit.record({
+              advertiserId: token.advertiserId,
+              entityType: 'AD',
+              entityId: tiktokIdToUse,
+              action: 'PAUSE',
+              source: 'MANUAL',
+              before: { status: 'ENABLE' },
+              after: { status: 'DISABLE' },
+              reason: `手動停止検知 (${existingAd.status} → ${statusToUse})`,
+            });
             this.logger.log(
-              `Checking ${smartPlusAds.length} Smart+ ads for fallback sync`,
+              `手動停止検知: ${adNameToUse} (${tiktokIdToUse}): ${existingAd.status} → ${statusToUse}`,
             );
+          }
 
-            // === Smart+ フォールバック用 pre-fetch ===
-            // adGroupMap はmain loopの物を再利用、不足分を追加取得
-            const spAdGroupIds = [
-              ...new Set(
-                smartPlusAds
-                  .map((a: any) => (a.adgroup_id ? String(a.adgroup_id) : null))
-                  .filter(Boolean) as string[],
-              ),
-            ];
-            const missingAdGroupIds = spAdGroupIds.filter(
-              (id) => !adGroupMap.has(id),
-            );
-            if (missingAdGroupIds.length > 0) {
-              const extra = await this.prisma.adGroup.findMany({
-                where: { tiktokId: { in: missingAdGroupIds } },
-                select: { id: true, tiktokId: true },
-              });
-              for (const g of extra) adGroupMap.set(g.tiktokId, g);
-            }
-            // Smart+ creative_list からvideo/image IDを抽出
-            const spVideoIds: string[] = [];
-            const spImageIds: string[] = [];
-            for (const spAd of smartPlusAds) {
-              const enabled = (spAd.creative_list ?? []).find(
-                (c: any) => c.material_operation_status === 'ENABLE',
-              );
-              const ci = enabled?.creative_info;
-              const vid = ci?.video_info?.video_id;
-              if (vid) spVideoIds.push(String(vid));
-              const imgs = ci?.image_info ?? [];
-              if (imgs.length > 0) {
-                const imgId = imgs[0].web_uri || imgs[0].image_id;
-                if (imgId) spImageIds.push(String(imgId));
-              }
-            }
-            const missingVideoIds = [
-              ...new Set(spVideoIds.filter((id) => !videoCreativeMap.has(id))),
-            ];
-            const missingImageIds = [
-              ...new Set(spImageIds.filter((id) => !imageCreativeMap.has(id))),
-            ];
-            if (missingVideoIds.length > 0) {
-              const extra = await this.prisma.creative.findMany({
-                where: { tiktokVideoId: { in: missingVideoIds } },
-                select: { id: true, tiktokVideoId: true },
-              });
-              for (const c of extra)
-                if (c.tiktokVideoId)
-                  videoCreativeMap.set(c.tiktokVideoId, { id: c.id });
-            }
-            if (missingImageIds.length > 0) {
-              const extra = await this.prisma.creative.findMany({
-                where: { tiktokImageId: { in: missingImageIds } },
-                select: { id: true, tiktokImageId: true },
-              });
-              for (const c of extra)
-                if (c.tiktokImageId)
-                  imageCreativeMap.set(c.tiktokImageId, { id: c.id });
-            }
-            // Smart+ 既存ad用Map: main loopのexistingAdMapを再利用。不足IDを追加取得
-            const spCandidateIds = smartPlusAds
-              .map((a: any) => String(a.smart_plus_ad_id || a.ad_id))
-              .filter(Boolean);
-            const missingSpIds = spCandidateIds.filter(
-              (id) => !existingAdMap.has(id),
+          adsSynced++;
+        }
+
+        // Smart+ Adsのフォールバック同期
+        // 通常のad/get APIで取得できないSmart+広告がある場合のみ処理
+        // （通常は上記の処理でsmart_plus_ad_idを持つ広告は既に同期済み）
+        let smartPlusAdsSynced = 0;
+        try {
+          const smartPlusAds = await this.tiktokService.getAllSmartPlusAds(
+            token.advertiserId,
+            token.accessToken,
+          );
+          this.logger.log(
+            `Checking ${smartPlusAds.length} Smart+ ads for fallback sync`,
+          );
+
+          // === Smart+ フォールバック用 pre-fetch ===
+          // adGroupMap はmain loopの物を再利用、不足分を追加取得
+          const spAdGroupIds = [
+            ...new Set(
+              smartPlusAds
+                .map((a: any) => (a.adgroup_id ? String(a.adgroup_id) : null))
+                .filter(Boolean) as string[],
+            ),
+          ];
+          const missingAdGroupIds = spAdGroupIds.filter(
+            (id) => !adGroupMap.has(id),
+          );
+          if (missingAdGroupIds.length > 0) {
+            const extra = await this.prisma.adGroup.findMany({
+              where: { tiktokId: { in: missingAdGroupIds } },
+              select: { id: true, tiktokId: true },
+            });
+            for (const g of extra) adGroupMap.set(g.tiktokId, g);
+          }
+          // Smart+ creative_list からvideo/image IDを抽出
+          const spVideoIds: string[] = [];
+          const spImageIds: string[] = [];
+          for (const spAd of smartPlusAds) {
+            const enabled = (spAd.creative_list ?? []).find(
+              (c: any) => c.material_operation_status === 'ENABLE',
             );
-            if (missingSpIds.length > 0) {
-              const extra = await this.prisma.ad.findMany({
-                where: { tiktokId: { in: missingSpIds } },
-                select: { tiktokId: true, status: true },
-              });
-              for (const a of extra)
-                existingAdMap.set(a.tiktokId, { status: a.status });
+            const ci = enabled?.creative_info;
+            const vid = ci?.video_info?.video_id;
+            if (vid) spVideoIds.push(String(vid));
+            const imgs = ci?.image_info ?? [];
+            if (imgs.length > 0) {
+              const imgId = imgs[0].web_uri || imgs[0].image_id;
+              if (imgId) spImageIds.push(String(imgId));
             }
+          }
+          const missingVideoIds = [
+            ...new Set(spVideoIds.filter((id) => !videoCreativeMap.has(id))),
+          ];
+          const missingImageIds = [
+            ...new Set(spImageIds.filter((id) => !imageCreativeMap.has(id))),
+          ];
+          if (missingVideoIds.length > 0) {
+            const extra = await this.prisma.creative.findMany({
+              where: { tiktokVideoId: { in: missingVideoIds } },
+              select: { id: true, tiktokVideoId: true },
+            });
+            for (const c of extra)
+              if (c.tiktokVideoId)
+                videoCreativeMap.set(c.tiktokVideoId, { id: c.id });
+          }
+          if (missingImageIds.length > 0) {
+            const extra = await this.prisma.creative.findMany({
+              where: { tiktokImageId: { in: missingImageIds } },
+              select: { id: true, tiktokImageId: true },
+            });
+            for (const c of extra)
+              if (c.tiktokImageId)
+                imageCreativeMap.set(c.tiktokImageId, { id: c.id });
+          }
+          // Smart+ 既存ad用Map: main loopのexistingAdMapを再利用。不足IDを追加取得
+          const spCandidateIds = smartPlusAds
+            .map((a: any) => String(a.smart_plus_ad_id || a.ad_id))
+            .filter(Boolean);
+          const missingSpIds = spCandidateIds.filter(
+            (id) => !existingAdMap.has(id),
+          );
+          if (missingSpIds.length > 0) {
+            const extra = await this.prisma.ad.findMany({
+              where: { tiktokId: { in: missingSpIds } },
+              select: { tiktokId: true, status: true },
+            });
+            for (const a of extra)
+              existingAdMap.set(a.tiktokId, { status: a.status });
+          }
 
-            for (const ad of smartPlusAds) {
-              // Smart+ AdのIDを決定（smart_plus_ad_id を優先）
-              const adId = ad.smart_plus_ad_id || ad.ad_id;
-              if (!adId) {
-                this.logger.warn(`Smart+ ad has no ID, skipping`);
-                continue;
-              }
+          for (const ad of smartPlusAds) {
+            // Smart+ AdのIDを決定（smart_plus_ad_id を優先）
+            const adId = ad.smart_plus_ad_id || ad.ad_id;
+            if (!adId) {
+              this.logger.warn(`Smart+ ad has no ID, skipping`);
+              continue;
+            }
 
-              // 既にDBに存在する場合はスキップ（通常広告同期で既に処理済み）
-              if (existingAdMap.has(String(adId))) {
-                continue;
-              }
+            // 既にDBに存在する場合はスキップ（通常広告同期で既に処理済み）
+            if (existingAdMap.has(String(adId))) {
+              continue;
+            }
 
-              // AdGroupを探す
-              if (!ad.adgroup_id) {
-                this.logger.warn(
-                  `Smart+ ad ${adId} (${ad.ad_name}) has no adgroup_id, skipping`,
-                );
-                continue;
-              }
+            // AdGroupを探す
+            if (!ad.adgroup_id) {
+              this.logger.warn(
+                `Smart+ ad ${adId} (${ad.ad_name}) has no adgroup_id, skipping`,
+              );
+              continue;
+            }
 
-              const adgroup = adGroupMap.get(String(ad.adgroup_id));
+            const adgroup = adGroupMap.get(String(ad.adgroup_id));
 
-              if (!adgroup) {
-                this.logger.warn(
-                  `AdGroup ${ad.adgroup_id} not found for Smart+ ad ${adId} (${ad.ad_name}), skipping`,
-                );
-                continue;
-              }
+            if (!adgroup) {
+              this.logger.warn(
+                `AdGroup ${ad.adgroup_id} not found for Smart+ ad ${adId} (${ad.ad_name}), skipping`,
+              );
+              continue;
+            }
 
-              // Creativeを処理（Smart+ 広告は creative_list から取得）
-              let creativeId: string | null = null;
+            // Creativeを処理（Smart+ 広告は creative_list から取得）
+            let creativeId: string | null = null;
 
-              // creative_list から最初の有効なクリエイティブを取得
-              const creativeList = ad.creative_list || [];
-              const enabledCreative = creativeList.find(
-                (c: any) => c.material_operation_status === 'ENABLE',
-              );
+            // creative_list から最初の有効なクリエイティブを取得
+            const creativeList = ad.creative_list || [];
+            const enabledCreative = creativeList.find(
+              (c: any) => c.material_operation_status === 'ENABLE',
+            );
 
-              if (enabledCreative?.creative_info) {
-                const creativeInfo = enabledCreative.creative_info;
-                const videoId = creativeInfo.video_info?.video_id;
-                const imageInfo = creativeInfo.image_info;
+            if (enabledCreative?.creative_info) {
+              const creativeInfo = enabledCreative.creative_info;
+              const videoId = creativeInfo.video_info?.video_id;
+              const imageInfo = creativeInfo.image_info;
+
+              if (videoId) {
+                const creative = videoCreativeMap.get(String(videoId));
+
+                if (!creative) {
+                  const newCreative = await this.prisma.creative.create({
+                    data: {
+                      advertiserId: advertiser.id,
+                      name: creativeInfo.material_name || `Video ${videoId}`,
+                      type: 'VIDEO',
+                      tiktokVideoId: videoId,
+                      url: videoId || '',
+                      filename: `video_${videoId}`,
+                    },
+                  });
+                  creativeId = newCreative.id;
+                  videoCreativeMap.set(String(videoId), {
+                    id: newCreative.id,
+                  });
+                } else {
+                  creativeId = creative.id;
+                }
+              } else if (imageInfo && imageInfo.length > 0) {
+                // image_info から web_uri を取得してIDとして使用
+                const imageId = imageInfo[0].web_uri || imageInfo[0].image_id;
 
-                if (videoId) {
-                  const creative = videoCreativeMap.get(String(videoId));
+                if (imageId) {
+                  const creative = imageCreativeMap.get(String(imageId));
 
                   if (!creative) {
                     const newCreative = await this.prisma.creative.create({
                       data: {
                         advertiserId: advertiser.id,
-                        name: creativeInfo.material_name || `Video ${videoId}`,
-                        type: 'VIDEO',
-                        tiktokVideoId: videoId,
-                        url: videoId || '',
-                        filename: `video_${videoId}`,
+                        name: creativeInfo.material_name || `Image ${imageId}`,
+                        type: 'IMAGE',
+                        tiktokImageId: imageId,
+                        url: imageId || '',
+                        filename: `image_${imageId}`,
                       },
                     });
                     creativeId = newCreative.id;
-                    videoCreativeMap.set(String(videoId), {
+                    imageCreativeMap.set(String(imageId), {
                       id: newCreative.id,
                     });
                   } else {
                     creativeId = creative.id;
                   }
-                } else if (imageInfo && imageInfo.length > 0) {
-                  // image_info から web_uri を取得してIDとして使用
-                  const imageId = imageInfo[0].web_uri || imageInfo[0].image_id;
-
-                  if (imageId) {
-                    const creative = imageCreativeMap.get(String(imageId));
-
-                    if (!creative) {
-                      const newCreative = await this.prisma.creative.create({
-                        data: {
-                          advertiserId: advertiser.id,
-                          name:
-                            creativeInfo.material_name || `Image ${imageId}`,
-                          type: 'IMAGE',
-                          tiktokImageId: imageId,
-                          url: imageId || '',
-                          filename: `image_${imageId}`,
-                        },
-                      });
-                      creativeId = newCreative.id;
-                      imageCreativeMap.set(String(imageId), {
-                        id: newCreative.id,
-                      });
-                    } else {
-                      creativeId = creative.id;
-                    }
-                  }
                 }
               }
+            }
 
-              if (!creativeId) {
-                // 詳細なログを出力して原因を特定しやすくする
-                this.logger.warn(
-                  `No creative found for Smart+ ad ${adId} (${ad.ad_name}), skipping`,
-                );
+            if (!creativeId) {
+              // 詳細なログを出力して原因を特定しやすくする
+              this.logger.warn(
+                `No creative found for Smart+ ad ${adId} (${ad.ad_name}), skipping`,
+              );
+              this.logger.warn(
+                `  - creative_list length: ${creativeList.length}`,
+              );
+              this.logger.warn(
+                `  - enabledCreative: ${enabledCreative ? 'found' : 'not found'}`,
+              );
+              if (enabledCreative?.creative_info) {
+                const ci = enabledCreative.creative_info;
                 this.logger.warn(
-                  `  - creative_list length: ${creativeList.length}`,
+                  `  - video_id: ${ci.video_info?.video_id || 'none'}`,
                 );
                 this.logger.warn(
-                  `  - enabledCreative: ${enabledCreative ? 'found' : 'not found'}`,
+                  `  - image_info: ${ci.image_info ? 'exists' : 'none'}`,
                 );
-                if (enabledCreative?.creative_info) {
-                  const ci = enabledCreative.creative_info;
-                  this.logger.warn(
-                    `  - video_id: ${ci.video_info?.video_id || 'none'}`,
-                  );
-                  this.logger.warn(
-                    `  - image_info: ${ci.image_info ? 'exists' : 'none'}`,
-                  );
-                }
-                continue;
               }
-
-              // Smart+ Adを作成（tiktokIdにはsmart_plus_ad_idを使用）
-              await this.prisma.ad.create({
-                data: {
-                  tiktokId: String(adId),
-                  adgroupId: adgroup.id,
-                  name: ad.ad_name,
-                  creativeId,
-                  adText: ad.ad_text_list?.[0]?.ad_text,
-                  callToAction: ad.ad_configuration?.call_to_action_id,
-                  landingPageUrl:
-                    ad.landing_page_url_list?.[0]?.landing_page_url,
-                  displayName: enabledCreative?.creative_info?.identity_id,
-                  status: ad.operation_status,
-                  reviewStatus: 'APPROVED',
-                },
-              });
-              existingAdMap.set(String(adId), { status: ad.operation_status });
-              smartPlusAdsSynced++;
-              this.logger.log(
-                `Fallback synced Smart+ ad: ${ad.ad_name} (${adId})`,
-              );
+              continue;
             }
 
-            if (smartPlusAdsSynced > 0) {
-              this.logger.log(
-                `Fallback synced ${smartPlusAdsSynced} Smart+ ads for ${token.advertiserId}`,
-              );
-            }
-          } catch (error) {
-            this.logger.error(
-              `Failed to sync Smart+ ads for ${token.advertiserId}:`,
-              error.message,
+            // Smart+ Adを作成（tiktokIdにはsmart_plus_ad_idを使用）
+            await this.prisma.ad.create({
+              data: {
+                tiktokId: String(adId),
+                adgroupId: adgroup.id,
+                name: ad.ad_name,
+                creativeId,
+                adText: ad.ad_text_list?.[0]?.ad_text,
+                callToAction: ad.ad_configuration?.call_to_action_id,
+                landingPageUrl: ad.landing_page_url_list?.[0]?.landing_page_url,
+                displayName: enabledCreative?.creative_info?.identity_id,
+                status: ad.operation_status,
+                reviewStatus: 'APPROVED',
+              },
+            });
+            existingAdMap.set(String(adId), { status: ad.operation_status });
+            smartPlusAdsSynced++;
+            this.logger.log(
+              `Fallback synced Smart+ ad: ${ad.ad_name} (${adId})`,
             );
           }
 
-          totalCampaigns += campaignsSynced;
-          totalAdgroups += adgroupsSynced;
-          totalAds += adsSynced + smartPlusAdsSynced;
-
-          this.logger.log(
-            `Synced for ${token.advertiserId}: ${campaignsSynced} campaigns, ${adgroupsSynced} adgroups, ${adsSynced} regular ads, ${smartPlusAdsSynced} Smart+ ads`,
-          );
+          if (smartPlusAdsSynced > 0) {
+            this.logger.log(
+              `Fallback synced ${smartPlusAdsSynced} Smart+ ads for ${token.advertiserId}`,
+            );
+          }
         } catch (error) {
           this.logger.error(
-            `Failed to sync entities for ${token.advertiserId}:`,
+            `Failed to sync Smart+ ads for ${token.advertiserId}:`,
             error.message,
           );
-          errorCount++;
         }
-      }
 
-      this.logger.log(
-        `Daily entity sync completed. Total: ${totalCampaigns} campaigns, ${totalAdgroups} adgroups, ${totalAds} ads. Errors: ${errorCount}`,
+        totalCampaigns += campaignsSynced;
+        totalAdgroups += adgroupsSynced;
+        totalAds += adsSynced + smartPlusAdsSynced;
+
+        this.logger.log(
+          `Synced for ${token.advertiserId}: ${campaignsSynced} campaigns, ${adgroupsSynced} adgroups, ${adsSynced} regular ads, ${smartPlusAdsSynced} Smart+ ads`,
+        );
+        return {
+          campaigns: campaignsSynced,
+          adgroups: adgroupsSynced,
+          ads: adsSynced + smartPlusAdsSynced,
+        };
+      },
+      { summarize: (synced) => synced },
+    );
+
+    const failed = outcomes.filter((o) => o.status === 'FAILED');
+    for (const outcome of failed) {
+      this.logger.error(
+        `Failed to sync entities for ${outcome.advertiserId}: ${outcome.error}`,
       );
+    }
 
-      // ===== 新機能: AdPerformance 初期化 =====
-      if (this.configService.get('FEATURE_AD_PERFORMANCE_ENABLED') === 'true') {
-        try {
-          this.logger.log('Starting AdPerformance initialization...');
-          await this.adPerformanceService.initializeAllNewAdPerformances();
-          this.logger.log('AdPerformance initialization completed');
-        } catch (error) {
-          // 新機能のエラーは既存処理に影響させない
-          this.logger.error(
-            'AdPerformance initialization failed:',
-            error.message,
-          );
-        }
+    this.logger.log(
+      `Daily entity sync completed. Total: ${totalCampaigns} campaigns, ${totalAdgroups} adgroups, ${totalAds} ads. Errors: ${failed.length}`,
+    );
+
+    // ===== 新機能: AdPerformance 初期化 =====
+    if (this.configService.get('FEATURE_AD_PERFORMANCE_ENABLED') === 'true') {
+      try {
+        this.logger.log('Starting AdPerformance initialization...');
+        await this.adPerformanceService.initializeAllNewAdPerformances();
+        this.logger.log('AdPerformance initialization completed');
+      } catch (error) {
+        // 新機能のエラーは既存処理に影響させない
+        this.logger.error(
+          'AdPerformance initialization failed:',
+          error.message,
+        );
       }
-    } catch (error) {
-      this.logger.error('Failed to execute daily entity sync:', error);
-    } finally {
-      batchJobLock.release('daily-entity-sync');
-      this.logger.log('Entity sync job lock released');
     }
   }
 
@@ -733,71 +747,62 @@ export class SchedulerService implements OnModuleInit {
     name: 'daily-report-fetch',
     timeZone: 'Asia/Tokyo',
   })
-  async scheduleDailyReportFetch() {
-    const jobName = 'daily-report-fetch';
-
-    // S-01: 同時実行競合チェック（ロック機能統一 - batchJobLockのみ使用）
-    // タイムアウトを30分に延長（大量データ処理対応）
-    if (!batchJobLock.acquire(jobName, 1800000)) {
-      // 30分タイムアウト
-      const lockStartTime = batchJobLock.getLockStartTime(jobName);
+  async scheduleDailyReportFetch(trigger: JobTrigger = 'CRON') {
+    // S-01: 同時実行競合チェック（job_locks テーブルのロック。前回の実行中はスキップ）
+    const outcome = await this.jobQueue.run(
+      'daily-report-fetch',
+      (run) => this.runDailyReportFetch(run),
+      { trigger },
+    );
+    if (outcome.status === 'SKIPPED') {
       this.logger.warn(
-        `[S-01] Previous report fetch job is still running (started: ${lockStartTime?.toISOString()}). Skipping...`,
+        '[S-01] Previous report fetch job is still running. Skipping...',
       );
-      return;
     }
+    return outcome;
+  }
 
+  /** 日次レポート取得の本体（広告アカウント単位でリトライ・結果記録） */
+  private async runDailyReportFetch(run: JobRunContext) {
     this.logger.log('Starting daily report fetch batch job');
 
-    try {
-      // データベースから全ての有効なOAuthTokenを取得
-      const oauthTokens = await this.prisma.oAuthToken.findMany({
-        where: {
-          expiresAt: {
-            gt: new Date(),
-          },
-        },
-        select: {
-          advertiserId: true,
-          accessToken: true,
-        },
-      });
+    // データベースから全ての有効なOAuthTokenを取得
+    const oauthTokens = await this.tokenVault.findActive();
 
-      if (oauthTokens.length === 0) {
-        this.logger.warn('No active advertisers found. Skipping report fetch.');
-        return;
-      }
+    if (oauthTokens.length === 0) {
+      this.logger.warn('No active advertisers found. Skipping report fetch.');
+      return;
+    }
+
+    // 過去7日間のデータを取得（JST基準で正しく計算）
+    const now = new Date();
+    const jstOffset = 9 * 60 * 60 * 1000; // JSTはUTC+9時間
+    const jstNow = new Date(now.getTime() + jstOffset);
+
+    // JST基準で昨日と7日前を計算
+    const endDateJST = new Date(jstNow);
+    endDateJST.setUTCDate(endDateJST.getUTCDate() - 1); // 昨日
+    const startDateJST = new Date(jstNow);
+    startDateJST.setUTCDate(startDateJST.getUTCDate() - 7); // 7日前
+
+    const startDateStr = startDateJST.toISOString().split('T')[0];
+    const endDateStr = endDateJST.toISOString().split('T')[0];
+
+    const dataLevels: Array<
+      'AUCTION_CAMPAIGN' | 'AUCTION_ADGROUP' | 'AUCTION_AD'
+    > = ['AUCTION_CAMPAIGN', 'AUCTION_ADGROUP', 'AUCTION_AD'];
+
+    // 広告アカウント別の結果（リトライした場合は最後の試行の結果）
+    const resultsByAdvertiser = new Map<string, DailyReportResult[]>();
+
+    // 各Advertiserとデータレベルに対してレポートを取得
+    await run.forEachAdvertiser(
+      oauthTokens,
+      (token) => token.advertiserId,
+      async (token) => {
+        const advertiserResults: DailyReportResult[] = [];
+        resultsByAdvertiser.set(token.advertiserId, advertiserResults);
 
-      // 過去7日間のデータを取得（JST基準で正しく計算）
-      const now = new Date();
-      const jstOffset = 9 * 60 * 60 * 1000; // JSTはUTC+9時間
-      const jstNow = new Date(now.getTime() + jstOffset);
-
-      // JST基準で昨日と7日前を計算
-      const endDateJST = new Date(jstNow);
-      endDateJST.setUTCDate(endDateJST.getUTCDate() - 1); // 昨日
-      const startDateJST = new Date(jstNow);
-      startDateJST.setUTCDate(startDateJST.getUTCDate() - 7); // 7日前
-
-      const startDateStr = startDateJST.toISOString().split('T')[0];
-      const endDateStr = endDateJST.toISOString().split('T')[0];
-
-      const dataLevels: Array<
-        'AUCTION_CAMPAIGN' | 'AUCTION_ADGROUP' | 'AUCTION_AD'
-      > = ['AUCTION_CAMPAIGN', 'AUCTION_ADGROUP', 'AUCTION_AD'];
-
-      let successCount = 0;
-      let errorCount = 0;
-      const results: Array<{
-        advertiserId: string;
-        dataLevel: string;
-        status: 'success' | 'empty' | 'error';
-        recordCount?: number;
-        error?: string;
-      }> = [];
-
-      // 各Advertiserとデータレベルに対してレポートを取得
-      for (const token of oauthTokens) {
         for (const dataLevel of dataLevels) {
           try {
             this.logger.log(
@@ -825,8 +830,7 @@ export class SchedulerService implements OnModuleInit {
               this.logger.log(
                 `Successfully saved ${reportData.length} metrics for ${token.advertiserId} - ${dataLevel}`,
               );
-              successCount++;
-              results.push({
+              advertiserResults.push({
                 advertiserId: token.advertiserId,
                 dataLevel,
                 status: 'success',
@@ -836,7 +840,7 @@ export class SchedulerService implements OnModuleInit {
               this.logger.warn(
                 `No data returned for ${token.advertiserId} - ${dataLevel}`,
               );
-              results.push({
+              advertiserResults.push({
                 advertiserId: token.advertiserId,
                 dataLevel,
                 status: 'empty',
@@ -848,8 +852,7 @@ export class SchedulerService implements OnModuleInit {
               `Failed to fetch/save report for ${token.advertiserId} - ${dataLevel}:`,
               error.message,
             );
-            errorCount++;
-            results.push({
+            advertiserResults.push({
               advertiserId: token.advertiserId,
               dataLevel,
               status: 'error',
@@ -885,8 +888,7 @@ export class SchedulerService implements OnModuleInit {
             this.logger.log(
               `Successfully saved ${smartPlusMetrics.length} Smart+ metrics for ${token.advertiserId}`,
             );
-            successCount++;
-            results.push({
+            advertiserResults.push({
               advertiserId: token.advertiserId,
               dataLevel: 'SMART_PLUS',
               status: 'success',
@@ -896,7 +898,7 @@ export class SchedulerService implements OnModuleInit {
             this.logger.warn(
               `No Smart+ metrics returned for ${token.advertiserId}`,
             );
-            results.push({
+            advertiserResults.push({
               advertiserId: token.advertiserId,
               dataLevel: 'SMART_PLUS',
               status: 'empty',
@@ -908,54 +910,71 @@ export class SchedulerService implements OnModuleInit {
             `Failed to fetch/save Smart+ metrics for ${token.advertiserId}:`,
             error.message,
           );
-          errorCount++;
-          results.push({
+          advertiserResults.push({
             advertiserId: token.advertiserId,
             dataLevel: 'SMART_PLUS',
             status: 'error',
             error: error?.message ?? String(error),
           });
         }
-      }
 
-      this.logger.log(
-        `Daily report fetch completed. Success: ${successCount}, Errors: ${errorCount}`,
-      );
-
-      // S-03: 部分的同期失敗の警告
-      if (errorCount > 0 && successCount > 0) {
-        this.logger.warn(
-          `[S-03] Partial sync failure: ${errorCount} out of ${successCount + errorCount} operations failed`,
+        // いずれかのデータレベルが失敗した広告アカウントは失敗として記録（再実行の対象）
+        const errors = advertiserResults.filter(
+          (result) => result.status === 'error',
         );
-      }
-
-      (this as any)._lastDailyReportSummary = {
-        startDate: startDateStr,
-        endDate: endDateStr,
-        successCount,
-        errorCount,
-        results,
-      };
-
-      // ===== 新機能: 広告パフォーマンス分析 =====
-      if (this.configService.get('FEATURE_AD_PERFORMANCE_ENABLED') === 'true') {
-        try {
-          this.logger.log('Starting AdPerformance analysis...');
-          // 累計パフォーマンスを更新
-          await this.adPerformanceService.updateAllAdPerformances();
-          // CPA乖離と消化額トリガーをチェック
-          await this.adPerformanceService.checkAllDeviationsAndTriggers();
-          this.logger.log('AdPerformance analysis completed');
-        } catch (error) {
-          // 新機能のエラーは既存処理に影響させない
-          this.logger.error('AdPerformance analysis failed:', error.message);
+        if (errors.length > 0) {
+          throw new Error(
+            errors.map((e) => `${e.dataLevel}: ${e.error}`).join('; '),
+          );
         }
+        return advertiserResults;
+      },
+      {
+        summarize: (advertiserResults) =>
+          advertiserResults.map((result) => ({
+            dataLevel: result.dataLevel,
+            status: result.status,
+            recordCount: result.recordCount ?? null,
+          })),
+      },
+    );
+
+    const results = [...resultsByAdvertiser.values()].flat();
+    const successCount = results.filter((r) => r.status === 'success').length;
+    const errorCount = results.filter((r) => r.status === 'error').length;
+
+    this.logger.log(
+      `Daily report fetch completed. Success: ${successCount}, Errors: ${errorCount}`,
+    );
+
+    // S-03: 部分的同期失敗の警告
+    if (errorCount > 0 && successCount > 0) {
+      this.logger.warn(
+        `[S-03] Partial sync failure: ${errorCount} out of ${successCount + errorCount} operations failed`,
+      );
+    }
+
+    (this as any)._lastDailyReportSummary = {
+      startDate: startDateStr,
+      endDate: endDateStr,
+      successCount,
+      errorCount,
+      results,
+    };
+
+    // ===== 新機能: 広告パフォーマンス分析 =====
+    if (this.configService.get('FEATURE_AD_PERFORMANCE_ENABLED') === 'true') {
+      try {
+        this.logger.log('Starting AdPerformance analysis...');
+        // 累計パフォーマンスを更新
+        await this.adPerformanceService.updateAllAdPerformances();
+        // CPA乖離と消化額トリガーをチェック
+        await this.adPerformanceService.checkAllDeviationsAndTriggers();
+        this.logger.log('AdPerformance analysis completed');
+      } catch (error) {
+        // 新機能のエラーは既存処理に影響させない
+        this.logger.error('AdPerformance analysis failed:', error.message);
       }
-    } catch (error) {
-      this.logger.error('Failed to execute daily report fetch:', error);
-    } finally {
-      batchJobLock.release('daily-report-fetch');
-      this.logger.log('Report fetch job lock released');
     }
   }
 
@@ -11,7 +11,8 @@ const logger = new Logger('Bootstrap');
 let isShuttingDown = false;
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Webhook の署名検証に受信したままのリクエストボディを使う
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // CORS設定
   app.enableCors({
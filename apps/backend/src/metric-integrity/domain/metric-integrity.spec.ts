@@ -0,0 +1,152 @@
+import {
+  findDuplicates,
+  findOrphans,
+  findSpendMismatches,
+  findZombies,
+  metricEntityKey,
+  statusOnRedetect,
+  type IntegrityMetricRow,
+} from './metric-integrity';
+
+let seq = 0;
+
+/** AD 行（statDate は JST の日付の UTC 0時） */
+function row(
+  date: string,
+  overrides: Partial<IntegrityMetricRow> = {},
+): IntegrityMetricRow {
+  seq++;
+  return {
+    id: `m${seq}`,
+    entityType: 'AD',
+    adId: 'ad-1',
+    statDate: new Date(`${date}T00:00:00.000Z`),
+    spend: 5000,
+    impressions: 10000,
+    conversions: 2,
+    createdAt: new Date(Date.UTC(2026, 2, 20, 0, 0, seq)),
+    advertiserId: 'adv-1',
+    ...overrides,
+  };
+}
+
+describe('metricEntityKey', () => {
+  it('entityType に対応するIDと登録経路でキーを作り、IDがなければ null', () => {
+    expect(metricEntityKey({ entityType: 'AD', adId: 'a1' })).toBe('AD:a1:');
+    expect(
+      metricEntityKey({
+        entityType: 'CAMPAIGN',
+        campaignId: 'c1',
+        adId: 'ignored',
+        registrationPath: 'TikTok広告-AI-LP1',
+      }),
+    ).toBe('CAMPAIGN:c1:TikTok広告-AI-LP1');
+    expect(metricEntityKey({ entityType: 'ADGROUP', adId: 'a1' })).toBeNull();
+    expect(metricEntityKey({ entityType: 'ADVERTISER' })).toBeNull();
+  });
+});
+
+describe('findDuplicates', () => {
+  it('UTC 0時・JST 0時で揺れた行も同じ日として、最後に保存した行を残す', () => {
+    const older = row('2026-03-10');
+    const jstMidnight = row('2026-03-10', {
+      statDate: new Date('2026-03-09T15:00:00.000Z'),
+      spend: 5200,
+    });
+    const otherDay = row('2026-03-11');
+
+    const [finding, ...rest] = findDuplicates([older, jstMidnight, otherDay]);
+
+    expect(rest).toEqual([]);
+    expect(finding).toMatchObject({
+      kind: 'DUPLICATE',
+      action: 'DELETE',
+      dedupKey: 'DUPLICATE:AD:ad-1::2026-03-10',
+      statDate: '2026-03-10',
+      metricIds: [older.id],
+      details: { keepId: jstMidnight.id, rows: 2 },
+    });
+  });
+});
+
+describe('findZombies', () => {
+  it('連続した日で同じ値の行は先頭の日だけ残し、日が飛んだら別扱い', () => {
+    const first = row('2026-03-01');
+    const second = row('2026-03-02', { spend: 5000.4 });
+    const third = row('2026-03-03');
+    const changed = row('2026-03-04', { spend: 3000 });
+    // 1日空いているので同値でもゾンビとしない
+    const gap = row('2026-03-06', { spend: 3000 });
+
+    const findings = findZombies([third, first, changed, second, gap]);
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        kind: 'ZOMBIE',
+        dedupKey: 'ZOMBIE:AD:ad-1::2026-03-01',
+        metricIds: [second.id, third.id],
+        details: expect.objectContaining({
+          from: '2026-03-01',
+          to: '2026-03-03',
+          days: 3,
+          phantomSpend: 10000,
+        }),
+      }),
+    ]);
+    // 消化0の日が続くのは正常
+    expect(
+      findZombies([
+        row('2026-03-01', { spend: 0, impressions: 0, conversions: 0 }),
+        row('2026-03-02', { spend: 0, impressions: 0, conversions: 0 }),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe('findOrphans', () => {
+  it('entityType のIDがない行を削除候補にする', () => {
+    const orphan = row('2026-03-01', { adId: null, campaignId: 'c1' });
+    expect(findOrphans([row('2026-03-01'), orphan])).toEqual([
+      expect.objectContaining({
+        kind: 'ORPHAN',
+        dedupKey: `ORPHAN:${orphan.id}`,
+        metricIds: [orphan.id],
+      }),
+    ]);
+  });
+});
+
+describe('findSpendMismatches', () => {
+  it('許容差を超えた広告×日を、DBにだけある消化額は削除・それ以外は取り直しにする', () => {
+    const findings = findSpendMismatches(
+      'adv-1',
+      [
+        { adId: 'a', date: '2026-03-01', spend: 10050, metricIds: ['m-a'] },
+        { adId: 'b', date: '2026-03-01', spend: 8000, metricIds: ['m-b'] },
+        { adId: 'c', date: '2026-03-01', spend: 4000, metricIds: ['m-c'] },
+      ],
+      [
+        { adId: 'a', date: '2026-03-01', spend: 10000 },
+        { adId: 'b', date: '2026-03-01', spend: 12000 },
+        { adId: 'd', date: '2026-03-01', spend: 3000 },
+      ],
+    );
+
+    expect(
+      findings.map((f) => [f.entityId, f.action, f.metricIds, f.details]),
+    ).toEqual([
+      ['b', 'RESYNC', [], { dbSpend: 8000, reportSpend: 12000, diff: -4000 }],
+      ['c', 'DELETE', ['m-c'], { dbSpend: 4000, reportSpend: 0, diff: 4000 }],
+      ['d', 'RESYNC', [], { dbSpend: 0, reportSpend: 3000, diff: -3000 }],
+    ]);
+  });
+});
+
+describe('statusOnRedetect', () => {
+  it('却下済みはそのまま、適用済み・失敗は再発としてレビューに戻す', () => {
+    expect(statusOnRedetect('REJECTED')).toBe('REJECTED');
+    expect(statusOnRedetect('APPROVED')).toBe('APPROVED');
+    expect(statusOnRedetect('APPLIED')).toBe('PENDING');
+    expect(statusOnRedetect('RESOLVED')).toBe('PENDING');
+  });
+});
@@ -0,0 +1,353 @@
+// ============================================================================
+// メトリクス整合性チェック - 純粋関数のみ
+//
+// Metric は (entityType, エンティティID, statDate, 登録経路) で1行。一意キー導入前の
+// 保存処理や Smart+ の7日合計バグで入った重複・ゾンビ行と、エンティティを辿れない
+// 孤立行、TikTok のレポートと消化額が合わない広告×日を修復候補として洗い出す
+// ============================================================================
+
+import { toJstDate } from '../../conversion-ledger/domain/conversion-ledger';
+import { addDays } from '../../dashboard/domain/dashboard';
+
+/** チェックする期間の既定（昨日までの日数） */
+export const DEFAULT_CHECK_DAYS = 14;
+export const MAX_CHECK_DAYS = 60;
+
+/** レポートと突き合わせる期間（昨日までの日数。Smart+ は1日ずつ取得するため短め） */
+export const SPEND_CHECK_DAYS = 7;
+
+/** DBとレポートの消化額の差の許容（円・レポート値に対する割合の大きい方） */
+export const SPEND_TOLERANCE = { absolute: 100, ratio: 0.01 };
+
+export type RepairKind = 'DUPLICATE' | 'ZOMBIE' | 'ORPHAN' | 'SPEND_MISMATCH';
+
+/** DELETE: metricIds を削除 / RESYNC: その日のレポートを取り直して保存 */
+export type RepairAction = 'DELETE' | 'RESYNC';
+
+export type RepairStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'APPLIED'
+  | 'FAILED'
+  | 'REJECTED'
+  | 'RESOLVED';
+
+export const REPAIR_KINDS: RepairKind[] = [
+  'DUPLICATE',
+  'ZOMBIE',
+  'ORPHAN',
+  'SPEND_MISMATCH',
+];
+
+export const REPAIR_STATUSES: RepairStatus[] = [
+  'PENDING',
+  'APPROVED',
+  'APPLIED',
+  'FAILED',
+  'REJECTED',
+  'RESOLVED',
+];
+
+const ENTITY_ID_FIELD = {
+  AD: 'adId',
+  ADGROUP: 'adgroupId',
+  CAMPAIGN: 'campaignId',
+} as const;
+
+export interface MetricKeyFields {
+  entityType: string;
+  campaignId?: string | null;
+  adgroupId?: string | null;
+  adId?: string | null;
+  registrationPath?: string | null;
+}
+
+export interface IntegrityMetricRow extends MetricKeyFields {
+  id: string;
+  statDate: Date;
+  spend: number;
+  impressions: number;
+  conversions: number;
+  createdAt: Date;
+  /** 行が属する広告アカウント（TikTok advertiser_id。辿れなければ null） */
+  advertiserId: string | null;
+}
+
+export interface RepairFinding {
+  kind: RepairKind;
+  action: RepairAction;
+  dedupKey: string;
+  advertiserId: string | null;
+  entityType: string | null;
+  entityId: string | null;
+  /** YYYY-MM-DD（JST） */
+  statDate: string;
+  /** DELETE で削除する行 */
+  metricIds: string[];
+  details: Record<string, unknown>;
+}
+
+// ============================================================================
+// 一意キー
+// ============================================================================
+
+/** 行のエンティティID（entityType に対応する列。未知の entityType は null） */
+export function entityIdOf(row: MetricKeyFields): string | null {
+  const field = ENTITY_ID_FIELD[row.entityType as keyof typeof ENTITY_ID_FIELD];
+  return field ? (row[field] ?? null) : null;
+}
+
+/**
+ * Metric の一意キー（entityType:エンティティID:登録経路）
+ * statDate と組み合わせて1行に決まる。エンティティIDがない行は null
+ */
+export function metricEntityKey(row: MetricKeyFields): string | null {
+  const entityId = entityIdOf(row);
+  if (!entityId) return null;
+  return `${row.entityType}:${entityId}:${row.registrationPath ?? ''}`;
+}
+
+// ============================================================================
+// 検知
+// ============================================================================
+
+/**
+ * 同じエンティティ・同じ日（JST）の行が複数ある
+ * statDate が UTC 0時・JST 0時で揺れた行も同じ日として扱い、最後に保存した行を残す
+ */
+export function findDuplicates(rows: IntegrityMetricRow[]): RepairFinding[] {
+  const groups = new Map<string, IntegrityMetricRow[]>();
+  for (const row of rows) {
+    const key = metricEntityKey(row);
+    if (!key) continue;
+    const groupKey = `${key}:${toJstDate(row.statDate)}`;
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), row]);
+  }
+
+  const findings: RepairFinding[] = [];
+  for (const [groupKey, group] of groups) {
+    if (group.length < 2) continue;
+    const [keep, ...extra] = [...group].sort(
+      (a, b) =>
+        b.createdAt.getTime() - a.createdAt.getTime() ||
+        a.id.localeCompare(b.id),
+    );
+    findings.push({
+      kind: 'DUPLICATE',
+      action: 'DELETE',
+      dedupKey: `DUPLICATE:${groupKey}`,
+      advertiserId: keep.advertiserId,
+      entityType: keep.entityType,
+      entityId: entityIdOf(keep),
+      statDate: toJstDate(keep.statDate),
+      metricIds: extra.map((row) => row.id),
+      details: {
+        keepId: keep.id,
+        rows: group.length,
+        spends: group.map((row) => row.spend),
+      },
+    });
+  }
+  return findings;
+}
+
+/**
+ * 同じ広告の連続した日で消化額・インプレッション・CV数が一致する行（ゾンビ）
+ * Smart+ の期間合計が毎日同じ値で保存された名残。先頭の日だけ本物とみなし残りを削除候補にする
+ * 重複は先に findDuplicates で除いておくこと（同じ日の行は最後に保存した行で判定する）
+ */
+export function findZombies(rows: IntegrityMetricRow[]): RepairFinding[] {
+  const byAd = new Map<string, IntegrityMetricRow[]>();
+  for (const row of rows) {
+    const key = row.entityType === 'AD' ? metricEntityKey(row) : null;
+    if (!key) continue;
+    byAd.set(key, [...(byAd.get(key) ?? []), row]);
+  }
+
+  const findings: RepairFinding[] = [];
+  for (const [key, adRows] of byAd) {
+    const sorted = latestPerDay(adRows);
+    let i = 0;
+    while (i < sorted.length) {
+      const base = sorted[i];
+      let j = i + 1;
+      while (
+        j < sorted.length &&
+        base.row.spend >= 1 &&
+        sorted[j].date === addDays(sorted[j - 1].date, 1) &&
+        Math.abs(sorted[j].row.spend - base.row.spend) < 1 &&
+        sorted[j].row.impressions === base.row.impressions &&
+        sorted[j].row.conversions === base.row.conversions
+      ) {
+        j++;
+      }
+      if (j - i >= 2) {
+        const phantoms = sorted.slice(i + 1, j);
+        findings.push({
+          kind: 'ZOMBIE',
+          action: 'DELETE',
+          dedupKey: `ZOMBIE:${key}:${base.date}`,
+          advertiserId: base.row.advertiserId,
+          entityType: 'AD',
+          entityId: entityIdOf(base.row),
+          statDate: base.date,
+          metricIds: phantoms.map((p) => p.row.id),
+          details: {
+            from: base.date,
+            to: sorted[j - 1].date,
+            days: j - i,
+            spend: base.row.spend,
+            impressions: base.row.impressions,
+            conversions: base.row.conversions,
+            phantomSpend: base.row.spend * phantoms.length,
+          },
+        });
+      }
+      i = j;
+    }
+  }
+  return findings;
+}
+
+/** エンティティIDがない・entityType が未知でどの広告にも集計されない行 */
+export function findOrphans(rows: IntegrityMetricRow[]): RepairFinding[] {
+  return rows
+    .filter((row) => !metricEntityKey(row))
+    .map((row) => ({
+      kind: 'ORPHAN' as const,
+      action: 'DELETE' as const,
+      dedupKey: `ORPHAN:${row.id}`,
+      advertiserId: row.advertiserId,
+      entityType: row.entityType,
+      entityId: null,
+      statDate: toJstDate(row.statDate),
+      metricIds: [row.id],
+      details: {
+        campaignId: row.campaignId ?? null,
+        adgroupId: row.adgroupId ?? null,
+        adId: row.adId ?? null,
+        spend: row.spend,
+      },
+    }));
+}
+
+export interface AdDaySpend {
+  /** Ad の内部ID */
+  adId: string;
+  /** YYYY-MM-DD（JST） */
+  date: string;
+  spend: number;
+  /** DB側の行（レポート側は空） */
+  metricIds?: string[];
+}
+
+/**
+ * 広告×日の消化額を DB（AD 行）と TikTok のレポートで突き合わせる
+ * DBにだけ消化額がある行は削除候補、それ以外の不一致はその日のレポートの取り直し候補
+ */
+export function findSpendMismatches(
+  advertiserId: string,
+  db: AdDaySpend[],
+  report: AdDaySpend[],
+  tolerance: typeof SPEND_TOLERANCE = SPEND_TOLERANCE,
+): RepairFinding[] {
+  const merged = new Map<
+    string,
+    { adId: string; date: string; db: number; report: number; ids: string[] }
+  >();
+  const entry = (row: AdDaySpend) => {
+    const key = `${row.adId}:${row.date}`;
+    const current = merged.get(key) ?? {
+      adId: row.adId,
+      date: row.date,
+      db: 0,
+      report: 0,
+      ids: [],
+    };
+    merged.set(key, current);
+    return current;
+  };
+  for (const row of db) {
+    const current = entry(row);
+    current.db += row.spend;
+    current.ids.push(...(row.metricIds ?? []));
+  }
+  for (const row of report) entry(row).report += row.spend;
+
+  const findings: RepairFinding[] = [];
+  for (const { adId, date, db: dbSpend, report: reportSpend, ids } of [
+    ...merged.values(),
+  ].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.adId.localeCompare(b.adId),
+  )) {
+    const diff = dbSpend - reportSpend;
+    const allowed = Math.max(tolerance.absolute, reportSpend * tolerance.ratio);
+    if (Math.abs(diff) <= allowed) continue;
+    const dbOnly = reportSpend === 0;
+    findings.push({
+      kind: 'SPEND_MISMATCH',
+      action: dbOnly ? 'DELETE' : 'RESYNC',
+      dedupKey: `SPEND_MISMATCH:${metricEntityKey({ entityType: 'AD', adId })}:${date}`,
+      advertiserId,
+      entityType: 'AD',
+      entityId: adId,
+      statDate: date,
+      metricIds: dbOnly ? ids : [],
+      details: { dbSpend, reportSpend, diff },
+    });
+  }
+  return findings;
+}
+
+// ============================================================================
+// 修復キュー
+// ============================================================================
+
+/**
+ * 同じ検知が再び見つかったときの状態
+ * 却下済みはそのまま（レビュー結果を尊重）、適用済み・失敗は再発としてレビューに戻す
+ */
+export function statusOnRedetect(current: string): RepairStatus {
+  switch (current) {
+    case 'PENDING':
+    case 'APPROVED':
+    case 'REJECTED':
+      return current;
+    default:
+      return 'PENDING';
+  }
+}
+
+/** レビューできる状態か（失敗した修復は承認し直して再実行できる） */
+export function canReview(current: string): boolean {
+  return current === 'PENDING' || current === 'FAILED';
+}
+
+export function validateCheckDays(days: number | undefined): string[] {
+  if (
+    days !== undefined &&
+    !(Number.isInteger(days) && days >= 1 && days <= MAX_CHECK_DAYS)
+  ) {
+    return [`days must be an integer between 1 and ${MAX_CHECK_DAYS}`];
+  }
+  return [];
+}
+
+// ============================================================================
+// 内部
+// ============================================================================
+
+/** JSTの日ごとに最後に保存した行（日付順） */
+function latestPerDay(
+  rows: IntegrityMetricRow[],
+): { date: string; row: IntegrityMetricRow }[] {
+  const byDate = new Map<string, IntegrityMetricRow>();
+  for (const row of rows) {
+    const date = toJstDate(row.statDate);
+    const current = byDate.get(date);
+    if (!current || row.createdAt > current.createdAt) byDate.set(date, row);
+  }
+  return [...byDate.entries()]
+    .map(([date, row]) => ({ date, row }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,125 @@
+// ============================================================================
+// MetricIntegrityController - メトリクス修復キューのレビューと適用
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { MetricIntegrityService } from './metric-integrity.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@Controller('api/metric-integrity')
+export class MetricIntegrityController {
+  private readonly logger = new Logger(MetricIntegrityController.name);
+
+  constructor(private readonly integrityService: MetricIntegrityService) {}
+
+  /**
+   * 修復キューの一覧
+   * GET /api/metric-integrity/repairs?status=PENDING&kind=DUPLICATE
+   */
+  @RequirePermissions(PERMISSIONS.REPORT_READ)
+  @Get('repairs')
+  async repairs(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('status') status?: string,
+    @Query('kind') kind?: string,
+  ) {
+    return this.handle('List repairs', () =>
+      this.integrityService.list({ status, kind }, principal.advertiserIds),
+    );
+  }
+
+  /**
+   * 修復を承認する（適用は POST /api/metric-integrity/repairs/apply）
+   * POST /api/metric-integrity/repairs/:id/approve  { note?: string }
+   */
+  @RequirePermissions(PERMISSIONS.METRIC_REPAIR)
+  @Post('repairs/:id/approve')
+  async approve(
+    @Param('id') id: string,
+    @Body() body: { note?: string },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Approve repair', () =>
+      this.integrityService.review(
+        id,
+        'APPROVED',
+        principal.userId,
+        principal.advertiserIds,
+        body?.note,
+      ),
+    );
+  }
+
+  /**
+   * 修復を却下する（同じ検知は以後レビューに戻さない）
+   * POST /api/metric-integrity/repairs/:id/reject  { note?: string }
+   */
+  @RequirePermissions(PERMISSIONS.METRIC_REPAIR)
+  @Post('repairs/:id/reject')
+  async reject(
+    @Param('id') id: string,
+    @Body() body: { note?: string },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Reject repair', () =>
+      this.integrityService.review(
+        id,
+        'REJECTED',
+        principal.userId,
+        principal.advertiserIds,
+        body?.note,
+      ),
+    );
+  }
+
+  /**
+   * 承認済みの修復を適用する（ids 省略時は承認済みすべて）
+   * POST /api/metric-integrity/repairs/apply  { ids?: string[] }
+   */
+  @RequirePermissions(PERMISSIONS.METRIC_REPAIR)
+  @Post('repairs/apply')
+  async apply(
+    @Body() body: { ids?: string[] },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Apply repairs', () =>
+      this.integrityService.applyApproved(body?.ids, principal.advertiserIds),
+    );
+  }
+
+  /**
+   * 整合性チェックを今すぐ実行する
+   * POST /api/metric-integrity/run  { days?: number }
+   */
+  @RequirePermissions(PERMISSIONS.METRIC_REPAIR)
+  @Post('run')
+  async run(@Body() body: { days?: number }) {
+    this.logger.log('Manual metric integrity check requested');
+    return this.handle('Run', () => this.integrityService.runNow(body?.days));
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[METRIC-INTEGRITY] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
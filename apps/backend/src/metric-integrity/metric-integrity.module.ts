@@ -0,0 +1,15 @@
+// ============================================================================
+// MetricIntegrityModule - メトリクスの整合性チェックと修復キュー
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { MetricIntegrityService } from './metric-integrity.service';
+import { MetricIntegrityController } from './metric-integrity.controller';
+import { TiktokModule } from '../tiktok/tiktok.module';
+
+@Module({
+  imports: [TiktokModule],
+  controllers: [MetricIntegrityController],
+  providers: [MetricIntegrityService],
+})
+export class MetricIntegrityModule {}
@@ -0,0 +1,580 @@
+// ============================================================================
+// MetricIntegrityService - メトリクスの整合性チェックと修復キュー
+// 毎日、直近の Metric から重複・ゾンビ・孤立行を洗い出し、広告アカウントごとに
+// TikTok のレポートと広告×日の消化額を突き合わせる。見つけたものは修復キュー
+// （MetricRepairItem）に積み、承認されたものだけを適用する
+// ============================================================================
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import type { MetricRepairItem, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import { eachAdvertiser, JobRunContext } from '../job-queue/job-run-context';
+import { toJstDate } from '../conversion-ledger/domain/conversion-ledger';
+import { addDays } from '../dashboard/domain/dashboard';
+import {
+  DEFAULT_CHECK_DAYS,
+  REPAIR_KINDS,
+  REPAIR_STATUSES,
+  SPEND_CHECK_DAYS,
+  canReview,
+  findDuplicates,
+  findOrphans,
+  findSpendMismatches,
+  findZombies,
+  statusOnRedetect,
+  validateCheckDays,
+  type AdDaySpend,
+  type IntegrityMetricRow,
+  type RepairFinding,
+  type RepairKind,
+} from './domain/metric-integrity';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export interface MetricIntegrityResult {
+  /** チェックした期間（JST, YYYY-MM-DD） */
+  period: { from: string; to: string };
+  scannedRows: number;
+  detected: Record<RepairKind, number>;
+  /** 新しく積んだ・再発としてレビューに戻した件数 */
+  queued: number;
+  /** 再検知されず解消済みにした件数 */
+  resolved: number;
+  /** レポートと突き合わせた広告アカウント */
+  checkedAdvertiserIds: string[];
+  /** レポートを取得できなかった広告アカウント */
+  failedAdvertiserIds: string[];
+}
+
+export interface MetricRepairApplyResult {
+  applied: string[];
+  failed: { id: string; error: string }[];
+}
+
+@Injectable()
+export class MetricIntegrityService implements OnModuleInit {
+  private readonly logger = new Logger(MetricIntegrityService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  onModuleInit() {
+    this.jobQueue.register('metric-integrity-check', (run) =>
+      this.check({}, run),
+    );
+  }
+
+  // ============================================================================
+  // 整合性チェック（定期実行）
+  // ============================================================================
+
+  /** 日次レポート取得（0:05）の後に実行する */
+  @Cron('0 6 * * *', { name: 'metric-integrity-check', timeZone: 'Asia/Tokyo' })
+  async scheduleCheck() {
+    await this.jobQueue.run('metric-integrity-check', (run) =>
+      this.check({}, run),
+    );
+  }
+
+  /** 手動実行（POST /api/metric-integrity/run） */
+  async runNow(days?: number) {
+    const errors = validateCheckDays(days);
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid metric integrity check: ' + errors.join('; '),
+      );
+    }
+    return this.jobQueue.run(
+      'metric-integrity-check',
+      (run) => this.check({ days }, run),
+      { trigger: 'API' },
+    );
+  }
+
+  /**
+   * 昨日までの days 日間をチェックし、見つけたものを修復キューに積む
+   * レポートとの突き合わせは直近 SPEND_CHECK_DAYS 日だけ行う
+   */
+  async check(
+    options: { days?: number },
+    run?: JobRunContext,
+    now: Date = new Date(),
+  ): Promise<MetricIntegrityResult> {
+    const to = addDays(toJstDate(now), -1);
+    const period = {
+      from: addDays(to, -((options.days ?? DEFAULT_CHECK_DAYS) - 1)),
+      to,
+    };
+    const rows = await this.loadRows(period);
+
+    const duplicates = findDuplicates(rows);
+    const zombies = findZombies(rows);
+    const orphans = findOrphans(rows);
+
+    // 重複・ゾンビとして削除する行は除いてレポートと突き合わせる
+    const removed = new Set(
+      [...duplicates, ...zombies].flatMap((f) => f.metricIds),
+    );
+    const spendPeriod = {
+      from: [period.from, addDays(to, -(SPEND_CHECK_DAYS - 1))].sort()[1],
+      to,
+    };
+    const advertisers = await this.prisma.advertiser.findMany({
+      where: { status: 'ACTIVE' },
+      orderBy: { tiktokAdvertiserId: 'asc' },
+    });
+    const outcomes = await eachAdvertiser(
+      run,
+      advertisers,
+      (advertiser) => advertiser.tiktokAdvertiserId,
+      (advertiser) =>
+        this.checkSpend(
+          advertiser.tiktokAdvertiserId,
+          rows.filter(
+            (row) =>
+              row.advertiserId === advertiser.tiktokAdvertiserId &&
+              row.entityType === 'AD' &&
+              !removed.has(row.id),
+          ),
+          spendPeriod,
+        ),
+      { summarize: (findings) => ({ mismatches: findings.length }) },
+    );
+    const mismatches = outcomes.flatMap((o) => o.value ?? []);
+    const checkedAdvertiserIds = outcomes
+      .filter((o) => o.status !== 'FAILED')
+      .map((o) => o.advertiserId);
+
+    const findings = [...duplicates, ...zombies, ...orphans, ...mismatches];
+    const queued = await this.enqueue(findings);
+    const resolved = await this.resolveMissing(
+      findings,
+      period,
+      checkedAdvertiserIds,
+    );
+
+    const result: MetricIntegrityResult = {
+      period,
+      scannedRows: rows.length,
+      detected: Object.fromEntries(
+        REPAIR_KINDS.map((kind) => [
+          kind,
+          findings.filter((f) => f.kind === kind).length,
+        ]),
+      ) as Record<RepairKind, number>,
+      queued,
+      resolved,
+      checkedAdvertiserIds,
+      failedAdvertiserIds: outcomes
+        .filter((o) => o.status === 'FAILED')
+        .map((o) => o.advertiserId),
+    };
+    this.logger.log(
+      `[METRIC-INTEGRITY] ${period.from}~${period.to}: rows=${result.scannedRows}, detected=${findings.length}, queued=${queued}, resolved=${resolved}, failed=${result.failedAdvertiserIds.length}`,
+    );
+    return result;
+  }
+
+  // ============================================================================
+  // 修復キュー
+  // ============================================================================
+
+  /**
+   * @param scope 扱える広告アカウント（null なら全アカウント。広告アカウントを辿れない行は全アカウント権限のみ）
+   */
+  async list(
+    query: { status?: string; kind?: string },
+    scope: string[] | null,
+  ): Promise<MetricRepairItem[]> {
+    const errors: string[] = [];
+    if (
+      query.status &&
+      !REPAIR_STATUSES.includes(
+        query.status as (typeof REPAIR_STATUSES)[number],
+      )
+    ) {
+      errors.push(`status must be one of ${REPAIR_STATUSES.join(', ')}`);
+    }
+    if (query.kind && !REPAIR_KINDS.includes(query.kind as RepairKind)) {
+      errors.push(`kind must be one of ${REPAIR_KINDS.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid repair query: ' + errors.join('; '),
+      );
+    }
+    return this.prisma.metricRepairItem.findMany({
+      where: {
+        status: query.status || undefined,
+        kind: query.kind || undefined,
+        ...(scope !== null && { advertiserId: { in: scope } }),
+      },
+      orderBy: [{ statDate: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /** 承認・却下（失敗した修復は承認し直して再実行できる） */
+  async review(
+    id: string,
+    decision: 'APPROVED' | 'REJECTED',
+    reviewer: string | null,
+    scope: string[] | null,
+    note?: string,
+  ): Promise<MetricRepairItem> {
+    const item = await this.findItem(id, scope);
+    if (!canReview(item.status)) {
+      throw new BadRequestException(
+        `Repair item ${id} is ${item.status} and cannot be reviewed`,
+      );
+    }
+    return this.prisma.metricRepairItem.update({
+      where: { id },
+      data: {
+        status: decision,
+        reviewedBy: reviewer,
+        reviewedAt: new Date(),
+        note: note ?? null,
+        error: null,
+      },
+    });
+  }
+
+  /** 承認済みの修復を適用する（ids を省略すると承認済みすべて） */
+  async applyApproved(
+    ids: string[] | undefined,
+    scope: string[] | null,
+  ): Promise<MetricRepairApplyResult> {
+    const items = await this.prisma.metricRepairItem.findMany({
+      where: {
+        status: 'APPROVED',
+        ...(ids && { id: { in: ids } }),
+        ...(scope !== null && { advertiserId: { in: scope } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const result: MetricRepairApplyResult = { applied: [], failed: [] };
+    for (const item of items) {
+      try {
+        await this.applyItem(item);
+        await this.prisma.metricRepairItem.update({
+          where: { id: item.id },
+          data: { status: 'APPLIED', appliedAt: new Date(), error: null },
+        });
+        result.applied.push(item.id);
+      } catch (error) {
+        this.logger.error(
+          `[METRIC-INTEGRITY] Repair ${item.id} (${item.kind}) failed: ${error.message}`,
+        );
+        await this.prisma.metricRepairItem.update({
+          where: { id: item.id },
+          data: { status: 'FAILED', error: error.message },
+        });
+        result.failed.push({ id: item.id, error: error.message });
+      }
+    }
+    return result;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  /** 期間の Metric と、行が属する広告アカウント */
+  private async loadRows(period: {
+    from: string;
+    to: string;
+  }): Promise<IntegrityMetricRow[]> {
+    const advertiserOf = {
+      select: {
+        advertiser: { select: { tiktokAdvertiserId: true } },
+      },
+    };
+    const metrics = await this.prisma.metric.findMany({
+      where: {
+        // statDate が JST 0時（前日15:00Z）で保存された行も含める
+        statDate: {
+          gte: new Date(Date.parse(`${period.from}T00:00:00Z`) - JST_OFFSET_MS),
+          lt: new Date(`${addDays(period.to, 1)}T00:00:00Z`),
+        },
+      },
+      include: {
+        campaign: advertiserOf,
+        adGroup: { select: { campaign: advertiserOf } },
+        ad: { select: { adGroup: { select: { campaign: advertiserOf } } } },
+      },
+      orderBy: { statDate: 'asc' },
+    });
+
+    return metrics
+      .filter((metric) => {
+        const date = toJstDate(metric.statDate);
+        return date >= period.from && date <= period.to;
+      })
+      .map(({ campaign, adGroup, ad, ...metric }) => ({
+        ...metric,
+        advertiserId:
+          (campaign ?? adGroup?.campaign ?? ad?.adGroup.campaign)?.advertiser
+            .tiktokAdvertiserId ?? null,
+      }));
+  }
+
+  /**
+   * 1アカウントの広告×日の消化額をレポートと突き合わせる
+   * 通常広告は統合レポート（期間まとめて）、Smart+ は material_report を1日ずつ取得する
+   */
+  private async checkSpend(
+    advertiserId: string,
+    rows: IntegrityMetricRow[],
+    period: { from: string; to: string },
+  ): Promise<RepairFinding[]> {
+    const accessToken = await this.accessToken(advertiserId);
+    const reportByTiktokId: {
+      tiktokId: string;
+      date: string;
+      spend: number;
+    }[] = [];
+
+    const regular = await this.tiktokService.getAllReportData(
+      advertiserId,
+      accessToken,
+      {
+        dataLevel: 'AUCTION_AD',
+        startDate: period.from,
+        endDate: period.to,
+        dimensions: ['stat_time_day', 'ad_id'],
+        metrics: ['spend'],
+      },
+    );
+    for (const row of regular) {
+      const tiktokId = row.dimensions?.ad_id;
+      const date = String(row.dimensions?.stat_time_day ?? '').split(' ')[0];
+      if (!tiktokId || !date) continue;
+      reportByTiktokId.push({
+        tiktokId: String(tiktokId),
+        date,
+        spend: parseFloat(row.metrics?.spend || '0'),
+      });
+    }
+    for (let date = period.from; date <= period.to; date = addDays(date, 1)) {
+      const smartPlus = await this.tiktokService.getAllSmartPlusAdMetrics(
+        advertiserId,
+        accessToken,
+        { startDate: date, endDate: date },
+      );
+      for (const row of smartPlus) {
+        const tiktokId = row.dimensions?.smart_plus_ad_id;
+        if (!tiktokId) continue;
+        reportByTiktokId.push({
+          tiktokId: String(tiktokId),
+          date,
+          spend: parseFloat(row.metrics?.spend || '0'),
+        });
+      }
+    }
+
+    // レポートの広告は内部IDに直す（未同期の広告は広告の同期の問題なので対象外）
+    const ads = await this.prisma.ad.findMany({
+      where: {
+        tiktokId: { in: [...new Set(reportByTiktokId.map((r) => r.tiktokId))] },
+      },
+      select: { id: true, tiktokId: true },
+    });
+    const adIdOf = new Map(ads.map((ad) => [ad.tiktokId, ad.id]));
+    const report: AdDaySpend[] = reportByTiktokId
+      .filter((r) => adIdOf.has(r.tiktokId))
+      .map((r) => ({
+        adId: adIdOf.get(r.tiktokId)!,
+        date: r.date,
+        spend: r.spend,
+      }));
+
+    const db: AdDaySpend[] = rows
+      .map((row) => ({
+        adId: row.adId!,
+        date: toJstDate(row.statDate),
+        spend: row.spend,
+        metricIds: [row.id],
+      }))
+      .filter((row) => row.date >= period.from && row.date <= period.to);
+
+    return findSpendMismatches(advertiserId, db, report);
+  }
+
+  /**
+   * 検知を修復キューに積む（同じ検知は内容を更新し、状態は statusOnRedetect に従う）
+   * @returns 新しく積んだ・レビューに戻した件数
+   */
+  private async enqueue(findings: RepairFinding[]): Promise<number> {
+    let queued = 0;
+    for (const finding of findings) {
+      const existing = await this.prisma.metricRepairItem.findUnique({
+        where: { dedupKey: finding.dedupKey },
+      });
+      const data = {
+        kind: finding.kind,
+        action: finding.action,
+        advertiserId: finding.advertiserId,
+        entityType: finding.entityType,
+        entityId: finding.entityId,
+        statDate: finding.statDate,
+        metricIds: finding.metricIds,
+        details: finding.details as Prisma.InputJsonValue,
+        lastDetectedAt: new Date(),
+      };
+      if (!existing) {
+        await this.prisma.metricRepairItem.create({
+          data: { ...data, dedupKey: finding.dedupKey },
+        });
+        queued++;
+        continue;
+      }
+      const status = statusOnRedetect(existing.status);
+      if (existing.status === 'REJECTED') {
+        await this.prisma.metricRepairItem.update({
+          where: { id: existing.id },
+          data: { lastDetectedAt: data.lastDetectedAt },
+        });
+        continue;
+      }
+      await this.prisma.metricRepairItem.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          status,
+          ...(status !== existing.status && {
+            reviewedBy: null,
+            reviewedAt: null,
+            appliedAt: null,
+          }),
+        },
+      });
+      if (status !== existing.status) queued++;
+    }
+    return queued;
+  }
+
+  /**
+   * 期間内で今回見つからなかった未対応の検知を解消済みにする
+   * 消化額の不一致は、レポートと突き合わせられたアカウントの分だけ
+   */
+  private async resolveMissing(
+    findings: RepairFinding[],
+    period: { from: string; to: string },
+    checkedAdvertiserIds: string[],
+  ): Promise<number> {
+    const detected = new Set(findings.map((f) => f.dedupKey));
+    const open = await this.prisma.metricRepairItem.findMany({
+      where: {
+        status: { in: ['PENDING', 'APPROVED'] },
+        statDate: { gte: period.from, lte: period.to },
+      },
+    });
+    const stale = open.filter(
+      (item) =>
+        !detected.has(item.dedupKey) &&
+        (item.kind !== 'SPEND_MISMATCH' ||
+          checkedAdvertiserIds.includes(item.advertiserId ?? '')),
+    );
+    if (stale.length === 0) return 0;
+    const { count } = await this.prisma.metricRepairItem.updateMany({
+      where: { id: { in: stale.map((item) => item.id) } },
+      data: { status: 'RESOLVED' },
+    });
+    return count;
+  }
+
+  private async applyItem(item: MetricRepairItem): Promise<void> {
+    if (item.action === 'RESYNC') {
+      await this.resync(item.advertiserId!, item.statDate);
+      return;
+    }
+
+    if (item.kind === 'DUPLICATE') {
+      // 残す行が消えていたら、削除すると実績がなくなるので適用しない
+      const keepId = (item.details as { keepId?: string }).keepId;
+      const keep = keepId
+        ? await this.prisma.metric.findUnique({ where: { id: keepId } })
+        : null;
+      if (!keep) {
+        throw new Error(`Kept metric ${keepId} no longer exists`);
+      }
+    }
+    await this.prisma.metric.deleteMany({
+      where: { id: { in: item.metricIds } },
+    });
+  }
+
+  /** その日の広告の実績を取り直して保存する（通常広告・Smart+） */
+  private async resync(advertiserId: string, date: string): Promise<void> {
+    const accessToken = await this.accessToken(advertiserId);
+    const regular = await this.tiktokService.getAllReportData(
+      advertiserId,
+      accessToken,
+      { dataLevel: 'AUCTION_AD', startDate: date, endDate: date },
+    );
+    if (regular.length > 0) {
+      await this.tiktokService.saveReportMetrics(
+        regular,
+        'AUCTION_AD',
+        advertiserId,
+      );
+    }
+    const smartPlus = await this.tiktokService.getAllSmartPlusAdMetrics(
+      advertiserId,
+      accessToken,
+      { startDate: date, endDate: date },
+    );
+    if (smartPlus.length > 0) {
+      await this.tiktokService.saveSmartPlusMetrics(
+        smartPlus,
+        advertiserId,
+        date,
+      );
+    }
+  }
+
+  private async findItem(
+    id: string,
+    scope: string[] | null,
+  ): Promise<MetricRepairItem> {
+    const item = await this.prisma.metricRepairItem.findUnique({
+      where: { id },
+    });
+    if (!item) {
+      throw new NotFoundException(`Repair item ${id} not found`);
+    }
+    if (
+      scope !== null &&
+      (!item.advertiserId || !scope.includes(item.advertiserId))
+    ) {
+      throw new ForbiddenException(
+        `No access to advertisers: ${item.advertiserId ?? '(unknown)'}`,
+      );
+    }
+    return item;
+  }
+
+  private async accessToken(advertiserId: string): Promise<string> {
+    const token = await this.tokenVault.findByAdvertiserId(advertiserId);
+    if (!token) {
+      throw new Error(`アクセストークンが見つかりません: ${advertiserId}`);
+    }
+    return token.accessToken;
+  }
+}
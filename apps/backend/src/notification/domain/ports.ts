@@ -0,0 +1,25 @@
+// ============================================================================
+// 通知の外部配信 - ポート定義
+// 配信手段（LINE / Slack / メール / Webhook）をDIで差し替えられるようにする
+// ============================================================================
+
+import type { NotificationChannel, OutboundNotification } from './routing';
+
+export interface NotificationTransport {
+  readonly channel: NotificationChannel;
+  /**
+   * 通知を送る。失敗時（未設定を含む）は例外を投げる（配信記録に FAILED として残す）
+   * @param target ルールの配信先（null = 環境変数の既定値）
+   */
+  send(
+    notification: OutboundNotification,
+    target: string | null,
+  ): Promise<void>;
+}
+
+export const NOTIFICATION_TRANSPORTS = Symbol('NOTIFICATION_TRANSPORTS');
+
+/** LINE・Slack 等のテキストのみの配信先に送る本文 */
+export function toPlainText(notification: OutboundNotification): string {
+  return `${notification.title}\n\n${notification.message}`;
+}
@@ -0,0 +1,159 @@
+import {
+  DEFAULT_ROUTES,
+  dedupKey,
+  matchRoutes,
+  quietUntil,
+  validateRouteInput,
+  type NotificationRouteRule,
+  type OutboundNotification,
+} from './routing';
+
+const route = (
+  overrides: Partial<NotificationRouteRule> = {},
+): NotificationRouteRule => ({
+  id: 'route-1',
+  name: 'test',
+  channel: 'SLACK',
+  target: null,
+  types: [],
+  minSeverity: 'INFO',
+  advertiserIds: [],
+  dedupWindowMinutes: 0,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  enabled: true,
+  ...overrides,
+});
+
+const notification = (
+  overrides: Partial<OutboundNotification> = {},
+): OutboundNotification => ({
+  type: 'CPA_DEVIATION',
+  severity: 'WARNING',
+  advertiserId: 'adv-1',
+  title: 'CPA乖離',
+  message: 'body',
+  ...overrides,
+});
+
+describe('matchRoutes', () => {
+  it('種類・重要度・広告アカウントで絞り込む', () => {
+    const routes = [
+      route({ id: 'all' }),
+      route({ id: 'type', types: ['AD_REVIEW'] }),
+      route({ id: 'critical', minSeverity: 'CRITICAL' }),
+      route({ id: 'adv', advertiserIds: ['adv-2'] }),
+      route({ id: 'disabled', enabled: false }),
+    ];
+    expect(matchRoutes(routes, notification()).map((r) => r.id)).toEqual([
+      'all',
+    ]);
+  });
+
+  it('アカウントに紐づかない通知はアカウント指定のルールに一致しない', () => {
+    const routes = [route({ id: 'adv', advertiserIds: ['adv-1'] })];
+    expect(matchRoutes(routes, notification({ advertiserId: null }))).toEqual(
+      [],
+    );
+  });
+
+  it('既定ルールはV2エラー・トークン失効をLINE、予算異常をSlackに送る', () => {
+    expect(
+      matchRoutes(DEFAULT_ROUTES, notification({ type: 'SYSTEM_ERROR' })).map(
+        (r) => r.channel,
+      ),
+    ).toEqual(['LINE']);
+    expect(
+      matchRoutes(
+        DEFAULT_ROUTES,
+        notification({ type: 'TOKEN_EXPIRING', severity: 'CRITICAL' }),
+      ).map((r) => r.channel),
+    ).toEqual(['LINE']);
+    expect(
+      matchRoutes(DEFAULT_ROUTES, notification({ type: 'BUDGET_ANOMALY' })).map(
+        (r) => r.channel,
+      ),
+    ).toEqual(['SLACK']);
+  });
+});
+
+describe('dedupKey', () => {
+  it('対象エンティティがなければタイトルで判定する', () => {
+    expect(dedupKey(route(), notification({ entityId: 'ad-1' }))).toBe(
+      'route-1|CPA_DEVIATION|adv-1|ad-1',
+    );
+    expect(dedupKey(route({ id: null }), notification())).toBe(
+      'default:SLACK|CPA_DEVIATION|adv-1|CPA乖離',
+    );
+  });
+});
+
+describe('quietUntil', () => {
+  const overnight = route({ quietHoursStart: 22, quietHoursEnd: 7 });
+
+  it('日をまたぐ時間帯は翌朝の終了時刻まで控える', () => {
+    // JST 23:30
+    const now = new Date('2026-03-01T14:30:00Z');
+    expect(quietUntil(overnight, 'WARNING', now)).toEqual(
+      new Date('2026-03-01T22:00:00Z'), // JST 3/2 7:00
+    );
+    // JST 06:00
+    expect(
+      quietUntil(overnight, 'WARNING', new Date('2026-03-01T21:00:00Z')),
+    ).toEqual(new Date('2026-03-01T22:00:00Z'));
+  });
+
+  it('時間帯外・CRITICAL・未設定は控えない', () => {
+    const noon = new Date('2026-03-01T03:00:00Z'); // JST 12:00
+    expect(quietUntil(overnight, 'WARNING', noon)).toBeNull();
+    expect(
+      quietUntil(overnight, 'CRITICAL', new Date('2026-03-01T14:30:00Z')),
+    ).toBeNull();
+    expect(quietUntil(route(), 'INFO', noon)).toBeNull();
+  });
+});
+
+describe('validateRouteInput', () => {
+  it('チャネル・重要度・時間帯を検証する', () => {
+    expect(validateRouteInput({ name: 'ok', channel: 'LINE' })).toEqual([]);
+    expect(
+      validateRouteInput({
+        name: '',
+        channel: 'FAX',
+        minSeverity: 'LOW',
+        dedupWindowMinutes: -1,
+        quietHoursStart: 22,
+      }),
+    ).toHaveLength(5);
+    expect(
+      validateRouteInput({
+        name: 'x',
+        channel: 'SLACK',
+        quietHoursStart: 22,
+        quietHoursEnd: 24,
+      }),
+    ).toEqual(['quietHoursStart and quietHoursEnd must be hours (0-23)']);
+  });
+
+  it('送信先をチャネルごとに検証する', () => {
+    const errorsFor = (channel: string, target: string | null) =>
+      validateRouteInput({ name: 'x', channel, target });
+
+    expect(errorsFor('EMAIL', null)).toEqual([]);
+    expect(errorsFor('EMAIL', 'ops@example.com, cs@example.co.jp')).toEqual([]);
+    expect(errorsFor('EMAIL', 'ops@example.com\r\nBcc: x@evil.test')).toEqual([
+      'target must be a comma-separated list of email addresses for EMAIL',
+    ]);
+    expect(errorsFor('EMAIL', 'Ops <ops@example.com>')).toHaveLength(1);
+    expect(
+      errorsFor('SLACK', 'https://hooks.slack.com/services/T/B/x'),
+    ).toEqual([]);
+    expect(errorsFor('WEBHOOK', 'http://example.com/hook')).toEqual([
+      'target must be an https URL for WEBHOOK',
+    ]);
+    expect(errorsFor('LINE', `U${'0123456789abcdef'.repeat(2)}`)).toEqual([]);
+    expect(errorsFor('LINE', 'ops@example.com')).toEqual([
+      'target must be a LINE user, group or room ID for LINE',
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+// ============================================================================
+// 通知の外部配信 - ルーティング・重複排除・通知を控える時間帯の判定（純粋関数）
+// ============================================================================
+
+export const NOTIFICATION_CHANNELS = [
+  'LINE',
+  'SLACK',
+  'EMAIL',
+  'WEBHOOK',
+] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> =
+  {
+    LINE: 'LINE（AI秘書）',
+    SLACK: 'Slack',
+    EMAIL: 'メール（SMTP）',
+    WEBHOOK: 'Webhook',
+  };
+
+const SEVERITY_RANK: Record<string, number> = {
+  INFO: 0,
+  WARNING: 1,
+  CRITICAL: 2,
+};
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 改行・空白・区切り文字を含まないメールアドレス（ヘッダーインジェクション防止） */
+const EMAIL_ADDRESS =
+  /^[^\s@<>,;:"()[\]\\]+@[^\s@<>,;:"()[\]\\]+\.[^\s@<>,;:"()[\]\\]+$/;
+
+/** LINE の送信先（ユーザー U / グループ C / トークルーム R + 32桁の16進） */
+const LINE_TARGET_ID = /^[UCR][0-9a-f]{32}$/;
+
+/** 配信する通知 */
+export interface OutboundNotification {
+  type: string;
+  severity: string;
+  /** TikTok advertiser_id（アカウントに紐づかない通知は null） */
+  advertiserId: string | null;
+  /** 重複排除に使う対象（広告ID等）。省略時はタイトルで判定する */
+  entityId?: string | null;
+  title: string;
+  message: string;
+  metadata?: Record<string, unknown> | null;
+}
+
+/** NotificationRoute 行（必要な列のみ） */
+export interface NotificationRouteRule {
+  /** null = 既定ルール */
+  id: string | null;
+  name: string;
+  channel: string;
+  target: string | null;
+  types: string[];
+  minSeverity: string;
+  advertiserIds: string[];
+  dedupWindowMinutes: number;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  enabled: boolean;
+}
+
+/**
+ * ルールが未登録の場合の既定ルール（これまで個別に送っていた通知の送り先）
+ */
+export const DEFAULT_ROUTES: NotificationRouteRule[] = [
+  {
+    id: null,
+    name: 'システムエラー・トークン失効・セミナーアラート → LINE',
+    channel: 'LINE',
+    target: null,
+    types: ['SYSTEM_ERROR', 'TOKEN_EXPIRING', 'SEMINAR_ATTENDANCE_ALERT'],
+    minSeverity: 'INFO',
+    advertiserIds: [],
+    dedupWindowMinutes: 0,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    enabled: true,
+  },
+  {
+    id: null,
+    name: '予算異常検知 → Slack',
+    channel: 'SLACK',
+    target: null,
+    types: ['BUDGET_ANOMALY'],
+    minSeverity: 'INFO',
+    advertiserIds: [],
+    dedupWindowMinutes: 0,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    enabled: true,
+  },
+];
+
+export function isNotificationChannel(
+  value: unknown,
+): value is NotificationChannel {
+  return (
+    typeof value === 'string' &&
+    (NOTIFICATION_CHANNELS as readonly string[]).includes(value)
+  );
+}
+
+/** 種類・重要度・広告アカウントが一致する有効なルール */
+export function matchRoutes<R extends NotificationRouteRule>(
+  routes: R[],
+  notification: OutboundNotification,
+): R[] {
+  const rank = SEVERITY_RANK[notification.severity] ?? 0;
+  return routes.filter(
+    (route) =>
+      route.enabled &&
+      (route.types.length === 0 || route.types.includes(notification.type)) &&
+      rank >= (SEVERITY_RANK[route.minSeverity] ?? 0) &&
+      (route.advertiserIds.length === 0 ||
+        (notification.advertiserId !== null &&
+          route.advertiserIds.includes(notification.advertiserId))),
+  );
+}
+
+/** 同じ配信先に同じ内容を送ったかを判定するキー */
+export function dedupKey(
+  route: NotificationRouteRule,
+  notification: OutboundNotification,
+): string {
+  return [
+    route.id ?? `default:${route.channel}`,
+    notification.type,
+    notification.advertiserId ?? '-',
+    notification.entityId ?? notification.title,
+  ].join('|');
+}
+
+/**
+ * 通知を控える時間帯なら、送信を再開する時刻を返す（時間帯外なら null）
+ * 開始 > 終了 の場合は日をまたぐ（例: 22時〜7時）。CRITICAL は時間帯に関係なく送る
+ */
+export function quietUntil(
+  route: NotificationRouteRule,
+  severity: string,
+  now: Date,
+): Date | null {
+  const { quietHoursStart: start, quietHoursEnd: end } = route;
+  if (start === null || end === null || start === end) return null;
+  if (severity === 'CRITICAL') return null;
+
+  const jst = new Date(now.getTime() + JST_OFFSET_MS);
+  const hour = jst.getUTCHours();
+  const quiet =
+    start < end ? hour >= start && hour < end : hour >= start || hour < end;
+  if (!quiet) return null;
+
+  // JSTで次に end 時になる時刻
+  const resume = new Date(jst);
+  resume.setUTCHours(end, 0, 0, 0);
+  if (resume.getTime() <= jst.getTime()) {
+    resume.setUTCDate(resume.getUTCDate() + 1);
+  }
+  return new Date(resume.getTime() - JST_OFFSET_MS);
+}
+
+/** カンマ区切りの送信先メールアドレス */
+export function parseEmailRecipients(value: string): string[] {
+  return value
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 送信先をチャネルごとに検証する（null はチャネルの既定の送信先）
+ * @returns エラーメッセージ（妥当なら null）
+ */
+export function validateRouteTarget(
+  channel: NotificationChannel,
+  target: unknown,
+): string | null {
+  if (target === null || target === undefined) return null;
+  if (typeof target !== 'string' || target.trim() === '') {
+    return 'target must be a non-empty string or null';
+  }
+  switch (channel) {
+    case 'EMAIL': {
+      const addresses = parseEmailRecipients(target);
+      const invalid = addresses.filter((a) => !EMAIL_ADDRESS.test(a));
+      if (
+        addresses.length === 0 ||
+        invalid.length > 0 ||
+        /[\r\n]/.test(target)
+      ) {
+        return 'target must be a comma-separated list of email addresses for EMAIL';
+      }
+      return null;
+    }
+    case 'SLACK':
+    case 'WEBHOOK':
+      return isHttpsUrl(target)
+        ? null
+        : `target must be an https URL for ${channel}`;
+    case 'LINE':
+      return LINE_TARGET_ID.test(target)
+        ? null
+        : 'target must be a LINE user, group or room ID for LINE';
+  }
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:' && !/\s/.test(value);
+  } catch {
+    return false;
+  }
+}
+
+/** 配信ルールの入力値を検証してエラーメッセージの一覧を返す */
+export function validateRouteInput(input: {
+  name?: unknown;
+  channel?: unknown;
+  target?: unknown;
+  minSeverity?: unknown;
+  dedupWindowMinutes?: unknown;
+  quietHoursStart?: unknown;
+  quietHoursEnd?: unknown;
+}): string[] {
+  const errors: string[] = [];
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push('name is required');
+  }
+  if (!isNotificationChannel(input.channel)) {
+    errors.push(`channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}`);
+  } else {
+    const targetError = validateRouteTarget(input.channel, input.target);
+    if (targetError) errors.push(targetError);
+  }
+  if (
+    input.minSeverity !== undefined &&
+    !(
+      typeof input.minSeverity === 'string' &&
+      input.minSeverity in SEVERITY_RANK
+    )
+  ) {
+    errors.push('minSeverity must be INFO, WARNING or CRITICAL');
+  }
+  if (
+    input.dedupWindowMinutes !== undefined &&
+    !(
+      Number.isInteger(input.dedupWindowMinutes) &&
+      (input.dedupWindowMinutes as number) >= 0
+    )
+  ) {
+    errors.push('dedupWindowMinutes must be a non-negative integer');
+  }
+  const isHour = (value: unknown) =>
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= 23;
+  const start = input.quietHoursStart ?? null;
+  const end = input.quietHoursEnd ?? null;
+  if ((start === null) !== (end === null)) {
+    errors.push('quietHoursStart and quietHoursEnd must be set together');
+  } else if (start !== null && !(isHour(start) && isHour(end))) {
+    errors.push('quietHoursStart and quietHoursEnd must be hours (0-23)');
+  }
+  return errors;
+}
@@ -0,0 +1,50 @@
+// ============================================================================
+// LineTransport - LINE Messaging API（AI秘書）へのプッシュ通知
+// ============================================================================
+
+import type { NotificationTransport } from '../domain/ports';
+import { toPlainText } from '../domain/ports';
+import type { OutboundNotification } from '../domain/routing';
+
+const LINE_PUSH_URL = 'https://api.line.me/v2/bot/message/push';
+
+export class LineTransport implements NotificationTransport {
+  readonly channel = 'LINE' as const;
+
+  /**
+   * @param accessToken LINE_CHANNEL_ACCESS_TOKEN
+   * @param defaultUserId LINE_USER_ID（ルールに送信先がない場合）
+   */
+  constructor(
+    private readonly accessToken: string | undefined,
+    private readonly defaultUserId: string | undefined,
+  ) {}
+
+  async send(
+    notification: OutboundNotification,
+    target: string | null,
+  ): Promise<void> {
+    const to = target ?? this.defaultUserId;
+    if (!this.accessToken || !to) {
+      throw new Error('LINE_CHANNEL_ACCESS_TOKEN or LINE_USER_ID is not set');
+    }
+
+    const response = await fetch(LINE_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+      body: JSON.stringify({
+        to,
+        messages: [{ type: 'text', text: toPlainText(notification) }],
+      }),
+    });
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(
+        `LINE push failed: HTTP ${response.status}: ${body.slice(0, 200)}`,
+      );
+    }
+  }
+}
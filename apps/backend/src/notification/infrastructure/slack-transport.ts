@@ -0,0 +1,33 @@
+// ============================================================================
+// SlackTransport - Slack Incoming Webhook への通知
+// ============================================================================
+
+import type { NotificationTransport } from '../domain/ports';
+import { toPlainText } from '../domain/ports';
+import type { OutboundNotification } from '../domain/routing';
+
+export class SlackTransport implements NotificationTransport {
+  readonly channel = 'SLACK' as const;
+
+  /** @param defaultWebhookUrl SLACK_WEBHOOK_URL（ルールに送信先がない場合） */
+  constructor(private readonly defaultWebhookUrl: string | undefined) {}
+
+  async send(
+    notification: OutboundNotification,
+    target: string | null,
+  ): Promise<void> {
+    const webhookUrl = target ?? this.defaultWebhookUrl;
+    if (!webhookUrl) {
+      throw new Error('SLACK_WEBHOOK_URL is not set');
+    }
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: toPlainText(notification) }),
+    });
+    if (!response.ok) {
+      throw new Error(`Slack webhook failed: HTTP ${response.status}`);
+    }
+  }
+}
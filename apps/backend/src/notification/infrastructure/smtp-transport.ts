@@ -0,0 +1,66 @@
+// ============================================================================
+// SmtpTransport - SMTPでのメール通知（nodemailer）
+// SMTP_SECURE=true で接続時からTLS（465番）、それ以外はサーバーが対応していれば STARTTLS
+// ============================================================================
+
+import { createTransport, type Transporter } from 'nodemailer';
+import type { NotificationTransport } from '../domain/ports';
+import type { OutboundNotification } from '../domain/routing';
+import { parseEmailRecipients } from '../domain/routing';
+
+export interface SmtpConfig {
+  host: string | undefined;
+  port: number;
+  secure: boolean;
+  user: string | undefined;
+  pass: string | undefined;
+  from: string | undefined;
+  /** NOTIFICATION_EMAIL_TO（カンマ区切り、ルールに送信先がない場合） */
+  defaultTo: string | undefined;
+}
+
+export class SmtpTransport implements NotificationTransport {
+  readonly channel = 'EMAIL' as const;
+  private transporter: Transporter | null = null;
+
+  constructor(
+    private readonly config: SmtpConfig,
+    private readonly timeoutMs = 15_000,
+  ) {}
+
+  async send(
+    notification: OutboundNotification,
+    target: string | null,
+  ): Promise<void> {
+    const { host, from } = this.config;
+    const recipients = parseEmailRecipients(
+      target ?? this.config.defaultTo ?? '',
+    );
+    if (!host || !from || recipients.length === 0) {
+      throw new Error(
+        'SMTP_HOST, SMTP_FROM or NOTIFICATION_EMAIL_TO is not set',
+      );
+    }
+
+    await this.connect().sendMail({
+      from,
+      to: recipients,
+      subject: notification.title,
+      text: notification.message,
+    });
+  }
+
+  private connect(): Transporter {
+    const { host, port, secure, user, pass } = this.config;
+    this.transporter ??= createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: pass ?? '' } : undefined,
+      connectionTimeout: this.timeoutMs,
+      greetingTimeout: this.timeoutMs,
+      socketTimeout: this.timeoutMs,
+    });
+    return this.transporter;
+  }
+}
@@ -0,0 +1,40 @@
+// ============================================================================
+// WebhookTransport - 任意のURLへ通知をJSONでPOSTする
+// ============================================================================
+
+import type { NotificationTransport } from '../domain/ports';
+import type { OutboundNotification } from '../domain/routing';
+
+export class WebhookTransport implements NotificationTransport {
+  readonly channel = 'WEBHOOK' as const;
+
+  /** @param defaultUrl NOTIFICATION_WEBHOOK_URL（ルールに送信先がない場合） */
+  constructor(private readonly defaultUrl: string | undefined) {}
+
+  async send(
+    notification: OutboundNotification,
+    target: string | null,
+  ): Promise<void> {
+    const url = target ?? this.defaultUrl;
+    if (!url) {
+      throw new Error('NOTIFICATION_WEBHOOK_URL is not set');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: notification.type,
+        severity: notification.severity,
+        advertiserId: notification.advertiserId,
+        entityId: notification.entityId ?? null,
+        title: notification.title,
+        message: notification.message,
+        metadata: notification.metadata ?? null,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook failed: HTTP ${response.status}`);
+    }
+  }
+}
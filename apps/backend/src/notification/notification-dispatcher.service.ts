@@ -0,0 +1,293 @@
+// ============================================================================
+// NotificationDispatcherService - 通知の外部配信（LINE / Slack / メール / Webhook）
+// 配信ルールに一致したチャネルへ送り、重複排除・通知を控える時間帯・送信結果を
+// notification_deliveries に記録する（送信失敗は FAILED として残り、再送できる）
+// ============================================================================
+
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import type { NotificationDelivery, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationRouteService } from './notification-route.service';
+import { NOTIFICATION_TRANSPORTS } from './domain/ports';
+import type { NotificationTransport } from './domain/ports';
+import { dedupKey, matchRoutes, quietUntil } from './domain/routing';
+import type {
+  NotificationRouteRule,
+  OutboundNotification,
+} from './domain/routing';
+
+export interface NotificationDeliveryQuery {
+  status?: string;
+  limit?: number;
+}
+
+/** 1回の配信で送信を試みる回数（一時的なネットワークエラー対策） */
+const MAX_SEND_ATTEMPTS = 2;
+/**
+ * 送信中（PENDING）のまま残った配信を送り直すまでの猶予
+ * 送信中にインスタンスが落ちると残り続け、重複排除で後続の同じ通知まで止めてしまう
+ */
+const STALE_PENDING_GRACE_MS = 10 * 60_000;
+const DEFAULT_DELIVERY_LIMIT = 100;
+const MAX_DELIVERY_LIMIT = 500;
+
+@Injectable()
+export class NotificationDispatcherService {
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+  private readonly transports: Map<string, NotificationTransport>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly routes: NotificationRouteService,
+    @Inject(NOTIFICATION_TRANSPORTS) transports: NotificationTransport[],
+  ) {
+    this.transports = new Map(transports.map((t) => [t.channel, t]));
+  }
+
+  /**
+   * 配信ルールに一致したチャネルへ通知を送る
+   * 呼び出し元の処理に影響させないため例外は投げない（結果は配信記録で確認する）
+   */
+  async dispatch(
+    notification: OutboundNotification,
+    notificationId?: string,
+  ): Promise<NotificationDelivery[]> {
+    try {
+      const routes = matchRoutes(await this.routes.loadActive(), notification);
+      if (routes.length === 0) {
+        // 通知一覧にだけ残る。CRITICAL が外部に届かない設定は気づけるよう警告する
+        const message = `[NOTIFICATION] No route matched ${notification.type} (${notification.severity}): ${notification.title}`;
+        if (notification.severity === 'CRITICAL') this.logger.warn(message);
+        else this.logger.log(message);
+      }
+      const deliveries: NotificationDelivery[] = [];
+      for (const route of routes) {
+        deliveries.push(
+          await this.dispatchToRoute(
+            route,
+            notification,
+            notificationId ?? null,
+            new Date(),
+          ),
+        );
+      }
+      return deliveries;
+    } catch (error) {
+      this.logger.error(
+        `[NOTIFICATION] Failed to dispatch ${notification.type} (${notification.title}): ${error.message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * 通知を控える時間帯が終わった配信と、送信中のまま猶予を過ぎた配信を送る
+   */
+  @Cron('*/5 * * * *', { name: 'notification-deferred-flush' })
+  async flushDeferred(): Promise<NotificationDelivery[]> {
+    const now = new Date();
+    const due = await this.prisma.notificationDelivery.findMany({
+      where: { status: 'DEFERRED', scheduledAt: { lte: now } },
+      orderBy: { scheduledAt: 'asc' },
+    });
+    const stale = await this.prisma.notificationDelivery.findMany({
+      where: {
+        status: 'PENDING',
+        updatedAt: { lte: new Date(now.getTime() - STALE_PENDING_GRACE_MS) },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    const delivered: NotificationDelivery[] = [];
+    for (const delivery of due) {
+      // 複数インスタンスで同じ配信を二重に送らないよう条件付きで取得する
+      if (await this.claim(delivery.id, 'DEFERRED')) {
+        delivered.push(await this.deliver(delivery));
+      }
+    }
+    for (const delivery of stale) {
+      // PENDING のまま取り直すため、読んだ時点から更新されていないことを条件にする
+      if (await this.claim(delivery.id, 'PENDING', delivery.updatedAt)) {
+        this.logger.warn(
+          `[NOTIFICATION] Resending ${delivery.channel} delivery left pending since ${delivery.updatedAt.toISOString()} (${delivery.id})`,
+        );
+        delivered.push(await this.deliver(delivery));
+      }
+    }
+    return delivered;
+  }
+
+  /** 送信に失敗した配信を再送する */
+  async retry(deliveryId: string): Promise<NotificationDelivery> {
+    const delivery = await this.findDelivery(deliveryId);
+    if (delivery.status !== 'FAILED') {
+      throw new BadRequestException(
+        `Only FAILED deliveries can be retried (status: ${delivery.status})`,
+      );
+    }
+    if (!(await this.claim(delivery.id, 'FAILED'))) {
+      throw new BadRequestException(
+        `Delivery is already being retried: ${deliveryId}`,
+      );
+    }
+    return this.deliver(delivery);
+  }
+
+  async listDeliveries(
+    query: NotificationDeliveryQuery = {},
+  ): Promise<NotificationDelivery[]> {
+    return this.prisma.notificationDelivery.findMany({
+      where: query.status ? { status: query.status } : {},
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(
+        Math.max(query.limit ?? DEFAULT_DELIVERY_LIMIT, 1),
+        MAX_DELIVERY_LIMIT,
+      ),
+    });
+  }
+
+  async findDelivery(id: string): Promise<NotificationDelivery> {
+    const delivery = await this.prisma.notificationDelivery.findUnique({
+      where: { id },
+    });
+    if (!delivery) {
+      throw new NotFoundException(`Notification delivery not found: ${id}`);
+    }
+    return delivery;
+  }
+
+  // ============================================================================
+  // 内部
+  // ============================================================================
+
+  private async dispatchToRoute(
+    route: NotificationRouteRule,
+    notification: OutboundNotification,
+    notificationId: string | null,
+    now: Date,
+  ): Promise<NotificationDelivery> {
+    const key = dedupKey(route, notification);
+    const data = {
+      routeId: route.id,
+      notificationId,
+      channel: route.channel,
+      target: route.target,
+      type: notification.type,
+      severity: notification.severity,
+      advertiserId: notification.advertiserId,
+      title: notification.title,
+      message: notification.message,
+      metadata: (notification.metadata ?? undefined) as
+        | Prisma.InputJsonValue
+        | undefined,
+      dedupKey: key,
+    };
+
+    if (route.dedupWindowMinutes > 0) {
+      const duplicate = await this.prisma.notificationDelivery.findFirst({
+        where: {
+          dedupKey: key,
+          status: { in: ['PENDING', 'SENT', 'DEFERRED'] },
+          createdAt: {
+            gte: new Date(now.getTime() - route.dedupWindowMinutes * 60_000),
+          },
+        },
+      });
+      if (duplicate) {
+        this.logger.log(
+          `[NOTIFICATION] Suppressed duplicate ${route.channel} notification: ${key}`,
+        );
+        return this.prisma.notificationDelivery.create({
+          data: { ...data, status: 'SUPPRESSED', suppressReason: 'DUPLICATE' },
+        });
+      }
+    }
+
+    const resumeAt = quietUntil(route, notification.severity, now);
+    if (resumeAt) {
+      this.logger.log(
+        `[NOTIFICATION] Deferred ${route.channel} notification until ${resumeAt.toISOString()}: ${key}`,
+      );
+      return this.prisma.notificationDelivery.create({
+        data: { ...data, status: 'DEFERRED', scheduledAt: resumeAt },
+      });
+    }
+
+    const pending = await this.prisma.notificationDelivery.create({
+      data: { ...data, status: 'PENDING' },
+    });
+    return this.deliver(pending);
+  }
+
+  private async deliver(
+    delivery: NotificationDelivery,
+  ): Promise<NotificationDelivery> {
+    const transport = this.transports.get(delivery.channel);
+    let attempts = delivery.attempts;
+    let error: string | null = transport
+      ? null
+      : `No transport for channel: ${delivery.channel}`;
+
+    if (transport) {
+      for (let i = 0; i < MAX_SEND_ATTEMPTS; i++) {
+        attempts++;
+        try {
+          await transport.send(toOutbound(delivery), delivery.target);
+          error = null;
+          break;
+        } catch (e) {
+          error = e?.message ?? String(e);
+        }
+      }
+    }
+
+    if (error) {
+      this.logger.error(
+        `[NOTIFICATION] ${delivery.channel} delivery failed (${delivery.id}, ${delivery.type}): ${error}`,
+      );
+    } else {
+      this.logger.log(
+        `[NOTIFICATION] Sent ${delivery.channel} notification: ${delivery.title}`,
+      );
+    }
+
+    return this.prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: error ? 'FAILED' : 'SENT',
+        attempts,
+        error,
+        sentAt: error ? null : new Date(),
+      },
+    });
+  }
+
+  private async claim(
+    id: string,
+    status: string,
+    updatedAt?: Date,
+  ): Promise<boolean> {
+    const claimed = await this.prisma.notificationDelivery.updateMany({
+      where: { id, status, ...(updatedAt && { updatedAt }) },
+      data: { status: 'PENDING' },
+    });
+    return claimed.count > 0;
+  }
+}
+
+function toOutbound(delivery: NotificationDelivery): OutboundNotification {
+  return {
+    type: delivery.type,
+    severity: delivery.severity,
+    advertiserId: delivery.advertiserId,
+    title: delivery.title,
+    message: delivery.message,
+    metadata: delivery.metadata as Record<string, unknown> | null,
+  };
+}
@@ -0,0 +1,138 @@
+// ============================================================================
+// NotificationRouteController - 通知の配信ルール・配信記録 API
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  NotificationRouteService,
+  type NotificationRouteDto,
+} from './notification-route.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+} from './domain/routing';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.NOTIFICATION_CONFIGURE)
+@RequireAllAdvertisers()
+@Controller('api/notification-routes')
+export class NotificationRouteController {
+  private readonly logger = new Logger(NotificationRouteController.name);
+
+  constructor(
+    private readonly routes: NotificationRouteService,
+    private readonly dispatcher: NotificationDispatcherService,
+  ) {}
+
+  /**
+   * 配信チャネル
+   * GET /api/notification-routes/channels
+   */
+  @Get('channels')
+  channels() {
+    return {
+      success: true,
+      data: NOTIFICATION_CHANNELS.map((id) => ({
+        id,
+        label: NOTIFICATION_CHANNEL_LABELS[id],
+      })),
+    };
+  }
+
+  /**
+   * 配信ルール一覧（未登録の場合は既定ルールで配信される）
+   * GET /api/notification-routes/routes
+   */
+  @Get('routes')
+  async list() {
+    return this.handle('List routes', async () => this.routes.list());
+  }
+
+  /**
+   * 配信ルール登録
+   * POST /api/notification-routes/routes
+   */
+  @Post('routes')
+  async create(@Body() body: NotificationRouteDto) {
+    return this.handle('Create route', async () => this.routes.create(body));
+  }
+
+  /**
+   * 配信ルール更新
+   * PATCH /api/notification-routes/routes/:id
+   */
+  @Patch('routes/:id')
+  async update(@Param('id') id: string, @Body() body: NotificationRouteDto) {
+    return this.handle('Update route', async () =>
+      this.routes.update(id, body),
+    );
+  }
+
+  /**
+   * 配信ルール削除
+   * DELETE /api/notification-routes/routes/:id
+   */
+  @Delete('routes/:id')
+  async remove(@Param('id') id: string) {
+    return this.handle('Delete route', async () => {
+      await this.routes.remove(id);
+      return { id };
+    });
+  }
+
+  /**
+   * 配信記録（新しい順）
+   * GET /api/notification-routes/deliveries?status=FAILED&limit=100
+   */
+  @Get('deliveries')
+  async deliveries(
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.handle('List deliveries', async () =>
+      this.dispatcher.listDeliveries({
+        status: status || undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      }),
+    );
+  }
+
+  /**
+   * 送信に失敗した配信を再送
+   * POST /api/notification-routes/deliveries/:id/retry
+   */
+  @Post('deliveries/:id/retry')
+  async retry(@Param('id') id: string) {
+    return this.handle('Retry delivery', async () => this.dispatcher.retry(id));
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[NOTIFICATION] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// ============================================================================
+// NotificationRouteService - 通知の配信ルール（どの通知をどのチャネルへ送るか）の管理
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { NotificationRoute } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_ROUTES, validateRouteInput } from './domain/routing';
+import type { NotificationRouteRule } from './domain/routing';
+
+export interface NotificationRouteDto {
+  name?: string;
+  channel?: string;
+  target?: string | null;
+  types?: string[];
+  minSeverity?: string;
+  advertiserIds?: string[];
+  dedupWindowMinutes?: number;
+  quietHoursStart?: number | null;
+  quietHoursEnd?: number | null;
+  enabled?: boolean;
+}
+
+@Injectable()
+export class NotificationRouteService {
+  private readonly logger = new Logger(NotificationRouteService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(): Promise<NotificationRoute[]> {
+    return this.prisma.notificationRoute.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * 配信に使うルール
+   * 1件も登録されていなければ既定ルール（これまでの LINE / Slack の送り先）を使う
+   */
+  async loadActive(): Promise<NotificationRouteRule[]> {
+    const routes = await this.list();
+    if (routes.length === 0) return DEFAULT_ROUTES;
+    return routes.filter((route) => route.enabled);
+  }
+
+  async findById(id: string): Promise<NotificationRoute> {
+    const route = await this.prisma.notificationRoute.findUnique({
+      where: { id },
+    });
+    if (!route) {
+      throw new NotFoundException(`Notification route not found: ${id}`);
+    }
+    return route;
+  }
+
+  async create(dto: NotificationRouteDto): Promise<NotificationRoute> {
+    const fields = this.toValidatedFields(dto);
+    const created = await this.prisma.notificationRoute.create({
+      data: fields,
+    });
+    this.logger.log(
+      `[NOTIFICATION] Created route ${created.name} (${created.channel})`,
+    );
+    return created;
+  }
+
+  async update(
+    id: string,
+    dto: NotificationRouteDto,
+  ): Promise<NotificationRoute> {
+    const existing = await this.findById(id);
+    const fields = this.toValidatedFields(dto, existing);
+    const updated = await this.prisma.notificationRoute.update({
+      where: { id },
+      data: fields,
+    });
+    this.logger.log(`[NOTIFICATION] Updated route ${updated.name}`);
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    const existing = await this.findById(id);
+    await this.prisma.notificationRoute.delete({ where: { id } });
+    this.logger.log(`[NOTIFICATION] Deleted route ${existing.name}`);
+  }
+
+  /** 既存値とマージしてから検証する（PATCH は変更した項目のみ送られる） */
+  private toValidatedFields(
+    dto: NotificationRouteDto,
+    existing?: NotificationRoute,
+  ) {
+    const merged = {
+      name: (dto.name ?? existing?.name ?? '').trim(),
+      channel: dto.channel ?? existing?.channel,
+      target:
+        dto.target === undefined
+          ? (existing?.target ?? null)
+          : dto.target?.trim() || null,
+      types: dto.types ?? existing?.types ?? [],
+      minSeverity: dto.minSeverity ?? existing?.minSeverity ?? 'INFO',
+      advertiserIds: dto.advertiserIds ?? existing?.advertiserIds ?? [],
+      dedupWindowMinutes:
+        dto.dedupWindowMinutes ?? existing?.dedupWindowMinutes ?? 0,
+      quietHoursStart:
+        dto.quietHoursStart === undefined
+          ? (existing?.quietHoursStart ?? null)
+          : dto.quietHoursStart,
+      quietHoursEnd:
+        dto.quietHoursEnd === undefined
+          ? (existing?.quietHoursEnd ?? null)
+          : dto.quietHoursEnd,
+      enabled: dto.enabled ?? existing?.enabled ?? true,
+    };
+
+    const errors = validateRouteInput(merged);
+    if (
+      !Array.isArray(merged.types) ||
+      !merged.types.every((t) => typeof t === 'string')
+    ) {
+      errors.push('types must be an array of strings');
+    }
+    if (
+      !Array.isArray(merged.advertiserIds) ||
+      !merged.advertiserIds.every((a) => typeof a === 'string')
+    ) {
+      errors.push('advertiserIds must be an array of strings');
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Invalid notification route: ${errors.join('; ')}`,
+      );
+    }
+    return { ...merged, channel: merged.channel as string };
+  }
+}
@@ -16,7 +16,11 @@ import {
   NotificationSeverity,
   NotificationStatus,
 } from './notification.service';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import type { AuthPrincipal } from '../auth/domain/principal';
 
+@RequirePermissions(PERMISSIONS.NOTIFICATION_READ)
 @Controller('api/notifications')
 export class NotificationController {
   constructor(private readonly notificationService: NotificationService) {}
@@ -27,7 +31,8 @@ export class NotificationController {
    */
   @Get()
   async getNotifications(
-    @Query('advertiserId') advertiserId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
     @Query('status') status?: string,
     @Query('type') type?: string,
     @Query('severity') severity?: string,
@@ -44,14 +49,17 @@ export class NotificationController {
       ? (severity.split(',') as NotificationSeverity[])
       : undefined;
 
-    return this.notificationService.getNotifications({
-      advertiserId,
-      status: statusArray,
-      type: typeArray,
-      severity: severityArray,
-      limit: limit ? parseInt(limit, 10) : 50,
-      offset: offset ? parseInt(offset, 10) : 0,
-    });
+    return this.notificationService.getNotifications(
+      {
+        advertiserId,
+        status: statusArray,
+        type: typeArray,
+        severity: severityArray,
+        limit: limit ? parseInt(limit, 10) : 50,
+        offset: offset ? parseInt(offset, 10) : 0,
+      },
+      principal.advertiserIds,
+    );
   }
 
   /**
@@ -59,8 +67,14 @@ export class NotificationController {
    * GET /api/notifications/unread-count?advertiserId=xxx
    */
   @Get('unread-count')
-  async getUnreadCount(@Query('advertiserId') advertiserId: string) {
-    const count = await this.notificationService.getUnreadCount(advertiserId);
+  async getUnreadCount(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
+  ) {
+    const count = await this.notificationService.getUnreadCount(
+      advertiserId,
+      principal.advertiserIds,
+    );
     return { unreadCount: count };
   }
 
@@ -68,6 +82,7 @@ export class NotificationController {
    * 通知既読更新
    * PATCH /api/notifications/:id/read
    */
+  @RequirePermissions(PERMISSIONS.NOTIFICATION_WRITE)
   @Patch(':id/read')
   @HttpCode(HttpStatus.OK)
   async markAsRead(@Param('id') id: string) {
@@ -79,6 +94,7 @@ export class NotificationController {
    * 一括既読
    * POST /api/notifications/mark-read
    */
+  @RequirePermissions(PERMISSIONS.NOTIFICATION_WRITE)
   @Post('mark-read')
   @HttpCode(HttpStatus.OK)
   async markAllAsRead(
@@ -95,6 +111,7 @@ export class NotificationController {
    * 通知削除（対応済み）
    * DELETE /api/notifications/:id
    */
+  @RequirePermissions(PERMISSIONS.NOTIFICATION_WRITE)
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
   async deleteNotification(@Param('id') id: string) {
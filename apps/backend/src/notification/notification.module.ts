@@ -1,12 +1,47 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { NotificationService } from './notification.service';
 import { NotificationController } from './notification.controller';
+import { NotificationRouteService } from './notification-route.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationRouteController } from './notification-route.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { NOTIFICATION_TRANSPORTS } from './domain/ports';
+import type { NotificationTransport } from './domain/ports';
+import { LineTransport } from './infrastructure/line-transport';
+import { SlackTransport } from './infrastructure/slack-transport';
+import { SmtpTransport } from './infrastructure/smtp-transport';
+import { WebhookTransport } from './infrastructure/webhook-transport';
 
 @Module({
   imports: [PrismaModule],
-  controllers: [NotificationController],
-  providers: [NotificationService],
-  exports: [NotificationService],
+  controllers: [NotificationController, NotificationRouteController],
+  providers: [
+    NotificationService,
+    NotificationRouteService,
+    NotificationDispatcherService,
+    {
+      provide: NOTIFICATION_TRANSPORTS,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): NotificationTransport[] => [
+        new LineTransport(
+          config.get<string>('LINE_CHANNEL_ACCESS_TOKEN'),
+          config.get<string>('LINE_USER_ID'),
+        ),
+        new SlackTransport(config.get<string>('SLACK_WEBHOOK_URL')),
+        new SmtpTransport({
+          host: config.get<string>('SMTP_HOST'),
+          port: Number(config.get<string>('SMTP_PORT') ?? 587),
+          secure: config.get<string>('SMTP_SECURE') === 'true',
+          user: config.get<string>('SMTP_USER'),
+          pass: config.get<string>('SMTP_PASS'),
+          from: config.get<string>('SMTP_FROM'),
+          defaultTo: config.get<string>('NOTIFICATION_EMAIL_TO'),
+        }),
+        new WebhookTransport(config.get<string>('NOTIFICATION_WEBHOOK_URL')),
+      ],
+    },
+  ],
+  exports: [NotificationService, NotificationDispatcherService],
 })
 export class NotificationModule {}
@@ -1,5 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { advertiserScopeFilter } from '../auth/domain/principal';
 
 // 通知タイプ
 export enum NotificationType {
@@ -8,6 +10,13 @@ export enum NotificationType {
   BUDGET_CAP_APPLIED = 'BUDGET_CAP_APPLIED', // 上限日予算適用通知
   BUDGET_CAP_REACHED = 'BUDGET_CAP_REACHED', // 上限日予算到達通知（増額スキップ）
   PERFORMANCE_DEGRADATION = 'PERFORMANCE_DEGRADATION', // パフォーマンス急激悪化（50%以上乖離）
+  TOKEN_EXPIRING = 'TOKEN_EXPIRING', // OAuthトークン失効間近（自動リフレッシュ失敗）
+  INTRADAY_CPA_PAUSE = 'INTRADAY_CPA_PAUSE', // 日中CPAチェックによる広告一時停止
+  INTRADAY_BUDGET_REDUCED = 'INTRADAY_BUDGET_REDUCED', // 日中CPAチェックによる予算削減
+  // 以下は通知一覧に残さず外部配信のみ（NotificationDispatcherService.dispatch）
+  SYSTEM_ERROR = 'SYSTEM_ERROR', // 予算調整等のシステムエラー
+  BUDGET_ANOMALY = 'BUDGET_ANOMALY', // 予算異常検知
+  SEMINAR_ATTENDANCE_ALERT = 'SEMINAR_ATTENDANCE_ALERT', // セミナー着座率アラート
 }
 
 // 重要度
@@ -28,6 +37,7 @@ export enum EntityType {
   AD = 'AD',
   ADGROUP = 'ADGROUP',
   CAMPAIGN = 'CAMPAIGN',
+  ADVERTISER = 'ADVERTISER',
 }
 
 // 通知作成用DTO
@@ -44,7 +54,7 @@ export interface CreateNotificationDto {
 
 // 通知一覧取得用オプション
 export interface GetNotificationsOptions {
-  advertiserId: string;
+  advertiserId?: string;
   status?: NotificationStatus[];
   type?: NotificationType[];
   severity?: NotificationSeverity[];
@@ -56,7 +66,10 @@ export interface GetNotificationsOptions {
 export class NotificationService {
   private readonly logger = new Logger(NotificationService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dispatcher: NotificationDispatcherService,
+  ) {}
 
   /**
    * 通知を作成
@@ -88,7 +101,7 @@ export class NotificationService {
         }
       }
 
-      await this.prisma.notification.create({
+      const created = await this.prisma.notification.create({
         data: {
           type: dto.type,
           severity: dto.severity,
@@ -105,6 +118,24 @@ export class NotificationService {
       this.logger.log(
         `Notification created: ${dto.type} - ${dto.title} (advertiserId: ${dto.advertiserId})`,
       );
+
+      // 配信ルールに一致すれば LINE / Slack 等にも送る（ルールは TikTok advertiser_id で指定）
+      const advertiser = await this.prisma.advertiser.findUnique({
+        where: { id: dto.advertiserId },
+        select: { tiktokAdvertiserId: true },
+      });
+      await this.dispatcher.dispatch(
+        {
+          type: dto.type,
+          severity: dto.severity,
+          advertiserId: advertiser?.tiktokAdvertiserId ?? null,
+          entityId: dto.entityId ?? null,
+          title: dto.title,
+          message: dto.message,
+          metadata: dto.metadata ?? null,
+        },
+        created.id,
+      );
     } catch (error) {
       this.logger.error(
         `Failed to create notification: ${error.message}`,
@@ -308,10 +339,73 @@ ${performanceTable}
     });
   }
 
+  /**
+   * OAuthトークン失効間近通知を作成
+   * 毎時のリフレッシュで繰り返さないよう、同じ有効期限のトークンについては一度だけ通知する
+   */
+  async createTokenExpiringNotification(
+    advertiserId: string,
+    tiktokAdvertiserId: string,
+    advertiserName: string,
+    expiresAt: Date,
+    refreshFailureCount: number,
+    lastRefreshError: string | null,
+  ): Promise<void> {
+    const notified = await this.prisma.notification.findMany({
+      where: {
+        advertiserId,
+        type: NotificationType.TOKEN_EXPIRING,
+        entityId: tiktokAdvertiserId,
+      },
+      select: { metadata: true },
+    });
+    if (
+      notified.some(
+        (n) =>
+          (n.metadata as { expiresAt?: string } | null)?.expiresAt ===
+          expiresAt.toISOString(),
+      )
+    ) {
+      this.logger.log(
+        `Duplicate notification skipped: ${NotificationType.TOKEN_EXPIRING} for entity ${tiktokAdvertiserId} (expiresAt ${expiresAt.toISOString()})`,
+      );
+      return;
+    }
+
+    const message = `【TikTokトークン失効間近】
+広告アカウント: ${advertiserName}（${tiktokAdvertiserId}）
+有効期限: ${expiresAt.toISOString()}
+自動リフレッシュ連続失敗: ${refreshFailureCount}回
+最終エラー: ${lastRefreshError ?? 'リフレッシュトークンなし'}
+
+推奨アクション:
+- TikTokの認可を再実行してトークンを再取得
+- 失効すると予算調整・データ取得が停止します`;
+
+    await this.createNotification({
+      type: NotificationType.TOKEN_EXPIRING,
+      severity: NotificationSeverity.CRITICAL,
+      advertiserId,
+      entityType: EntityType.ADVERTISER,
+      entityId: tiktokAdvertiserId,
+      title: `TikTokトークン失効間近: ${advertiserName}`,
+      message,
+      metadata: {
+        expiresAt: expiresAt.toISOString(),
+        refreshFailureCount,
+        lastRefreshError,
+      },
+    });
+  }
+
   /**
    * 通知一覧を取得
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
    */
-  async getNotifications(options: GetNotificationsOptions): Promise<{
+  async getNotifications(
+    options: GetNotificationsOptions,
+    scope: string[] | null,
+  ): Promise<{
     notifications: any[];
     total: number;
     unreadCount: number;
@@ -325,7 +419,9 @@ ${performanceTable}
       offset = 0,
     } = options;
 
-    const where: any = { advertiserId };
+    const where: any = {
+      advertiserId: advertiserScopeFilter(advertiserId, scope),
+    };
 
     if (status && status.length > 0) {
       where.status = { in: status };
@@ -347,7 +443,7 @@ ${performanceTable}
       this.prisma.notification.count({ where }),
       this.prisma.notification.count({
         where: {
-          advertiserId,
+          advertiserId: where.advertiserId,
           status: NotificationStatus.UNREAD,
         },
       }),
@@ -406,10 +502,13 @@ ${performanceTable}
   /**
    * 未読通知数を取得
    */
-  async getUnreadCount(advertiserId: string): Promise<number> {
+  async getUnreadCount(
+    advertiserId: string | undefined,
+    scope: string[] | null,
+  ): Promise<number> {
     return this.prisma.notification.count({
       where: {
-        advertiserId,
+        advertiserId: advertiserScopeFilter(advertiserId, scope),
         status: NotificationStatus.UNREAD,
       },
     });
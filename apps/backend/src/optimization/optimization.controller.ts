@@ -1,7 +1,13 @@
 import { Controller, Post, Body, Logger, Param } from '@nestjs/common';
 import { OptimizationService, OptimizationMode } from './optimization.service';
 import { ConfigService } from '@nestjs/config';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.BUDGET_EXECUTE)
 @Controller('api/optimization')
 export class OptimizationController {
   private readonly logger = new Logger(OptimizationController.name);
@@ -30,6 +36,7 @@ export class OptimizationController {
    * POST /api/optimization/execute
    * Body: { accessToken?: string, mode?: 'ROAS_MAXIMIZE' | 'ACQUISITION_MAXIMIZE', dryRun?: boolean }
    */
+  @RequireAllAdvertisers()
   @Post('execute')
   async executeOptimization(
     @Body('accessToken') accessToken?: string,
@@ -224,6 +231,7 @@ export class OptimizationController {
    * 評価期間をデバッグ用に確認
    * POST /api/optimization/debug-period
    */
+  @RequireAllAdvertisers()
   @Post('debug-period')
   async debugEvaluationPeriod() {
     return this.optimizationService.debugEvaluationPeriod();
@@ -5,7 +5,13 @@ import { GoogleSheetsService } from '../google-sheets/google-sheets.service';
 import { AppealService } from '../appeal/appeal.service';
 import { AdBudgetCapService } from '../ad-performance/ad-budget-cap.service';
 import { NotificationService } from '../notification/notification.service';
+import { BudgetAuditService } from '../budget-audit/budget-audit.service';
+import type {
+  AuditEntityType,
+  AuditState,
+} from '../budget-audit/domain/audit-event';
 import { ConfigService } from '@nestjs/config';
+import { isCreativeFileName } from '../ad-naming/domain/ad-name';
 import {
   validateAppealSettings,
   validateAdNameFormat,
@@ -114,31 +120,9 @@ export class OptimizationService {
     private adBudgetCapService: AdBudgetCapService,
     private notificationService: NotificationService,
     private configService: ConfigService,
+    private budgetAudit: BudgetAuditService,
   ) {}
 
-  /**
-   * ad_nameがクリエイティブ名（ファイル名）かどうかを判定
-   * CR名には.mp4, .jpg, .png などの拡張子が含まれる
-   */
-  private isCreativeName(adName: string | null | undefined): boolean {
-    if (!adName) return false;
-
-    const videoExtensions = ['.mp4', '.MP4', '.mov', '.MOV', '.avi', '.AVI'];
-    const imageExtensions = [
-      '.jpg',
-      '.JPG',
-      '.jpeg',
-      '.JPEG',
-      '.png',
-      '.PNG',
-      '.gif',
-      '.GIF',
-    ];
-    const allExtensions = [...videoExtensions, ...imageExtensions];
-
-    return allExtensions.some((ext) => adName.includes(ext));
-  }
-
   /**
    * 予算調整を実行（全Advertiser対象）
    * @param accessToken TikTok APIアクセストークン
@@ -275,7 +259,7 @@ export class OptimizationService {
 
       // CR名（拡張子含む）の場合は旧スマプラなのでPhase 2で処理
       // ただし、新スマートプラス広告（isSmartPlus=true）の場合は、Phase 1で処理
-      if (this.isCreativeName(ad.ad_name) && !ad.isSmartPlus) {
+      if (isCreativeFileName(ad.ad_name) && !ad.isSmartPlus) {
         this.logger.debug(
           `Ad ${ad.ad_id} has creative name (${ad.ad_name}), skipping in Phase 1 (will be processed as Smart+ legacy in Phase 2)`,
         );
@@ -458,14 +442,14 @@ export class OptimizationService {
       // 全広告がCR名（拡張子含む）かどうかをチェック
       const allAdsHaveCreativeNames =
         campaignAds.length > 0 &&
-        campaignAds.every((ad: any) => this.isCreativeName(ad.ad_name));
+        campaignAds.every((ad: any) => isCreativeFileName(ad.ad_name));
 
       // CR名でない広告名（手動の広告名）を持つ広告が1つでもあれば通常/新スマプラキャンペーン
       const hasManualAdNames = campaignAds.some(
         (ad: any) =>
           ad.ad_name &&
           ad.ad_name.trim() !== '' &&
-          !this.isCreativeName(ad.ad_name),
+          !isCreativeFileName(ad.ad_name),
       );
 
       if (hasManualAdNames) {
@@ -1424,11 +1408,12 @@ export class OptimizationService {
 
       // ChangeLogに記録
       await this.logChange(
+        advertiserId,
         'AD',
         adId,
         'PAUSE',
         'OPTIMIZATION',
-        null,
+        { status: 'ENABLE' },
         { status: 'DISABLE' },
         reason,
       );
@@ -1590,6 +1575,7 @@ export class OptimizationService {
         await withDatabaseRetry(
           () =>
             this.logChange(
+              advertiserId,
               'ADGROUP',
               adgroupId,
               'UPDATE_BUDGET',
@@ -1677,6 +1663,7 @@ export class OptimizationService {
         await withDatabaseRetry(
           () =>
             this.logChange(
+              advertiserId,
               'CAMPAIGN',
               adgroup.campaign_id,
               'UPDATE_BUDGET',
@@ -1931,6 +1918,7 @@ export class OptimizationService {
         );
 
         await this.logChange(
+          advertiserId,
           'CAMPAIGN',
           campaignId,
           'UPDATE_BUDGET',
@@ -1983,6 +1971,7 @@ export class OptimizationService {
         );
 
         await this.logChange(
+          advertiserId,
           'ADGROUP',
           adgroupId,
           'UPDATE_BUDGET',
@@ -2012,27 +2001,27 @@ export class OptimizationService {
   }
 
   /**
-   * 変更ログを記録
+   * 変更ログを記録（予算・ステータス変更の監査ログ）
    */
   private async logChange(
-    entityType: string,
+    advertiserId: string,
+    entityType: AuditEntityType,
     entityId: string,
     action: string,
     source: string,
-    beforeData: any,
-    afterData: any,
+    beforeData: AuditState | null,
+    afterData: AuditState | null,
     reason: string,
   ) {
-    await this.prisma.changeLog.create({
-      data: {
-        entityType,
-        entityId,
-        action,
-        source,
-        beforeData,
-        afterData,
-        reason,
-      },
+    await this.budgetAudit.record({
+      advertiserId,
+      entityType,
+      entityId,
+      action,
+      source,
+      before: beforeData,
+      after: afterData,
+      reason,
     });
   }
 
@@ -2268,6 +2257,7 @@ export class OptimizationService {
 
     // ChangeLogに記録
     await this.logChange(
+      advertiserId,
       'CAMPAIGN',
       campaignId,
       'PAUSE',
@@ -1,7 +1,11 @@
 import { Controller, Get, Query, Logger } from '@nestjs/common';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
 @Controller('api/pixels')
 export class PixelsController {
   private readonly logger = new Logger(PixelsController.name);
@@ -9,6 +13,7 @@ export class PixelsController {
   constructor(
     private readonly tiktokService: TiktokService,
     private readonly prisma: PrismaService,
+    private readonly tokenVault: TokenVaultService,
   ) {}
 
   /**
@@ -40,9 +45,9 @@ export class PixelsController {
       }
 
       // Access Tokenを取得
-      const token = await this.prisma.oAuthToken.findUnique({
-        where: { advertiserId: advertiser.tiktokAdvertiserId },
-      });
+      const token = await this.tokenVault.findByAdvertiserId(
+        advertiser.tiktokAdvertiserId,
+      );
 
       if (!token) {
         return {
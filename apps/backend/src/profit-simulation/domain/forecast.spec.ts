@@ -0,0 +1,113 @@
+import {
+  combineSamples,
+  simulateMonthEnd,
+  summarizeForecast,
+  type MonthEndForecastInput,
+} from './forecast';
+import { DailyMetrics } from './types';
+
+function day(date: string, adSpend: number, optins: number): DailyMetrics {
+  return {
+    date,
+    impressions: 0,
+    clicks: 0,
+    optins,
+    adSpend,
+    revenue: 0,
+    cpc: 0,
+    stageValues: {},
+  };
+}
+
+/** 2026年5月1日〜29日の実績（土日はオプトが倍）。残りは30日(土)・31日(日) */
+function mayInput(): MonthEndForecastInput {
+  const dailyData = Array.from({ length: 29 }, (_, i) => {
+    const weekday = new Date(Date.UTC(2026, 4, i + 1)).getUTCDay();
+    const weekend = weekday === 0 || weekday === 6;
+    return day(`2026/5/${i + 1}`, 300_000, weekend ? 200 : 100);
+  });
+  return {
+    channelType: 'AI',
+    year: 2026,
+    month: 5,
+    dailyData,
+    actualDays: 29,
+    totalDaysInMonth: 31,
+    actualAdSpend: 8_700_000,
+    actualRevenue: 18_000_000,
+    optinCount: 3_700,
+    stageMetrics: { オプトイン: 3_700, バックエンド購入: 30 },
+    avgPaymentAmount: 500_000,
+  };
+}
+
+describe('simulateMonthEnd', () => {
+  it('日別実績がなければ日割りの1点になる', () => {
+    const samples = simulateMonthEnd({
+      ...mayInput(),
+      dailyData: [],
+      actualDays: 10,
+      simulations: 10,
+    });
+    const forecast = summarizeForecast(samples, 10_000_000);
+
+    // 粗利 (1800万 - 870万) × 31/10、集客 3700 × 31/10
+    expect(forecast.profit).toEqual({
+      p10: 28_830_000,
+      p50: 28_830_000,
+      p90: 28_830_000,
+    });
+    expect(forecast.acquisition.p50).toBe(11_470);
+    expect(forecast.onTrackProbability).toBe(1);
+    expect(forecast.sampleDays).toBe(0);
+  });
+
+  it('残りの日の曜日で集客を見込み、成約のブレで粗利に幅が出る（シード固定で再現する）', () => {
+    const input = mayInput();
+    const forecast = summarizeForecast(simulateMonthEnd(input), 10_000_000);
+    const linearAcquisition = Math.round((3_700 * 31) / 29);
+
+    // 残り2日は土日なので、日割りより集客が多い
+    expect(forecast.acquisition.p50).toBeGreaterThan(linearAcquisition);
+    expect(forecast.profit.p10).toBeLessThan(forecast.profit.p50);
+    expect(forecast.profit.p50).toBeLessThan(forecast.profit.p90);
+    expect(forecast.sampleDays).toBe(29);
+    expect(forecast.simulations).toBe(2000);
+    expect(summarizeForecast(simulateMonthEnd(input), 10_000_000)).toEqual(
+      forecast,
+    );
+  });
+});
+
+describe('summarizeForecast', () => {
+  it('分位点は線形補間し、到達確率は目標以上になった試行の割合', () => {
+    const samples = {
+      profit: [10, 1, 9, 2, 8, 3, 7, 4, 6, 5].map((p) => p * 1_000_000),
+      acquisition: [100, 100, 100, 100, 100, 200, 200, 200, 200, 200],
+      sampleDays: 12,
+    };
+
+    expect(summarizeForecast(samples, 8_000_000)).toEqual({
+      profit: { p10: 1_900_000, p50: 5_500_000, p90: 9_100_000 },
+      acquisition: { p10: 100, p50: 150, p90: 200 },
+      onTrackProbability: 0.3,
+      sampleDays: 12,
+      simulations: 10,
+    });
+  });
+});
+
+describe('combineSamples', () => {
+  it('導線ごとの試行を同じ番号どうしで足し合わせる', () => {
+    const combined = combineSamples([
+      { profit: [1, 2, 3], acquisition: [10, 20, 30], sampleDays: 5 },
+      { profit: [100, 200, 300], acquisition: [1, 1, 1], sampleDays: 0 },
+    ]);
+
+    expect(combined).toEqual({
+      profit: [101, 202, 303],
+      acquisition: [11, 21, 31],
+      sampleDays: 0,
+    });
+  });
+});
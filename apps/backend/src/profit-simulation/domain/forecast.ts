@@ -0,0 +1,270 @@
+// ============================================================================
+// 月末着地の確率予測
+//
+// 日割り（実績 ÷ 実績日数 × 月の日数）は月初ほど数日のブレをそのまま月末まで伸ばす。
+// 残りの日を日別実績から繰り返し引き直して、粗利・集客数の月末着地を分布で出す。
+// - 曜日の季節性: 曜日ごとの平均 ÷ 全体平均（件数が少ない曜日は 1 に寄せる）
+// - 日々のブレ: 実績日の「曜日補正後の平均との比」をランダムに引く（広告費と集客は同じ日から）
+// - ファネルのブレ: 成約率（バックエンド購入 / オプトイン）を実績件数に応じた幅で揺らし、
+//   残りの日の成約件数をポアソンで引く
+// 乱数はシード固定で、同じ入力なら同じ結果になる
+// ============================================================================
+
+import { ChannelType, DailyMetrics, ProfitForecast } from './types';
+import { getStageDefinition } from './funnel-model';
+
+export const DEFAULT_SIMULATIONS = 2000;
+
+/** 曜日係数を全体平均に寄せる強さ（この日数分の「係数 1」を足して平均する） */
+const WEEKDAY_SHRINKAGE_DAYS = 2;
+
+export interface MonthEndForecastInput {
+  channelType: ChannelType;
+  year: number;
+  month: number;
+  dailyData: DailyMetrics[];
+  /** 実績日数（日割りと同じ日数。残り日数 = 月の日数 - 実績日数） */
+  actualDays: number;
+  totalDaysInMonth: number;
+  actualAdSpend: number;
+  actualRevenue: number;
+  optinCount: number;
+  stageMetrics: Record<string, number>;
+  avgPaymentAmount: number;
+  simulations?: number;
+  seed?: number;
+}
+
+/** 試行ごとの月末着地（導線をまたいで足し合わせるため、要約前の値を持つ） */
+export interface MonthEndSamples {
+  profit: number[];
+  acquisition: number[];
+  /** 分布の推定に使った実績日数（0 なら日割りの1点） */
+  sampleDays: number;
+}
+
+/**
+ * 月末着地の粗利・集客数を試行する
+ * 日別実績がなければ日割りの1点（全試行が同じ値）を返す
+ */
+export function simulateMonthEnd(
+  input: MonthEndForecastInput,
+): MonthEndSamples {
+  const simulations = input.simulations ?? DEFAULT_SIMULATIONS;
+  const remainingDays = Math.max(0, input.totalDaysInMonth - input.actualDays);
+  const days = input.dailyData.filter((d) => d.adSpend > 0 || d.optins > 0);
+  const actualProfit = input.actualRevenue - input.actualAdSpend;
+
+  if (days.length === 0 || remainingDays === 0) {
+    const ratio =
+      input.actualDays > 0 ? input.totalDaysInMonth / input.actualDays : 0;
+    const profit =
+      Math.round(input.actualRevenue * ratio) -
+      Math.round(input.actualAdSpend * ratio);
+    return {
+      profit: new Array<number>(simulations).fill(profit),
+      acquisition: new Array<number>(simulations).fill(
+        Math.round(input.optinCount * ratio),
+      ),
+      sampleDays: 0,
+    };
+  }
+
+  const weekdays = days.map((d) => weekdayOf(d.date));
+  const meanSpend = mean(days.map((d) => d.adSpend));
+  const meanOptins = mean(days.map((d) => d.optins));
+  const spendFactors = weekdayFactors(
+    days.map((d) => d.adSpend),
+    weekdays,
+  );
+  const optinFactors = weekdayFactors(
+    days.map((d) => d.optins),
+    weekdays,
+  );
+  // 実績日の曜日補正後の平均との比（日々のブレ）
+  const spendNoise = days.map((d, i) =>
+    ratioOf(d.adSpend, meanSpend * spendFactors[weekdays[i]]),
+  );
+  const optinNoise = days.map((d, i) =>
+    ratioOf(d.optins, meanOptins * optinFactors[weekdays[i]]),
+  );
+  // 残りの日は月末側の日付（日割りと同じ残り日数）
+  const remainingWeekdays = Array.from({ length: remainingDays }, (_, i) =>
+    weekdayOfDate(
+      input.year,
+      input.month,
+      input.totalDaysInMonth - remainingDays + 1 + i,
+    ),
+  );
+
+  // 売上をバックエンド成約分とオプト比例分（フロント等）に分ける
+  const stages = getStageDefinition(input.channelType);
+  const backendCount = input.stageMetrics[stages[stages.length - 1]] ?? 0;
+  const backendRevenue = Math.min(
+    input.actualRevenue,
+    backendCount * input.avgPaymentAmount,
+  );
+  const revenuePerBackend =
+    backendCount > 0 ? backendRevenue / backendCount : input.avgPaymentAmount;
+  const otherRevenuePerOptin =
+    input.optinCount > 0
+      ? (input.actualRevenue - backendRevenue) / input.optinCount
+      : 0;
+  const backendRate =
+    input.optinCount > 0 ? backendCount / input.optinCount : 0;
+  // 成約0件でも「まだ出ていないだけ」の幅を持たせる
+  const smoothedRate = (backendCount + 0.5) / (input.optinCount + 1);
+  const backendRateSd = Math.sqrt(
+    (smoothedRate * (1 - smoothedRate)) / (input.optinCount + 1),
+  );
+
+  const random = mulberry32(input.seed ?? seedOf(input.channelType));
+  const profit: number[] = [];
+  const acquisition: number[] = [];
+  for (let s = 0; s < simulations; s++) {
+    const rate = Math.max(0, backendRate + backendRateSd * normal(random));
+    let spend = 0;
+    let optins = 0;
+    for (const weekday of remainingWeekdays) {
+      const day = Math.floor(random() * days.length);
+      spend += meanSpend * spendFactors[weekday] * spendNoise[day];
+      optins += meanOptins * optinFactors[weekday] * optinNoise[day];
+    }
+    const backend = poisson(optins * rate, random);
+    const revenue = optins * otherRevenuePerOptin + backend * revenuePerBackend;
+    profit.push(Math.round(actualProfit + revenue - spend));
+    acquisition.push(Math.round(input.optinCount + optins));
+  }
+  return { profit, acquisition, sampleDays: days.length };
+}
+
+/** 導線ごとの試行を足し合わせる（導線は互いに独立とみなす） */
+export function combineSamples(samples: MonthEndSamples[]): MonthEndSamples {
+  const simulations = Math.max(0, ...samples.map((s) => s.profit.length));
+  const sumAt = (key: 'profit' | 'acquisition', i: number) =>
+    samples.reduce((sum, s) => sum + (s[key][i] ?? 0), 0);
+  return {
+    profit: Array.from({ length: simulations }, (_, i) => sumAt('profit', i)),
+    acquisition: Array.from({ length: simulations }, (_, i) =>
+      sumAt('acquisition', i),
+    ),
+    sampleDays: Math.min(...samples.map((s) => s.sampleDays)),
+  };
+}
+
+/** 試行結果を P10/P50/P90 と目標到達確率にまとめる */
+export function summarizeForecast(
+  samples: MonthEndSamples,
+  targetProfit: number,
+): ProfitForecast {
+  const simulations = samples.profit.length;
+  const reached = samples.profit.filter((p) => p >= targetProfit).length;
+  return {
+    profit: percentiles(samples.profit),
+    acquisition: percentiles(samples.acquisition),
+    onTrackProbability:
+      simulations > 0 ? Math.round((reached / simulations) * 1000) / 1000 : 0,
+    sampleDays: samples.sampleDays,
+    simulations,
+  };
+}
+
+// ============================================================================
+// 内部
+// ============================================================================
+
+function percentiles(values: number[]): ProfitForecast['profit'] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: quantile(sorted, 0.1),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+  };
+}
+
+/** 線形補間の分位点（sorted は昇順） */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return Math.round(
+    sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower),
+  );
+}
+
+/** 曜日（0=日〜6=土）ごとの係数。件数が少ない曜日ほど 1 に寄せる */
+function weekdayFactors(values: number[], weekdays: number[]): number[] {
+  const overall = mean(values);
+  return Array.from({ length: 7 }, (_, weekday) => {
+    const ofDay = values.filter((_, i) => weekdays[i] === weekday);
+    if (ofDay.length === 0 || overall === 0) return 1;
+    const raw = mean(ofDay) / overall;
+    return (
+      (ofDay.length * raw + WEEKDAY_SHRINKAGE_DAYS) /
+      (ofDay.length + WEEKDAY_SHRINKAGE_DAYS)
+    );
+  });
+}
+
+/** 'YYYY/M/D' の曜日 */
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split('/').map((part) => parseInt(part, 10));
+  return weekdayOfDate(year, month, day);
+}
+
+function weekdayOfDate(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function ratioOf(value: number, expected: number): number {
+  return expected > 0 ? value / expected : 1;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+/** 導線ごとに別の乱数列にする */
+function seedOf(channelType: ChannelType): number {
+  let hash = 0;
+  for (const char of channelType) {
+    hash = (Math.imul(hash, 31) + char.charCodeAt(0)) | 0;
+  }
+  return hash >>> 0;
+}
+
+/** シード付き一様乱数（0〜1） */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** 標準正規乱数（Box-Muller） */
+function normal(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/** ポアソン乱数（平均が大きければ正規近似） */
+function poisson(lambda: number, random: () => number): number {
+  if (lambda <= 0) return 0;
+  if (lambda > 30) {
+    return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * normal(random)));
+  }
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
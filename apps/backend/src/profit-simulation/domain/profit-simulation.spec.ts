@@ -33,10 +33,12 @@ describe('ProfitSimulation', () => {
       expect(result.projectedProfit).toBe(expectedProjectedProfit);
 
       expect(result.gapToTarget).toBe(expectedProjectedProfit - 20_000_000);
-      expect(result.isOnTrack).toBe(expectedProjectedProfit >= 20_000_000);
+      expect(result.onTrackProbability).toBe(
+        expectedProjectedProfit >= 20_000_000 ? 1 : 0,
+      );
     });
 
-    it('目標到達見込みありの場合isOnTrack=true', () => {
+    it('目標到達見込みありの場合onTrackProbability=1', () => {
       const result = calculateProfitSimulation({
         channelType: 'SNS',
         year: 2026,
@@ -50,11 +52,11 @@ describe('ProfitSimulation', () => {
 
       // 実績粗利: 1,300,000
       // 推定月末粗利: (1,300,000 / 21) * 31 ≈ 1,919,048
-      expect(result.isOnTrack).toBe(true);
+      expect(result.onTrackProbability).toBe(1);
       expect(result.gapToTarget).toBeGreaterThan(0);
     });
 
-    it('目標未達見込みの場合isOnTrack=false', () => {
+    it('目標未達見込みの場合onTrackProbability=0', () => {
       const result = calculateProfitSimulation({
         channelType: 'AI',
         year: 2026,
@@ -67,6 +69,7 @@ describe('ProfitSimulation', () => {
       });
 
       // 推定粗利 ≈ 1,496,XXX << 20,000,000
+      expect(result.onTrackProbability).toBe(0);
       expect(result.isOnTrack).toBe(false);
       expect(result.gapToTarget).toBeLessThan(0);
     });
@@ -86,7 +89,32 @@ describe('ProfitSimulation', () => {
       expect(result.projectedAdSpend).toBe(0);
       expect(result.projectedRevenue).toBe(0);
       expect(result.projectedProfit).toBe(0);
-      expect(result.isOnTrack).toBe(false);
+      expect(result.onTrackProbability).toBe(0);
+    });
+
+    it('確率予測があれば到達確率はその値を使う', () => {
+      const forecast = {
+        profit: { p10: 18_000_000, p50: 21_000_000, p90: 24_000_000 },
+        acquisition: { p10: 6_000, p50: 7_000, p90: 8_000 },
+        onTrackProbability: 0.62,
+        sampleDays: 21,
+        simulations: 2000,
+      };
+      const result = calculateProfitSimulation({
+        channelType: 'AI',
+        year: 2026,
+        month: 3,
+        actualDays: 21,
+        totalDaysInMonth: 31,
+        actualAdSpend: 2_601_891,
+        actualRevenue: 3_615_800,
+        targetProfit: 20_000_000,
+        forecast,
+      });
+
+      expect(result.onTrackProbability).toBe(0.62);
+      expect(result.isOnTrack).toBe(true);
+      expect(result.forecast).toBe(forecast);
     });
 
     it('月末最終日（実績日数=総日数）の場合、推定値=実績値', () => {
@@ -123,7 +151,9 @@ describe('ProfitSimulation', () => {
           projectedProfit: 1_496_723,
           targetProfit: 20_000_000,
           gapToTarget: -18_503_277,
+          onTrackProbability: 0,
           isOnTrack: false,
+          forecast: null,
         },
         {
           channelType: 'SNS',
@@ -138,7 +168,9 @@ describe('ProfitSimulation', () => {
           projectedProfit: 1_963_656,
           targetProfit: 10_000_000,
           gapToTarget: -8_036_344,
+          onTrackProbability: 0,
           isOnTrack: false,
+          forecast: null,
         },
         {
           channelType: 'SKILL_PLUS',
@@ -153,7 +185,9 @@ describe('ProfitSimulation', () => {
           projectedProfit: 6_726_336,
           targetProfit: 10_000_000,
           gapToTarget: -3_273_664,
+          onTrackProbability: 0,
           isOnTrack: false,
+          forecast: null,
         },
       ];
 
@@ -174,10 +208,10 @@ describe('ProfitSimulation', () => {
       expect(summary.totalGapToTarget).toBe(
         summary.totalProjectedProfit - summary.totalTargetProfit,
       );
-      expect(summary.isOnTrack).toBe(false);
+      expect(summary.onTrackProbability).toBe(0);
     });
 
-    it('全導線が目標到達ならisOnTrack=true', () => {
+    it('全導線が目標到達ならonTrackProbability=1', () => {
       const channels: ProfitSimulation[] = [
         {
           channelType: 'AI',
@@ -192,7 +226,9 @@ describe('ProfitSimulation', () => {
           projectedProfit: 24_000_000,
           targetProfit: 20_000_000,
           gapToTarget: 4_000_000,
+          onTrackProbability: 1,
           isOnTrack: true,
+          forecast: null,
         },
       ];
 
@@ -201,6 +237,7 @@ describe('ProfitSimulation', () => {
         month: 3,
       });
 
+      expect(summary.onTrackProbability).toBe(1);
       expect(summary.isOnTrack).toBe(true);
     });
   });
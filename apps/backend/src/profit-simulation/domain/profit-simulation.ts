@@ -2,7 +2,10 @@
 // 利益シミュレーション（日割り計算）
 // ============================================================================
 
-import { ProfitSimulation, TotalProfitSummary } from './types';
+import { ProfitForecast, ProfitSimulation, TotalProfitSummary } from './types';
+
+/** isOnTrack（非推奨）を true にする到達確率 */
+const ON_TRACK_THRESHOLD = 0.5;
 
 interface ProfitSimulationInput {
   channelType: ProfitSimulation['channelType'];
@@ -13,6 +16,8 @@ interface ProfitSimulationInput {
   actualAdSpend: number;
   actualRevenue: number;
   targetProfit: number;
+  /** 確率予測（あれば到達確率に使う） */
+  forecast?: ProfitForecast | null;
 }
 
 /** 日割り計算で月末着地を推定する */
@@ -28,6 +33,7 @@ export function calculateProfitSimulation(
     actualAdSpend,
     actualRevenue,
     targetProfit,
+    forecast = null,
   } = input;
 
   const actualProfit = actualRevenue - actualAdSpend;
@@ -40,7 +46,8 @@ export function calculateProfitSimulation(
   const projectedProfit = projectedRevenue - projectedAdSpend;
 
   const gapToTarget = projectedProfit - targetProfit;
-  const isOnTrack = projectedProfit >= targetProfit;
+  const onTrackProbability =
+    forecast?.onTrackProbability ?? (projectedProfit >= targetProfit ? 1 : 0);
 
   return {
     channelType,
@@ -55,14 +62,20 @@ export function calculateProfitSimulation(
     projectedProfit,
     targetProfit,
     gapToTarget,
-    isOnTrack,
+    onTrackProbability,
+    isOnTrack: onTrackProbability >= ON_TRACK_THRESHOLD,
+    forecast,
   };
 }
 
-/** 全導線サマリーを算出する */
+/**
+ * 全導線サマリーを算出する
+ * @param forecast 全導線合計の確率予測（導線ごとの分位点は足し合わせられないため別に渡す）
+ */
 export function calculateTotalProfitSummary(
   channels: ProfitSimulation[],
   period: { year: number; month: number },
+  forecast: ProfitForecast | null = null,
 ): TotalProfitSummary {
   const totalActualProfit = channels.reduce(
     (sum, c) => sum + c.actualProfit,
@@ -77,6 +90,9 @@ export function calculateTotalProfitSummary(
     0,
   );
   const totalGapToTarget = totalProjectedProfit - totalTargetProfit;
+  const onTrackProbability =
+    forecast?.onTrackProbability ??
+    (totalProjectedProfit >= totalTargetProfit ? 1 : 0);
 
   return {
     period,
@@ -85,6 +101,8 @@ export function calculateTotalProfitSummary(
     totalProjectedProfit,
     totalTargetProfit,
     totalGapToTarget,
-    isOnTrack: totalProjectedProfit >= totalTargetProfit,
+    onTrackProbability,
+    isOnTrack: onTrackProbability >= ON_TRACK_THRESHOLD,
+    forecast,
   };
 }
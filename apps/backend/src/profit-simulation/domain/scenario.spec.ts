@@ -0,0 +1,180 @@
+import {
+  projectChannel,
+  runScenarios,
+  validateScenarios,
+  type ScenarioBaseline,
+} from './scenario';
+import { KPITargets, MonthlyMetricsData } from './types';
+
+const kpi: KPITargets = {
+  conversionRates: {
+    'オプト→フロント率': 0.05,
+    'フロント→個別率': 0.5,
+    '個別→着座率': 0.8,
+    '着座→成約率': 0.3,
+  },
+  targetROAS: 3,
+  avgPaymentAmount: 500_000,
+  cpa: 3_000,
+};
+
+/** 10日で広告費300万・オプト1000件（CPA3000円）、月30日 */
+function aiBaseline(): ScenarioBaseline {
+  const metrics: MonthlyMetricsData = {
+    channelType: 'AI',
+    year: 2026,
+    month: 4,
+    adSpend: 3_000_000,
+    totalRevenue: 6_000_000,
+    optinCount: 1_000,
+    clickCount: 20_000,
+    impressions: 1_000_000,
+    optinLTV: 6_000,
+    stageMetrics: {
+      オプトイン: 1_000,
+      フロント購入: 40,
+      個別予約: 20,
+      個別着座: 16,
+      バックエンド購入: 12,
+    },
+    dailyData: [],
+  };
+  return {
+    channelType: 'AI',
+    metrics,
+    kpi,
+    targetProfit: 10_000_000,
+    actualDays: 10,
+    totalDaysInMonth: 30,
+  };
+}
+
+describe('projectChannel', () => {
+  it('上書きなしなら日割りの月末着地と同じ', () => {
+    const { result, warnings } = projectChannel(aiBaseline());
+
+    expect(result.adSpend).toBe(9_000_000);
+    expect(result.revenue).toBe(18_000_000);
+    expect(result.profit).toBe(9_000_000);
+    expect(result.gapToTarget).toBe(-1_000_000);
+    expect(result.acquisition).toBe(3_000);
+    expect(result.cpa).toBe(3_000);
+    expect(result.bottlenecks.map((b) => b.stage)).toEqual([
+      'オプト→フロント率',
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('広告費+30%はCPAを保って集客・売上を比例させ、CPAを上書きすると集客数は広告費/CPA', () => {
+    const more = projectChannel(aiBaseline(), { adSpendChange: 0.3 }).result;
+    expect(more.adSpend).toBe(11_700_000);
+    expect(more.acquisition).toBe(3_900);
+    expect(more.revenue).toBe(23_400_000);
+    expect(more.cpa).toBe(3_000);
+
+    const costly = projectChannel(aiBaseline(), {
+      adSpendChange: 0.3,
+      cpa: 3_900,
+    }).result;
+    expect(costly.acquisition).toBe(3_000);
+    expect(costly.revenue).toBe(18_000_000);
+    expect(costly.profit).toBe(18_000_000 - 11_700_000);
+  });
+
+  it('フロント率を上書きすると下流のステージと成約の売上が動き、ボトルネックから外れる', () => {
+    const { result } = projectChannel(aiBaseline(), {
+      conversionRates: { 'オプト→フロント率': 0.05 },
+    });
+
+    // フロント 120 → 150 件（×1.25）、成約 36 → 45 件
+    expect(result.stageMetrics['フロント購入']).toBe(150);
+    expect(result.stageMetrics['バックエンド購入']).toBe(45);
+    expect(result.revenue).toBe(18_000_000 + 9 * 500_000);
+    expect(result.bottlenecks).toEqual([]);
+    expect(
+      result.conversionRates.find((r) => r.toStage === 'フロント購入')?.rate,
+    ).toBeCloseTo(0.05);
+  });
+});
+
+describe('runScenarios', () => {
+  it('シナリオごとに目標との差・現状との差・ボトルネック順位の変化を並べる', () => {
+    const { baseline, scenarios } = runScenarios(
+      [aiBaseline()],
+      [
+        { name: '広告費+30%', overrides: { AI: { adSpendChange: 0.3 } } },
+        {
+          name: 'フロント率5%',
+          overrides: {
+            AI: { conversionRates: { 'オプト→フロント率': 0.05 } },
+            SNS: { cpa: 2_500 },
+          },
+        },
+      ],
+    );
+
+    expect(baseline).toMatchObject({
+      name: '現状',
+      totalProfit: 9_000_000,
+      totalGapToTarget: -1_000_000,
+      profitDelta: 0,
+      bottleneckChanges: [],
+    });
+    expect(scenarios[0]).toMatchObject({
+      totalProfit: 11_700_000,
+      totalGapToTarget: 1_700_000,
+      profitDelta: 2_700_000,
+    });
+    expect(scenarios[1].profitDelta).toBe(4_500_000);
+    expect(scenarios[1].bottleneckChanges).toEqual([
+      {
+        channelType: 'AI',
+        stage: 'オプト→フロント率',
+        baselineRank: 1,
+        scenarioRank: null,
+      },
+    ]);
+    expect(scenarios[1].warnings).toEqual([
+      'SNS: 実績を取得できなかったため試算していません',
+    ]);
+  });
+});
+
+describe('validateScenarios', () => {
+  it('導線・KPI名・値の範囲を検証する', () => {
+    expect(
+      validateScenarios([
+        { name: 'ok', overrides: { AI: { adSpendChange: -0.2, cpa: 2_000 } } },
+      ]),
+    ).toEqual([]);
+    expect(validateScenarios([])).toEqual([
+      'scenarios must be a non-empty array',
+    ]);
+    expect(
+      validateScenarios([
+        {
+          name: '',
+          overrides: {
+            TV: {},
+            AI: { adSpendChange: -2, cpa: 0 },
+            SKILL_PLUS: {
+              conversionRates: {
+                '企画→セミナー予約率': 1,
+                'オプト→メイン': -1,
+              },
+            },
+          },
+        },
+      ]),
+    ).toEqual([
+      'scenarios[0].name is required',
+      'scenarios[0].overrides.TV: channel must be one of AI, SNS, SKILL_PLUS',
+      'scenarios[0].overrides.AI.adSpendChange must be a number >= -1',
+      'scenarios[0].overrides.AI.cpa must be a positive number',
+      expect.stringContaining(
+        'scenarios[0].overrides.SKILL_PLUS.conversionRates: unknown KPI "企画→セミナー予約率"',
+      ),
+      'scenarios[0].overrides.SKILL_PLUS.conversionRates.オプト→メイン must be a number >= 0',
+    ]);
+  });
+});
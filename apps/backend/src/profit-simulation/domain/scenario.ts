@@ -0,0 +1,384 @@
+// ============================================================================
+// What-if シナリオ（月末着地の試算）
+//
+// 日割りの月末着地（現状）に、広告費の増減・CPA・KPI転換率の上書きを導線ごとに
+// 当てて、粗利・目標との差・ボトルネック順位がどう変わるかを並べて比べる。
+// - 広告費の増減はCPAを保ったまま集客数（オプトイン以降の全ステージ）を比例で動かす
+// - CPAを上書きすると集客数 = 広告費 / CPA
+// - 転換率を上書きすると、そのKPIの遷移先ステージ以降を比例で動かす
+// - 売上は集客数に比例させ、バックエンド成約の増減分だけ平均着金額で加減する
+//   （フロント商品の売上の増減は含めない）
+// ============================================================================
+
+import {
+  ChannelType,
+  ConversionRate,
+  BottleneckResult,
+  KPITargets,
+  MonthlyMetricsData,
+  AI_SNS_KPI_STAGE_MAP,
+  SKILL_PLUS_KPI_STAGE_MAP,
+} from './types';
+import {
+  buildFunnelModel,
+  calculateConversionRates,
+  getStageDefinition,
+} from './funnel-model';
+import { detectBottlenecks } from './bottleneck-detection';
+
+/** 1リクエストで比べられるシナリオ数 */
+export const MAX_SCENARIOS = 10;
+
+export const SCENARIO_CHANNELS: ChannelType[] = ['AI', 'SNS', 'SKILL_PLUS'];
+
+/** 導線ごとの上書き */
+export interface ChannelOverrides {
+  /** 広告費の増減率（0.3 = +30%、-0.2 = -20%） */
+  adSpendChange?: number;
+  /** CPA（円）。指定すると集客数 = 広告費 / CPA */
+  cpa?: number;
+  /** KPI項目名 → 転換率（例: { 'オプト→フロント率': 0.05 }） */
+  conversionRates?: Record<string, number>;
+}
+
+export interface ScenarioInput {
+  name: string;
+  overrides: Partial<Record<ChannelType, ChannelOverrides>>;
+}
+
+/** 導線の月末着地の前提（実績と日割りの倍率） */
+export interface ScenarioBaseline {
+  channelType: ChannelType;
+  metrics: MonthlyMetricsData;
+  kpi: KPITargets;
+  targetProfit: number;
+  actualDays: number;
+  totalDaysInMonth: number;
+}
+
+export interface ScenarioChannelResult {
+  channelType: ChannelType;
+  adSpend: number;
+  revenue: number;
+  profit: number;
+  /** 集客数（オプトイン） */
+  acquisition: number;
+  cpa: number;
+  roas: number;
+  targetProfit: number;
+  gapToTarget: number;
+  /** 月末着地のステージ別件数 */
+  stageMetrics: Record<string, number>;
+  conversionRates: ConversionRate[];
+  bottlenecks: BottleneckResult[];
+}
+
+/** ボトルネック順位の変化（null はボトルネックでない） */
+export interface BottleneckRankChange {
+  channelType: ChannelType;
+  stage: string;
+  baselineRank: number | null;
+  scenarioRank: number | null;
+}
+
+export interface ScenarioResult {
+  name: string;
+  channels: ScenarioChannelResult[];
+  totalProfit: number;
+  totalTargetProfit: number;
+  totalGapToTarget: number;
+  /** 現状（上書きなし）との差 */
+  profitDelta: number;
+  bottleneckChanges: BottleneckRankChange[];
+  /** 実績が足りず当てられなかった上書き */
+  warnings: string[];
+}
+
+// ============================================================================
+// 検証
+// ============================================================================
+
+export function validateScenarios(scenarios: unknown): string[] {
+  if (!Array.isArray(scenarios) || scenarios.length === 0) {
+    return ['scenarios must be a non-empty array'];
+  }
+  if (scenarios.length > MAX_SCENARIOS) {
+    return [`scenarios must have at most ${MAX_SCENARIOS} items`];
+  }
+
+  const errors: string[] = [];
+  scenarios.forEach((scenario: Partial<ScenarioInput>, index) => {
+    const at = `scenarios[${index}]`;
+    if (typeof scenario?.name !== 'string' || !scenario.name.trim()) {
+      errors.push(`${at}.name is required`);
+    }
+    const overrides = scenario?.overrides ?? {};
+    if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+      errors.push(`${at}.overrides must be an object`);
+      return;
+    }
+    for (const [channel, value] of Object.entries(overrides)) {
+      const path = `${at}.overrides.${channel}`;
+      if (!SCENARIO_CHANNELS.includes(channel as ChannelType)) {
+        errors.push(
+          `${path}: channel must be one of ${SCENARIO_CHANNELS.join(', ')}`,
+        );
+        continue;
+      }
+      errors.push(
+        ...channelOverrideErrors(channel as ChannelType, value).map(
+          (error) => `${path}.${error}`,
+        ),
+      );
+    }
+  });
+  return errors;
+}
+
+// ============================================================================
+// 試算
+// ============================================================================
+
+/**
+ * 1導線の月末着地に上書きを当てる（overrides が空なら日割りの月末着地そのもの）
+ */
+export function projectChannel(
+  baseline: ScenarioBaseline,
+  overrides: ChannelOverrides = {},
+): { result: ScenarioChannelResult; warnings: string[] } {
+  const { channelType, metrics, kpi, targetProfit } = baseline;
+  const warnings: string[] = [];
+  const ratio =
+    baseline.actualDays > 0
+      ? baseline.totalDaysInMonth / baseline.actualDays
+      : 0;
+
+  const baseAdSpend = Math.round(metrics.adSpend * ratio);
+  const baseRevenue = Math.round(metrics.totalRevenue * ratio);
+  const baseAcquisition = metrics.optinCount * ratio;
+  const baseStages = scaleStages(metrics.stageMetrics, ratio);
+
+  // 集客数: CPAを保って広告費に比例させる（CPAの上書きがあれば広告費 / CPA）
+  const adSpend = Math.round(
+    baseAdSpend * (1 + (overrides.adSpendChange ?? 0)),
+  );
+  let volume = 1 + (overrides.adSpendChange ?? 0);
+  if (overrides.cpa !== undefined) {
+    if (baseAcquisition > 0) {
+      volume = adSpend / overrides.cpa / baseAcquisition;
+    } else {
+      warnings.push(
+        `${channelType}: CPA を当てる集客実績がないため、広告費の増減だけを反映しました`,
+      );
+    }
+  }
+  const stageMetrics = scaleStages(baseStages, volume);
+
+  // 転換率の上書き: ステージ順に、遷移先以降を比例で動かす
+  const stageOrder = getStageDefinition(channelType);
+  const kpiStageMap = kpiStageMapOf(channelType);
+  const rateOverrides = Object.entries(overrides.conversionRates ?? {}).sort(
+    ([a], [b]) =>
+      stageOrder.indexOf(kpiStageMap[a][0]) -
+      stageOrder.indexOf(kpiStageMap[b][0]),
+  );
+  for (const [kpiName, rate] of rateOverrides) {
+    const [fromStage, toStage] = kpiStageMap[kpiName];
+    const fromCount = stageMetrics[fromStage];
+    const toCount = stageMetrics[toStage];
+    if (fromCount === undefined || !toCount) {
+      warnings.push(
+        `${channelType}: ${kpiName} のステージ実績がないため上書きを反映できません`,
+      );
+      continue;
+    }
+    const factor = (fromCount * rate) / toCount;
+    for (const stage of stageOrder.slice(stageOrder.indexOf(toStage))) {
+      if (stageMetrics[stage] !== undefined) stageMetrics[stage] *= factor;
+    }
+  }
+
+  const finalStage = stageOrder[stageOrder.length - 1];
+  const backendDelta =
+    (stageMetrics[finalStage] ?? 0) - (baseStages[finalStage] ?? 0) * volume;
+  const revenue = Math.round(
+    baseRevenue * volume + backendDelta * kpi.avgPaymentAmount,
+  );
+  const acquisition = Math.round(baseAcquisition * volume);
+  const profit = revenue - adSpend;
+
+  const funnel = buildFunnelModel(channelType, stageMetrics, adSpend, revenue);
+  return {
+    result: {
+      channelType,
+      adSpend,
+      revenue,
+      profit,
+      acquisition,
+      cpa: acquisition > 0 ? Math.round(adSpend / acquisition) : 0,
+      roas: adSpend > 0 ? Math.round((revenue / adSpend) * 100) / 100 : 0,
+      targetProfit,
+      gapToTarget: profit - targetProfit,
+      stageMetrics: roundStages(stageMetrics),
+      conversionRates: calculateConversionRates(funnel.stages),
+      bottlenecks: detectBottlenecks(channelType, stageMetrics, kpi),
+    },
+    warnings,
+  };
+}
+
+/**
+ * 全導線にシナリオを当て、現状（上書きなし）と比べる
+ * @returns 先頭が現状、以降が scenarios の順
+ */
+export function runScenarios(
+  baselines: ScenarioBaseline[],
+  scenarios: ScenarioInput[],
+): { baseline: ScenarioResult; scenarios: ScenarioResult[] } {
+  const current = evaluate('現状', baselines, {});
+  const baseline = summarize(current, current);
+  return {
+    baseline,
+    scenarios: scenarios.map((scenario) =>
+      summarize(
+        evaluate(scenario.name, baselines, scenario.overrides),
+        current,
+      ),
+    ),
+  };
+}
+
+// ============================================================================
+// 内部
+// ============================================================================
+
+interface Evaluated {
+  name: string;
+  channels: ScenarioChannelResult[];
+  warnings: string[];
+}
+
+function evaluate(
+  name: string,
+  baselines: ScenarioBaseline[],
+  overrides: ScenarioInput['overrides'],
+): Evaluated {
+  const projected = baselines.map((baseline) =>
+    projectChannel(baseline, overrides[baseline.channelType]),
+  );
+  const warnings = projected.flatMap((p) => p.warnings);
+  for (const channel of Object.keys(overrides)) {
+    if (!baselines.some((b) => b.channelType === channel)) {
+      warnings.push(`${channel}: 実績を取得できなかったため試算していません`);
+    }
+  }
+  return { name, channels: projected.map((p) => p.result), warnings };
+}
+
+function summarize(evaluated: Evaluated, current: Evaluated): ScenarioResult {
+  const totalProfit = sum(evaluated.channels.map((c) => c.profit));
+  const totalTargetProfit = sum(evaluated.channels.map((c) => c.targetProfit));
+  return {
+    name: evaluated.name,
+    channels: evaluated.channels,
+    totalProfit,
+    totalTargetProfit,
+    totalGapToTarget: totalProfit - totalTargetProfit,
+    profitDelta: totalProfit - sum(current.channels.map((c) => c.profit)),
+    bottleneckChanges: evaluated.channels.flatMap((channel) =>
+      rankChanges(
+        channel,
+        current.channels.find((c) => c.channelType === channel.channelType),
+      ),
+    ),
+    warnings: evaluated.warnings,
+  };
+}
+
+/** 順位が変わった・ボトルネックに入った/外れたステージ */
+function rankChanges(
+  scenario: ScenarioChannelResult,
+  current: ScenarioChannelResult | undefined,
+): BottleneckRankChange[] {
+  const before = new Map(
+    (current?.bottlenecks ?? []).map((b) => [b.stage, b.rank]),
+  );
+  const after = new Map(scenario.bottlenecks.map((b) => [b.stage, b.rank]));
+  const stages = [...new Set([...before.keys(), ...after.keys()])];
+  return stages
+    .map((stage) => ({
+      channelType: scenario.channelType,
+      stage,
+      baselineRank: before.get(stage) ?? null,
+      scenarioRank: after.get(stage) ?? null,
+    }))
+    .filter((change) => change.baselineRank !== change.scenarioRank);
+}
+
+function channelOverrideErrors(
+  channelType: ChannelType,
+  overrides: ChannelOverrides,
+): string[] {
+  if (!overrides || typeof overrides !== 'object') {
+    return ['overrides must be an object'];
+  }
+  const errors: string[] = [];
+  const { adSpendChange, cpa, conversionRates } = overrides;
+  if (
+    adSpendChange !== undefined &&
+    !(Number.isFinite(adSpendChange) && adSpendChange >= -1)
+  ) {
+    errors.push('adSpendChange must be a number >= -1');
+  }
+  if (cpa !== undefined && !(Number.isFinite(cpa) && cpa > 0)) {
+    errors.push('cpa must be a positive number');
+  }
+  if (conversionRates !== undefined) {
+    const kpiStageMap = kpiStageMapOf(channelType);
+    for (const [kpiName, rate] of Object.entries(conversionRates ?? {})) {
+      const stages = kpiStageMap[kpiName];
+      if (!stages || stages[0] === stages[1]) {
+        errors.push(
+          `conversionRates: unknown KPI "${kpiName}" (one of ${Object.keys(
+            kpiStageMap,
+          )
+            .filter((name) => kpiStageMap[name][0] !== kpiStageMap[name][1])
+            .join(', ')})`,
+        );
+      } else if (!(Number.isFinite(rate) && rate >= 0)) {
+        errors.push(`conversionRates.${kpiName} must be a number >= 0`);
+      }
+    }
+  }
+  return errors;
+}
+
+function kpiStageMapOf(
+  channelType: ChannelType,
+): Record<string, [string, string]> {
+  return channelType === 'SKILL_PLUS'
+    ? SKILL_PLUS_KPI_STAGE_MAP
+    : AI_SNS_KPI_STAGE_MAP;
+}
+
+function scaleStages(
+  stages: Record<string, number>,
+  factor: number,
+): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(stages).map(([name, count]) => [name, count * factor]),
+  );
+}
+
+function roundStages(stages: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(stages).map(([name, count]) => [
+      name,
+      Math.round(count * 10) / 10,
+    ]),
+  );
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -2,8 +2,10 @@
 // 利益最大化シミュレーション - ドメイン型定義
 // ============================================================================
 
-/** 導線タイプ */
-export type ChannelType = 'AI' | 'SNS' | 'SKILL_PLUS';
+import type { SimulationChannel } from '../../channel-registry/domain/channel';
+
+/** 導線タイプ（導線・訴求レジストリの SEMINAR = SKILL_PLUS） */
+export type ChannelType = SimulationChannel;
 
 // ============================================================================
 // ファネルモデル
@@ -54,7 +56,32 @@ export interface ProfitSimulation {
   // 目標との比較
   targetProfit: number;
   gapToTarget: number;
+  /** 目標粗利に届く確率（0〜1。確率予測がなければ日割りで届くかの 1 / 0） */
+  onTrackProbability: number;
+  /** @deprecated onTrackProbability >= 0.5。次のリリースで削除する */
   isOnTrack: boolean;
+
+  /** 月末着地の確率予測（日別実績から推定。なければ null） */
+  forecast: ProfitForecast | null;
+}
+
+/** 分位点（P10 = 10%の確率でこれを下回る） */
+export interface ForecastPercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/** 月末着地の確率予測 */
+export interface ProfitForecast {
+  profit: ForecastPercentiles;
+  /** 集客数（オプトイン） */
+  acquisition: ForecastPercentiles;
+  /** 目標粗利に届く確率（0〜1） */
+  onTrackProbability: number;
+  /** 分布の推定に使った実績日数（0 なら日割りの1点） */
+  sampleDays: number;
+  simulations: number;
 }
 
 /** 全導線サマリー */
@@ -65,7 +92,12 @@ export interface TotalProfitSummary {
   totalProjectedProfit: number;
   totalTargetProfit: number;
   totalGapToTarget: number;
+  /** 全導線合計で目標粗利に届く確率（0〜1） */
+  onTrackProbability: number;
+  /** @deprecated onTrackProbability >= 0.5。次のリリースで削除する */
   isOnTrack: boolean;
+  /** 全導線合計の確率予測（導線は独立とみなす） */
+  forecast: ProfitForecast | null;
 }
 
 // ============================================================================
@@ -6,26 +6,17 @@ import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { WinningCreativeSource } from '../domain/ports';
 import { ChannelType, WinningCreative } from '../domain/types';
-
-// アカウントと導線の対応
-const ACCOUNT_CHANNEL: Record<string, ChannelType> = {
-  '7468288053866561553': 'AI',
-  '7523128243466551303': 'AI',
-  '7543540647266074641': 'AI',
-  '7580666710525493255': 'AI',
-  '7247073333517238273': 'SNS',
-  '7543540100849156112': 'SNS',
-  '7543540381615800337': 'SNS',
-  '7474920444831875080': 'SKILL_PLUS',
-  '7592868952431362066': 'SKILL_PLUS',
-  '7616545514662051858': 'SKILL_PLUS',
-};
+import { ChannelRegistryService } from '../../channel-registry/channel-registry.service';
+import { toSimulationChannel } from '../../channel-registry/domain/channel';
 
 @Injectable()
 export class DatabaseWinningCreativeSource implements WinningCreativeSource {
   private readonly logger = new Logger(DatabaseWinningCreativeSource.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly channelRegistry: ChannelRegistryService,
+  ) {}
 
   async hasWinningCreatives(channelType: ChannelType): Promise<boolean> {
     const winners = await this.getWinningCreatives(channelType);
@@ -36,9 +27,13 @@ export class DatabaseWinningCreativeSource implements WinningCreativeSource {
     channelType: ChannelType,
   ): Promise<WinningCreative[]> {
     // 対象チャネルのアカウントIDを取得
-    const advertiserIds = Object.entries(ACCOUNT_CHANNEL)
-      .filter(([, ch]) => ch === channelType)
-      .map(([id]) => id);
+    const advertiserIds = (await this.channelRegistry.listAdvertisers())
+      .filter(
+        (adv) =>
+          adv.appeal &&
+          toSimulationChannel(adv.appeal.channelType) === channelType,
+      )
+      .map((adv) => adv.tiktokAdvertiserId);
 
     // 配信中の広告で、KPI達成しているもの（bestFrontCPOまたはbestCPAが設定済み）
     const ads = await this.prisma.ad.findMany({
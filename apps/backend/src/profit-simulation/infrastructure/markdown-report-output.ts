@@ -10,6 +10,7 @@ import {
   TotalProfitSummary,
   BottleneckResult,
   GeneratedTodo,
+  ForecastPercentiles,
 } from '../domain/types';
 
 const KNOWLEDGE_DIR = path.join(
@@ -77,8 +78,13 @@ export class MarkdownReportOutput implements ReportOutput {
     );
     lines.push(`| 目標粗利 | ${this.formatYen(summary.totalTargetProfit)} |`);
     lines.push(`| 目標差分 | ${this.formatYen(summary.totalGapToTarget)} |`);
+    if (summary.forecast) {
+      lines.push(
+        `| 月末粗利 P10 / P50 / P90 | ${this.formatRange(summary.forecast.profit)} |`,
+      );
+    }
     lines.push(
-      `| 到達見込み | ${summary.isOnTrack ? '✅ 達成見込み' : '❌ 未達見込み'} |`,
+      `| 到達確率 | ${this.formatProbability(summary.onTrackProbability)} |`,
     );
     lines.push('');
 
@@ -89,11 +95,28 @@ export class MarkdownReportOutput implements ReportOutput {
     lines.push('|------|---------|-------------|---------|------|------|');
     for (const ch of summary.channels) {
       lines.push(
-        `| ${ch.channelType} | ${this.formatYen(ch.actualProfit)} | ${this.formatYen(ch.projectedProfit)} | ${this.formatYen(ch.targetProfit)} | ${this.formatYen(ch.gapToTarget)} | ${ch.isOnTrack ? '✅' : '❌'} |`,
+        `| ${ch.channelType} | ${this.formatYen(ch.actualProfit)} | ${this.formatYen(ch.projectedProfit)} | ${this.formatYen(ch.targetProfit)} | ${this.formatYen(ch.gapToTarget)} | ${this.formatProbability(ch.onTrackProbability)} |`,
       );
     }
     lines.push('');
 
+    // 月末着地の分布（日割りは月初のブレを伸ばすため、P10〜P90 の幅で見る）
+    const forecasts = summary.channels.filter((ch) => ch.forecast);
+    if (forecasts.length > 0) {
+      lines.push('## 月末着地の分布（P10 / P50 / P90）');
+      lines.push('');
+      lines.push('| 導線 | 粗利 | 集客数 | 到達確率 | 推定に使った日数 |');
+      lines.push('|------|------|--------|---------|-----------------|');
+      for (const ch of forecasts) {
+        const forecast = ch.forecast!;
+        const acquisition = forecast.acquisition;
+        lines.push(
+          `| ${ch.channelType} | ${this.formatRange(forecast.profit)} | ${acquisition.p10.toLocaleString('ja-JP')} / ${acquisition.p50.toLocaleString('ja-JP')} / ${acquisition.p90.toLocaleString('ja-JP')}件 | ${this.formatProbability(forecast.onTrackProbability)} | ${forecast.sampleDays > 0 ? `${forecast.sampleDays}日` : '日別実績なし（日割り）'} |`,
+        );
+      }
+      lines.push('');
+    }
+
     // ボトルネック
     if (bottlenecks.length > 0) {
       lines.push('## ボトルネック一覧（粗利インパクト順）');
@@ -131,6 +154,16 @@ export class MarkdownReportOutput implements ReportOutput {
     return lines.join('\n');
   }
 
+  private formatRange(range: ForecastPercentiles): string {
+    return `${this.formatYen(range.p10)} / ${this.formatYen(range.p50)} / ${this.formatYen(range.p90)}`;
+  }
+
+  /** 到達確率（50%以上を達成見込みとする） */
+  private formatProbability(probability: number): string {
+    const percent = `${Math.round(probability * 100)}%`;
+    return probability >= 0.5 ? `✅ ${percent}` : `❌ ${percent}`;
+  }
+
   private formatYen(amount: number): string {
     if (amount >= 0) {
       return `¥${amount.toLocaleString('ja-JP')}`;
@@ -1,10 +1,17 @@
 // ============================================================================
 // SpreadsheetMetricsDataSource - MetricsDataSourceポートのインフラ実装
 // Google Sheets APIからファネル実績・KPI・目標粗利を取得する
+// オプトイン・フロント購入・個別予約の件数は CV 台帳を優先する（台帳が古ければシートの値）
 // ============================================================================
 
 import { Injectable, Logger } from '@nestjs/common';
 import { GoogleSheetsService } from '../../google-sheets/google-sheets.service';
+import { ConversionLedgerService } from '../../conversion-ledger/conversion-ledger.service';
+import type { ConversionKind } from '../../conversion-ledger/domain/conversion-ledger';
+import {
+  CHANNEL_TYPES,
+  toSimulationChannel,
+} from '../../channel-registry/domain/channel';
 import { MetricsDataSource } from '../domain/ports';
 import {
   ChannelType,
@@ -59,6 +66,13 @@ const SP_COLUMNS = {
   adSpend: 32, // AG (コスト税抜)
 } as const;
 
+// CV 台帳の種別 → ファネルのステージ名（シートにないステージは置き換えない）
+const LEDGER_STAGES: [ConversionKind, string][] = [
+  ['CV', 'オプトイン'],
+  ['FRONT_SALES', 'フロント購入'],
+  ['INDIVIDUAL_RESERVATION', '個別予約'],
+];
+
 // KPIカラム位置
 const KPI_COLUMNS: Record<
   ChannelType,
@@ -99,7 +113,10 @@ const KPI_AMOUNT_ITEMS = [
 export class SpreadsheetMetricsDataSource implements MetricsDataSource {
   private readonly logger = new Logger(SpreadsheetMetricsDataSource.name);
 
-  constructor(private readonly sheetsService: GoogleSheetsService) {}
+  constructor(
+    private readonly sheetsService: GoogleSheetsService,
+    private readonly conversionLedger: ConversionLedgerService,
+  ) {}
 
   async getMonthlyMetrics(
     channelType: ChannelType,
@@ -227,7 +244,7 @@ export class SpreadsheetMetricsDataSource implements MetricsDataSource {
         : AI_SNS_COLUMNS.optinLTV;
     const optinLTV = this.parseNum(summaryRowData[optinLTVCol]);
 
-    return {
+    return this.applyLedgerCounts({
       channelType,
       year,
       month,
@@ -239,7 +256,7 @@ export class SpreadsheetMetricsDataSource implements MetricsDataSource {
       optinLTV,
       stageMetrics,
       dailyData,
-    };
+    });
   }
 
   async getKPI(
@@ -376,6 +393,62 @@ export class SpreadsheetMetricsDataSource implements MetricsDataSource {
   // 内部ヘルパー
   // =========================================================================
 
+  /**
+   * オプトイン・フロント購入・個別予約の件数（月合計・日別）を CV 台帳の値に置き換える
+   * 台帳が同期切れ・失敗ならシートの集計値のまま返す
+   */
+  private async applyLedgerCounts(
+    metrics: MonthlyMetricsData,
+  ): Promise<MonthlyMetricsData> {
+    const { channelType, year, month } = metrics;
+    const registryChannel = CHANNEL_TYPES.find(
+      (ch) => toSimulationChannel(ch) === channelType,
+    )!;
+    const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const counts = await this.conversionLedger.channelDailyCounts(
+      registryChannel,
+      `${monthPrefix}-01`,
+      `${monthPrefix}-${lastDay}`,
+    );
+    if (!counts) {
+      this.logger.warn(
+        `CV台帳が使えないためシートの件数を使います: ${channelType} ${year}年${month}月`,
+      );
+      return metrics;
+    }
+
+    const stageMetrics = { ...metrics.stageMetrics };
+    const dailyData = metrics.dailyData.map((day) => ({
+      ...day,
+      stageValues: { ...day.stageValues },
+    }));
+    for (const [kind, stage] of LEDGER_STAGES) {
+      const daily = counts[kind];
+      if (!daily || !(stage in stageMetrics)) continue;
+      const byDate = new Map(daily.map((d) => [d.date, d.count]));
+      stageMetrics[stage] = daily.reduce((sum, d) => sum + d.count, 0);
+      for (const day of dailyData) {
+        const count = byDate.get(this.toIsoDate(day.date)) ?? 0;
+        day.stageValues[stage] = count;
+        if (stage === 'オプトイン') day.optins = count;
+      }
+    }
+
+    return {
+      ...metrics,
+      optinCount: stageMetrics['オプトイン'] || 0,
+      stageMetrics,
+      dailyData,
+    };
+  }
+
+  /** 'YYYY/M/D' → 'YYYY-MM-DD' */
+  private toIsoDate(date: string): string {
+    const [year, month, day] = date.split('/');
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
   /** 指定年月の月ブロック位置を特定する */
   private async findMonthBlock(
     sheetName: string,
@@ -5,17 +5,37 @@
 import { Controller, Get, Post, Param, Body, Query } from '@nestjs/common';
 import { ProfitSimulationService } from './profit-simulation.service';
 import { ChannelType, FeedbackDecision } from './domain/types';
+import type { ScenarioInput } from './domain/scenario';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.SIMULATION_REVIEW)
 @Controller('api/profit-simulation')
 export class ProfitSimulationController {
   constructor(private readonly service: ProfitSimulationService) {}
 
+  @RequirePermissions(PERMISSIONS.SIMULATION_READ)
+  @RequireAllAdvertisers()
   @Get('run')
   async run(@Query('channel') channel?: string) {
     const channelType = channel as ChannelType | undefined;
     return this.service.run(channelType);
   }
 
+  @RequirePermissions(PERMISSIONS.SIMULATION_READ)
+  @RequireAllAdvertisers()
+  @Post('scenarios')
+  async scenarios(
+    @Body() body: { scenarios: ScenarioInput[] },
+    @Query('channel') channel?: string,
+  ) {
+    const channelType = channel as ChannelType | undefined;
+    return this.service.simulateScenarios(body?.scenarios, channelType);
+  }
+
   @Post('todos/:id/approve')
   async approveTodo(@Param('id') id: string) {
     await this.service.approveTodo(id);
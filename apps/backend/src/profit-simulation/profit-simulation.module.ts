@@ -22,9 +22,10 @@ import { FileRuleStore } from './infrastructure/file-rule-store';
 import { DatabaseWinningCreativeSource } from './infrastructure/database-winning-creative-source';
 import { MarkdownReportOutput } from './infrastructure/markdown-report-output';
 import { GoogleSheetsModule } from '../google-sheets/google-sheets.module';
+import { ConversionLedgerModule } from '../conversion-ledger/conversion-ledger.module';
 
 @Module({
-  imports: [GoogleSheetsModule],
+  imports: [GoogleSheetsModule, ConversionLedgerModule],
   controllers: [ProfitSimulationController],
   providers: [
     ProfitSimulationService,
@@ -3,7 +3,12 @@
 // Step 1〜10のフローを実行する
 // ============================================================================
 
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Inject,
+  Logger,
+} from '@nestjs/common';
 import {
   METRICS_DATA_SOURCE,
   TODO_REPOSITORY,
@@ -28,6 +33,7 @@ import {
   GeneratedTodo,
   TodoFeedback,
   FeedbackDecision,
+  MonthlyMetricsData,
 } from './domain/types';
 import { buildFunnelModel } from './domain/funnel-model';
 import {
@@ -39,6 +45,19 @@ import {
   calculateRequiredAcquisition,
 } from './domain/direction-judgment';
 import { detectBottlenecks } from './domain/bottleneck-detection';
+import {
+  combineSamples,
+  simulateMonthEnd,
+  summarizeForecast,
+  MonthEndSamples,
+} from './domain/forecast';
+import {
+  runScenarios,
+  validateScenarios,
+  ScenarioBaseline,
+  ScenarioInput,
+  ScenarioResult,
+} from './domain/scenario';
 import { generateTodos } from './domain/todo-generation';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -69,19 +88,15 @@ export class ProfitSimulationService {
     allBottlenecks: BottleneckResult[];
     allTodos: GeneratedTodo[];
   }> {
-    const now = new Date();
-    const jstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-    const year = jstNow.getFullYear();
-    const month = jstNow.getMonth() + 1;
-    const dayOfMonth = jstNow.getDate();
-    const totalDaysInMonth = new Date(year, month, 0).getDate();
-    const period = `${year}-${String(month).padStart(2, '0')}`;
+    const { year, month, dayOfMonth, totalDaysInMonth, period } =
+      currentPeriod();
 
     const channels = channelFilter ? [channelFilter] : ALL_CHANNELS;
 
     this.logger.log(`シミュレーション開始: ${period} (${channels.join(', ')})`);
 
     const channelResults: ProfitSimulation[] = [];
+    const channelSamples: MonthEndSamples[] = [];
     const allBottlenecks: BottleneckResult[] = [];
     const allTodos: GeneratedTodo[] = [];
 
@@ -107,9 +122,20 @@ export class ProfitSimulationService {
 
         // Step 2: 月次利益シミュレーション
         this.logger.log(`[${channelType}] Step 2: シミュレーション...`);
-        const actualDays =
-          metrics.dailyData.filter((d) => d.adSpend > 0 || d.optins > 0)
-            .length || dayOfMonth;
+        const actualDays = countActualDays(metrics.dailyData, dayOfMonth);
+        const samples = simulateMonthEnd({
+          channelType,
+          year,
+          month,
+          dailyData: metrics.dailyData,
+          actualDays,
+          totalDaysInMonth,
+          actualAdSpend: metrics.adSpend,
+          actualRevenue: metrics.totalRevenue,
+          optinCount: metrics.optinCount,
+          stageMetrics: metrics.stageMetrics,
+          avgPaymentAmount: kpi.avgPaymentAmount,
+        });
         const simulation = calculateProfitSimulation({
           channelType,
           year,
@@ -119,8 +145,13 @@ export class ProfitSimulationService {
           actualAdSpend: metrics.adSpend,
           actualRevenue: metrics.totalRevenue,
           targetProfit,
+          forecast: summarizeForecast(samples, targetProfit),
         });
         channelResults.push(simulation);
+        channelSamples.push(samples);
+        this.logger.log(
+          `[${channelType}] 月末粗利 P10/P50/P90: ${simulation.forecast?.profit.p10.toLocaleString()} / ${simulation.forecast?.profit.p50.toLocaleString()} / ${simulation.forecast?.profit.p90.toLocaleString()} (到達確率 ${Math.round(simulation.onTrackProbability * 100)}%)`,
+        );
 
         // Step 3 & 4: 目標到達判定 + 改善方向
         this.logger.log(`[${channelType}] Step 3-4: 判定...`);
@@ -175,10 +206,16 @@ export class ProfitSimulationService {
     }
 
     // 全導線サマリー
-    const summary = calculateTotalProfitSummary(channelResults, {
-      year,
-      month,
-    });
+    const summary = calculateTotalProfitSummary(
+      channelResults,
+      { year, month },
+      channelSamples.length > 0
+        ? summarizeForecast(
+            combineSamples(channelSamples),
+            channelResults.reduce((sum, c) => sum + c.targetProfit, 0),
+          )
+        : null,
+    );
 
     // TODO永続化
     if (allTodos.length > 0) {
@@ -196,6 +233,68 @@ export class ProfitSimulationService {
     return { summary, allBottlenecks, allTodos };
   }
 
+  /**
+   * What-if シナリオ（広告費・CPA・転換率の上書き）ごとの月末着地を現状と並べて返す
+   * 数値を読むだけで、レポート出力・TODO生成はしない
+   */
+  async simulateScenarios(
+    scenarios: ScenarioInput[],
+    channelFilter?: ChannelType,
+  ): Promise<{
+    period: string;
+    baseline: ScenarioResult;
+    scenarios: ScenarioResult[];
+    failed: { channelType: ChannelType; error: string }[];
+  }> {
+    const errors = validateScenarios(scenarios);
+    if (errors.length > 0) {
+      throw new BadRequestException('Invalid scenarios: ' + errors.join('; '));
+    }
+    const { year, month, dayOfMonth, totalDaysInMonth, period } =
+      currentPeriod();
+    const channels = channelFilter ? [channelFilter] : ALL_CHANNELS;
+
+    const baselines: ScenarioBaseline[] = [];
+    const failed: { channelType: ChannelType; error: string }[] = [];
+    for (const channelType of channels) {
+      try {
+        const metrics = await this.metricsDataSource.getMonthlyMetrics(
+          channelType,
+          year,
+          month,
+        );
+        const kpi = await this.metricsDataSource.getKPI(
+          channelType,
+          year,
+          month,
+        );
+        const targetProfit = await this.metricsDataSource.getTargetProfit(
+          channelType,
+          year,
+          month,
+        );
+        baselines.push({
+          channelType,
+          metrics,
+          kpi,
+          targetProfit,
+          actualDays: countActualDays(metrics.dailyData, dayOfMonth),
+          totalDaysInMonth,
+        });
+      } catch (error) {
+        this.logger.error(`[${channelType}] エラー: ${error}`);
+        failed.push({ channelType, error: String(error) });
+      }
+    }
+
+    this.logger.log(
+      `シナリオ試算: ${period} ${scenarios.length}件 (${baselines
+        .map((b) => b.channelType)
+        .join(', ')})`,
+    );
+    return { period, ...runScenarios(baselines, scenarios), failed };
+  }
+
   /** TODO承認 */
   async approveTodo(todoId: string): Promise<void> {
     await this.todoRepository.updateStatus(todoId, 'APPROVED');
@@ -265,3 +364,27 @@ export class ProfitSimulationService {
     }
   }
 }
+
+/** JSTの当月（年・月・日・月の日数） */
+function currentPeriod() {
+  const jstNow = new Date(Date.now() + 9 * 60 * 60 * 1000);
+  const year = jstNow.getFullYear();
+  const month = jstNow.getMonth() + 1;
+  return {
+    year,
+    month,
+    dayOfMonth: jstNow.getDate(),
+    totalDaysInMonth: new Date(year, month, 0).getDate(),
+    period: `${year}-${String(month).padStart(2, '0')}`,
+  };
+}
+
+/** 実績日数（広告費かオプトがあった日。日別データがなければ当月の経過日数） */
+function countActualDays(
+  dailyData: MonthlyMetricsData['dailyData'],
+  dayOfMonth: number,
+): number {
+  return (
+    dailyData.filter((d) => d.adSpend > 0 || d.optins > 0).length || dayOfMonth
+  );
+}
@@ -0,0 +1,121 @@
+import {
+  buildRedeployAdName,
+  nextRedeployStep,
+  parseSourceAdName,
+  resolveDeliverySchedule,
+  validateRedeployItem,
+} from './redeploy';
+
+describe('parseSourceAdName', () => {
+  it('広告名から LP番号・制作者・CR名を読み取り、導線はアカウントの訴求を使う', () => {
+    expect(parseSourceAdName('260301/山田/勝ちCR/LP2-CR00468', 'AI')).toEqual({
+      channelType: 'AI',
+      lpNumber: 2,
+      creator: '山田',
+      crName: '勝ちCR',
+    });
+  });
+
+  it('パス部分の SNS / スキル で導線を上書きし、ファイル名部分は無視する', () => {
+    expect(
+      parseSourceAdName('260301/佐藤/SNS運用CR/LP1-CR00012', 'AI').channelType,
+    ).toBe('SNS');
+    expect(
+      parseSourceAdName('260301/佐藤/スキル訴求/LP1-CR00012', 'AI').channelType,
+    ).toBe('SEMINAR');
+    expect(
+      parseSourceAdName('260301/佐藤/勝ちCR/sns_cut.mp4', 'AI').channelType,
+    ).toBe('AI');
+  });
+
+  it('形式外の広告名は LP1 と既定の制作者名・CR名にする', () => {
+    expect(parseSourceAdName('winning.mp4', 'SNS')).toEqual({
+      channelType: 'SNS',
+      lpNumber: 1,
+      creator: '再出稿',
+      crName: '再出稿CR',
+    });
+  });
+});
+
+describe('buildRedeployAdName', () => {
+  it('配信開始日と5桁のCR番号で広告名を組み立てる', () => {
+    expect(
+      buildRedeployAdName(
+        { creator: '山田', crName: '勝ちCR', lpNumber: 2 },
+        '260302',
+        469,
+      ),
+    ).toBe('260302/山田/勝ちCR/LP2-CR00469');
+  });
+});
+
+describe('resolveDeliverySchedule', () => {
+  it('15時（JST）より前は当日付けで5分後から配信する', () => {
+    // 2026-03-02 10:00 JST
+    expect(
+      resolveDeliverySchedule(new Date('2026-03-02T01:00:00.000Z')),
+    ).toEqual({
+      deliveryDate: '260302',
+      scheduleStartTime: '2026-03-02 01:05:00',
+      startsNextDay: false,
+    });
+  });
+
+  it('15時（JST）以降は翌日付けで翌日0時（JST）から配信する', () => {
+    // 2026-03-31 16:00 JST
+    expect(
+      resolveDeliverySchedule(new Date('2026-03-31T07:00:00.000Z')),
+    ).toEqual({
+      deliveryDate: '260401',
+      scheduleStartTime: '2026-03-31 15:00:00',
+      startsNextDay: true,
+    });
+  });
+});
+
+describe('nextRedeployStep', () => {
+  const none = {
+    crNumber: null,
+    destinationUrl: null,
+    campaignId: null,
+    adgroupId: null,
+  };
+
+  it('作成済みの成果物の次のステップから再開する', () => {
+    expect(nextRedeployStep(none)).toBe('CR_RESERVE');
+    expect(nextRedeployStep({ ...none, crNumber: 469 })).toBe('UTAGE_CREATE');
+    expect(
+      nextRedeployStep({
+        ...none,
+        crNumber: 469,
+        destinationUrl: 'https://example.com/lp',
+        campaignId: 'c1',
+      }),
+    ).toBe('ADGROUP_CREATE');
+    expect(
+      nextRedeployStep({
+        crNumber: 469,
+        destinationUrl: 'https://example.com/lp',
+        campaignId: 'c1',
+        adgroupId: 'g1',
+      }),
+    ).toBe('AD_CREATE');
+  });
+});
+
+describe('validateRedeployItem', () => {
+  it('必須項目・日予算・年齢プリセットを検証する', () => {
+    expect(
+      validateRedeployItem({ advertiserId: 'a', sourceAdId: 'ad' }),
+    ).toEqual([]);
+    expect(
+      validateRedeployItem({ dailyBudget: -1, agePreset: '18-24' }),
+    ).toEqual([
+      'advertiserId is required',
+      'sourceAdId is required',
+      'dailyBudget must be a positive number',
+      'agePreset must be one of 25-54, 25-44, 25-34, 35-44',
+    ]);
+  });
+});
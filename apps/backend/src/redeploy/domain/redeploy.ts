@@ -0,0 +1,218 @@
+// ============================================================================
+// 同一アカウント再出稿（純粋関数）
+// 元広告名（YYMMDD/制作者/CR名/LP-CR）から導線・LP・制作者・CR名を読み取り、
+// 新しいCR番号と配信開始日で広告名を組み立てる。進捗は RedeployLog の列から判定する
+// ============================================================================
+
+import type { ChannelType } from '../../channel-registry/domain/channel';
+import { formatAdName } from '../../ad-naming/domain/ad-name';
+
+/**
+ * RedeployLog.status
+ * CR番号の予約 → UTAGE登録経路 → キャンペーン → 広告グループ → 広告 の順に進む
+ * RESUMING は FAILED から再開を受け付けた状態（同じログの同時再開を防ぐ）
+ */
+export type RedeployStatus =
+  | 'PENDING'
+  | 'RESUMING'
+  | 'CR_RESERVED'
+  | 'UTAGE_CREATED'
+  | 'CAMPAIGN_CREATED'
+  | 'ADGROUP_CREATED'
+  | 'COMPLETED'
+  | 'FAILED';
+
+export type RedeployStep =
+  | 'SOURCE_FETCH'
+  | 'CR_RESERVE'
+  | 'UTAGE_CREATE'
+  | 'CAMPAIGN_CREATE'
+  | 'ADGROUP_CREATE'
+  | 'AD_CREATE';
+
+/** 年齢ターゲットのプリセット（既定: 25-54） */
+export const AGE_PRESETS: Record<string, string[]> = {
+  '25-54': ['AGE_25_34', 'AGE_35_44', 'AGE_45_54'],
+  '25-44': ['AGE_25_34', 'AGE_35_44'],
+  '25-34': ['AGE_25_34'],
+  '35-44': ['AGE_35_44'],
+};
+
+export const DEFAULT_AGE_PRESET = '25-54';
+
+/** 一括再出稿の上限（UTAGE・TikTok を直列で叩くため） */
+export const MAX_BATCH_ITEMS = 20;
+
+/**
+ * アカウント別の除外オーディエンス
+ * 「TikTok用除外オーディエンス」+ AI系は「TikTokAIオプトイン（全期間）」も追加
+ */
+export const EXCLUDED_AUDIENCES_BY_ADVERTISER: Record<string, string[]> = {
+  '7468288053866561553': ['194977234', '194405484', '195006413'], // AI_1
+  '7523128243466551303': ['194977234', '194405486'], // AI_2
+  '7543540647266074641': ['194977234', '194405488'], // AI_3
+  '7580666710525493255': ['194977234', '194416060'], // AI_4
+  '7543540100849156112': ['194405491'], // SNS2
+};
+
+/** 元広告に広告文がない場合の既定の広告文 */
+export const DEFAULT_AD_TEXT_BY_CHANNEL: Record<ChannelType, string> = {
+  AI: 'AIで独立するなら学んでおきたい本質のAI活用術特商法（https://skill.addness.co.jp/tokushoho）',
+  SNS: 'SNSで独立するなら学んでおきたい本質のSNSマーケ特商法（https://skill.addness.co.jp/tokushoho）',
+  SEMINAR:
+    'スキルで独立するなら学んでおきたい本質のスキル活用術特商法（https://skill.addness.co.jp/tokushoho）',
+};
+
+export interface RedeployItemInput {
+  /** TikTok advertiser_id（元広告と再出稿先は同じアカウント） */
+  advertiserId: string;
+  /** 元の Smart+ 広告ID */
+  sourceAdId: string;
+  /** 日予算（省略時は訴求の既定値） */
+  dailyBudget?: number;
+  /** 年齢ターゲット（AGE_PRESETS のキー） */
+  agePreset?: string;
+}
+
+export interface ParsedSourceAdName {
+  channelType: ChannelType;
+  lpNumber: number;
+  creator: string;
+  crName: string;
+}
+
+export interface DeliverySchedule {
+  /** 広告名に入れる配信開始日（JST, YYMMDD） */
+  deliveryDate: string;
+  /** Smart+広告グループの schedule_start_time（UTC, YYYY-MM-DD HH:mm:ss） */
+  scheduleStartTime: string;
+  /** 15時（JST）以降のため翌日0時から配信 */
+  startsNextDay: boolean;
+}
+
+/** RedeployLog のうち再開位置の判定に使う列 */
+export interface RedeployProgress {
+  crNumber: number | null;
+  destinationUrl: string | null;
+  campaignId: string | null;
+  adgroupId: string | null;
+}
+
+export function validateRedeployItem(
+  item: Partial<RedeployItemInput>,
+): string[] {
+  const errors: string[] = [];
+  if (!item.advertiserId) errors.push('advertiserId is required');
+  if (!item.sourceAdId) errors.push('sourceAdId is required');
+  if (
+    item.dailyBudget !== undefined &&
+    !(Number.isFinite(item.dailyBudget) && item.dailyBudget > 0)
+  ) {
+    errors.push('dailyBudget must be a positive number');
+  }
+  if (item.agePreset !== undefined && !AGE_PRESETS[item.agePreset]) {
+    errors.push(
+      `agePreset must be one of ${Object.keys(AGE_PRESETS).join(', ')}`,
+    );
+  }
+  return errors;
+}
+
+/**
+ * 元広告名から導線・LP番号・制作者名・CR名を読み取る
+ * 導線はアカウントの訴求を既定とし、広告名のパス部分（ファイル名を除く）にある手がかりで上書きする
+ */
+export function parseSourceAdName(
+  adName: string,
+  accountChannel: ChannelType,
+): ParsedSourceAdName {
+  const lpMatch = adName.match(/LP(\d+)/i);
+  const lpNumber = lpMatch ? parseInt(lpMatch[1], 10) : 1;
+
+  let channelType = accountChannel;
+  const pathPart = adName.split('.mp4')[0].split('/').slice(0, -1).join('/');
+  if (/sns/i.test(pathPart)) channelType = 'SNS';
+  else if (pathPart.includes('スキル') || pathPart.includes('セミナー')) {
+    channelType = 'SEMINAR';
+  }
+
+  const parts = adName.split('/');
+  return {
+    channelType,
+    lpNumber,
+    creator: parts.length >= 2 ? parts[1] : '再出稿',
+    crName: parts.length >= 3 ? parts[2] : '再出稿CR',
+  };
+}
+
+/** 再出稿の広告名（YYMMDD/制作者/CR名/LP{n}-CR{00000}） */
+export function buildRedeployAdName(
+  parsed: Pick<ParsedSourceAdName, 'creator' | 'crName' | 'lpNumber'>,
+  deliveryDate: string,
+  crNumber: number,
+): string {
+  return formatAdName({
+    launchDate: deliveryDate,
+    creator: parsed.creator,
+    crName: parsed.crName,
+    lpNumber: parsed.lpNumber,
+    crNumber,
+  });
+}
+
+/**
+ * 配信開始日時
+ * 15時（JST）より前なら今から（5分後）、15時以降は翌日0時（JST）から配信する
+ */
+export function resolveDeliverySchedule(now: Date): DeliverySchedule {
+  const jstOffset = 9 * 60 * 60 * 1000;
+  const jst = new Date(now.getTime() + jstOffset);
+  const startsNextDay = jst.getUTCHours() >= 15;
+
+  if (startsNextDay) {
+    const next = new Date(
+      Date.UTC(jst.getUTCFullYear(), jst.getUTCMonth(), jst.getUTCDate() + 1),
+    );
+    return {
+      deliveryDate: formatYymmdd(next),
+      // 翌日0時（JST）= 当日15時（UTC）
+      scheduleStartTime: formatUtc(new Date(next.getTime() - jstOffset)),
+      startsNextDay,
+    };
+  }
+  return {
+    deliveryDate: formatYymmdd(jst),
+    scheduleStartTime: formatUtc(new Date(now.getTime() + 5 * 60 * 1000)),
+    startsNextDay,
+  };
+}
+
+/**
+ * 作成済みの成果物から再開するステップを決める
+ * 予約済みのCR番号・作成済みのキャンペーン等は作り直さない
+ */
+export function nextRedeployStep(progress: RedeployProgress): RedeployStep {
+  if (progress.crNumber === null) return 'CR_RESERVE';
+  if (progress.destinationUrl === null) return 'UTAGE_CREATE';
+  if (progress.campaignId === null) return 'CAMPAIGN_CREATE';
+  if (progress.adgroupId === null) return 'ADGROUP_CREATE';
+  return 'AD_CREATE';
+}
+
+/** UTM付きLP URL */
+export function buildLandingPageUrl(destinationUrl: string): string {
+  const separator = destinationUrl.includes('?') ? '&' : '?';
+  return `${destinationUrl}${separator}utm_source=tiktok&utm_id=__CAMPAIGN_ID__&utm_campaign=__CAMPAIGN_NAME__&utm_medium=paid`;
+}
+
+function formatYymmdd(date: Date): string {
+  return `${String(date.getUTCFullYear()).slice(2)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
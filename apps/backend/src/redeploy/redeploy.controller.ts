@@ -0,0 +1,176 @@
+// ============================================================================
+// RedeployController - 同一アカウント再出稿 API
+// プレビュー・ドライラン・単発/一括実行・失敗からの再開・実行ログ
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RedeployService } from './redeploy.service';
+import type { RedeployItemInput } from './domain/redeploy';
+import { CurrentPrincipal, RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+import { inaccessibleAdvertisers } from '../auth/domain/principal';
+import type { AuthPrincipal } from '../auth/domain/principal';
+
+@RequirePermissions(PERMISSIONS.CROSS_DEPLOY_RUN)
+@Controller('api/redeploy')
+export class RedeployController {
+  private readonly logger = new Logger(RedeployController.name);
+
+  constructor(private readonly redeployService: RedeployService) {}
+
+  /**
+   * 再出稿内容のプレビュー（元広告・導線・LP・日予算・広告名の日付）
+   * GET /api/redeploy/preview?advertiserId=xxx&sourceAdId=yyy&dailyBudget=3000&agePreset=25-44
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
+  @Get('preview')
+  async preview(
+    @Query('advertiserId') advertiserId: string,
+    @Query('sourceAdId') sourceAdId: string,
+    @Query('dailyBudget') dailyBudget?: string,
+    @Query('agePreset') agePreset?: string,
+  ) {
+    return this.handle('Preview', () =>
+      this.redeployService.preview({
+        advertiserId,
+        sourceAdId,
+        dailyBudget: dailyBudget ? Number(dailyBudget) : undefined,
+        agePreset: agePreset || undefined,
+      }),
+    );
+  }
+
+  /**
+   * 再出稿の実行
+   * POST /api/redeploy
+   */
+  @Post()
+  async redeploy(@Body() body: RedeployItemInput) {
+    this.logger.log(
+      `Redeploy request: ${body.advertiserId} / ${body.sourceAdId}`,
+    );
+    return this.handle('Redeploy', () =>
+      this.redeployService.redeploy(body, { dryRun: false }),
+    );
+  }
+
+  /**
+   * ドライラン（元広告・設定・動画を確認し、広告名を組み立てるまで）
+   * POST /api/redeploy/dry-run
+   */
+  @Post('dry-run')
+  async dryRun(@Body() body: RedeployItemInput) {
+    return this.handle('Dry-run', () =>
+      this.redeployService.redeploy(body, { dryRun: true }),
+    );
+  }
+
+  /**
+   * 一括再出稿
+   * POST /api/redeploy/batch  { items: [...], dryRun?: boolean }
+   */
+  @Post('batch')
+  async batch(
+    @Body() body: { items: RedeployItemInput[]; dryRun?: boolean },
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Batch', async () => {
+      const items = Array.isArray(body?.items) ? body.items : [];
+      this.assertAccess(
+        principal,
+        items.map((item) => item?.advertiserId).filter(Boolean),
+      );
+      this.logger.log(
+        `Batch redeploy request: ${items.length} items${body.dryRun ? ' (dry run)' : ''}`,
+      );
+      return this.redeployService.batch(items, { dryRun: body.dryRun });
+    });
+  }
+
+  /**
+   * 途中失敗からの再開
+   * POST /api/redeploy/resume/:logId
+   */
+  @Post('resume/:logId')
+  async resume(
+    @Param('logId') logId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    this.logger.log(`Resume request: logId=${logId}`);
+    return this.handle('Resume', () =>
+      this.redeployService.resume(logId, principal.advertiserIds),
+    );
+  }
+
+  /**
+   * 再出稿ログ一覧（新しい順・最大100件）
+   * GET /api/redeploy/logs?advertiserId=xxx&batchId=yyy&status=FAILED
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
+  @Get('logs')
+  async logs(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('advertiserId') advertiserId?: string,
+    @Query('batchId') batchId?: string,
+    @Query('status') status?: string,
+  ) {
+    return this.handle('List logs', () =>
+      this.redeployService.listLogs(
+        {
+          advertiserId: advertiserId || undefined,
+          batchId: batchId || undefined,
+          status: status || undefined,
+        },
+        principal.advertiserIds,
+      ),
+    );
+  }
+
+  /**
+   * 再出稿ログの詳細
+   * GET /api/redeploy/logs/:id
+   */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
+  @Get('logs/:id')
+  async log(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ) {
+    return this.handle('Get log', () =>
+      this.redeployService.findLog(id, principal.advertiserIds),
+    );
+  }
+
+  private assertAccess(principal: AuthPrincipal, advertiserIds: string[]) {
+    const denied = inaccessibleAdvertisers(principal, advertiserIds);
+    if (denied.length > 0) {
+      throw new ForbiddenException(
+        `No access to advertisers: ${denied.join(', ')}`,
+      );
+    }
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[REDEPLOY] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
@@ -0,0 +1,17 @@
+// ============================================================================
+// RedeployModule - 同一アカウント内の再出稿
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { RedeployService } from './redeploy.service';
+import { RedeployController } from './redeploy.controller';
+import { TiktokModule } from '../tiktok/tiktok.module';
+import { UtageModule } from '../utage/utage.module';
+
+@Module({
+  imports: [TiktokModule, UtageModule],
+  controllers: [RedeployController],
+  providers: [RedeployService],
+  exports: [RedeployService],
+})
+export class RedeployModule {}
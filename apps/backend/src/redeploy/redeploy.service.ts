@@ -0,0 +1,580 @@
+// ============================================================================
+// RedeployService - 同一アカウント内の再出稿
+// 勝ちCRの動画をそのまま使い、新しいCR番号（UTAGE登録経路）で Smart+ キャンペーン一式を作り直す。
+// 各ステップの成果物を RedeployLog に残し、失敗時は作成済みの成果物を使って途中から再開する
+// ============================================================================
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { Prisma, RedeployLog } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { UtageService } from '../utage/utage.service';
+import { DEEP_FUNNEL_CONFIG } from '../utage/utage.types';
+import { ChannelRegistryService } from '../channel-registry/channel-registry.service';
+import {
+  DEFAULT_DAILY_BUDGET_BY_CHANNEL,
+  toFunnelName,
+  type ChannelType,
+} from '../channel-registry/domain/channel';
+import {
+  AGE_PRESETS,
+  DEFAULT_AD_TEXT_BY_CHANNEL,
+  DEFAULT_AGE_PRESET,
+  EXCLUDED_AUDIENCES_BY_ADVERTISER,
+  MAX_BATCH_ITEMS,
+  buildLandingPageUrl,
+  buildRedeployAdName,
+  nextRedeployStep,
+  parseSourceAdName,
+  resolveDeliverySchedule,
+  validateRedeployItem,
+  type RedeployItemInput,
+  type RedeployStatus,
+  type RedeployStep,
+} from './domain/redeploy';
+
+export interface RedeployPreview {
+  advertiserId: string;
+  advertiserName: string;
+  sourceAdId: string;
+  sourceAdName: string;
+  videoIds: string[];
+  adTexts: string[];
+  channelType: ChannelType;
+  appeal: string;
+  lpNumber: number;
+  creator: string;
+  crName: string;
+  dailyBudget: number;
+  agePreset: string;
+  ageGroups: string[];
+  excludedAudienceIds: string[];
+  deliveryDate: string;
+  scheduleStartTime: string;
+  startsNextDay: boolean;
+}
+
+export interface RedeployResult {
+  logId: string;
+  batchId: string | null;
+  advertiserId: string;
+  sourceAdId: string;
+  status: 'SUCCESS' | 'FAILED';
+  dryRun: boolean;
+  adName: string | null;
+  crNumber: number | null;
+  utagePath: string | null;
+  destinationUrl: string | null;
+  campaignId: string | null;
+  adgroupId: string | null;
+  adId: string | null;
+  dailyBudget: number | null;
+  error: string | null;
+  failedStep: string | null;
+}
+
+/** 再出稿の実行に必要なアカウント・元広告の情報 */
+interface RedeployContext {
+  accessToken: string;
+  preview: RedeployPreview;
+  pixelId: string;
+  identityId: string;
+  identityAuthorizedBcId: string | null;
+  callToActionId?: string;
+}
+
+const LOG_STATUSES: RedeployStatus[] = [
+  'PENDING',
+  'RESUMING',
+  'CR_RESERVED',
+  'UTAGE_CREATED',
+  'CAMPAIGN_CREATED',
+  'ADGROUP_CREATED',
+  'COMPLETED',
+  'FAILED',
+];
+
+@Injectable()
+export class RedeployService {
+  private readonly logger = new Logger(RedeployService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+    private readonly utageService: UtageService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly channelRegistry: ChannelRegistryService,
+  ) {}
+
+  /**
+   * 再出稿の内容を確認する（UTAGE・TikTok には何も作らない）
+   */
+  async preview(
+    item: RedeployItemInput,
+    now: Date = new Date(),
+  ): Promise<RedeployPreview> {
+    this.assertValid([item]);
+    return (await this.loadContext(item, now)).preview;
+  }
+
+  /**
+   * 1件の再出稿
+   * dryRun の場合は元広告・アカウント設定・動画の存在を確認し、次のCR番号で広告名を組み立てるところまで
+   */
+  async redeploy(
+    item: RedeployItemInput,
+    options: { dryRun?: boolean } = {},
+    now: Date = new Date(),
+  ): Promise<RedeployResult> {
+    this.assertValid([item]);
+    return this.run(item, { dryRun: options.dryRun ?? false }, now);
+  }
+
+  /**
+   * 一括再出稿（1件ずつ直列に実行し、失敗しても残りを続ける）
+   */
+  async batch(
+    items: RedeployItemInput[],
+    options: { dryRun?: boolean } = {},
+    now: Date = new Date(),
+  ): Promise<{ batchId: string; results: RedeployResult[] }> {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new BadRequestException('Invalid redeploy batch: items is empty');
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      throw new BadRequestException(
+        `Invalid redeploy batch: at most ${MAX_BATCH_ITEMS} items`,
+      );
+    }
+    this.assertValid(items);
+
+    const batchId = randomUUID();
+    const results: RedeployResult[] = [];
+    for (const item of items) {
+      results.push(
+        await this.run(item, { dryRun: options.dryRun ?? false, batchId }, now),
+      );
+    }
+    this.logger.log(
+      `[REDEPLOY] Batch ${batchId}: 成功=${results.filter((r) => r.status === 'SUCCESS').length}, 失敗=${results.filter((r) => r.status === 'FAILED').length}`,
+    );
+    return { batchId, results };
+  }
+
+  /**
+   * 失敗した再出稿を途中から再開する
+   * 予約済みのCR番号・作成済みのUTAGE登録経路/キャンペーン/広告グループはそのまま使う
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
+   */
+  async resume(
+    logId: string,
+    scope: string[] | null,
+    now: Date = new Date(),
+  ): Promise<RedeployResult> {
+    const log = await this.findLog(logId, scope);
+    if (log.status !== 'FAILED') {
+      throw new BadRequestException(
+        `Redeploy ${logId} is ${log.status}; only FAILED redeploys can be resumed`,
+      );
+    }
+    if (log.dryRun) {
+      throw new BadRequestException(
+        `Redeploy ${logId} is a dry run and cannot be resumed`,
+      );
+    }
+    // 同じログの同時再開で UTAGE・TikTok に二重に作らないよう、FAILED のときだけ取得する
+    const claimed = await this.prisma.redeployLog.updateMany({
+      where: { id: log.id, status: 'FAILED' },
+      data: { status: 'RESUMING' },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(`Redeploy ${logId} is already being resumed`);
+    }
+
+    this.logger.log(
+      `[REDEPLOY] Resuming ${logId} from ${nextRedeployStep(log)} (${log.advertiserId} / ${log.sourceAdId})`,
+    );
+    let step: RedeployStep = 'SOURCE_FETCH';
+    try {
+      const context = await this.loadContext(
+        {
+          advertiserId: log.advertiserId,
+          sourceAdId: log.sourceAdId,
+          dailyBudget: log.dailyBudget ?? undefined,
+          agePreset: log.agePreset ?? undefined,
+        },
+        now,
+      );
+      await this.updateLog(log.id, { errorMessage: null, failedStep: null });
+      return await this.execute(log, context, now, (current) => {
+        step = current;
+      });
+    } catch (error) {
+      return this.fail(log.id, step, error);
+    }
+  }
+
+  /**
+   * 再出稿ログ一覧（新しい順）
+   * @param scope アクセス可能な広告アカウント（null なら全アカウント）
+   */
+  async listLogs(
+    filters: { advertiserId?: string; batchId?: string; status?: string },
+    scope: string[] | null,
+  ): Promise<RedeployLog[]> {
+    if (
+      filters.status &&
+      !LOG_STATUSES.includes(filters.status as RedeployStatus)
+    ) {
+      throw new BadRequestException(
+        `status must be one of ${LOG_STATUSES.join(', ')}`,
+      );
+    }
+    const { advertiserId } = filters;
+    return this.prisma.redeployLog.findMany({
+      where: {
+        advertiserId: advertiserId
+          ? scope === null || scope.includes(advertiserId)
+            ? advertiserId
+            : { in: [] }
+          : scope === null
+            ? undefined
+            : { in: scope },
+        batchId: filters.batchId,
+        status: filters.status,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  async findLog(id: string, scope: string[] | null): Promise<RedeployLog> {
+    const log = await this.prisma.redeployLog.findUnique({ where: { id } });
+    if (!log || (scope !== null && !scope.includes(log.advertiserId))) {
+      throw new NotFoundException(`Redeploy log ${id} not found`);
+    }
+    return log;
+  }
+
+  // ========== 実行 ==========
+
+  private async run(
+    item: RedeployItemInput,
+    options: { dryRun: boolean; batchId?: string },
+    now: Date,
+  ): Promise<RedeployResult> {
+    const log = await this.prisma.redeployLog.create({
+      data: {
+        batchId: options.batchId ?? null,
+        advertiserId: item.advertiserId,
+        sourceAdId: item.sourceAdId,
+        dryRun: options.dryRun,
+        status: 'PENDING',
+      },
+    });
+
+    let step: RedeployStep = 'SOURCE_FETCH';
+    try {
+      const context = await this.loadContext(item, now);
+      const { preview } = context;
+      const planned = await this.updateLog(log.id, {
+        sourceAdName: preview.sourceAdName,
+        videoIds: preview.videoIds,
+        appeal: preview.appeal,
+        lpNumber: preview.lpNumber,
+        agePreset: preview.agePreset,
+        dailyBudget: preview.dailyBudget,
+      });
+
+      if (options.dryRun) {
+        // 次のCR番号は参考値（予約はしない）
+        const latest = await this.utageService.getLatestCrNumber(
+          preview.appeal,
+          preview.lpNumber,
+        );
+        return this.toResult(
+          await this.updateLog(log.id, {
+            status: 'COMPLETED',
+            crNumber: latest + 1,
+            adName: buildRedeployAdName(
+              preview,
+              preview.deliveryDate,
+              latest + 1,
+            ),
+          }),
+        );
+      }
+
+      return await this.execute(planned, context, now, (current) => {
+        step = current;
+      });
+    } catch (error) {
+      return this.fail(log.id, step, error);
+    }
+  }
+
+  /**
+   * 未完了のステップを順に実行する（完了済みのステップは飛ばす）
+   */
+  private async execute(
+    log: RedeployLog,
+    context: RedeployContext,
+    now: Date,
+    onStep: (step: RedeployStep) => void,
+  ): Promise<RedeployResult> {
+    const { preview } = context;
+    const appeal = log.appeal ?? preview.appeal;
+    const lpNumber = log.lpNumber ?? preview.lpNumber;
+    const videoIds = (log.videoIds as string[] | null) ?? preview.videoIds;
+    const schedule = resolveDeliverySchedule(now);
+    let current = log;
+
+    if (current.crNumber === null) {
+      onStep('CR_RESERVE');
+      const crNumber = await this.utageService.reserveNextCrNumber(
+        appeal,
+        lpNumber,
+      );
+      current = await this.updateLog(log.id, {
+        status: 'CR_RESERVED',
+        crNumber,
+        adName: buildRedeployAdName(preview, schedule.deliveryDate, crNumber),
+      });
+    }
+    const crNumber = current.crNumber!;
+    const adName =
+      current.adName ??
+      buildRedeployAdName(preview, schedule.deliveryDate, crNumber);
+
+    if (current.destinationUrl === null) {
+      onStep('UTAGE_CREATE');
+      const path = await this.utageService.createRegistrationPath(
+        appeal,
+        lpNumber,
+        crNumber,
+      );
+      current = await this.updateLog(log.id, {
+        status: 'UTAGE_CREATED',
+        utagePath: path.registrationPath,
+        destinationUrl: path.destinationUrl,
+      });
+    }
+
+    if (current.campaignId === null) {
+      onStep('CAMPAIGN_CREATE');
+      const campaignId = await this.tiktokService.createSmartPlusCampaign(
+        log.advertiserId,
+        context.accessToken,
+        { campaignName: adName },
+      );
+      current = await this.updateLog(log.id, {
+        status: 'CAMPAIGN_CREATED',
+        campaignId,
+      });
+    }
+
+    if (current.adgroupId === null) {
+      onStep('ADGROUP_CREATE');
+      const deepFunnel = DEEP_FUNNEL_CONFIG[appeal];
+      const adgroupId = await this.tiktokService.createSmartPlusAdGroup(
+        log.advertiserId,
+        context.accessToken,
+        {
+          campaignId: current.campaignId!,
+          adgroupName: `${schedule.deliveryDate} ${preview.agePreset}`,
+          budget: current.dailyBudget ?? preview.dailyBudget,
+          pixelId: context.pixelId,
+          scheduleStartTime: schedule.scheduleStartTime,
+          deepExternalAction: deepFunnel?.deepExternalAction,
+          deepFunnelOptimizationEvent: deepFunnel?.deepFunnelOptimizationEvent,
+          ageGroups: preview.ageGroups,
+          excludedAudienceIds: preview.excludedAudienceIds,
+        },
+      );
+      current = await this.updateLog(log.id, {
+        status: 'ADGROUP_CREATED',
+        adgroupId,
+      });
+    }
+
+    onStep('AD_CREATE');
+    const adId = await this.tiktokService.createSmartPlusAd(
+      log.advertiserId,
+      context.accessToken,
+      {
+        adgroupId: current.adgroupId!,
+        adName,
+        creativeList: videoIds.map((videoId) => ({
+          videoId,
+          identityId: context.identityId,
+          identityType: 'BC_AUTH_TT',
+          identityAuthorizedBcId: context.identityAuthorizedBcId ?? undefined,
+        })),
+        adTextList:
+          preview.adTexts.length > 0
+            ? preview.adTexts
+            : [DEFAULT_AD_TEXT_BY_CHANNEL[preview.channelType]],
+        landingPageUrls: [buildLandingPageUrl(current.destinationUrl!)],
+        callToActionId: context.callToActionId,
+      },
+    );
+    const completed = await this.updateLog(log.id, {
+      status: 'COMPLETED',
+      adName,
+      adId,
+    });
+    this.logger.log(
+      `[REDEPLOY] ${log.advertiserId} / ${log.sourceAdId} → ${adName} (ad: ${adId})`,
+    );
+    return this.toResult(completed);
+  }
+
+  /**
+   * 元広告・アカウント設定を読み込み、再出稿の内容を決める
+   * 動画は同じアカウントの video_id をそのまま使うため、アカウントにまだあることを確認する
+   */
+  private async loadContext(
+    item: RedeployItemInput,
+    now: Date,
+  ): Promise<RedeployContext> {
+    const advertiser = await this.prisma.advertiser.findUnique({
+      where: { tiktokAdvertiserId: item.advertiserId },
+      include: { appeal: true },
+    });
+    if (!advertiser) {
+      throw new NotFoundException(`Advertiser ${item.advertiserId} not found`);
+    }
+    if (!advertiser.pixelId || !advertiser.identityId) {
+      throw new Error(
+        `アカウント ${item.advertiserId} に pixelId / identityId が設定されていません`,
+      );
+    }
+    const token = await this.tokenVault.findByAdvertiserId(item.advertiserId);
+    if (!token) {
+      throw new Error(`アクセストークンが見つかりません: ${item.advertiserId}`);
+    }
+
+    const source = await this.tiktokService.getSmartPlusAdFullDetail(
+      item.advertiserId,
+      token.accessToken,
+      item.sourceAdId,
+    );
+    if (source.videoIds.length === 0) {
+      throw new Error(`元広告 ${item.sourceAdId} に動画がありません`);
+    }
+    const found = (
+      await this.tiktokService.getVideoInfo(
+        item.advertiserId,
+        token.accessToken,
+        source.videoIds,
+      )
+    ).map((video) => String(video.video_id));
+    const missing = source.videoIds.filter((id) => !found.includes(id));
+    if (missing.length > 0) {
+      throw new Error(`アカウントに動画がありません: ${missing.join(', ')}`);
+    }
+
+    const appealProfile = advertiser.appeal
+      ? this.channelRegistry.resolveAppeal(advertiser.appeal)
+      : null;
+    const parsed = parseSourceAdName(
+      source.adName,
+      appealProfile?.channelType ?? 'AI',
+    );
+    const defaultBudget =
+      appealProfile && appealProfile.channelType === parsed.channelType
+        ? appealProfile.defaultDailyBudget
+        : DEFAULT_DAILY_BUDGET_BY_CHANNEL[parsed.channelType];
+    const agePreset = item.agePreset ?? DEFAULT_AGE_PRESET;
+    const schedule = resolveDeliverySchedule(now);
+
+    return {
+      accessToken: token.accessToken,
+      pixelId: advertiser.pixelId,
+      identityId: advertiser.identityId,
+      identityAuthorizedBcId: advertiser.identityAuthorizedBcId,
+      callToActionId: source.adConfiguration?.call_to_action_id || undefined,
+      preview: {
+        advertiserId: item.advertiserId,
+        advertiserName: advertiser.name,
+        sourceAdId: item.sourceAdId,
+        sourceAdName: source.adName,
+        videoIds: source.videoIds,
+        adTexts: source.adTexts,
+        ...parsed,
+        appeal: toFunnelName(parsed.channelType),
+        dailyBudget: item.dailyBudget ?? defaultBudget,
+        agePreset,
+        ageGroups: AGE_PRESETS[agePreset],
+        excludedAudienceIds:
+          EXCLUDED_AUDIENCES_BY_ADVERTISER[item.advertiserId] ?? [],
+        ...schedule,
+      },
+    };
+  }
+
+  // ========== ヘルパー ==========
+
+  private assertValid(items: RedeployItemInput[]): void {
+    const errors = items.flatMap((item, index) =>
+      validateRedeployItem(item ?? {}).map((error) =>
+        items.length > 1 ? `items[${index}]: ${error}` : error,
+      ),
+    );
+    if (errors.length > 0) {
+      throw new BadRequestException('Invalid redeploy: ' + errors.join('; '));
+    }
+  }
+
+  private async updateLog(
+    id: string,
+    data: Prisma.RedeployLogUpdateInput,
+  ): Promise<RedeployLog> {
+    return this.prisma.redeployLog.update({ where: { id }, data });
+  }
+
+  private async fail(
+    logId: string,
+    step: RedeployStep,
+    error: unknown,
+  ): Promise<RedeployResult> {
+    const message = error instanceof Error ? error.message : String(error);
+    this.logger.error(`[REDEPLOY] ${logId} failed at ${step}: ${message}`);
+    return this.toResult(
+      await this.updateLog(logId, {
+        status: 'FAILED',
+        failedStep: step,
+        errorMessage: message,
+      }),
+    );
+  }
+
+  private toResult(log: RedeployLog): RedeployResult {
+    return {
+      logId: log.id,
+      batchId: log.batchId,
+      advertiserId: log.advertiserId,
+      sourceAdId: log.sourceAdId,
+      status: log.status === 'COMPLETED' ? 'SUCCESS' : 'FAILED',
+      dryRun: log.dryRun,
+      adName: log.adName,
+      crNumber: log.crNumber,
+      utagePath: log.utagePath,
+      destinationUrl: log.destinationUrl,
+      campaignId: log.campaignId,
+      adgroupId: log.adgroupId,
+      adId: log.adId,
+      dailyBudget: log.dailyBudget,
+      error: log.errorMessage,
+      failedStep: log.failedStep,
+    };
+  }
+}
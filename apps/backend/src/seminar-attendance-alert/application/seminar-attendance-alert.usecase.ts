@@ -11,14 +11,10 @@ import { SheetsOptLatestPathReader } from '../infrastructure/opt-latest-path-rea
 import { SheetsReservationSurveyReader } from '../infrastructure/reservation-survey-reader';
 import { SheetsAttendanceLineNameReader } from '../infrastructure/attendance-line-name-reader';
 import { PrismaAlertHistoryRepository } from '../infrastructure/alert-history-repository';
-import { AiSecretaryLineNotifier } from '../infrastructure/line-notifier';
-
-/** スキルプラス導線のアカウント */
-const SP_ADVERTISER_IDS: Record<string, string> = {
-  '7474920444831875080': 'SP1',
-  '7592868952431362066': 'SP2',
-  '7616545514662051858': 'SP3',
-};
+import { DispatcherAlertNotifier } from '../infrastructure/alert-notifier';
+import { ChannelRegistryService } from '../../channel-registry/channel-registry.service';
+import { AutomationControlService } from '../../automation-control/automation-control.service';
+import type { AutomationSkip } from '../../automation-control/domain/automation-control';
 
 export interface TriggeredAdDetail {
   adTiktokId: string;
@@ -47,6 +43,8 @@ export interface AlertRunResult {
   allowableCpo: number | null;
   attendanceCount: number;
   errors: string[];
+  /** 自動化の一時停止で評価を見送ったアカウント */
+  automationSkips: AutomationSkip[];
 }
 
 @Injectable()
@@ -62,7 +60,9 @@ export class SeminarAttendanceAlertUseCase {
     private readonly surveyReader: SheetsReservationSurveyReader,
     private readonly attendanceReader: SheetsAttendanceLineNameReader,
     private readonly historyRepo: PrismaAlertHistoryRepository,
-    private readonly notifier: AiSecretaryLineNotifier,
+    private readonly notifier: DispatcherAlertNotifier,
+    private readonly channelRegistry: ChannelRegistryService,
+    private readonly automationControl: AutomationControlService,
   ) {}
 
   async run(options: { dryRun?: boolean } = {}): Promise<AlertRunResult> {
@@ -74,9 +74,23 @@ export class SeminarAttendanceAlertUseCase {
       allowableCpo: null,
       attendanceCount: 0,
       errors: [],
+      automationSkips: [],
     };
     const now = new Date();
 
+    // 0) スキルプラス（SEMINAR導線）のアカウントのうち、自動化の一時停止中のものを除外
+    const spAdvertisers = await this.channelRegistry.listAdvertisers([
+      'SEMINAR',
+    ]);
+    const gate = await this.automationControl.gate(
+      'SEMINAR_ALERT',
+      spAdvertisers.map((adv) => adv.tiktokAdvertiserId),
+    );
+    result.automationSkips = gate.skipped;
+    if (gate.allowed.length === 0 && gate.skipped.length > 0) {
+      return result;
+    }
+
     // 1) 許容CPO取得
     const ym = YearMonth.fromDate(now);
     const allowable = await this.allowableResolver.resolve(ym);
@@ -107,14 +121,19 @@ export class SeminarAttendanceAlertUseCase {
       attendedLineNames,
     );
 
-    // 4) SP配下のアクティブ広告を取得
+    // 4) スキルプラス（SEMINAR導線）配下のアクティブ広告を取得
+    const spAdvertiserLabels = new Map(
+      spAdvertisers
+        .filter((adv) => gate.allowed.includes(adv.tiktokAdvertiserId))
+        .map((adv) => [adv.tiktokAdvertiserId, adv.label]),
+    );
     const ads = await this.prisma.ad.findMany({
       where: {
         status: 'ENABLE',
         adGroup: {
           campaign: {
             advertiser: {
-              tiktokAdvertiserId: { in: Object.keys(SP_ADVERTISER_IDS) },
+              tiktokAdvertiserId: { in: [...spAdvertiserLabels.keys()] },
             },
           },
         },
@@ -140,7 +159,7 @@ export class SeminarAttendanceAlertUseCase {
     // 6) 各広告を評価
     for (const ad of ads) {
       const advId = ad.adGroup?.campaign?.advertiser?.tiktokAdvertiserId ?? '';
-      const advName = SP_ADVERTISER_IDS[advId] ?? advId;
+      const advName = spAdvertiserLabels.get(advId) ?? advId;
       const lpcrMatch = ad.name.match(/LP\d+-CR\d+/i);
       if (!lpcrMatch) continue;
       const lpCr = lpcrMatch[0].toUpperCase();
@@ -209,7 +228,9 @@ export class SeminarAttendanceAlertUseCase {
 
       try {
         await this.notifier.notify({
+          adTiktokId: ad.tiktokId,
           adName: ad.name,
+          advertiserId: advId,
           advertiserName: advName,
           deliveryStartDate: startDate,
           deliveryDays: period.elapsedDays,
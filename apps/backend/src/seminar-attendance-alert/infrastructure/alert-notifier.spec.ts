@@ -1,11 +1,11 @@
-import { AiSecretaryLineNotifier } from './line-notifier';
-
-describe('AiSecretaryLineNotifier.formatMessage', () => {
-  const notifier = new AiSecretaryLineNotifier();
+import { formatAlertMessage } from './alert-notifier';
 
+describe('formatAlertMessage', () => {
   it('CPO_EXCEEDED の整形', () => {
-    const msg = notifier.formatMessage({
+    const msg = formatAlertMessage({
+      adTiktokId: 'ad-1',
       adName: '260404/横展開/CR454_横展開/LP2-CR00500',
+      advertiserId: 'adv-1',
       advertiserName: 'SP1',
       deliveryStartDate: new Date(Date.UTC(2026, 3, 7, 15)), // JST 2026/4/8 0:00
       deliveryDays: 6,
@@ -16,7 +16,7 @@ describe('AiSecretaryLineNotifier.formatMessage', () => {
       allowableCpo: 15000,
       reason: 'CPO_EXCEEDED',
     });
-    expect(msg).toContain('⚠️ セミナー着座CPOアラート');
+    expect(msg).toMatch(/^📢 広告: /);
     expect(msg).toContain('260404/横展開/CR454_横展開/LP2-CR00500');
     expect(msg).toContain('SP1');
     expect(msg).toContain('4/8開始 (6日経過)');
@@ -29,8 +29,10 @@ describe('AiSecretaryLineNotifier.formatMessage', () => {
   });
 
   it('ZERO_ATTENDANCE_WITH_SPEND の整形', () => {
-    const msg = notifier.formatMessage({
+    const msg = formatAlertMessage({
+      adTiktokId: 'ad-1',
       adName: 'test ad',
+      advertiserId: 'adv-2',
       advertiserName: 'SP2',
       deliveryStartDate: new Date(Date.UTC(2026, 3, 1, 15)),
       deliveryDays: 7,
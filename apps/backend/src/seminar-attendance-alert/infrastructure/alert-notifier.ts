@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationDispatcherService } from '../../notification/notification-dispatcher.service';
+import {
+  NotificationSeverity,
+  NotificationType,
+} from '../../notification/notification.service';
+
+export interface AlertPayload {
+  adTiktokId: string;
+  adName: string;
+  /** TikTok advertiser_id（配信ルールの振り分けに使う） */
+  advertiserId: string;
+  advertiserName: string;
+  deliveryStartDate: Date;
+  deliveryDays: number;
+  totalSpend: number;
+  reservationCount: number;
+  attendanceCount: number;
+  actualCpo: number | null;
+  allowableCpo: number;
+  reason: 'CPO_EXCEEDED' | 'ZERO_ATTENDANCE_WITH_SPEND';
+}
+
+export interface AlertNotifier {
+  notify(payload: AlertPayload): Promise<void>;
+}
+
+export const ALERT_TITLE = '⚠️ セミナー着座CPOアラート';
+
+/**
+ * 通知の配信ルールで送る（既定は AI秘書LINE）
+ * 送信失敗は配信記録に FAILED として残り、再送できる
+ */
+@Injectable()
+export class DispatcherAlertNotifier implements AlertNotifier {
+  constructor(private readonly dispatcher: NotificationDispatcherService) {}
+
+  async notify(payload: AlertPayload): Promise<void> {
+    await this.dispatcher.dispatch({
+      type: NotificationType.SEMINAR_ATTENDANCE_ALERT,
+      severity: NotificationSeverity.WARNING,
+      advertiserId: payload.advertiserId || null,
+      entityId: payload.adTiktokId,
+      title: ALERT_TITLE,
+      message: formatAlertMessage(payload),
+      metadata: { reason: payload.reason },
+    });
+  }
+}
+
+export function formatAlertMessage(p: AlertPayload): string {
+  const mmdd = (d: Date) => {
+    const jst = new Date(d.getTime() + 9 * 3600 * 1000);
+    return `${jst.getUTCMonth() + 1}/${jst.getUTCDate()}`;
+  };
+  const lines: string[] = [];
+  lines.push(`📢 広告: ${p.adName}`);
+  lines.push(`🏢 アカウント: ${p.advertiserName}`);
+  lines.push(
+    `📅 配信期間: ${mmdd(p.deliveryStartDate)}開始 (${p.deliveryDays}日経過)`,
+  );
+  lines.push(`💰 広告費: ¥${p.totalSpend.toLocaleString()}`);
+  lines.push(`👥 予約: ${p.reservationCount}件`);
+  lines.push(`🪑 着座: ${p.attendanceCount}件`);
+  if (p.reason === 'CPO_EXCEEDED' && p.actualCpo != null) {
+    const rate = Math.round((p.actualCpo / p.allowableCpo) * 1000) / 10;
+    lines.push(`📊 実CPO: ¥${p.actualCpo.toLocaleString()}`);
+    lines.push(
+      `🎯 当月許容CPO: ¥${p.allowableCpo.toLocaleString()} (超過率 ${rate}%)`,
+    );
+  } else {
+    lines.push(`📊 実CPO: 着座0件（算出不能）`);
+    lines.push(`🎯 当月許容CPO: ¥${p.allowableCpo.toLocaleString()}`);
+    lines.push(`※ 許容CPO相当の予算を消化して1件も着座なし`);
+  }
+  lines.push('');
+  lines.push('→ 手動で状況確認の上、停止判断を推奨');
+  return lines.join('\n');
+}
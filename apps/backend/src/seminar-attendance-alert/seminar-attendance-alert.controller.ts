@@ -1,6 +1,13 @@
 import { Controller, Post, Logger, Query } from '@nestjs/common';
 import { SeminarAttendanceAlertUseCase } from './application/seminar-attendance-alert.usecase';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.JOBS_RUN)
+@RequireAllAdvertisers()
 @Controller('jobs/seminar-attendance-alert')
 export class SeminarAttendanceAlertController {
   private readonly logger = new Logger(SeminarAttendanceAlertController.name);
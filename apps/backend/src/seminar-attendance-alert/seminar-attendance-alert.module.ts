@@ -7,10 +7,11 @@ import { SheetsOptLatestPathReader } from './infrastructure/opt-latest-path-read
 import { SheetsReservationSurveyReader } from './infrastructure/reservation-survey-reader';
 import { SheetsAttendanceLineNameReader } from './infrastructure/attendance-line-name-reader';
 import { PrismaAlertHistoryRepository } from './infrastructure/alert-history-repository';
-import { AiSecretaryLineNotifier } from './infrastructure/line-notifier';
+import { DispatcherAlertNotifier } from './infrastructure/alert-notifier';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
-  imports: [GoogleSheetsModule],
+  imports: [GoogleSheetsModule, NotificationModule],
   controllers: [SeminarAttendanceAlertController],
   providers: [
     SeminarAttendanceAlertUseCase,
@@ -19,7 +20,7 @@ import { AiSecretaryLineNotifier } from './infrastructure/line-notifier';
     SheetsReservationSurveyReader,
     SheetsAttendanceLineNameReader,
     PrismaAlertHistoryRepository,
-    AiSecretaryLineNotifier,
+    DispatcherAlertNotifier,
   ],
 })
 export class SeminarAttendanceAlertModule {}
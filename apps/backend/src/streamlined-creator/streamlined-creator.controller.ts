@@ -4,7 +4,10 @@
 import { Controller, Get, Post, Body, Query, Logger } from '@nestjs/common';
 import { StreamlinedCreatorService } from './streamlined-creator.service';
 import { CreateSingleInput, CreateBatchInput, PreviewInput } from './types';
+import { RequirePermissions } from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.CAMPAIGN_WRITE)
 @Controller('api/streamlined-creator')
 export class StreamlinedCreatorController {
   private readonly logger = new Logger(StreamlinedCreatorController.name);
@@ -15,6 +18,7 @@ export class StreamlinedCreatorController {
    * カスタムオーディエンス一覧取得
    * GET /api/streamlined-creator/custom-audiences?advertiserId=xxx
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
   @Get('custom-audiences')
   async getCustomAudiences(@Query('advertiserId') advertiserId: string) {
     this.logger.log(`カスタムオーディエンス取得: ${advertiserId}`);
@@ -25,6 +29,7 @@ export class StreamlinedCreatorController {
    * ギガファイル便プレビュー（ファイル名取得）
    * POST /api/streamlined-creator/preview
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
   @Post('preview')
   async preview(@Body() input: PreviewInput) {
     this.logger.log(`プレビュー: ${input.gigafileUrls.length}件`);
@@ -35,6 +40,7 @@ export class StreamlinedCreatorController {
    * ギガファイル便のファイルリスト取得（DLはしない）
    * POST /api/streamlined-creator/file-list
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
   @Post('file-list')
   async getFileList(@Body() body: { gigafileUrl: string }) {
     this.logger.log(`ファイルリスト取得: ${body.gigafileUrl}`);
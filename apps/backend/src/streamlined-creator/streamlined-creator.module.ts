@@ -4,9 +4,10 @@ import { StreamlinedCreatorController } from './streamlined-creator.controller';
 import { GigafileService } from './gigafile.service';
 import { TiktokModule } from '../tiktok/tiktok.module';
 import { UtageModule } from '../utage/utage.module';
+import { CreativeAssetModule } from '../creative-asset/creative-asset.module';
 
 @Module({
-  imports: [TiktokModule, UtageModule],
+  imports: [TiktokModule, UtageModule, CreativeAssetModule],
   controllers: [StreamlinedCreatorController],
   providers: [StreamlinedCreatorService, GigafileService],
   exports: [StreamlinedCreatorService],
@@ -2,11 +2,18 @@
  * ワンストップ出稿サービス
  * ギガファイル便URL → 動画DL → TikTokアップロード → UTAGE登録経路 → キャンペーン作成
  */
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
 import { TiktokService } from '../tiktok/tiktok.service';
 import { UtageService } from '../utage/utage.service';
+import { CreativeAssetService } from '../creative-asset/creative-asset.service';
 import { DEEP_FUNNEL_CONFIG } from '../utage/utage.types';
+import {
+  adNameErrors,
+  adNamePartErrors,
+  formatAdName,
+} from '../ad-naming/domain/ad-name';
 import { GigafileService } from './gigafile.service';
 import {
   AD_TEXT,
@@ -33,6 +40,8 @@ export class StreamlinedCreatorService {
     private tiktokService: TiktokService,
     private utageService: UtageService,
     private gigafileService: GigafileService,
+    private tokenVault: TokenVaultService,
+    private creativeAssets: CreativeAssetService,
   ) {}
 
   /**
@@ -76,6 +85,7 @@ export class StreamlinedCreatorService {
     this.logger.log(
       `ワンストップ出稿開始: ${input.gigafileUrl} → ${input.advertiserId}`,
     );
+    this.assertAdNameParts(input);
 
     let currentStep = 'GIGAFILE_DOWNLOAD';
 
@@ -149,12 +159,13 @@ export class StreamlinedCreatorService {
 
       // 2. TikTokへ動画アップロード
       currentStep = 'VIDEO_UPLOAD';
-      const videoId = await this.tiktokService.uploadVideoToAccount(
-        input.advertiserId,
-        token,
+      const { mediaId: videoId } = await this.creativeAssets.uploadVideo({
+        advertiserId: input.advertiserId,
+        accessToken: token,
         buffer,
         filename,
-      );
+        origin: 'STREAMLINED_CREATOR',
+      });
       this.logger.log(`動画アップロード完了: ${videoId}`);
 
       // 3. 動画処理完了待ち
@@ -308,6 +319,7 @@ export class StreamlinedCreatorService {
     this.logger.log(
       `一括出稿開始: ${input.gigafileUrl} → ${input.advertiserId}`,
     );
+    this.assertAdNameParts(input);
     const fileList = await this.gigafileService.getFileList(input.gigafileUrl);
     if (!fileList) {
       return {
@@ -372,12 +384,13 @@ export class StreamlinedCreatorService {
 
         // 動画アップロード
         currentStep = 'VIDEO_UPLOAD';
-        const videoId = await this.tiktokService.uploadVideoToAccount(
-          input.advertiserId,
-          token,
+        const { mediaId: videoId } = await this.creativeAssets.uploadVideo({
+          advertiserId: input.advertiserId,
+          accessToken: token,
           buffer,
           filename,
-        );
+          origin: 'STREAMLINED_CREATOR',
+        });
 
         // ※ bufferはここで参照を切る（GCに任せる）
 
@@ -569,12 +582,13 @@ export class StreamlinedCreatorService {
 
         // 動画アップロード
         currentStep = 'VIDEO_UPLOAD';
-        const videoId = await this.tiktokService.uploadVideoToAccount(
-          input.advertiserId,
-          token,
+        const { mediaId: videoId } = await this.creativeAssets.uploadVideo({
+          advertiserId: input.advertiserId,
+          accessToken: token,
           buffer,
           filename,
-        );
+          origin: 'STREAMLINED_CREATOR',
+        });
 
         // 動画処理待ち
         currentStep = 'VIDEO_PROCESSING';
@@ -723,9 +737,7 @@ export class StreamlinedCreatorService {
   // ========== ヘルパーメソッド ==========
 
   private async getAccessToken(advertiserId: string): Promise<string> {
-    const token = await this.prisma.oAuthToken.findUnique({
-      where: { advertiserId },
-    });
+    const token = await this.tokenVault.findByAdvertiserId(advertiserId);
     if (!token)
       throw new Error(`アクセストークンが見つかりません: ${advertiserId}`);
     return token.accessToken;
@@ -768,7 +780,7 @@ export class StreamlinedCreatorService {
 
   /**
    * 広告名生成: YYMMDD/制作者名/CR名/LP{n}-CR{5桁}
-   * 日付は配信開始日を使用
+   * 日付は配信開始日を使用。ファイル名から取ったCR名で形式が崩れたら出稿しない
    */
   private generateAdName(
     creatorName: string,
@@ -776,9 +788,32 @@ export class StreamlinedCreatorService {
     lpNumber: number,
     crNumber: number,
   ): string {
-    const dateStr = this.getDeliveryDateStr();
-    const crStr = String(crNumber).padStart(5, '0');
-    return `${dateStr}/${creatorName}/${crName}/LP${lpNumber}-CR${crStr}`;
+    const adName = formatAdName({
+      launchDate: this.getDeliveryDateStr(),
+      creator: creatorName,
+      crName,
+      lpNumber,
+      crNumber,
+    });
+    const errors = adNameErrors(adName);
+    if (errors.length > 0) {
+      throw new Error(`広告名が命名規則に合いません: ${errors.join('; ')}`);
+    }
+    return adName;
+  }
+
+  /** 制作者名・CR名は動画のDL前に検証する（広告名の形式が崩れると自動化の対象外になる） */
+  private assertAdNameParts(input: CreateSingleInput | CreateBatchInput) {
+    const errors = adNamePartErrors({
+      creator: input.creatorName ?? null,
+      // 空ならファイル名から取る
+      crName: input.crName || undefined,
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        'Invalid streamlined create: ' + errors.join('; '),
+      );
+    }
   }
 
   /**
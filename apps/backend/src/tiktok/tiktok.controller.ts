@@ -10,7 +10,14 @@ import {
 import type { Response } from 'express';
 import { TiktokService } from './tiktok.service';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  Public,
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
 
+@RequirePermissions(PERMISSIONS.TIKTOK_TOKEN_MANAGE)
 @Controller('auth/tiktok')
 export class TiktokController {
   private readonly logger = new Logger(TiktokController.name);
@@ -24,6 +31,7 @@ export class TiktokController {
    * OAuth認証URL取得
    * GET /auth/tiktok/url
    */
+  @Public()
   @Get('url')
   getAuthUrl() {
     const url = this.tiktokService.getAuthUrl();
@@ -34,6 +42,7 @@ export class TiktokController {
    * OAuth Callback - TikTokからリダイレクトされた際の処理
    * GET /auth/tiktok/callback?auth_code=xxx&state=xxx
    */
+  @Public()
   @Get('callback')
   async handleCallback(
     @Query('auth_code') authCode: string,
@@ -74,6 +83,7 @@ export class TiktokController {
    * POST /auth/tiktok/token
    * Body: { "authCode": "xxx" }
    */
+  @RequireAllAdvertisers()
   @Post('token')
   async getToken(@Body('authCode') authCode: string) {
     this.logger.log(
@@ -103,6 +113,7 @@ export class TiktokController {
    * 既存のアクセストークンから全アカウントを同期
    * POST /auth/tiktok/sync-advertisers
    */
+  @RequireAllAdvertisers()
   @Post('sync-advertisers')
   async syncAdvertisers() {
     this.logger.log('Advertiser sync requested');
@@ -127,6 +138,7 @@ export class TiktokController {
    * POST /auth/tiktok/refresh
    * Body: { "refreshToken": "xxx" }
    */
+  @RequireAllAdvertisers()
   @Post('refresh')
   async refreshToken(@Body('refreshToken') refreshToken: string) {
     this.logger.log('Token refresh requested');
@@ -159,6 +171,7 @@ export class TiktokController {
    * POST /auth/tiktok/advertiser
    * Body: { "accessToken": "xxx" }
    */
+  @RequireAllAdvertisers()
   @Post('advertiser')
   async getAdvertiser(@Body('accessToken') accessToken: string) {
     this.logger.log('Advertiser info request');
@@ -233,6 +246,7 @@ export class TiktokController {
    * POST /auth/tiktok/campaigns
    * Body: { "advertiserId": "xxx", "accessToken": "xxx", "campaignIds": ["id1", "id2"] }
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
   @Post('campaigns')
   async getCampaigns(
     @Body('advertiserId') advertiserId: string,
@@ -272,6 +286,7 @@ export class TiktokController {
    * POST /auth/tiktok/campaign/create
    * Body: { "advertiserId": "xxx", "accessToken": "xxx", "campaignName": "xxx", "objectiveType": "xxx", "budgetMode": "xxx", "budget": 100 }
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_WRITE)
   @Post('campaign/create')
   async createCampaign(
     @Body('advertiserId') advertiserId: string,
@@ -320,6 +335,7 @@ export class TiktokController {
    * POST /auth/tiktok/campaign/update
    * Body: { "advertiserId": "xxx", "accessToken": "xxx", "campaignId": "xxx", "updates": {...} }
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_WRITE)
   @Post('campaign/update')
   async updateCampaign(
     @Body('advertiserId') advertiserId: string,
@@ -367,6 +383,7 @@ export class TiktokController {
    * POST /auth/tiktok/report
    * Body: { "advertiserId": "xxx", "accessToken": "xxx", "dataLevel": "AUCTION_CAMPAIGN", "startDate": "2025-01-01", "endDate": "2025-01-31" }
    */
+  @RequirePermissions(PERMISSIONS.REPORT_READ)
   @Post('report')
   async getReport(
     @Body('advertiserId') advertiserId: string,
@@ -426,6 +443,7 @@ export class TiktokController {
    * POST /auth/tiktok/report/fetch-and-save
    * Body: { "advertiserId": "xxx", "accessToken": "xxx", "dataLevel": "AUCTION_CAMPAIGN", "startDate": "2025-01-01", "endDate": "2025-01-31" }
    */
+  @RequirePermissions(PERMISSIONS.JOBS_RUN)
   @Post('report/fetch-and-save')
   async fetchAndSaveReport(
     @Body('advertiserId') advertiserId: string,
@@ -488,6 +506,7 @@ export class TiktokController {
    * Smart+広告の同期状況を確認
    * GET /auth/tiktok/verify-smart-plus?advertiserId=7543540647266074641
    */
+  @RequirePermissions(PERMISSIONS.CAMPAIGN_READ)
   @Get('verify-smart-plus')
   async verifySmartPlusSync(@Query('advertiserId') advertiserId: string) {
     this.logger.log(
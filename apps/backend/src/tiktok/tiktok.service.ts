@@ -3,7 +3,12 @@ import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import FormData from 'form-data';
 import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import { ApiLogService } from '../api-log/api-log.service';
+import { attachApiLogInterceptors } from '../api-log/infrastructure/axios-api-log.interceptor';
 import {
   withRetry,
   isTikTokErrorRetryable,
@@ -11,6 +16,8 @@ import {
   logTikTokError,
   TikTokErrorType,
 } from '../common/utils';
+import { metricEntityKey } from '../metric-integrity/domain/metric-integrity';
+import { isCreativeFileName, parseAdName } from '../ad-naming/domain/ad-name';
 
 /**
  * 日付文字列をUTC 00:00:00の日付に変換するヘルパー関数
@@ -55,6 +62,8 @@ export class TiktokService {
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private tokenVault: TokenVaultService,
+    private apiLog: ApiLogService,
   ) {
     this.appId = this.configService.get<string>('TIKTOK_APP_ID') || '';
     this.appSecret = this.configService.get<string>('TIKTOK_APP_SECRET') || '';
@@ -69,6 +78,7 @@ export class TiktokService {
         'Content-Type': 'application/json',
       },
     });
+    attachApiLogInterceptors(this.httpClient, this.apiLog, 'tiktok');
   }
 
   // ============================================================================
@@ -251,22 +261,12 @@ export class TiktokService {
           },
         });
 
-        // 次にOAuthTokenを保存
-        await this.prisma.oAuthToken.upsert({
-          where: { advertiserId },
-          create: {
-            advertiserId,
-            accessToken,
-            refreshToken: refreshToken || null,
-            expiresAt,
-            scope: scopeStr,
-          },
-          update: {
-            accessToken,
-            refreshToken: refreshToken || undefined,
-            expiresAt,
-            scope: scopeStr,
-          },
+        // 次にOAuthTokenを暗号化して保存
+        await this.tokenVault.saveToken(advertiserId, {
+          accessToken,
+          refreshToken: refreshToken || undefined,
+          expiresAt,
+          scope: scopeStr,
         });
 
         this.logger.log(`Token saved for advertiser: ${advertiserId}`);
@@ -371,16 +371,7 @@ export class TiktokService {
       );
 
       // DBから有効なOAuthTokenを1つ取得
-      const existingToken = await this.prisma.oAuthToken.findFirst({
-        where: {
-          expiresAt: {
-            gt: new Date(),
-          },
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-      });
+      const existingToken = await this.tokenVault.findAnyActive();
 
       if (!existingToken) {
         throw new Error('No valid OAuth token found in database');
@@ -430,21 +421,11 @@ export class TiktokService {
         });
 
         // OAuthTokenを作成/更新
-        await this.prisma.oAuthToken.upsert({
-          where: { advertiserId },
-          create: {
-            advertiserId,
-            accessToken: existingToken.accessToken,
-            refreshToken: existingToken.refreshToken,
-            scope: existingToken.scope,
-            expiresAt,
-          },
-          update: {
-            accessToken: existingToken.accessToken,
-            refreshToken: existingToken.refreshToken,
-            scope: existingToken.scope,
-            expiresAt,
-          },
+        await this.tokenVault.saveToken(advertiserId, {
+          accessToken: existingToken.accessToken,
+          refreshToken: existingToken.refreshToken,
+          scope: existingToken.scope,
+          expiresAt,
         });
 
         this.logger.log(
@@ -802,6 +783,8 @@ export class TiktokService {
     updates: {
       budget?: number;
       status?: string;
+      /** 配信時間帯（30分刻み×7日の336文字） */
+      dayparting?: string;
     },
   ) {
     try {
@@ -820,6 +803,10 @@ export class TiktokService {
         requestBody.operation_status = updates.status;
       }
 
+      if (updates.dayparting) {
+        requestBody.dayparting = updates.dayparting;
+      }
+
       const response = await this.httpClient.post(
         '/v1.2/adgroup/update/',
         requestBody,
@@ -1096,6 +1083,8 @@ export class TiktokService {
     adgroupId: string,
     updates: {
       status?: string;
+      /** 広告名の変更（省略時は現在の広告名のまま） */
+      adName?: string;
     },
   ) {
     try {
@@ -1156,6 +1145,15 @@ export class TiktokService {
         requestBody.operation_status = updates.status;
       }
 
+      // 広告名の変更（creatives 側の ad_name も揃える）
+      if (updates.adName) {
+        requestBody.ad_name = updates.adName;
+        requestBody.creatives = requestBody.creatives?.map((creative: any) => ({
+          ...creative,
+          ad_name: updates.adName,
+        }));
+      }
+
       this.logger.log(
         `Request body for ad update: ${JSON.stringify(requestBody)}`,
       );
@@ -1875,7 +1873,7 @@ export class TiktokService {
             continue;
           }
 
-          // メトリクスを保存（ADレベル）- 重複を防ぐため既存レコードを削除してから作成
+          // メトリクスを保存（ADレベル）- 同じ広告・日の行は上書き
           const metricData = {
             entityType: 'AD',
             adId: ad.id,
@@ -1898,22 +1896,7 @@ export class TiktokService {
             `Parsed metric data: ${JSON.stringify(metricData)}`,
           );
 
-          // トランザクションで削除と作成を実行（データ消失防止）
-          await this.prisma.$transaction(async (tx) => {
-            // 既存のメトリクスを削除（重複防止）
-            await tx.metric.deleteMany({
-              where: {
-                entityType: 'AD',
-                adId: ad.id,
-                statDate: statDate,
-              },
-            });
-
-            // 新しいメトリクスを作成
-            await tx.metric.create({
-              data: metricData,
-            });
-          });
+          await this.upsertMetric(metricData);
           this.logger.debug(`Saved metric for ad ${adId}`);
         } else if (dataLevel === 'AUCTION_ADGROUP') {
           // ADGROUPレベルのメトリクス
@@ -1934,7 +1917,7 @@ export class TiktokService {
             continue;
           }
 
-          // メトリクスを保存（ADGROUPレベル）- 重複を防ぐため既存レコードを削除してから作成
+          // メトリクスを保存（ADGROUPレベル）- 同じ広告セット・日の行は上書き
           const metricData = {
             entityType: 'ADGROUP',
             adgroupId: adgroup.id,
@@ -1949,22 +1932,7 @@ export class TiktokService {
             cpa: parseFloat(metrics.cost_per_conversion || '0'),
           };
 
-          // トランザクションで削除と作成を実行（データ消失防止）
-          await this.prisma.$transaction(async (tx) => {
-            // 既存のメトリクスを削除（重複防止）
-            await tx.metric.deleteMany({
-              where: {
-                entityType: 'ADGROUP',
-                adgroupId: adgroup.id,
-                statDate: statDate,
-              },
-            });
-
-            // 新しいメトリクスを作成
-            await tx.metric.create({
-              data: metricData,
-            });
-          });
+          await this.upsertMetric(metricData);
         } else if (dataLevel === 'AUCTION_CAMPAIGN') {
           // CAMPAIGNレベルのメトリクス
           const campaignId =
@@ -1992,7 +1960,7 @@ export class TiktokService {
             continue;
           }
 
-          // メトリクスを保存（CAMPAIGNレベル）- 重複を防ぐため既存レコードを削除してから作成
+          // メトリクスを保存（CAMPAIGNレベル）- 同じキャンペーン・日・登録経路の行は上書き
           // 基本メトリクスデータ
           const metricData: any = {
             entityType: 'CAMPAIGN',
@@ -2024,28 +1992,25 @@ export class TiktokService {
               // 全広告がCR名（拡張子含む）かどうかをチェック
               const allAdsHaveCreativeNames =
                 campaignAds.length > 0 &&
-                campaignAds.every((ad) => this.isCreativeName(ad.name));
+                campaignAds.every((ad) => isCreativeFileName(ad.name));
 
               // 手動広告名を持つ広告が1つでもあれば通常キャンペーン
               const hasManualAdNames = campaignAds.some(
                 (ad) =>
                   ad.name &&
                   ad.name.trim() !== '' &&
-                  !this.isCreativeName(ad.name),
+                  !isCreativeFileName(ad.name),
               );
 
               // 旧スマプラ判定: 全広告がCR名 かつ 手動広告名がない
               if (allAdsHaveCreativeNames && !hasManualAdNames) {
-                // キャンペーン名をパース
-                const parsedName = this.parseAdName(campaign.name);
-
-                if (parsedName) {
-                  // 登録経路を生成
-                  const registrationPath = this.generateRegistrationPath(
-                    parsedName.lpName,
-                    campaign.advertiser.appeal.name,
-                  );
+                // キャンペーン名をパースして登録経路を生成
+                const registrationPath = parseAdName(
+                  campaign.name,
+                  campaign.advertiser.appeal.name,
+                )?.registrationPath;
 
+                if (registrationPath) {
                   metricData.registrationPath = registrationPath;
 
                   this.logger.log(
@@ -2061,22 +2026,7 @@ export class TiktokService {
             }
           }
 
-          // トランザクションで削除と作成を実行（データ消失防止）
-          await this.prisma.$transaction(async (tx) => {
-            // 既存のメトリクスを削除（重複防止）
-            await tx.metric.deleteMany({
-              where: {
-                entityType: 'CAMPAIGN',
-                campaignId: campaign.id,
-                statDate: statDate,
-              },
-            });
-
-            // 新しいメトリクスを作成
-            await tx.metric.create({
-              data: metricData,
-            });
-          });
+          await this.upsertMetric(metricData);
         }
       }
 
@@ -2092,6 +2042,37 @@ export class TiktokService {
     }
   }
 
+  /**
+   * メトリクスを1行保存する（同じエンティティ・日・登録経路の行は上書き）
+   * 一意キー（entityKey, statDate）で upsert し、同じエンティティ・日の古い行
+   * （一意キー導入前のキー未設定の行・登録経路が変わった行）は置き換える
+   */
+  private async upsertMetric(data: Prisma.MetricUncheckedCreateInput) {
+    const entityKey = metricEntityKey(data);
+    if (!entityKey) {
+      throw new Error(`Metric has no entity id: ${data.entityType}`);
+    }
+    await this.prisma.$transaction(async (tx) => {
+      await tx.metric.deleteMany({
+        where: {
+          entityType: data.entityType,
+          campaignId: data.campaignId ?? undefined,
+          adgroupId: data.adgroupId ?? undefined,
+          adId: data.adId ?? undefined,
+          statDate: data.statDate,
+          OR: [{ entityKey: null }, { entityKey: { not: entityKey } }],
+        },
+      });
+      await tx.metric.upsert({
+        where: {
+          metric_entity_day: { entityKey, statDate: data.statDate },
+        },
+        create: { ...data, entityKey },
+        update: { ...data, entityKey },
+      });
+    });
+  }
+
   /**
    * Pixel一覧を取得
    * GET /v1.3/pixel/list/
@@ -2313,83 +2294,6 @@ export class TiktokService {
     }
   }
 
-  // ============================================================================
-  // 旧スマートプラスキャンペーン判定用のヘルパー関数
-  // ============================================================================
-
-  /**
-   * 広告名がクリエイティブ名（拡張子含む）かどうかを判定
-   * @param adName 広告名
-   * @returns CR名の場合true
-   */
-  private isCreativeName(adName: string | null | undefined): boolean {
-    if (!adName) return false;
-
-    const videoExtensions = ['.mp4', '.MP4', '.mov', '.MOV', '.avi', '.AVI'];
-    const imageExtensions = [
-      '.jpg',
-      '.JPG',
-      '.jpeg',
-      '.JPEG',
-      '.png',
-      '.PNG',
-      '.gif',
-      '.GIF',
-    ];
-    const allExtensions = [...videoExtensions, ...imageExtensions];
-
-    return allExtensions.some((ext) => adName.includes(ext));
-  }
-
-  /**
-   * 広告名/キャンペーン名をパース
-   * 形式: 出稿日/制作者名/CR名/LP名-番号
-   * @param name 広告名またはキャンペーン名
-   * @returns パース結果（失敗時はnull）
-   */
-  private parseAdName(name: string): {
-    date: string;
-    creator: string;
-    creativeName: string;
-    lpName: string;
-  } | null {
-    const parts = name.split('/');
-
-    // 最低4パート必要（出稿日/制作者名/CR名/LP名）
-    if (parts.length < 4) {
-      return null;
-    }
-
-    // 最初のパート: 出稿日
-    const date = parts[0];
-
-    // 2番目のパート: 制作者名
-    const creator = parts[1];
-
-    // 最後のパート: LP名-番号
-    const lpName = parts[parts.length - 1];
-
-    // 3番目から最後の手前まで: CR名（複数パートの場合は "/" で結合）
-    const creativeName = parts.slice(2, parts.length - 1).join('/');
-
-    return {
-      date,
-      creator,
-      creativeName,
-      lpName,
-    };
-  }
-
-  /**
-   * 登録経路を生成
-   * @param lpName LP名-番号
-   * @param appealName 訴求名
-   * @returns 登録経路（形式: TikTok広告-訴求-LP名および番号）
-   */
-  private generateRegistrationPath(lpName: string, appealName: string): string {
-    return `TikTok広告-${appealName}-${lpName}`;
-  }
-
   /**
    * Smart+広告のメトリクスを取得
    * GET /v1.3/smart_plus/material_report/overview/
@@ -2561,8 +2465,13 @@ export class TiktokService {
   /**
    * Smart+広告のメトリクスをDBに保存
    * Smart+のAPIはクリエイティブごとにメトリクスを返すため、広告IDごとに集計してから保存
+   * @param statDateString 統計日（YYYY-MM-DD。省略時は昨日）
    */
-  async saveSmartPlusMetrics(metricsData: any[], advertiserId: string) {
+  async saveSmartPlusMetrics(
+    metricsData: any[],
+    advertiserId: string,
+    statDateString?: string,
+  ) {
     try {
       this.logger.log(
         `Processing ${metricsData.length} Smart+ ad metric records`,
@@ -2636,8 +2545,11 @@ export class TiktokService {
 
       this.logger.log(`Aggregated metrics for ${adMetricsMap.size} Smart+ ads`);
 
-      // ステップ2: 統計日時を計算（昨日）- JST基準でUTC 00:00:00形式
-      const yesterday = getYesterdayJST();
+      // ステップ2: 統計日時を計算（指定がなければ昨日）- JST基準でUTC 00:00:00形式
+      // 取得期間は statDate の1日だけにすること（期間合計が1行に潰れる）
+      const yesterday = statDateString
+        ? parseStatDate(statDateString)
+        : getYesterdayJST();
 
       // ステップ3: 各広告の集計メトリクスをDBに保存
       let savedCount = 0;
@@ -2689,21 +2601,7 @@ export class TiktokService {
           videoWatched6s: aggregated.videoWatched6s,
         };
 
-        // トランザクションで削除と作成を実行（データ消失防止）
-        await this.prisma.$transaction(async (tx) => {
-          // 既存のメトリクスを削除してから新しいデータを挿入（上書き）
-          await tx.metric.deleteMany({
-            where: {
-              entityType: 'AD',
-              adId: ad.id,
-              statDate: yesterday,
-            },
-          });
-
-          await tx.metric.create({
-            data: metricData,
-          });
-        });
+        await this.upsertMetric(metricData);
 
         this.logger.debug(
           `Saved aggregated metrics for Smart+ ad ${smartPlusAdId} (${aggregated.creativeCount} creatives)`,
@@ -2873,6 +2771,60 @@ export class TiktokService {
     }
   }
 
+  /**
+   * Upgraded Smart+ 広告グループの配信時間帯を更新
+   * POST /v1.3/smart_plus/adgroup/update/
+   *
+   * @param advertiserId 広告主ID
+   * @param accessToken アクセストークン
+   * @param adgroupId 広告グループID
+   * @param dayparting 配信時間帯（30分刻み×7日の336文字）
+   */
+  async updateSmartPlusAdGroupDayparting(
+    advertiserId: string,
+    accessToken: string,
+    adgroupId: string,
+    dayparting: string,
+  ) {
+    try {
+      this.logger.log(`Updating Smart+ adgroup dayparting: ${adgroupId}`);
+
+      const response = await this.httpPostWithRetry(
+        '/v1.3/smart_plus/adgroup/update/',
+        {
+          advertiser_id: advertiserId,
+          adgroup_id: adgroupId,
+          dayparting,
+        },
+        {
+          headers: {
+            'Access-Token': accessToken,
+            'Content-Type': 'application/json',
+          },
+        },
+        'updateSmartPlusAdGroupDayparting',
+      );
+
+      if (response.data.code !== 0) {
+        const error = new Error(`TikTok API error: ${response.data.message}`);
+        this.logger.error(
+          'Failed to update Smart+ adgroup dayparting',
+          response.data,
+        );
+        throw error;
+      }
+
+      this.logger.log('Smart+ adgroup dayparting updated successfully');
+      return response.data;
+    } catch (error) {
+      this.logger.error(
+        'Failed to update Smart+ adgroup dayparting',
+        error.response?.data || error.message,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Upgraded Smart+ キャンペーンの予算を更新
    * POST /v1.3/smart_plus/campaign/update/
@@ -3478,8 +3430,6 @@ export class TiktokService {
     try {
       this.logger.log(`Smart+キャンペーン作成: ${params.campaignName}`);
 
-      const { v4: uuidv4 } = await import('uuid');
-
       const requestBody = {
         advertiser_id: advertiserId,
         campaign_name: params.campaignName,
@@ -3533,6 +3483,8 @@ export class TiktokService {
       scheduleStartTime?: string;
       deepExternalAction?: string;
       deepFunnelOptimizationEvent?: string;
+      ageGroups?: string[];
+      excludedAudienceIds?: string[];
     },
   ): Promise<string> {
     try {
@@ -3569,6 +3521,10 @@ export class TiktokService {
         targeting_optimization_mode: 'MANUAL',
         targeting_spec: {
           location_ids: ['1861060'], // 日本
+          ...(params.ageGroups?.length ? { age_groups: params.ageGroups } : {}),
+          ...(params.excludedAudienceIds?.length
+            ? { excluded_audience_ids: params.excludedAudienceIds }
+            : {}),
         },
         promotion_type: 'LEAD_GENERATION',
         promotion_target_type: 'EXTERNAL_WEBSITE',
@@ -0,0 +1,75 @@
+import {
+  DEFAULT_REFRESH_POLICY,
+  isLosingAccess,
+  refreshHorizon,
+  shouldRefresh,
+} from './refresh-policy';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+const hoursLater = (hours: number) =>
+  new Date(NOW.getTime() + hours * 60 * 60 * 1000);
+
+describe('RefreshPolicy', () => {
+  it('期限の72時間前からリフレッシュ対象', () => {
+    expect(refreshHorizon(NOW, DEFAULT_REFRESH_POLICY)).toEqual(hoursLater(72));
+    const state = { hasRefreshToken: true, refreshFailureCount: 0 };
+    expect(shouldRefresh({ ...state, expiresAt: hoursLater(72) }, NOW)).toBe(
+      true,
+    );
+    expect(shouldRefresh({ ...state, expiresAt: hoursLater(73) }, NOW)).toBe(
+      false,
+    );
+  });
+
+  it('リフレッシュトークンがなければリフレッシュしない', () => {
+    expect(
+      shouldRefresh(
+        {
+          expiresAt: hoursLater(1),
+          hasRefreshToken: false,
+          refreshFailureCount: 0,
+        },
+        NOW,
+      ),
+    ).toBe(false);
+  });
+
+  describe('isLosingAccess', () => {
+    it('期限24時間以内でリフレッシュ失敗中ならCRITICAL', () => {
+      const state = {
+        expiresAt: hoursLater(20),
+        hasRefreshToken: true,
+        refreshFailureCount: 1,
+      };
+      expect(isLosingAccess(state, NOW)).toBe(true);
+      expect(isLosingAccess({ ...state, refreshFailureCount: 0 }, NOW)).toBe(
+        false,
+      );
+    });
+
+    it('期限に余裕があっても連続失敗が上限に達したらCRITICAL', () => {
+      const state = {
+        expiresAt: hoursLater(60),
+        hasRefreshToken: true,
+        refreshFailureCount: 2,
+      };
+      expect(isLosingAccess(state, NOW)).toBe(false);
+      expect(isLosingAccess({ ...state, refreshFailureCount: 3 }, NOW)).toBe(
+        true,
+      );
+    });
+
+    it('リフレッシュトークンがなく期限が迫っていればCRITICAL', () => {
+      const state = {
+        hasRefreshToken: false,
+        refreshFailureCount: 0,
+      };
+      expect(isLosingAccess({ ...state, expiresAt: hoursLater(-1) }, NOW)).toBe(
+        true,
+      );
+      expect(isLosingAccess({ ...state, expiresAt: hoursLater(48) }, NOW)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// ============================================================================
+// トークン自動リフレッシュ - 判定ロジック（純粋関数）
+// ============================================================================
+
+export interface RefreshPolicy {
+  /** 期限のこの時間前からリフレッシュを試みる */
+  refreshBeforeHours: number;
+  /** 期限までこの時間を切ってもリフレッシュできていなければCRITICAL */
+  criticalBeforeHours: number;
+  /** 連続失敗がこの回数に達したら期限に関係なくCRITICAL */
+  maxConsecutiveFailures: number;
+}
+
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  refreshBeforeHours: 72,
+  criticalBeforeHours: 24,
+  maxConsecutiveFailures: 3,
+};
+
+export interface TokenRefreshState {
+  expiresAt: Date;
+  hasRefreshToken: boolean;
+  refreshFailureCount: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function hoursUntilExpiry(expiresAt: Date, now: Date): number {
+  return (expiresAt.getTime() - now.getTime()) / HOUR_MS;
+}
+
+/** リフレッシュ対象の期限の上限（これ以前に期限を迎えるトークンが対象） */
+export function refreshHorizon(now: Date, policy: RefreshPolicy): Date {
+  return new Date(now.getTime() + policy.refreshBeforeHours * HOUR_MS);
+}
+
+export function shouldRefresh(
+  state: TokenRefreshState,
+  now: Date,
+  policy: RefreshPolicy = DEFAULT_REFRESH_POLICY,
+): boolean {
+  return (
+    state.hasRefreshToken &&
+    hoursUntilExpiry(state.expiresAt, now) <= policy.refreshBeforeHours
+  );
+}
+
+/**
+ * リフレッシュ試行後の状態から、広告アカウントがアクセスを失いそうかを判定
+ * - リフレッシュトークンがなく、期限が迫っている / 切れている
+ * - 期限が迫っているのにリフレッシュに失敗している
+ * - 連続失敗が上限に達している
+ */
+export function isLosingAccess(
+  state: TokenRefreshState,
+  now: Date,
+  policy: RefreshPolicy = DEFAULT_REFRESH_POLICY,
+): boolean {
+  const nearExpiry =
+    hoursUntilExpiry(state.expiresAt, now) <= policy.criticalBeforeHours;
+
+  if (!state.hasRefreshToken) return nearExpiry;
+  if (state.refreshFailureCount >= policy.maxConsecutiveFailures) return true;
+  return nearExpiry && state.refreshFailureCount > 0;
+}
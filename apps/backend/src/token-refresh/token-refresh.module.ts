@@ -0,0 +1,16 @@
+// ============================================================================
+// TokenRefreshModule - OAuthTokenの自動リフレッシュ
+// TokenVaultModule（グローバル）と TiktokModule の循環を避けるため別モジュール
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { TokenRefreshService } from './token-refresh.service';
+import { TiktokModule } from '../tiktok/tiktok.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [TiktokModule, NotificationModule],
+  providers: [TokenRefreshService],
+  exports: [TokenRefreshService],
+})
+export class TokenRefreshModule {}
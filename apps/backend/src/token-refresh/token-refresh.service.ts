@@ -0,0 +1,175 @@
+// ============================================================================
+// TokenRefreshService - OAuthTokenの期限前自動リフレッシュ
+// 失敗は oauth_tokens に記録し、アクセスを失いそうな広告アカウントには
+// CRITICAL通知を作成する
+// ============================================================================
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { TiktokService } from '../tiktok/tiktok.service';
+import { NotificationService } from '../notification/notification.service';
+import { TokenVaultService } from '../token-vault/token-vault.service';
+import type { VaultToken } from '../token-vault/token-vault.service';
+import { JobQueueService } from '../job-queue/job-queue.service';
+import type { JobRunContext } from '../job-queue/job-run-context';
+import {
+  DEFAULT_REFRESH_POLICY,
+  isLosingAccess,
+  refreshHorizon,
+  shouldRefresh,
+} from './domain/refresh-policy';
+import type { TokenRefreshState } from './domain/refresh-policy';
+
+export interface TokenRefreshResult {
+  checked: number;
+  refreshed: string[];
+  failed: { advertiserId: string; error: string }[];
+  atRisk: string[];
+}
+
+@Injectable()
+export class TokenRefreshService {
+  private readonly logger = new Logger(TokenRefreshService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tiktokService: TiktokService,
+    private readonly notificationService: NotificationService,
+    private readonly tokenVault: TokenVaultService,
+    private readonly jobQueue: JobQueueService,
+  ) {}
+
+  /**
+   * 毎時30分（日本時間）に期限の近いトークンをリフレッシュ
+   */
+  @Cron('30 * * * *', {
+    name: 'oauth-token-refresh',
+    timeZone: 'Asia/Tokyo',
+  })
+  async scheduleTokenRefresh() {
+    const outcome = await this.jobQueue.run('oauth-token-refresh', (run) =>
+      this.refreshExpiringTokens(new Date(), run),
+    );
+    if (outcome.status === 'SKIPPED') {
+      this.logger.warn('[TOKEN] Previous refresh job is still running');
+    }
+  }
+
+  /**
+   * @param run ジョブキューから実行する場合の実行コンテキスト（リフレッシュの成否を広告アカウント別に記録）
+   */
+  async refreshExpiringTokens(
+    now: Date = new Date(),
+    run?: JobRunContext,
+  ): Promise<TokenRefreshResult> {
+    const policy = DEFAULT_REFRESH_POLICY;
+    const tokens = await this.tokenVault.findExpiringBefore(
+      refreshHorizon(now, policy),
+    );
+    const result: TokenRefreshResult = {
+      checked: tokens.length,
+      refreshed: [],
+      failed: [],
+      atRisk: [],
+    };
+
+    for (const token of tokens) {
+      const state: TokenRefreshState = {
+        expiresAt: token.expiresAt,
+        hasRefreshToken: !!token.refreshToken,
+        refreshFailureCount: token.refreshFailureCount,
+      };
+      let lastError = token.lastRefreshError;
+
+      if (shouldRefresh(state, now, policy)) {
+        try {
+          await this.refreshToken(token, now);
+          result.refreshed.push(token.advertiserId);
+          await run?.recordAdvertiser(token.advertiserId, 'SUCCEEDED');
+          continue;
+        } catch (error) {
+          lastError = error.message;
+          state.refreshFailureCount++;
+          result.failed.push({
+            advertiserId: token.advertiserId,
+            error: error.message,
+          });
+          this.logger.error(
+            `[TOKEN] Refresh failed for ${token.advertiserId}: ${error.message}`,
+          );
+          await this.tokenVault.recordRefreshFailure(
+            token.advertiserId,
+            error.message,
+            now,
+          );
+          await run?.recordAdvertiser(token.advertiserId, 'FAILED', {
+            error: error.message,
+          });
+        }
+      }
+
+      if (isLosingAccess(state, now, policy)) {
+        result.atRisk.push(token.advertiserId);
+        await this.notifyLosingAccess(token, state, lastError);
+      }
+    }
+
+    this.logger.log(
+      `[TOKEN] checked=${result.checked} refreshed=${result.refreshed.length} failed=${result.failed.length} atRisk=${result.atRisk.length}`,
+    );
+    return result;
+  }
+
+  private async refreshToken(token: VaultToken, now: Date): Promise<void> {
+    const response = await this.tiktokService.refreshAccessToken(
+      token.refreshToken!,
+    );
+    if (response?.code !== 0 || !response.data?.access_token) {
+      throw new Error(
+        `TikTok API error: code=${response?.code}, message=${response?.message}`,
+      );
+    }
+
+    const data = response.data;
+    // 有効期限が読めない応答で保存すると期限が不正になり、以後リフレッシュされなくなる
+    const expiresIn = Number(data.access_token_expire_in);
+    if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+      throw new Error(
+        `TikTok API error: invalid access_token_expire_in=${data.access_token_expire_in}`,
+      );
+    }
+
+    await this.tokenVault.recordRefreshSuccess(
+      token.advertiserId,
+      {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token ?? undefined,
+        expiresAt: new Date(now.getTime() + expiresIn * 1000),
+      },
+      now,
+    );
+    this.logger.log(`[TOKEN] Refreshed token for ${token.advertiserId}`);
+  }
+
+  private async notifyLosingAccess(
+    token: VaultToken,
+    state: TokenRefreshState,
+    lastError: string | null,
+  ): Promise<void> {
+    const advertiser = await this.prisma.advertiser.findUnique({
+      where: { tiktokAdvertiserId: token.advertiserId },
+      select: { id: true, name: true },
+    });
+    if (!advertiser) return;
+
+    await this.notificationService.createTokenExpiringNotification(
+      advertiser.id,
+      token.advertiserId,
+      advertiser.name,
+      token.expiresAt,
+      state.refreshFailureCount,
+      lastError,
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  TokenDecryptionError,
+  isSealed,
+  openToken,
+  sealToken,
+} from './envelope-encryption';
+import { LocalKeyProvider } from '../infrastructure/local-key-provider';
+
+const provider = new LocalKeyProvider('test-encryption-key-32-characters');
+
+describe('EnvelopeEncryption', () => {
+  it('暗号化したトークンを復号できる', async () => {
+    const sealed = await sealToken('act.abcdef123456', provider);
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain('act.abcdef123456');
+    expect(sealed.split(':')[2]).toBe(provider.keyId);
+    await expect(openToken(sealed, provider)).resolves.toBe('act.abcdef123456');
+  });
+
+  it('同じ平文でもデータキーが毎回異なる', async () => {
+    const a = await sealToken('same-token', provider);
+    const b = await sealToken('same-token', provider);
+    expect(a).not.toBe(b);
+  });
+
+  it('移行前の平文はそのまま返す', async () => {
+    await expect(openToken('plain-access-token', provider)).resolves.toBe(
+      'plain-access-token',
+    );
+  });
+
+  it('別の鍵で暗号化されたトークンはエラー', async () => {
+    const sealed = await sealToken('token', provider);
+    const other = new LocalKeyProvider('another-encryption-key-32-chars!!');
+    await expect(openToken(sealed, other)).rejects.toThrow(
+      TokenDecryptionError,
+    );
+  });
+
+  it('暗号文を改ざんするとエラー', async () => {
+    const sealed = await sealToken('token', provider);
+    const parts = sealed.split(':');
+    parts[6] = Buffer.from('forged').toString('base64url');
+    await expect(openToken(parts.join(':'), provider)).rejects.toThrow(
+      'Authentication tag mismatch',
+    );
+  });
+
+  it('形式不正はエラー', async () => {
+    await expect(openToken('enc:v1:broken', provider)).rejects.toThrow(
+      'Malformed sealed token',
+    );
+  });
+});
+
+describe('LocalKeyProvider', () => {
+  it('ENCRYPTION_KEY未設定なら暗号化時にエラー', async () => {
+    await expect(
+      sealToken('token', new LocalKeyProvider(undefined)),
+    ).rejects.toThrow('ENCRYPTION_KEY is not configured');
+  });
+});
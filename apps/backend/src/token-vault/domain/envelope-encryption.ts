@@ -0,0 +1,103 @@
+// ============================================================================
+// トークン保管庫 - エンベロープ暗号化（純粋関数）
+// トークンごとにランダムなデータキー（AES-256-GCM）で暗号化し、
+// データキーは KeyProvider で包んで同じ文字列に格納する
+//
+// 保存形式: enc:v1:<keyId>:<wrappedKey>:<iv>:<tag>:<ciphertext>（各要素 base64url）
+// "enc:" で始まらない値は暗号化前の平文（移行前のレコード）として扱う
+// ============================================================================
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { KeyProvider } from './ports';
+
+const PREFIX = 'enc';
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const DATA_KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export class TokenDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenDecryptionError';
+  }
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/** AES-256-GCM で暗号化し iv / tag / ciphertext を返す */
+export function encryptWithKey(
+  plaintext: string,
+  key: Buffer,
+): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+export function decryptWithKey(
+  parts: { iv: Buffer; tag: Buffer; ciphertext: Buffer },
+  key: Buffer,
+): string {
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, parts.iv);
+    decipher.setAuthTag(parts.tag);
+    return Buffer.concat([
+      decipher.update(parts.ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new TokenDecryptionError('Authentication tag mismatch');
+  }
+}
+
+export async function sealToken(
+  plaintext: string,
+  keyProvider: KeyProvider,
+): Promise<string> {
+  const dataKey = randomBytes(DATA_KEY_BYTES);
+  const { iv, tag, ciphertext } = encryptWithKey(plaintext, dataKey);
+  const wrappedKey = await keyProvider.wrapKey(dataKey);
+  return [
+    PREFIX,
+    VERSION,
+    keyProvider.keyId,
+    wrappedKey,
+    iv.toString('base64url'),
+    tag.toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join(':');
+}
+
+/** 暗号化済みなら復号し、平文（移行前）ならそのまま返す */
+export async function openToken(
+  stored: string,
+  keyProvider: KeyProvider,
+): Promise<string> {
+  if (!isSealed(stored)) return stored;
+
+  const parts = stored.split(':');
+  if (parts.length !== 7) {
+    throw new TokenDecryptionError('Malformed sealed token');
+  }
+  const [, version, keyId, wrappedKey, iv, tag, ciphertext] = parts;
+  if (version !== VERSION) {
+    throw new TokenDecryptionError(`Unsupported version: ${version}`);
+  }
+
+  const dataKey = await keyProvider.unwrapKey(wrappedKey, keyId);
+  return decryptWithKey(
+    {
+      iv: Buffer.from(iv, 'base64url'),
+      tag: Buffer.from(tag, 'base64url'),
+      ciphertext: Buffer.from(ciphertext, 'base64url'),
+    },
+    dataKey,
+  );
+}
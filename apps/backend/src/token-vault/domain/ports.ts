@@ -0,0 +1,15 @@
+// ============================================================================
+// トークン保管庫 - ポート定義
+// データキーを包む鍵（KEK）の実装をDIで差し替えられるようにする（ローカル / KMS）
+// ============================================================================
+
+export interface KeyProvider {
+  /** 現在の暗号化に使う鍵ID（保存値に埋め込まれ、復号時の鍵選択に使う） */
+  readonly keyId: string;
+  /** データキーを包む（戻り値は保存値に埋め込める base64url 文字列） */
+  wrapKey(dataKey: Buffer): Promise<string>;
+  /** 包んだデータキーを戻す。keyId が扱えない鍵ならエラー */
+  unwrapKey(wrappedKey: string, keyId: string): Promise<Buffer>;
+}
+
+export const KEY_PROVIDER = Symbol('KEY_PROVIDER');
@@ -0,0 +1,69 @@
+// ============================================================================
+// LocalKeyProvider - ENCRYPTION_KEY から導出した鍵でデータキーを包む（開発・単一環境用）
+// 本番でKMSを使う場合は KEY_PROVIDER を差し替える
+// ============================================================================
+
+import { createHash } from 'crypto';
+import type { KeyProvider } from '../domain/ports';
+import {
+  TokenDecryptionError,
+  decryptWithKey,
+  encryptWithKey,
+} from '../domain/envelope-encryption';
+
+export class LocalKeyProvider implements KeyProvider {
+  private readonly keyEncryptionKey: Buffer | null;
+  private readonly fingerprint: string | null;
+
+  /** secret 未設定でも起動は妨げず、暗号化・復号の時点でエラーにする */
+  constructor(secret: string | undefined) {
+    this.keyEncryptionKey = secret
+      ? createHash('sha256').update(secret).digest()
+      : null;
+    // 鍵そのものは出さず、指紋だけを鍵IDにする（鍵の取り違えを検知するため）
+    this.fingerprint = this.keyEncryptionKey
+      ? createHash('sha256')
+          .update(this.keyEncryptionKey)
+          .digest('hex')
+          .slice(0, 12)
+      : null;
+  }
+
+  get keyId(): string {
+    return `local-${this.fingerprint ?? 'unconfigured'}`;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<string> {
+    const { iv, tag, ciphertext } = encryptWithKey(
+      dataKey.toString('base64'),
+      this.requireKey(),
+    );
+    return Buffer.concat([iv, tag, ciphertext]).toString('base64url');
+  }
+
+  async unwrapKey(wrappedKey: string, keyId: string): Promise<Buffer> {
+    const key = this.requireKey();
+    if (keyId !== this.keyId) {
+      throw new TokenDecryptionError(
+        `Token was sealed with key ${keyId}, but current key is ${this.keyId}`,
+      );
+    }
+    const raw = Buffer.from(wrappedKey, 'base64url');
+    const dataKey = decryptWithKey(
+      {
+        iv: raw.subarray(0, 12),
+        tag: raw.subarray(12, 28),
+        ciphertext: raw.subarray(28),
+      },
+      key,
+    );
+    return Buffer.from(dataKey, 'base64');
+  }
+
+  private requireKey(): Buffer {
+    if (!this.keyEncryptionKey) {
+      throw new Error('ENCRYPTION_KEY is not configured');
+    }
+    return this.keyEncryptionKey;
+  }
+}
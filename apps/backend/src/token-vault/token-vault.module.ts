@@ -0,0 +1,26 @@
+// ============================================================================
+// TokenVaultModule - OAuthTokenの暗号化保管（グローバル）
+// KEY_PROVIDER は既定で ENCRYPTION_KEY を使う LocalKeyProvider
+// ============================================================================
+
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TokenVaultService } from './token-vault.service';
+import { KEY_PROVIDER } from './domain/ports';
+import type { KeyProvider } from './domain/ports';
+import { LocalKeyProvider } from './infrastructure/local-key-provider';
+
+@Global()
+@Module({
+  providers: [
+    TokenVaultService,
+    {
+      provide: KEY_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): KeyProvider =>
+        new LocalKeyProvider(configService.get<string>('ENCRYPTION_KEY')),
+    },
+  ],
+  exports: [TokenVaultService],
+})
+export class TokenVaultModule {}
@@ -0,0 +1,218 @@
+// ============================================================================
+// TokenVaultService - OAuthTokenの暗号化保存・復号読み出し
+// oauth_tokens の accessToken / refreshToken は必ずこのサービス経由で読み書きする
+// ============================================================================
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import type { OAuthToken } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { KEY_PROVIDER } from './domain/ports';
+import type { KeyProvider } from './domain/ports';
+import { isSealed, openToken, sealToken } from './domain/envelope-encryption';
+
+/** 復号済みのトークン（カラム構成は OAuthToken と同じ） */
+export type VaultToken = OAuthToken;
+
+export interface SaveTokenInput {
+  accessToken: string;
+  /** undefined なら既存値を維持 */
+  refreshToken?: string | null;
+  expiresAt: Date;
+  scope?: string | null;
+}
+
+@Injectable()
+export class TokenVaultService {
+  private readonly logger = new Logger(TokenVaultService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(KEY_PROVIDER) private readonly keyProvider: KeyProvider,
+  ) {}
+
+  // ============================================================================
+  // 書き込み
+  // ============================================================================
+
+  async saveToken(advertiserId: string, input: SaveTokenInput): Promise<void> {
+    const accessToken = await sealToken(input.accessToken, this.keyProvider);
+    const refreshToken =
+      input.refreshToken === undefined
+        ? undefined
+        : await this.sealNullable(input.refreshToken);
+
+    await this.prisma.oAuthToken.upsert({
+      where: { advertiserId },
+      create: {
+        advertiserId,
+        accessToken,
+        refreshToken: refreshToken ?? null,
+        expiresAt: input.expiresAt,
+        scope: input.scope ?? null,
+      },
+      update: {
+        accessToken,
+        refreshToken,
+        expiresAt: input.expiresAt,
+        scope: input.scope,
+      },
+    });
+  }
+
+  /** リフレッシュ成功を記録（失敗回数をリセット） */
+  async recordRefreshSuccess(
+    advertiserId: string,
+    input: SaveTokenInput,
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.prisma.oAuthToken.update({
+      where: { advertiserId },
+      data: {
+        accessToken: await sealToken(input.accessToken, this.keyProvider),
+        refreshToken:
+          input.refreshToken === undefined
+            ? undefined
+            : await this.sealNullable(input.refreshToken),
+        expiresAt: input.expiresAt,
+        lastRefreshedAt: now,
+        lastRefreshAttemptAt: now,
+        lastRefreshError: null,
+        refreshFailureCount: 0,
+      },
+    });
+  }
+
+  /** リフレッシュ失敗を記録 */
+  async recordRefreshFailure(
+    advertiserId: string,
+    errorMessage: string,
+    now: Date = new Date(),
+  ): Promise<void> {
+    await this.prisma.oAuthToken.update({
+      where: { advertiserId },
+      data: {
+        lastRefreshAttemptAt: now,
+        lastRefreshError: errorMessage,
+        refreshFailureCount: { increment: 1 },
+      },
+    });
+  }
+
+  /**
+   * 平文のまま保存されているトークン（暗号化導入前のレコード）を暗号化する
+   * @returns 暗号化したレコード数
+   */
+  async sealLegacyTokens(): Promise<number> {
+    const tokens = await this.prisma.oAuthToken.findMany();
+    let sealed = 0;
+
+    for (const token of tokens) {
+      const accessPlain = !isSealed(token.accessToken);
+      const refreshPlain =
+        token.refreshToken !== null && !isSealed(token.refreshToken);
+      if (!accessPlain && !refreshPlain) continue;
+
+      await this.prisma.oAuthToken.update({
+        where: { id: token.id },
+        data: {
+          accessToken: accessPlain
+            ? await sealToken(token.accessToken, this.keyProvider)
+            : undefined,
+          refreshToken: refreshPlain
+            ? await sealToken(token.refreshToken!, this.keyProvider)
+            : undefined,
+        },
+      });
+      sealed++;
+    }
+
+    this.logger.log(`[VAULT] Sealed ${sealed} legacy tokens`);
+    return sealed;
+  }
+
+  // ============================================================================
+  // 読み出し
+  // ============================================================================
+
+  async findByAdvertiserId(advertiserId: string): Promise<VaultToken | null> {
+    const token = await this.prisma.oAuthToken.findUnique({
+      where: { advertiserId },
+    });
+    return token ? this.open(token) : null;
+  }
+
+  /**
+   * 有効期限内のトークン一覧
+   * @param advertiserId 指定時はそのAdvertiserのみ
+   */
+  async findActive(
+    advertiserId?: string,
+    now: Date = new Date(),
+  ): Promise<VaultToken[]> {
+    const tokens = await this.prisma.oAuthToken.findMany({
+      where: {
+        ...(advertiserId && { advertiserId }),
+        expiresAt: { gt: now },
+      },
+    });
+    return this.openAll(tokens);
+  }
+
+  /**
+   * 有効期限内のトークンを1件（advertiserId未指定なら最も新しいもの）
+   */
+  async findAnyActive(
+    advertiserId?: string,
+    now: Date = new Date(),
+  ): Promise<VaultToken | null> {
+    const token = await this.prisma.oAuthToken.findFirst({
+      where: {
+        ...(advertiserId && { advertiserId }),
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return token ? this.open(token) : null;
+  }
+
+  /**
+   * 指定日時までに期限を迎えるトークン
+   * リフレッシュトークンのないものも含む（リフレッシュできず失効する側の検知に使う）
+   */
+  async findExpiringBefore(before: Date): Promise<VaultToken[]> {
+    const tokens = await this.prisma.oAuthToken.findMany({
+      where: { expiresAt: { lte: before } },
+      orderBy: { expiresAt: 'asc' },
+    });
+    return this.openAll(tokens);
+  }
+
+  /** 一覧の復号。復号できないトークンはログに残して除外し、他のアカウントの処理は続ける */
+  private async openAll(tokens: OAuthToken[]): Promise<VaultToken[]> {
+    const opened: VaultToken[] = [];
+    for (const token of tokens) {
+      try {
+        opened.push(await this.open(token));
+      } catch (error) {
+        this.logger.error(
+          `[TOKEN] Failed to decrypt token for ${token.advertiserId}: ${error.message}`,
+        );
+      }
+    }
+    return opened;
+  }
+
+  private async open(token: OAuthToken): Promise<VaultToken> {
+    return {
+      ...token,
+      accessToken: await openToken(token.accessToken, this.keyProvider),
+      refreshToken: token.refreshToken
+        ? await openToken(token.refreshToken, this.keyProvider)
+        : null,
+    };
+  }
+
+  private async sealNullable(value: string | null): Promise<string | null> {
+    return value ? sealToken(value, this.keyProvider) : null;
+  }
+}
@@ -5,6 +5,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
+import { ApiLogService } from '../api-log/api-log.service';
+import { normalizeEndpoint } from '../api-log/domain/api-log';
 import {
   TIKTOK_FUNNEL_MAP,
   OPERATOR_LOGIN_URL,
@@ -22,8 +24,25 @@ export class UtageService {
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private apiLog: ApiLogService,
   ) {}
 
+  /**
+   * UTAGEへのHTTPリクエスト（呼び出しログに記録する）
+   * フォーム本文はパスワード・CSRFトークンを含むため記録しない
+   */
+  private request(url: string, init: RequestInit = {}): Promise<Response> {
+    return this.apiLog.track(
+      {
+        provider: 'utage',
+        method: init.method ?? 'GET',
+        endpoint: normalizeEndpoint(url),
+      },
+      () => fetch(url, init),
+      (response) => response.status,
+    );
+  }
+
   // ========== セッション管理 ==========
 
   private mergeCookies(existing: string, response: Response): string {
@@ -91,7 +110,7 @@ export class UtageService {
     this.logger.log('UTAGE: ログイン中...');
 
     // Step 1: ログインページ取得
-    const loginPageResp = await fetch(OPERATOR_LOGIN_URL, {
+    const loginPageResp = await this.request(OPERATOR_LOGIN_URL, {
       redirect: 'manual',
     });
     this.sessionCookies = this.mergeCookies('', loginPageResp);
@@ -104,7 +123,7 @@ export class UtageService {
       email,
       password,
     });
-    const loginResp = await fetch(OPERATOR_LOGIN_URL, {
+    const loginResp = await this.request(OPERATOR_LOGIN_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -119,7 +138,7 @@ export class UtageService {
     const location = loginResp.headers.get('location') || '';
     if (loginResp.status === 302 && !location.includes('/login')) {
       this.logger.log('UTAGE: ログイン成功');
-      const redirectResp = await fetch(
+      const redirectResp = await this.request(
         location.startsWith('http') ? location : `${UTAGE_BASE_URL}${location}`,
         { headers: { Cookie: this.sessionCookies }, redirect: 'manual' },
       );
@@ -148,7 +167,7 @@ export class UtageService {
 
     await this.ensureSession();
 
-    const resp = await fetch(url, {
+    const resp = await this.request(url, {
       headers: { Cookie: this.sessionCookies },
       redirect: 'manual',
     });
@@ -315,7 +334,7 @@ export class UtageService {
       step_id: config.stepId,
     });
 
-    const postResp = await fetch(postUrl, {
+    const postResp = await this.request(postUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
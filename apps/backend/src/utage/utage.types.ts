@@ -93,13 +93,6 @@ export const OPERATOR_LOGIN_URL =
   'https://school.addness.co.jp/operator/GYbKT7Y9d0eR/login';
 export const UTAGE_BASE_URL = 'https://school.addness.co.jp';
 
-// デフォルト日予算（導線別）
-export const DEFAULT_DAILY_BUDGET: Record<string, number> = {
-  AI: 3000,
-  SNS: 3000,
-  スキルプラス: 5000,
-};
-
 // ディープファネル最適化設定（導線別）
 // AI導線: deep_external_action: COMPLETE_PAYMENT（購入最適化）
 export const DEEP_FUNNEL_CONFIG: Record<
@@ -0,0 +1,117 @@
+import { createHmac } from 'crypto';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  extractEvents,
+  nextAttemptAt,
+  verifySignature,
+} from './webhook';
+
+const secret = 'test-secret';
+const now = new Date('2026-02-15T10:00:00Z');
+const body = Buffer.from('{"event":"lead.create","event_id":"evt-1"}');
+
+const hmac = (data: string | Buffer, encoding: 'hex' | 'base64') =>
+  createHmac('sha256', secret).update(data).digest(encoding);
+
+describe('verifySignature', () => {
+  it('TikTok: t=<UNIX秒>,s=<hex> を検証し、許容幅外のタイムスタンプは拒否する', () => {
+    const t = Math.floor(now.getTime() / 1000);
+    const signature = `t=${t},s=${hmac(`${t}.${body.toString()}`, 'hex')}`;
+
+    expect(verifySignature('tiktok', body, signature, secret, now)).toBeNull();
+    expect(
+      verifySignature(
+        'tiktok',
+        body,
+        signature,
+        secret,
+        new Date(now.getTime() + 10 * 60 * 1000),
+      ),
+    ).toBe('Signature timestamp is outside the tolerance');
+    expect(verifySignature('tiktok', body, 's=abc', secret, now)).toBe(
+      'Malformed signature',
+    );
+  });
+
+  it('UTAGE: sha256=<hex>、LINE: base64 を検証する', () => {
+    expect(
+      verifySignature(
+        'utage',
+        body,
+        `sha256=${hmac(body, 'hex')}`,
+        secret,
+        now,
+      ),
+    ).toBeNull();
+    expect(
+      verifySignature('line', body, hmac(body, 'base64'), secret, now),
+    ).toBeNull();
+  });
+
+  it('署名なし・不一致は拒否する', () => {
+    expect(verifySignature('line', body, undefined, secret, now)).toBe(
+      'Missing signature',
+    );
+    expect(
+      verifySignature('line', body, hmac(body, 'base64'), 'other', now),
+    ).toBe('Invalid signature');
+    expect(verifySignature('utage', body, 'sha256=00', secret, now)).toBe(
+      'Invalid signature',
+    );
+  });
+});
+
+describe('extractEvents', () => {
+  it('LINE は events の要素ごとに webhookEventId で1イベント', () => {
+    const events = extractEvents(
+      'line',
+      {
+        destination: 'U1',
+        events: [
+          { type: 'follow', webhookEventId: 'line-1' },
+          { type: 'message', webhookEventId: 'line-2' },
+        ],
+      },
+      body,
+    );
+
+    expect(events.map((e) => [e.eventId, e.eventType])).toEqual([
+      ['line-1', 'follow'],
+      ['line-2', 'message'],
+    ]);
+  });
+
+  it('LINE の疎通確認（events が空）はイベントなし', () => {
+    expect(extractEvents('line', { events: [] }, body)).toEqual([]);
+  });
+
+  it('TikTok / UTAGE は本文を1イベントとし、イベントIDがなければ本文のハッシュを使う', () => {
+    expect(
+      extractEvents(
+        'tiktok',
+        { event: 'lead.create', event_id: 'evt-1' },
+        body,
+      ),
+    ).toEqual([
+      {
+        eventId: 'evt-1',
+        eventType: 'lead.create',
+        payload: { event: 'lead.create', event_id: 'evt-1' },
+      },
+    ]);
+
+    const [first] = extractEvents('utage', { email: 'a@example.com' }, body);
+    const [again] = extractEvents('utage', { email: 'a@example.com' }, body);
+    expect(first.eventType).toBe('registration');
+    expect(first.eventId).toMatch(/^[0-9a-f]{64}$/);
+    expect(again.eventId).toBe(first.eventId);
+  });
+});
+
+describe('nextAttemptAt', () => {
+  it('試行回数に応じて間隔を空け、上限に達したら null', () => {
+    expect(nextAttemptAt(1, now)).toEqual(new Date('2026-02-15T10:01:00Z'));
+    expect(nextAttemptAt(2, now)).toEqual(new Date('2026-02-15T10:05:00Z'));
+    expect(nextAttemptAt(MAX_WEBHOOK_ATTEMPTS, now)).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+// ============================================================================
+// Webhook受信 - 署名検証・イベント抽出・リトライ間隔（純粋関数）
+// TikTok（リード・広告審査）、UTAGE（登録）、LINE（友だち追加・メッセージ等）の
+// コールバックを検証し、送信元のイベントIDで重複なく保存できる形に変換する
+// ============================================================================
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+export type WebhookSource = 'tiktok' | 'utage' | 'line';
+
+export const WEBHOOK_SOURCES: WebhookSource[] = ['tiktok', 'utage', 'line'];
+
+/**
+ * PENDING: 未処理 / PROCESSING: 処理中 / PROCESSED: 処理済み /
+ * IGNORED: 処理対象外（プロセッサ未登録）/ FAILED: 失敗（再試行待ち）/ DEAD: 再試行上限
+ */
+export type WebhookEventStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'PROCESSED'
+  | 'IGNORED'
+  | 'FAILED'
+  | 'DEAD';
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = [
+  'PENDING',
+  'PROCESSING',
+  'PROCESSED',
+  'IGNORED',
+  'FAILED',
+  'DEAD',
+];
+
+/** 再実行できる状態 */
+export const REPLAYABLE_STATUSES: WebhookEventStatus[] = [
+  'FAILED',
+  'DEAD',
+  'IGNORED',
+];
+
+/** 送信元ごとの署名ヘッダー（小文字）と署名鍵の環境変数 */
+export const WEBHOOK_SIGNATURE_CONFIG: Record<
+  WebhookSource,
+  { header: string; secretEnvKeys: string[] }
+> = {
+  // t=<UNIX秒>,s=<hex(HMAC-SHA256("<t>.<body>"))>
+  tiktok: {
+    header: 'tiktok-signature',
+    secretEnvKeys: ['TIKTOK_WEBHOOK_SECRET', 'TIKTOK_APP_SECRET'],
+  },
+  // sha256=<hex(HMAC-SHA256(body))>（UTAGE側のWebhook設定で付与する）
+  utage: {
+    header: 'x-utage-signature',
+    secretEnvKeys: ['UTAGE_WEBHOOK_SECRET'],
+  },
+  // base64(HMAC-SHA256(body))（LINE Messaging API の仕様）
+  line: {
+    header: 'x-line-signature',
+    secretEnvKeys: ['LINE_CHANNEL_SECRET'],
+  },
+};
+
+/** TikTok 署名のタイムスタンプ許容幅（リプレイ対策） */
+const TIKTOK_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** 処理失敗時の再試行間隔（分）。使い切ると DEAD */
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+export const MAX_WEBHOOK_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+/** 保存する1イベント */
+export interface IncomingWebhookEvent {
+  eventId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+}
+
+export function isWebhookSource(value: unknown): value is WebhookSource {
+  return WEBHOOK_SOURCES.includes(value as WebhookSource);
+}
+
+/**
+ * 署名を検証する
+ * @returns エラーメッセージ（null なら検証成功）
+ */
+export function verifySignature(
+  source: WebhookSource,
+  rawBody: Buffer,
+  signature: string | undefined,
+  secret: string,
+  now: Date,
+): string | null {
+  if (!signature) return 'Missing signature';
+
+  switch (source) {
+    case 'tiktok': {
+      const parts = new Map(
+        signature.split(',').map((part) => {
+          const [key, ...value] = part.trim().split('=');
+          return [key, value.join('=')] as const;
+        }),
+      );
+      const timestamp = Number(parts.get('t'));
+      const received = parts.get('s');
+      if (!Number.isFinite(timestamp) || !received) {
+        return 'Malformed signature';
+      }
+      if (
+        Math.abs(now.getTime() - timestamp * 1000) >
+        TIKTOK_SIGNATURE_TOLERANCE_MS
+      ) {
+        return 'Signature timestamp is outside the tolerance';
+      }
+      const expected = hmac(
+        secret,
+        `${timestamp}.${rawBody.toString('utf8')}`,
+      ).digest('hex');
+      return safeEqual(received, expected) ? null : 'Invalid signature';
+    }
+    case 'utage': {
+      const received = signature.replace(/^sha256=/, '');
+      const expected = hmac(secret, rawBody).digest('hex');
+      return safeEqual(received, expected) ? null : 'Invalid signature';
+    }
+    case 'line': {
+      const expected = hmac(secret, rawBody).digest('base64');
+      return safeEqual(signature, expected) ? null : 'Invalid signature';
+    }
+  }
+}
+
+/**
+ * リクエスト本文を保存するイベントに分ける
+ * LINE は1リクエストに複数イベント（webhookEventId 付き）を含む。
+ * イベントIDがない送信元は本文のハッシュをイベントIDにする（同じ本文の再送は重複扱い）
+ */
+export function extractEvents(
+  source: WebhookSource,
+  body: unknown,
+  rawBody: Buffer,
+): IncomingWebhookEvent[] {
+  const payload = isRecord(body) ? body : {};
+
+  if (source === 'line') {
+    const events = Array.isArray(payload.events) ? payload.events : [];
+    return events.filter(isRecord).map((event) => ({
+      eventId: stringOf(event.webhookEventId) ?? sha256(JSON.stringify(event)),
+      eventType: stringOf(event.type) ?? 'unknown',
+      payload: event,
+    }));
+  }
+
+  return [
+    {
+      eventId:
+        stringOf(payload.event_id) ?? stringOf(payload.id) ?? sha256(rawBody),
+      eventType:
+        stringOf(payload.event) ??
+        stringOf(payload.event_type) ??
+        stringOf(payload.type) ??
+        (source === 'utage' ? 'registration' : 'unknown'),
+      payload,
+    },
+  ];
+}
+
+/**
+ * 失敗後の次回再試行日時
+ * @param attempts これまでの試行回数（今回を含む）
+ * @returns 再試行上限に達したら null（DEAD にする）
+ */
+export function nextAttemptAt(attempts: number, now: Date): Date | null {
+  const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined
+    ? null
+    : new Date(now.getTime() + delay * 60 * 1000);
+}
+
+function hmac(secret: string, data: string | Buffer) {
+  return createHmac('sha256', secret).update(data);
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function stringOf(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
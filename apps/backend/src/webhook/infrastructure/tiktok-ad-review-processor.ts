@@ -0,0 +1,51 @@
+// ============================================================================
+// TiktokAdReviewProcessor - TikTok の広告審査結果（ad.review_status_update）を反映
+// 日次エンティティ同期を待たずに Ad.reviewStatus / reviewMessage を更新する
+// ============================================================================
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import type { WebhookEvent } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { WebhookService } from '../webhook.service';
+
+@Injectable()
+export class TiktokAdReviewProcessor implements OnModuleInit {
+  private readonly logger = new Logger(TiktokAdReviewProcessor.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly webhooks: WebhookService,
+  ) {}
+
+  onModuleInit() {
+    this.webhooks.registerProcessor(
+      'tiktok',
+      'ad.review_status_update',
+      (event) => this.process(event),
+    );
+  }
+
+  async process(event: WebhookEvent): Promise<void> {
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    const adId = payload.ad_id;
+    const reviewStatus = payload.review_status;
+    if (typeof adId !== 'string' || typeof reviewStatus !== 'string') {
+      throw new Error('ad_id and review_status are required');
+    }
+
+    // 未同期の広告は日次エンティティ同期で取り込まれるため、更新対象なしで完了とする
+    const updated = await this.prisma.ad.updateMany({
+      where: { tiktokId: adId },
+      data: {
+        reviewStatus,
+        reviewMessage:
+          typeof payload.reject_reason === 'string'
+            ? payload.reject_reason
+            : null,
+      },
+    });
+    this.logger.log(
+      `[WEBHOOK] Ad ${adId} review status → ${reviewStatus}${updated.count === 0 ? ' (ad not synced yet)' : ''}`,
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// ============================================================================
+// TiktokLeadProcessor - TikTok のリード（lead.create）を CV 台帳に追加
+// 登録経路は広告名の LP-CR と広告アカウントの訴求名から組み立てる（TikTok広告-{訴求名}-{LP-CR}）
+// ============================================================================
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import type { WebhookEvent } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ConversionLedgerService } from '../../conversion-ledger/conversion-ledger.service';
+import { WebhookService } from '../webhook.service';
+
+@Injectable()
+export class TiktokLeadProcessor implements OnModuleInit {
+  private readonly logger = new Logger(TiktokLeadProcessor.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledger: ConversionLedgerService,
+    private readonly webhooks: WebhookService,
+  ) {}
+
+  onModuleInit() {
+    this.webhooks.registerProcessor('tiktok', 'lead.create', (event) =>
+      this.process(event),
+    );
+  }
+
+  async process(event: WebhookEvent): Promise<void> {
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    const adId = payload.ad_id;
+    if (typeof adId !== 'string') {
+      throw new Error('ad_id is required');
+    }
+
+    // 未同期の広告は登録経路を組み立てられないため、失敗させて再試行する
+    const ad = await this.prisma.ad.findUnique({
+      where: { tiktokId: adId },
+      select: {
+        id: true,
+        name: true,
+        adGroup: {
+          select: {
+            campaign: {
+              select: {
+                advertiser: { select: { appeal: { select: { name: true } } } },
+              },
+            },
+          },
+        },
+      },
+    });
+    const appealName = ad?.adGroup?.campaign?.advertiser?.appeal?.name;
+    const lpCr = ad?.name.split('/').pop()?.trim();
+    if (!ad || !appealName || !lpCr) {
+      throw new Error(`Ad ${adId} is not synced or has no appeal`);
+    }
+
+    // create_time は UNIX 秒
+    const createTime = Number(payload.create_time);
+    const inserted = await this.ledger.recordPushed({
+      kind: 'CV',
+      source: 'tiktok',
+      eventId: event.eventId,
+      registrationPath: `TikTok広告-${appealName}-${lpCr}`,
+      occurredAt:
+        createTime > 0 ? new Date(createTime * 1000) : event.createdAt,
+      adId: ad.id,
+    });
+    this.logger.log(
+      `[WEBHOOK] TikTok lead for ad ${adId}${inserted ? '' : ' (already recorded)'}`,
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// UtageRegistrationProcessor - UTAGE の登録（registration）を CV 台帳に追加
+// シートの定期取り込みを待たずにオプトインを台帳に反映する
+// ============================================================================
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import type { WebhookEvent } from '@prisma/client';
+import { ConversionLedgerService } from '../../conversion-ledger/conversion-ledger.service';
+import { WebhookService } from '../webhook.service';
+
+@Injectable()
+export class UtageRegistrationProcessor implements OnModuleInit {
+  private readonly logger = new Logger(UtageRegistrationProcessor.name);
+
+  constructor(
+    private readonly ledger: ConversionLedgerService,
+    private readonly webhooks: WebhookService,
+  ) {}
+
+  onModuleInit() {
+    this.webhooks.registerProcessor('utage', 'registration', (event) =>
+      this.process(event),
+    );
+  }
+
+  async process(event: WebhookEvent): Promise<void> {
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    const registrationPath = payload.registration_path;
+    if (typeof registrationPath !== 'string' || !registrationPath.trim()) {
+      throw new Error('registration_path is required');
+    }
+    const occurredAt =
+      payload.registered_at === undefined
+        ? event.createdAt
+        : new Date(String(payload.registered_at));
+    if (Number.isNaN(occurredAt.getTime())) {
+      throw new Error(
+        `Invalid registered_at: ${String(payload.registered_at)}`,
+      );
+    }
+
+    const inserted = await this.ledger.recordPushed({
+      kind: 'CV',
+      source: 'utage',
+      eventId: event.eventId,
+      registrationPath,
+      occurredAt,
+    });
+    this.logger.log(
+      `[WEBHOOK] UTAGE registration ${registrationPath.trim()}${inserted ? '' : ' (already recorded)'}`,
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// ============================================================================
+// WebhookEventController - Webhook受信イベントの一覧・再実行 API
+// ============================================================================
+
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import {
+  RequireAllAdvertisers,
+  RequirePermissions,
+} from '../auth/auth.decorators';
+import { PERMISSIONS } from '../auth/permissions';
+
+@RequirePermissions(PERMISSIONS.WEBHOOK_MANAGE)
+@RequireAllAdvertisers()
+@Controller('api/webhook-events')
+export class WebhookEventController {
+  private readonly logger = new Logger(WebhookEventController.name);
+
+  constructor(private readonly webhooks: WebhookService) {}
+
+  /**
+   * 受信イベント（新しい順）
+   * GET /api/webhook-events?source=line&status=DEAD&limit=100
+   */
+  @Get()
+  async list(
+    @Query('source') source?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.handle('List events', async () =>
+      this.webhooks.list({
+        source: source || undefined,
+        status: status || undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      }),
+    );
+  }
+
+  /**
+   * 未処理・再試行待ちのイベントを処理（サーバーレス環境用）
+   * POST /api/webhook-events/process
+   */
+  @Post('process')
+  async process() {
+    return this.handle('Process events', async () =>
+      this.webhooks.processDue(),
+    );
+  }
+
+  /**
+   * 受信イベント詳細
+   * GET /api/webhook-events/:id
+   */
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.handle('Get event', async () => this.webhooks.findById(id));
+  }
+
+  /**
+   * 失敗・再試行上限のイベントを再実行
+   * POST /api/webhook-events/:id/replay
+   */
+  @Post(':id/replay')
+  async replay(@Param('id') id: string) {
+    return this.handle('Replay event', async () => this.webhooks.replay(id));
+  }
+
+  private async handle<T>(label: string, fn: () => Promise<T>) {
+    try {
+      return { success: true, data: await fn() };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(`[WEBHOOK] ${label} failed:`, error);
+      throw new HttpException(
+        { success: false, error: error.message },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+}
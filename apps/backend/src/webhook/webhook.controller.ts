@@ -0,0 +1,43 @@
+// ============================================================================
+// WebhookController - 外部サービスからのWebhook受信
+// 認証は送信元ごとの署名（HMAC）で行うため AuthGuard の対象外
+// ============================================================================
+
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { WebhookService } from './webhook.service';
+import { Public } from '../auth/auth.decorators';
+
+@Public()
+@Controller('webhooks')
+export class WebhookController {
+  constructor(private readonly webhooks: WebhookService) {}
+
+  /**
+   * Webhook受信（保存のみ。処理は非同期）
+   * POST /webhooks/tiktok | /webhooks/utage | /webhooks/line
+   */
+  @Post(':source')
+  @HttpCode(HttpStatus.OK)
+  async receive(
+    @Param('source') source: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Body() body: unknown,
+    @Headers() headers: Record<string, string | string[] | undefined>,
+  ) {
+    return {
+      success: true,
+      data: await this.webhooks.ingest(source, req.rawBody, body, headers),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+// ============================================================================
+// WebhookModule - Webhook受信・イベント処理
+// 他モジュールは WebhookService.registerProcessor でイベントの処理を登録する
+// ============================================================================
+
+import { Module } from '@nestjs/common';
+import { ConversionLedgerModule } from '../conversion-ledger/conversion-ledger.module';
+import { WebhookService } from './webhook.service';
+import { WebhookController } from './webhook.controller';
+import { WebhookEventController } from './webhook-event.controller';
+import { TiktokAdReviewProcessor } from './infrastructure/tiktok-ad-review-processor';
+import { TiktokLeadProcessor } from './infrastructure/tiktok-lead-processor';
+import { UtageRegistrationProcessor } from './infrastructure/utage-registration-processor';
+
+@Module({
+  imports: [ConversionLedgerModule],
+  controllers: [WebhookController, WebhookEventController],
+  providers: [
+    WebhookService,
+    TiktokAdReviewProcessor,
+    TiktokLeadProcessor,
+    UtageRegistrationProcessor,
+  ],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
@@ -0,0 +1,321 @@
+// ============================================================================
+// WebhookService - Webhook受信イベントの保存・非同期処理・再実行
+// 受信時は署名検証とイベントIDでの重複排除だけを行って保存し、
+// 処理は送信元・種類ごとに登録したプロセッサで毎分実行する（失敗は間隔を空けて再試行）
+// ============================================================================
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import type { Prisma, WebhookEvent } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  REPLAYABLE_STATUSES,
+  WEBHOOK_EVENT_STATUSES,
+  WEBHOOK_SIGNATURE_CONFIG,
+  extractEvents,
+  isWebhookSource,
+  nextAttemptAt,
+  verifySignature,
+  type IncomingWebhookEvent,
+  type WebhookEventStatus,
+  type WebhookSource,
+} from './domain/webhook';
+
+/** イベントの処理（失敗時は例外を投げる。再試行されるため冪等にする） */
+export type WebhookProcessor = (event: WebhookEvent) => Promise<void>;
+
+export interface WebhookIngestResult {
+  received: number;
+  duplicates: number;
+  eventIds: string[];
+}
+
+export interface WebhookEventQuery {
+  source?: string;
+  status?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+/** 1回の処理で扱うイベント数 */
+const PROCESS_BATCH_SIZE = 100;
+
+/** PROCESSING のまま残ったイベント（処理中の停止）を再処理するまでの時間 */
+const STUCK_PROCESSING_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly processors = new Map<string, WebhookProcessor>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 送信元・種類のイベントを処理するプロセッサを登録する
+   * 各モジュールのサービスが onModuleInit で登録する。eventType '*' はその送信元の全種類
+   */
+  registerProcessor(
+    source: WebhookSource,
+    eventType: string,
+    processor: WebhookProcessor,
+  ): void {
+    this.processors.set(`${source}:${eventType}`, processor);
+  }
+
+  // ============================================================================
+  // 受信
+  // ============================================================================
+
+  /**
+   * 署名を検証し、未受信のイベントを PENDING で保存する
+   * 同じイベントIDの再送は保存せず duplicates に数える
+   */
+  async ingest(
+    source: string,
+    rawBody: Buffer | undefined,
+    body: unknown,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<WebhookIngestResult> {
+    if (!isWebhookSource(source)) {
+      throw new NotFoundException(`Unknown webhook source: ${source}`);
+    }
+    if (!rawBody) {
+      throw new BadRequestException('Request body is required');
+    }
+
+    const config = WEBHOOK_SIGNATURE_CONFIG[source];
+    const secret = config.secretEnvKeys
+      .map((key) => this.configService.get<string>(key))
+      .find((value) => !!value);
+    if (!secret) {
+      this.logger.error(
+        `[WEBHOOK] Signing secret for ${source} is not configured (${config.secretEnvKeys.join(' / ')})`,
+      );
+      throw new UnauthorizedException(
+        `Webhook source is not configured: ${source}`,
+      );
+    }
+    const headerValue = headers[config.header];
+    const signature = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+    const signatureError = verifySignature(
+      source,
+      rawBody,
+      signature,
+      secret,
+      new Date(),
+    );
+    if (signatureError) {
+      this.logger.warn(`[WEBHOOK] Rejected ${source}: ${signatureError}`);
+      throw new UnauthorizedException(signatureError);
+    }
+
+    const result: WebhookIngestResult = {
+      received: 0,
+      duplicates: 0,
+      eventIds: [],
+    };
+    for (const event of extractEvents(source, body, rawBody)) {
+      const existing = await this.prisma.webhookEvent.findFirst({
+        where: { source, eventId: event.eventId },
+        select: { id: true },
+      });
+      if (existing || !(await this.create(source, event, signature!))) {
+        result.duplicates++;
+        continue;
+      }
+      result.received++;
+      result.eventIds.push(event.eventId);
+    }
+
+    this.logger.log(
+      `[WEBHOOK] ${source}: received=${result.received} duplicates=${result.duplicates}`,
+    );
+    return result;
+  }
+
+  /** @returns 同時に同じイベントが保存されていた場合は false */
+  private async create(
+    source: WebhookSource,
+    event: IncomingWebhookEvent,
+    signature: string,
+  ): Promise<boolean> {
+    try {
+      await this.prisma.webhookEvent.create({
+        data: {
+          source,
+          eventId: event.eventId,
+          eventType: event.eventType,
+          payload: event.payload as Prisma.InputJsonValue,
+          signature,
+        },
+      });
+      return true;
+    } catch (error) {
+      if (error?.code === 'P2002') return false;
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // 処理
+  // ============================================================================
+
+  /**
+   * 未処理・再試行時刻を過ぎたイベントを古い順に処理する
+   * 常駐環境では毎分、サーバーレス環境では POST /api/webhook-events/process から呼ぶ
+   */
+  @Cron('* * * * *', { name: 'webhook-process' })
+  async processDue(now: Date = new Date()): Promise<WebhookEvent[]> {
+    const due = await this.prisma.webhookEvent.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING' },
+          { status: 'FAILED', nextAttemptAt: { lte: now } },
+          {
+            status: 'PROCESSING',
+            lastAttemptAt: {
+              lt: new Date(now.getTime() - STUCK_PROCESSING_MS),
+            },
+          },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: PROCESS_BATCH_SIZE,
+    });
+
+    const processed: WebhookEvent[] = [];
+    for (const event of due) {
+      const result = await this.process(event, now);
+      if (result) processed.push(result);
+    }
+    return processed;
+  }
+
+  /**
+   * 1イベントを処理する
+   * 他インスタンスと同じイベントを取り合わないよう、状態と試行回数を条件に PROCESSING にする
+   * @returns 取得できなかった場合は null
+   */
+  private async process(
+    event: WebhookEvent,
+    now: Date,
+  ): Promise<WebhookEvent | null> {
+    const attempts = event.attempts + 1;
+    const claimed = await this.prisma.webhookEvent.updateMany({
+      where: { id: event.id, status: event.status, attempts: event.attempts },
+      data: { status: 'PROCESSING', attempts, lastAttemptAt: now },
+    });
+    if (claimed.count === 0) return null;
+
+    const processor =
+      this.processors.get(`${event.source}:${event.eventType}`) ??
+      this.processors.get(`${event.source}:*`);
+    if (!processor) {
+      return this.finish(event.id, {
+        status: 'IGNORED',
+        processedAt: now,
+        nextAttemptAt: null,
+        error: null,
+      });
+    }
+
+    try {
+      await processor({ ...event, status: 'PROCESSING', attempts });
+      return this.finish(event.id, {
+        status: 'PROCESSED',
+        processedAt: now,
+        nextAttemptAt: null,
+        error: null,
+      });
+    } catch (error) {
+      const retryAt = nextAttemptAt(attempts, now);
+      const status: WebhookEventStatus = retryAt ? 'FAILED' : 'DEAD';
+      this.logger.error(
+        `[WEBHOOK] ${event.source} ${event.eventType} (${event.eventId}) failed (attempt ${attempts}/${MAX_WEBHOOK_ATTEMPTS}, ${status}): ${error.message}`,
+      );
+      return this.finish(event.id, {
+        status,
+        nextAttemptAt: retryAt,
+        error: error.message,
+      });
+    }
+  }
+
+  private finish(
+    id: string,
+    data: Prisma.WebhookEventUpdateInput & { status: WebhookEventStatus },
+  ): Promise<WebhookEvent> {
+    return this.prisma.webhookEvent.update({ where: { id }, data });
+  }
+
+  // ============================================================================
+  // 管理
+  // ============================================================================
+
+  /** 受信イベント（新しい順） */
+  async list(query: WebhookEventQuery = {}): Promise<WebhookEvent[]> {
+    if (
+      query.status &&
+      !WEBHOOK_EVENT_STATUSES.includes(query.status as WebhookEventStatus)
+    ) {
+      throw new BadRequestException(
+        `status must be one of ${WEBHOOK_EVENT_STATUSES.join(', ')}`,
+      );
+    }
+    const limit = Math.min(
+      Math.max(query.limit ?? DEFAULT_LIST_LIMIT, 1),
+      MAX_LIST_LIMIT,
+    );
+    return this.prisma.webhookEvent.findMany({
+      where: { source: query.source, status: query.status },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async findById(id: string): Promise<WebhookEvent> {
+    const event = await this.prisma.webhookEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new NotFoundException(`Webhook event with ID ${id} not found`);
+    }
+    return event;
+  }
+
+  /**
+   * 失敗・再試行上限・処理対象外のイベントを試行回数をリセットして再処理する
+   */
+  async replay(id: string): Promise<WebhookEvent> {
+    const event = await this.findById(id);
+    if (!REPLAYABLE_STATUSES.includes(event.status as WebhookEventStatus)) {
+      throw new BadRequestException(
+        `Only ${REPLAYABLE_STATUSES.join(' / ')} events can be replayed (status: ${event.status})`,
+      );
+    }
+    const reset = await this.prisma.webhookEvent.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: null,
+        error: null,
+      },
+    });
+    this.logger.log(
+      `[WEBHOOK] Replaying ${event.source} ${event.eventType} (${event.eventId})`,
+    );
+    return (await this.process(reset, new Date())) ?? this.findById(id);
+  }
+}
@@ -0,0 +1,196 @@
+import { AdNamingService } from '../src/ad-naming/ad-naming.service';
+import { CampaignBuilderService } from '../src/campaign-builder/campaign-builder.service';
+import { seedRegularAd, seedSmartPlusAd } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Ad naming convention (e2e, offline)', () => {
+  const advertiserId = '7000000000000000951';
+  const otherAdvertiserId = '7000000000000000952';
+  let ctx: E2EContext;
+  let service: AdNamingService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([AdNamingService, CampaignBuilderService]);
+    service = ctx.module.get(AdNamingService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'AI', targetCPA: 3000, allowableCPA: 4000 },
+    });
+  });
+
+  it('自動化の対象外になっている配信中の広告を修正候補つきで挙げ、通常広告をまとめてリネームする', async () => {
+    const conforming = seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: '260301/山田/朝型CR/LP1-CR00001',
+      budget: 5000,
+    });
+    const fullWidth = seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: '260301／山田／夜型CR／LP1-CR00002',
+      budget: 5000,
+    });
+    const creative = seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: 'cut01.mp4',
+      budget: 5000,
+    });
+    seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: '昼型CR_LP1',
+      budget: 5000,
+      status: 'DISABLE',
+    });
+    const smartPlus = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '260301/佐藤/Smart+CR_LP2-CR00003',
+      budget: 5000,
+    });
+    ctx.prisma.seed('ad', {
+      tiktokId: fullWidth.adId,
+      adgroupId: 'adgroup-1',
+      name: '260301／山田／夜型CR／LP1-CR00002',
+      creativeId: 'creative-1',
+      status: 'ENABLE',
+    });
+
+    const report = await service.listNonConforming({}, null);
+
+    expect(report.checkedAdvertiserIds).toEqual([advertiserId]);
+    expect(report.failed).toEqual([]);
+    expect(report.ads.map((ad) => ad.adId)).not.toContain(conforming.adId);
+    expect(report.ads).toEqual([
+      expect.objectContaining({
+        adId: fullWidth.adId,
+        adgroupId: fullWidth.adgroupId,
+        issue: 'INVALID_FORMAT',
+        suggestedName: '260301/山田/夜型CR/LP1-CR00002',
+        renamable: true,
+      }),
+      expect.objectContaining({
+        adId: creative.adId,
+        issue: 'CREATIVE_FILE_NAME',
+        suggestedName: null,
+      }),
+      expect.objectContaining({
+        adId: smartPlus.adId,
+        isSmartPlus: true,
+        issue: 'INVALID_FORMAT',
+        suggestedName: '260301/佐藤/Smart+CR/LP2-CR00003',
+        renamable: false,
+      }),
+    ]);
+
+    // 担当外のアカウント・命名規則に合わない名前は受け付けない
+    await expect(
+      service.rename(
+        [{ advertiserId, adId: fullWidth.adId, name: '260301/山田/夜型CR' }],
+        null,
+      ),
+    ).rejects.toThrow(
+      'Invalid rename: renames[0]: ad name must be in the form',
+    );
+    await expect(
+      service.rename(
+        [
+          {
+            advertiserId,
+            adId: fullWidth.adId,
+            name: '260301/山田/夜型CR/LP1-CR00002',
+          },
+        ],
+        [otherAdvertiserId],
+      ),
+    ).rejects.toThrow(`No access to advertisers: ${advertiserId}`);
+    expect(ctx.api.requestsTo('/v1.3/ad/update/')).toHaveLength(0);
+
+    const result = await service.rename(
+      [
+        {
+          advertiserId,
+          adId: fullWidth.adId,
+          name: '260301/山田/夜型CR/LP1-CR00002',
+        },
+        {
+          advertiserId,
+          adId: smartPlus.adId,
+          name: '260301/佐藤/Smart+CR/LP2-CR00003',
+        },
+      ],
+      [advertiserId],
+    );
+
+    expect(result.renamed).toEqual([
+      {
+        advertiserId,
+        adId: fullWidth.adId,
+        from: '260301／山田／夜型CR／LP1-CR00002',
+        to: '260301/山田/夜型CR/LP1-CR00002',
+      },
+    ]);
+    // Smart+広告は /ad/update/ で変更できない
+    expect(result.failed).toEqual([
+      expect.objectContaining({
+        adId: smartPlus.adId,
+        error: `Ad not found: ${smartPlus.adId}`,
+      }),
+    ]);
+    expect(ctx.api.store.ads.get(fullWidth.adId)?.ad_name).toBe(
+      '260301/山田/夜型CR/LP1-CR00002',
+    );
+    expect(ctx.prisma.rows('ad')[0].name).toBe(
+      '260301/山田/夜型CR/LP1-CR00002',
+    );
+
+    const after = await service.listNonConforming({ advertiserId }, null);
+    expect(after.ads.map((ad) => ad.adId)).toEqual([
+      creative.adId,
+      smartPlus.adId,
+    ]);
+  });
+
+  it('キャンペーン作成は命名規則に合わない広告名があれば何も作らずに弾く', async () => {
+    const builder = ctx.module.get(CampaignBuilderService);
+
+    await expect(
+      builder.buildCampaign(
+        {
+          advertiserId,
+          campaignName: '260301 ノンタゲ',
+          pixelId: 'pixel-1',
+          optimizationEvent: 'ON_WEB_REGISTER',
+          dailyBudget: 3000,
+          pattern: 'NON_TARGETING',
+          ads: [
+            {
+              adName: '260301/山田/朝型/奇行/LP1-CR00055',
+              creativeId: 'creative-1',
+              landingPageUrl: 'https://example.com/lp1',
+            },
+            {
+              adName: 'LP1-CR00055_2',
+              creativeId: 'creative-1',
+              landingPageUrl: 'https://example.com/lp1',
+            },
+          ],
+        },
+        `token-${advertiserId}`,
+      ),
+    ).rejects.toThrow(
+      'Invalid campaign: ads[1]: ad name must be in the form YYMMDD/制作者名/CR名/LP{n}-CR{5桁}: "LP1-CR00055_2"',
+    );
+    expect(ctx.api.requestsTo('/v1.3/campaign/create/')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { AdPerformanceController } from '../src/ad-performance/ad-performance.controller';
+import { AdPerformanceService } from '../src/ad-performance/ad-performance.service';
+import { CreativeController } from '../src/creative/creative.controller';
+import { CreativeService } from '../src/creative/creative.service';
+import { CreativeAssetService } from '../src/creative-asset/creative-asset.service';
+import { NotificationController } from '../src/notification/notification.controller';
+import { NotificationService } from '../src/notification/notification.service';
+import type { AuthPrincipal } from '../src/auth/domain/principal';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Advertiser scope on list endpoints (e2e, offline)', () => {
+  const mine = '7000000000000000701';
+  const other = '7000000000000000702';
+  let ctx: E2EContext;
+  let creatives: CreativeController;
+  let notifications: NotificationController;
+  let performances: AdPerformanceController;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      CreativeAssetService,
+      CreativeService,
+      CreativeController,
+      NotificationService,
+      NotificationController,
+      AdPerformanceService,
+      AdPerformanceController,
+    ]);
+    creatives = ctx.module.get(CreativeController);
+    notifications = ctx.module.get(NotificationController);
+    performances = ctx.module.get(AdPerformanceController);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    await seedAccount(ctx, { advertiserId: mine, appeal: { name: 'SNS' } });
+    await seedAccount(ctx, { advertiserId: other, appeal: { name: 'AI' } });
+    for (const tiktokAdvertiserId of [mine, other]) {
+      seedListRows(tiktokAdvertiserId);
+    }
+  });
+
+  /** Creative・通知・広告パフォーマンスを1件ずつ登録する */
+  function seedListRows(tiktokAdvertiserId: string) {
+    const advertiser = advertiserRow(tiktokAdvertiserId);
+    const creative = ctx.prisma.seed('creative', {
+      advertiserId: advertiser.id,
+      name: `creative-${tiktokAdvertiserId}`,
+      type: 'VIDEO',
+      url: `https://blob.example/${tiktokAdvertiserId}.mp4`,
+      filename: `${tiktokAdvertiserId}.mp4`,
+      status: 'READY',
+    });
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: `campaign-${tiktokAdvertiserId}`,
+      advertiserId: advertiser.id,
+      name: 'campaign',
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: `adgroup-${tiktokAdvertiserId}`,
+      campaignId: campaign.id,
+      name: 'adgroup',
+      budget: 3000,
+      status: 'ENABLE',
+    });
+    const ad = ctx.prisma.seed('ad', {
+      tiktokId: `ad-${tiktokAdvertiserId}`,
+      adgroupId: adGroup.id,
+      name: `260301/山田/${tiktokAdvertiserId}/LP1-CR00001`,
+      creativeId: creative.id,
+      status: 'ENABLE',
+    });
+    ctx.prisma.seed('adPerformance', {
+      adId: ad.id,
+      advertiserId: advertiser.id,
+      totalSpend: 10000,
+      totalConversions: 2,
+      spendAtLastReview: 0,
+      impressionThresholdMet: false,
+    });
+    ctx.prisma.seed('notification', {
+      type: 'CPA_DEVIATION',
+      severity: 'WARNING',
+      advertiserId: advertiser.id,
+      title: `CPA乖離 ${tiktokAdvertiserId}`,
+      message: 'CPAが過去最高から乖離しています',
+      status: 'UNREAD',
+      createdAt: new Date('2026-03-07T00:00:00Z'),
+    });
+  }
+
+  function advertiserRow(tiktokAdvertiserId: string) {
+    return ctx.prisma
+      .rows('advertiser')
+      .find((row) => row.tiktokAdvertiserId === tiktokAdvertiserId)!;
+  }
+
+  function scopedTo(tiktokAdvertiserId: string): AuthPrincipal {
+    return {
+      type: 'USER',
+      userId: 'user-1',
+      email: 'operator@example.com',
+      permissions: [],
+      advertiserIds: [advertiserRow(tiktokAdvertiserId).id, tiktokAdvertiserId],
+    };
+  }
+
+  it('担当アカウントが割り当てられたユーザーは advertiserId なしでも担当分だけ一覧される', async () => {
+    const principal = scopedTo(mine);
+    const mineId = advertiserRow(mine).id;
+
+    const creativeList = await creatives.findAll(principal);
+    expect(creativeList.success).toBe(true);
+    expect(creativeList.data?.map((c) => c.advertiserId)).toEqual([mineId]);
+
+    const notificationList = await notifications.getNotifications(
+      principal,
+      undefined,
+    );
+    expect(notificationList.notifications.map((n) => n.advertiserId)).toEqual([
+      mineId,
+    ]);
+    expect(notificationList.total).toBe(1);
+    expect(notificationList.unreadCount).toBe(1);
+    expect(await notifications.getUnreadCount(principal, undefined)).toEqual({
+      unreadCount: 1,
+    });
+
+    const performanceList = await performances.getAdPerformances(
+      principal,
+      undefined,
+    );
+    expect(performanceList.performances.map((p) => p.advertiserId)).toEqual([
+      mineId,
+    ]);
+    expect(performanceList.summary.totalAds).toBe(1);
+  });
+
+  it('全アカウント権限なら advertiserId なしで全アカウントが一覧される', async () => {
+    const principal: AuthPrincipal = {
+      ...scopedTo(mine),
+      advertiserIds: null,
+    };
+
+    expect((await creatives.findAll(principal)).data).toHaveLength(2);
+    expect(
+      (await notifications.getNotifications(principal, undefined)).total,
+    ).toBe(2);
+    expect(
+      (await performances.getAdPerformances(principal, undefined)).summary
+        .totalAds,
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,144 @@
+import { TiktokService } from '../src/tiktok/tiktok.service';
+import { ApiLogService } from '../src/api-log/api-log.service';
+import { FAKE_FAILURES, seedSmartPlusAd } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Outbound API call logging / usage summary (e2e, offline)', () => {
+  const advertiserId = '7000000000000000001';
+  let ctx: E2EContext;
+  let tiktok: TiktokService;
+  let apiLog: ApiLogService;
+  let token: string;
+
+  const logs = async () => {
+    await apiLog.flush();
+    return ctx.prisma.rows('aPILog');
+  };
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([], { API_LOG_SAMPLE_RATE: '1' });
+    tiktok = ctx.module.get(TiktokService);
+    apiLog = ctx.module.get(ApiLogService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ({ accessToken: token } = await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'SNS' },
+    }));
+    await apiLog.flush();
+    ctx.prisma.reset();
+  });
+
+  it('TikTok API の呼び出しを広告アカウント・エンドポイント付きで記録し、アクセストークンは残さない', async () => {
+    await tiktok.getAllCampaigns(advertiserId, token);
+
+    const [log] = await logs();
+    expect(log).toMatchObject({
+      provider: 'tiktok',
+      method: 'GET',
+      endpoint: '/v1.3/campaign/get/',
+      advertiserId,
+      responseStatus: 200,
+      errorType: null,
+      sampleRate: 1,
+    });
+    expect(JSON.stringify(log.requestBody)).not.toContain(token);
+  });
+
+  it('リトライ前のレート制限も1回の失敗として記録し、集計に出す', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251019/テスト/CR1/LP1-CR00001',
+      budget: 5000,
+    });
+    ctx.api.failNext('/v1.3/smart_plus/adgroup/get/', FAKE_FAILURES.RATE_LIMIT);
+
+    await tiktok.getSmartPlusAdGroups(advertiserId, token, [ad.adgroupId]);
+
+    const rows = await logs();
+    expect(
+      rows.map((row) => [row.endpoint, row.responseStatus, row.errorType]),
+    ).toEqual([
+      ['/v1.3/smart_plus/adgroup/get/', 429, 'RATE_LIMIT'],
+      ['/v1.3/smart_plus/adgroup/get/', 200, null],
+    ]);
+    expect(rows[0].responseBody).toMatchObject({ code: 40900 });
+
+    const summary = await apiLog.summary({ provider: 'tiktok' });
+    expect(summary.byAdvertiser).toEqual([
+      expect.objectContaining({
+        advertiserId,
+        calls: 2,
+        errors: 1,
+        errorRate: 0.5,
+        rateLimitErrors: 1,
+        peakCallsPerMinute: 2,
+      }),
+    ]);
+    expect(summary.byErrorType).toEqual([
+      { errorType: 'RATE_LIMIT', count: 1, share: 1 },
+    ]);
+  });
+
+  it('track() は axios 以外のクライアントの失敗をステータスと種別付きで記録して投げ直す', async () => {
+    const error = Object.assign(new Error('Quota exceeded'), {
+      response: { status: 429, data: { error: { message: 'Quota' } } },
+    });
+
+    await expect(
+      apiLog.track(
+        {
+          provider: 'google-sheets',
+          method: 'GET',
+          endpoint: 'spreadsheets.values.get',
+          requestBody: { spreadsheetId: 'sheet-1', credentials: 'x' },
+        },
+        () => Promise.reject(error),
+      ),
+    ).rejects.toBe(error);
+
+    const [log] = await logs();
+    expect(log).toMatchObject({
+      provider: 'google-sheets',
+      responseStatus: 429,
+      errorType: 'RATE_LIMIT',
+      error: 'Quota exceeded',
+      requestBody: { spreadsheetId: 'sheet-1', credentials: '[REDACTED]' },
+    });
+  });
+
+  it('保持期間を過ぎた記録を削除する', async () => {
+    const now = new Date('2026-03-31T00:00:00Z');
+    const row = {
+      provider: 'tiktok',
+      endpoint: '/v1.3/campaign/get/',
+      method: 'GET',
+      responseStatus: 200,
+      duration: 10,
+      sampleRate: 1,
+    };
+    ctx.prisma.seed('aPILog', {
+      ...row,
+      id: 'old',
+      createdAt: new Date('2026-02-28T00:00:00Z'),
+    });
+    ctx.prisma.seed('aPILog', {
+      ...row,
+      id: 'recent',
+      createdAt: new Date('2026-03-30T00:00:00Z'),
+    });
+
+    await expect(apiLog.cleanup(now)).resolves.toEqual({ deleted: 1 });
+    expect((await logs()).map((log) => log.id)).toEqual(['recent']);
+  });
+});
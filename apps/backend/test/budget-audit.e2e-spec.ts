@@ -0,0 +1,102 @@
+import { BudgetAuditController } from '../src/budget-audit/budget-audit.controller';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Budget audit entity timeline (e2e, offline)', () => {
+  const advertiserA = '7000000000000000811';
+  const advertiserB = '7000000000000000812';
+  let ctx: E2EContext;
+  let controller: BudgetAuditController;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([BudgetAuditController]);
+    controller = ctx.module.get(BudgetAuditController);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.prisma.reset();
+    await seedAccount(ctx, {
+      advertiserId: advertiserA,
+      appeal: { name: 'SNS' },
+    });
+    await seedAccount(ctx, {
+      advertiserId: advertiserB,
+      appeal: { name: 'AI' },
+    });
+    const advertiser = ctx.prisma
+      .rows('advertiser')
+      .find((row) => row.tiktokAdvertiserId === advertiserA)!;
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: 'campaign-a',
+      advertiserId: advertiser.id,
+      name: 'campaign',
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    ctx.prisma.seed('adGroup', {
+      tiktokId: 'adgroup-a',
+      campaignId: campaign.id,
+      name: 'adgroup',
+      budget: 6000,
+      status: 'ENABLE',
+    });
+    // 監査項目導入前の旧ログ（広告アカウント未記録）
+    ctx.prisma.seed('changeLog', {
+      entityType: 'ADGROUP',
+      entityId: 'adgroup-a',
+      action: 'UPDATE_BUDGET',
+      source: 'V2_BUDGET',
+      beforeData: { budget: 5000 },
+      afterData: { budget: 6000 },
+      createdAt: new Date('2026-01-10T00:00:00Z'),
+    });
+  });
+
+  it('旧ログは対象を持つ広告アカウントにだけ返す', async () => {
+    const ownTimeline = await controller.entityTimeline(
+      advertiserA,
+      'ADGROUP',
+      'adgroup-a',
+    );
+    expect(ownTimeline.data).toEqual([
+      expect.objectContaining({
+        entityId: 'adgroup-a',
+        advertiserId: null,
+        before: 5000,
+        after: 6000,
+      }),
+    ]);
+
+    const otherTimeline = await controller.entityTimeline(
+      advertiserB,
+      'ADGROUP',
+      'adgroup-a',
+    );
+    expect(otherTimeline.data).toEqual([]);
+  });
+
+  it('対象が未同期なら旧ログはどの広告アカウントにも返さない', async () => {
+    ctx.prisma.seed('changeLog', {
+      entityType: 'ADGROUP',
+      entityId: 'adgroup-unknown',
+      action: 'UPDATE_BUDGET',
+      source: 'V2_BUDGET',
+      beforeData: { budget: 5000 },
+      afterData: { budget: 6000 },
+    });
+
+    const timeline = await controller.entityTimeline(
+      advertiserA,
+      'ADGROUP',
+      'adgroup-unknown',
+    );
+    expect(timeline.data).toEqual([]);
+  });
+});
@@ -0,0 +1,340 @@
+import { BudgetOptimizationV2Service } from '../src/budget-optimization-v2/budget-optimization-v2.service';
+import { BudgetRuleSetService } from '../src/budget-optimization-v2/budget-rule-set.service';
+import { AppealService } from '../src/appeal/appeal.service';
+import { AdBudgetCapService } from '../src/ad-performance/ad-budget-cap.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { DataSourceService } from '../src/data-source/data-source.service';
+import { ConversionLedgerService } from '../src/conversion-ledger/conversion-ledger.service';
+import { BudgetAuditService } from '../src/budget-audit/budget-audit.service';
+import { ExperimentService } from '../src/experiment/experiment.service';
+import { buildDefaultRuleSet } from '../src/budget-optimization-v2/domain/default-rule-set';
+import { seedReport, seedSmartPlusAd, type SeededAd } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  jstDate,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('BudgetOptimizationV2 hourly optimization (e2e, offline)', () => {
+  const advertiserId = '7000000000000000101';
+  let ctx: E2EContext;
+  let service: BudgetOptimizationV2Service;
+  let token: string;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      BudgetOptimizationV2Service,
+      BudgetRuleSetService,
+      AppealService,
+      AdBudgetCapService,
+      ChannelRegistryService,
+      DataSourceService,
+      ConversionLedgerService,
+      ExperimentService,
+    ]);
+    service = ctx.module.get(BudgetOptimizationV2Service);
+    // 運用時間外でスキップされないよう固定
+    jest.spyOn(service as any, 'getJSTHour').mockReturnValue(10);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    ctx.sheets.reset();
+    ({ accessToken: token } = await seedAccount(ctx, {
+      advertiserId,
+      appeal: {
+        name: 'SNS',
+        targetCPA: 5000,
+        allowableCPA: 8000,
+        targetFrontCPO: 20000,
+        allowableFrontCPO: 40000,
+      },
+    }));
+  });
+
+  /** 過去7日の実績を TikTok レポートとDBメトリクスの両方に入れる */
+  function seedLast7Days(ad: SeededAd, spend: number, impressions: number) {
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: ad.adId,
+      date: jstDate(1),
+      spend,
+      impressions,
+    });
+    ctx.prisma.seed('metric', {
+      entityType: 'AD',
+      adId: ad.adId,
+      statDate: new Date(),
+      spend,
+      impressions,
+    });
+  }
+
+  it('フロントCPOが目標内の広告は増額し、CV0の広告は停止する', async () => {
+    const winner = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 5000,
+    });
+    const loser = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/負けCR/LP2-CR00002',
+      budget: 5000,
+    });
+    seedLast7Days(winner, 10000, 6000);
+    seedLast7Days(loser, 12000, 6000);
+    ctx.sheets
+      .addCV('TikTok広告-SNS-LP1-CR00001', 3)
+      .addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+
+    const result = await service.executeHourlyOptimization(advertiserId, token);
+
+    expect(result.isFirstRound).toBe(true);
+    expect(result.summary).toMatchObject({ increased: 1, paused: 1 });
+
+    // 増額: Smart+ API と通常API の両方に 5000 × 1.3 が書き込まれる
+    expect(ctx.api.store.adgroups.get(winner.adgroupId)?.budget).toBe(6500);
+    expect(
+      ctx.api.requestsTo('/v1.3/smart_plus/adgroup/budget/update/'),
+    ).toHaveLength(1);
+    expect(
+      ctx.prisma
+        .rows('changeLog')
+        .find((log) => log.action === 'UPDATE_BUDGET'),
+    ).toMatchObject({
+      entityId: winner.adgroupId,
+      afterData: { budget: 6500 },
+    });
+
+    // 停止: Smart+広告が DISABLE になり、予算は据え置き
+    expect(ctx.api.store.smartPlusAds.get(loser.adId)?.operation_status).toBe(
+      'DISABLE',
+    );
+    expect(ctx.api.store.smartPlusAds.get(winner.adId)?.operation_status).toBe(
+      'ENABLE',
+    );
+    expect(ctx.api.store.adgroups.get(loser.adgroupId)?.budget).toBe(5000);
+  });
+
+  it('増額を監査タイムラインからロールバックすると元の予算に戻る', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 5000,
+    });
+    seedLast7Days(ad, 10000, 6000);
+    ctx.sheets.addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+    await service.executeHourlyOptimization(advertiserId, token);
+
+    const audit = ctx.module.get(BudgetAuditService);
+    const [increase] = await audit.timeline(advertiserId, {
+      entityId: ad.adgroupId,
+    });
+    expect(increase).toMatchObject({
+      entityType: 'ADGROUP',
+      field: 'BUDGET',
+      before: 5000,
+      after: 6500,
+      actor: { type: 'JOB', name: 'BUDGET_OPTIMIZATION_V2' },
+    });
+    expect(increase.ruleId).toBeTruthy();
+
+    await audit.rollback(advertiserId, increase.id, null);
+
+    expect(ctx.api.store.adgroups.get(ad.adgroupId)?.budget).toBe(5000);
+    const [rollback] = await audit.timeline(advertiserId, {
+      entityId: ad.adgroupId,
+    });
+    expect(rollback).toMatchObject({
+      action: 'ROLLBACK_BUDGET',
+      before: 6500,
+      after: 5000,
+      rollbackOfId: increase.id,
+    });
+
+    // 取り消し済みの変更はもう一度取り消せない
+    await expect(
+      audit.rollback(advertiserId, increase.id, null),
+    ).rejects.toThrow('より新しい変更があります');
+  });
+
+  it('dryRun では判定だけ行い偽APIの状態を変えない', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 5000,
+    });
+    seedLast7Days(ad, 10000, 6000);
+    ctx.sheets.addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+
+    const result = await service.executeHourlyOptimization(
+      advertiserId,
+      token,
+      true,
+    );
+
+    expect(result.stage1Results[0]).toMatchObject({
+      action: 'INCREASE',
+      newBudget: 6500,
+    });
+    expect(ctx.api.store.adgroups.get(ad.adgroupId)?.budget).toBe(5000);
+    expect(ctx.api.requests.filter((r) => r.method === 'POST')).toHaveLength(0);
+  });
+
+  it('全体の一時停止中は判定せずスキップを報告する', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 5000,
+    });
+    seedLast7Days(ad, 10000, 6000);
+    ctx.sheets.addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+    const pause = ctx.prisma.seed('automationPause', {
+      subsystem: 'V2_BUDGET',
+      reason: '障害対応',
+    });
+
+    const result = await service.executeHourlyOptimization(advertiserId, token);
+
+    expect(result.automationSkip).toMatchObject({
+      pauseId: pause.id,
+      scope: 'GLOBAL',
+      subsystem: 'V2_BUDGET',
+    });
+    expect(result.stage1Results).toHaveLength(0);
+    expect(ctx.api.store.adgroups.get(ad.adgroupId)?.budget).toBe(5000);
+    expect(ctx.api.requests).toHaveLength(0);
+  });
+
+  it('予算固定の実験中の広告は増額しないが、停止判定は通常どおり行う', async () => {
+    const frozen = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 5000,
+    });
+    const loser = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/負けCR/LP2-CR00002',
+      budget: 5000,
+    });
+    seedLast7Days(frozen, 10000, 6000);
+    seedLast7Days(loser, 12000, 6000);
+    ctx.sheets.addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+    ctx.prisma.seed('experiment', {
+      name: 'CR本数テスト',
+      experimentType: 'AB_TEST',
+      status: 'RUNNING',
+      config: {
+        arms: [
+          { key: 'A', name: 'A', adIds: [frozen.adId], adgroupIds: [] },
+          { key: 'B', name: 'B', adIds: [], adgroupIds: [loser.adgroupId] },
+        ],
+        controlArm: 'A',
+        primaryMetric: 'CPA',
+        minSample: { minConversions: 20, minSpend: 0, minDays: 7 },
+        alpha: 0.05,
+        freezeBudgets: true,
+        advertiserIds: [advertiserId],
+      },
+    });
+
+    const result = await service.executeHourlyOptimization(advertiserId, token);
+
+    expect(result.stage1Results[0]).toMatchObject({
+      adId: frozen.adId,
+      action: 'SKIP',
+      reason: '実験中のため予算固定: CR本数テスト',
+    });
+    expect(ctx.api.store.adgroups.get(frozen.adgroupId)?.budget).toBe(5000);
+    expect(ctx.api.store.smartPlusAds.get(loser.adId)?.operation_status).toBe(
+      'DISABLE',
+    );
+  });
+
+  it('実験を取得できなければこの回の予算変更を見送り、停止判定は通常どおり行う', async () => {
+    const winner = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 5000,
+    });
+    const loser = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/負けCR/LP2-CR00002',
+      budget: 5000,
+    });
+    seedLast7Days(winner, 10000, 6000);
+    seedLast7Days(loser, 12000, 6000);
+    ctx.sheets.addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+    const budgetFreeze = jest
+      .spyOn(ctx.module.get(ExperimentService), 'budgetFreeze')
+      .mockRejectedValue(new Error('connection reset'));
+
+    const result = await service.executeHourlyOptimization(advertiserId, token);
+    budgetFreeze.mockRestore();
+
+    expect(result.stage1Results).toEqual([
+      expect.objectContaining({
+        adId: winner.adId,
+        action: 'SKIP',
+        reason: '実験の予算固定を取得できないため予算変更なし',
+      }),
+      expect.objectContaining({ adId: loser.adId, action: 'SKIP' }),
+    ]);
+    expect(ctx.api.store.adgroups.get(winner.adgroupId)?.budget).toBe(5000);
+    expect(ctx.api.store.smartPlusAds.get(loser.adId)?.operation_status).toBe(
+      'DISABLE',
+    );
+  });
+
+  it('CBOキャンペーンはキャンペーン予算を増額する', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/勝ちCR/LP1-CR00001',
+      budget: 10000,
+      cbo: true,
+    });
+    seedLast7Days(ad, 10000, 6000);
+    ctx.sheets.addFrontSale('TikTok広告-SNS-LP1-CR00001', 1);
+
+    await service.executeHourlyOptimization(advertiserId, token);
+
+    expect(ctx.api.store.campaigns.get(ad.campaignId)?.budget).toBe(13000);
+    expect(
+      ctx.api.requestsTo('/v1.3/smart_plus/campaign/update/'),
+    ).toHaveLength(1);
+  });
+
+  it('同じスコープへの同時保存は版番号が重複せず、後から保存した方が次の版になる', async () => {
+    const rules = ctx.module.get(BudgetRuleSetService);
+    const definition = buildDefaultRuleSet('SNS');
+    const first = await rules.create({ channelType: 'SNS', definition });
+
+    // 同時に保存した側は v1 の作成前に最新版を読んでいる
+    jest
+      .spyOn(ctx.prisma.budgetRuleSet, 'findFirst')
+      .mockResolvedValueOnce(null);
+    const second = await rules.create({
+      channelType: 'SNS',
+      definition,
+      activate: true,
+    });
+
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect(
+      ctx.prisma.rows('budgetRuleSet').map((r) => [r.scopeKey, r.version]),
+    ).toEqual([
+      ['SNS:*', 1],
+      ['SNS:*', 2],
+    ]);
+    await expect(rules.resolve('SNS', null)).resolves.toMatchObject({
+      source: 'DB',
+      version: 2,
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { ConversionLedgerService } from '../src/conversion-ledger/conversion-ledger.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { DataSourceService } from '../src/data-source/data-source.service';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Conversion ledger sync / counts (e2e, offline)', () => {
+  const advertiserId = '7000000000000000301';
+  const cvUrl = 'https://docs.google.com/spreadsheets/d/fake-cv/edit';
+  let ctx: E2EContext;
+  let ledger: ConversionLedgerService;
+
+  const start = new Date('2026-02-15T00:00:00+09:00');
+  const end = new Date('2026-02-15T23:59:59.999+09:00');
+
+  const cvSheet = (...rows: string[][]) =>
+    ctx.sheets.setValues("'TT_オプト'", [['登録日時', '登録経路'], ...rows]);
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      ConversionLedgerService,
+      ChannelRegistryService,
+      DataSourceService,
+    ]);
+    ledger = ctx.module.get(ConversionLedgerService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.prisma.reset();
+    ctx.sheets.reset();
+    await seedAccount(ctx, { advertiserId, appeal: { name: 'SNS' } });
+  });
+
+  it('シートの行を取り込み、件数は台帳から数える', async () => {
+    cvSheet(
+      ['2026/02/15 09:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/15 10:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/16 10:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/15 11:00', 'TikTok広告-SNS-LP2-CR00002'],
+    );
+    ctx.sheets.setValues("'TT【OTO】'", [
+      ['登録日時', '登録経路'],
+      ['2026/02/15 12:00', 'TikTok広告-SNS-LP1-CR00001'],
+    ]);
+
+    const result = await ledger.syncAll();
+
+    expect(
+      result.sheets.find((s) => s.sheetName === 'TT_オプト'),
+    ).toMatchObject({
+      kind: 'CV',
+      spreadsheetId: 'fake-cv',
+      status: 'OK',
+      inserted: 4,
+    });
+    // FakeGoogleSheets のイベントは空なので、シートから数えれば0になる
+    await expect(
+      ledger.getCVCount('SNS', cvUrl, 'TikTok広告-SNS-LP1-CR00001', start, end),
+    ).resolves.toBe(2);
+    await expect(
+      ledger.getFrontSalesCount(
+        'SNS',
+        'https://docs.google.com/spreadsheets/d/fake-front/edit',
+        'TikTok広告-SNS-LP1-CR00001',
+        start,
+        end,
+      ),
+    ).resolves.toBe(1);
+    await expect(
+      ledger.dailyCounts({
+        kind: 'CV',
+        registrationPath: 'TikTok広告-SNS-LP1-CR00001',
+        from: '2026-02-01',
+        to: '2026-02-28',
+      }),
+    ).resolves.toEqual([
+      { date: '2026-02-15', count: 2 },
+      { date: '2026-02-16', count: 1 },
+    ]);
+  });
+
+  it('再同期では新しい行だけを追加し、シートから消えた行を削除する', async () => {
+    cvSheet(
+      ['2026/02/15 09:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/15 10:00', 'TikTok広告-SNS-LP1-CR00001'],
+    );
+    await ledger.syncAll();
+
+    cvSheet(
+      ['2026/02/15 10:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/15 11:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/15 11:00', 'TikTok広告-SNS-LP1-CR00001'],
+    );
+    const result = await ledger.syncAll();
+
+    expect(
+      result.sheets.find((s) => s.sheetName === 'TT_オプト'),
+    ).toMatchObject({ inserted: 2, deleted: 1, rowCount: 3 });
+    expect(
+      ctx.prisma.rows('conversionEvent').filter((e) => e.kind === 'CV'),
+    ).toHaveLength(3);
+  });
+
+  it('LP-CR と訴求名が一致する広告に紐付ける', async () => {
+    const [advertiser] = ctx.prisma.rows('advertiser');
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: 'campaign-1',
+      advertiserId: advertiser.id,
+      name: 'campaign',
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: 'adgroup-1',
+      campaignId: campaign.id,
+      name: 'adgroup',
+      status: 'ENABLE',
+    });
+    const ad = ctx.prisma.seed('ad', {
+      tiktokId: 'ad-1',
+      adgroupId: adGroup.id,
+      name: '251001/山田/勝ちCR/LP1-CR00001',
+      creativeId: 'creative-1',
+      status: 'ENABLE',
+    });
+    cvSheet(
+      ['2026/02/15 09:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/15 09:30', 'TikTok広告-AI-LP1-CR00001'],
+    );
+
+    await ledger.syncAll();
+
+    const events = ctx.prisma.rows('conversionEvent');
+    expect(
+      events.find((e) => e.registrationPath === 'TikTok広告-SNS-LP1-CR00001'),
+    ).toMatchObject({ adId: ad.id, lpCr: 'LP1-CR00001' });
+    expect(
+      events.find((e) => e.registrationPath === 'TikTok広告-AI-LP1-CR00001'),
+    ).toMatchObject({ adId: null });
+
+    const daily = await ledger.adDailyCounts('ad-1', {
+      from: '2026-02-15',
+      to: '2026-02-15',
+    });
+    expect(daily).toMatchObject({
+      advertiserId,
+      counts: { CV: [{ date: '2026-02-15', count: 1 }], FRONT_SALES: [] },
+    });
+  });
+
+  it('導線ごとの日別件数を台帳から数え、同期が古ければ null を返す', async () => {
+    cvSheet(
+      ['2026/02/15 09:00', 'TikTok広告-SNS-LP1-CR00001'],
+      ['2026/02/16 10:00', 'TikTok広告-SNS-LP2-CR00002'],
+      ['2026/03/01 10:00', 'TikTok広告-SNS-LP1-CR00001'],
+    );
+    await ledger.syncAll();
+
+    const counts = await ledger.channelDailyCounts(
+      'SNS',
+      '2026-02-01',
+      '2026-02-28',
+    );
+    expect(counts?.CV).toEqual([
+      { date: '2026-02-15', count: 1 },
+      { date: '2026-02-16', count: 1 },
+    ]);
+    await expect(
+      ledger.channelDailyCounts('AI', '2026-02-01', '2026-02-28'),
+    ).resolves.toBeNull();
+
+    const sync = ctx.prisma
+      .rows('conversionSheetSync')
+      .find((s) => s.sheetName === 'TT_オプト')!;
+    sync.lastSyncedAt = new Date(Date.now() - 60 * 60 * 1000);
+    await expect(
+      ledger.channelDailyCounts('SNS', '2026-02-01', '2026-02-28'),
+    ).resolves.toBeNull();
+  });
+
+  it('同期が古い・失敗したシートはシートから数える', async () => {
+    cvSheet(['2026/02/15 09:00', 'TikTok広告-SNS-LP1-CR00001']);
+    await ledger.syncAll();
+    ctx.sheets.addCV(
+      'TikTok広告-SNS-LP1-CR00001',
+      5,
+      new Date('2026-02-15T12:00:00+09:00'),
+    );
+
+    const sync = ctx.prisma
+      .rows('conversionSheetSync')
+      .find((s) => s.sheetName === 'TT_オプト')!;
+    sync.lastSyncedAt = new Date(Date.now() - 60 * 60 * 1000);
+    await expect(
+      ledger.getCVCount('SNS', cvUrl, 'TikTok広告-SNS-LP1-CR00001', start, end),
+    ).resolves.toBe(5);
+
+    // 登録経路の列が見つからない → FAILED を記録してジョブを失敗させる
+    ctx.sheets.setValues("'TT_オプト'", [['登録日時', 'メモ']]);
+    await expect(ledger.syncAll()).rejects.toThrow('Failed to sync 1 sheet');
+    expect(sync).toMatchObject({ status: 'FAILED', rowCount: 1 });
+    await expect(
+      ledger.getCVCount('SNS', cvUrl, 'TikTok広告-SNS-LP1-CR00001', start, end),
+    ).resolves.toBe(5);
+  });
+});
@@ -0,0 +1,166 @@
+import { CreativeAssetService } from '../src/creative-asset/creative-asset.service';
+import { seedVideo } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Creative asset lineage (e2e, offline)', () => {
+  const ai1 = '7000000000000000501';
+  const ai2 = '7000000000000000502';
+  const content = Buffer.from('winning-video-bytes');
+  let ctx: E2EContext;
+  let assets: CreativeAssetService;
+  let token1: string;
+  let token2: string;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([CreativeAssetService]);
+    assets = ctx.module.get(CreativeAssetService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    ({ accessToken: token1 } = await seedAccount(ctx, {
+      advertiserId: ai1,
+      appeal: { name: 'AI' },
+    }));
+    ({ accessToken: token2 } = await seedAccount(ctx, {
+      advertiserId: ai2,
+      appeal: { name: 'AI' },
+    }));
+  });
+
+  /** 同期済みの広告（Creative.tiktokVideoId で動画に紐付く）と実績を登録する */
+  function seedAdUsing(
+    advertiserId: string,
+    videoId: string,
+    spend: number,
+    cv: number,
+  ) {
+    const advertiser = ctx.prisma
+      .rows('advertiser')
+      .find((row) => row.tiktokAdvertiserId === advertiserId)!;
+    const creative = ctx.prisma.seed('creative', {
+      advertiserId: advertiser.id,
+      name: `Video ${videoId}`,
+      tiktokVideoId: videoId,
+      type: 'VIDEO',
+      url: videoId,
+      filename: `video_${videoId}`,
+    });
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: `campaign-${videoId}`,
+      advertiserId: advertiser.id,
+      name: 'campaign',
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: `adgroup-${videoId}`,
+      campaignId: campaign.id,
+      name: 'adgroup',
+      status: 'ENABLE',
+    });
+    const ad = ctx.prisma.seed('ad', {
+      tiktokId: `ad-${videoId}`,
+      adgroupId: adGroup.id,
+      name: `260301/山田/勝ちCR/LP1-CR0000${cv}`,
+      creativeId: creative.id,
+      status: 'ENABLE',
+    });
+    ctx.prisma.seed('metric', {
+      entityType: 'AD',
+      adId: ad.id,
+      statDate: new Date('2026-03-01T00:00:00.000Z'),
+      spend,
+      impressions: 1000,
+      clicks: 10,
+    });
+    for (let i = 0; i < cv; i++) {
+      ctx.prisma.seed('conversionEvent', {
+        kind: 'CV',
+        spreadsheetId: 'fake-cv',
+        sheetName: 'TT_オプト',
+        rowHash: `${ad.id}-${i}`,
+        registrationPath: 'TikTok広告-AI-LP1-CR00001',
+        adId: ad.id,
+        occurredAt: new Date('2026-03-01T03:00:00.000Z'),
+        jstDate: '2026-03-01',
+      });
+    }
+  }
+
+  it('複数アカウントのコピーを使った広告の実績を素材単位に合算する', async () => {
+    const original = seedVideo(ctx.api.store, { advertiserId: ai1, content });
+    await assets.recordCopy('VIDEO', content, {
+      advertiserId: ai1,
+      tiktokMediaId: original,
+      origin: 'SOURCE',
+    });
+    const copy = await assets.uploadVideo({
+      advertiserId: ai2,
+      accessToken: token2,
+      buffer: content,
+      filename: 'winning.mp4',
+      origin: 'CROSS_DEPLOY',
+      sourceMediaId: original,
+    });
+    seedAdUsing(ai1, original, 10000, 2);
+    seedAdUsing(ai2, copy.mediaId, 30000, 3);
+
+    const result = await assets.performance(copy.assetId!, {}, null);
+
+    expect(result.total).toMatchObject({
+      adCount: 2,
+      spend: 40000,
+      conversions: 5,
+      cpa: 8000,
+    });
+    expect(
+      result.deployments.map((d) => [d.advertiserId, d.tiktokMediaIds, d.cpa]),
+    ).toEqual([
+      [ai2, [copy.mediaId], 10000],
+      [ai1, [original], 5000],
+    ]);
+
+    // 担当外のアカウントのコピーは実績にも含めない
+    const scoped = await assets.performance(copy.assetId!, {}, [ai1]);
+    expect(scoped.total.spend).toBe(10000);
+    expect((await assets.list({}, [ai1]))[0].copies).toHaveLength(1);
+  });
+
+  it('TikTok 側で削除されたコピーは系譜から外して再アップロードする', async () => {
+    const first = await assets.uploadVideo({
+      advertiserId: ai1,
+      accessToken: token1,
+      buffer: content,
+      filename: 'winning.mp4',
+      origin: 'STREAMLINED_CREATOR',
+    });
+    ctx.api.store.videos.delete(first.mediaId);
+
+    const second = await assets.uploadVideo({
+      advertiserId: ai1,
+      accessToken: token1,
+      buffer: content,
+      filename: 'winning.mp4',
+      origin: 'REDEPLOY',
+    });
+
+    expect(second).toMatchObject({ reused: false, assetId: first.assetId });
+    expect(second.mediaId).not.toBe(first.mediaId);
+    expect(ctx.prisma.rows('creativeAssetCopy')).toEqual([
+      expect.objectContaining({
+        tiktokMediaId: second.mediaId,
+        origin: 'REDEPLOY',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+import { CrossDeployPlannerService } from '../src/cross-deploy-planner/cross-deploy-planner.service';
+import { CrossDeployService } from '../src/cross-deploy/cross-deploy.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { CreativeAssetService } from '../src/creative-asset/creative-asset.service';
+import { UtageService } from '../src/utage/utage.service';
+import { seedSmartPlusAd, seedVideo } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('CrossDeploy planner & rollout queue (e2e, offline)', () => {
+  const source = '7000000000000000701';
+  const running = '7000000000000000702';
+  const open = '7000000000000000703';
+  const deployed = '7000000000000000704';
+  // 2026-03-10 10:00 JST（判定期間は 3/3〜3/9）
+  const now = new Date('2026-03-10T01:00:00.000Z');
+  const utage = {
+    createRegistrationPathAndGetUrl: jest.fn(),
+  };
+  let ctx: E2EContext;
+  let planner: CrossDeployPlannerService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      CrossDeployPlannerService,
+      CrossDeployService,
+      ChannelRegistryService,
+      CreativeAssetService,
+      { provide: UtageService, useValue: utage },
+    ]);
+    planner = ctx.module.get(CrossDeployPlannerService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ctx.api.reset();
+    ctx.prisma.reset();
+    utage.createRegistrationPathAndGetUrl.mockResolvedValue({
+      crNumber: 512,
+      registrationPath: 'TikTok広告-AI-LP2-CR00512',
+      destinationUrl: 'https://example.com/lp2?ftid=abc',
+    });
+    for (const advertiserId of [source, running, open, deployed]) {
+      await seedAccount(ctx, {
+        advertiserId,
+        appeal: { name: 'AI', targetCPA: 3000, allowableCPA: 4000 },
+        pixelId: `pixel-${advertiserId}`,
+        identityId: `identity-${advertiserId}`,
+      });
+    }
+  });
+
+  /** 同期済みの配信中広告（Campaign / AdGroup / Ad）を登録する */
+  function seedAd(advertiserId: string, tiktokId: string, name: string) {
+    const advertiser = ctx.prisma
+      .rows('advertiser')
+      .find((row) => row.tiktokAdvertiserId === advertiserId)!;
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: `campaign-${tiktokId}`,
+      advertiserId: advertiser.id,
+      name,
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: `adgroup-${tiktokId}`,
+      campaignId: campaign.id,
+      name: 'adgroup',
+      budget: 3000,
+      status: 'ENABLE',
+    });
+    return ctx.prisma.seed('ad', {
+      tiktokId,
+      adgroupId: adGroup.id,
+      name,
+      creativeId: `creative-${tiktokId}`,
+      status: 'ENABLE',
+    });
+  }
+
+  function seedPerformance(adId: string, spend: number, cv: number) {
+    ctx.prisma.seed('metric', {
+      entityType: 'AD',
+      adId,
+      statDate: new Date('2026-03-08T00:00:00.000Z'),
+      spend,
+      impressions: spend * 10,
+      clicks: spend / 100,
+    });
+    for (let i = 0; i < cv; i++) {
+      ctx.prisma.seed('conversionEvent', {
+        kind: 'CV',
+        spreadsheetId: 'fake-cv',
+        sheetName: 'TT_オプト',
+        rowHash: `${adId}-${i}`,
+        registrationPath: 'TikTok広告-AI-LP2-CR00468',
+        adId,
+        occurredAt: new Date('2026-03-08T03:00:00.000Z'),
+        jstDate: '2026-03-08',
+      });
+    }
+  }
+
+  function seedCrossDeployLog(
+    sourceAdId: string,
+    targetAdvertiserId: string,
+    data: { status: string; adId?: string; createdAt?: Date },
+  ) {
+    ctx.prisma.seed('crossDeployLog', {
+      sourceAdvertiserId: source,
+      sourceAdId,
+      targetAdvertiserId,
+      mode: 'SMART_PLUS',
+      adId: null,
+      ...data,
+    });
+  }
+
+  /** 元アカウントの勝ちCR（偽APIの Smart+ 広告と同期済みの広告） */
+  function seedWinner() {
+    const videoId = seedVideo(ctx.api.store, {
+      advertiserId: source,
+      content: Buffer.from('winning-video-bytes'),
+    });
+    const adName = '260301/山田/勝ちCR/LP2-CR00468';
+    const { adId } = seedSmartPlusAd(ctx.api.store, {
+      advertiserId: source,
+      adName,
+      budget: 5000,
+      videoIds: [videoId],
+      adTexts: ['元広告の広告文'],
+    });
+    const ad = seedAd(source, adId, adName);
+    seedPerformance(ad.id, 15000, 5); // CPA 3,000 = 目標達成
+    return adId;
+  }
+
+  it('KPI達成の勝ちCRを選び、同じクリエイティブが配信中・横展開済みのアカウントを除いて提案する', async () => {
+    const winner = seedWinner();
+    const loser = seedAd(source, 'ad-loser', '260301/佐藤/負けCR/LP1-CR00100');
+    seedPerformance(loser.id, 30000, 5); // CPA 6,000 = 許容超過
+    seedAd(running, 'ad-running', '260305/山田/勝ちCR/LP2-CR00490');
+    seedCrossDeployLog(winner, deployed, { status: 'COMPLETED', adId: 'ad-x' });
+    // 失敗・ドライランのログは展開済みに数えない
+    seedCrossDeployLog(winner, open, { status: 'FAILED' });
+    seedCrossDeployLog(winner, open, { status: 'COMPLETED' });
+
+    const candidates = await planner.candidates({}, null, now);
+
+    expect(candidates).toEqual([
+      expect.objectContaining({
+        sourceAdvertiserId: source,
+        sourceAdId: winner,
+        period: { from: '2026-03-03', to: '2026-03-09' },
+        spend: 15000,
+        conversions: 5,
+        cpa: 3000,
+        attainment: expect.objectContaining({ status: 'ACHIEVED' }),
+        targetAdvertiserIds: [open],
+        excludedTargets: [
+          { advertiserId: running, reason: 'ALREADY_RUNNING' },
+          { advertiserId: deployed, reason: 'CROSS_DEPLOYED' },
+        ],
+      }),
+    ]);
+    // 担当外のアカウントの広告は元広告として提案しない
+    expect(await planner.candidates({}, [running], now)).toEqual([]);
+  });
+
+  it('承認した展開先をキューから横展開し、結果をロールアウトに記録する', async () => {
+    const winner = seedWinner();
+    seedAd(running, 'ad-running', '260305/山田/勝ちCR/LP2-CR00490');
+
+    await expect(
+      planner.approve(
+        {
+          sourceAdvertiserId: source,
+          sourceAdId: winner,
+          targetAdvertiserIds: [running],
+        },
+        'user-1',
+        now,
+      ),
+    ).rejects.toThrow(
+      `Targets cannot be rolled out: ${running} (ALREADY_RUNNING)`,
+    );
+
+    const [rollout] = await planner.approve(
+      {
+        sourceAdvertiserId: source,
+        sourceAdId: winner,
+        targetAdvertiserIds: [open],
+        dailyBudget: 3000,
+      },
+      'user-1',
+      now,
+    );
+    expect(rollout).toMatchObject({
+      status: 'QUEUED',
+      targetAdvertiserId: open,
+      approvedBy: 'user-1',
+      candidate: expect.objectContaining({ conversions: 5, cpa: 3000 }),
+    });
+    // キュー待ちの展開先は提案から外れる
+    expect(
+      (await planner.candidates({}, null, now))[0].excludedTargets,
+    ).toContainEqual({ advertiserId: open, reason: 'IN_QUEUE' });
+
+    const result = await planner.processQueue(now);
+
+    expect(result).toMatchObject({ dispatched: 1, completed: 1, failed: 0 });
+    const [completed] = ctx.prisma.rows('crossDeployRollout');
+    expect(completed).toMatchObject({
+      status: 'COMPLETED',
+      attempts: 1,
+      crNumber: 512,
+      adName: expect.stringMatching(/\/山田\/勝ちCR\/LP2-CR00512$/),
+    });
+    expect(ctx.api.store.smartPlusAds.get(completed.adId)).toMatchObject({
+      advertiser_id: open,
+    });
+    expect(
+      ctx.prisma
+        .rows('crossDeployLog')
+        .filter((log) => log.targetAdvertiserId === open),
+    ).toEqual([
+      expect.objectContaining({ status: 'COMPLETED', adId: completed.adId }),
+    ]);
+
+    // 完了したものは取り消せない
+    await expect(planner.cancel(completed.id, null)).rejects.toThrow(
+      'Only QUEUED rollouts can be changed (status: COMPLETED)',
+    );
+  }, 30000);
+
+  it('展開先の当日の上限・自動化の一時停止中はキューに残して次回に回す', async () => {
+    const winner = seedWinner();
+    // 手動の横展開も当日の件数に数える（既定の上限: 1アカウント1日2件）
+    seedCrossDeployLog('other-ad-1', open, {
+      status: 'COMPLETED',
+      adId: 'ad-1',
+      createdAt: now,
+    });
+    seedCrossDeployLog('other-ad-2', open, {
+      status: 'COMPLETED',
+      adId: 'ad-2',
+      createdAt: now,
+    });
+    ctx.prisma.seed('automationPause', {
+      advertiserId: deployed,
+      subsystem: 'CROSS_DEPLOY_ROLLOUT',
+      reason: '新LPローンチ中',
+    });
+
+    const rollouts = await planner.approve(
+      {
+        sourceAdvertiserId: source,
+        sourceAdId: winner,
+        targetAdvertiserIds: [open, deployed],
+      },
+      null,
+      now,
+    );
+
+    const result = await planner.processQueue(now);
+
+    expect(result).toMatchObject({
+      dispatched: 0,
+      deferred: [
+        {
+          rolloutId: rollouts[0].id,
+          targetAdvertiserId: open,
+          reason: 'DAILY_CAP',
+        },
+      ],
+      automationSkips: [
+        expect.objectContaining({
+          advertiserId: deployed,
+          subsystem: 'CROSS_DEPLOY_ROLLOUT',
+        }),
+      ],
+    });
+    expect(ctx.prisma.rows('crossDeployRollout').map((r) => r.status)).toEqual([
+      'QUEUED',
+      'QUEUED',
+    ]);
+    expect(utage.createRegistrationPathAndGetUrl).not.toHaveBeenCalled();
+
+    // キュー待ちは取り消せる
+    expect(await planner.cancel(rollouts[1].id, [deployed])).toMatchObject({
+      status: 'CANCELLED',
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { CrossDeployService } from '../src/cross-deploy/cross-deploy.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { UtageService } from '../src/utage/utage.service';
+import { CreativeAssetService } from '../src/creative-asset/creative-asset.service';
+import { seedSmartPlusAd, seedVideo, videoAssetPath } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('CrossDeploy Smart+ (e2e, offline)', () => {
+  const sourceAdvertiserId = '7000000000000000301';
+  const targetAdvertiserId = '7000000000000000302';
+  const utage = {
+    createRegistrationPathAndGetUrl: jest.fn(),
+  };
+  let ctx: E2EContext;
+  let service: CrossDeployService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      CrossDeployService,
+      ChannelRegistryService,
+      CreativeAssetService,
+      { provide: UtageService, useValue: utage },
+    ]);
+    service = ctx.module.get(CrossDeployService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ctx.api.reset();
+    ctx.prisma.reset();
+    utage.createRegistrationPathAndGetUrl.mockResolvedValue({
+      crNumber: 123,
+      registrationPath: 'TikTok広告-AI-LP2-CR00123',
+      destinationUrl: 'https://example.com/lp2?ftid=abc',
+    });
+    await seedAccount(ctx, {
+      advertiserId: sourceAdvertiserId,
+      appeal: { name: 'AI' },
+    });
+  });
+
+  function seedSource() {
+    const videoId = seedVideo(ctx.api.store, {
+      advertiserId: sourceAdvertiserId,
+      content: Buffer.from('source-video-bytes'),
+    });
+    const source = seedSmartPlusAd(ctx.api.store, {
+      advertiserId: sourceAdvertiserId,
+      adName: '251001/山田/勝ちCR/LP2-CR00001',
+      budget: 5000,
+      videoIds: [videoId],
+      adTexts: ['元広告の広告文'],
+    });
+    return { videoId, source };
+  }
+
+  it('元広告の動画をターゲットに再アップロードし、Smart+広告一式を作成する', async () => {
+    await seedAccount(ctx, {
+      advertiserId: targetAdvertiserId,
+      appeal: { name: 'AI' },
+      pixelId: 'pixel-302',
+      identityId: 'identity-302',
+    });
+    const { source } = seedSource();
+
+    const [result] = await service.crossDeploy({
+      sourceAdvertiserId,
+      sourceAdId: source.adId,
+      targetAdvertiserIds: [targetAdvertiserId],
+      mode: 'SMART_PLUS',
+      dailyBudget: 3000,
+    });
+
+    expect(result).toMatchObject({ status: 'SUCCESS', crNumber: 123 });
+    expect(result.adName).toMatch(/^\d{6}\/山田\/勝ちCR\/LP2-CR00123$/);
+    expect(utage.createRegistrationPathAndGetUrl).toHaveBeenCalledWith('AI', 2);
+
+    // ターゲットアカウントに同じ中身の動画が新しいIDで入っている
+    const [newVideoId] = Object.values(result.videoMapping ?? {});
+    expect(ctx.api.store.videos.get(newVideoId)?.advertiser_id).toBe(
+      targetAdvertiserId,
+    );
+    expect(
+      ctx.api.store.assets.get(videoAssetPath(newVideoId))?.toString(),
+    ).toBe('source-video-bytes');
+
+    // Smart+広告はターゲットのアカウント・広告グループ配下に作られる
+    const ad = ctx.api.store.smartPlusAds.get(result.adId!);
+    expect(ad).toMatchObject({
+      advertiser_id: targetAdvertiserId,
+      adgroup_id: result.adgroupId,
+      ad_name: result.adName,
+    });
+    expect(ad?.creative_list[0].creative_info.video_info.video_id).toBe(
+      newVideoId,
+    );
+    expect(ad?.landing_page_url_list[0].landing_page_url).toContain(
+      'https://example.com/lp2?ftid=abc&utm_source=tiktok',
+    );
+    expect(ctx.api.store.adgroups.get(result.adgroupId!)?.budget).toBe(3000);
+
+    expect(ctx.prisma.rows('crossDeployLog')).toEqual([
+      expect.objectContaining({
+        status: 'COMPLETED',
+        adId: result.adId,
+        campaignId: result.campaignId,
+      }),
+    ]);
+  }, 30000);
+
+  it('同じ動画がターゲットにあれば再アップロードせず、素材の系譜に元と先を記録する', async () => {
+    await seedAccount(ctx, {
+      advertiserId: targetAdvertiserId,
+      appeal: { name: 'AI' },
+      pixelId: 'pixel-302',
+      identityId: 'identity-302',
+    });
+    const { videoId, source } = seedSource();
+    const input = {
+      sourceAdvertiserId,
+      sourceAdId: source.adId,
+      targetAdvertiserIds: [targetAdvertiserId],
+      mode: 'SMART_PLUS' as const,
+      dryRun: true,
+    };
+
+    const [first] = await service.crossDeploy(input);
+    const [second] = await service.crossDeploy(input);
+
+    expect(second.status).toBe('SUCCESS');
+    expect(second.videoMapping).toEqual(first.videoMapping);
+    expect(ctx.api.requestsTo('/v1.3/file/video/ad/upload/')).toHaveLength(1);
+
+    const [asset] = ctx.prisma.rows('creativeAsset');
+    expect(ctx.prisma.rows('creativeAsset')).toHaveLength(1);
+    expect(
+      ctx.prisma
+        .rows('creativeAssetCopy')
+        .map((copy) => [copy.assetId, copy.advertiserId, copy.origin]),
+    ).toEqual([
+      [asset.id, sourceAdvertiserId, 'SOURCE'],
+      [asset.id, targetAdvertiserId, 'CROSS_DEPLOY'],
+    ]);
+    expect(
+      ctx.prisma
+        .rows('creativeAssetCopy')
+        .find((copy) => copy.advertiserId === targetAdvertiserId),
+    ).toMatchObject({
+      tiktokMediaId: first.videoMapping![videoId],
+      sourceMediaId: videoId,
+    });
+  }, 30000);
+
+  it('命名規則に合わない広告名の上書きは何も作らずに弾く', async () => {
+    const { source } = seedSource();
+
+    await expect(
+      service.crossDeploy({
+        sourceAdvertiserId,
+        sourceAdId: source.adId,
+        targetAdvertiserIds: [targetAdvertiserId],
+        mode: 'SMART_PLUS',
+        adNameOverride: '勝ちCR_横展開',
+      }),
+    ).rejects.toThrow(
+      'Invalid cross deploy: ad name must be in the form YYMMDD/制作者名/CR名/LP{n}-CR{5桁}',
+    );
+    expect(ctx.prisma.rows('crossDeployLog')).toEqual([]);
+    expect(utage.createRegistrationPathAndGetUrl).not.toHaveBeenCalled();
+  });
+
+  it('ターゲットのトークンが無ければ FAILED をログに残す', async () => {
+    const { source } = seedSource();
+
+    const [result] = await service.crossDeploy({
+      sourceAdvertiserId,
+      sourceAdId: source.adId,
+      targetAdvertiserIds: [targetAdvertiserId],
+      mode: 'SMART_PLUS',
+    });
+
+    expect(result).toMatchObject({
+      status: 'FAILED',
+      failedStep: 'VIDEO_UPLOAD',
+    });
+    expect(ctx.prisma.rows('crossDeployLog')[0]).toMatchObject({
+      status: 'FAILED',
+      targetAdvertiserId,
+    });
+    expect(ctx.api.requestsTo('/v1.3/file/video/ad/upload/')).toHaveLength(0);
+  });
+});
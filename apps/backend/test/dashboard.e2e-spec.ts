@@ -0,0 +1,204 @@
+import { DashboardService } from '../src/dashboard/dashboard.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Dashboard from synced data (e2e, offline)', () => {
+  const sns = '7000000000000000301';
+  const ai = '7000000000000000302';
+  const now = new Date('2026-03-07T12:00:00Z'); // JST 3/7 21:00
+  let ctx: E2EContext;
+  let dashboard: DashboardService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([DashboardService, ChannelRegistryService]);
+    dashboard = ctx.module.get(DashboardService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    await seedAccount(ctx, {
+      advertiserId: sns,
+      appeal: {
+        name: 'SNS',
+        targetCPA: 5000,
+        allowableCPA: 8000,
+        targetFrontCPO: 20000,
+        allowableFrontCPO: 40000,
+      },
+    });
+    await seedAccount(ctx, { advertiserId: ai, appeal: { name: 'AI' } });
+  });
+
+  /** キャンペーン1つ・広告グループ2つ・広告1つを登録する */
+  function seedCampaign(advertiserId: string, name: string) {
+    const advertiser = ctx.prisma
+      .rows('advertiser')
+      .find((row) => row.tiktokAdvertiserId === advertiserId)!;
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: `campaign-${name}`,
+      advertiserId: advertiser.id,
+      name,
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: `adgroup-${name}`,
+      campaignId: campaign.id,
+      name: 'adgroup',
+      budget: 3000,
+      status: 'ENABLE',
+    });
+    ctx.prisma.seed('adGroup', {
+      tiktokId: `adgroup-${name}-2`,
+      campaignId: campaign.id,
+      name: 'adgroup 2',
+      budget: 2000,
+      status: 'ENABLE',
+    });
+    return ctx.prisma.seed('ad', {
+      tiktokId: `ad-${name}`,
+      adgroupId: adGroup.id,
+      name: `260301/山田/${name}/LP1-CR00001`,
+      creativeId: 'creative-1',
+      status: 'ENABLE',
+    });
+  }
+
+  function seedDay(
+    adId: string,
+    date: string,
+    spend: number,
+    counts: { cv?: number; front?: number } = {},
+  ) {
+    ctx.prisma.seed('metric', {
+      entityType: 'AD',
+      adId,
+      statDate: new Date(`${date}T00:00:00.000Z`),
+      spend,
+      impressions: spend * 10,
+      clicks: spend / 100,
+    });
+    const events = [
+      ...Array(counts.cv ?? 0).fill('CV'),
+      ...Array(counts.front ?? 0).fill('FRONT_SALES'),
+    ];
+    events.forEach((kind, i) =>
+      ctx.prisma.seed('conversionEvent', {
+        kind,
+        spreadsheetId: 'fake-cv',
+        sheetName: 'TT_オプト',
+        rowHash: `${adId}-${date}-${i}`,
+        registrationPath: 'TikTok広告-SNS-LP1-CR00001',
+        adId,
+        occurredAt: new Date(`${date}T03:00:00.000Z`),
+        jstDate: date,
+      }),
+    );
+  }
+
+  it('期間のKPI・前期間比・前日比・訴求の目標達成状況をDBから集計する', async () => {
+    const snsAd = seedCampaign(sns, 'sns');
+    const aiAd = seedCampaign(ai, 'ai');
+    seedDay(snsAd.id, '2026-03-03', 10000, { cv: 2 }); // 前期間
+    seedDay(snsAd.id, '2026-03-06', 10000, { cv: 2 });
+    seedDay(snsAd.id, '2026-03-07', 15000, { cv: 2, front: 1 });
+    seedDay(aiAd.id, '2026-03-07', 5000, { cv: 1 });
+
+    const data = await dashboard.getDashboardData(
+      { from: '2026-03-05', to: '2026-03-07' },
+      null,
+      now,
+    );
+
+    expect(data.period).toEqual({
+      from: '2026-03-05',
+      to: '2026-03-07',
+      days: 3,
+    });
+    expect(data.previousPeriod).toMatchObject({ from: '2026-03-02' });
+    expect(data.kpiData).toMatchObject({
+      totalSpend: 30000,
+      totalConversions: 5,
+      totalFrontSales: 1,
+      avgCpa: 6000,
+      avgCtr: 0.1,
+    });
+    expect(data.chartData.map((d) => [d.date, d.spend])).toEqual([
+      ['2026-03-05', 0],
+      ['2026-03-06', 10000],
+      ['2026-03-07', 20000],
+    ]);
+    expect(data.comparison.previousPeriod).toMatchObject({
+      spend: 200,
+      conversions: 150,
+    });
+    expect(data.comparison.dayOverDay).toMatchObject({
+      date: '2026-03-07',
+      previousDate: '2026-03-06',
+      changes: { spend: 100, conversions: 50 },
+    });
+    expect(data.campaigns.map((c) => [c.name, c.spend, c.budget])).toEqual([
+      ['sns', 25000, 5000],
+      ['ai', 5000, 5000],
+    ]);
+    expect(data.lastMetricDate).toBe('2026-03-07');
+
+    const snsAppeal = data.appeals.find((a) => a.appealName === 'SNS')!;
+    expect(snsAppeal.attainment.cpa).toMatchObject({
+      value: 6250,
+      status: 'WITHIN_ALLOWABLE',
+    });
+    expect(snsAppeal.attainment.frontCpo).toMatchObject({
+      value: 25000,
+      status: 'WITHIN_ALLOWABLE',
+    });
+    expect(
+      data.appeals.find((a) => a.appealName === 'AI')!.attainment.cpa.status,
+    ).toBe('NO_TARGET');
+
+    // ページ表示で TikTok API は呼ばない
+    expect(ctx.api.requests).toHaveLength(0);
+  });
+
+  it('導線・担当範囲で広告アカウントを絞り込む', async () => {
+    const snsAd = seedCampaign(sns, 'sns');
+    const aiAd = seedCampaign(ai, 'ai');
+    seedDay(snsAd.id, '2026-03-07', 10000, { cv: 2 });
+    seedDay(aiAd.id, '2026-03-07', 5000, { cv: 1 });
+
+    const byChannel = await dashboard.getDashboardData(
+      { channel: 'AI' },
+      null,
+      now,
+    );
+    expect(byChannel.filters.advertiserIds).toEqual([ai]);
+    expect(byChannel.kpiData.totalSpend).toBe(5000);
+    expect(byChannel.filterOptions.appeals).toHaveLength(2);
+
+    const scoped = await dashboard.getDashboardData({}, [sns], now);
+    expect(scoped.advertiserCount).toBe(1);
+    expect(scoped.kpiData.totalSpend).toBe(10000);
+    expect(scoped.filterOptions.advertisers).toHaveLength(1);
+  });
+
+  it('不正な期間・導線は 400 にする', async () => {
+    await expect(
+      dashboard.getDashboardData(
+        { from: '2026-03-08', to: '2026-03-01' },
+        null,
+      ),
+    ).rejects.toThrow('from must be on or before to');
+    await expect(
+      dashboard.getDashboardData({ channel: 'TV' }, null),
+    ).rejects.toThrow('channel must be one of SNS, AI, SEMINAR');
+  });
+});
@@ -0,0 +1,255 @@
+import { DaypartingService } from '../src/dayparting/dayparting.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import {
+  FAKE_FAILURES,
+  seedRegularAd,
+  seedReport,
+  seedSmartPlusAd,
+  type SeededAd,
+} from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Dayparting analysis & schedule management (e2e, offline)', () => {
+  const advertiserId = '7000000000000000801';
+  // 2026-03-10 10:00 JST（集計期間は 3/3〜3/9）
+  const now = new Date('2026-03-10T01:00:00.000Z');
+  let ctx: E2EContext;
+  let service: DaypartingService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([DaypartingService, ChannelRegistryService]);
+    service = ctx.module.get(DaypartingService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'AI', targetCPA: 3000, allowableCPA: 4000 },
+    });
+  });
+
+  /** 偽APIの広告と同期済みの Campaign / AdGroup / Ad を登録する */
+  function seedSynced(seeded: SeededAd, name: string) {
+    const advertiser = ctx.prisma.rows('advertiser')[0];
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: seeded.campaignId,
+      advertiserId: advertiser.id,
+      name,
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: seeded.adgroupId,
+      campaignId: campaign.id,
+      name: `${name}_adgroup`,
+      budget: 5000,
+      schedule: { startTime: null, endTime: null },
+      status: 'ENABLE',
+    });
+    return ctx.prisma.seed('ad', {
+      tiktokId: seeded.adId,
+      adgroupId: adGroup.id,
+      name,
+      creativeId: `creative-${seeded.adId}`,
+      status: 'ENABLE',
+    });
+  }
+
+  /**
+   * 3/9 の毎時 ¥10,000・CV4件（CPA ¥2,500）の実績
+   * 2時・3時だけCV0（許容CPA ¥4,000 の2件分以上を消化してCVなし）
+   */
+  function seedHourlyPerformance() {
+    const name = '260301/山田/朝型CR/LP1-CR00001';
+    const seeded = seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: name,
+      budget: 5000,
+    });
+    const ad = seedSynced(seeded, name);
+    for (let hour = 0; hour < 24; hour++) {
+      seedReport(ctx.api.store, {
+        advertiserId,
+        adId: seeded.adId,
+        date: '2026-03-09',
+        hour,
+        spend: 10000,
+        impressions: 100000,
+        clicks: 1000,
+      });
+      if (hour === 2 || hour === 3) continue;
+      for (let i = 0; i < 4; i++) {
+        ctx.prisma.seed('conversionEvent', {
+          kind: 'CV',
+          spreadsheetId: 'fake-cv',
+          sheetName: 'TT_オプト',
+          rowHash: `${hour}-${i}`,
+          registrationPath: 'TikTok広告-AI-LP1-CR00001',
+          adId: ad.id,
+          // JST の hour 時台
+          occurredAt: new Date(Date.UTC(2026, 2, 9, hour - 9, 10 + i)),
+          jstDate: '2026-03-09',
+        });
+      }
+    }
+    return seeded;
+  }
+
+  const dayparting = (adgroupId: string) =>
+    ctx.api.store.adgroups.get(adgroupId)?.dayparting;
+
+  it('時間別レポートと台帳のCVを時間帯別に集計し、CV0の時間帯を止める提案をする', async () => {
+    const seeded = seedHourlyPerformance();
+
+    const [analysis] = await service.analyze({}, null, now);
+
+    expect(analysis).toMatchObject({
+      appealName: 'AI',
+      channelType: 'AI',
+      allowableCPA: 4000,
+      period: { from: '2026-03-03', to: '2026-03-09' },
+      advertiserIds: [advertiserId],
+      failedAdvertiserIds: [],
+      recommendation: {
+        status: 'RECOMMENDED',
+        excludedHours: [
+          { hour: 2, reason: 'NO_CV', spend: 10000, conversions: 0 },
+          { hour: 3, reason: 'NO_CV', spend: 10000, conversions: 0 },
+        ],
+        windows: ['0:00-2:00', '4:00-24:00'],
+      },
+      ads: [
+        expect.objectContaining({
+          adId: seeded.adId,
+          spend: 240000,
+          conversions: 88,
+        }),
+      ],
+    });
+    expect(analysis.hourly[10]).toEqual({
+      hour: 10,
+      spend: 10000,
+      impressions: 100000,
+      clicks: 1000,
+      conversions: 4,
+    });
+    // 時間別レポートは1日ずつ取得する
+    const reports = ctx.api.requestsTo('/v1.3/report/integrated/get/');
+    expect(reports).toHaveLength(7);
+    expect(reports.every((r) => r.query.start_date === r.query.end_date)).toBe(
+      true,
+    );
+    // 担当外のアカウントは集計しない
+    expect(await service.analyze({}, ['other'], now)).toEqual([]);
+  });
+
+  it('自動適用のアカウントは広告セット・Smart+ 広告セットに配信時間帯を反映し、同じ設定は再送しない', async () => {
+    const regular = seedHourlyPerformance();
+    const smartPlusName = '260301/山田/Smart+CR/LP1-CR00002';
+    const smartPlus = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: smartPlusName,
+      budget: 5000,
+    });
+    seedSynced(smartPlus, smartPlusName);
+    await service.setAutoApply(advertiserId, true);
+
+    const result = await service.executeAutoApply(undefined, now);
+
+    expect(result).toMatchObject({ processed: 1, updated: 2, failed: 0 });
+    const expected = ('11'.repeat(2) + '00'.repeat(2) + '11'.repeat(20)).repeat(
+      7,
+    );
+    expect(dayparting(regular.adgroupId)).toBe(expected);
+    expect(dayparting(smartPlus.adgroupId)).toBe(expected);
+    expect(ctx.api.requestsTo('/v1.3/smart_plus/adgroup/update/')).toHaveLength(
+      1,
+    );
+    expect(
+      ctx.prisma.rows('adGroup').map((g) => g.schedule.dayparting),
+    ).toEqual([expected, expected]);
+    expect(ctx.prisma.rows('daypartingPlan')).toEqual([
+      expect.objectContaining({
+        advertiserId,
+        autoApply: true,
+        activeHours: [0, 1, ...Array.from({ length: 20 }, (_, h) => h + 4)],
+        lastError: null,
+      }),
+    ]);
+
+    const again = await service.executeAutoApply(undefined, now);
+    expect(again).toMatchObject({ processed: 1, updated: 0 });
+
+    // 終日配信に戻すと自動適用もオフになる
+    const reset = await service.reset(advertiserId);
+    expect(reset.updated).toHaveLength(2);
+    expect(dayparting(regular.adgroupId)).toBe('1'.repeat(336));
+    expect(ctx.prisma.rows('daypartingPlan')[0]).toMatchObject({
+      autoApply: false,
+      activeHours: [],
+    });
+  });
+
+  it('時間別レポートを取れない・一時停止中のアカウントには反映しない', async () => {
+    const regular = seedHourlyPerformance();
+    await service.setAutoApply(advertiserId, true);
+    ctx.api.failNext(
+      '/v1.3/report/integrated/get/',
+      FAKE_FAILURES.UNAUTHORIZED,
+    );
+
+    const failed = await service.executeAutoApply(undefined, now);
+
+    expect(failed).toMatchObject({ processed: 1, updated: 0, failed: 1 });
+    expect(dayparting(regular.adgroupId)).toBeUndefined();
+
+    ctx.prisma.seed('automationPause', {
+      advertiserId,
+      subsystem: 'DAYPARTING',
+      reason: '新LPローンチ中',
+    });
+    const skipped = await service.executeAutoApply(undefined, now);
+    expect(skipped).toMatchObject({
+      processed: 0,
+      automationSkips: [
+        expect.objectContaining({ advertiserId, subsystem: 'DAYPARTING' }),
+      ],
+    });
+  });
+
+  it('手動指定の時間帯は導線の最低配信時間数を下回れない。dryRun では反映しない', async () => {
+    const regular = seedHourlyPerformance();
+
+    await expect(
+      service.apply(advertiserId, { activeHours: [9, 10, 11] }),
+    ).rejects.toThrow(
+      'Invalid dayparting: activeHours must include at least 18 hours for this channel',
+    );
+
+    const preview = await service.apply(
+      advertiserId,
+      {
+        activeHours: Array.from({ length: 18 }, (_, h) => h + 6),
+        dryRun: true,
+      },
+      now,
+    );
+    expect(preview).toMatchObject({
+      dryRun: true,
+      windows: ['6:00-24:00'],
+      updated: [{ adgroupId: regular.adgroupId, smartPlus: false }],
+    });
+    expect(dayparting(regular.adgroupId)).toBeUndefined();
+    expect(ctx.prisma.rows('daypartingPlan')).toEqual([]);
+  });
+});
@@ -0,0 +1,223 @@
+import { ExperimentService } from '../src/experiment/experiment.service';
+import type { ExperimentResult } from '../src/experiment/domain/experiment';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Experiment framework (e2e, offline)', () => {
+  const ai1 = '7000000000000000201';
+  const ai2 = '7000000000000000202';
+  const startedAt = new Date('2026-03-01T01:00:00Z'); // JST 3/1 10:00
+  const evaluatedAt = new Date('2026-03-07T12:00:00Z'); // JST 3/7 21:00
+  let ctx: E2EContext;
+  let experiments: ExperimentService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([ExperimentService]);
+    experiments = ctx.module.get(ExperimentService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.prisma.reset();
+    await seedAccount(ctx, { advertiserId: ai1, appeal: { name: 'AI' } });
+    await seedAccount(ctx, { advertiserId: ai2, appeal: { name: 'AI' } });
+  });
+
+  /** 広告アカウントに 広告グループ1つ・広告1つ を登録する */
+  function seedAd(advertiserId: string, tiktokAdId: string, adgroupId: string) {
+    const advertiser = ctx.prisma
+      .rows('advertiser')
+      .find((row) => row.tiktokAdvertiserId === advertiserId)!;
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: `campaign-${tiktokAdId}`,
+      advertiserId: advertiser.id,
+      name: 'campaign',
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: adgroupId,
+      campaignId: campaign.id,
+      name: 'adgroup',
+      status: 'ENABLE',
+    });
+    return ctx.prisma.seed('ad', {
+      tiktokId: tiktokAdId,
+      adgroupId: adGroup.id,
+      name: `260301/山田/${tiktokAdId}/LP1-CR00001`,
+      creativeId: 'creative-1',
+      status: 'ENABLE',
+    });
+  }
+
+  /** 3/1〜3/7 に毎日 spend 円・CV cvPerDay 件 */
+  function seedDaily(adId: string, spend: number, cvPerDay: number) {
+    for (let day = 1; day <= 7; day++) {
+      const date = `2026-03-0${day}`;
+      ctx.prisma.seed('metric', {
+        entityType: 'AD',
+        adId,
+        statDate: new Date(`${date}T00:00:00.000Z`),
+        spend,
+      });
+      for (let i = 0; i < cvPerDay; i++) {
+        ctx.prisma.seed('conversionEvent', {
+          kind: 'CV',
+          spreadsheetId: 'fake-cv',
+          sheetName: 'TT_オプト',
+          rowHash: `${adId}-${date}-${i}`,
+          registrationPath: 'TikTok広告-AI-LP1-CR00001',
+          adId,
+          occurredAt: new Date(`${date}T03:00:00.000Z`),
+          jstDate: date,
+        });
+      }
+    }
+  }
+
+  const input = {
+    name: 'CR本数テスト',
+    hypothesis: 'CR本数を増やすとCPAが下がる',
+    primaryMetric: 'CPA',
+    arms: [
+      { key: 'A1', name: '1本', adIds: ['ad-a1'] },
+      { key: 'A3', name: '3本', adgroupIds: ['adgroup-a3'] },
+    ],
+    freezeBudgets: true,
+  };
+
+  it('アカウントをまたぐアームを定義し、開始・評価・終了で結果と勝者を保存する', async () => {
+    const control = seedAd(ai1, 'ad-a1', 'adgroup-a1');
+    const treatment = seedAd(ai2, 'ad-a3', 'adgroup-a3');
+    seedDaily(control.id, 10_000, 5);
+    seedDaily(treatment.id, 10_000, 9);
+
+    const created = await experiments.create(input, null);
+    expect(created).toMatchObject({
+      status: 'DRAFT',
+      advertiserId: null,
+      createdBy: null,
+      experimentType: 'AB_TEST',
+      config: {
+        controlArm: 'A1',
+        advertiserIds: [ai1, ai2],
+        minSample: { minConversions: 20, minSpend: 0, minDays: 7 },
+      },
+    });
+
+    await experiments.start(created.id, startedAt);
+    const evaluated = await experiments.evaluate(created.id, evaluatedAt);
+    const result = evaluated.result as unknown as ExperimentResult;
+    expect(result).toMatchObject({
+      from: '2026-03-01',
+      to: '2026-03-07',
+      days: 7,
+      verdict: 'WINNER',
+      winner: 'A3',
+    });
+    expect(
+      result.arms.map((arm) => [arm.key, arm.spend, arm.conversions]),
+    ).toEqual([
+      ['A1', 70_000, 35],
+      ['A3', 70_000, 63],
+    ]);
+    expect(evaluated).toMatchObject({ status: 'RUNNING', winner: 'A3' });
+
+    const stopped = await experiments.stop(created.id, evaluatedAt);
+    expect(stopped).toMatchObject({
+      status: 'COMPLETED',
+      endDate: evaluatedAt,
+      winner: 'A3',
+    });
+  });
+
+  it('日数・件数が最小サンプルに届くまでは判定保留を保存する', async () => {
+    const control = seedAd(ai1, 'ad-a1', 'adgroup-a1');
+    const treatment = seedAd(ai2, 'ad-a3', 'adgroup-a3');
+    seedDaily(control.id, 10_000, 5);
+    seedDaily(treatment.id, 10_000, 9);
+    const created = await experiments.create(
+      { ...input, minSample: { minConversions: 50 } },
+      null,
+    );
+    await experiments.start(created.id, startedAt);
+
+    const evaluated = await experiments.evaluate(
+      created.id,
+      new Date('2026-03-03T12:00:00Z'),
+    );
+
+    expect(evaluated.winner).toBeNull();
+    expect(evaluated.result).toMatchObject({
+      verdict: 'INSUFFICIENT_SAMPLE',
+      days: 3,
+      sampleShortfalls: ['実施日数 3 < 7日'],
+    });
+  });
+
+  it('未登録の広告・同じ広告を含む実施中の実験があれば作成・開始できない', async () => {
+    seedAd(ai1, 'ad-a1', 'adgroup-a1');
+    seedAd(ai2, 'ad-a3', 'adgroup-a3');
+
+    await expect(
+      experiments.create(
+        {
+          ...input,
+          arms: [...input.arms, { key: 'A5', adIds: ['ad-unknown'] }],
+        },
+        null,
+      ),
+    ).rejects.toThrow('Unknown targets: ad ad-unknown');
+
+    const first = await experiments.create(input, null);
+    const second = await experiments.create(input, null);
+    await experiments.start(first.id, startedAt);
+    await expect(experiments.start(second.id, startedAt)).rejects.toThrow(
+      'Targets already in running experiment "CR本数テスト"',
+    );
+    await expect(experiments.update(first.id, input)).rejects.toThrow(
+      'Cannot update experiment in status RUNNING',
+    );
+  });
+
+  it('予算固定は実施中の実験のアカウントの広告だけが対象で、中止すると解除される', async () => {
+    seedAd(ai1, 'ad-a1', 'adgroup-a1');
+    seedAd(ai2, 'ad-a3', 'adgroup-a3');
+    const created = await experiments.create(input, null);
+    expect((await experiments.budgetFreeze(ai1)).adIds.size).toBe(0);
+
+    await experiments.start(created.id, startedAt);
+    const freeze = await experiments.budgetFreeze(ai1);
+    expect([...freeze.adIds]).toEqual([['ad-a1', 'CR本数テスト']]);
+    expect([...freeze.adgroupIds]).toEqual([['adgroup-a3', 'CR本数テスト']]);
+    expect(
+      (await experiments.budgetFreeze('7000000000000000999')).adIds.size,
+    ).toBe(0);
+
+    await experiments.cancel(created.id, evaluatedAt);
+    expect((await experiments.budgetFreeze(ai1)).adIds.size).toBe(0);
+  });
+
+  it('定期評価は実施中の実験だけを評価する', async () => {
+    const control = seedAd(ai1, 'ad-a1', 'adgroup-a1');
+    const treatment = seedAd(ai2, 'ad-a3', 'adgroup-a3');
+    seedDaily(control.id, 10_000, 5);
+    seedDaily(treatment.id, 10_000, 9);
+    const running = await experiments.create(input, null);
+    const draft = await experiments.create({ ...input, name: '下書き' }, null);
+    await experiments.start(running.id, startedAt);
+
+    await expect(experiments.evaluateRunning(evaluatedAt)).resolves.toEqual({
+      evaluated: 1,
+      failed: [],
+    });
+    expect((await experiments.findById(running.id)).winner).toBe('A3');
+    expect((await experiments.findById(draft.id)).result).toBeNull();
+  });
+});
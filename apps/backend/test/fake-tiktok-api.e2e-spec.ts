@@ -0,0 +1,120 @@
+import { TiktokService } from '../src/tiktok/tiktok.service';
+import { TikTokErrorType } from '../src/common/utils/tiktok-error.util';
+import {
+  FAKE_FAILURES,
+  seedRegularAd,
+  seedSmartPlusAd,
+  seedReport,
+} from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  jstDate,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('FakeTikTokApi + TiktokService (e2e)', () => {
+  const advertiserId = '7000000000000000001';
+  let ctx: E2EContext;
+  let tiktok: TiktokService;
+  let token: string;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([]);
+    tiktok = ctx.module.get(TiktokService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    ({ accessToken: token } = await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'SNS' },
+    }));
+  });
+
+  it('ページングをまたいで全キャンペーンを取得できる', async () => {
+    for (let i = 0; i < 130; i++) {
+      seedRegularAd(ctx.api.store, {
+        advertiserId,
+        adName: `ad-${i}`,
+        budget: 3000,
+      });
+    }
+
+    const campaigns = await tiktok.getAllCampaigns(advertiserId, token);
+
+    expect(campaigns).toHaveLength(130);
+    expect(ctx.api.requestsTo('/v1.3/campaign/get/')).toHaveLength(2);
+  });
+
+  it('レート制限（429）はリトライして成功する', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251019/テスト/CR1/LP1-CR00001',
+      budget: 5000,
+    });
+    ctx.api.failNext('/v1.3/smart_plus/adgroup/get/', FAKE_FAILURES.RATE_LIMIT);
+
+    const response = await tiktok.getSmartPlusAdGroups(advertiserId, token, [
+      ad.adgroupId,
+    ]);
+
+    expect(response.data.list[0].adgroup_id).toBe(ad.adgroupId);
+    expect(
+      ctx.api.requestsTo('/v1.3/smart_plus/adgroup/get/').map((r) => r.code),
+    ).toEqual([40900, 0]);
+  });
+
+  it('認証エラー（40100）はリトライせずAUTH_ERRORとして投げる', async () => {
+    ctx.api.failNext('/v1.3/campaign/get/', {
+      ...FAKE_FAILURES.UNAUTHORIZED,
+      times: Infinity,
+    });
+
+    await expect(
+      tiktok.getAllCampaigns(advertiserId, token),
+    ).rejects.toMatchObject({
+      type: TikTokErrorType.AUTH_ERROR,
+      code: 40100,
+    });
+    expect(ctx.api.requestsTo('/v1.3/campaign/get/')).toHaveLength(1);
+  });
+
+  it('他アカウントのトークンは権限エラーになる', async () => {
+    await expect(
+      tiktok.getSmartPlusAdGroups('7000000000000000999', token, ['1']),
+    ).rejects.toThrow('code: 40003');
+  });
+
+  it('予算更新がストアに反映され、レポートに実績が出る', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251019/テスト/CR1/LP1-CR00001',
+      budget: 5000,
+    });
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: ad.adId,
+      date: jstDate(),
+      spend: 1200,
+      impressions: 3400,
+      conversion: 2,
+    });
+
+    await tiktok.updateSmartPlusAdGroupBudgets(advertiserId, token, [
+      { adgroup_id: ad.adgroupId, budget: 6000 },
+    ]);
+    const metrics = await tiktok.getSmartPlusAdMetrics(advertiserId, token, {
+      startDate: jstDate(),
+      endDate: jstDate(),
+    });
+
+    expect(ctx.api.store.adgroups.get(ad.adgroupId)?.budget).toBe(6000);
+    expect(metrics.data.list[0].metrics.spend).toBe('1200.00');
+  });
+});
@@ -0,0 +1,316 @@
+// ============================================================================
+// FakeTikTokApi - TikTok Business APIのローカル代替サーバー
+// TIKTOK_API_BASE_URL をこのサーバーに向けると TiktokService をそのまま動かせる
+// 状態はインメモリ（store）、エラーは failNext() で差し込む
+// ============================================================================
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { FakeTikTokStore } from './store';
+import {
+  FakeApiError,
+  ROUTES,
+  type FakeRequest,
+  type UploadedFile,
+} from './routes';
+
+export interface FakeFailure {
+  /** TikTokのエラーコード（例: 40100, 40900, 50000） */
+  code: number;
+  message?: string;
+  /**
+   * HTTPステータス（既定200）
+   * TikTokは業務エラーもHTTP 200で返す。ゲートウェイで弾かれるケースは429/401等を指定する
+   */
+  httpStatus?: number;
+  /** 何回分失敗させるか（既定1、Infinityで解除まで失敗し続ける） */
+  times?: number;
+}
+
+/** よく使うエラーの組み合わせ */
+export const FAKE_FAILURES = {
+  RATE_LIMIT: { code: 40900, message: 'Too many requests.', httpStatus: 429 },
+  UNAUTHORIZED: {
+    code: 40100,
+    message: 'Access token is not authorized.',
+    httpStatus: 401,
+  },
+  SERVER_ERROR: {
+    code: 50000,
+    message: 'Internal service error.',
+    httpStatus: 500,
+  },
+} satisfies Record<string, FakeFailure>;
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  body: Record<string, any>;
+  accessToken?: string;
+  /** 返したTikTokのcode（0なら成功） */
+  code: number;
+}
+
+const API_PREFIX = '/open_api';
+
+export class FakeTikTokApi {
+  readonly store = new FakeTikTokStore();
+  readonly requests: RecordedRequest[] = [];
+
+  private server: Server | null = null;
+  private readonly failures = new Map<
+    string,
+    Required<Omit<FakeFailure, 'message'>> & { message: string }
+  >();
+  private url = '';
+
+  /** TIKTOK_API_BASE_URL に設定する値 */
+  get baseUrl(): string {
+    if (!this.url) throw new Error('FakeTikTokApi is not started');
+    return this.url;
+  }
+
+  async start(port = 0): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req)
+        .then(({ status, headers, body }) => {
+          res.writeHead(status, headers);
+          res.end(body);
+        })
+        .catch((error) => {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ code: 50000, message: String(error) }));
+        });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(port, '127.0.0.1', resolve),
+    );
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * 指定パスへの次のリクエストを失敗させる
+   * @param path '/v1.3/smart_plus/ad/get/' の形式（'/open_api' は不要）
+   */
+  failNext(path: string, failure: FakeFailure): this {
+    this.failures.set(path, {
+      code: failure.code,
+      message: failure.message ?? `Injected error ${failure.code}`,
+      httpStatus: failure.httpStatus ?? 200,
+      times: failure.times ?? 1,
+    });
+    return this;
+  }
+
+  clearFailures(): void {
+    this.failures.clear();
+  }
+
+  /** 指定パスへのリクエスト履歴 */
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter((r) => r.path === path);
+  }
+
+  /** 状態・履歴・エラー設定をすべて初期化（サーバーは動かしたまま） */
+  reset(): void {
+    this.store.reset();
+    this.requests.length = 0;
+    this.failures.clear();
+  }
+
+  // ============================================================================
+  // リクエスト処理
+  // ============================================================================
+
+  private async handle(req: IncomingMessage): Promise<{
+    status: number;
+    headers: Record<string, string>;
+    body: string | Buffer;
+  }> {
+    const url = new URL(req.url ?? '/', this.url);
+    const path = url.pathname.startsWith(API_PREFIX)
+      ? url.pathname.slice(API_PREFIX.length)
+      : url.pathname;
+
+    // 動画・画像の実体（preview_url / image_url の参照先）
+    if (req.method === 'GET' && path.startsWith('/__assets/')) {
+      const asset = this.store.assets.get(path);
+      return asset
+        ? {
+            status: 200,
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: asset,
+          }
+        : { status: 404, headers: {}, body: 'Not Found' };
+    }
+
+    const raw = await readBody(req);
+    const { body, files } = parseBody(raw, req.headers['content-type'] ?? '');
+    const request: FakeRequest = {
+      method: req.method ?? 'GET',
+      path,
+      query: parseQuery(url.searchParams),
+      body,
+      files,
+      accessToken: headerValue(req.headers['access-token']),
+      baseUrl: this.url,
+    };
+
+    const { status, payload } = this.dispatch(request);
+    this.requests.push({
+      method: request.method,
+      path,
+      query: request.query,
+      body,
+      accessToken: request.accessToken,
+      code: payload.code,
+    });
+    return {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    };
+  }
+
+  private dispatch(req: FakeRequest): {
+    status: number;
+    payload: { code: number; message: string; data?: any; request_id: string };
+  } {
+    const requestId = `fake-${Date.now()}-${this.requests.length + 1}`;
+
+    const failure = this.failures.get(req.path);
+    if (failure) {
+      failure.times -= 1;
+      if (failure.times <= 0) this.failures.delete(req.path);
+      return {
+        status: failure.httpStatus,
+        payload: {
+          code: failure.code,
+          message: failure.message,
+          request_id: requestId,
+        },
+      };
+    }
+
+    const handler = ROUTES[`${req.method} ${req.path}`];
+    if (!handler) {
+      return {
+        status: 404,
+        payload: {
+          code: 40400,
+          message: `${req.method} ${req.path} is not implemented by FakeTikTokApi`,
+          request_id: requestId,
+        },
+      };
+    }
+
+    try {
+      const data = handler(req, this.store);
+      return {
+        status: 200,
+        payload: { code: 0, message: 'OK', data, request_id: requestId },
+      };
+    } catch (error) {
+      if (error instanceof FakeApiError) {
+        return {
+          status: 200,
+          payload: {
+            code: error.code,
+            message: error.message,
+            request_id: requestId,
+          },
+        };
+      }
+      throw error;
+    }
+  }
+}
+
+// ============================================================================
+// HTTPパース
+// ============================================================================
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/** axiosはオブジェクトのparamsを filtering[campaign_ids][0]=... 形式で送るので組み立て直す */
+function parseQuery(params: URLSearchParams): Record<string, any> {
+  const query: Record<string, any> = {};
+  for (const [key, value] of params) {
+    const match = key.match(/^([^[]+)\[([^\]]+)\](?:\[\d*\])?$/);
+    if (!match) {
+      query[key] = value;
+      continue;
+    }
+    const [, root, field] = match;
+    query[root] = query[root] ?? {};
+    query[root][field] = [...(query[root][field] ?? []), value];
+  }
+  return query;
+}
+
+function parseBody(
+  raw: Buffer,
+  contentType: string,
+): { body: Record<string, any>; files: Record<string, UploadedFile> } {
+  if (raw.length === 0) return { body: {}, files: {} };
+
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (contentType.startsWith('multipart/form-data') && boundary) {
+    return parseMultipart(raw, boundary[1] ?? boundary[2]);
+  }
+  return { body: JSON.parse(raw.toString('utf-8')), files: {} };
+}
+
+function parseMultipart(
+  raw: Buffer,
+  boundary: string,
+): { body: Record<string, any>; files: Record<string, UploadedFile> } {
+  const body: Record<string, any> = {};
+  const files: Record<string, UploadedFile> = {};
+  const delimiter = Buffer.from(`--${boundary}`);
+
+  let start = raw.indexOf(delimiter);
+  while (start !== -1) {
+    const next = raw.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    // 各パート: \r\nヘッダー\r\n\r\n本文\r\n
+    const part = raw.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = part.subarray(0, headerEnd).toString('utf-8');
+    const content = part.subarray(headerEnd + 4);
+    const name = headers.match(/name="([^"]+)"/)?.[1];
+    const filename = headers.match(/filename="([^"]*)"/)?.[1];
+    if (name && filename !== undefined) {
+      files[name] = {
+        filename,
+        contentType:
+          headers.match(/Content-Type:\s*(\S+)/i)?.[1] ??
+          'application/octet-stream',
+        data: Buffer.from(content),
+      };
+    } else if (name) {
+      body[name] = content.toString('utf-8');
+    }
+    start = next;
+  }
+  return { body, files };
+}
@@ -0,0 +1,4 @@
+export * from './fake-tiktok-api';
+export * from './seed';
+export * from './store';
+export { imageAssetPath, videoAssetPath, videoCoverAssetPath } from './routes';
@@ -0,0 +1,32 @@
+// ============================================================================
+// 偽TikTok APIを単体で起動する（ルートの test-*.ts スクリプトを本番APIに当てずに動かす用）
+//   npm run fake-tiktok            → http://127.0.0.1:4010
+//   TIKTOK_API_BASE_URL=http://127.0.0.1:4010 npx ts-node test-xxx.ts
+// FAKE_TIKTOK_ACCESS_TOKEN / FAKE_TIKTOK_ADVERTISER_ID を指定するとそのトークンだけ受け付ける
+// ============================================================================
+
+import { FakeTikTokApi } from './fake-tiktok-api';
+import { seedAccessToken } from './seed';
+
+async function main() {
+  const api = new FakeTikTokApi();
+  const token = process.env.FAKE_TIKTOK_ACCESS_TOKEN;
+  const advertiserId = process.env.FAKE_TIKTOK_ADVERTISER_ID;
+  if (token && advertiserId) {
+    seedAccessToken(api.store, token, [advertiserId]);
+  }
+
+  const url = await api.start(Number(process.env.PORT) || 4010);
+  console.log(`Fake TikTok API listening on ${url}`);
+
+  const shutdown = () => {
+    api
+      .stop()
+      .then(() => process.exit(0))
+      .catch(() => process.exit(1));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+void main();
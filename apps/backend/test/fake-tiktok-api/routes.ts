@@ -0,0 +1,817 @@
+// ============================================================================
+// 偽TikTok APIのエンドポイント実装
+// TiktokService が呼ぶパス・パラメータ・レスポンス形だけを再現する
+// ============================================================================
+
+import {
+  FakeTikTokStore,
+  toTikTokTime,
+  type FakeAd,
+  type FakeAdGroup,
+  type FakeCampaign,
+  type FakeReportRow,
+  type FakeSmartPlusAd,
+  type OperationStatus,
+} from './store';
+
+export interface UploadedFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface FakeRequest {
+  method: string;
+  /** '/open_api' を除いたパス（例: /v1.3/campaign/get/） */
+  path: string;
+  query: Record<string, any>;
+  body: Record<string, any>;
+  files: Record<string, UploadedFile>;
+  accessToken?: string;
+  /** 動画・画像URLの組み立て用 */
+  baseUrl: string;
+}
+
+/** TikTokのビジネスエラー（HTTP 200 + code != 0 で返す） */
+export class FakeApiError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export type RouteHandler = (req: FakeRequest, store: FakeTikTokStore) => any;
+
+const PAGE_SIZE_DEFAULT = 10;
+
+// ----------------------------------------------------------------------------
+// 共通
+// ----------------------------------------------------------------------------
+
+function advertiserIdOf(req: FakeRequest, store: FakeTikTokStore): string {
+  const advertiserId = String(
+    req.query.advertiser_id ?? req.body.advertiser_id ?? '',
+  );
+  if (!advertiserId) {
+    throw new FakeApiError(
+      40002,
+      'advertiser_id: Missing data for required field.',
+    );
+  }
+  if (!store.isKnownToken(req.accessToken)) {
+    throw new FakeApiError(
+      40001,
+      'Access token is incorrect or has been revoked.',
+    );
+  }
+  if (!store.canAccess(req.accessToken, advertiserId)) {
+    throw new FakeApiError(
+      40003,
+      `No permission to operate advertiser ${advertiserId}.`,
+    );
+  }
+  return advertiserId;
+}
+
+/** JSON文字列のパラメータ（axiosのネスト表記 filtering[x][0]=... も受け付ける） */
+function jsonParam(query: Record<string, any>, key: string): any {
+  const raw = query[key];
+  if (typeof raw === 'string') {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new FakeApiError(40002, `${key}: Not a valid JSON.`);
+    }
+  }
+  return raw;
+}
+
+function idFilter(filtering: any, key: string): Set<string> | null {
+  const ids = filtering?.[key];
+  return Array.isArray(ids) && ids.length > 0 ? new Set(ids.map(String)) : null;
+}
+
+function paginate<T>(list: T[], query: Record<string, any>) {
+  const page = Math.max(1, Number(query.page) || 1);
+  const pageSize = Math.max(1, Number(query.page_size) || PAGE_SIZE_DEFAULT);
+  return {
+    list: list.slice((page - 1) * pageSize, page * pageSize),
+    page_info: {
+      page,
+      page_size: pageSize,
+      total_number: list.length,
+      total_page: Math.ceil(list.length / pageSize),
+    },
+  };
+}
+
+function requireEntity<T>(map: Map<string, T>, id: unknown, label: string): T {
+  const entity = map.get(String(id));
+  if (!entity) {
+    throw new FakeApiError(40002, `${label} ${String(id)} does not exist.`);
+  }
+  return entity;
+}
+
+function assertOwned(
+  entity: { advertiser_id: string },
+  advertiserId: string,
+  label: string,
+): void {
+  if (entity.advertiser_id !== advertiserId) {
+    throw new FakeApiError(
+      40002,
+      `${label} does not belong to advertiser ${advertiserId}.`,
+    );
+  }
+}
+
+function ofStatus<T extends { operation_status: OperationStatus }>(
+  list: T[],
+  filtering: any,
+): T[] {
+  const status = filtering?.operation_status;
+  return list.filter(
+    (e) =>
+      e.operation_status !== 'DELETE' &&
+      (!status || e.operation_status === status),
+  );
+}
+
+// ----------------------------------------------------------------------------
+// キャンペーン・広告グループ・広告
+// ----------------------------------------------------------------------------
+
+function getCampaigns(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const filtering = jsonParam(req.query, 'filtering');
+  const ids = idFilter(filtering, 'campaign_ids');
+  const list = ofStatus([...store.campaigns.values()], filtering).filter(
+    (c) => c.advertiser_id === advertiserId && (!ids || ids.has(c.campaign_id)),
+  );
+  return paginate(list, req.query);
+}
+
+function getAdGroups(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const filtering = jsonParam(req.query, 'filtering');
+  const campaignIds = idFilter(filtering, 'campaign_ids');
+  const adgroupIds = idFilter(filtering, 'adgroup_ids');
+  const list = ofStatus([...store.adgroups.values()], filtering).filter(
+    (g) =>
+      g.advertiser_id === advertiserId &&
+      (!campaignIds || campaignIds.has(g.campaign_id)) &&
+      (!adgroupIds || adgroupIds.has(g.adgroup_id)),
+  );
+  return paginate(list, req.query);
+}
+
+function getAds(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const filtering = jsonParam(req.query, 'filtering');
+  const adIds = idFilter(filtering, 'ad_ids');
+  const adgroupIds = idFilter(filtering, 'adgroup_ids');
+  const list = ofStatus([...store.ads.values()], filtering).filter(
+    (a) =>
+      a.advertiser_id === advertiserId &&
+      (!adIds || adIds.has(a.ad_id)) &&
+      (!adgroupIds || adgroupIds.has(a.adgroup_id)),
+  );
+  return paginate(list, req.query);
+}
+
+function createCampaign(
+  req: FakeRequest,
+  store: FakeTikTokStore,
+  smartPlus: boolean,
+) {
+  const advertiserId = advertiserIdOf(req, store);
+  const { campaign_name, objective_type, budget_mode, budget } = req.body;
+  if (!campaign_name) {
+    throw new FakeApiError(
+      40002,
+      'campaign_name: Missing data for required field.',
+    );
+  }
+  const campaign: FakeCampaign = {
+    advertiser_id: advertiserId,
+    campaign_id: store.nextId(),
+    campaign_name,
+    objective_type: objective_type ?? 'LEAD_GENERATION',
+    budget_mode: budget_mode ?? 'BUDGET_MODE_INFINITE',
+    budget: Number(budget) || 0,
+    budget_optimize_on: req.body.budget_optimize_on === true,
+    operation_status: 'ENABLE',
+    is_smart_plus: smartPlus,
+    create_time: toTikTokTime(),
+  };
+  store.campaigns.set(campaign.campaign_id, campaign);
+  return { campaign_id: campaign.campaign_id };
+}
+
+function updateCampaign(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const campaign = requireEntity(
+    store.campaigns,
+    req.body.campaign_id,
+    'Campaign',
+  );
+  assertOwned(campaign, advertiserId, 'Campaign');
+  const { campaign_name, budget_mode, budget, operation_status } = req.body;
+  if (campaign_name) campaign.campaign_name = campaign_name;
+  if (budget_mode) campaign.budget_mode = budget_mode;
+  if (budget !== undefined) campaign.budget = Number(budget);
+  if (operation_status) campaign.operation_status = operation_status;
+  return { campaign_id: campaign.campaign_id };
+}
+
+function createAdGroup(
+  req: FakeRequest,
+  store: FakeTikTokStore,
+  smartPlus: boolean,
+) {
+  const advertiserId = advertiserIdOf(req, store);
+  const campaign = requireEntity(
+    store.campaigns,
+    req.body.campaign_id,
+    'Campaign',
+  );
+  assertOwned(campaign, advertiserId, 'Campaign');
+  const adgroup: FakeAdGroup = {
+    advertiser_id: advertiserId,
+    adgroup_id: store.nextId(),
+    campaign_id: campaign.campaign_id,
+    adgroup_name: req.body.adgroup_name ?? '',
+    budget_mode: req.body.budget_mode ?? 'BUDGET_MODE_DAY',
+    budget: Number(req.body.budget) || 0,
+    operation_status: 'ENABLE',
+    is_smart_plus: smartPlus,
+    pixel_id: req.body.pixel_id,
+    optimization_event: req.body.optimization_event,
+    targeting_spec: req.body.targeting_spec,
+    create_time: toTikTokTime(),
+  };
+  store.adgroups.set(adgroup.adgroup_id, adgroup);
+  return { adgroup_id: adgroup.adgroup_id };
+}
+
+function updateAdGroup(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const adgroup = requireEntity(store.adgroups, req.body.adgroup_id, 'Adgroup');
+  assertOwned(adgroup, advertiserId, 'Adgroup');
+  if (req.body.budget !== undefined) adgroup.budget = Number(req.body.budget);
+  if (req.body.operation_status) {
+    adgroup.operation_status = req.body.operation_status;
+  }
+  if (req.body.dayparting !== undefined) {
+    adgroup.dayparting = parseDayparting(req.body.dayparting);
+  }
+  return { adgroup_id: adgroup.adgroup_id };
+}
+
+function parseDayparting(value: unknown): string {
+  const dayparting = String(value);
+  if (!/^[01]{336}$/.test(dayparting)) {
+    throw new FakeApiError(
+      40002,
+      'dayparting: Length must be 336 and only contain 0 or 1.',
+    );
+  }
+  return dayparting;
+}
+
+function createAds(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const adgroup = requireEntity(store.adgroups, req.body.adgroup_id, 'Adgroup');
+  assertOwned(adgroup, advertiserId, 'Adgroup');
+  const creatives: any[] = req.body.creatives ?? [];
+  if (creatives.length === 0) {
+    throw new FakeApiError(
+      40002,
+      'creatives: Missing data for required field.',
+    );
+  }
+  const adIds = creatives.map((creative) => {
+    if (creative.video_id && !store.videos.has(String(creative.video_id))) {
+      throw new FakeApiError(
+        40002,
+        `Video ${creative.video_id} does not exist.`,
+      );
+    }
+    const ad: FakeAd = {
+      advertiser_id: advertiserId,
+      ad_id: store.nextId(),
+      adgroup_id: adgroup.adgroup_id,
+      campaign_id: adgroup.campaign_id,
+      ad_name: creative.ad_name ?? '',
+      ad_text: creative.ad_text,
+      ad_format: creative.ad_format,
+      video_id: creative.video_id,
+      image_ids: creative.image_ids,
+      landing_page_url: creative.landing_page_url,
+      call_to_action: creative.call_to_action,
+      identity_id: creative.identity_id,
+      identity_type: creative.identity_type,
+      operation_status: 'ENABLE',
+      create_time: toTikTokTime(),
+    };
+    store.ads.set(ad.ad_id, ad);
+    return ad.ad_id;
+  });
+  return { ad_ids: adIds };
+}
+
+function updateAd(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const ad = requireEntity(store.ads, req.body.ad_id, 'Ad');
+  assertOwned(ad, advertiserId, 'Ad');
+  const creative = req.body.creatives?.[0] ?? {};
+  const source = { ...creative, ...req.body };
+  for (const key of [
+    'ad_name',
+    'ad_text',
+    'landing_page_url',
+    'call_to_action',
+    'operation_status',
+  ] as const) {
+    if (source[key] !== undefined) (ad as any)[key] = source[key];
+  }
+  return { ad_id: ad.ad_id };
+}
+
+/** 通常広告・Smart+広告のどちらのIDでも受け付ける（V2はSmart+広告もこのAPIで停止する） */
+function updateAdStatus(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const status = req.body.operation_status as OperationStatus;
+  const adIds: string[] = (req.body.ad_ids ?? []).map(String);
+  if (adIds.length === 0) {
+    throw new FakeApiError(40002, 'ad_ids: Missing data for required field.');
+  }
+  for (const adId of adIds) {
+    const ad = store.ads.get(adId) ?? store.smartPlusAds.get(adId);
+    if (!ad) throw new FakeApiError(40002, `Ad ${adId} does not exist.`);
+    assertOwned(ad, advertiserId, 'Ad');
+  }
+  for (const adId of adIds) {
+    (store.ads.get(adId) ?? store.smartPlusAds.get(adId))!.operation_status =
+      status;
+  }
+  return { ad_ids: adIds, status };
+}
+
+// ----------------------------------------------------------------------------
+// Smart+
+// ----------------------------------------------------------------------------
+
+function getSmartPlusAds(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const filtering = jsonParam(req.query, 'filtering');
+  const ids = idFilter(filtering, 'smart_plus_ad_ids');
+  const list = ofStatus([...store.smartPlusAds.values()], filtering).filter(
+    (a) =>
+      a.advertiser_id === advertiserId && (!ids || ids.has(a.smart_plus_ad_id)),
+  );
+  return paginate(list, req.query);
+}
+
+function getSmartPlusAdGroups(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const filtering = jsonParam(req.query, 'filtering');
+  const ids = idFilter(filtering, 'adgroup_ids');
+  const list = ofStatus([...store.adgroups.values()], filtering).filter(
+    (g) =>
+      g.is_smart_plus &&
+      g.advertiser_id === advertiserId &&
+      (!ids || ids.has(g.adgroup_id)),
+  );
+  return paginate(list, req.query);
+}
+
+function updateSmartPlusAdGroupBudgets(
+  req: FakeRequest,
+  store: FakeTikTokStore,
+) {
+  const advertiserId = advertiserIdOf(req, store);
+  const updates: { adgroup_id: string; budget: number }[] =
+    req.body.budget ?? [];
+  if (updates.length === 0 || updates.length > 20) {
+    throw new FakeApiError(40002, 'budget: Length must be between 1 and 20.');
+  }
+  const adgroups = updates.map((u) => {
+    const adgroup = requireEntity(store.adgroups, u.adgroup_id, 'Adgroup');
+    assertOwned(adgroup, advertiserId, 'Adgroup');
+    if (!adgroup.is_smart_plus) {
+      throw new FakeApiError(
+        40002,
+        `Adgroup ${adgroup.adgroup_id} is not a Smart+ adgroup.`,
+      );
+    }
+    return adgroup;
+  });
+  adgroups.forEach(
+    (adgroup, i) => (adgroup.budget = Number(updates[i].budget)),
+  );
+  return {};
+}
+
+function updateSmartPlusAdGroup(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const adgroup = requireEntity(store.adgroups, req.body.adgroup_id, 'Adgroup');
+  assertOwned(adgroup, advertiserId, 'Adgroup');
+  if (!adgroup.is_smart_plus) {
+    throw new FakeApiError(
+      40002,
+      `Adgroup ${adgroup.adgroup_id} is not a Smart+ adgroup.`,
+    );
+  }
+  if (req.body.dayparting !== undefined) {
+    adgroup.dayparting = parseDayparting(req.body.dayparting);
+  }
+  if (req.body.adgroup_name) adgroup.adgroup_name = req.body.adgroup_name;
+  return { adgroup_id: adgroup.adgroup_id };
+}
+
+function updateSmartPlusCampaign(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const campaign = requireEntity(
+    store.campaigns,
+    req.body.campaign_id,
+    'Campaign',
+  );
+  assertOwned(campaign, advertiserId, 'Campaign');
+  if (campaign.deep_bid_type && !req.body.deep_bid_type) {
+    throw new FakeApiError(
+      40002,
+      'deep_bid_type is required when deep funnel optimization is on.',
+    );
+  }
+  if (req.body.budget !== undefined) campaign.budget = Number(req.body.budget);
+  if (req.body.campaign_name) campaign.campaign_name = req.body.campaign_name;
+  return { campaign_id: campaign.campaign_id };
+}
+
+function createSmartPlusAd(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const adgroup = requireEntity(store.adgroups, req.body.adgroup_id, 'Adgroup');
+  assertOwned(adgroup, advertiserId, 'Adgroup');
+  const creativeList: any[] = req.body.creative_list ?? [];
+  for (const creative of creativeList) {
+    const videoId = creative.creative_info?.video_info?.video_id;
+    if (videoId && !store.videos.has(String(videoId))) {
+      throw new FakeApiError(40002, `Video ${videoId} does not exist.`);
+    }
+  }
+  const ad: FakeSmartPlusAd = {
+    advertiser_id: advertiserId,
+    smart_plus_ad_id: store.nextId(),
+    adgroup_id: adgroup.adgroup_id,
+    campaign_id: adgroup.campaign_id,
+    ad_name: req.body.ad_name ?? '',
+    creative_list: creativeList,
+    ad_text_list: req.body.ad_text_list ?? [],
+    landing_page_url_list: req.body.landing_page_url_list ?? [],
+    ad_configuration: req.body.ad_configuration ?? {},
+    operation_status: req.body.operation_status ?? 'ENABLE',
+    create_time: toTikTokTime(),
+  };
+  store.smartPlusAds.set(ad.smart_plus_ad_id, ad);
+  return { smart_plus_ad_id: ad.smart_plus_ad_id };
+}
+
+// ----------------------------------------------------------------------------
+// レポート
+// ----------------------------------------------------------------------------
+
+const COUNT_METRICS = [
+  'impressions',
+  'clicks',
+  'conversion',
+  'video_watched_2s',
+  'video_watched_6s',
+] as const;
+
+function formatMetrics(rows: FakeReportRow[], metrics: string[]) {
+  const sum = (key: keyof FakeReportRow) =>
+    rows.reduce((total, row) => total + (Number(row[key]) || 0), 0);
+  const spend = sum('spend');
+  const impressions = sum('impressions');
+  const clicks = sum('clicks');
+  const conversion = sum('conversion');
+  const ratio = (a: number, b: number, scale = 1) =>
+    b > 0 ? ((a / b) * scale).toFixed(2) : '0.00';
+
+  const values: Record<string, string> = {
+    spend: spend.toFixed(2),
+    ctr: ratio(clicks, impressions, 100),
+    cpc: ratio(spend, clicks),
+    cpm: ratio(spend, impressions, 1000),
+    cost_per_conversion: ratio(spend, conversion),
+  };
+  for (const key of COUNT_METRICS) values[key] = String(sum(key));
+
+  return Object.fromEntries(metrics.map((m) => [m, values[m] ?? '0']));
+}
+
+function dimensionValue(
+  row: FakeReportRow,
+  dimension: string,
+  store: FakeTikTokStore,
+): string {
+  const ad = store.ads.get(row.ad_id) ?? store.smartPlusAds.get(row.ad_id);
+  switch (dimension) {
+    case 'stat_time_day':
+      return `${row.stat_date} 00:00:00`;
+    case 'stat_time_hour':
+      return `${row.stat_date} ${String(row.stat_hour ?? 0).padStart(2, '0')}:00:00`;
+    case 'ad_id':
+    case 'smart_plus_ad_id':
+      return row.ad_id;
+    case 'adgroup_id':
+      return ad?.adgroup_id ?? '';
+    case 'campaign_id':
+      return ad?.campaign_id ?? '';
+    case 'main_material_id':
+      return row.main_material_id ?? '';
+    default:
+      return '';
+  }
+}
+
+function aggregateReport(
+  rows: FakeReportRow[],
+  dimensions: string[],
+  metrics: string[],
+  store: FakeTikTokStore,
+) {
+  const groups = new Map<string, FakeReportRow[]>();
+  for (const row of rows) {
+    const key = dimensions.map((d) => dimensionValue(row, d, store)).join('|');
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  return [...groups.values()].map((group) => ({
+    dimensions: Object.fromEntries(
+      dimensions.map((d) => [d, dimensionValue(group[0], d, store)]),
+    ),
+    metrics: formatMetrics(group, metrics),
+  }));
+}
+
+function reportRowsInRange(
+  req: FakeRequest,
+  store: FakeTikTokStore,
+  advertiserId: string,
+  smartPlus: boolean,
+): FakeReportRow[] {
+  const { start_date, end_date } = req.query;
+  if (!start_date || !end_date) {
+    throw new FakeApiError(
+      40002,
+      'start_date/end_date: Missing data for required field.',
+    );
+  }
+  return store.reportRows.filter(
+    (row) =>
+      row.advertiser_id === advertiserId &&
+      row.smart_plus === smartPlus &&
+      row.stat_date >= start_date &&
+      row.stat_date <= end_date,
+  );
+}
+
+/** v1.3 の [{ field_name, filter_type, filter_value }] 形式と、ID配列のオブジェクト形式の両方に対応 */
+function reportFilter(filtering: any): (row: any) => boolean {
+  if (!filtering) return () => true;
+  const conditions: [string, Set<string>][] = Array.isArray(filtering)
+    ? filtering.map((f: any) => [
+        String(f.field_name).replace(/_ids$/, '_id'),
+        new Set<string>(
+          (typeof f.filter_value === 'string'
+            ? JSON.parse(f.filter_value)
+            : f.filter_value
+          ).map(String),
+        ),
+      ])
+    : Object.entries(filtering).map(([key, ids]) => [
+        key.replace(/_ids$/, '_id'),
+        new Set<string>((ids as any[]).map(String)),
+      ]);
+  return (row) =>
+    conditions.every(([dimension, ids]) => ids.has(row.dimensions[dimension]));
+}
+
+const DATA_LEVEL_DIMENSION: Record<string, string> = {
+  AUCTION_AD: 'ad_id',
+  AUCTION_ADGROUP: 'adgroup_id',
+  AUCTION_CAMPAIGN: 'campaign_id',
+};
+
+function getIntegratedReport(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const dataLevel = String(req.query.data_level ?? 'AUCTION_AD');
+  if (!DATA_LEVEL_DIMENSION[dataLevel]) {
+    throw new FakeApiError(40002, `data_level ${dataLevel} is not supported.`);
+  }
+  const dimensions: string[] = jsonParam(req.query, 'dimensions') ?? [
+    'stat_time_day',
+    DATA_LEVEL_DIMENSION[dataLevel],
+  ];
+  const metrics: string[] = jsonParam(req.query, 'metrics') ?? ['spend'];
+  if (
+    dimensions.includes('stat_time_hour') &&
+    req.query.start_date !== req.query.end_date
+  ) {
+    throw new FakeApiError(
+      40002,
+      'stat_time_hour: The time span cannot exceed 1 day.',
+    );
+  }
+  const rows = reportRowsInRange(req, store, advertiserId, false);
+  const keyDimensions = dimensions.includes(DATA_LEVEL_DIMENSION[dataLevel])
+    ? dimensions
+    : [...dimensions, DATA_LEVEL_DIMENSION[dataLevel]];
+  const list = aggregateReport(rows, keyDimensions, metrics, store)
+    .filter(reportFilter(jsonParam(req.query, 'filtering')))
+    .map((row) => ({
+      ...row,
+      dimensions: Object.fromEntries(
+        dimensions.map((d) => [d, row.dimensions[d]]),
+      ),
+    }));
+  return paginate(list, req.query);
+}
+
+function getSmartPlusMaterialReport(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const dimensions: string[] = jsonParam(req.query, 'dimensions') ?? [
+    'smart_plus_ad_id',
+  ];
+  const metrics: string[] = jsonParam(req.query, 'metrics') ?? ['spend'];
+  const ids = idFilter(jsonParam(req.query, 'filtering'), 'smart_plus_ad_ids');
+  const rows = reportRowsInRange(req, store, advertiserId, true).filter(
+    (row) => !ids || ids.has(row.ad_id),
+  );
+  return paginate(aggregateReport(rows, dimensions, metrics, store), req.query);
+}
+
+// ----------------------------------------------------------------------------
+// ファイル（動画・画像）
+// ----------------------------------------------------------------------------
+
+export function videoAssetPath(videoId: string): string {
+  return `/__assets/videos/${videoId}.mp4`;
+}
+
+export function videoCoverAssetPath(videoId: string): string {
+  return `/__assets/videos/${videoId}_cover.jpg`;
+}
+
+export function imageAssetPath(imageId: string): string {
+  return `/__assets/images/${imageId}.jpg`;
+}
+
+function uploadVideo(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const file = req.files.video_file;
+  if (!file) {
+    throw new FakeApiError(
+      40002,
+      'video_file: Missing data for required field.',
+    );
+  }
+  const videoId = `v10033g50000${store.nextId()}`;
+  store.videos.set(videoId, {
+    advertiser_id: advertiserId,
+    video_id: videoId,
+    file_name: file.filename,
+    signature: String(req.body.video_signature ?? ''),
+    size: file.data.length,
+    duration: 15,
+    processing_polls: 0,
+  });
+  store.assets.set(videoAssetPath(videoId), file.data);
+  store.assets.set(
+    videoCoverAssetPath(videoId),
+    Buffer.from(`cover:${videoId}`),
+  );
+  return [
+    { video_id: videoId, file_name: file.filename, size: file.data.length },
+  ];
+}
+
+function getVideoInfo(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const ids: string[] = (jsonParam(req.query, 'video_ids') ?? []).map(String);
+  const list = ids
+    .map((id) => store.videos.get(id))
+    .filter((v) => v && v.advertiser_id === advertiserId)
+    .map((video) => {
+      const processing = video!.processing_polls > 0;
+      if (processing) video!.processing_polls -= 1;
+      return {
+        video_id: video!.video_id,
+        file_name: video!.file_name,
+        signature: video!.signature,
+        size: video!.size,
+        format: 'mp4',
+        duration: processing ? 0 : video!.duration,
+        displayable: !processing,
+        video_cover_url: processing
+          ? ''
+          : `${req.baseUrl}${videoCoverAssetPath(video!.video_id)}`,
+        preview_url: `${req.baseUrl}${videoAssetPath(video!.video_id)}`,
+      };
+    });
+  return { list };
+}
+
+function uploadImage(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const file = req.files.image_file;
+  if (!file) {
+    throw new FakeApiError(
+      40002,
+      'image_file: Missing data for required field.',
+    );
+  }
+  const imageId = `ad-site-i18n-sg/${store.nextId()}`;
+  store.images.set(imageId, {
+    advertiser_id: advertiserId,
+    image_id: imageId,
+    file_name: file.filename,
+    signature: String(req.body.image_signature ?? ''),
+    size: file.data.length,
+    width: 720,
+    height: 1280,
+  });
+  store.assets.set(imageAssetPath(imageId), file.data);
+  return {
+    image_id: imageId,
+    image_url: `${req.baseUrl}${imageAssetPath(imageId)}`,
+    width: 720,
+    height: 1280,
+  };
+}
+
+function getImageInfo(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  const ids: string[] = (jsonParam(req.query, 'image_ids') ?? []).map(String);
+  const list = ids
+    .map((id) => store.images.get(id))
+    .filter((i) => i && i.advertiser_id === advertiserId)
+    .map((image) => ({
+      image_id: image!.image_id,
+      file_name: image!.file_name,
+      signature: image!.signature,
+      size: image!.size,
+      width: image!.width,
+      height: image!.height,
+      image_url: `${req.baseUrl}${imageAssetPath(image!.image_id)}`,
+    }));
+  return { list };
+}
+
+function getCustomAudiences(req: FakeRequest, store: FakeTikTokStore) {
+  const advertiserId = advertiserIdOf(req, store);
+  return paginate(
+    store.customAudiences.filter((a) => a.advertiser_id === advertiserId),
+    req.query,
+  );
+}
+
+// ----------------------------------------------------------------------------
+// ルーティング表
+// ----------------------------------------------------------------------------
+
+export const ROUTES: Record<string, RouteHandler> = {
+  'GET /v1.3/campaign/get/': getCampaigns,
+  'POST /v1.2/campaign/create/': (req, store) =>
+    createCampaign(req, store, false),
+  'POST /v1.2/campaign/update/': updateCampaign,
+  'GET /v1.3/adgroup/get/': getAdGroups,
+  'POST /v1.3/adgroup/create/': (req, store) =>
+    createAdGroup(req, store, false),
+  'POST /v1.2/adgroup/update/': updateAdGroup,
+  'GET /v1.3/ad/get/': getAds,
+  'POST /v1.3/ad/create/': createAds,
+  'POST /v1.3/ad/update/': updateAd,
+  'POST /v1.3/ad/status/update/': updateAdStatus,
+  'GET /v1.3/smart_plus/ad/get/': getSmartPlusAds,
+  'POST /v1.3/smart_plus/ad/create/': createSmartPlusAd,
+  'GET /v1.3/smart_plus/adgroup/get/': getSmartPlusAdGroups,
+  'POST /v1.3/smart_plus/adgroup/create/': (req, store) =>
+    createAdGroup(req, store, true),
+  'POST /v1.3/smart_plus/adgroup/budget/update/': updateSmartPlusAdGroupBudgets,
+  'POST /v1.3/smart_plus/adgroup/update/': updateSmartPlusAdGroup,
+  'POST /v1.3/smart_plus/campaign/create/': (req, store) =>
+    createCampaign(req, store, true),
+  'POST /v1.3/smart_plus/campaign/update/': updateSmartPlusCampaign,
+  'GET /v1.3/report/integrated/get/': getIntegratedReport,
+  'GET /v1.3/smart_plus/material_report/overview/': getSmartPlusMaterialReport,
+  'POST /v1.3/file/video/ad/upload/': uploadVideo,
+  'GET /v1.3/file/video/ad/info/': getVideoInfo,
+  'POST /v1.3/file/image/ad/upload/': uploadImage,
+  'GET /v1.3/file/image/ad/info/': getImageInfo,
+  'GET /v1.3/dmp/custom_audience/list/': getCustomAudiences,
+};
@@ -0,0 +1,227 @@
+// ============================================================================
+// 偽TikTok APIの初期データ投入ヘルパー
+// 各関数は作成したIDを返す（テスト側でそのままアサーションに使える）
+// ============================================================================
+
+import { videoAssetPath, videoCoverAssetPath, imageAssetPath } from './routes';
+import {
+  FakeTikTokStore,
+  toTikTokTime,
+  type FakeReportRow,
+  type OperationStatus,
+} from './store';
+
+export interface SeedAdInput {
+  advertiserId: string;
+  adName: string;
+  /** 日予算（CBOならキャンペーン予算） */
+  budget: number;
+  /** キャンペーン予算最適化（CBO） */
+  cbo?: boolean;
+  status?: OperationStatus;
+  videoIds?: string[];
+  adTexts?: string[];
+  landingPageUrls?: string[];
+}
+
+export interface SeededAd {
+  campaignId: string;
+  adgroupId: string;
+  adId: string;
+}
+
+/** アクセストークンを登録する（1件でも登録すると未登録トークンは40001で拒否） */
+export function seedAccessToken(
+  store: FakeTikTokStore,
+  accessToken: string,
+  advertiserIds: string[],
+): void {
+  const allowed = store.accessTokens.get(accessToken) ?? new Set<string>();
+  advertiserIds.forEach((id) => allowed.add(id));
+  store.accessTokens.set(accessToken, allowed);
+}
+
+function seedCampaignAndAdGroup(
+  store: FakeTikTokStore,
+  input: SeedAdInput,
+  smartPlus: boolean,
+): { campaignId: string; adgroupId: string } {
+  const campaignId = store.nextId();
+  const adgroupId = store.nextId();
+  const createTime = toTikTokTime();
+  store.campaigns.set(campaignId, {
+    advertiser_id: input.advertiserId,
+    campaign_id: campaignId,
+    campaign_name: input.adName,
+    objective_type: 'LEAD_GENERATION',
+    budget_mode: input.cbo ? 'BUDGET_MODE_DAY' : 'BUDGET_MODE_INFINITE',
+    budget: input.cbo ? input.budget : 0,
+    budget_optimize_on: !!input.cbo,
+    operation_status: 'ENABLE',
+    is_smart_plus: smartPlus,
+    create_time: createTime,
+  });
+  store.adgroups.set(adgroupId, {
+    advertiser_id: input.advertiserId,
+    adgroup_id: adgroupId,
+    campaign_id: campaignId,
+    adgroup_name: `${input.adName}_adgroup`,
+    budget_mode: input.cbo ? 'BUDGET_MODE_INFINITE' : 'BUDGET_MODE_DAY',
+    budget: input.cbo ? 0 : input.budget,
+    operation_status: 'ENABLE',
+    is_smart_plus: smartPlus,
+    create_time: createTime,
+  });
+  return { campaignId, adgroupId };
+}
+
+/** Smart+広告を キャンペーン → 広告グループ → 広告 の一式で作る */
+export function seedSmartPlusAd(
+  store: FakeTikTokStore,
+  input: SeedAdInput,
+): SeededAd {
+  const { campaignId, adgroupId } = seedCampaignAndAdGroup(store, input, true);
+  const adId = store.nextId();
+  store.smartPlusAds.set(adId, {
+    advertiser_id: input.advertiserId,
+    smart_plus_ad_id: adId,
+    adgroup_id: adgroupId,
+    campaign_id: campaignId,
+    ad_name: input.adName,
+    creative_list: (input.videoIds ?? []).map((videoId) => ({
+      creative_info: {
+        ad_format: 'SINGLE_VIDEO',
+        video_info: { video_id: videoId },
+      },
+    })),
+    ad_text_list: (input.adTexts ?? []).map((ad_text) => ({ ad_text })),
+    landing_page_url_list: (input.landingPageUrls ?? []).map(
+      (landing_page_url) => ({ landing_page_url }),
+    ),
+    ad_configuration: {},
+    operation_status: input.status ?? 'ENABLE',
+    create_time: toTikTokTime(),
+  });
+  return { campaignId, adgroupId, adId };
+}
+
+/** 通常広告を キャンペーン → 広告グループ → 広告 の一式で作る */
+export function seedRegularAd(
+  store: FakeTikTokStore,
+  input: SeedAdInput,
+): SeededAd {
+  const { campaignId, adgroupId } = seedCampaignAndAdGroup(store, input, false);
+  const adId = store.nextId();
+  store.ads.set(adId, {
+    advertiser_id: input.advertiserId,
+    ad_id: adId,
+    adgroup_id: adgroupId,
+    campaign_id: campaignId,
+    ad_name: input.adName,
+    ad_text: input.adTexts?.[0],
+    ad_format: 'SINGLE_VIDEO',
+    video_id: input.videoIds?.[0],
+    landing_page_url: input.landingPageUrls?.[0],
+    operation_status: input.status ?? 'ENABLE',
+    create_time: toTikTokTime(),
+  });
+  return { campaignId, adgroupId, adId };
+}
+
+/**
+ * 日別実績を投入する
+ * 広告IDがSmart+広告なら material_report、通常広告なら report/integrated に出る
+ */
+export function seedReport(
+  store: FakeTikTokStore,
+  input: {
+    advertiserId: string;
+    adId: string;
+    /** YYYY-MM-DD */
+    date: string;
+    /** 時間別レポート用の時（0〜23） */
+    hour?: number;
+    spend: number;
+    impressions: number;
+    clicks?: number;
+    conversion?: number;
+    mainMaterialId?: string;
+  },
+): void {
+  const row: FakeReportRow = {
+    advertiser_id: input.advertiserId,
+    ad_id: input.adId,
+    stat_date: input.date,
+    stat_hour: input.hour,
+    smart_plus: store.smartPlusAds.has(input.adId),
+    main_material_id: input.mainMaterialId,
+    spend: input.spend,
+    impressions: input.impressions,
+    clicks: input.clicks ?? 0,
+    conversion: input.conversion ?? 0,
+  };
+  store.reportRows.push(row);
+}
+
+/** アカウントにアップロード済みの動画を作る（実体は /__assets/ から取得できる） */
+export function seedVideo(
+  store: FakeTikTokStore,
+  input: {
+    advertiserId: string;
+    content?: Buffer;
+    fileName?: string;
+    /** info を何回呼ぶまで処理中として返すか */
+    processingPolls?: number;
+  },
+): string {
+  const videoId = `v10033g50000${store.nextId()}`;
+  const content = input.content ?? Buffer.from(`video:${videoId}`);
+  store.videos.set(videoId, {
+    advertiser_id: input.advertiserId,
+    video_id: videoId,
+    file_name: input.fileName ?? `${videoId}.mp4`,
+    signature: '',
+    size: content.length,
+    duration: 15,
+    processing_polls: input.processingPolls ?? 0,
+  });
+  store.assets.set(videoAssetPath(videoId), content);
+  store.assets.set(
+    videoCoverAssetPath(videoId),
+    Buffer.from(`cover:${videoId}`),
+  );
+  return videoId;
+}
+
+/** アカウントにアップロード済みの画像を作る */
+export function seedImage(
+  store: FakeTikTokStore,
+  input: { advertiserId: string; content?: Buffer; fileName?: string },
+): string {
+  const imageId = `ad-site-i18n-sg/${store.nextId()}`;
+  const content = input.content ?? Buffer.from(`image:${imageId}`);
+  store.images.set(imageId, {
+    advertiser_id: input.advertiserId,
+    image_id: imageId,
+    file_name: input.fileName ?? `${imageId.split('/').pop()}.jpg`,
+    signature: '',
+    size: content.length,
+    width: 720,
+    height: 1280,
+  });
+  store.assets.set(imageAssetPath(imageId), content);
+  return imageId;
+}
+
+export function seedCustomAudience(
+  store: FakeTikTokStore,
+  input: { advertiserId: string; name: string },
+): string {
+  const audienceId = store.nextId();
+  store.customAudiences.push({
+    advertiser_id: input.advertiserId,
+    custom_audience_id: audienceId,
+    name: input.name,
+  });
+  return audienceId;
+}
@@ -0,0 +1,169 @@
+// ============================================================================
+// FakeTikTokStore - 偽TikTok APIのインメモリ状態
+// フィールド名はTikTok Business APIのレスポンスに合わせる（snake_case）
+// ============================================================================
+
+export type OperationStatus = 'ENABLE' | 'DISABLE' | 'DELETE';
+
+export interface FakeCampaign {
+  advertiser_id: string;
+  campaign_id: string;
+  campaign_name: string;
+  objective_type: string;
+  budget_mode: string;
+  budget: number;
+  budget_optimize_on: boolean;
+  operation_status: OperationStatus;
+  is_smart_plus: boolean;
+  deep_bid_type?: string;
+  create_time: string;
+}
+
+export interface FakeAdGroup {
+  advertiser_id: string;
+  adgroup_id: string;
+  campaign_id: string;
+  adgroup_name: string;
+  budget_mode: string;
+  budget: number;
+  operation_status: OperationStatus;
+  is_smart_plus: boolean;
+  pixel_id?: string;
+  optimization_event?: string;
+  targeting_spec?: Record<string, any>;
+  /** 30分刻み×7日の336文字（未設定は終日配信） */
+  dayparting?: string;
+  create_time: string;
+}
+
+export interface FakeAd {
+  advertiser_id: string;
+  ad_id: string;
+  adgroup_id: string;
+  campaign_id: string;
+  ad_name: string;
+  ad_text?: string;
+  ad_format?: string;
+  video_id?: string;
+  image_ids?: string[];
+  landing_page_url?: string;
+  call_to_action?: string;
+  identity_id?: string;
+  identity_type?: string;
+  operation_status: OperationStatus;
+  create_time: string;
+}
+
+export interface FakeSmartPlusAd {
+  advertiser_id: string;
+  smart_plus_ad_id: string;
+  adgroup_id: string;
+  campaign_id: string;
+  ad_name: string;
+  creative_list: any[];
+  ad_text_list: { ad_text: string }[];
+  landing_page_url_list: { landing_page_url: string }[];
+  ad_configuration: Record<string, any>;
+  operation_status: OperationStatus;
+  create_time: string;
+}
+
+/** 日別の実績（通常広告は report/integrated、Smart+は material_report で返す） */
+export interface FakeReportRow {
+  advertiser_id: string;
+  ad_id: string;
+  /** YYYY-MM-DD */
+  stat_date: string;
+  /** 時（0〜23）。時間別レポート（stat_time_hour）でのみ使う */
+  stat_hour?: number;
+  smart_plus: boolean;
+  main_material_id?: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  conversion: number;
+  video_watched_2s?: number;
+  video_watched_6s?: number;
+}
+
+export interface FakeVideo {
+  advertiser_id: string;
+  video_id: string;
+  file_name: string;
+  signature: string;
+  size: number;
+  duration: number;
+  /** 0になるまで info は処理中（displayable=false, カバー画像なし）として返す */
+  processing_polls: number;
+}
+
+export interface FakeImage {
+  advertiser_id: string;
+  image_id: string;
+  file_name: string;
+  signature: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+export interface FakeCustomAudience {
+  advertiser_id: string;
+  custom_audience_id: string;
+  name: string;
+}
+
+export class FakeTikTokStore {
+  campaigns = new Map<string, FakeCampaign>();
+  adgroups = new Map<string, FakeAdGroup>();
+  ads = new Map<string, FakeAd>();
+  smartPlusAds = new Map<string, FakeSmartPlusAd>();
+  reportRows: FakeReportRow[] = [];
+  videos = new Map<string, FakeVideo>();
+  images = new Map<string, FakeImage>();
+  customAudiences: FakeCustomAudience[] = [];
+  /** 動画・画像の実体（/__assets/ で配信） */
+  assets = new Map<string, Buffer>();
+  /** アクセストークン → 操作できる広告主ID。空なら認証しない */
+  accessTokens = new Map<string, Set<string>>();
+
+  private sequence = 0n;
+
+  /** TikTokのIDと同じ19桁の数字文字列を採番 */
+  nextId(): string {
+    this.sequence += 1n;
+    return String(1_800_000_000_000_000_000n + this.sequence);
+  }
+
+  /** アクセストークンで広告主を操作できるか（トークン未登録なら常に許可） */
+  canAccess(accessToken: string | undefined, advertiserId: string): boolean {
+    if (this.accessTokens.size === 0) return true;
+    const allowed = accessToken ? this.accessTokens.get(accessToken) : null;
+    return !!allowed && (!advertiserId || allowed.has(advertiserId));
+  }
+
+  isKnownToken(accessToken: string | undefined): boolean {
+    return (
+      this.accessTokens.size === 0 ||
+      (!!accessToken && this.accessTokens.has(accessToken))
+    );
+  }
+
+  reset(): void {
+    this.campaigns.clear();
+    this.adgroups.clear();
+    this.ads.clear();
+    this.smartPlusAds.clear();
+    this.reportRows = [];
+    this.videos.clear();
+    this.images.clear();
+    this.customAudiences = [];
+    this.assets.clear();
+    this.accessTokens.clear();
+  }
+}
+
+/** TikTokの create_time 形式（UTC, YYYY-MM-DD HH:mm:ss） */
+export function toTikTokTime(date: Date = new Date()): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
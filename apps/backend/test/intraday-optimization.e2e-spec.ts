@@ -0,0 +1,311 @@
+import { IntradayOptimizationService } from '../src/intraday-optimization/intraday-optimization.service';
+import { AppealService } from '../src/appeal/appeal.service';
+import { NotificationService } from '../src/notification/notification.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { DataSourceService } from '../src/data-source/data-source.service';
+import { ConversionLedgerService } from '../src/conversion-ledger/conversion-ledger.service';
+import { seedReport, seedSmartPlusAd, type SeededAd } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  jstDate,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('IntradayOptimization CPA check / resume (e2e, offline)', () => {
+  const advertiserId = '7000000000000000201';
+  let ctx: E2EContext;
+  let service: IntradayOptimizationService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      IntradayOptimizationService,
+      AppealService,
+      NotificationService,
+      ChannelRegistryService,
+      DataSourceService,
+      ConversionLedgerService,
+    ]);
+    service = ctx.module.get(IntradayOptimizationService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    ctx.sheets.reset();
+    await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'SNS', targetCPA: 3000, allowableCPA: 6000 },
+    });
+  });
+
+  /** 当日の消化額を偽APIに、過去7日の消化額をDBに入れる */
+  function seedSpend(ad: SeededAd, todaySpend: number, last7DaysSpend: number) {
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: ad.adId,
+      date: jstDate(),
+      spend: todaySpend,
+      impressions: 2000,
+    });
+    const dbAd = ctx.prisma.seed('ad', {
+      tiktokId: ad.adId,
+      adgroupId: ad.adgroupId,
+      name: 'db-ad',
+      creativeId: 'db-creative',
+      status: 'ENABLE',
+    });
+    ctx.prisma.seed('metric', {
+      entityType: 'AD',
+      adId: dbAd.id,
+      statDate: new Date(`${jstDate(2)}T00:00:00Z`),
+      spend: last7DaysSpend,
+    });
+  }
+
+  const today = () => new Date(`${jstDate()}T12:00:00Z`);
+  const daysAgo = (days: number) => new Date(`${jstDate(days)}T12:00:00Z`);
+
+  it('当日CV0で過去にCVがある広告を停止し、23:59の再開で元に戻す', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-A/LP1-CR00001',
+      budget: 10000,
+    });
+    seedSpend(ad, 4000, 9000);
+    ctx.sheets.addCV('TikTok広告-SNS-LP1-CR00001', 3, daysAgo(2));
+
+    await service.executeIntradayCPACheck();
+
+    expect(ctx.api.store.smartPlusAds.get(ad.adId)?.operation_status).toBe(
+      'DISABLE',
+    );
+    expect(ctx.prisma.rows('intradayPauseLog')).toEqual([
+      expect.objectContaining({
+        adId: ad.adId,
+        pauseReason: 'NO_CV_WITH_PREVIOUS_CV',
+        resumed: false,
+      }),
+    ]);
+    expect(ctx.prisma.rows('notification')).toHaveLength(1);
+
+    await service.executeIntradayResume();
+
+    expect(ctx.api.store.smartPlusAds.get(ad.adId)?.operation_status).toBe(
+      'ENABLE',
+    );
+    expect(ctx.prisma.rows('intradayPauseLog')[0].resumed).toBe(true);
+    expect(ctx.prisma.rows('changeLog').map((log) => log.action)).toEqual([
+      'INTRADAY_PAUSE',
+      'INTRADAY_RESUME',
+    ]);
+  });
+
+  it('当日CPAが目標超・許容内なら広告セット予算を半分にする', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-B/LP2-CR00002',
+      budget: 10000,
+    });
+    seedSpend(ad, 8000, 0);
+    ctx.sheets.addCV('TikTok広告-SNS-LP2-CR00002', 2, today());
+
+    await service.executeIntradayCPACheck();
+
+    expect(ctx.api.store.adgroups.get(ad.adgroupId)?.budget).toBe(5000);
+    expect(ctx.api.store.smartPlusAds.get(ad.adId)?.operation_status).toBe(
+      'ENABLE',
+    );
+    expect(ctx.prisma.rows('intradayBudgetReductionLog')).toEqual([
+      expect.objectContaining({
+        adgroupId: ad.adgroupId,
+        originalBudget: 10000,
+        reducedBudget: 5000,
+        isCBO: false,
+      }),
+    ]);
+  });
+
+  it('広告アカウントの一時停止中はチェック・再開を見送り、スキップを報告する', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-A/LP1-CR00001',
+      budget: 10000,
+    });
+    seedSpend(ad, 4000, 9000);
+    ctx.sheets.addCV('TikTok広告-SNS-LP1-CR00001', 3, daysAgo(2));
+    ctx.prisma.seed('automationPause', {
+      advertiserId,
+      reason: 'ローンチ中',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    const result = await service.executeIntradayCPACheck();
+
+    expect(result.automationSkips).toEqual([
+      expect.objectContaining({ advertiserId, scope: 'ADVERTISER' }),
+    ]);
+    expect(ctx.api.store.smartPlusAds.get(ad.adId)?.operation_status).toBe(
+      'ENABLE',
+    );
+    expect(ctx.prisma.rows('intradayPauseLog')).toHaveLength(0);
+
+    // 停止前のログは一時停止中に再開しない（解除後の実行で再開される）
+    ctx.prisma.seed('intradayPauseLog', {
+      advertiserId,
+      adId: ad.adId,
+      pauseDate: new Date(`${jstDate()}T00:00:00Z`),
+      pauseReason: 'NO_CV_WITH_PREVIOUS_CV',
+    });
+    const resume = await service.executeIntradayResume();
+    expect(resume).toMatchObject({ processed: 0 });
+    expect(resume.automationSkips).toHaveLength(1);
+    expect(ctx.prisma.rows('intradayPauseLog')[0].resumed).toBe(false);
+  });
+
+  it('予測モードでは終日着地予測で判定し、使った予測を停止ログに残す', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-D/LP4-CR00004',
+      budget: 30000,
+    });
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: ad.adId,
+      date: jstDate(),
+      spend: 12000,
+      impressions: 5000,
+    });
+    const dbAd = ctx.prisma.seed('ad', {
+      tiktokId: ad.adId,
+      adgroupId: ad.adgroupId,
+      name: 'db-ad',
+      creativeId: 'db-creative',
+      status: 'ENABLE',
+    });
+    // 過去3日: 終日1万円、どの時刻に実行しても消化割合50%の推移
+    for (const days of [1, 2, 3]) {
+      ctx.prisma.seed('metric', {
+        entityType: 'AD',
+        adId: dbAd.id,
+        statDate: new Date(`${jstDate(days)}T00:00:00Z`),
+        spend: 10000,
+      });
+      for (let hour = 0; hour < 24; hour++) {
+        ctx.prisma.seed('hourlyOptimizationSnapshot', {
+          advertiserId,
+          adId: ad.adId,
+          adName: '251001/山田/CR-D/LP4-CR00004',
+          executionTime: new Date(
+            `${jstDate(days)}T${String(hour).padStart(2, '0')}:30:00+09:00`,
+          ),
+          todayCVCount: 0,
+          todaySpend: 5000,
+          dailyBudget: 10000,
+          action: 'CONTINUE',
+        });
+      }
+    }
+    ctx.sheets.addCV('TikTok広告-SNS-LP4-CR00004', 10, daysAgo(2));
+
+    const result = await service.executeIntradayCPACheck(
+      false,
+      undefined,
+      undefined,
+      'FORECAST',
+    );
+
+    expect(result.mode).toBe('FORECAST');
+    expect(ctx.api.store.smartPlusAds.get(ad.adId)?.operation_status).toBe(
+      'DISABLE',
+    );
+    const [log] = ctx.prisma.rows('intradayPauseLog');
+    expect(log).toMatchObject({
+      adId: ad.adId,
+      pauseReason: 'FORECAST_CPA_EXCEEDED',
+      forecast: expect.objectContaining({
+        curveDays: 3,
+        spend: expect.objectContaining({ p50: 24000 }),
+        allowableCPA: 6000,
+      }),
+    });
+    expect(log.forecast.exceedProbability).toBeGreaterThan(0.8);
+    expect(ctx.prisma.rows('changeLog')[0]).toMatchObject({
+      action: 'INTRADAY_PAUSE',
+      reason: expect.stringContaining('着地予測'),
+    });
+  });
+
+  it('予測モードでも推移の履歴がなければ当日CPAで判定する', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-C/LP3-CR00003',
+      budget: 10000,
+    });
+    seedSpend(ad, 9000, 0);
+    ctx.sheets.addCV('TikTok広告-SNS-LP3-CR00003', 1, today());
+
+    const result = await service.executeIntradayCPACheck(
+      true,
+      undefined,
+      undefined,
+      'FORECAST',
+    );
+
+    expect(result.advertisers[0].ads).toEqual([
+      expect.objectContaining({
+        decision: 'PAUSE',
+        forecast: null,
+        reason: expect.stringMatching(/^着地予測に必要な推移が不足/),
+      }),
+    ]);
+  });
+
+  it('dryRun では判定結果だけ返す', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-C/LP3-CR00003',
+      budget: 10000,
+    });
+    seedSpend(ad, 9000, 0);
+    ctx.sheets.addCV('TikTok広告-SNS-LP3-CR00003', 1, today());
+
+    const result = await service.executeIntradayCPACheck(true);
+
+    expect(result?.summary).toMatchObject({ totalAds: 1, wouldPause: 1 });
+    expect(ctx.api.store.smartPlusAds.get(ad.adId)?.operation_status).toBe(
+      'ENABLE',
+    );
+    expect(ctx.prisma.rows('intradayPauseLog')).toHaveLength(0);
+  });
+
+  it('配信時間帯（dayparting）外の広告セットは判定せず継続する', async () => {
+    const ad = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: '251001/山田/CR-A/LP1-CR00001',
+      budget: 10000,
+    });
+    seedSpend(ad, 4000, 9000);
+    ctx.sheets.addCV('TikTok広告-SNS-LP1-CR00001', 3, daysAgo(2));
+    // どの時刻も配信しない設定（実行時刻によらず配信時間帯外）
+    ctx.prisma.seed('adGroup', {
+      tiktokId: ad.adgroupId,
+      campaignId: 'db-campaign',
+      name: 'db-adgroup',
+      schedule: { dayparting: '0'.repeat(336) },
+      status: 'ENABLE',
+    });
+
+    const result = await service.executeIntradayCPACheck(true);
+
+    expect(result?.summary).toMatchObject({ totalAds: 1, wouldContinue: 1 });
+    expect(result?.advertisers[0].ads[0]).toMatchObject({
+      decision: 'CONTINUE',
+      reason: '配信時間帯（dayparting）外のため判定しない',
+    });
+  });
+});
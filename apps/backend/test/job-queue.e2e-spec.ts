@@ -0,0 +1,165 @@
+import { JobQueueService } from '../src/job-queue/job-queue.service';
+import { createE2EContext, type E2EContext } from './support/e2e-context';
+
+describe('JobQueue lock / run records / retry (e2e, offline)', () => {
+  let ctx: E2EContext;
+  let jobQueue: JobQueueService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([]);
+    jobQueue = ctx.module.get(JobQueueService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(() => {
+    ctx.prisma.reset();
+  });
+
+  it('前回の実行がロックを保持していれば実行せず SKIPPED を記録する', async () => {
+    ctx.prisma.seed('jobLock', {
+      name: 'budget-optimization-v2',
+      ownerId: 'previous-run',
+      acquiredAt: new Date(),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const handler = jest.fn();
+
+    const outcome = await jobQueue.run('budget-optimization-v2', handler);
+
+    expect(outcome).toMatchObject({ status: 'SKIPPED', skipReason: 'LOCKED' });
+    expect(handler).not.toHaveBeenCalled();
+    const [run] = ctx.prisma.rows('jobRun');
+    expect(run).toMatchObject({ status: 'SKIPPED', skipReason: 'LOCKED' });
+    expect(run.finishedAt).toBeInstanceOf(Date);
+    // 他の実行のロックは解放しない
+    expect(ctx.prisma.rows('jobLock')).toHaveLength(1);
+  });
+
+  it('期限切れのロックは奪って実行し、終了後に解放する', async () => {
+    ctx.prisma.seed('jobLock', {
+      name: 'intraday-resume',
+      ownerId: 'crashed-run',
+      acquiredAt: new Date(Date.now() - 3_600_000),
+      expiresAt: new Date(Date.now() - 1_000),
+    });
+
+    const outcome = await jobQueue.run('intraday-resume', async () => 'done');
+
+    expect(outcome).toMatchObject({ status: 'SUCCEEDED', result: 'done' });
+    expect(ctx.prisma.rows('jobLock')).toHaveLength(0);
+  });
+
+  it('広告アカウント別の結果を記録し、失敗分だけを再実行する', async () => {
+    const failing = new Set(['adv-b']);
+    const handler = jest.fn(async (run) =>
+      run.forEachAdvertiser(
+        ['adv-a', 'adv-b', 'adv-c'],
+        (id: string) => id,
+        async (id: string) => {
+          if (failing.has(id)) throw new Error(`API error for ${id}`);
+          return { synced: 1 };
+        },
+        { maxAttempts: 1, summarize: (value: object) => ({ ...value }) },
+      ),
+    );
+    jobQueue.register('intraday-resume', handler);
+
+    const first = await jobQueue.run('intraday-resume', handler, {
+      trigger: 'API',
+    });
+    expect(first.status).toBe('PARTIAL');
+    const detail = await jobQueue.findRun(first.runId);
+    expect(
+      detail.results.map((r) => [r.advertiserId, r.status, r.error]),
+    ).toEqual([
+      ['adv-a', 'SUCCEEDED', null],
+      ['adv-b', 'FAILED', 'API error for adv-b'],
+      ['adv-c', 'SUCCEEDED', null],
+    ]);
+
+    failing.clear();
+    const retried = await jobQueue.retry(first.runId);
+
+    expect(retried.status).toBe('SUCCEEDED');
+    const retryRun = await jobQueue.findRun(retried.runId);
+    expect(retryRun).toMatchObject({
+      trigger: 'RETRY',
+      retryOfId: first.runId,
+      attempt: 2,
+      params: { advertiserIds: ['adv-b'] },
+    });
+    expect(retryRun.results.map((r) => r.advertiserId)).toEqual(['adv-b']);
+  });
+
+  it('失敗した広告アカウントは maxAttempts まで再試行して結果に試行回数を残す', async () => {
+    let calls = 0;
+    const outcome = await jobQueue.run('daily-entity-sync', (run) =>
+      run.forEachAdvertiser(
+        ['adv-a'],
+        (id) => id,
+        async () => {
+          calls++;
+          if (calls === 1) throw new Error('temporary');
+          return calls;
+        },
+      ),
+    );
+
+    expect(outcome.status).toBe('SUCCEEDED');
+    expect(ctx.prisma.rows('jobRunResult')).toEqual([
+      expect.objectContaining({ advertiserId: 'adv-a', attempts: 2 }),
+    ]);
+  });
+
+  it('ジョブ全体が例外で終わった場合は FAILED とエラーを記録する', async () => {
+    const outcome = await jobQueue.run('daily-report-fetch', async () => {
+      throw new Error('DB down');
+    });
+
+    expect(outcome).toMatchObject({ status: 'FAILED', error: 'DB down' });
+    expect(ctx.prisma.rows('jobRun')[0]).toMatchObject({
+      status: 'FAILED',
+      error: 'DB down',
+    });
+  });
+
+  it('drain はロック保持時間を過ぎて RUNNING のまま残った実行を FAILED にする', async () => {
+    const handler = jest.fn(async () => 'done');
+    jobQueue.register('intraday-resume', handler);
+    // 取得後にインスタンスが落ち、RUNNING のまま残った実行
+    ctx.prisma.seed('jobRun', {
+      jobName: 'intraday-resume',
+      status: 'RUNNING',
+      trigger: 'CRON',
+      attempt: 1,
+      queuedAt: new Date(Date.now() - 3_600_000),
+      startedAt: new Date(Date.now() - 3_600_000),
+    });
+    // 別インスタンスで実行中（ロック保持時間内）
+    ctx.prisma.seed('jobRun', {
+      jobName: 'daily-entity-sync',
+      status: 'RUNNING',
+      trigger: 'CRON',
+      attempt: 1,
+      queuedAt: new Date(Date.now() - 60_000),
+      startedAt: new Date(Date.now() - 60_000),
+    });
+    const queued = await jobQueue.enqueue('intraday-resume');
+
+    const outcomes = await jobQueue.drain();
+
+    expect(outcomes).toEqual([
+      expect.objectContaining({ runId: queued.id, status: 'SUCCEEDED' }),
+    ]);
+    const [stale, running] = ctx.prisma.rows('jobRun');
+    expect(stale).toMatchObject({
+      status: 'FAILED',
+      error: expect.stringContaining('did not finish'),
+    });
+    expect(stale.finishedAt).toBeInstanceOf(Date);
+    expect(running).toMatchObject({ status: 'RUNNING', finishedAt: null });
+  });
+});
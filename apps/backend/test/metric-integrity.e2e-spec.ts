@@ -0,0 +1,300 @@
+import { MetricIntegrityService } from '../src/metric-integrity/metric-integrity.service';
+import { TiktokService } from '../src/tiktok/tiktok.service';
+import {
+  seedRegularAd,
+  seedReport,
+  seedSmartPlusAd,
+  type SeededAd,
+} from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Metric integrity check & repair queue (e2e, offline)', () => {
+  const advertiserId = '7000000000000000901';
+  // 2026-03-10 10:00 JST（チェック期間は昨日 3/9 まで）
+  const now = new Date('2026-03-10T01:00:00.000Z');
+  let ctx: E2EContext;
+  let service: MetricIntegrityService;
+  let tiktok: TiktokService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([MetricIntegrityService]);
+    service = ctx.module.get(MetricIntegrityService);
+    tiktok = ctx.module.get(TiktokService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'AI', targetCPA: 3000, allowableCPA: 4000 },
+    });
+  });
+
+  /** 偽APIの広告と同期済みの Campaign / AdGroup / Ad を登録する */
+  function seedSynced(seeded: SeededAd, name: string) {
+    const advertiser = ctx.prisma.rows('advertiser')[0];
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: seeded.campaignId,
+      advertiserId: advertiser.id,
+      name,
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: seeded.adgroupId,
+      campaignId: campaign.id,
+      name: `${name}_adgroup`,
+      budget: 5000,
+      status: 'ENABLE',
+    });
+    return ctx.prisma.seed('ad', {
+      tiktokId: seeded.adId,
+      adgroupId: adGroup.id,
+      name,
+      creativeId: `creative-${seeded.adId}`,
+      status: 'ENABLE',
+    });
+  }
+
+  /** AD 行（entityKey を省略すると一意キー導入前の行） */
+  function seedMetric(
+    adId: string | null,
+    statDate: string,
+    values: { spend: number; impressions?: number; conversions?: number },
+    extra: Record<string, unknown> = {},
+  ) {
+    return ctx.prisma.seed('metric', {
+      entityType: 'AD',
+      adId,
+      statDate: new Date(statDate),
+      impressions: values.impressions ?? 1000,
+      conversions: values.conversions ?? 2,
+      spend: values.spend,
+      createdAt: new Date('2026-03-09T20:00:00.000Z'),
+      ...extra,
+    });
+  }
+
+  it('保存は一意キーで上書きし、キー未設定の古い行は置き換える', async () => {
+    const name = '260301/山田/朝型CR/LP1-CR00001';
+    const seeded = seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: name,
+      budget: 5000,
+    });
+    const ad = seedSynced(seeded, name);
+    seedMetric(ad.id, '2026-03-09T00:00:00.000Z', { spend: 7000 });
+
+    const report = [
+      {
+        dimensions: {
+          ad_id: seeded.adId,
+          stat_time_day: '2026-03-09 00:00:00',
+        },
+        metrics: { spend: '9000', impressions: '3000', conversions: '3' },
+      },
+    ];
+    await tiktok.saveReportMetrics(report, 'AUCTION_AD', advertiserId);
+    await tiktok.saveReportMetrics(report, 'AUCTION_AD', advertiserId);
+
+    expect(ctx.prisma.rows('metric')).toEqual([
+      expect.objectContaining({
+        adId: ad.id,
+        entityKey: `AD:${ad.id}:`,
+        statDate: new Date('2026-03-09T00:00:00.000Z'),
+        spend: 9000,
+      }),
+    ]);
+
+    // Smart+ は統計日を指定して保存できる（指定しなければ昨日）
+    const smartPlusName = '260301/山田/Smart+CR/LP1-CR00002';
+    const smartPlus = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: smartPlusName,
+      budget: 5000,
+    });
+    const smartPlusAd = seedSynced(smartPlus, smartPlusName);
+    const creatives = [1000, 2000].map((spend) => ({
+      dimensions: { smart_plus_ad_id: smartPlus.adId },
+      metrics: { spend: String(spend), impressions: '100', conversion: '1' },
+    }));
+    await tiktok.saveSmartPlusMetrics(creatives, advertiserId, '2026-03-08');
+    await tiktok.saveSmartPlusMetrics(creatives, advertiserId, '2026-03-08');
+
+    const smartPlusRows = ctx.prisma
+      .rows('metric')
+      .filter((row) => row.adId === smartPlusAd.id);
+    expect(smartPlusRows).toEqual([
+      expect.objectContaining({
+        statDate: new Date('2026-03-08T00:00:00.000Z'),
+        spend: 3000,
+        conversions: 2,
+      }),
+    ]);
+  });
+
+  it('重複・ゾンビ・孤立行・消化額の不一致を修復キューに積み、承認したものだけ適用する', async () => {
+    const regularName = '260301/山田/朝型CR/LP1-CR00001';
+    const regular = seedRegularAd(ctx.api.store, {
+      advertiserId,
+      adName: regularName,
+      budget: 5000,
+    });
+    const regularAd = seedSynced(regular, regularName);
+    const smartPlusName = '260301/山田/Smart+CR/LP1-CR00002';
+    const smartPlus = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName: smartPlusName,
+      budget: 5000,
+    });
+    const smartPlusAd = seedSynced(smartPlus, smartPlusName);
+
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: regular.adId,
+      date: '2026-03-08',
+      spend: 10000,
+      impressions: 1000,
+    });
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: regular.adId,
+      date: '2026-03-09',
+      spend: 12000,
+      impressions: 1000,
+      conversion: 3,
+    });
+    seedReport(ctx.api.store, {
+      advertiserId,
+      adId: smartPlus.adId,
+      date: '2026-03-05',
+      spend: 6000,
+      impressions: 1000,
+    });
+
+    // 3/8: JST 0時で保存された古い行と、後から保存した行の重複
+    const legacy = seedMetric(
+      regularAd.id,
+      '2026-03-07T15:00:00.000Z',
+      { spend: 9000 },
+      { createdAt: new Date('2026-03-08T20:00:00.000Z') },
+    );
+    seedMetric(
+      regularAd.id,
+      '2026-03-08T00:00:00.000Z',
+      { spend: 10000 },
+      { entityKey: `AD:${regularAd.id}:` },
+    );
+    // 3/9: レポートは ¥12,000
+    seedMetric(regularAd.id, '2026-03-09T00:00:00.000Z', { spend: 8000 });
+    // Smart+ の期間合計が3日続けて保存されたゾンビ
+    const zombies = ['05', '06', '07'].map((day) =>
+      seedMetric(smartPlusAd.id, `2026-03-${day}T00:00:00.000Z`, {
+        spend: 6000,
+      }),
+    );
+    const orphan = seedMetric(null, '2026-03-08T00:00:00.000Z', {
+      spend: 500,
+    });
+
+    const result = await service.check({}, undefined, now);
+
+    expect(result).toMatchObject({
+      period: { from: '2026-02-24', to: '2026-03-09' },
+      scannedRows: 7,
+      detected: { DUPLICATE: 1, ZOMBIE: 1, ORPHAN: 1, SPEND_MISMATCH: 1 },
+      queued: 4,
+      checkedAdvertiserIds: [advertiserId],
+      failedAdvertiserIds: [],
+    });
+    const item = (kind: string) =>
+      ctx.prisma.rows('metricRepairItem').find((row) => row.kind === kind)!;
+    expect(item('DUPLICATE')).toMatchObject({
+      status: 'PENDING',
+      action: 'DELETE',
+      advertiserId,
+      statDate: '2026-03-08',
+      metricIds: [legacy.id],
+    });
+    expect(item('ZOMBIE').metricIds).toEqual([zombies[1].id, zombies[2].id]);
+    expect(item('ORPHAN')).toMatchObject({
+      advertiserId: null,
+      metricIds: [orphan.id],
+    });
+    expect(item('SPEND_MISMATCH')).toMatchObject({
+      action: 'RESYNC',
+      entityId: regularAd.id,
+      statDate: '2026-03-09',
+      details: { dbSpend: 8000, reportSpend: 12000, diff: -4000 },
+    });
+
+    // 同じ検知は二重に積まない
+    const again = await service.check({}, undefined, now);
+    expect(again.queued).toBe(0);
+    expect(ctx.prisma.rows('metricRepairItem')).toHaveLength(4);
+
+    // 担当アカウントだけのユーザーには広告アカウントを辿れない行は見えない
+    expect(
+      (await service.list({}, [advertiserId])).map((i) => i.kind).sort(),
+    ).toEqual(['DUPLICATE', 'SPEND_MISMATCH', 'ZOMBIE']);
+    await expect(
+      service.review(item('ORPHAN').id, 'APPROVED', 'user-1', [advertiserId]),
+    ).rejects.toThrow(`No access to advertisers: (unknown)`);
+
+    // 承認したものだけ適用する
+    for (const kind of ['DUPLICATE', 'ZOMBIE', 'SPEND_MISMATCH']) {
+      await service.review(item(kind).id, 'APPROVED', 'user-1', null);
+    }
+    await service.review(
+      item('ORPHAN').id,
+      'REJECTED',
+      'user-1',
+      null,
+      '調査中',
+    );
+    await expect(
+      service.review(item('ORPHAN').id, 'APPROVED', 'user-1', null),
+    ).rejects.toThrow('is REJECTED and cannot be reviewed');
+
+    const applied = await service.applyApproved(undefined, null);
+
+    expect(applied.applied).toHaveLength(3);
+    expect(applied.failed).toEqual([]);
+    const remaining = ctx.prisma.rows('metric');
+    for (const deleted of [legacy, zombies[1], zombies[2]]) {
+      expect(remaining.map((row) => row.id)).not.toContain(deleted.id);
+    }
+    expect(
+      remaining.find(
+        (row) =>
+          row.adId === regularAd.id &&
+          row.statDate.getTime() === Date.parse('2026-03-09T00:00:00.000Z'),
+      ),
+    ).toMatchObject({ spend: 12000, entityKey: `AD:${regularAd.id}:` });
+
+    // 修復後は却下した孤立行だけが検知され、却下のまま
+    const after = await service.check({}, undefined, now);
+    expect(after).toMatchObject({
+      detected: { DUPLICATE: 0, ZOMBIE: 0, ORPHAN: 1, SPEND_MISMATCH: 0 },
+      queued: 0,
+    });
+    expect(item('ORPHAN')).toMatchObject({
+      status: 'REJECTED',
+      note: '調査中',
+    });
+    expect(
+      ctx.prisma
+        .rows('metricRepairItem')
+        .filter((row) => row.status === 'APPLIED'),
+    ).toHaveLength(3);
+  });
+});
@@ -0,0 +1,203 @@
+import { NotificationDispatcherService } from '../src/notification/notification-dispatcher.service';
+import {
+  NotificationService,
+  NotificationSeverity,
+  NotificationType,
+} from '../src/notification/notification.service';
+import type { OutboundNotification } from '../src/notification/domain/routing';
+import { createE2EContext, type E2EContext } from './support/e2e-context';
+
+describe('Notification dispatcher routing / dedup / quiet hours (e2e, offline)', () => {
+  let ctx: E2EContext;
+  let dispatcher: NotificationDispatcherService;
+
+  const notification = (
+    overrides: Partial<OutboundNotification> = {},
+  ): OutboundNotification => ({
+    type: 'SYSTEM_ERROR',
+    severity: 'WARNING',
+    advertiserId: 'adv-1',
+    title: 'V2予算調整エラー',
+    message: 'body',
+    ...overrides,
+  });
+
+  const seedRoute = (overrides: Record<string, unknown>) =>
+    ctx.prisma.seed('notificationRoute', {
+      name: 'route',
+      channel: 'SLACK',
+      target: null,
+      types: [],
+      minSeverity: 'INFO',
+      advertiserIds: [],
+      dedupWindowMinutes: 0,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      enabled: true,
+      ...overrides,
+    });
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([NotificationService]);
+    dispatcher = ctx.module.get(NotificationDispatcherService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(() => {
+    ctx.prisma.reset();
+    ctx.notifications.reset();
+  });
+
+  it('ルール未登録なら既定ルールでシステムエラーをLINEに送り、SENT を記録する', async () => {
+    const [delivery] = await dispatcher.dispatch(notification());
+
+    expect(delivery).toMatchObject({
+      routeId: null,
+      channel: 'LINE',
+      status: 'SENT',
+      attempts: 1,
+    });
+    expect(ctx.notifications.sentTo('LINE')).toHaveLength(1);
+  });
+
+  it('種類・広告アカウントで振り分け、ルールの送信先に送る', async () => {
+    seedRoute({
+      name: 'adv-1 のエラー → メール',
+      channel: 'EMAIL',
+      target: 'ops@example.com',
+      types: ['SYSTEM_ERROR'],
+      advertiserIds: ['adv-1'],
+    });
+
+    await dispatcher.dispatch(notification());
+    await dispatcher.dispatch(notification({ advertiserId: 'adv-2' }));
+    await dispatcher.dispatch(notification({ type: 'BUDGET_ANOMALY' }));
+
+    expect(ctx.notifications.sent).toEqual([
+      expect.objectContaining({
+        channel: 'EMAIL',
+        target: 'ops@example.com',
+        notification: expect.objectContaining({ advertiserId: 'adv-1' }),
+      }),
+    ]);
+    // ルールが登録されていれば既定ルール（LINE）は使わない
+    expect(ctx.notifications.sentTo('LINE')).toEqual([]);
+  });
+
+  it('重複排除の期間内に同じ通知は送らず SUPPRESSED を記録する', async () => {
+    seedRoute({ dedupWindowMinutes: 60 });
+
+    await dispatcher.dispatch(notification({ entityId: 'ad-1' }));
+    const [second] = await dispatcher.dispatch(
+      notification({ entityId: 'ad-1' }),
+    );
+    await dispatcher.dispatch(notification({ entityId: 'ad-2' }));
+
+    expect(second).toMatchObject({
+      status: 'SUPPRESSED',
+      suppressReason: 'DUPLICATE',
+    });
+    expect(ctx.notifications.sentTo('SLACK')).toHaveLength(2);
+  });
+
+  it('通知を控える時間帯は DEFERRED にし、時間帯が終われば送る（CRITICAL は即時）', async () => {
+    const hour = new Date(Date.now() + 9 * 60 * 60 * 1000).getUTCHours();
+    seedRoute({ quietHoursStart: hour, quietHoursEnd: (hour + 1) % 24 });
+
+    const [deferred] = await dispatcher.dispatch(notification());
+    const [critical] = await dispatcher.dispatch(
+      notification({ severity: 'CRITICAL', title: '停止' }),
+    );
+
+    expect(deferred.status).toBe('DEFERRED');
+    expect(deferred.scheduledAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(critical.status).toBe('SENT');
+    expect(await dispatcher.flushDeferred()).toEqual([]);
+
+    // 時間帯の終了を過ぎた扱いにする
+    const row = ctx.prisma
+      .rows('notificationDelivery')
+      .find((r) => r.id === deferred.id)!;
+    row.scheduledAt = new Date(Date.now() - 1000);
+    const [flushed] = await dispatcher.flushDeferred();
+
+    expect(flushed).toMatchObject({ id: deferred.id, status: 'SENT' });
+    expect(ctx.notifications.sentTo('SLACK').map((n) => n.title)).toEqual([
+      '停止',
+      'V2予算調整エラー',
+    ]);
+  });
+
+  it('送信中のまま残った配信は猶予を過ぎたら送り直す', async () => {
+    seedRoute({ dedupWindowMinutes: 60 });
+    await dispatcher.dispatch(notification({ entityId: 'ad-1' }));
+    // 送信前にインスタンスが落ちた扱いにする
+    const row = ctx.prisma.rows('notificationDelivery')[0];
+    row.status = 'PENDING';
+    row.sentAt = null;
+    row.updatedAt = new Date(Date.now() - 5 * 60_000);
+    ctx.notifications.reset();
+
+    // 猶予内は送信中とみなす
+    expect(await dispatcher.flushDeferred()).toEqual([]);
+
+    row.updatedAt = new Date(Date.now() - 15 * 60_000);
+    const [resent] = await dispatcher.flushDeferred();
+
+    expect(resent).toMatchObject({ id: row.id, status: 'SENT' });
+    expect(ctx.notifications.sentTo('SLACK')).toHaveLength(1);
+    expect(await dispatcher.flushDeferred()).toEqual([]);
+  });
+
+  it('送信失敗は FAILED とエラーを記録し、再送できる', async () => {
+    ctx.notifications.failWith('LINE', 'LINE push failed: HTTP 500');
+
+    const [failed] = await dispatcher.dispatch(notification());
+
+    expect(failed).toMatchObject({
+      status: 'FAILED',
+      attempts: 2,
+      error: 'LINE push failed: HTTP 500',
+    });
+    expect(await dispatcher.listDeliveries({ status: 'FAILED' })).toHaveLength(
+      1,
+    );
+
+    ctx.notifications.failWith('LINE', null);
+    const retried = await dispatcher.retry(failed.id);
+
+    expect(retried).toMatchObject({ status: 'SENT', attempts: 3, error: null });
+    await expect(dispatcher.retry(failed.id)).rejects.toThrow(
+      'Only FAILED deliveries can be retried',
+    );
+  });
+
+  it('通知一覧に作成した通知も TikTok advertiser_id でルーティングする', async () => {
+    const advertiser = ctx.prisma.seed('advertiser', {
+      tiktokAdvertiserId: 'adv-9',
+      name: 'Advertiser adv-9',
+    });
+    seedRoute({ types: ['INTRADAY_CPA_PAUSE'], advertiserIds: ['adv-9'] });
+
+    await ctx.module.get(NotificationService).createNotification({
+      type: NotificationType.INTRADAY_CPA_PAUSE,
+      severity: NotificationSeverity.WARNING,
+      advertiserId: advertiser.id,
+      entityId: 'ad-1',
+      title: '日中CPAチェック: 広告一時停止',
+      message: 'body',
+    });
+
+    const [created] = ctx.prisma.rows('notification');
+    expect(ctx.prisma.rows('notificationDelivery')).toEqual([
+      expect.objectContaining({
+        notificationId: created.id,
+        advertiserId: 'adv-9',
+        status: 'SENT',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,241 @@
+import { ConflictException } from '@nestjs/common';
+import { RedeployService } from '../src/redeploy/redeploy.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { UtageService } from '../src/utage/utage.service';
+import { seedSmartPlusAd, seedVideo } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Redeploy (e2e, offline)', () => {
+  const advertiserId = '7000000000000000601';
+  // 2026-03-02 10:00 JST（15時前なので当日付け）
+  const now = new Date('2026-03-02T01:00:00.000Z');
+  const utage = {
+    getLatestCrNumber: jest.fn(),
+    reserveNextCrNumber: jest.fn(),
+    createRegistrationPath: jest.fn(),
+  };
+  let ctx: E2EContext;
+  let service: RedeployService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      RedeployService,
+      ChannelRegistryService,
+      { provide: UtageService, useValue: utage },
+    ]);
+    service = ctx.module.get(RedeployService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ctx.api.reset();
+    ctx.prisma.reset();
+    utage.getLatestCrNumber.mockResolvedValue(468);
+    utage.reserveNextCrNumber.mockResolvedValue(469);
+    utage.createRegistrationPath.mockImplementation(
+      async (appeal: string, lpNumber: number, crNumber: number) => ({
+        crNumber,
+        registrationPath: `TikTok広告-${appeal}-LP${lpNumber}-CR00${crNumber}`,
+        destinationUrl: 'https://example.com/lp2?ftid=abc',
+      }),
+    );
+    await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'AI' },
+      pixelId: 'pixel-601',
+      identityId: 'identity-601',
+    });
+  });
+
+  function seedSource(adName = '260301/山田/勝ちCR/LP2-CR00468') {
+    const videoId = seedVideo(ctx.api.store, {
+      advertiserId,
+      content: Buffer.from('winning-video-bytes'),
+    });
+    const source = seedSmartPlusAd(ctx.api.store, {
+      advertiserId,
+      adName,
+      budget: 5000,
+      videoIds: [videoId],
+      adTexts: ['元広告の広告文'],
+    });
+    return { videoId, sourceAdId: source.adId };
+  }
+
+  it('元広告の動画をそのまま使い、新しいCR番号で Smart+ 広告一式を作る', async () => {
+    const { videoId, sourceAdId } = seedSource();
+
+    const result = await service.redeploy(
+      { advertiserId, sourceAdId, agePreset: '25-44' },
+      {},
+      now,
+    );
+
+    expect(result).toMatchObject({
+      status: 'SUCCESS',
+      crNumber: 469,
+      adName: '260302/山田/勝ちCR/LP2-CR00469',
+      utagePath: 'TikTok広告-AI-LP2-CR00469',
+      dailyBudget: 3000,
+    });
+    expect(utage.reserveNextCrNumber).toHaveBeenCalledWith('AI', 2);
+
+    // 同じアカウントなので動画は再アップロードしない
+    expect(ctx.api.requestsTo('/v1.3/file/video/ad/upload/')).toHaveLength(0);
+    const ad = ctx.api.store.smartPlusAds.get(result.adId!);
+    expect(ad).toMatchObject({
+      advertiser_id: advertiserId,
+      adgroup_id: result.adgroupId,
+      ad_name: result.adName,
+      ad_text_list: [{ ad_text: '元広告の広告文' }],
+    });
+    expect(ad?.creative_list[0].creative_info.video_info.video_id).toBe(
+      videoId,
+    );
+    expect(ad?.landing_page_url_list[0].landing_page_url).toContain(
+      'https://example.com/lp2?ftid=abc&utm_source=tiktok',
+    );
+    expect(ctx.api.store.adgroups.get(result.adgroupId!)).toMatchObject({
+      budget: 3000,
+      adgroup_name: '260302 25-44',
+      targeting_spec: { age_groups: ['AGE_25_34', 'AGE_35_44'] },
+    });
+
+    expect(ctx.prisma.rows('redeployLog')).toEqual([
+      expect.objectContaining({
+        status: 'COMPLETED',
+        dryRun: false,
+        sourceAdName: '260301/山田/勝ちCR/LP2-CR00468',
+        videoIds: [videoId],
+        appeal: 'AI',
+        lpNumber: 2,
+        campaignId: result.campaignId,
+        adId: result.adId,
+      }),
+    ]);
+  }, 30000);
+
+  it('広告作成で失敗したら、再開時は予約済みのCR番号・作成済みの広告グループを使う', async () => {
+    const { sourceAdId } = seedSource();
+    ctx.api.failNext('/v1.3/smart_plus/ad/create/', {
+      code: 40002,
+      message: 'creative_list: Invalid identity.',
+    });
+
+    const failed = await service.redeploy(
+      { advertiserId, sourceAdId },
+      {},
+      now,
+    );
+
+    expect(failed).toMatchObject({
+      status: 'FAILED',
+      failedStep: 'AD_CREATE',
+      crNumber: 469,
+      adId: null,
+    });
+    expect(failed.adgroupId).toBeTruthy();
+
+    const resumed = await service.resume(failed.logId, [advertiserId], now);
+
+    expect(resumed).toMatchObject({
+      logId: failed.logId,
+      status: 'SUCCESS',
+      crNumber: 469,
+      campaignId: failed.campaignId,
+      adgroupId: failed.adgroupId,
+      error: null,
+      failedStep: null,
+    });
+    expect(utage.reserveNextCrNumber).toHaveBeenCalledTimes(1);
+    expect(utage.createRegistrationPath).toHaveBeenCalledTimes(1);
+    expect(
+      ctx.api.requestsTo('/v1.3/smart_plus/campaign/create/'),
+    ).toHaveLength(1);
+    expect(ctx.api.store.smartPlusAds.get(resumed.adId!)?.adgroup_id).toBe(
+      failed.adgroupId,
+    );
+
+    // 完了済み・担当外のログは再開できない
+    await expect(
+      service.resume(failed.logId, [advertiserId], now),
+    ).rejects.toThrow('only FAILED redeploys can be resumed');
+    await expect(service.resume(failed.logId, [], now)).rejects.toThrow(
+      'not found',
+    );
+  }, 30000);
+
+  it('同じログの同時再開は1つだけ受け付け、もう一方は 409 にする', async () => {
+    const { sourceAdId } = seedSource();
+    ctx.api.failNext('/v1.3/smart_plus/ad/create/', {
+      code: 40002,
+      message: 'creative_list: Invalid identity.',
+    });
+    const failed = await service.redeploy(
+      { advertiserId, sourceAdId },
+      {},
+      now,
+    );
+
+    const [first, second] = await Promise.allSettled([
+      service.resume(failed.logId, [advertiserId], now),
+      service.resume(failed.logId, [advertiserId], now),
+    ]);
+
+    expect(first).toMatchObject({
+      status: 'fulfilled',
+      value: { status: 'SUCCESS' },
+    });
+    expect(second).toMatchObject({
+      status: 'rejected',
+      reason: expect.any(ConflictException),
+    });
+    expect(ctx.api.requestsTo('/v1.3/smart_plus/ad/create/')).toHaveLength(2);
+  }, 30000);
+
+  it('一括ドライランは何も作らず、動画がなくなった元広告だけ失敗にする', async () => {
+    const ok = seedSource();
+    const gone = seedSource('260301/佐藤/別CR/LP1-CR00100');
+    ctx.api.store.videos.delete(gone.videoId);
+
+    const { batchId, results } = await service.batch(
+      [
+        { advertiserId, sourceAdId: ok.sourceAdId, dailyBudget: 5000 },
+        { advertiserId, sourceAdId: gone.sourceAdId },
+      ],
+      { dryRun: true },
+      now,
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        batchId,
+        status: 'SUCCESS',
+        dryRun: true,
+        adName: '260302/山田/勝ちCR/LP2-CR00469',
+        dailyBudget: 5000,
+      }),
+      expect.objectContaining({
+        batchId,
+        status: 'FAILED',
+        failedStep: 'SOURCE_FETCH',
+        error: `アカウントに動画がありません: ${gone.videoId}`,
+      }),
+    ]);
+    expect(utage.reserveNextCrNumber).not.toHaveBeenCalled();
+    expect(
+      ctx.api.requestsTo('/v1.3/smart_plus/campaign/create/'),
+    ).toHaveLength(0);
+    expect(await service.listLogs({ batchId, status: 'FAILED' }, null)).toEqual(
+      [expect.objectContaining({ sourceAdId: gone.sourceAdId })],
+    );
+  }, 30000);
+});
@@ -0,0 +1,126 @@
+import { StreamlinedCreatorService } from '../src/streamlined-creator/streamlined-creator.service';
+import { UtageService } from '../src/utage/utage.service';
+import { GigafileService } from '../src/streamlined-creator/gigafile.service';
+import { CreativeAssetService } from '../src/creative-asset/creative-asset.service';
+import { videoAssetPath } from './fake-tiktok-api';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('StreamlinedCreator createSingle (e2e, offline)', () => {
+  const advertiserId = '7000000000000000401';
+  const utage = { createRegistrationPathAndGetUrl: jest.fn() };
+  const gigafile = { downloadVideo: jest.fn(), downloadSingleFile: jest.fn() };
+  let ctx: E2EContext;
+  let service: StreamlinedCreatorService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([
+      StreamlinedCreatorService,
+      CreativeAssetService,
+      { provide: UtageService, useValue: utage },
+      { provide: GigafileService, useValue: gigafile },
+    ]);
+    service = ctx.module.get(StreamlinedCreatorService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ctx.api.reset();
+    ctx.prisma.reset();
+    utage.createRegistrationPathAndGetUrl.mockResolvedValue({
+      crNumber: 456,
+      registrationPath: 'TikTok広告-AI-LP1-CR00456',
+      destinationUrl: 'https://example.com/lp1',
+    });
+    gigafile.downloadVideo.mockResolvedValue({
+      buffer: Buffer.from('downloaded-video-bytes'),
+      filename: '庭_女性演者_冒頭1.mp4',
+    });
+    await seedAccount(ctx, {
+      advertiserId,
+      appeal: { name: 'AI' },
+      pixelId: 'pixel-401',
+      identityId: 'identity-401',
+    });
+  });
+
+  it('ギガファイル便の動画から キャンペーン → 広告グループ → 広告 を作成する', async () => {
+    const result = await service.createSingle({
+      gigafileUrl: 'https://xgf.nu/abcd',
+      advertiserId,
+      appeal: 'AI',
+      lpNumber: 1,
+      creatorName: '山田',
+      dailyBudget: 4000,
+    });
+
+    expect(result).toMatchObject({ status: 'SUCCESS', crNumber: 456 });
+    expect(result.adName).toMatch(
+      /^\d{6}\/山田\/庭_女性演者_冒頭1\/LP1-CR00456$/,
+    );
+
+    const ad = ctx.api.store.ads.get(result.adId!);
+    expect(ad).toMatchObject({
+      advertiser_id: advertiserId,
+      adgroup_id: result.adgroupId,
+      campaign_id: result.campaignId,
+      ad_name: result.adName,
+    });
+    expect(
+      ctx.api.store.assets.get(videoAssetPath(ad!.video_id!))?.toString(),
+    ).toBe('downloaded-video-bytes');
+    expect(ad?.landing_page_url).toContain(
+      'https://example.com/lp1?utm_source=tiktok',
+    );
+    expect(ctx.api.store.adgroups.get(result.adgroupId!)?.budget).toBe(4000);
+
+    // サムネイルは動画カバーから画像としてアップロードされる
+    expect(ctx.api.store.images.size).toBe(1);
+
+    // アップロードした動画は素材の系譜に登録される
+    expect(ctx.prisma.rows('creativeAssetCopy')).toEqual([
+      expect.objectContaining({
+        advertiserId,
+        tiktokMediaId: ad!.video_id,
+        origin: 'STREAMLINED_CREATOR',
+      }),
+    ]);
+
+    // 作成したキャンペーン・広告グループはDBにも記録される
+    expect(ctx.prisma.rows('campaign')[0]).toMatchObject({
+      tiktokId: result.campaignId,
+    });
+    expect(ctx.prisma.rows('adGroup')[0]).toMatchObject({
+      tiktokId: result.adgroupId,
+    });
+  }, 30000);
+
+  it('動画アップロードが失敗したら失敗ステップを返す', async () => {
+    ctx.api.failNext('/v1.3/file/video/ad/upload/', {
+      code: 40002,
+      message: 'video_file: Invalid file.',
+    });
+
+    const result = await service.createSingle({
+      gigafileUrl: 'https://xgf.nu/abcd',
+      advertiserId,
+      appeal: 'AI',
+      lpNumber: 1,
+      creatorName: '山田',
+    });
+
+    expect(result).toMatchObject({
+      status: 'FAILED',
+      failedStep: 'VIDEO_UPLOAD',
+    });
+    expect(utage.createRegistrationPathAndGetUrl).not.toHaveBeenCalled();
+    expect(ctx.api.store.campaigns.size).toBe(0);
+  });
+});
@@ -0,0 +1,150 @@
+// ============================================================================
+// オフラインe2eの組み立て
+// TiktokService は本物のまま偽TikTok API（HTTP）に向け、DB・スプレッドシート・通知の配信手段は差し替える
+// ============================================================================
+
+import { Test, type TestingModule } from '@nestjs/testing';
+import type { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../src/prisma/prisma.service';
+import { GoogleSheetsService } from '../../src/google-sheets/google-sheets.service';
+import { TiktokService } from '../../src/tiktok/tiktok.service';
+import { TokenVaultService } from '../../src/token-vault/token-vault.service';
+import { BudgetAuditService } from '../../src/budget-audit/budget-audit.service';
+import { AutomationControlService } from '../../src/automation-control/automation-control.service';
+import { JobQueueService } from '../../src/job-queue/job-queue.service';
+import { ApiLogService } from '../../src/api-log/api-log.service';
+import { NotificationRouteService } from '../../src/notification/notification-route.service';
+import { NotificationDispatcherService } from '../../src/notification/notification-dispatcher.service';
+import { NOTIFICATION_TRANSPORTS } from '../../src/notification/domain/ports';
+import { KEY_PROVIDER } from '../../src/token-vault/domain/ports';
+import { LocalKeyProvider } from '../../src/token-vault/infrastructure/local-key-provider';
+import { FakeTikTokApi, seedAccessToken } from '../fake-tiktok-api';
+import { InMemoryPrisma } from './in-memory-prisma';
+import { FakeGoogleSheets } from './fake-google-sheets';
+import { RecordingTransports } from './recording-transports';
+
+export interface E2EContext {
+  api: FakeTikTokApi;
+  prisma: InMemoryPrisma;
+  sheets: FakeGoogleSheets;
+  notifications: RecordingTransports;
+  module: TestingModule;
+  close(): Promise<void>;
+}
+
+/**
+ * 偽TikTok APIを起動し、指定したサービスを組み込んだテストモジュールを作る
+ * @param providers テスト対象のサービスと、その依存のうち共通部分以外のもの
+ */
+export async function createE2EContext(
+  providers: Provider[],
+  config: Record<string, string> = {},
+): Promise<E2EContext> {
+  const api = new FakeTikTokApi();
+  await api.start();
+  const prisma = new InMemoryPrisma();
+  const sheets = new FakeGoogleSheets();
+  const notifications = new RecordingTransports();
+
+  const module = await Test.createTestingModule({
+    providers: [
+      {
+        provide: ConfigService,
+        useValue: new ConfigService({
+          TIKTOK_API_BASE_URL: api.baseUrl,
+          TIKTOK_APP_ID: 'fake-app',
+          TIKTOK_APP_SECRET: 'fake-secret',
+          ...config,
+        }),
+      },
+      { provide: PrismaService, useValue: prisma },
+      { provide: GoogleSheetsService, useValue: sheets },
+      { provide: KEY_PROVIDER, useValue: new LocalKeyProvider('e2e-secret') },
+      TokenVaultService,
+      TiktokService,
+      BudgetAuditService,
+      AutomationControlService,
+      JobQueueService,
+      ApiLogService,
+      {
+        provide: NOTIFICATION_TRANSPORTS,
+        useValue: notifications.transports,
+      },
+      NotificationRouteService,
+      NotificationDispatcherService,
+      ...providers,
+    ],
+  }).compile();
+
+  return {
+    api,
+    prisma,
+    sheets,
+    notifications,
+    module,
+    close: async () => {
+      await module.close();
+      await api.stop();
+    },
+  };
+}
+
+export interface SeededAccount {
+  advertiserId: string;
+  accessToken: string;
+  appealId: string;
+}
+
+/**
+ * 訴求・Advertiser・暗号化済みトークンを揃え、偽APIにもトークンを登録する
+ */
+export async function seedAccount(
+  ctx: E2EContext,
+  input: {
+    advertiserId: string;
+    appeal: {
+      name: string;
+      targetCPA?: number;
+      allowableCPA?: number;
+      targetFrontCPO?: number;
+      allowableFrontCPO?: number;
+    };
+    pixelId?: string;
+    identityId?: string;
+  },
+): Promise<SeededAccount> {
+  const accessToken = `token-${input.advertiserId}`;
+  const appeal =
+    ctx.prisma.rows('appeal').find((row) => row.name === input.appeal.name) ??
+    ctx.prisma.seed('appeal', {
+      cvSpreadsheetUrl: 'https://docs.google.com/spreadsheets/d/fake-cv/edit',
+      frontSpreadsheetUrl:
+        'https://docs.google.com/spreadsheets/d/fake-front/edit',
+      ...input.appeal,
+    });
+  ctx.prisma.seed('advertiser', {
+    tiktokAdvertiserId: input.advertiserId,
+    name: `Advertiser ${input.advertiserId}`,
+    appealId: appeal.id,
+    timezone: 'Asia/Tokyo',
+    currency: 'JPY',
+    pixelId: input.pixelId ?? null,
+    identityId: input.identityId ?? null,
+  });
+
+  await ctx.module.get(TokenVaultService).saveToken(input.advertiserId, {
+    accessToken,
+    refreshToken: `refresh-${input.advertiserId}`,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  });
+  seedAccessToken(ctx.api.store, accessToken, [input.advertiserId]);
+
+  return { advertiserId: input.advertiserId, accessToken, appealId: appeal.id };
+}
+
+/** JSTの YYYY-MM-DD（daysAgo日前） */
+export function jstDate(daysAgo = 0): string {
+  const jst = new Date(Date.now() + 9 * 60 * 60 * 1000 - daysAgo * 86400000);
+  return jst.toISOString().slice(0, 10);
+}
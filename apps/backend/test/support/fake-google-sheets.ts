@@ -0,0 +1,182 @@
+// ============================================================================
+// FakeGoogleSheets - e2eテスト用のGoogleSheetsService代替
+// CV・フロント販売・個別予約は登録経路ごとの日付付きイベントとして持ち、期間で数える
+// getValues は preflight が通る既定レイアウト（A列=登録日時, B列=登録経路, 52列）を返す
+// ============================================================================
+
+type Kind = 'CV' | 'FRONT_SALES' | 'INDIVIDUAL_RESERVATION';
+
+interface SheetEvent {
+  kind: Kind;
+  registrationPath: string;
+  date: Date;
+  count: number;
+}
+
+/** 既定レイアウトの列数（個別予約シートの登録経路列 AI=34 / AU=46 を含む A〜AZ） */
+const DEFAULT_COLUMNS = 52;
+
+export class FakeGoogleSheets {
+  readonly appended: Array<{
+    spreadsheetId: string;
+    range: string;
+    values: string[][];
+  }> = [];
+
+  private readonly events: SheetEvent[] = [];
+  private readonly sheets = new Map<string, string[][]>();
+
+  /** CVを記録する（date 省略時は現在時刻） */
+  addCV(registrationPath: string, count = 1, date = new Date()): this {
+    this.events.push({ kind: 'CV', registrationPath, date, count });
+    return this;
+  }
+
+  addFrontSale(registrationPath: string, count = 1, date = new Date()): this {
+    this.events.push({ kind: 'FRONT_SALES', registrationPath, date, count });
+    return this;
+  }
+
+  addIndividualReservation(
+    registrationPath: string,
+    count = 1,
+    date = new Date(),
+  ): this {
+    this.events.push({
+      kind: 'INDIVIDUAL_RESERVATION',
+      registrationPath,
+      date,
+      count,
+    });
+    return this;
+  }
+
+  /** getValues の戻り値を差し替える（range は "'シート名'" の形式） */
+  setValues(range: string, values: string[][]): this {
+    this.sheets.set(range, values);
+    return this;
+  }
+
+  reset(): void {
+    this.events.length = 0;
+    this.sheets.clear();
+    this.appended.length = 0;
+  }
+
+  // ============================================================================
+  // GoogleSheetsService と同じシグネチャ
+  // ============================================================================
+
+  async getValues(_spreadsheetId: string, range: string): Promise<string[][]> {
+    const values = this.sheets.get(range);
+    if (values) return values;
+
+    const header = Array<string>(DEFAULT_COLUMNS).fill('');
+    header[0] = '登録日時';
+    header[1] = '登録経路';
+    const row = Array<string>(DEFAULT_COLUMNS).fill('');
+    row[0] = formatDateTime(new Date());
+    return [header, row];
+  }
+
+  async updateValues(): Promise<void> {}
+
+  async appendValues(
+    spreadsheetId: string,
+    range: string,
+    values: string[][],
+  ): Promise<void> {
+    this.appended.push({ spreadsheetId, range, values });
+  }
+
+  clearCache(): void {}
+
+  async getCVCount(
+    _appealName: string,
+    _cvSpreadsheetUrl: string,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    return this.count('CV', registrationPath, startDate, endDate);
+  }
+
+  async getFrontSalesCount(
+    _appealName: string,
+    _frontSpreadsheetUrl: string,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    return this.count('FRONT_SALES', registrationPath, startDate, endDate);
+  }
+
+  async getIndividualReservationCount(
+    _sheet: unknown,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    return this.count(
+      'INDIVIDUAL_RESERVATION',
+      registrationPath,
+      startDate,
+      endDate,
+    );
+  }
+
+  async getMaxDailyCVCount(
+    _spreadsheetUrl: string,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const perDay = new Map<string, number>();
+    for (const event of this.matching(
+      'CV',
+      registrationPath,
+      startDate,
+      endDate,
+    )) {
+      const day = event.date.toISOString().slice(0, 10);
+      perDay.set(day, (perDay.get(day) ?? 0) + event.count);
+    }
+    return Math.max(0, ...perDay.values());
+  }
+
+  private matching(
+    kind: Kind,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): SheetEvent[] {
+    return this.events.filter(
+      (e) =>
+        e.kind === kind &&
+        e.registrationPath === registrationPath &&
+        e.date.getTime() >= startDate.getTime() &&
+        e.date.getTime() <= endDate.getTime(),
+    );
+  }
+
+  private count(
+    kind: Kind,
+    registrationPath: string,
+    startDate: Date,
+    endDate: Date,
+  ): number {
+    return this.matching(kind, registrationPath, startDate, endDate).reduce(
+      (sum, e) => sum + e.count,
+      0,
+    );
+  }
+}
+
+function formatDateTime(date: Date): string {
+  const jst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${jst.getUTCFullYear()}/${pad(jst.getUTCMonth() + 1)}/${pad(jst.getUTCDate())} ` +
+    `${pad(jst.getUTCHours())}:${pad(jst.getUTCMinutes())}:${pad(jst.getUTCSeconds())}`
+  );
+}
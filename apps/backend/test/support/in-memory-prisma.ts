@@ -0,0 +1,570 @@
+// ============================================================================
+// InMemoryPrisma - e2eテスト用のインメモリPrismaClient代替
+// スキーマ（Prisma.dmmf）から既定値・リレーションを読み、よく使うクエリだけを再現する
+// 未対応: トランザクションの分離、更新時の一意制約違反（作成時は @id / @unique / @@unique で P2002 を返す）、ネストした書き込み
+// ============================================================================
+
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+
+type Row = Record<string, any>;
+type DmmfModel = (typeof Prisma.dmmf.datamodel.models)[number];
+type DmmfField = DmmfModel['fields'][number];
+
+const OPERATORS = new Set([
+  'equals',
+  'in',
+  'notIn',
+  'not',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'mode',
+]);
+
+/** model名（Ad）→ デリゲート名（ad） */
+function delegateName(modelName: string): string {
+  return modelName.charAt(0).toLowerCase() + modelName.slice(1);
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a != null &&
+      b != null &&
+      new Date(a as any).getTime() === new Date(b as any).getTime()
+    );
+  }
+  return a === b;
+}
+
+function compare(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+export class InMemoryPrisma {
+  /** テーブルの中身（デリゲート名 → 行） */
+  readonly tables = new Map<string, Row[]>();
+
+  private readonly models = new Map<string, DmmfModel>();
+
+  constructor() {
+    for (const model of Prisma.dmmf.datamodel.models) {
+      const name = delegateName(model.name);
+      this.models.set(name, model);
+      this.tables.set(name, []);
+      Object.defineProperty(this, name, {
+        value: this.delegate(name),
+        enumerable: false,
+      });
+    }
+  }
+
+  /** 任意のモデルのデリゲート（型付きで使いたい場合は PrismaService としてキャストする） */
+  [model: string]: any;
+
+  async $connect(): Promise<void> {}
+
+  async $disconnect(): Promise<void> {}
+
+  async $transaction(arg: any): Promise<any> {
+    return typeof arg === 'function' ? arg(this) : Promise.all(arg);
+  }
+
+  /** テストの初期データ投入（既定値を補って保存し、保存した行を返す） */
+  seed(model: string, data: Row): Row {
+    return this.insert(model, data);
+  }
+
+  rows(model: string): Row[] {
+    return this.table(model);
+  }
+
+  reset(): void {
+    for (const rows of this.tables.values()) rows.length = 0;
+  }
+
+  // ============================================================================
+  // デリゲート
+  // ============================================================================
+
+  private delegate(model: string) {
+    const findMany = (args: Row = {}) => {
+      let rows = this.table(model).filter((row) =>
+        this.matches(model, row, args.where),
+      );
+      rows = this.sort(rows, args.orderBy);
+      if (args.skip) rows = rows.slice(args.skip);
+      if (args.take !== undefined) rows = rows.slice(0, args.take);
+      if (args.distinct) {
+        const seen = new Set<string>();
+        rows = rows.filter((row) => {
+          const key = JSON.stringify(
+            [].concat(args.distinct).map((f: string) => row[f]),
+          );
+          return seen.has(key) ? false : (seen.add(key), true);
+        });
+      }
+      return rows.map((row) => this.project(model, row, args));
+    };
+    const findFirst = (args: Row = {}) =>
+      findMany({ ...args, take: 1 })[0] ?? null;
+    const requireOne = (args: Row) => {
+      const row = this.table(model).find((r) =>
+        this.matches(model, r, args.where),
+      );
+      if (!row) {
+        throw new Prisma.PrismaClientKnownRequestError(
+          `No ${model} found for ${JSON.stringify(args.where)}`,
+          { code: 'P2025', clientVersion: 'in-memory' },
+        );
+      }
+      return row;
+    };
+
+    return {
+      findMany: async (args?: Row) => findMany(args),
+      findFirst: async (args?: Row) => findFirst(args),
+      findUnique: async (args: Row) => findFirst(args),
+      findFirstOrThrow: async (args?: Row) =>
+        this.project(model, requireOne(args ?? {}), args ?? {}),
+      findUniqueOrThrow: async (args: Row) =>
+        this.project(model, requireOne(args), args),
+      count: async (args: Row = {}) =>
+        this.table(model).filter((row) => this.matches(model, row, args.where))
+          .length,
+      create: async (args: Row) =>
+        this.project(model, this.insert(model, args.data), args),
+      createMany: async (args: Row) => {
+        const data: Row[] = [].concat(args.data);
+        data.forEach((row) => this.insert(model, row));
+        return { count: data.length };
+      },
+      update: async (args: Row) => {
+        const row = requireOne(args);
+        this.apply(model, row, args.data);
+        return this.project(model, row, args);
+      },
+      updateMany: async (args: Row) => {
+        const rows = this.table(model).filter((row) =>
+          this.matches(model, row, args.where),
+        );
+        rows.forEach((row) => this.apply(model, row, args.data));
+        return { count: rows.length };
+      },
+      upsert: async (args: Row) => {
+        const row = this.table(model).find((r) =>
+          this.matches(model, r, args.where),
+        );
+        if (row) {
+          this.apply(model, row, args.update);
+          return this.project(model, row, args);
+        }
+        return this.project(model, this.insert(model, args.create), args);
+      },
+      delete: async (args: Row) => {
+        const row = requireOne(args);
+        this.tables.set(
+          model,
+          this.table(model).filter((r) => r !== row),
+        );
+        return row;
+      },
+      deleteMany: async (args: Row = {}) => {
+        const before = this.table(model);
+        const kept = before.filter(
+          (row) => !this.matches(model, row, args.where),
+        );
+        this.tables.set(model, kept);
+        return { count: before.length - kept.length };
+      },
+      aggregate: async (args: Row) =>
+        this.aggregate(
+          this.table(model).filter((row) =>
+            this.matches(model, row, args.where),
+          ),
+          args,
+        ),
+      groupBy: async (args: Row) => {
+        const groups = new Map<string, Row[]>();
+        for (const row of this.table(model)) {
+          if (!this.matches(model, row, args.where)) continue;
+          const key = JSON.stringify(args.by.map((f: string) => row[f]));
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+        return [...groups.values()].map((rows) => ({
+          ...Object.fromEntries(args.by.map((f: string) => [f, rows[0][f]])),
+          ...this.aggregate(rows, args),
+        }));
+      },
+    };
+  }
+
+  // ============================================================================
+  // 書き込み
+  // ============================================================================
+
+  private table(model: string): Row[] {
+    const rows = this.tables.get(model);
+    if (!rows) throw new Error(`Unknown model: ${model}`);
+    return rows;
+  }
+
+  private scalarFields(model: string): DmmfField[] {
+    return this.models
+      .get(model)!
+      .fields.filter((f) => f.kind === 'scalar' || f.kind === 'enum');
+  }
+
+  private insert(model: string, data: Row): Row {
+    const row: Row = {};
+    for (const field of this.scalarFields(model)) {
+      if (data[field.name] !== undefined) {
+        row[field.name] = data[field.name];
+      } else {
+        row[field.name] = this.defaultValue(model, field);
+      }
+    }
+    // @id / @unique / @@unique の重複は本物と同じく P2002 で失敗させる（ロックの取得・版番号の採番等で使う）
+    // Postgres と同じく、null を含むキーは重複とみなさない
+    for (const key of this.uniqueKeys(model)) {
+      if (key.some((name) => row[name] == null)) continue;
+      if (
+        this.table(model).some((r) =>
+          key.every((name) => sameValue(r[name], row[name])),
+        )
+      ) {
+        throw Object.assign(
+          new Error(
+            `Unique constraint failed on the fields: (${key.map((name) => `\`${name}\``).join(',')})`,
+          ),
+          { code: 'P2002' },
+        );
+      }
+    }
+    // connect 形式のリレーション指定を外部キーに展開
+    for (const field of this.models.get(model)!.fields) {
+      const connect = data[field.name]?.connect;
+      if (field.kind === 'object' && connect && field.relationFromFields) {
+        field.relationFromFields.forEach((from, i) => {
+          row[from] = connect[field.relationToFields![i]];
+        });
+      }
+    }
+    this.table(model).push(row);
+    return row;
+  }
+
+  private uniqueKeys(model: string): string[][] {
+    const dmmf = this.models.get(model)!;
+    return [
+      ...this.scalarFields(model)
+        .filter((f) => f.isId || f.isUnique)
+        .map((f) => [f.name]),
+      ...(dmmf.primaryKey ? [dmmf.primaryKey.fields as string[]] : []),
+      ...dmmf.uniqueFields.map((fields) => [...fields]),
+    ];
+  }
+
+  private defaultValue(model: string, field: DmmfField): any {
+    const def = field.default as any;
+    if (field.isUpdatedAt) return new Date();
+    if (def === undefined || def === null) return field.isList ? [] : null;
+    if (isPlainObject(def)) {
+      switch (def.name) {
+        case 'uuid':
+        case 'cuid':
+          return randomUUID();
+        case 'now':
+          return new Date();
+        case 'autoincrement':
+          return this.table(model).length + 1;
+        default:
+          return null;
+      }
+    }
+    return field.type === 'DateTime' ? new Date(def) : def;
+  }
+
+  private apply(model: string, row: Row, data: Row = {}): void {
+    for (const field of this.scalarFields(model)) {
+      const value = data[field.name];
+      if (value === undefined) continue;
+      if (isPlainObject(value) && field.type !== 'Json') {
+        if ('increment' in value) row[field.name] += value.increment;
+        else if ('decrement' in value) row[field.name] -= value.decrement;
+        else if ('set' in value) row[field.name] = value.set;
+        continue;
+      }
+      row[field.name] = value;
+    }
+    const updatedAt = this.scalarFields(model).find((f) => f.isUpdatedAt);
+    if (updatedAt && data[updatedAt.name] === undefined) {
+      row[updatedAt.name] = new Date();
+    }
+  }
+
+  // ============================================================================
+  // 読み出し
+  // ============================================================================
+
+  /** relation名から関連行を取得（1対1/多対1は行、1対多は配列） */
+  private related(
+    model: string,
+    row: Row,
+    fieldName: string,
+  ): Row | Row[] | null {
+    const field = this.models
+      .get(model)!
+      .fields.find((f) => f.name === fieldName && f.kind === 'object');
+    if (!field) return null;
+    const target = delegateName(field.type);
+
+    if (field.relationFromFields && field.relationFromFields.length > 0) {
+      const [from] = field.relationFromFields;
+      const [to] = field.relationToFields!;
+      return (
+        this.table(target).find((r) => sameValue(r[to], row[from])) ?? null
+      );
+    }
+
+    // 逆側（外部キーを持たない側）は相手モデルの定義から辿る
+    const opposite = this.models
+      .get(target)!
+      .fields.find(
+        (f) =>
+          f.kind === 'object' &&
+          f.relationName === field.relationName &&
+          f.relationFromFields &&
+          f.relationFromFields.length > 0,
+      );
+    if (!opposite) return field.isList ? [] : null;
+    const [from] = opposite.relationFromFields!;
+    const [to] = opposite.relationToFields!;
+    const rows = this.table(target).filter((r) => sameValue(r[from], row[to]));
+    return field.isList ? rows : (rows[0] ?? null);
+  }
+
+  private project(model: string, row: Row, args: Row): Row {
+    const base: Row = { ...row };
+    const include: Row | undefined = args.include;
+    for (const [name, spec] of Object.entries(include ?? {})) {
+      if (!spec) continue;
+      const value = this.related(model, row, name);
+      base[name] = this.projectRelated(model, name, value, spec);
+    }
+    if (!args.select) return base;
+
+    const selected: Row = {};
+    for (const [name, spec] of Object.entries(args.select as Row)) {
+      if (!spec) continue;
+      if (name in row) {
+        selected[name] = row[name];
+      } else {
+        const value = this.related(model, row, name);
+        selected[name] = this.projectRelated(model, name, value, spec);
+      }
+    }
+    return selected;
+  }
+
+  private projectRelated(
+    model: string,
+    name: string,
+    value: Row | Row[] | null,
+    spec: any,
+  ): any {
+    const target = delegateName(
+      this.models.get(model)!.fields.find((f) => f.name === name)!.type,
+    );
+    const nested = isPlainObject(spec) ? spec : {};
+    if (Array.isArray(value)) {
+      return value
+        .filter((r) => this.matches(target, r, nested.where))
+        .map((r) => this.project(target, r, nested));
+    }
+    return value ? this.project(target, value, nested) : null;
+  }
+
+  private matches(model: string, row: Row, where?: Row): boolean {
+    if (!where) return true;
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      switch (key) {
+        case 'AND':
+          return [].concat(condition).every((c) => this.matches(model, row, c));
+        case 'OR':
+          return (condition as Row[]).some((c) => this.matches(model, row, c));
+        case 'NOT':
+          return ![].concat(condition).some((c) => this.matches(model, row, c));
+      }
+
+      const field = this.models.get(model)!.fields.find((f) => f.name === key);
+      if (!field) {
+        // 複合ユニークキー（advertiserId_date など）は中身をそのまま条件にする
+        return isPlainObject(condition) && this.matches(model, row, condition);
+      }
+      if (field.kind === 'object') {
+        return this.matchesRelation(model, row, key, condition);
+      }
+      return this.matchesScalar(row[key], condition, field.type === 'Json');
+    });
+  }
+
+  private matchesRelation(
+    model: string,
+    row: Row,
+    name: string,
+    condition: any,
+  ): boolean {
+    const target = delegateName(
+      this.models.get(model)!.fields.find((f) => f.name === name)!.type,
+    );
+    const value = this.related(model, row, name);
+    if (Array.isArray(value)) {
+      if (condition.some)
+        return value.some((r) => this.matches(target, r, condition.some));
+      if (condition.every)
+        return value.every((r) => this.matches(target, r, condition.every));
+      if (condition.none)
+        return !value.some((r) => this.matches(target, r, condition.none));
+      return true;
+    }
+    if (condition === null) return value === null;
+    if (condition.is !== undefined) {
+      return condition.is === null
+        ? value === null
+        : !!value && this.matches(target, value, condition.is);
+    }
+    if (condition.isNot !== undefined) {
+      return condition.isNot === null
+        ? value !== null
+        : !value || !this.matches(target, value, condition.isNot);
+    }
+    return !!value && this.matches(target, value, condition);
+  }
+
+  private matchesScalar(value: any, condition: any, isJson: boolean): boolean {
+    if (
+      !isPlainObject(condition) ||
+      (isJson && !Object.keys(condition).some((k) => OPERATORS.has(k)))
+    ) {
+      return sameValue(value, condition);
+    }
+    const insensitive = condition.mode === 'insensitive';
+    const text = (v: any) =>
+      insensitive ? String(v ?? '').toLowerCase() : String(v ?? '');
+    return Object.entries(condition).every(([op, operand]: [string, any]) => {
+      if (operand === undefined) return true;
+      switch (op) {
+        case 'equals':
+          return sameValue(value, operand);
+        case 'in':
+          return (operand as any[]).some((v) => sameValue(value, v));
+        case 'notIn':
+          return !(operand as any[]).some((v) => sameValue(value, v));
+        case 'not':
+          return isPlainObject(operand)
+            ? !this.matchesScalar(value, operand, isJson)
+            : !sameValue(value, operand);
+        case 'gt':
+          return value != null && compare(value, operand) > 0;
+        case 'gte':
+          return value != null && compare(value, operand) >= 0;
+        case 'lt':
+          return value != null && compare(value, operand) < 0;
+        case 'lte':
+          return value != null && compare(value, operand) <= 0;
+        case 'contains':
+          return value != null && text(value).includes(text(operand));
+        case 'startsWith':
+          return value != null && text(value).startsWith(text(operand));
+        case 'endsWith':
+          return value != null && text(value).endsWith(text(operand));
+        case 'mode':
+          return true;
+        default:
+          throw new Error(`InMemoryPrisma: unsupported operator "${op}"`);
+      }
+    });
+  }
+
+  private sort(rows: Row[], orderBy?: Row | Row[]): Row[] {
+    if (!orderBy) return rows;
+    const keys = []
+      .concat(orderBy as any)
+      .flatMap((o: Row) => Object.entries(o));
+    return [...rows].sort((a, b) => {
+      for (const [field, direction] of keys) {
+        const result = compare(a[field], b[field]);
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  private aggregate(rows: Row[], args: Row): Row {
+    const result: Row = {};
+    const pick = (
+      spec: Row | undefined,
+      fn: (values: number[]) => number | null,
+    ) =>
+      spec &&
+      Object.fromEntries(
+        Object.keys(spec).map((field) => {
+          const values = rows
+            .map((r) => r[field])
+            .filter((v) => v !== null && v !== undefined);
+          return [field, values.length > 0 ? fn(values) : null];
+        }),
+      );
+    if (args._sum)
+      result._sum = pick(args._sum, (v) => v.reduce((a, b) => a + b, 0));
+    if (args._avg) {
+      result._avg = pick(
+        args._avg,
+        (v) => v.reduce((a, b) => a + b, 0) / v.length,
+      );
+    }
+    if (args._min)
+      result._min = pick(args._min, (v) =>
+        v.reduce((a, b) => (compare(a, b) <= 0 ? a : b)),
+      );
+    if (args._max)
+      result._max = pick(args._max, (v) =>
+        v.reduce((a, b) => (compare(a, b) >= 0 ? a : b)),
+      );
+    if (args._count) {
+      result._count =
+        args._count === true
+          ? rows.length
+          : Object.fromEntries(
+              Object.keys(args._count).map((field) => [
+                field,
+                field === '_all'
+                  ? rows.length
+                  : rows.filter((r) => r[field] != null).length,
+              ]),
+            );
+    }
+    return result;
+  }
+}
@@ -0,0 +1,55 @@
+// ============================================================================
+// RecordingTransports - e2eテスト用の通知配信手段
+// 外部（LINE / Slack 等）には送らず、送信内容を記録する。failWith で送信失敗を再現する
+// ============================================================================
+
+import type { NotificationTransport } from '../../src/notification/domain/ports';
+import {
+  NOTIFICATION_CHANNELS,
+  type NotificationChannel,
+  type OutboundNotification,
+} from '../../src/notification/domain/routing';
+
+export interface SentNotification {
+  channel: NotificationChannel;
+  target: string | null;
+  notification: OutboundNotification;
+}
+
+export class RecordingTransports {
+  readonly sent: SentNotification[] = [];
+  private readonly failures = new Map<NotificationChannel, string>();
+
+  /** 各チャネルの NotificationTransport（NOTIFICATION_TRANSPORTS に渡す） */
+  readonly transports: NotificationTransport[] = NOTIFICATION_CHANNELS.map(
+    (channel) => ({
+      channel,
+      send: async (
+        notification: OutboundNotification,
+        target: string | null,
+      ) => {
+        const failure = this.failures.get(channel);
+        if (failure) throw new Error(failure);
+        this.sent.push({ channel, target, notification });
+      },
+    }),
+  );
+
+  /** 以降の送信を失敗させる（message = null で解除） */
+  failWith(channel: NotificationChannel, message: string | null): this {
+    if (message === null) this.failures.delete(channel);
+    else this.failures.set(channel, message);
+    return this;
+  }
+
+  sentTo(channel: NotificationChannel): OutboundNotification[] {
+    return this.sent
+      .filter((s) => s.channel === channel)
+      .map((s) => s.notification);
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.failures.clear();
+  }
+}
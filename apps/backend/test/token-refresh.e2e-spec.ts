@@ -0,0 +1,133 @@
+import { NotificationService } from '../src/notification/notification.service';
+import { TiktokService } from '../src/tiktok/tiktok.service';
+import { TokenRefreshService } from '../src/token-refresh/token-refresh.service';
+import { TokenVaultService } from '../src/token-vault/token-vault.service';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('OAuth token refresh (e2e, offline)', () => {
+  const noRefresh = '7000000000000000801';
+  const broken = '7000000000000000802';
+  const now = new Date('2026-03-07T12:00:00Z');
+  let ctx: E2EContext;
+  let service: TokenRefreshService;
+
+  beforeAll(async () => {
+    ctx = await createE2EContext([NotificationService, TokenRefreshService]);
+    service = ctx.module.get(TokenRefreshService);
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(async () => {
+    ctx.api.reset();
+    ctx.prisma.reset();
+    ctx.notifications.reset();
+    await seedAccount(ctx, {
+      advertiserId: noRefresh,
+      appeal: { name: 'SNS' },
+    });
+    await seedAccount(ctx, { advertiserId: broken, appeal: { name: 'SNS' } });
+
+    // リフレッシュトークンなしで12時間後に失効する
+    await ctx.module.get(TokenVaultService).saveToken(noRefresh, {
+      accessToken: `token-${noRefresh}`,
+      refreshToken: null,
+      expiresAt: new Date(now.getTime() + 12 * 60 * 60 * 1000),
+    });
+    // 復号できないトークン
+    const row = ctx.prisma
+      .rows('oAuthToken')
+      .find((token) => token.advertiserId === broken)!;
+    row.accessToken = 'enc:v1:broken';
+    row.expiresAt = new Date(now.getTime() + 12 * 60 * 60 * 1000);
+  });
+
+  it('リフレッシュトークンのない失効間近のトークンを検知し、復号できないトークンは飛ばす', async () => {
+    const result = await service.refreshExpiringTokens(now);
+
+    expect(result).toEqual({
+      checked: 1,
+      refreshed: [],
+      failed: [],
+      atRisk: [noRefresh],
+    });
+    const notifications = ctx.prisma.rows('notification');
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      type: 'TOKEN_EXPIRING',
+      severity: 'CRITICAL',
+      entityId: noRefresh,
+    });
+    // 既定ルールでLINEにも送る
+    expect(ctx.notifications.sentTo('LINE')).toEqual([
+      expect.objectContaining({ type: 'TOKEN_EXPIRING', severity: 'CRITICAL' }),
+    ]);
+  });
+
+  it('同じ有効期限のトークンについては日をまたいでも一度だけ通知する', async () => {
+    await service.refreshExpiringTokens(now);
+    // 前日に作成された通知として扱う（当日の重複チェックでは止まらない）
+    ctx.prisma.rows('notification')[0].createdAt = new Date(
+      now.getTime() - 24 * 60 * 60 * 1000,
+    );
+
+    const again = await service.refreshExpiringTokens(
+      new Date(now.getTime() + 60 * 60 * 1000),
+    );
+
+    expect(again.atRisk).toEqual([noRefresh]);
+    expect(ctx.prisma.rows('notification')).toHaveLength(1);
+  });
+
+  it('有効期限のない応答はリフレッシュ失敗として扱い、旧トークンを残して通知する', async () => {
+    const vault = ctx.module.get(TokenVaultService);
+    const expiresAt = new Date(now.getTime() + 12 * 60 * 60 * 1000);
+    await vault.saveToken(noRefresh, {
+      accessToken: `token-${noRefresh}`,
+      refreshToken: 'refresh-token',
+      expiresAt,
+    });
+    const refresh = jest
+      .spyOn(ctx.module.get(TiktokService), 'refreshAccessToken')
+      .mockResolvedValue({
+        code: 0,
+        message: 'OK',
+        data: { access_token: 'new-token', refresh_token: 'new-refresh' },
+      });
+
+    try {
+      const result = await service.refreshExpiringTokens(now);
+
+      expect(result.refreshed).toEqual([]);
+      expect(result.failed).toEqual([
+        {
+          advertiserId: noRefresh,
+          error: expect.stringContaining('access_token_expire_in'),
+        },
+      ]);
+      expect(result.atRisk).toEqual([noRefresh]);
+      const token = await vault.findByAdvertiserId(noRefresh);
+      expect(token).toMatchObject({
+        accessToken: `token-${noRefresh}`,
+        refreshToken: 'refresh-token',
+        expiresAt,
+        refreshFailureCount: 1,
+      });
+      expect(ctx.prisma.rows('notification')).toEqual([
+        expect.objectContaining({
+          type: 'TOKEN_EXPIRING',
+          severity: 'CRITICAL',
+          entityId: noRefresh,
+        }),
+      ]);
+    } finally {
+      refresh.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,300 @@
+import { createHmac } from 'crypto';
+import { UnauthorizedException } from '@nestjs/common';
+import { WebhookService } from '../src/webhook/webhook.service';
+import { TiktokAdReviewProcessor } from '../src/webhook/infrastructure/tiktok-ad-review-processor';
+import { TiktokLeadProcessor } from '../src/webhook/infrastructure/tiktok-lead-processor';
+import { UtageRegistrationProcessor } from '../src/webhook/infrastructure/utage-registration-processor';
+import { ConversionLedgerService } from '../src/conversion-ledger/conversion-ledger.service';
+import { ChannelRegistryService } from '../src/channel-registry/channel-registry.service';
+import { DataSourceService } from '../src/data-source/data-source.service';
+import {
+  createE2EContext,
+  seedAccount,
+  type E2EContext,
+} from './support/e2e-context';
+
+describe('Webhook ingestion / async processing / replay (e2e, offline)', () => {
+  let ctx: E2EContext;
+  let webhooks: WebhookService;
+
+  const TIKTOK_SECRET = 'tiktok-webhook-secret';
+  const LINE_SECRET = 'line-channel-secret';
+
+  const tiktokRequest = (
+    body: Record<string, unknown>,
+    secret = TIKTOK_SECRET,
+  ) => {
+    const raw = Buffer.from(JSON.stringify(body));
+    const t = Math.floor(Date.now() / 1000);
+    const s = createHmac('sha256', secret)
+      .update(`${t}.${raw.toString('utf8')}`)
+      .digest('hex');
+    return { raw, headers: { 'tiktok-signature': `t=${t},s=${s}` } };
+  };
+
+  const receiveTiktok = (body: Record<string, unknown>, secret?: string) => {
+    const { raw, headers } = tiktokRequest(body, secret);
+    return webhooks.ingest('tiktok', raw, body, headers);
+  };
+
+  const reviewEvent = (eventId: string, adId = 'tt-ad-1') => ({
+    event_id: eventId,
+    event: 'ad.review_status_update',
+    ad_id: adId,
+    review_status: 'REJECTED',
+    reject_reason: 'テキストが規約に違反しています',
+  });
+
+  beforeAll(async () => {
+    ctx = await createE2EContext(
+      [
+        WebhookService,
+        TiktokAdReviewProcessor,
+        TiktokLeadProcessor,
+        UtageRegistrationProcessor,
+        ConversionLedgerService,
+        ChannelRegistryService,
+        DataSourceService,
+      ],
+      {
+        TIKTOK_WEBHOOK_SECRET: TIKTOK_SECRET,
+        LINE_CHANNEL_SECRET: LINE_SECRET,
+      },
+    );
+    webhooks = ctx.module.get(WebhookService);
+    ctx.module.get(TiktokAdReviewProcessor).onModuleInit();
+    ctx.module.get(TiktokLeadProcessor).onModuleInit();
+    ctx.module.get(UtageRegistrationProcessor).onModuleInit();
+  });
+
+  afterAll(async () => {
+    await ctx.close();
+  });
+
+  beforeEach(() => {
+    ctx.prisma.reset();
+  });
+
+  it('署名が正しいイベントを PENDING で保存し、同じイベントIDの再送は重複として保存しない', async () => {
+    const first = await receiveTiktok(reviewEvent('evt-1'));
+    const resent = await receiveTiktok(reviewEvent('evt-1'));
+
+    expect(first).toEqual({ received: 1, duplicates: 0, eventIds: ['evt-1'] });
+    expect(resent).toEqual({ received: 0, duplicates: 1, eventIds: [] });
+    const rows = ctx.prisma.rows('webhookEvent');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      source: 'tiktok',
+      eventId: 'evt-1',
+      eventType: 'ad.review_status_update',
+      status: 'PENDING',
+      attempts: 0,
+    });
+  });
+
+  it('署名が不正・シークレット未設定の送信元は 401 で拒否し保存しない', async () => {
+    await expect(
+      receiveTiktok(reviewEvent('evt-1'), 'wrong-secret'),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(
+      webhooks.ingest(
+        'utage',
+        Buffer.from('{}'),
+        {},
+        {
+          'x-utage-signature': 'sha256=00',
+        },
+      ),
+    ).rejects.toThrow('Webhook source is not configured: utage');
+    expect(ctx.prisma.rows('webhookEvent')).toHaveLength(0);
+  });
+
+  it('LINE は1リクエストの複数イベントを webhookEventId ごとに保存し、プロセッサ未登録なら IGNORED にする', async () => {
+    const body = {
+      destination: 'U000',
+      events: [
+        { webhookEventId: 'line-1', type: 'message' },
+        { webhookEventId: 'line-2', type: 'follow' },
+      ],
+    };
+    const raw = Buffer.from(JSON.stringify(body));
+    const signature = createHmac('sha256', LINE_SECRET)
+      .update(raw)
+      .digest('base64');
+
+    const result = await webhooks.ingest('line', raw, body, {
+      'x-line-signature': signature,
+    });
+    const processed = await webhooks.processDue();
+
+    expect(result.eventIds).toEqual(['line-1', 'line-2']);
+    expect(processed.map((event) => event.status)).toEqual([
+      'IGNORED',
+      'IGNORED',
+    ]);
+  });
+
+  it('広告審査イベントを処理して広告の審査ステータスを更新する', async () => {
+    ctx.prisma.seed('ad', {
+      id: 'ad-1',
+      tiktokId: 'tt-ad-1',
+      name: '260101/運用者/CR00001/LP1-CR00001',
+      status: 'ENABLE',
+      reviewStatus: 'APPROVED',
+      reviewMessage: null,
+    });
+    await receiveTiktok(reviewEvent('evt-1'));
+
+    const [event] = await webhooks.processDue();
+
+    expect(event).toMatchObject({ status: 'PROCESSED', attempts: 1 });
+    expect(ctx.prisma.rows('ad')[0]).toMatchObject({
+      reviewStatus: 'REJECTED',
+      reviewMessage: 'テキストが規約に違反しています',
+    });
+  });
+
+  it('UTAGE の登録を CV 台帳に追加し、同じイベントIDは再処理しても1件のまま', async () => {
+    // 署名検証・重複排除は上のテストで確認済みのため、保存済みのイベントから処理する
+    ctx.prisma.seed('webhookEvent', {
+      source: 'utage',
+      eventId: 'utage-1',
+      eventType: 'registration',
+      payload: {
+        registration_path: 'TikTok広告-SNS-LP1-CR00001',
+        registered_at: '2026-02-15T09:00:00+09:00',
+      },
+      status: 'PENDING',
+      attempts: 0,
+    });
+    const [event] = await webhooks.processDue();
+    await ctx.module.get(UtageRegistrationProcessor).process(event);
+
+    expect(event).toMatchObject({ status: 'PROCESSED' });
+    expect(ctx.prisma.rows('conversionEvent')).toEqual([
+      expect.objectContaining({
+        kind: 'CV',
+        spreadsheetId: 'webhook',
+        sheetName: 'utage',
+        rowHash: 'utage-1',
+        registrationPath: 'TikTok広告-SNS-LP1-CR00001',
+        lpCr: 'LP1-CR00001',
+        jstDate: '2026-02-15',
+      }),
+    ]);
+    // シートの取り込み分とは別に数える
+    const ledger = ctx.module.get(ConversionLedgerService);
+    const query = {
+      kind: 'CV',
+      registrationPath: 'TikTok広告-SNS-LP1-CR00001',
+      from: '2026-02-01',
+      to: '2026-02-28',
+    };
+    await expect(
+      ledger.dailyCounts({ ...query, source: 'webhook' }),
+    ).resolves.toEqual([{ date: '2026-02-15', count: 1 }]);
+    await expect(ledger.dailyCounts(query)).resolves.toEqual([]);
+  });
+
+  it('TikTok のリードを広告の訴求名・LP-CR の登録経路で CV 台帳に追加し、未同期の広告は再試行する', async () => {
+    await seedAccount(ctx, {
+      advertiserId: '7000000000000000901',
+      appeal: { name: 'SNS' },
+    });
+    const [advertiser] = ctx.prisma.rows('advertiser');
+    const campaign = ctx.prisma.seed('campaign', {
+      tiktokId: 'campaign-1',
+      advertiserId: advertiser.id,
+      name: 'campaign',
+      objectiveType: 'LEAD_GENERATION',
+      status: 'ENABLE',
+    });
+    const adGroup = ctx.prisma.seed('adGroup', {
+      tiktokId: 'adgroup-1',
+      campaignId: campaign.id,
+      name: 'adgroup',
+      status: 'ENABLE',
+    });
+    const ad = ctx.prisma.seed('ad', {
+      tiktokId: 'tt-ad-1',
+      adgroupId: adGroup.id,
+      name: '260101/運用者/CR00001/LP1-CR00001',
+      status: 'ENABLE',
+    });
+    const lead = (eventId: string, adId: string) => ({
+      event_id: eventId,
+      event: 'lead.create',
+      ad_id: adId,
+      create_time: Math.floor(
+        new Date('2026-02-15T10:00:00+09:00').getTime() / 1000,
+      ),
+    });
+    await receiveTiktok(lead('lead-1', 'tt-ad-1'));
+    await receiveTiktok(lead('lead-2', 'tt-ad-unsynced'));
+
+    const [recorded, unsynced] = await webhooks.processDue();
+
+    expect(recorded).toMatchObject({ status: 'PROCESSED' });
+    expect(unsynced).toMatchObject({
+      status: 'FAILED',
+      error: 'Ad tt-ad-unsynced is not synced or has no appeal',
+    });
+    expect(ctx.prisma.rows('conversionEvent')).toEqual([
+      expect.objectContaining({
+        kind: 'CV',
+        sheetName: 'tiktok',
+        rowHash: 'lead-1',
+        registrationPath: 'TikTok広告-SNS-LP1-CR00001',
+        adId: ad.id,
+        jstDate: '2026-02-15',
+      }),
+    ]);
+
+    await ctx.module.get(TiktokLeadProcessor).process(recorded);
+    expect(ctx.prisma.rows('conversionEvent')).toHaveLength(1);
+  });
+
+  it('処理に失敗したイベントは再試行時刻まで待ち、上限に達したら DEAD にする。DEAD は再実行できる', async () => {
+    await receiveTiktok({
+      event_id: 'evt-bad',
+      event: 'ad.review_status_update',
+    });
+    const start = new Date();
+
+    const [failed] = await webhooks.processDue(start);
+    expect(failed).toMatchObject({
+      status: 'FAILED',
+      attempts: 1,
+      error: 'ad_id and review_status are required',
+    });
+    expect(failed.nextAttemptAt).toEqual(new Date(start.getTime() + 60 * 1000));
+    // 再試行時刻前は処理しない
+    expect(await webhooks.processDue(start)).toHaveLength(0);
+
+    let last = failed;
+    for (let i = 0; i < 4; i++) {
+      [last] = await webhooks.processDue(last.nextAttemptAt!);
+    }
+    expect(last).toMatchObject({
+      status: 'DEAD',
+      attempts: 5,
+      nextAttemptAt: null,
+    });
+
+    const replayed = await webhooks.replay(last.id);
+    expect(replayed).toMatchObject({ status: 'FAILED', attempts: 1 });
+  });
+
+  it('処理済みのイベントは再実行できない', async () => {
+    await receiveTiktok({ event_id: 'evt-2', event: 'unknown.event' });
+    const [ignored] = await webhooks.processDue();
+    await receiveTiktok(reviewEvent('evt-3', 'tt-missing'));
+    const [processed] = await webhooks.processDue();
+
+    expect(ignored.status).toBe('IGNORED');
+    expect(processed.status).toBe('PROCESSED');
+    await expect(webhooks.replay(processed.id)).rejects.toThrow(
+      'Only FAILED / DEAD / IGNORED events can be replayed',
+    );
+  });
+});
@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, Activity, RefreshCw } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import {
+  getApiUsageSummary,
+  getApiLogs,
+  ApiUsageSummary,
+  ApiLogEntry,
+  ApiProvider,
+} from '@/lib/api';
+
+const PROVIDER_LABELS: Record<ApiProvider, string> = {
+  tiktok: 'TikTok',
+  'google-sheets': 'Google Sheets',
+  utage: 'UTAGE',
+};
+
+const WINDOW_OPTIONS = [
+  { label: '直近1時間', hours: 1 },
+  { label: '直近24時間', hours: 24 },
+  { label: '直近7日', hours: 24 * 7 },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatMs = (value: number | null) => (value === null ? '-' : `${value.toLocaleString()}ms`);
+
+// レート制限の目安に対するピーク時の使用率で色分け
+const utilizationClass = (value: number) => {
+  if (value >= 0.8) return 'text-red-600 font-semibold';
+  if (value >= 0.5) return 'text-yellow-600 font-semibold';
+  return 'text-gray-900';
+};
+
+// API エラーからメッセージを取り出す
+const errorMessage = (err: unknown, fallback: string) => {
+  const data = (err as { response?: { data?: { message?: string; error?: string } } })
+    .response?.data;
+  if (data?.message) return data.message;
+  if (data?.error) return data.error;
+  return err instanceof Error ? err.message : fallback;
+};
+
+export default function ApiUsagePage() {
+  const [provider, setProvider] = useState<ApiProvider | ''>('tiktok');
+  const [windowHours, setWindowHours] = useState(24);
+  const [summary, setSummary] = useState<ApiUsageSummary | null>(null);
+  const [recentErrors, setRecentErrors] = useState<ApiLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const from = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+      const [summaryData, errorLogs] = await Promise.all([
+        getApiUsageSummary({ provider: provider || undefined, from }),
+        getApiLogs({ provider: provider || undefined, errorsOnly: true, limit: 50 }),
+      ]);
+      setSummary(summaryData);
+      setRecentErrors(errorLogs);
+    } catch (err) {
+      setError(errorMessage(err, 'API利用状況の取得に失敗しました'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+  }, [provider, windowHours]);
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <h1 className="text-2xl font-bold text-gray-900">API利用状況</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              TikTok / Google Sheets / UTAGE への呼び出し量・エラー率・レイテンシを確認し、レート制限に近づいていないかを把握します（成功した呼び出しはサンプリングからの推計値）
+            </p>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* 絞り込み */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">連携先</label>
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value as ApiProvider | '')}
+                className="min-w-[200px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">すべて</option>
+                {(Object.keys(PROVIDER_LABELS) as ApiProvider[]).map((key) => (
+                  <option key={key} value={key}>
+                    {PROVIDER_LABELS[key]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">期間</label>
+              <select
+                value={windowHours}
+                onChange={(e) => setWindowHours(Number(e.target.value))}
+                className="min-w-[160px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {WINDOW_OPTIONS.map((option) => (
+                  <option key={option.hours} value={option.hours}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={fetchUsage}
+              disabled={isLoading}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:bg-gray-300 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              更新
+            </button>
+          </div>
+
+          {/* エラー表示 */}
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-semibold text-red-900 mb-1">エラー</h3>
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">データを読み込み中...</p>
+            </div>
+          ) : !summary || summary.totals.sampledCalls === 0 ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <Activity className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">期間内の呼び出し記録がありません</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* 全体 */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: '呼び出し回数（推計）', value: summary.totals.calls.toLocaleString() },
+                  {
+                    label: 'エラー率',
+                    value: `${formatPercent(summary.totals.errorRate)}（${summary.totals.errors}件）`,
+                  },
+                  { label: 'レート制限エラー', value: `${summary.totals.rateLimitErrors}件` },
+                  { label: 'p95レイテンシ', value: formatMs(summary.totals.p95DurationMs) },
+                ].map((card) => (
+                  <div key={card.label} className="bg-white rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm text-gray-600">{card.label}</p>
+                    <p className="mt-1 text-xl font-bold text-gray-900">{card.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* 広告アカウント別 */}
+              <section className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <h2 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">
+                  広告アカウント別
+                </h2>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium">広告アカウント</th>
+                      <th className="px-4 py-2 text-right font-medium">呼び出し</th>
+                      <th className="px-4 py-2 text-right font-medium">エラー率</th>
+                      <th className="px-4 py-2 text-right font-medium">レート制限</th>
+                      <th className="px-4 py-2 text-right font-medium">ピーク/分</th>
+                      <th className="px-4 py-2 text-right font-medium">上限比</th>
+                      <th className="px-4 py-2 text-right font-medium">p95</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {summary.byAdvertiser.map((row) => (
+                      <tr key={row.advertiserId ?? 'none'} className="hover:bg-gray-50">
+                        <td className="px-4 py-2 font-mono text-gray-700">
+                          {row.advertiserId ?? '（アカウント外）'}
+                        </td>
+                        <td className="px-4 py-2 text-right">{row.calls.toLocaleString()}</td>
+                        <td className="px-4 py-2 text-right">{formatPercent(row.errorRate)}</td>
+                        <td className="px-4 py-2 text-right">{row.rateLimitErrors}</td>
+                        <td className="px-4 py-2 text-right">{row.peakCallsPerMinute}</td>
+                        <td className={`px-4 py-2 text-right ${utilizationClass(row.rateLimitUtilization)}`}>
+                          {formatPercent(row.rateLimitUtilization)}
+                        </td>
+                        <td className="px-4 py-2 text-right">{formatMs(row.p95DurationMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* エラー種別 */}
+                <section className="bg-white rounded-lg border border-gray-200">
+                  <h2 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">
+                    エラー種別
+                  </h2>
+                  {summary.byErrorType.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-600">エラーはありません</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200 text-sm">
+                      {summary.byErrorType.map((row) => (
+                        <li key={row.errorType} className="px-4 py-2 flex justify-between">
+                          <span className="font-mono text-gray-700">{row.errorType}</span>
+                          <span className="text-gray-900">
+                            {row.count}件（{formatPercent(row.share)}）
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                {/* エンドポイント別 */}
+                <section className="lg:col-span-2 bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                  <h2 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">
+                    エンドポイント別
+                  </h2>
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium">エンドポイント</th>
+                        <th className="px-4 py-2 text-right font-medium">呼び出し</th>
+                        <th className="px-4 py-2 text-right font-medium">エラー率</th>
+                        <th className="px-4 py-2 text-right font-medium">p50</th>
+                        <th className="px-4 py-2 text-right font-medium">p95</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {summary.byEndpoint.slice(0, 20).map((row) => (
+                        <tr key={`${row.provider} ${row.endpoint}`} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 font-mono text-gray-700 break-all">
+                            {row.endpoint}
+                          </td>
+                          <td className="px-4 py-2 text-right">{row.calls.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right">{formatPercent(row.errorRate)}</td>
+                          <td className="px-4 py-2 text-right">{formatMs(row.p50DurationMs)}</td>
+                          <td className="px-4 py-2 text-right">{formatMs(row.p95DurationMs)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              </div>
+
+              {/* 直近のエラー */}
+              <section className="bg-white rounded-lg border border-gray-200">
+                <h2 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-200">
+                  直近のエラー
+                </h2>
+                {recentErrors.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-600">エラーはありません</p>
+                ) : (
+                  <ol className="divide-y divide-gray-200">
+                    {recentErrors.map((log) => (
+                      <li key={log.id} className="p-4 flex items-start gap-4 text-sm">
+                        <div className="w-36 flex-shrink-0 text-gray-500">
+                          {new Date(log.createdAt).toLocaleString('ja-JP')}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="px-2 py-0.5 text-xs rounded bg-red-50 text-red-700">
+                              {log.errorType}
+                            </span>
+                            <span className="font-mono text-gray-700 break-all">
+                              {log.method} {log.endpoint}
+                            </span>
+                            <span className="text-xs text-gray-500">HTTP {log.responseStatus}</span>
+                          </div>
+                          {log.error && (
+                            <p className="mt-1 text-gray-600 break-words">{log.error}</p>
+                          )}
+                          {log.advertiserId && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              広告アカウント: {log.advertiserId}
+                            </p>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </div>
+          )}
+        </main>
+      </div>
+    </AppLayout>
+  );
+}
@@ -7,15 +7,50 @@ import { PerformanceChart } from '@/components/dashboard/performance-chart';
 import { CampaignList } from '@/components/dashboard/campaign-list';
 import { useDashboardData } from '@/lib/hooks/useDashboardData';
 import { AppLayout } from '@/components/layout/AppLayout';
+import type { AttainmentStatus, ChannelType, DashboardFilters, KpiAttainment } from '@/lib/api';
+
+const CHANNELS: ChannelType[] = ['SNS', 'AI', 'SEMINAR'];
+
+const ATTAINMENT_LABELS: Record<AttainmentStatus, { label: string; className: string }> = {
+  ACHIEVED: { label: '目標達成', className: 'bg-green-100 text-green-800' },
+  WITHIN_ALLOWABLE: { label: '許容内', className: 'bg-yellow-100 text-yellow-800' },
+  OVER: { label: '許容超過', className: 'bg-red-100 text-red-800' },
+  NO_DATA: { label: '実績なし', className: 'bg-gray-100 text-gray-600' },
+  NO_TARGET: { label: '目標未設定', className: 'bg-gray-100 text-gray-600' },
+};
+
+const formatYen = (value: number | null) =>
+  value === null ? '-' : `¥${Math.round(value).toLocaleString()}`;
+
+// 変化率（算出できない場合は undefined でカードに表示しない）
+const toChange = (value: number | null | undefined) => (value === null ? undefined : value);
+
+function AttainmentCell({ attainment }: { attainment: KpiAttainment }) {
+  const { label, className } = ATTAINMENT_LABELS[attainment.status];
+  return (
+    <div className="flex items-center gap-2">
+      <span>{formatYen(attainment.value)}</span>
+      <span className={`px-2 py-0.5 rounded text-xs font-medium ${className}`}>{label}</span>
+      {attainment.target !== null && (
+        <span className="text-xs text-gray-500">目標 {formatYen(attainment.target)}</span>
+      )}
+    </div>
+  );
+}
 
 export default function DashboardPage() {
   const [selectedMetric, setSelectedMetric] = useState<'spend' | 'impressions' | 'clicks' | 'conversions'>('spend');
-  const { campaigns, kpiData, chartData, isLoading, error, isUsingMockData } = useDashboardData();
+  const [filters, setFilters] = useState<DashboardFilters>({});
+  const { campaigns, kpiData, chartData, dashboard, isLoading, error, isUsingMockData } =
+    useDashboardData(filters);
+  const changes = dashboard?.comparison.previousPeriod;
+  const dayOverDay = dashboard?.comparison.dayOverDay;
 
-  // OAuth認証不要 - 固定トークンを使用
+  const updateFilter = (patch: Partial<DashboardFilters>) =>
+    setFilters((current) => ({ ...current, ...patch }));
 
-  // ローディング状態
-  if (isLoading) {
+  // ローディング状態（初回のみ全画面。フィルター変更中は前回の表示を残す）
+  if (isLoading && !dashboard) {
     return (
       <AppLayout>
         <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -35,7 +70,15 @@ export default function DashboardPage() {
       <header className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <h1 className="text-2xl font-bold text-gray-900">TikTok広告ダッシュボード</h1>
-          <p className="text-sm text-gray-600 mt-1">広告パフォーマンスの概要（13アカウント）</p>
+          <p className="text-sm text-gray-600 mt-1">
+            広告パフォーマンスの概要
+            {dashboard && (
+              <>
+                （{dashboard.advertiserCount}アカウント・{dashboard.period.from}〜{dashboard.period.to}
+                ・最終同期 {dashboard.lastMetricDate ?? '未同期'}）
+              </>
+            )}
+          </p>
         </div>
       </header>
 
@@ -59,41 +102,97 @@ export default function DashboardPage() {
             <div>
               <h3 className="text-sm font-semibold text-yellow-900 mb-1">開発モード</h3>
               <p className="text-sm text-yellow-700">
-                認証情報が未設定のため、モックデータを表示しています。
-              </p>
-              <p className="text-xs text-yellow-600 mt-1">
-                実データを表示するには、<code className="bg-yellow-100 px-1 py-0.5 rounded">.env.local</code>にAdvertiser IDとAccess Tokenを設定してください。
+                ダッシュボードAPIに接続できないため、モックデータを表示しています。
               </p>
             </div>
           </div>
         )}
-        {/* KPI Cards */}
+        {/* 期間・導線・訴求の絞り込み */}
+        <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-end gap-4">
+          <label className="text-sm text-gray-700">
+            開始日
+            <input
+              type="date"
+              value={filters.from ?? dashboard?.period.from ?? ''}
+              onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            終了日
+            <input
+              type="date"
+              value={filters.to ?? dashboard?.period.to ?? ''}
+              onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            導線
+            <select
+              value={filters.channel ?? ''}
+              onChange={(e) =>
+                updateFilter({ channel: (e.target.value || undefined) as ChannelType | undefined })
+              }
+              className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">すべて</option>
+              {CHANNELS.map((channel) => (
+                <option key={channel} value={channel}>
+                  {channel}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            訴求
+            <select
+              value={filters.appealId ?? ''}
+              onChange={(e) => updateFilter({ appealId: e.target.value || undefined })}
+              className="mt-1 block border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">すべて</option>
+              {dashboard?.filterOptions.appeals.map((appeal) => (
+                <option key={appeal.id} value={appeal.id}>
+                  {appeal.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          {isLoading && <Loader2 className="w-5 h-5 text-blue-600 animate-spin mb-2" />}
+        </div>
+
+        {/* KPI Cards（前期間比） */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <KpiCard
             title="総広告費"
             value={kpiData.totalSpend}
-            change={5.2}
+            change={toChange(changes?.spend)}
+            changeLabel="前期間"
             icon={DollarSign}
             format="currency"
           />
           <KpiCard
             title="総インプレッション"
             value={kpiData.totalImpressions}
-            change={-2.1}
+            change={toChange(changes?.impressions)}
+            changeLabel="前期間"
             icon={TrendingUp}
             format="number"
           />
           <KpiCard
             title="総クリック数"
             value={kpiData.totalClicks}
-            change={3.8}
+            change={toChange(changes?.clicks)}
+            changeLabel="前期間"
             icon={MousePointerClick}
             format="number"
           />
           <KpiCard
             title="総コンバージョン数"
             value={kpiData.totalConversions}
-            change={8.5}
+            change={toChange(changes?.conversions)}
+            changeLabel="前期間"
             icon={Target}
             format="number"
           />
@@ -111,6 +210,72 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* 前日比（期間の最終日） */}
+        {dayOverDay && (
+          <div className="mb-8 bg-white rounded-lg border border-gray-200 p-6">
+            <h3 className="text-sm font-medium text-gray-600 mb-3">
+              前日比（{dayOverDay.date} vs {dayOverDay.previousDate}）
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              {(
+                [
+                  ['広告費', dayOverDay.changes.spend],
+                  ['CV', dayOverDay.changes.conversions],
+                  ['CPA', dayOverDay.changes.cpa],
+                  ['フロント販売', dayOverDay.changes.frontSales],
+                  ['フロントCPO', dayOverDay.changes.frontCpo],
+                ] as const
+              ).map(([label, value]) => (
+                <div key={label}>
+                  <p className="text-gray-500">{label}</p>
+                  <p className="font-semibold text-gray-900">
+                    {value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 訴求別の目標達成状況 */}
+        {dashboard && dashboard.appeals.length > 0 && (
+          <div className="mb-8 bg-white rounded-lg border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium">訴求</th>
+                  <th className="px-4 py-3 text-right font-medium">広告費</th>
+                  <th className="px-4 py-3 text-right font-medium">CV</th>
+                  <th className="px-4 py-3 text-left font-medium">CPA</th>
+                  <th className="px-4 py-3 text-right font-medium">フロント販売</th>
+                  <th className="px-4 py-3 text-left font-medium">フロントCPO</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {dashboard.appeals.map((appeal) => (
+                  <tr key={appeal.appealId}>
+                    <td className="px-4 py-3 text-gray-900">
+                      {appeal.appealName}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {appeal.channelType ?? '-'}・{appeal.advertiserCount}アカウント
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatYen(appeal.kpi.totalSpend)}</td>
+                    <td className="px-4 py-3 text-right">{appeal.kpi.totalConversions.toLocaleString()}</td>
+                    <td className="px-4 py-3">
+                      <AttainmentCell attainment={appeal.attainment.cpa} />
+                    </td>
+                    <td className="px-4 py-3 text-right">{appeal.kpi.totalFrontSales.toLocaleString()}</td>
+                    <td className="px-4 py-3">
+                      <AttainmentCell attainment={appeal.attainment.frontCpo} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* メトリクス選択 */}
         <div className="mb-4">
           <div className="flex gap-2">
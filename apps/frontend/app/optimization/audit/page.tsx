@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, History, RotateCcw, Bot, User } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import {
+  getBudgetAuditEvents,
+  rollbackBudgetAuditEvent,
+  BudgetAuditEvent,
+} from '@/lib/api';
+
+// API URLを取得
+const getApiUrl = () => {
+  if (typeof window === 'undefined') return 'http://localhost:4000';
+  return window.location.hostname === 'localhost'
+    ? 'http://localhost:4000'
+    : 'https://tik-tok-ads-automation-backend.vercel.app';
+};
+
+interface Advertiser {
+  id: string;
+  tiktokAdvertiserId: string;
+  name: string;
+  status: string;
+}
+
+const ENTITY_LABELS: Record<BudgetAuditEvent['entityType'], string> = {
+  AD: '広告',
+  ADGROUP: '広告セット',
+  CAMPAIGN: 'キャンペーン',
+};
+
+// 予算は円表記、ステータスはそのまま
+const formatValue = (event: BudgetAuditEvent, value: number | string | null) => {
+  if (value === null) return '-';
+  if (event.field === 'BUDGET') return `¥${Number(value).toLocaleString()}`;
+  return value === 'ENABLE' ? '配信中' : '停止';
+};
+
+// API エラーからメッセージを取り出す
+const errorMessage = (err: unknown, fallback: string) => {
+  const data = (err as { response?: { data?: { message?: string; error?: string } } })
+    .response?.data;
+  if (data?.message) return data.message;
+  if (data?.error) return data.error;
+  return err instanceof Error ? err.message : fallback;
+};
+
+export default function BudgetAuditPage() {
+  // アカウント選択関連
+  const [advertisers, setAdvertisers] = useState<Advertiser[]>([]);
+  const [selectedAdvertiserId, setSelectedAdvertiserId] = useState<string | null>(null);
+  const [isLoadingAdvertisers, setIsLoadingAdvertisers] = useState(true);
+
+  const [events, setEvents] = useState<BudgetAuditEvent[]>([]);
+  const [entityFilter, setEntityFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ロールバック確認
+  const [rollbackTarget, setRollbackTarget] = useState<BudgetAuditEvent | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  // アカウント一覧を取得
+  useEffect(() => {
+    fetchAdvertisers();
+  }, []);
+
+  const fetchAdvertisers = async () => {
+    try {
+      setIsLoadingAdvertisers(true);
+      const response = await fetch(`${getApiUrl()}/api/advertisers`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch advertisers');
+      }
+      const result = await response.json();
+      const advertisersData: Advertiser[] = result.success ? result.data : result;
+
+      // アクティブなアカウントのみフィルタ
+      const activeAdvertisers = advertisersData.filter((adv) => adv.status === 'ACTIVE');
+      setAdvertisers(activeAdvertisers);
+
+      // 最初のアカウントを自動選択
+      if (activeAdvertisers.length > 0 && !selectedAdvertiserId) {
+        setSelectedAdvertiserId(activeAdvertisers[0].tiktokAdvertiserId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'アカウントの取得に失敗しました');
+    } finally {
+      setIsLoadingAdvertisers(false);
+    }
+  };
+
+  // タイムライン取得
+  const fetchEvents = async () => {
+    if (!selectedAdvertiserId) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await getBudgetAuditEvents(selectedAdvertiserId, {
+        entityId: entityFilter.trim() || undefined,
+      });
+      setEvents(data);
+    } catch (err) {
+      setError(errorMessage(err, '変更履歴の取得に失敗しました'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (selectedAdvertiserId) {
+      fetchEvents();
+    }
+  }, [selectedAdvertiserId]);
+
+  // ロールバック実行
+  const handleRollback = async () => {
+    if (!rollbackTarget || !selectedAdvertiserId) return;
+
+    setIsRollingBack(true);
+    setError(null);
+
+    try {
+      await rollbackBudgetAuditEvent(selectedAdvertiserId, rollbackTarget.id);
+      setRollbackTarget(null);
+      await fetchEvents();
+    } catch (err) {
+      setError(errorMessage(err, 'ロールバックに失敗しました'));
+      setRollbackTarget(null);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  // ローディング中
+  if (isLoadingAdvertisers) {
+    return (
+      <AppLayout>
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <div className="text-center">
+            <Loader2 className="w-12 h-12 text-blue-600 animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">アカウント情報を読み込み中...</p>
+          </div>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <h1 className="text-2xl font-bold text-gray-900">予算変更履歴</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              予算調整・日中停止・日予算リセット・手動操作による予算とステータスの変更を時系列で確認し、取り消せます
+            </p>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* アカウント選択・絞り込み */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                広告アカウント
+              </label>
+              {advertisers.length === 0 ? (
+                <p className="text-gray-600 text-sm">アクティブな広告アカウントがありません</p>
+              ) : (
+                <select
+                  value={selectedAdvertiserId || ''}
+                  onChange={(e) => setSelectedAdvertiserId(e.target.value)}
+                  className="min-w-[300px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {advertisers.map((adv) => (
+                    <option key={adv.id} value={adv.tiktokAdvertiserId}>
+                      {adv.name} ({adv.tiktokAdvertiserId})
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                広告 / 広告セット / キャンペーンID
+              </label>
+              <input
+                type="text"
+                value={entityFilter}
+                onChange={(e) => setEntityFilter(e.target.value)}
+                placeholder="すべて"
+                className="min-w-[240px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={fetchEvents}
+              disabled={!selectedAdvertiserId}
+              className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:bg-gray-300 transition-colors"
+            >
+              絞り込み
+            </button>
+          </div>
+
+          {/* エラー表示 */}
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-semibold text-red-900 mb-1">エラー</h3>
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">データを読み込み中...</p>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <History className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">変更履歴がありません</p>
+            </div>
+          ) : (
+            /* タイムライン */
+            <ol className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+              {events.map((event) => (
+                <li key={event.id} className="p-4 flex items-start gap-4 hover:bg-gray-50">
+                  <div className="w-36 flex-shrink-0 text-sm text-gray-500">
+                    {new Date(event.at).toLocaleString('ja-JP')}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700">
+                        {ENTITY_LABELS[event.entityType]}
+                      </span>
+                      <span className="text-sm font-mono text-gray-700">{event.entityId}</span>
+                      <span className="text-xs text-gray-500">{event.action}</span>
+                    </div>
+                    <p className="mt-1 text-sm font-medium text-gray-900">
+                      {event.field === 'BUDGET' ? '日予算' : 'ステータス'}:{' '}
+                      {formatValue(event, event.before)} → {formatValue(event, event.after)}
+                    </p>
+                    {event.reason && (
+                      <p className="mt-1 text-sm text-gray-600 break-words">{event.reason}</p>
+                    )}
+                    {event.error && (
+                      <p className="mt-1 text-sm text-red-600">失敗: {event.error}</p>
+                    )}
+                    <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                      <span className="inline-flex items-center gap-1">
+                        {event.actor.type === 'USER' ? (
+                          <User className="w-3 h-3" />
+                        ) : (
+                          <Bot className="w-3 h-3" />
+                        )}
+                        {event.actor.name}
+                      </span>
+                      {event.ruleId && <span>ルール: {event.ruleId}</span>}
+                    </div>
+                  </div>
+                  {!event.error && event.before !== null && (
+                    <button
+                      onClick={() => setRollbackTarget(event)}
+                      className="flex-shrink-0 inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      元に戻す
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </main>
+
+        {/* ロールバック確認モーダル */}
+        {rollbackTarget && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">変更を取り消しますか？</h2>
+              <p className="text-sm text-gray-600 mb-6">
+                {ENTITY_LABELS[rollbackTarget.entityType]} {rollbackTarget.entityId} の
+                {rollbackTarget.field === 'BUDGET' ? '日予算' : 'ステータス'}を{' '}
+                {formatValue(rollbackTarget, rollbackTarget.after)} から{' '}
+                {formatValue(rollbackTarget, rollbackTarget.before)} に戻します。
+              </p>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setRollbackTarget(null)}
+                  disabled={isRollingBack}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  キャンセル
+                </button>
+                <button
+                  onClick={handleRollback}
+                  disabled={isRollingBack}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-red-300"
+                >
+                  {isRollingBack && <Loader2 className="w-4 h-4 animate-spin" />}
+                  元に戻す
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, PauseCircle, PlayCircle, Plus } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import {
+  getAutomationSubsystems,
+  getAutomationPauses,
+  createAutomationPause,
+  releaseAutomationPause,
+  AutomationPause,
+  AutomationSubsystem,
+} from '@/lib/api';
+
+// API URLを取得
+const getApiUrl = () => {
+  if (typeof window === 'undefined') return 'http://localhost:4000';
+  return window.location.hostname === 'localhost'
+    ? 'http://localhost:4000'
+    : 'https://tik-tok-ads-automation-backend.vercel.app';
+};
+
+interface Advertiser {
+  id: string;
+  tiktokAdvertiserId: string;
+  name: string;
+  status: string;
+}
+
+// API エラーからメッセージを取り出す
+const errorMessage = (err: unknown, fallback: string) => {
+  const data = (err as { response?: { data?: { message?: string; error?: string } } })
+    .response?.data;
+  if (data?.message) return data.message;
+  if (data?.error) return data.error;
+  return err instanceof Error ? err.message : fallback;
+};
+
+const isActive = (pause: AutomationPause) =>
+  !pause.releasedAt && (!pause.expiresAt || new Date(pause.expiresAt) > new Date());
+
+export default function AutomationControlPage() {
+  const [advertisers, setAdvertisers] = useState<Advertiser[]>([]);
+  const [subsystems, setSubsystems] = useState<AutomationSubsystem[]>([]);
+  const [pauses, setPauses] = useState<AutomationPause[]>([]);
+  const [showInactive, setShowInactive] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 登録フォーム
+  const [advertiserId, setAdvertiserId] = useState('');
+  const [subsystem, setSubsystem] = useState('');
+  const [reason, setReason] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [releasingId, setReleasingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMasters();
+  }, []);
+
+  useEffect(() => {
+    fetchPauses();
+  }, [showInactive]);
+
+  const fetchMasters = async () => {
+    try {
+      const [advResponse, subsystemList] = await Promise.all([
+        fetch(`${getApiUrl()}/api/advertisers`),
+        getAutomationSubsystems(),
+      ]);
+      if (!advResponse.ok) {
+        throw new Error('Failed to fetch advertisers');
+      }
+      const result = await advResponse.json();
+      const advertisersData: Advertiser[] = result.success ? result.data : result;
+      setAdvertisers(advertisersData.filter((adv) => adv.status === 'ACTIVE'));
+      setSubsystems(subsystemList);
+    } catch (err) {
+      setError(errorMessage(err, 'アカウントの取得に失敗しました'));
+    }
+  };
+
+  const fetchPauses = async () => {
+    setIsLoading(true);
+    try {
+      setPauses(await getAutomationPauses(showInactive));
+    } catch (err) {
+      setError(errorMessage(err, '一時停止の取得に失敗しました'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!reason.trim()) {
+      setError('理由を入力してください');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createAutomationPause({
+        advertiserId: advertiserId || null,
+        subsystem: subsystem || null,
+        reason: reason.trim(),
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      });
+      setReason('');
+      setExpiresAt('');
+      await fetchPauses();
+    } catch (err) {
+      setError(errorMessage(err, '一時停止の登録に失敗しました'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRelease = async (id: string) => {
+    setReleasingId(id);
+    setError(null);
+    try {
+      await releaseAutomationPause(id);
+      await fetchPauses();
+    } catch (err) {
+      setError(errorMessage(err, '一時停止の解除に失敗しました'));
+    } finally {
+      setReleasingId(null);
+    }
+  };
+
+  const advertiserLabel = (id: string | null) => {
+    if (!id) return '全アカウント';
+    const adv = advertisers.find((a) => a.tiktokAdvertiserId === id);
+    return adv ? `${adv.name} (${id})` : id;
+  };
+
+  const subsystemLabel = (id: string | null) =>
+    id ? (subsystems.find((s) => s.id === id)?.label ?? id) : 'すべての自動化';
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <h1 className="text-2xl font-bold text-gray-900">自動化の一時停止</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              ローンチ・障害対応中に予算調整・日中停止・日予算リセット・アラートを全体またはアカウント単位で止めます
+            </p>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* 登録フォーム */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                広告アカウント
+              </label>
+              <select
+                value={advertiserId}
+                onChange={(e) => setAdvertiserId(e.target.value)}
+                className="min-w-[260px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">全アカウント</option>
+                {advertisers.map((adv) => (
+                  <option key={adv.id} value={adv.tiktokAdvertiserId}>
+                    {adv.name} ({adv.tiktokAdvertiserId})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">対象</label>
+              <select
+                value={subsystem}
+                onChange={(e) => setSubsystem(e.target.value)}
+                className="min-w-[240px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">すべての自動化</option>
+                {subsystems.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">期限</label>
+              <input
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex-1 min-w-[240px]">
+              <label className="block text-sm font-medium text-gray-700 mb-2">理由</label>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="例: 新LPローンチ中のため"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-red-300 transition-colors"
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              一時停止
+            </button>
+          </div>
+
+          {/* エラー表示 */}
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-semibold text-red-900 mb-1">エラー</h3>
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          <label className="mb-3 inline-flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+            />
+            解除済み・期限切れも表示
+          </label>
+
+          {isLoading ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">データを読み込み中...</p>
+            </div>
+          ) : pauses.length === 0 ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <PlayCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+              <p className="text-gray-600">一時停止中の自動化はありません</p>
+            </div>
+          ) : (
+            <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+              {pauses.map((pause) => (
+                <li key={pause.id} className="p-4 flex items-start gap-4">
+                  <PauseCircle
+                    className={`w-5 h-5 flex-shrink-0 mt-0.5 ${
+                      isActive(pause) ? 'text-red-600' : 'text-gray-300'
+                    }`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {advertiserLabel(pause.advertiserId)} / {subsystemLabel(pause.subsystem)}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-600 break-words">{pause.reason}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      登録: {new Date(pause.createdAt).toLocaleString('ja-JP')}
+                      {' / '}
+                      期限:{' '}
+                      {pause.expiresAt
+                        ? new Date(pause.expiresAt).toLocaleString('ja-JP')
+                        : '手動解除まで'}
+                      {pause.releasedAt &&
+                        ` / 解除: ${new Date(pause.releasedAt).toLocaleString('ja-JP')}`}
+                    </p>
+                  </div>
+                  {isActive(pause) && (
+                    <button
+                      onClick={() => handleRelease(pause.id)}
+                      disabled={releasingId === pause.id}
+                      className="flex-shrink-0 inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      {releasingId === pause.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <PlayCircle className="w-4 h-4" />
+                      )}
+                      解除
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+      </div>
+    </AppLayout>
+  );
+}
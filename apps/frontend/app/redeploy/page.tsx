@@ -0,0 +1,424 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, Eye, FlaskConical, Play, RotateCcw } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import {
+  getRedeployPreview,
+  runRedeploy,
+  runRedeployBatch,
+  resumeRedeploy,
+  getRedeployLogs,
+  AgePreset,
+  RedeployItem,
+  RedeployLog,
+  RedeployPreview,
+  RedeployResult,
+} from '@/lib/api';
+
+// API URLを取得
+const getApiUrl = () => {
+  if (typeof window === 'undefined') return 'http://localhost:4000';
+  return window.location.hostname === 'localhost'
+    ? 'http://localhost:4000'
+    : 'https://tik-tok-ads-automation-backend.vercel.app';
+};
+
+interface Advertiser {
+  id: string;
+  tiktokAdvertiserId: string;
+  name: string;
+  status: string;
+}
+
+const AGE_PRESETS: AgePreset[] = ['25-54', '25-44', '25-34', '35-44'];
+
+const STATUS_LABELS: Record<RedeployLog['status'], string> = {
+  PENDING: '開始',
+  CR_RESERVED: 'CR番号予約済み',
+  UTAGE_CREATED: '登録経路作成済み',
+  CAMPAIGN_CREATED: 'キャンペーン作成済み',
+  ADGROUP_CREATED: '広告グループ作成済み',
+  COMPLETED: '完了',
+  FAILED: '失敗',
+};
+
+// API エラーからメッセージを取り出す
+const errorMessage = (err: unknown, fallback: string) => {
+  const data = (err as { response?: { data?: { message?: string; error?: string } } })
+    .response?.data;
+  if (data?.message) return data.message;
+  if (data?.error) return data.error;
+  return err instanceof Error ? err.message : fallback;
+};
+
+export default function RedeployPage() {
+  const [advertisers, setAdvertisers] = useState<Advertiser[]>([]);
+  const [logs, setLogs] = useState<RedeployLog[]>([]);
+  const [isLoadingLogs, setIsLoadingLogs] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 入力フォーム
+  const [advertiserId, setAdvertiserId] = useState('');
+  const [sourceAdIds, setSourceAdIds] = useState('');
+  const [dailyBudget, setDailyBudget] = useState('');
+  const [agePreset, setAgePreset] = useState<AgePreset>('25-54');
+
+  const [previews, setPreviews] = useState<RedeployPreview[]>([]);
+  const [results, setResults] = useState<RedeployResult[]>([]);
+  const [runningAction, setRunningAction] = useState<'preview' | 'dry-run' | 'run' | null>(null);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAdvertisers();
+  }, []);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [advertiserId]);
+
+  const fetchAdvertisers = async () => {
+    try {
+      const response = await fetch(`${getApiUrl()}/api/advertisers`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch advertisers');
+      }
+      const result = await response.json();
+      const advertisersData: Advertiser[] = result.success ? result.data : result;
+      setAdvertisers(advertisersData.filter((adv) => adv.status === 'ACTIVE'));
+    } catch (err) {
+      setError(errorMessage(err, 'アカウントの取得に失敗しました'));
+    }
+  };
+
+  const fetchLogs = async () => {
+    setIsLoadingLogs(true);
+    try {
+      setLogs(await getRedeployLogs({ advertiserId: advertiserId || undefined }));
+    } catch (err) {
+      setError(errorMessage(err, '再出稿ログの取得に失敗しました'));
+    } finally {
+      setIsLoadingLogs(false);
+    }
+  };
+
+  // 1行1広告IDで入力された元広告を再出稿の対象にする
+  const buildItems = (): RedeployItem[] | null => {
+    const ids = sourceAdIds
+      .split('\n')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (!advertiserId || ids.length === 0) {
+      setError('広告アカウントと元広告IDを入力してください');
+      return null;
+    }
+    return ids.map((sourceAdId) => ({
+      advertiserId,
+      sourceAdId,
+      dailyBudget: dailyBudget ? Number(dailyBudget) : undefined,
+      agePreset,
+    }));
+  };
+
+  const handlePreview = async () => {
+    const items = buildItems();
+    if (!items) return;
+    setRunningAction('preview');
+    setError(null);
+    try {
+      setPreviews(await Promise.all(items.map((item) => getRedeployPreview(item))));
+    } catch (err) {
+      setError(errorMessage(err, 'プレビューの取得に失敗しました'));
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleRun = async (dryRun: boolean) => {
+    const items = buildItems();
+    if (!items) return;
+    if (!dryRun && !confirm(`${items.length}件の広告を再出稿します。よろしいですか？`)) return;
+    setRunningAction(dryRun ? 'dry-run' : 'run');
+    setError(null);
+    try {
+      const data =
+        items.length === 1
+          ? [await runRedeploy(items[0], dryRun)]
+          : (await runRedeployBatch(items, dryRun)).results;
+      setResults(data);
+      await fetchLogs();
+    } catch (err) {
+      setError(errorMessage(err, '再出稿に失敗しました'));
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleResume = async (logId: string) => {
+    setResumingId(logId);
+    setError(null);
+    try {
+      const result = await resumeRedeploy(logId);
+      setResults([result]);
+      await fetchLogs();
+    } catch (err) {
+      setError(errorMessage(err, '再開に失敗しました'));
+    } finally {
+      setResumingId(null);
+    }
+  };
+
+  const advertiserLabel = (id: string) => {
+    const adv = advertisers.find((a) => a.tiktokAdvertiserId === id);
+    return adv ? adv.name : id;
+  };
+
+  return (
+    <AppLayout>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <h1 className="text-2xl font-bold text-gray-900">同一アカウント再出稿</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              元広告の動画をそのまま使い、新しいCR番号・UTAGE登録経路で Smart+ 広告を作り直します
+            </p>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* 入力フォーム */}
+          <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  広告アカウント
+                </label>
+                <select
+                  value={advertiserId}
+                  onChange={(e) => setAdvertiserId(e.target.value)}
+                  className="min-w-[260px] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">選択してください</option>
+                  {advertisers.map((adv) => (
+                    <option key={adv.id} value={adv.tiktokAdvertiserId}>
+                      {adv.name} ({adv.tiktokAdvertiserId})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">日予算</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={dailyBudget}
+                  onChange={(e) => setDailyBudget(e.target.value)}
+                  placeholder="訴求の既定値"
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">年齢</label>
+                <select
+                  value={agePreset}
+                  onChange={(e) => setAgePreset(e.target.value as AgePreset)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {AGE_PRESETS.map((preset) => (
+                    <option key={preset} value={preset}>
+                      {preset}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                元広告ID（1行に1つ・最大20件）
+              </label>
+              <textarea
+                value={sourceAdIds}
+                onChange={(e) => setSourceAdIds(e.target.value)}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handlePreview}
+                disabled={runningAction !== null}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50 transition-colors"
+              >
+                {runningAction === 'preview' ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Eye className="w-4 h-4" />
+                )}
+                プレビュー
+              </button>
+              <button
+                onClick={() => handleRun(true)}
+                disabled={runningAction !== null}
+                className="flex items-center gap-2 px-4 py-2 border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+              >
+                {runningAction === 'dry-run' ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <FlaskConical className="w-4 h-4" />
+                )}
+                ドライラン
+              </button>
+              <button
+                onClick={() => handleRun(false)}
+                disabled={runningAction !== null}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300 transition-colors"
+              >
+                {runningAction === 'run' ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Play className="w-4 h-4" />
+                )}
+                再出稿
+              </button>
+            </div>
+          </div>
+
+          {/* エラー表示 */}
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-semibold text-red-900 mb-1">エラー</h3>
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* プレビュー */}
+          {previews.length > 0 && (
+            <section className="mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">プレビュー</h2>
+              <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">元広告</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">導線 / LP</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">動画</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-600">日予算</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">年齢</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-600">配信開始</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {previews.map((preview) => (
+                      <tr key={preview.sourceAdId}>
+                        <td className="px-4 py-2 text-gray-900">{preview.sourceAdName}</td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {preview.appeal} / LP{preview.lpNumber}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-700">
+                          {preview.videoIds.length}本
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-700">
+                          ¥{preview.dailyBudget.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{preview.agePreset}</td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {preview.deliveryDate}
+                          {preview.startsNextDay && '（翌日0時から）'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {/* 実行結果 */}
+          {results.length > 0 && (
+            <section className="mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">実行結果</h2>
+              <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+                {results.map((result) => (
+                  <li key={result.logId} className="p-4 text-sm">
+                    <p
+                      className={`font-medium ${
+                        result.status === 'SUCCESS' ? 'text-green-700' : 'text-red-700'
+                      }`}
+                    >
+                      {result.status === 'SUCCESS' ? '成功' : '失敗'}
+                      {result.dryRun && '（ドライラン）'}: {result.adName ?? result.sourceAdId}
+                    </p>
+                    {result.status === 'SUCCESS' && !result.dryRun && (
+                      <p className="mt-1 text-gray-600">
+                        登録経路: {result.utagePath} / 広告ID: {result.adId}
+                      </p>
+                    )}
+                    {result.error && (
+                      <p className="mt-1 text-red-600">
+                        {result.failedStep}: {result.error}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {/* 再出稿ログ */}
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">再出稿ログ</h2>
+          {isLoadingLogs ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <Loader2 className="w-8 h-8 text-blue-600 animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">データを読み込み中...</p>
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+              <p className="text-gray-600">再出稿ログはありません</p>
+            </div>
+          ) : (
+            <ul className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-200">
+              {logs.map((log) => (
+                <li key={log.id} className="p-4 flex items-start gap-4">
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium text-gray-900">
+                      {log.adName ?? log.sourceAdName ?? log.sourceAdId}
+                      {log.dryRun && <span className="ml-2 text-xs text-gray-500">ドライラン</span>}
+                    </p>
+                    <p className="mt-1 text-gray-600">
+                      {advertiserLabel(log.advertiserId)} / {STATUS_LABELS[log.status]}
+                      {log.failedStep && `（${log.failedStep}）`}
+                    </p>
+                    {log.errorMessage && (
+                      <p className="mt-1 text-red-600 break-words">{log.errorMessage}</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">
+                      {new Date(log.createdAt).toLocaleString('ja-JP')}
+                    </p>
+                  </div>
+                  {log.status === 'FAILED' && !log.dryRun && (
+                    <button
+                      onClick={() => handleResume(log.id)}
+                      disabled={resumingId === log.id}
+                      className="flex-shrink-0 inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      {resumingId === log.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4" />
+                      )}
+                      再開
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+      </div>
+    </AppLayout>
+  );
+}
@@ -4,11 +4,13 @@ interface KpiCardProps {
   title: string;
   value: string | number;
   change?: number;
+  // 変化率の比較対象（既定: 前日）
+  changeLabel?: string;
   icon: LucideIcon;
   format?: 'number' | 'currency' | 'percentage';
 }
 
-export function KpiCard({ title, value, change, icon: Icon, format = 'number' }: KpiCardProps) {
+export function KpiCard({ title, value, change, changeLabel = '前日', icon: Icon, format = 'number' }: KpiCardProps) {
   const formattedValue = () => {
     if (typeof value === 'number') {
       switch (format) {
@@ -34,7 +36,7 @@ export function KpiCard({ title, value, change, icon: Icon, format = 'number' }:
           <p className="text-2xl font-bold text-gray-900">{formattedValue()}</p>
           {change !== undefined && (
             <p className={`text-sm font-medium mt-2 ${changeColor}`}>
-              {changePrefix}{change.toFixed(1)}% vs 前日
+              {changePrefix}{change.toFixed(1)}% vs {changeLabel}
             </p>
           )}
         </div>
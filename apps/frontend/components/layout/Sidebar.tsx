@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Target, Megaphone, Image, Sliders, TrendingUp, DollarSign, ChevronDown, UserX, Zap } from 'lucide-react';
+import { LayoutDashboard, Target, Megaphone, Image, Sliders, TrendingUp, DollarSign, ChevronDown, UserX, Zap, RotateCcw, Activity } from 'lucide-react';
 import { useAuth } from '@/lib/context/AuthContext';
 import { NotificationPanel } from '@/components/notifications/NotificationPanel';
 import { useState } from 'react';
@@ -42,6 +42,8 @@ const menuItems: MenuItem[] = [
     subItems: [
       { name: '予算調整実行', href: '/optimization' },
       { name: 'CR除外設定', href: '/optimization/exclusions' },
+      { name: '予算変更履歴', href: '/optimization/audit' },
+      { name: '自動化の一時停止', href: '/optimization/automation-control' },
     ],
   },
   {
@@ -63,6 +65,16 @@ const menuItems: MenuItem[] = [
     href: '/streamlined-creator',
     icon: Zap,
   },
+  {
+    name: '同一アカウント再出稿',
+    href: '/redeploy',
+    icon: RotateCcw,
+  },
+  {
+    name: 'API利用状況',
+    href: '/api-usage',
+    icon: Activity,
+  },
 ];
 
 export function Sidebar() {
@@ -440,3 +440,424 @@ export async function getCreatorStopRates(options?: {
   const response = await apiClient.get(`/api/creator-stop-rate${query ? `?${query}` : ''}`);
   return response.data;
 }
+
+// ============================================================================
+// 予算変更監査API
+// ============================================================================
+
+export interface BudgetAuditEvent {
+  id: string;
+  at: string;
+  advertiserId: string | null;
+  entityType: 'AD' | 'ADGROUP' | 'CAMPAIGN';
+  entityId: string;
+  field: 'BUDGET' | 'STATUS';
+  action: string;
+  before: number | string | null;
+  after: number | string | null;
+  actor: { type: 'JOB' | 'USER'; name: string; userId: string | null };
+  ruleId: string | null;
+  reason: string | null;
+  error: string | null;
+  rollbackOfId: string | null;
+}
+
+// 予算・ステータス変更タイムライン取得
+export async function getBudgetAuditEvents(
+  advertiserId: string,
+  options?: { entityType?: string; entityId?: string; limit?: number }
+): Promise<BudgetAuditEvent[]> {
+  const params = new URLSearchParams();
+  if (options?.entityType) params.append('entityType', options.entityType);
+  if (options?.entityId) params.append('entityId', options.entityId);
+  if (options?.limit) params.append('limit', String(options.limit));
+  const query = params.toString();
+  const response = await apiClient.get(
+    `/api/budget-audit/advertisers/${advertiserId}/events${query ? `?${query}` : ''}`
+  );
+  return response.data.data;
+}
+
+// 変更を取り消して変更前の予算・ステータスに戻す
+export async function rollbackBudgetAuditEvent(
+  advertiserId: string,
+  eventId: string
+): Promise<{ event: BudgetAuditEvent }> {
+  const response = await apiClient.post(
+    `/api/budget-audit/advertisers/${advertiserId}/events/${eventId}/rollback`
+  );
+  return response.data.data;
+}
+
+// ============================================================================
+// 自動化の一時停止（キルスイッチ）
+// ============================================================================
+
+export interface AutomationSubsystem {
+  id: string;
+  label: string;
+}
+
+export interface AutomationPause {
+  id: string;
+  advertiserId: string | null;
+  subsystem: string | null;
+  reason: string;
+  expiresAt: string | null;
+  createdById: string | null;
+  releasedAt: string | null;
+  releasedById: string | null;
+  createdAt: string;
+}
+
+// 一時停止できるサブシステム
+export async function getAutomationSubsystems(): Promise<AutomationSubsystem[]> {
+  const response = await apiClient.get('/api/automation-control/subsystems');
+  return response.data.data;
+}
+
+// 一時停止の一覧
+export async function getAutomationPauses(
+  includeInactive = false
+): Promise<AutomationPause[]> {
+  const response = await apiClient.get(
+    `/api/automation-control/pauses${includeInactive ? '?includeInactive=true' : ''}`
+  );
+  return response.data.data;
+}
+
+// 一時停止を登録（advertiserId 省略で全アカウント、subsystem 省略ですべて）
+export async function createAutomationPause(data: {
+  advertiserId?: string | null;
+  subsystem?: string | null;
+  reason: string;
+  expiresAt?: string | null;
+}): Promise<AutomationPause> {
+  const response = await apiClient.post('/api/automation-control/pauses', data);
+  return response.data.data;
+}
+
+// 一時停止を解除
+export async function releaseAutomationPause(id: string): Promise<AutomationPause> {
+  const response = await apiClient.post(`/api/automation-control/pauses/${id}/release`);
+  return response.data.data;
+}
+
+// ============================================================================
+// 外部API呼び出しログ（呼び出し量・エラー率・レイテンシ）
+// ============================================================================
+
+export type ApiProvider = 'tiktok' | 'google-sheets' | 'utage';
+
+export interface ApiUsageStats {
+  calls: number;
+  sampledCalls: number;
+  errors: number;
+  errorRate: number;
+  rateLimitErrors: number;
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+}
+
+export interface ApiUsageSummary {
+  from: string;
+  to: string;
+  totals: ApiUsageStats;
+  byProvider: (ApiUsageStats & { provider: string })[];
+  byAdvertiser: (ApiUsageStats & {
+    advertiserId: string | null;
+    peakCallsPerMinute: number;
+    rateLimitUtilization: number;
+  })[];
+  byEndpoint: (ApiUsageStats & { provider: string; endpoint: string })[];
+  byErrorType: { errorType: string; count: number; share: number }[];
+}
+
+export interface ApiLogEntry {
+  id: string;
+  provider: string;
+  endpoint: string;
+  method: string;
+  responseStatus: number;
+  duration: number;
+  advertiserId: string | null;
+  error: string | null;
+  errorType: string | null;
+  createdAt: string;
+}
+
+// 期間内の呼び出し量・エラー種別・p95レイテンシ（既定: 直近24時間）
+export async function getApiUsageSummary(options?: {
+  provider?: ApiProvider;
+  from?: string;
+  to?: string;
+}): Promise<ApiUsageSummary> {
+  const params = new URLSearchParams();
+  if (options?.provider) params.append('provider', options.provider);
+  if (options?.from) params.append('from', options.from);
+  if (options?.to) params.append('to', options.to);
+  const query = params.toString();
+  const response = await apiClient.get(`/api/api-logs/summary${query ? `?${query}` : ''}`);
+  return response.data.data;
+}
+
+// 記録された呼び出し（新しい順）
+export async function getApiLogs(options?: {
+  provider?: ApiProvider;
+  advertiserId?: string;
+  errorsOnly?: boolean;
+  limit?: number;
+}): Promise<ApiLogEntry[]> {
+  const params = new URLSearchParams();
+  if (options?.provider) params.append('provider', options.provider);
+  if (options?.advertiserId) params.append('advertiserId', options.advertiserId);
+  if (options?.errorsOnly) params.append('errorsOnly', 'true');
+  if (options?.limit) params.append('limit', String(options.limit));
+  const query = params.toString();
+  const response = await apiClient.get(`/api/api-logs${query ? `?${query}` : ''}`);
+  return response.data.data;
+}
+
+// ============================================================================
+// ダッシュボード（同期済みデータの集計）
+// ============================================================================
+
+export type ChannelType = 'SNS' | 'AI' | 'SEMINAR';
+
+export interface DashboardPeriod {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface DashboardKpi {
+  totalSpend: number;
+  totalImpressions: number;
+  totalClicks: number;
+  totalConversions: number;
+  totalFrontSales: number;
+  totalIndividualReservations: number;
+  avgCtr: number;
+  avgCpa: number;
+  frontCpo: number | null;
+}
+
+// 比較対象からの変化率（%）。算出できない指標は null
+export interface KpiChanges {
+  spend: number | null;
+  impressions: number | null;
+  clicks: number | null;
+  conversions: number | null;
+  frontSales: number | null;
+  cpa: number | null;
+  frontCpo: number | null;
+}
+
+export type AttainmentStatus = 'ACHIEVED' | 'WITHIN_ALLOWABLE' | 'OVER' | 'NO_DATA' | 'NO_TARGET';
+
+export interface KpiAttainment {
+  value: number | null;
+  target: number | null;
+  allowable: number | null;
+  status: AttainmentStatus;
+  ratioToTarget: number | null;
+}
+
+export interface DashboardCampaign extends Campaign {
+  advertiserName: string;
+  appealName: string | null;
+  adGroupCount: number;
+  spend: number;
+  conversions: number;
+  frontSales: number;
+}
+
+export interface DashboardAppealSummary {
+  appealId: string;
+  appealName: string;
+  channelType: ChannelType | null;
+  advertiserCount: number;
+  kpi: DashboardKpi;
+  attainment: { cpa: KpiAttainment; frontCpo: KpiAttainment };
+}
+
+export interface DashboardResponse {
+  period: DashboardPeriod;
+  previousPeriod: DashboardPeriod;
+  filters: { channel: ChannelType | null; appealId: string | null; advertiserIds: string[] };
+  filterOptions: {
+    appeals: Array<{ id: string; name: string; channelType: ChannelType | null }>;
+    advertisers: Array<{ id: string; tiktokAdvertiserId: string; name: string; appealId: string | null }>;
+  };
+  advertiserCount: number;
+  lastMetricDate: string | null;
+  kpiData: DashboardKpi;
+  comparison: {
+    previousPeriod: KpiChanges;
+    dayOverDay: { date: string; previousDate: string; changes: KpiChanges };
+  };
+  chartData: Array<{
+    date: string;
+    spend: number;
+    impressions: number;
+    clicks: number;
+    conversions: number;
+    frontSales: number;
+    individualReservations: number;
+  }>;
+  campaigns: DashboardCampaign[];
+  appeals: DashboardAppealSummary[];
+}
+
+export interface DashboardFilters {
+  from?: string;
+  to?: string;
+  channel?: ChannelType;
+  appealId?: string;
+}
+
+// 期間KPI・日別推移・前期間/前日比・訴求別の目標達成状況（既定: 直近7日）
+export async function getDashboard(filters?: DashboardFilters): Promise<DashboardResponse> {
+  const params = new URLSearchParams();
+  if (filters?.from) params.append('from', filters.from);
+  if (filters?.to) params.append('to', filters.to);
+  if (filters?.channel) params.append('channel', filters.channel);
+  if (filters?.appealId) params.append('appealId', filters.appealId);
+  const query = params.toString();
+  const response = await apiClient.get(`/api/dashboard${query ? `?${query}` : ''}`);
+  return response.data.data;
+}
+
+// ============================================================================
+// 同一アカウント再出稿（元広告の動画で新しいCR番号の広告を作る）
+// ============================================================================
+
+export type AgePreset = '25-54' | '25-44' | '25-34' | '35-44';
+
+export interface RedeployItem {
+  advertiserId: string;
+  sourceAdId: string;
+  dailyBudget?: number;
+  agePreset?: AgePreset;
+}
+
+export interface RedeployPreview {
+  advertiserId: string;
+  advertiserName: string;
+  sourceAdId: string;
+  sourceAdName: string;
+  videoIds: string[];
+  adTexts: string[];
+  channelType: ChannelType;
+  appeal: string;
+  lpNumber: number;
+  creator: string;
+  crName: string;
+  dailyBudget: number;
+  agePreset: AgePreset;
+  ageGroups: string[];
+  excludedAudienceIds: string[];
+  deliveryDate: string;
+  scheduleStartTime: string;
+  startsNextDay: boolean;
+}
+
+export interface RedeployResult {
+  logId: string;
+  batchId: string | null;
+  advertiserId: string;
+  sourceAdId: string;
+  status: 'SUCCESS' | 'FAILED';
+  dryRun: boolean;
+  adName: string | null;
+  crNumber: number | null;
+  utagePath: string | null;
+  destinationUrl: string | null;
+  campaignId: string | null;
+  adgroupId: string | null;
+  adId: string | null;
+  dailyBudget: number | null;
+  error: string | null;
+  failedStep: string | null;
+}
+
+export type RedeployStatus =
+  | 'PENDING'
+  | 'CR_RESERVED'
+  | 'UTAGE_CREATED'
+  | 'CAMPAIGN_CREATED'
+  | 'ADGROUP_CREATED'
+  | 'COMPLETED'
+  | 'FAILED';
+
+export interface RedeployLog {
+  id: string;
+  batchId: string | null;
+  advertiserId: string;
+  sourceAdId: string;
+  dryRun: boolean;
+  status: RedeployStatus;
+  failedStep: string | null;
+  errorMessage: string | null;
+  sourceAdName: string | null;
+  appeal: string | null;
+  lpNumber: number | null;
+  agePreset: string | null;
+  dailyBudget: number | null;
+  crNumber: number | null;
+  utagePath: string | null;
+  adName: string | null;
+  campaignId: string | null;
+  adgroupId: string | null;
+  adId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 再出稿内容のプレビュー（元広告・導線・LP・日予算・広告名の日付）
+export async function getRedeployPreview(item: RedeployItem): Promise<RedeployPreview> {
+  const params = new URLSearchParams({
+    advertiserId: item.advertiserId,
+    sourceAdId: item.sourceAdId,
+  });
+  if (item.dailyBudget) params.append('dailyBudget', String(item.dailyBudget));
+  if (item.agePreset) params.append('agePreset', item.agePreset);
+  const response = await apiClient.get(`/api/redeploy/preview?${params.toString()}`);
+  return response.data.data;
+}
+
+// 再出稿の実行（dryRun: 広告名の組み立てまで）
+export async function runRedeploy(item: RedeployItem, dryRun = false): Promise<RedeployResult> {
+  const response = await apiClient.post(dryRun ? '/api/redeploy/dry-run' : '/api/redeploy', item);
+  return response.data.data;
+}
+
+// 一括再出稿（最大20件・直列実行）
+export async function runRedeployBatch(
+  items: RedeployItem[],
+  dryRun = false,
+): Promise<{ batchId: string; results: RedeployResult[] }> {
+  const response = await apiClient.post('/api/redeploy/batch', { items, dryRun });
+  return response.data.data;
+}
+
+// 途中失敗した再出稿を作成済みの成果物から再開
+export async function resumeRedeploy(logId: string): Promise<RedeployResult> {
+  const response = await apiClient.post(`/api/redeploy/resume/${logId}`);
+  return response.data.data;
+}
+
+// 再出稿ログ（新しい順・最大100件）
+export async function getRedeployLogs(options?: {
+  advertiserId?: string;
+  batchId?: string;
+  status?: RedeployStatus;
+}): Promise<RedeployLog[]> {
+  const params = new URLSearchParams();
+  if (options?.advertiserId) params.append('advertiserId', options.advertiserId);
+  if (options?.batchId) params.append('batchId', options.batchId);
+  if (options?.status) params.append('status', options.status);
+  const query = params.toString();
+  const response = await apiClient.get(`/api/redeploy/logs${query ? `?${query}` : ''}`);
+  return response.data.data;
+}
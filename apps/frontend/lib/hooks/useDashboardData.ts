@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Campaign } from '../api';
+import { Campaign, DashboardFilters, DashboardResponse, getDashboard } from '../api';
 
 // モックデータ（APIが利用できない場合のフォールバック）
 const mockKpiData = {
@@ -77,18 +77,22 @@ interface DashboardData {
     clicks: number;
     conversions: number;
   }>;
+  // 実データ取得時のみ（モックデータ表示中は null）
+  dashboard: DashboardResponse | null;
   isLoading: boolean;
   error: string | null;
   isUsingMockData: boolean;
 }
 
-export function useDashboardData(): DashboardData {
+export function useDashboardData(filters: DashboardFilters = {}): DashboardData {
   const [campaigns, setCampaigns] = useState<Campaign[]>(mockCampaigns);
   const [kpiData, setKpiData] = useState(mockKpiData);
   const [chartData, setChartData] = useState(mockChartData);
+  const [dashboard, setDashboard] = useState<DashboardResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isUsingMockData, setIsUsingMockData] = useState(true);
+  const { from, to, channel, appealId } = filters;
 
   useEffect(() => {
     const fetchData = async () => {
@@ -96,30 +100,20 @@ export function useDashboardData(): DashboardData {
       setError(null);
 
       try {
-        // 新しいダッシュボードAPIエンドポイントを呼び出す
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/dashboard`);
+        // 同期済みデータを集計するダッシュボードAPI（TikTok APIは呼ばない）
+        const data = await getDashboard({ from, to, channel, appealId });
 
-        if (!response.ok) {
-          throw new Error(`API error: ${response.status}`);
-        }
+        setCampaigns(data.campaigns);
+        setKpiData(data.kpiData);
+        setChartData(data.chartData);
+        setDashboard(data);
+        setIsUsingMockData(false);
 
-        const result = await response.json();
-
-        if (result.success && result.data) {
-          const { campaigns: fetchedCampaigns, kpiData: fetchedKpiData, chartData: fetchedChartData } = result.data;
-
-          setCampaigns(fetchedCampaigns || []);
-          setKpiData(fetchedKpiData || mockKpiData);
-          setChartData(fetchedChartData || mockChartData);
-          setIsUsingMockData(false);
-
-          console.log(`実データ取得成功: ${fetchedCampaigns?.length || 0} キャンペーン`);
-        } else {
-          throw new Error(result.error || 'データの取得に失敗しました');
-        }
+        console.log(`実データ取得成功: ${data.campaigns.length} キャンペーン`);
       } catch (err: any) {
         console.error('データ取得エラー:', err);
-        setError(err.message || 'データの取得に失敗しました');
+        setError(err.response?.data?.message || err.message || 'データの取得に失敗しました');
+        setDashboard(null);
         setIsUsingMockData(true);
       } finally {
         setIsLoading(false);
@@ -127,12 +121,13 @@ export function useDashboardData(): DashboardData {
     };
 
     fetchData();
-  }, []);
+  }, [from, to, channel, appealId]);
 
   return {
     campaigns,
     kpiData,
     chartData,
+    dashboard,
     isLoading,
     error,
     isUsingMockData,